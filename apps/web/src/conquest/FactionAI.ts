@@ -3,6 +3,9 @@
  *
  * Empire: Aggressive expansion, prioritizes military strength
  * Rebels: Defensive, hit-and-run, prioritizes resource denial
+ *
+ * Both read the hyperlane network: chokepoints (planets many routes pass
+ * through) are worth more, and exposed chokepoints are defended first.
  */
 
 import type { IWorld } from "bitecs";
@@ -13,6 +16,9 @@ import {
   FLEET_STATE,
   getFleetsOfFaction,
   orderFleetMove,
+  computeChokepointScores,
+  getHyperlaneGraph,
+  findHyperlanePath,
   type ConquestFactionId
 } from "@xwingz/gameplay";
 
@@ -29,6 +35,7 @@ export interface FactionAIConfig {
   aggressiveness: number; // 0-1, how likely to attack vs defend
   expansionPriority: number; // 0-1, preference for taking new planets
   fleetConcentration: number; // 0-1, how much to group fleets together
+  chokepointPriority: number; // 0-1, how much hyperlane chokepoints matter
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -41,7 +48,8 @@ export const EMPIRE_AI_CONFIG: FactionAIConfig = {
   decisionInterval: 8,
   aggressiveness: 0.75,
   expansionPriority: 0.8,
-  fleetConcentration: 0.6
+  fleetConcentration: 0.6,
+  chokepointPriority: 0.5
 };
 
 export const REBEL_AI_CONFIG: FactionAIConfig = {
@@ -50,7 +58,8 @@ export const REBEL_AI_CONFIG: FactionAIConfig = {
   decisionInterval: 10,
   aggressiveness: 0.35,
   expansionPriority: 0.5,
-  fleetConcentration: 0.4
+  fleetConcentration: 0.4,
+  chokepointPriority: 0.8
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -85,6 +94,10 @@ class SeededRNG {
   reset(seed: number): void {
     this.state = seed;
   }
+
+  getState(): number {
+    return this.state;
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -100,6 +113,7 @@ interface PlanetAnalysis {
   defense: number;
   underAttack: boolean;
   threatLevel: number; // 0-1, how threatened this planet is
+  chokepoint: number; // 0-1, share of hyperlane routes passing through
   value: number; // 0-1, strategic value
 }
 
@@ -111,7 +125,10 @@ interface FleetAnalysis {
   isIdle: boolean;
 }
 
-function analyzePlanets(_world: IWorld, planetEids: number[]): PlanetAnalysis[] {
+function analyzePlanets(world: IWorld, planetEids: number[], config: FactionAIConfig): PlanetAnalysis[] {
+  const chokepoints = computeChokepointScores(world);
+  const lanes = getHyperlaneGraph(world);
+
   return planetEids.map((eid) => {
     const controller = (ConquestPlanet.controllingFaction[eid] ?? 0) as ConquestFactionId;
     const garrison = ConquestPlanet.garrison[eid] ?? 0;
@@ -120,11 +137,17 @@ function analyzePlanets(_world: IWorld, planetEids: number[]): PlanetAnalysis[]
     const defense = ConquestPlanet.defenseBonus[eid] ?? 0;
     const underAttack = (ConquestPlanet.underAttack[eid] ?? 0) === 1;
 
-    // Calculate threat level based on nearby enemy fleets
-    const threatLevel = underAttack ? 1.0 : 0;
+    const chokepoint = chokepoints.get(eid) ?? 0;
+
+    // Threat: under attack, or a chokepoint bordering hostile space
+    const hostileNeighbours = (lanes.get(eid) ?? []).filter((lane) => {
+      const neighbour = ConquestPlanet.controllingFaction[lane.toPlanetEid] ?? CONQUEST_FACTION.NEUTRAL;
+      return neighbour !== CONQUEST_FACTION.NEUTRAL && neighbour !== controller;
+    }).length;
+    const threatLevel = underAttack ? 1.0 : hostileNeighbours > 0 ? Math.min(0.9, 0.3 + chokepoint * 0.6) : 0;
 
-    // Strategic value based on resources and industry
-    const value = industry * 0.6 + (resources / 1000) * 0.4;
+    // Strategic value based on resources, industry and position in the lane network
+    const value = industry * 0.6 + (resources / 1000) * 0.4 + chokepoint * config.chokepointPriority * 0.5;
 
     return {
       eid,
@@ -135,6 +158,7 @@ function analyzePlanets(_world: IWorld, planetEids: number[]): PlanetAnalysis[]
       defense,
       underAttack,
       threatLevel,
+      chokepoint,
       value
     };
   });
@@ -172,7 +196,8 @@ export interface AIDecision {
 }
 
 function findBestAttackTarget(
-  _ownPlanets: PlanetAnalysis[],
+  world: IWorld,
+  fleet: FleetAnalysis,
   enemyPlanets: PlanetAnalysis[],
   neutralPlanets: PlanetAnalysis[],
   config: FactionAIConfig
@@ -182,10 +207,16 @@ function findBestAttackTarget(
 
   if (targets.length === 0) return null;
 
-  // Score each target
-  const scored = targets.map((p) => {
+  // Score each reachable target
+  const scored = targets.flatMap((p) => {
+    const route = findHyperlanePath(world, fleet.currentPlanet, p.eid);
+    if (!route) return [];
+
     let score = p.value;
 
+    // Prefer nearby targets - long routes pass through hostile stops
+    score -= Math.min(0.5, route.travelTime / 120);
+
     // Prefer weaker garrisons
     score += (1 - Math.min(1, p.garrison / 100)) * 0.5;
 
@@ -199,11 +230,12 @@ function findBestAttackTarget(
       score -= (1 - config.aggressiveness) * 0.4;
     }
 
-    return { planet: p, score };
+    return [{ planet: p, score }];
   });
 
   // Sort by score descending
   scored.sort((a, b) => b.score - a.score);
+  if (scored.length === 0) return null;
 
   return scored[0]?.planet ?? null;
 }
@@ -217,6 +249,13 @@ function findThreatenedPlanet(ownPlanets: PlanetAnalysis[]): PlanetAnalysis | nu
   return threatened[0] ?? null;
 }
 
+/** Serializable AI state for campaign saves */
+export interface FactionAIState {
+  initialSeed: number;
+  rngState: number;
+  decisionTimer: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // FactionAI Class
 // ─────────────────────────────────────────────────────────────────────────────
@@ -265,7 +304,7 @@ export class FactionAI {
     const decisions: AIDecision[] = [];
 
     // Analyze the galaxy
-    const allPlanets = analyzePlanets(world, allPlanetEids);
+    const allPlanets = analyzePlanets(world, allPlanetEids, this.config);
     const ownPlanets = allPlanets.filter((p) => p.controller === this.config.faction);
     const enemyPlanets = allPlanets.filter(
       (p) => p.controller !== CONQUEST_FACTION.NEUTRAL && p.controller !== this.config.faction
@@ -306,7 +345,7 @@ export class FactionAI {
         // Filter out already-targeted planets for better fleet distribution
         const availableEnemies = enemyPlanets.filter((p) => !targetedPlanetEids.has(p.eid));
         const availableNeutrals = neutralPlanets.filter((p) => !targetedPlanetEids.has(p.eid));
-        const target = findBestAttackTarget(ownPlanets, availableEnemies, availableNeutrals, this.config);
+        const target = findBestAttackTarget(world, fleet, availableEnemies, availableNeutrals, this.config);
         if (target) {
           targetedPlanetEids.add(target.eid);
           decisions.push({
@@ -317,10 +356,14 @@ export class FactionAI {
           });
         }
       } else {
-        // Consider reinforcing weak planets
+        // Consider reinforcing weak planets, chokepoints first
         const weakPlanet = ownPlanets
           .filter((p) => p.garrison < 50 && !targetedPlanetEids.has(p.eid))
-          .sort((a, b) => a.garrison - b.garrison)[0];
+          .sort(
+            (a, b) =>
+              a.garrison - a.chokepoint * this.config.chokepointPriority * 50 -
+              (b.garrison - b.chokepoint * this.config.chokepointPriority * 50)
+          )[0];
         if (weakPlanet) {
           targetedPlanetEids.add(weakPlanet.eid);
           decisions.push({
@@ -337,16 +380,12 @@ export class FactionAI {
   }
 
   /**
-   * Execute the decisions by issuing fleet orders
+   * Execute the decisions by issuing fleet orders (routes follow the hyperlanes)
    */
   private executeDecisions(world: IWorld, decisions: AIDecision[]): void {
     for (const decision of decisions) {
       if (decision.type === "idle") continue;
-
-      // Calculate travel time based on distance (simplified: fixed time)
-      const travelTime = 15 + this.rng.range(-3, 3);
-
-      orderFleetMove(world, decision.fleetEid, decision.targetPlanetEid, travelTime);
+      orderFleetMove(world, decision.fleetEid, decision.targetPlanetEid);
     }
   }
 
@@ -359,6 +398,27 @@ export class FactionAI {
     this.rng.reset(this.initialSeed);
   }
 
+  /**
+   * Capture RNG and timer state so a saved campaign replays identically
+   */
+  getState(): FactionAIState {
+    return {
+      initialSeed: this.initialSeed,
+      rngState: this.rng.getState(),
+      decisionTimer: this.decisionTimer
+    };
+  }
+
+  /**
+   * Restore state captured by getState()
+   */
+  restoreState(state: FactionAIState): void {
+    this.initialSeed = state.initialSeed;
+    this.rng.reset(state.rngState);
+    this.decisionTimer = state.decisionTimer;
+    this.lastDecisions = [];
+  }
+
   /**
    * Update the seed (for new game starts)
    */
@@ -3,9 +3,10 @@
  *
  * Initializes the conquest galaxy from PLANETS data,
  * manages AI factions, and provides query interface for UI.
+ * Campaigns can be serialized and restored for save/resume.
  */
 
-import { addEntity, addComponent, removeEntity, type IWorld } from "bitecs";
+import { addEntity, addComponent, removeEntity, defineQuery, type IWorld } from "bitecs";
 import { PLANETS, type PlanetDef } from "@xwingz/data";
 import {
   ConquestPlanet,
@@ -14,12 +15,34 @@ import {
   CONQUEST_FACTION,
   FLEET_STATE,
   CONQUEST_PHASE,
+  BattlePending,
+  GroundForce,
+  Hyperlane,
   conquestTick,
   setConquestSeed,
   getConquestState,
-  type ConquestFactionId
+  getPlayerBattle,
+  resolvePlayerBattle,
+  getPlayerBattleSetup,
+  serializeConquest,
+  restoreConquest,
+  buildHyperlaneNetwork,
+  orderFleetMove,
+  type ConquestFactionId,
+  type ConquestSnapshot,
+  type PlayerBattleSetup,
+  type PlayerBattleReport
 } from "@xwingz/gameplay";
-import { FactionAI, EMPIRE_AI_CONFIG, REBEL_AI_CONFIG, setAISeed } from "./FactionAI";
+import {
+  FactionAI,
+  EMPIRE_AI_CONFIG,
+  REBEL_AI_CONFIG,
+  setAISeed,
+  type FactionAIState
+} from "./FactionAI";
+
+const battlePendingQuery = defineQuery([BattlePending]);
+const groundForceQuery = defineQuery([GroundForce]);
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -46,10 +69,29 @@ export interface GalaxyFleetState {
   bomberSquadrons: number;
   currentPlanetEid: number;
   destinationPlanetEid: number;
+  finalDestinationEid: number;
   movementProgress: number;
   isPlayerFleet: boolean;
 }
 
+export interface GalaxyHyperlaneState {
+  eid: number;
+  fromPlanetEid: number;
+  toPlanetEid: number;
+  travelTime: number;
+  isMajorRoute: boolean;
+}
+
+export interface GalaxyBattleState {
+  eid: number;
+  planetEid: number;
+  planetIndex: number;
+  battleType: number;
+  attackerFaction: ConquestFactionId;
+  defenderFaction: ConquestFactionId;
+  playerInvolved: boolean;
+}
+
 export interface GalaxyOverview {
   gameTime: number;
   phase: number;
@@ -61,6 +103,14 @@ export interface GalaxyOverview {
   playerFaction: ConquestFactionId;
 }
 
+/** Everything needed to resume a campaign exactly where it left off */
+export interface GalaxySaveData {
+  playerFaction: ConquestFactionId;
+  world: ConquestSnapshot;
+  empireAI: FactionAIState;
+  rebelAI: FactionAIState;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Galaxy Simulation Class
 // ─────────────────────────────────────────────────────────────────────────────
@@ -69,6 +119,7 @@ export class GalaxySimulation {
   private world: IWorld;
   private planetEids: number[] = [];
   private fleetEids: number[] = [];
+  private hyperlaneEids: number[] = [];
   private stateEid: number = -1;
   private empireAI: FactionAI;
   private rebelAI: FactionAI;
@@ -138,12 +189,62 @@ export class GalaxySimulation {
       return eid;
     });
 
+    this.buildHyperlanes();
+
     // Create starting fleets
     this.createStartingFleets();
 
     this.initialized = true;
   }
 
+  /**
+   * Capture the campaign for saving
+   */
+  serialize(): GalaxySaveData {
+    return {
+      playerFaction: this.playerFaction,
+      world: serializeConquest(this.world),
+      empireAI: this.empireAI.getState(),
+      rebelAI: this.rebelAI.getState()
+    };
+  }
+
+  /**
+   * Resume a saved campaign (replaces any campaign already running)
+   */
+  restore(data: GalaxySaveData): void {
+    if (this.initialized) this.reset();
+
+    const restored = restoreConquest(this.world, data.world);
+    this.stateEid = restored.stateEid;
+    this.planetEids = restored.planetEids;
+    this.fleetEids = restored.fleetEids;
+    this.buildHyperlanes();
+    this.playerFaction = data.playerFaction;
+    this.empireAI.restoreState(data.empireAI);
+    this.rebelAI.restoreState(data.rebelAI);
+
+    this.initialized = true;
+  }
+
+  /**
+   * Build the hyperlane network from PLANETS map positions
+   */
+  private buildHyperlanes(): void {
+    this.hyperlaneEids = buildHyperlaneNetwork(
+      this.world,
+      this.planetEids.map((eid) => {
+        const planetDef = PLANETS[ConquestPlanet.planetIndex[eid] ?? 0]!;
+        return {
+          planetEid: eid,
+          x: planetDef.position[0],
+          z: planetDef.position[1],
+          wealth: planetDef.economy.wealth
+        };
+      })
+    );
+  }
+
   /**
    * Create initial fleets for each faction
    */
@@ -164,6 +265,7 @@ export class GalaxySimulation {
     ConquestFleet.bomberSquadrons[rebelFleetEid] = 2;
     ConquestFleet.currentPlanetEid[rebelFleetEid] = yavinEid;
     ConquestFleet.destinationPlanetEid[rebelFleetEid] = -1;
+    ConquestFleet.finalDestinationEid[rebelFleetEid] = -1;
     ConquestFleet.movementProgress[rebelFleetEid] = 0;
     ConquestFleet.travelTime[rebelFleetEid] = 0;
     ConquestFleet.strength[rebelFleetEid] = 120;
@@ -181,6 +283,7 @@ export class GalaxySimulation {
     ConquestFleet.bomberSquadrons[empireFleetEid] = 3;
     ConquestFleet.currentPlanetEid[empireFleetEid] = coruscantEid;
     ConquestFleet.destinationPlanetEid[empireFleetEid] = -1;
+    ConquestFleet.finalDestinationEid[empireFleetEid] = -1;
     ConquestFleet.movementProgress[empireFleetEid] = 0;
     ConquestFleet.travelTime[empireFleetEid] = 0;
     ConquestFleet.strength[empireFleetEid] = 190;
@@ -212,6 +315,7 @@ export class GalaxySimulation {
     ConquestFleet.bomberSquadrons[eid] = 1;
     ConquestFleet.currentPlanetEid[eid] = planetEid;
     ConquestFleet.destinationPlanetEid[eid] = -1;
+    ConquestFleet.finalDestinationEid[eid] = -1;
     ConquestFleet.movementProgress[eid] = 0;
     ConquestFleet.travelTime[eid] = 0;
     ConquestFleet.strength[eid] = isEmpire ? 95 : 65;
@@ -277,11 +381,32 @@ export class GalaxySimulation {
       bomberSquadrons: ConquestFleet.bomberSquadrons[eid] ?? 0,
       currentPlanetEid: ConquestFleet.currentPlanetEid[eid] ?? -1,
       destinationPlanetEid: ConquestFleet.destinationPlanetEid[eid] ?? -1,
+      finalDestinationEid: ConquestFleet.finalDestinationEid[eid] ?? -1,
       movementProgress: ConquestFleet.movementProgress[eid] ?? 0,
       isPlayerFleet: (ConquestFleet.isPlayerFleet[eid] ?? 0) === 1
     }));
   }
 
+  /**
+   * Get the hyperlane network
+   */
+  getHyperlanes(): GalaxyHyperlaneState[] {
+    return this.hyperlaneEids.map((eid) => ({
+      eid,
+      fromPlanetEid: Hyperlane.fromPlanetEid[eid] ?? -1,
+      toPlanetEid: Hyperlane.toPlanetEid[eid] ?? -1,
+      travelTime: Hyperlane.baseTravelTime[eid] ?? 0,
+      isMajorRoute: (Hyperlane.isMajorRoute[eid] ?? 0) === 1
+    }));
+  }
+
+  /**
+   * Order a fleet along the hyperlanes to a planet (false if unreachable)
+   */
+  orderFleetMove(fleetEid: number, destinationPlanetEid: number): boolean {
+    return orderFleetMove(this.world, fleetEid, destinationPlanetEid);
+  }
+
   /**
    * Get galaxy overview statistics
    */
@@ -331,6 +456,39 @@ export class GalaxySimulation {
     return fleet ?? null;
   }
 
+  /**
+   * Get the pending battle the player has to fight (if any)
+   */
+  getPlayerBattle(): GalaxyBattleState | null {
+    const eid = getPlayerBattle(this.world);
+    if (eid === null) return null;
+
+    const planetEid = BattlePending.planetEid[eid] ?? -1;
+    return {
+      eid,
+      planetEid,
+      planetIndex: planetEid >= 0 ? (ConquestPlanet.planetIndex[planetEid] ?? 0) : -1,
+      battleType: BattlePending.battleType[eid] ?? 0,
+      attackerFaction: (BattlePending.attackerFaction[eid] ?? 0) as ConquestFactionId,
+      defenderFaction: (BattlePending.defenderFaction[eid] ?? 0) as ConquestFactionId,
+      playerInvolved: (BattlePending.playerInvolved[eid] ?? 0) === 1
+    };
+  }
+
+  /**
+   * Units to field in Flight/Ground mode for a player battle
+   */
+  getPlayerBattleSetup(battleEid: number): PlayerBattleSetup | null {
+    return getPlayerBattleSetup(this.world, battleEid);
+  }
+
+  /**
+   * Report the outcome of a battle the player fought in Flight/Ground mode
+   */
+  resolvePlayerBattle(battleEid: number, report: PlayerBattleReport): void {
+    resolvePlayerBattle(this.world, battleEid, report);
+  }
+
   /**
    * Get planet by entity ID
    */
@@ -372,13 +530,24 @@ export class GalaxySimulation {
     for (const eid of this.fleetEids) {
       removeEntity(this.world, eid);
     }
+    // Ground forces are also raised and disbanded by battles
+    for (const eid of groundForceQuery(this.world)) {
+      removeEntity(this.world, eid);
+    }
+    for (const eid of this.hyperlaneEids) {
+      removeEntity(this.world, eid);
+    }
     if (this.stateEid >= 0) {
       removeEntity(this.world, this.stateEid);
     }
+    for (const eid of battlePendingQuery(this.world)) {
+      removeEntity(this.world, eid);
+    }
 
     this.initialized = false;
     this.planetEids = [];
     this.fleetEids = [];
+    this.hyperlaneEids = [];
     this.stateEid = -1;
     this.empireAI.reset();
     this.rebelAI.reset();
@@ -5,15 +5,19 @@
 
 import "./style.css";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { createGame } from "@xwingz/core";
+import { createGame, decodeRecording, encodeRecording, type InputRecording } from "@xwingz/core";
 import { createBasicRenderer } from "@xwingz/render";
 import { PLANETS, planetToSystem } from "@xwingz/data";
-import { deriveSeed, type SystemDef } from "@xwingz/procgen";
+import { deriveSeed, type SystemDef, type CoruscantDifficulty } from "@xwingz/procgen";
 
 import { loadProfile, saveProfile, scheduleSave, type Profile } from "./state/ProfileManager";
-import { MapMode, FlightMode, GroundMode } from "./modes";
-import type { Mode, ModeHandler, ModeContext, ModeTransitionData } from "./modes";
-import { UpgradesOverlay } from "./ui";
+import { downloadRecording, getLastRecording, readRecordingFile, replayTransition } from "./state/ReplayManager";
+import { coopTransition, isCoopMission, joinCoop } from "./state/CoopManager";
+import { CONQUEST_FACTION, CONQUEST_PHASE } from "@xwingz/gameplay";
+import { MapMode, FlightMode, GroundMode, ConquestMode } from "./modes";
+import type { Mode, ModeHandler, ModeContext, ModeTransitionData, FlightScenario } from "./modes";
+import { UpgradesOverlay, ControlsOverlay } from "./ui";
+import { MISSION_SCRIPTS, getMissionScript, missionScriptTransition } from "./missions";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // DOM Setup
@@ -79,7 +83,8 @@ const YAVIN_DEFENSE_SYSTEM: SystemDef = {
 const modeFactories: Record<Mode, () => ModeHandler> = {
   map: () => new MapMode(),
   flight: () => new FlightMode(),
-  ground: () => new GroundMode()
+  ground: () => new GroundMode(),
+  conquest: () => new ConquestMode()
 };
 
 let currentMode: Mode = "map";
@@ -114,6 +119,7 @@ const modeContext: ModeContext = {
   hud,
   overlay,
   profile,
+  conquest: null,
   requestModeChange,
   scheduleSave: () => scheduleSave(profile)
 };
@@ -122,22 +128,97 @@ const modeContext: ModeContext = {
 window.addEventListener("beforeunload", () => saveProfile(profile));
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Upgrades Overlay
+// Upgrades & Controls Overlays
 // ─────────────────────────────────────────────────────────────────────────────
 
 const upgradesOverlay = new UpgradesOverlay(overlay, profile, {
   onPurchase: () => scheduleSave(profile)
 });
 
-// Global 'U' key handler for upgrades overlay (only in map mode)
+const controlsOverlay = new ControlsOverlay(overlay, profile.controls, {
+  onChange: () => scheduleSave(profile)
+});
+
+// Global 'U' / 'O' key handlers for upgrades and controls overlays (only in map mode)
 window.addEventListener("keydown", (e) => {
-  if (e.key === "u" || e.key === "U") {
-    if (currentMode === "map") {
-      upgradesOverlay.toggle();
-    }
+  if (currentMode !== "map") return;
+  if ((e.key === "u" || e.key === "U") && !controlsOverlay.isOpen) {
+    upgradesOverlay.toggle();
   }
+  if ((e.key === "o" || e.key === "O") && !upgradesOverlay.isOpen) {
+    controlsOverlay.toggle();
+  }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Replays
+// ─────────────────────────────────────────────────────────────────────────────
+
+function playRecording(recording: InputRecording): boolean {
+  const transition = replayTransition(recording);
+  if (!transition) return false;
+  requestModeChange(transition.mode, transition.data);
+  return true;
+}
+
+// F8 exports the current (or last finished) mission's input recording
+window.addEventListener("keydown", (e) => {
+  if (e.key !== "F8") return;
+  const recording = currentHandler?.getRecording?.() ?? getLastRecording();
+  if (recording) downloadRecording(recording);
+});
+
+// Dropping an exported recording on the window replays it
+window.addEventListener("dragover", (e) => e.preventDefault());
+window.addEventListener("drop", async (e) => {
+  e.preventDefault();
+  const file = e.dataTransfer?.files[0];
+  if (!file) return;
+  const recording = await readRecordingFile(file);
+  if (recording) playRecording(recording);
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Co-op
+// ─────────────────────────────────────────────────────────────────────────────
+
+// ?coop=<room> joins a room on the local relay (npm run relay). The first
+// player in picks the mission with &mission=yavin|speeder; &relay=<ws url>
+// points at another relay.
+function startCoopFromUrl(): void {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get("coop");
+  if (!room) return;
+
+  const status = document.createElement("div");
+  status.className = "coop-status";
+  status.textContent = `CO-OP ROOM "${room}" - WAITING FOR WINGMATE`;
+  root!.appendChild(status);
+
+  const mission = params.get("mission");
+  joinCoop({
+    room,
+    profile,
+    url: params.get("relay") ?? undefined,
+    mission: isCoopMission(mission) ? mission : undefined,
+    onStart: (session) => {
+      const transition = coopTransition(session, YAVIN_DEFENSE_SYSTEM);
+      if (!transition) {
+        status.textContent = "CO-OP: UNKNOWN MISSION";
+        session.leave();
+        return;
+      }
+      status.textContent = `CO-OP ROOM "${room}" - SLOT ${session.slot + 1}/${session.players.length}`;
+      requestModeChange(transition.mode, transition.data);
+    },
+    onClose: (error) => {
+      status.textContent = `CO-OP ROOM "${room}" - ${error ? error.toUpperCase() : "CLOSED"}`;
+    }
+  });
+}
+
+startCoopFromUrl();
+
 // ─────────────────────────────────────────────────────────────────────────────
 // E2E Test Hooks (Development/Test Only)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -159,6 +240,10 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
       const handler = getCurrentHandler();
       return currentMode === "flight" && handler ? handler as FlightMode : null;
     };
+    const getConquestHandler = (): ConquestMode | null => {
+      const handler = getCurrentHandler();
+      return currentMode === "conquest" && handler ? handler as ConquestMode : null;
+    };
 
     // Read-only game state getters (dev tools only)
     (window as any).__xwingz = {
@@ -172,6 +257,15 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
       get starDestroyerPhase() {
         return getFlightHandler()?.starDestroyerPhase ?? null;
       },
+      get coruscantPhase() {
+        return getFlightHandler()?.coruscantPhase ?? null;
+      },
+      get scriptedMissionPhase() {
+        return getFlightHandler()?.scriptedMissionPhase ?? null;
+      },
+      get missionScripts() {
+        return MISSION_SCRIPTS.map((s) => s.id);
+      },
       get capitalShipCount() {
         return getFlightHandler()?.capitalShipCount ?? 0;
       },
@@ -185,12 +279,37 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
         return getFlightHandler()?.projectileCount ?? 0;
       },
       get planetCount() { return PLANETS.length; },
+      get conquestState() {
+        return getConquestHandler()?.simulation?.getOverview() ?? null;
+      },
+      get conquestPlanets() {
+        return getConquestHandler()?.simulation?.getPlanets() ?? [];
+      },
+      get conquestFleets() {
+        return getConquestHandler()?.simulation?.getFleets() ?? [];
+      },
+      get conquestBattle() {
+        return modeContext.conquest?.getPlayerBattle() ?? null;
+      },
+      get selectedPlanetIndex() {
+        return getConquestHandler()?.selectedPlanetIndex ?? -1;
+      },
+      CONQUEST_FACTION,
+      CONQUEST_PHASE,
       get credits() { return profile.credits; },
+      get lastRecording() {
+        const recording = getCurrentHandler()?.getRecording?.() ?? getLastRecording();
+        return recording ? encodeRecording(recording) : null;
+      },
+      playReplay(json: string) {
+        const recording = decodeRecording(json);
+        return recording ? playRecording(recording) : false;
+      },
       // Expose Yavin system for tests
       get yavinSystem() { return YAVIN_DEFENSE_SYSTEM; },
       // Mode transition helpers for tests
-      enterFlight(system: SystemDef, scenario: "sandbox" | "yavin_defense" | "destroy_star_destroyer" = "sandbox") {
-        requestModeChange("flight", { type: "flight", system, scenario });
+      enterFlight(system: SystemDef, scenario: FlightScenario = "sandbox", difficulty?: CoruscantDifficulty) {
+        requestModeChange("flight", { type: "flight", system, scenario, difficulty });
       },
       enterMap() {
         requestModeChange("map", { type: "map" });
@@ -198,6 +317,9 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
       enterGround() {
         requestModeChange("ground", { type: "ground" });
       },
+      enterConquest() {
+        requestModeChange("conquest", { type: "conquest" });
+      },
       // Quick access to Star Destroyer mission
       enterStarDestroyer() {
         const coruscant = PLANETS.find(p => p.id === "coruscant");
@@ -205,6 +327,21 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
           const system = planetToSystem(coruscant);
           requestModeChange("flight", { type: "flight", system, scenario: "destroy_star_destroyer" });
         }
+      },
+      // Quick access to Battle of Coruscant mission
+      enterCoruscant(difficulty: CoruscantDifficulty = "normal") {
+        const coruscant = PLANETS.find(p => p.id === "coruscant");
+        if (coruscant) {
+          const system = planetToSystem(coruscant);
+          requestModeChange("flight", { type: "flight", system, scenario: "coruscant_battle", difficulty });
+        }
+      },
+      // Run a JSON mission script by id
+      enterScriptedMission(id: string) {
+        const script = getMissionScript(id);
+        const transition = script ? missionScriptTransition(script) : null;
+        if (transition) requestModeChange(transition.mode, transition.data);
+        return transition !== null;
       }
     };
 
@@ -225,6 +362,10 @@ if (import.meta.env.DEV || import.meta.env.MODE === 'test') {
         destroyStarDestroyer() {
           const flight = getFlightHandler();
           if (flight) flight.destroyStarDestroyerForTest(game.world);
+        },
+        skipCoruscantPhase() {
+          const flight = getFlightHandler();
+          if (flight) flight.skipCoruscantPhaseForTest(game.world);
         }
       };
     }
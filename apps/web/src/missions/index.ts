@@ -0,0 +1,51 @@
+/**
+ * Missions - JSON mission scripts bundled with the game
+ *
+ * Every *.json file in this directory is a MissionScript (format and
+ * validation live in @xwingz/gameplay). Adding a mission means adding a file
+ * here; FlightMode/GroundMode run it through their "scripted" scenario.
+ * Scripts that fail validation are logged with every issue and left out.
+ */
+
+import { createLogger } from "@xwingz/core";
+import { PLANETS, planetToSystem } from "@xwingz/data";
+import { parseMissionScript, type MissionScript } from "@xwingz/gameplay";
+import type { ModeTransitionData } from "../modes/types";
+
+const log = createLogger("Missions");
+
+const files = import.meta.glob<unknown>("./*.json", { eager: true, import: "default" });
+
+function loadScripts(): MissionScript[] {
+  const scripts: MissionScript[] = [];
+  for (const [file, raw] of Object.entries(files)) {
+    try {
+      scripts.push(parseMissionScript(raw));
+    } catch (err) {
+      log.error(`Skipping ${file}: ${(err as Error).message}`);
+    }
+  }
+  return scripts.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export const MISSION_SCRIPTS: MissionScript[] = loadScripts();
+
+export function getMissionScript(id: string | undefined): MissionScript | null {
+  return MISSION_SCRIPTS.find((s) => s.id === id) ?? null;
+}
+
+/**
+ * Transition data that starts a scripted mission in its mode.
+ */
+export function missionScriptTransition(script: MissionScript): { mode: "flight" | "ground"; data: ModeTransitionData } | null {
+  if (script.mode === "ground") {
+    return { mode: "ground", data: { type: "ground", scenario: "scripted", missionScript: script.id } };
+  }
+
+  const planet = PLANETS.find((p) => p.id === script.planet);
+  if (!planet) return null;
+  return {
+    mode: "flight",
+    data: { type: "flight", system: planetToSystem(planet), scenario: "scripted", missionScript: script.id }
+  };
+}
@@ -4,18 +4,28 @@
  * Enhanced graphics with:
  * - Faction-colored planets with glow effects
  * - Hyperspace fleet trails
+ * - Hyperlane network
  * - Battle indicators with particle effects
  * - Dynamic lighting based on galactic state
+ *
+ * Battles involving the player's fleet are handed off to FlightMode or
+ * GroundMode, seeded with the fleets/ground forces involved; the simulation
+ * stays on ModeContext until the losses come back. Winning orbit over a world
+ * the player doesn't hold launches the ground assault next.
+ * The campaign is autosaved and resumed from storage on the next visit.
  */
 
 import * as THREE from "three";
 import { PLANETS, planetToSystem } from "@xwingz/data";
 import { clearPlanetTextureCache } from "@xwingz/render";
-import type { ModeHandler, ModeContext, ModeTransitionData } from "./types";
+import { BATTLE_TYPE, CONQUEST_FACTION } from "@xwingz/gameplay";
+import type { ModeHandler, ModeContext, ModeTransitionData, ConquestBattleRef } from "./types";
+import { isConquestTransition } from "./types";
 import { disposeObject } from "../rendering/MeshManager";
+import { loadConquestSave, saveConquestCampaign, clearConquestSave } from "../state";
 import {
   GalaxySimulation,
-  type GalaxyPlanetState
+  type GalaxyBattleState
 } from "../conquest/GalaxySimulation";
 
 // Import extracted modules
@@ -27,7 +37,11 @@ import {
   buildSelectionRing,
   updateSelectionRing
 } from "./conquest";
-import { updateFleetVisuals } from "./conquest/ConquestFleetRenderer";
+import {
+  updateFleetVisuals,
+  buildHyperlaneLines,
+  updateHyperlaneLines
+} from "./conquest/ConquestFleetRenderer";
 import { updateBattleIndicators } from "./conquest/ConquestBattleIndicators";
 import { updatePlanetVisuals } from "./conquest/ConquestPlanetVisuals";
 import { buildConquestHudText } from "./conquest/ConquestHud";
@@ -48,12 +62,17 @@ export class ConquestMode implements ModeHandler {
   private starfield: THREE.Points | null = null;
   private nebula: THREE.Mesh | null = null;
   private selectionRing: THREE.Mesh | null = null;
+  private hyperlaneLines: THREE.LineSegments | null = null;
 
   // State (exposed for testing)
   public selectedPlanetIndex = -1;
   private hoveredPlanetIndex = -1;
   private gameSpeed = 1.0;
   private paused = false;
+  private handoffToBattle = false;
+  private abandonCampaign = false;
+  private autosaveTimer = 0;
+  private readonly AUTOSAVE_INTERVAL = 10; // Seconds between campaign autosaves
 
   // Input helpers
   private raycaster = new THREE.Raycaster();
@@ -69,8 +88,11 @@ export class ConquestMode implements ModeHandler {
   private hudUpdateTimer = 0;
   private readonly HUD_UPDATE_INTERVAL = 0.1; // Update HUD every 100ms max
 
-  enter(ctx: ModeContext, _data?: ModeTransitionData): void {
+  enter(ctx: ModeContext, data?: ModeTransitionData): void {
     ctx.controls.enabled = true;
+    this.handoffToBattle = false;
+    this.abandonCampaign = false;
+    this.autosaveTimer = 0;
 
     // Clear scene
     ctx.scene.clear();
@@ -82,14 +104,33 @@ export class ConquestMode implements ModeHandler {
     ctx.camera.position.set(0, 400, 800);
     ctx.camera.lookAt(0, 0, 0);
 
-    // Initialize simulation
-    this.simulation = new GalaxySimulation(ctx.world);
-    this.simulation.initialize(42, 0); // CONQUEST_FACTION.REBEL = 0
+    // Resume the campaign after a player battle, otherwise load the saved one
+    if (isConquestTransition(data) && data.battleResult && ctx.conquest) {
+      this.simulation = ctx.conquest;
+      this.simulation.resolvePlayerBattle(data.battleResult.battleEid, data.battleResult.report);
+    } else {
+      ctx.conquest?.reset();
+      this.simulation = new GalaxySimulation(ctx.world);
+      const saved = isConquestTransition(data) && data.newCampaign ? null : loadConquestSave();
+      if (saved) {
+        this.simulation.restore(saved);
+      } else {
+        clearConquestSave();
+        this.simulation.initialize(42, CONQUEST_FACTION.REBEL);
+      }
+      ctx.conquest = this.simulation;
+    }
+    saveConquestCampaign(this.simulation.serialize());
 
     // Build visual galaxy
     this.starfield = buildConquestStarfield(ctx.scene);
     this.nebula = buildConquestNebula(ctx.scene);
     this.buildPlanets(ctx.scene);
+    this.hyperlaneLines = buildHyperlaneLines(
+      ctx.scene,
+      this.simulation.getHyperlanes(),
+      this.simulation.getPlanets()
+    );
     this.selectionRing = buildSelectionRing(ctx.scene);
 
     // Attach input handlers
@@ -105,10 +146,26 @@ export class ConquestMode implements ModeHandler {
     // Run simulation (unless paused)
     if (!this.paused) {
       this.simulation.tick(dt * this.gameSpeed);
+
+      this.autosaveTimer += dt;
+      if (this.autosaveTimer >= this.AUTOSAVE_INTERVAL) {
+        this.autosaveTimer = 0;
+        saveConquestCampaign(this.simulation.serialize());
+      }
+    }
+
+    // The player's fleet has engaged - fight it out in flight/ground mode
+    const battle = this.simulation.getPlayerBattle();
+    if (battle) {
+      this.launchPlayerBattle(ctx, battle);
+      return;
     }
 
     // Update visual state
     updatePlanetVisuals(this.simulation.getPlanets(), this.planetMeshes);
+    if (this.hyperlaneLines) {
+      updateHyperlaneLines(this.hyperlaneLines, this.simulation.getHyperlanes(), this.simulation.getPlanets());
+    }
     updateFleetVisuals(
       ctx.scene,
       this.simulation.getFleets(),
@@ -188,17 +245,29 @@ export class ConquestMode implements ModeHandler {
       this.nebula = null;
     }
 
+    if (this.hyperlaneLines) {
+      ctx.scene.remove(this.hyperlaneLines);
+      disposeObject(this.hyperlaneLines);
+      this.hyperlaneLines = null;
+    }
+
     if (this.selectionRing) {
       ctx.scene.remove(this.selectionRing);
       disposeObject(this.selectionRing);
       this.selectionRing = null;
     }
 
-    // Reset simulation
-    if (this.simulation) {
+    // Save progress (including any battle being handed off)
+    if (this.simulation && !this.abandonCampaign) {
+      saveConquestCampaign(this.simulation.serialize());
+    }
+
+    // Reset simulation (unless a player battle will report back to it)
+    if (this.simulation && !this.handoffToBattle) {
       this.simulation.reset();
-      this.simulation = null;
+      ctx.conquest = null;
     }
+    this.simulation = null;
 
     // Clear planet texture cache
     clearPlanetTextureCache();
@@ -246,6 +315,17 @@ export class ConquestMode implements ModeHandler {
         case "Enter":
           this.enterSelectedPlanet(ctx);
           break;
+        case "f":
+        case "F":
+          this.sendPlayerFleet(ctx);
+          break;
+        case "n":
+        case "N":
+          // Abandon this campaign and start a fresh one
+          this.abandonCampaign = true;
+          clearConquestSave();
+          ctx.requestModeChange("conquest", { type: "conquest", newCampaign: true });
+          break;
         case "b":
         case "B":
           // Quick battle at Coruscant
@@ -308,27 +388,65 @@ export class ConquestMode implements ModeHandler {
     const planet = this.simulation.getPlanetByIndex(this.selectedPlanetIndex);
     if (!planet) return;
 
-    const system = planetToSystem(planet.planetDef);
+    // If the player's fleet is fighting here, join the battle
+    const battle = this.simulation.getPlayerBattle();
+    if (planet.underAttack && battle && battle.planetEid === planet.eid) {
+      this.launchPlayerBattle(ctx, battle);
+      return;
+    }
 
-    // If battle is occurring, enter combat
-    if (planet.underAttack) {
-      ctx.requestModeChange("flight", {
-        type: "flight",
-        system,
-        scenario: "conquest"
-      });
+    // Enter sandbox flight
+    ctx.requestModeChange("flight", {
+      type: "flight",
+      system: planetToSystem(planet.planetDef),
+      scenario: "sandbox"
+    });
+  }
+
+  /**
+   * Send the player's fleet along the hyperlanes to the selected planet
+   */
+  private sendPlayerFleet(ctx: ModeContext): void {
+    if (this.selectedPlanetIndex < 0 || !this.simulation) return;
+
+    const planet = this.simulation.getPlanetByIndex(this.selectedPlanetIndex);
+    const fleet = this.simulation.getPlayerFleet();
+    if (!planet || !fleet || fleet.destinationPlanetEid >= 0) return;
+
+    this.simulation.orderFleetMove(fleet.eid, planet.eid);
+    this.updateHud(ctx);
+  }
+
+  /**
+   * Hand a player battle off to flight (space) or ground mode.
+   * The simulation is kept alive on ModeContext until the result comes back.
+   */
+  private launchPlayerBattle(ctx: ModeContext, battle: GalaxyBattleState): void {
+    const planetDef = PLANETS[battle.planetIndex];
+    const setup = this.simulation?.getPlayerBattleSetup(battle.eid);
+    if (!planetDef || !setup) return;
+
+    const conquestBattle: ConquestBattleRef = {
+      battleEid: battle.eid,
+      planetIndex: battle.planetIndex,
+      setup
+    };
+    this.handoffToBattle = true;
+
+    if (battle.battleType === BATTLE_TYPE.GROUND) {
+      ctx.requestModeChange("ground", { type: "ground", conquestBattle });
     } else {
-      // Enter sandbox flight
       ctx.requestModeChange("flight", {
         type: "flight",
-        system,
-        scenario: "sandbox"
+        system: planetToSystem(planetDef),
+        scenario: "conquest",
+        conquestBattle
       });
     }
   }
 
   private startCoruscantBattle(ctx: ModeContext): void {
-    // Quick access to Battle of Coruscant proof-of-concept
+    // Quick access to the Battle of Coruscant
     const coruscantDef = PLANETS.find((p) => p.id === "coruscant");
     if (!coruscantDef) return;
 
@@ -337,7 +455,7 @@ export class ConquestMode implements ModeHandler {
     ctx.requestModeChange("flight", {
       type: "flight",
       system,
-      scenario: "yavin_defense" // Re-use yavin_defense scenario with Coruscant backdrop
+      scenario: "coruscant_battle"
     });
   }
 
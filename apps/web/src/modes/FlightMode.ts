@@ -5,19 +5,50 @@
  * - SandboxScenario: Standard missions with hyperspace jumping
  * - YavinDefenseScenario: Defend the Great Temple on Yavin 4
  * - StarDestroyerScenario: Destroy the Imperial Star Destroyer
+ * - CoruscantBattleScenario: Battle of Coruscant story mission
+ * - HothSpeederScenario: Snowspeeder tow cable run, handed off from Hoth ground
+ * - ConquestBattleScenario: Fleet battle launched from Galactic Conquest
+ * - ScriptedFlightScenario: JSON mission script from apps/web/src/missions
+ *
+ * In co-op (a started lockstep room in the transition data) every tick waits
+ * for all players' input before running, and each player flies their own ship
+ * - or, in the snowspeeder, one crews the tail gun.
  */
 
 import * as THREE from "three";
 import { removeEntity, hasComponent } from "bitecs";
 import { AssetLoader, KENNEY_ASSETS } from "@xwingz/render";
-import { createLogger } from "@xwingz/core";
-import type { SystemDef } from "@xwingz/procgen";
+import {
+  createLogger,
+  createInputRecorder,
+  createInputReplay,
+  type InputRecorder,
+  type InputRecording,
+  type InputReplay,
+  type LockstepSession
+} from "@xwingz/core";
+import type { SystemDef, CoruscantDifficulty } from "@xwingz/procgen";
 
 const log = createLogger("FlightMode");
+
+const TRANSITION_CALLOUTS: Record<TransitionPhase, string> = {
+  entry: "ATMOSPHERIC ENTRY",
+  descent: "FINAL APPROACH",
+  touchdown: "TOUCHDOWN",
+  liftoff: "LIFTOFF",
+  climb: "CLIMBING",
+  breakaway: "BREAKING ATMOSPHERE"
+};
+const LAND_PROMPT = "PRESS L TO LAND";
+const COOP_WAITING = "WAITING FOR WINGMATE";
+/** Ticks between world hash checks with the other players */
+const COOP_HASH_INTERVAL = 60;
 import {
   createSpaceInput,
   type SpaceInputState,
   dogfightAISystem,
+  wingmanCommandSystem,
+  squadronSystem,
   getPlayerShip,
   aiWeaponSystem,
   spaceflightSystem,
@@ -25,8 +56,11 @@ import {
   weaponSystem,
   projectileSystem,
   rebuildSpaceCombatIndex,
+  spaceCollisionSystem,
   shieldRegenSystem,
+  ionSystem,
   consumeImpactEvents,
+  consumeCollisionEvents,
   Health,
   Shield,
   Ship,
@@ -36,6 +70,7 @@ import {
   torpedoProjectileSystem,
   weaponSwitchSystem,
   // Capital ship systems
+  capitalShipAISystem,
   capitalShipMovementSystem,
   capitalShipShieldSystem,
   turretTargetingSystem,
@@ -43,19 +78,52 @@ import {
   turretFireSystem,
   turretProjectileSystem,
   subsystemEffectsSystem,
-  parentChildTransformSystem
+  hangarSystem,
+  capitalDestructionSystem,
+  // Landing / launch sequences
+  beginTransition,
+  endTransition,
+  isTransitioning,
+  transitionSystem,
+  consumeTransitionCompleteEvents,
+  getTransitionPhase,
+  calculateLandingZone,
+  TransitionState,
+  TRANSITION_TYPE,
+  LANDING_ALTITUDE_THRESHOLD,
+  SURFACE_ALTITUDE,
+  type TransitionPhase,
+  type TransitionType,
+  parentChildTransformSystem,
+  // Co-op
+  CoopPilot,
+  NEUTRAL_SPACE_INPUT,
+  assignCoopPilot,
+  formUpCoopWingmate,
+  getPilotShip,
+  hashPilotShips,
+  mergeCrewInput,
+  setPilotInputs,
+  spawnPlayerShip,
+  // Debrief
+  MissionStats,
+  buildDebrief,
+  recordMission,
+  type MissionResult
 } from "@xwingz/gameplay";
-import type { ModeHandler, ModeContext, ModeTransitionData, FlightScenario } from "./types";
-import { isFlightTransition } from "./types";
+import type { ModeHandler, ModeContext, ModeTransitionData, FlightScenario, ConquestBattleRef } from "./types";
+import { isFlightTransition, isFlightFromGroundTransition, type FlightFromGroundData } from "./types";
 import { disposeObject } from "../rendering/MeshManager";
 import { ExplosionManager } from "../rendering/effects";
 import { setupEnhancedSpaceLighting } from "../rendering/shared";
+import { DebriefOverlay } from "../ui";
 import {
   type FlightHudElements,
   clamp
 } from "./flight/FlightScenarioTypes";
 import {
   spawnPlayer,
+  buildPlayerMesh,
   applyUpgradesToPlayer,
   syncProjectiles,
   clearProjectiles
@@ -63,6 +131,13 @@ import {
 import { SandboxScenario, type SandboxContext } from "./flight/SandboxScenario";
 import { YavinDefenseScenario, type YavinContext } from "./flight/YavinDefenseScenario";
 import { StarDestroyerScenario, type StarDestroyerContext } from "./flight/StarDestroyerScenario";
+import { CoruscantBattleScenario, type CoruscantContext } from "./flight/CoruscantBattleScenario";
+import { HothSpeederScenario, type HothSpeederContext } from "./flight/HothSpeederScenario";
+import { ConquestBattleScenario, type ConquestBattleContext } from "./flight/ConquestBattleScenario";
+import { ScriptedFlightScenario, type ScriptedFlightContext } from "./flight/ScriptedFlightScenario";
+import { getMissionScript } from "../missions";
+import { flightReplayMeta, setLastRecording } from "../state/ReplayManager";
+import { coopPlayerUpgrades } from "../state/CoopManager";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // FlightMode Handler
@@ -72,11 +147,18 @@ export class FlightMode implements ModeHandler {
   // Scenario state
   private scenario: FlightScenario = "sandbox";
   private currentSystem: SystemDef | null = null;
+  private difficulty: CoruscantDifficulty = "normal";
+  private conquestBattle: ConquestBattleRef | null = null;
+  private missionScript: string | undefined = undefined;
 
   // Scenario handlers
   private sandboxHandler = new SandboxScenario();
   private yavinHandler = new YavinDefenseScenario();
   private starDestroyerHandler = new StarDestroyerScenario();
+  private coruscantHandler = new CoruscantBattleScenario();
+  private hothSpeederHandler = new HothSpeederScenario();
+  private conquestHandler = new ConquestBattleScenario();
+  private scriptedHandler = new ScriptedFlightScenario();
 
   // Player state
   private shipEid: number | null = null;
@@ -88,6 +170,8 @@ export class FlightMode implements ModeHandler {
   // Targets (enemies)
   private targetEids: number[] = [];
   private targetMeshes = new Map<number, THREE.Object3D>();
+  // Shooter of each ship killed this tick, by victim (wingman kill credit)
+  private killCredits = new Map<number, number>();
 
   // Projectiles
   private projectileMeshes = new Map<number, THREE.Mesh>();
@@ -111,9 +195,25 @@ export class FlightMode implements ModeHandler {
     hyperspace: false,
     toggleMap: false,
     switchWeapon: false,
-    land: false
+    land: false,
+    commandMenu: false,
+    orderAttack: false,
+    orderCover: false,
+    orderFormUp: false,
+    orderSubsystems: false,
+    orderEscort: false
   };
 
+  // Input recording / replay (one or the other per mission)
+  private recorder: InputRecorder<SpaceInputState> | null = null;
+  private replay: InputReplay<SpaceInputState> | null = null;
+  private replayTick = 0;
+
+  // Co-op: the room stepping the simulation, and the other players' ships
+  private coop: LockstepSession<SpaceInputState> | null = null;
+  private pilotMeshes = new Map<number, THREE.Object3D>();
+  private desyncReported = false;
+
   // Input smoothing
   private smPitch = 0;
   private smYaw = 0;
@@ -131,6 +231,11 @@ export class FlightMode implements ModeHandler {
   // VFX
   private explosions: ExplosionManager | null = null;
 
+  // Debrief: player gunnery and damage, and the last mission already scored
+  private missionStats = new MissionStats();
+  private debriefOverlay: DebriefOverlay | null = null;
+  private debriefedResult: MissionResult | null = null;
+
   // Temp vectors (reused to avoid allocations)
   private tmpCamOffset = new THREE.Vector3();
   private tmpLookOffset = new THREE.Vector3();
@@ -152,16 +257,35 @@ export class FlightMode implements ModeHandler {
     if (isFlightTransition(data)) {
       this.scenario = data.scenario;
       this.currentSystem = data.system;
+      this.difficulty = data.difficulty ?? "normal";
+      this.conquestBattle = data.conquestBattle ?? null;
+      this.missionScript = data.missionScript;
+      this.coop = data.coop ?? null;
+    } else if (isFlightFromGroundTransition(data)) {
+      this.scenario = data.scenario ?? "sandbox";
+      this.currentSystem = data.system;
+      this.difficulty = "normal";
+      this.conquestBattle = null;
+      this.missionScript = undefined;
     } else {
       this.scenario = "sandbox";
       this.currentSystem = null;
+      this.difficulty = "normal";
+      this.conquestBattle = null;
+      this.missionScript = undefined;
     }
 
     // Initialize explosion manager
     this.explosions = new ExplosionManager(ctx.scene);
 
+    // Mission debrief
+    this.missionStats.reset();
+    this.debriefedResult = null;
+    this.debriefOverlay = new DebriefOverlay(ctx.overlay);
+
     // Initialize input
-    this.input = createSpaceInput(window);
+    this.input = createSpaceInput(window, ctx.profile.controls);
+    this.startRecordingOrReplay(isFlightTransition(data) ? data.replay : undefined);
 
     // Clear scene
     ctx.scene.clear();
@@ -183,23 +307,40 @@ export class FlightMode implements ModeHandler {
     // Spawn player
     this.respawnPlayer(ctx);
 
+    // Setup HUD before scenario enter so scenario overlays aren't wiped by innerHTML
+    this.setupFlightHud(ctx);
+
     // Initialize scenario handler
     if (this.currentSystem) {
       if (this.scenario === "yavin_defense") {
         this.yavinHandler.enter(this.createYavinContext(ctx));
       } else if (this.scenario === "destroy_star_destroyer") {
         this.starDestroyerHandler.enter(this.createStarDestroyerContext(ctx));
+      } else if (this.scenario === "coruscant_battle") {
+        this.coruscantHandler.enter(this.createCoruscantContext(ctx));
+      } else if (this.scenario === "hoth_speeder") {
+        this.hothSpeederHandler.enter(this.createHothSpeederContext(ctx));
+      } else if (this.scenario === "conquest") {
+        this.conquestHandler.enter(this.createConquestBattleContext(ctx));
+      } else if (this.scenario === "scripted") {
+        this.scriptedHandler.enter(this.createScriptedContext(ctx));
       } else {
         this.sandboxHandler.enter(this.createSandboxContext(ctx));
       }
     }
 
+    if (this.coop) {
+      this.spawnCoopPilots(ctx);
+    }
+
+    // Climb out from where the ship was parked
+    if (isFlightFromGroundTransition(data)) {
+      this.beginLaunch(ctx, data);
+    }
+
     // Camera
     ctx.camera.position.set(0, 6, 20);
     ctx.camera.lookAt(0, 0, -50);
-
-    // Setup HUD
-    this.setupFlightHud(ctx);
   }
 
   tick(ctx: ModeContext, dt: number): void {
@@ -208,40 +349,38 @@ export class FlightMode implements ModeHandler {
       return;
     }
 
-    // Update input with smoothing
+    // Update input with smoothing (or from the replay)
     this.updateInput(dt);
+    this.recorder?.record(this.simInput);
 
-    // Check for mode exit
+    // Check for mode exit (retreating from a conquest battle loses it)
     if (this.simInput.toggleMap) {
-      ctx.requestModeChange("map", { type: "map" });
+      if (this.scenario === "conquest") {
+        this.returnToConquest(ctx, false);
+      } else {
+        ctx.requestModeChange("map", { type: "map" });
+      }
       return;
     }
 
-    // Handle landing (Yavin only)
-    if (this.scenario === "yavin_defense" && this.shipEid !== null) {
-      if (this.yavinHandler.canLand(this.createYavinContext(ctx)) && this.simInput.land) {
-        const playerX = Transform.x[this.shipEid] ?? 0;
-        const playerZ = Transform.z[this.shipEid] ?? 0;
-        const groundY = this.yavinHandler.getTerrainHeight(playerX, playerZ);
+    // Co-op: nothing moves until every player's input for this tick is in
+    if (this.coop && !this.stepCoop(ctx)) return;
 
-        ctx.requestModeChange("ground", {
-          type: "ground_from_flight",
-          landingPosition: { x: playerX, y: groundY, z: playerZ },
-          playerState: {
-            health: Health.hp[this.shipEid] ?? 100,
-            maxHealth: Health.maxHp[this.shipEid] ?? 100,
-            shields: Shield.sp[this.shipEid] ?? 0,
-            maxShields: Shield.maxSp[this.shipEid] ?? 0
-          },
-          planetIndex: 0,
-          system: this.currentSystem
-        });
-        return;
+    // Landing / launch sequences fly the ship themselves
+    const transitioning = this.shipEid !== null && isTransitioning(ctx.world, this.shipEid);
+    if (transitioning) {
+      this.holdControlsForTransition();
+    }
+
+    // Handle landing (Yavin only): below the gate, L starts the entry sequence
+    if (this.scenario === "yavin_defense" && this.shipEid !== null && !transitioning && !this.coop) {
+      if (this.yavinHandler.canLand(this.createYavinContext(ctx)) && this.simInput.land) {
+        this.beginLanding(ctx, this.shipEid);
       }
     }
 
-    // Handle hyperspace/restart
-    if (this.simInput.hyperspace) {
+    // Handle hyperspace/restart (a co-op room can't restart or jump alone)
+    if (this.simInput.hyperspace && !transitioning && !this.coop) {
       if (this.handleHyperspace(ctx)) return;
     }
 
@@ -253,11 +392,15 @@ export class FlightMode implements ModeHandler {
 
     // Run game systems
     this.runGameSystems(ctx, dt);
+    if (this.handleTransitionEvents(ctx)) return;
 
     // Handle impacts
     this.handleImpacts();
+    this.handleCollisions();
+    if (this.shipEid !== null) this.missionStats.sample(this.shipEid);
 
-    // Check player death
+    // Check player death (in co-op, once every pilot is down)
+    if (this.coop) this.spectateWingmate(ctx);
     const player = getPlayerShip(ctx.world);
     if (player === null) {
       this.onPlayerKilled(ctx);
@@ -270,6 +413,21 @@ export class FlightMode implements ModeHandler {
         this.yavinHandler.tick(this.createYavinContext(ctx), dt);
       } else if (this.scenario === "destroy_star_destroyer") {
         this.starDestroyerHandler.tick(this.createStarDestroyerContext(ctx), dt);
+      } else if (this.scenario === "coruscant_battle") {
+        this.coruscantHandler.tick(this.createCoruscantContext(ctx), dt);
+      } else if (this.scenario === "hoth_speeder") {
+        // Hand back once the run is over and its debrief has been read
+        if (this.hothSpeederHandler.tick(this.createHothSpeederContext(ctx), dt) && !this.debriefOverlay?.isOpen) {
+          this.returnToEchoBase(ctx);
+          return;
+        }
+      } else if (this.scenario === "conquest") {
+        if (this.conquestHandler.tick(this.createConquestBattleContext(ctx), dt) && !this.debriefOverlay?.isOpen) {
+          this.returnToConquest(ctx, this.conquestHandler.getBattleState()?.phase === "victory");
+          return;
+        }
+      } else if (this.scenario === "scripted") {
+        this.scriptedHandler.tick(this.createScriptedContext(ctx), dt);
       } else {
         const sctx = this.createSandboxContext(ctx);
         this.sandboxHandler.tick(sctx, dt);
@@ -277,9 +435,15 @@ export class FlightMode implements ModeHandler {
         this.currentSystem = sctx.currentSystem;
       }
     }
+    this.checkDebrief(ctx);
+
+    if (this.coop) {
+      this.checkCoopSync(ctx, this.coop);
+      this.syncPilotMeshes(ctx);
+    }
 
     // Update player mesh and camera
-    this.updatePlayerMesh(ctx, player, dt);
+    this.updatePlayerMesh(ctx, this.shipEid ?? player, dt);
 
     // Sync projectiles
     syncProjectiles(ctx, ctx.scene, this.projectileMeshes, this.explosions, this.shipEid);
@@ -312,6 +476,17 @@ export class FlightMode implements ModeHandler {
       removeEntity(ctx.world, this.shipEid);
       this.shipEid = null;
     }
+    for (const [eid, mesh] of this.pilotMeshes) {
+      if (hasComponent(ctx.world, CoopPilot, eid)) removeEntity(ctx.world, eid);
+      ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.pilotMeshes.clear();
+
+    // Leave the co-op room
+    this.coop?.leave();
+    this.coop = null;
+    setPilotInputs(null);
     if (this.shipMesh) {
       ctx.scene.remove(this.shipMesh);
       disposeObject(this.shipMesh);
@@ -324,6 +499,14 @@ export class FlightMode implements ModeHandler {
         this.yavinHandler.exit(this.createYavinContext(ctx));
       } else if (this.scenario === "destroy_star_destroyer") {
         this.starDestroyerHandler.exit(this.createStarDestroyerContext(ctx));
+      } else if (this.scenario === "coruscant_battle") {
+        this.coruscantHandler.exit(this.createCoruscantContext(ctx));
+      } else if (this.scenario === "hoth_speeder") {
+        this.hothSpeederHandler.exit(this.createHothSpeederContext(ctx));
+      } else if (this.scenario === "conquest") {
+        this.conquestHandler.exit(this.createConquestBattleContext(ctx));
+      } else if (this.scenario === "scripted") {
+        this.scriptedHandler.exit(this.createScriptedContext(ctx));
       } else {
         this.sandboxHandler.exit(this.createSandboxContext(ctx));
       }
@@ -333,6 +516,9 @@ export class FlightMode implements ModeHandler {
     this.explosions?.dispose();
     this.explosions = null;
 
+    this.debriefOverlay?.dispose();
+    this.debriefOverlay = null;
+
     // CRITICAL FIX: Clear flight HUD DOM elements before setting to null
     if (this.flightHud) {
       Object.values(this.flightHud).forEach(el => {
@@ -347,11 +533,22 @@ export class FlightMode implements ModeHandler {
     ctx.hud.innerText = "";
     ctx.hud.className = "";
 
+    // Keep the mission's recording for export
+    if (this.recorder && this.recorder.ticks > 0) {
+      setLastRecording(this.recorder.finish());
+    }
+    this.recorder = null;
+    this.replay = null;
+
     // Reset state
     this.camInit = false;
     this.input = null;
   }
 
+  getRecording(): InputRecording | null {
+    return this.recorder?.finish() ?? null;
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Public getters for E2E testing
   // ───────────────────────────────────────────────────────────────────────────
@@ -361,6 +558,7 @@ export class FlightMode implements ModeHandler {
   }
 
   get allyCount(): number {
+    if (this.scenario === "coruscant_battle") return this.coruscantHandler.getAllyCount();
     return this.yavinHandler.getAllyCount();
   }
 
@@ -381,9 +579,26 @@ export class FlightMode implements ModeHandler {
   }
 
   get capitalShipCount(): number {
+    if (this.scenario === "coruscant_battle") return this.coruscantHandler.getCapitalShipCount();
     return this.starDestroyerHandler.getCapitalShipEids().length;
   }
 
+  get coruscantPhase(): string | null {
+    return this.coruscantHandler.getMissionState()?.phase ?? null;
+  }
+
+  get hothSpeederPhase(): string | null {
+    return this.scenario === "hoth_speeder" ? this.hothSpeederHandler.getMissionState().phase : null;
+  }
+
+  get conquestBattlePhase(): string | null {
+    return this.conquestHandler.getBattleState()?.phase ?? null;
+  }
+
+  get scriptedMissionPhase(): string | null {
+    return this.scriptedHandler.getMissionState()?.phase ?? null;
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // E2E Test Helpers
   // ───────────────────────────────────────────────────────────────────────────
@@ -402,6 +617,12 @@ export class FlightMode implements ModeHandler {
     if (sdState) {
       sdState.tieFightersKilled = sdState.tieFighterCount;
     }
+    const coruscantRuntime = this.coruscantHandler.getRuntime();
+    if (coruscantRuntime) {
+      for (const eid of coruscantRuntime.enemyFighterEids) {
+        if (hasComponent(world, Transform, eid)) removeEntity(world, eid);
+      }
+    }
   }
 
   failBaseForTest(world: import("bitecs").IWorld): void {
@@ -417,6 +638,10 @@ export class FlightMode implements ModeHandler {
     this.starDestroyerHandler.destroyStarDestroyerForTest(world);
   }
 
+  skipCoruscantPhaseForTest(world: import("bitecs").IWorld): void {
+    this.coruscantHandler.skipPhaseForTest(world);
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Private: Scene Setup
   // ───────────────────────────────────────────────────────────────────────────
@@ -439,7 +664,9 @@ export class FlightMode implements ModeHandler {
     const result = spawnPlayer(ctx, ctx.scene, this.shipEid, this.shipMesh);
     this.shipEid = result.shipEid;
     this.shipMesh = result.shipMesh;
-    applyUpgradesToPlayer(ctx.world, this.shipEid, ctx.profile.upgrades, true);
+    // In co-op this is the lead's ship on every client
+    const upgrades = this.coop ? coopPlayerUpgrades(this.coop.players[0]) : ctx.profile.upgrades;
+    applyUpgradesToPlayer(ctx.world, this.shipEid, upgrades, true);
     this.camInit = false;
   }
 
@@ -466,6 +693,15 @@ export class FlightMode implements ModeHandler {
     const desiredPos = this.tmpDesiredPos.copy(pos).add(camOffset);
     const desiredLook = this.tmpDesiredLook.copy(pos).add(lookOffset);
 
+    // Landing pulls the camera out to watch the ship go in; launch swings it back behind
+    if (isTransitioning(ctx.world, player)) {
+      const t = TransitionState.progress[player] ?? 0;
+      const eased = t * t * (3 - 2 * t);
+      const w = TransitionState.type[player] === TRANSITION_TYPE.LANDING ? eased : 1 - eased;
+      desiredPos.lerp(this.tmpCamOffset.copy(pos).add(this.tmpLookOffset.set(28, 10, 34)), w);
+      desiredLook.lerp(pos, w);
+    }
+
     const k = 1 - Math.exp(-dt * 6.5);
     if (!this.camInit) {
       this.camSmoothPos.copy(desiredPos);
@@ -483,10 +719,39 @@ export class FlightMode implements ModeHandler {
   // Private: Input
   // ───────────────────────────────────────────────────────────────────────────
 
+  private startRecordingOrReplay(recording?: InputRecording): void {
+    this.recorder = null;
+    this.replay = null;
+    this.replayTick = 0;
+
+    if (recording) {
+      this.replay = createInputReplay<SpaceInputState>(recording);
+      log.info(`Replaying ${this.replay.length} ticks`);
+    } else if (this.currentSystem && !this.coop) {
+      this.recorder = createInputRecorder<SpaceInputState>(this.currentSystem.seed, {
+        meta: flightReplayMeta(this.currentSystem, this.scenario, this.difficulty, this.missionScript)
+      });
+    }
+  }
+
   private updateInput(dt: number): void {
     if (!this.input) return;
 
     this.input.update();
+
+    if (this.replay) {
+      const recorded = this.replay.at(this.replayTick++);
+      if (recorded) {
+        Object.assign(this.simInput, recorded);
+        // The keyboard can still leave a replay
+        this.simInput.toggleMap ||= this.input.state.toggleMap;
+        return;
+      }
+      // Replay finished - hand control back to the player
+      log.info("Replay finished");
+      this.replay = null;
+    }
+
     const a = clamp(dt * 8, 0, 1);
     this.smPitch += (this.input.state.pitch - this.smPitch) * a;
     this.smYaw += (this.input.state.yaw - this.smYaw) * a;
@@ -506,6 +771,12 @@ export class FlightMode implements ModeHandler {
     this.simInput.fireSecondary = this.input.state.fireSecondary;
     this.simInput.switchWeapon = this.input.state.switchWeapon;
     this.simInput.land = this.input.state.land;
+    this.simInput.commandMenu = this.input.state.commandMenu;
+    this.simInput.orderAttack = this.input.state.orderAttack;
+    this.simInput.orderCover = this.input.state.orderCover;
+    this.simInput.orderFormUp = this.input.state.orderFormUp;
+    this.simInput.orderSubsystems = this.input.state.orderSubsystems;
+    this.simInput.orderEscort = this.input.state.orderEscort;
   }
 
   // ───────────────────────────────────────────────────────────────────────────
@@ -514,20 +785,29 @@ export class FlightMode implements ModeHandler {
 
   private runGameSystems(ctx: ModeContext, dt: number): void {
     targetingSystem(ctx.world, this.simInput);
+    squadronSystem(ctx.world, dt);
+    wingmanCommandSystem(ctx.world, dt);
     dogfightAISystem(ctx.world, dt);
     spaceflightSystem(ctx.world, this.simInput, dt);
+    transitionSystem(ctx.world, dt);
     weaponSystem(ctx.world, this.simInput, dt);
     aiWeaponSystem(ctx.world, dt);
     rebuildSpaceCombatIndex(ctx.world);  // Unified spatial index for all collision queries
     projectileSystem(ctx.world, dt);
-    weaponSwitchSystem(ctx.world, this.simInput);
-    torpedoLockSystem(ctx.world, this.simInput, dt);
-    torpedoFireSystem(ctx.world, this.simInput, dt);
-    torpedoProjectileSystem(ctx.world, dt);
+    // The snowspeeder's secondary fire is its harpoon, not torpedoes
+    if (this.scenario !== "hoth_speeder") {
+      weaponSwitchSystem(ctx.world, this.simInput);
+      torpedoLockSystem(ctx.world, this.simInput, dt);
+      torpedoFireSystem(ctx.world, this.simInput, dt);
+      torpedoProjectileSystem(ctx.world, dt);
+    }
+    spaceCollisionSystem(ctx.world);
     shieldRegenSystem(ctx.world, dt);
+    ionSystem(ctx.world, dt);
 
-    // Capital ship systems (for Star Destroyer scenario)
-    if (this.scenario === "destroy_star_destroyer") {
+    // Capital ship systems (Star Destroyer, conquest and scripted fleet battles)
+    if (this.scenario === "destroy_star_destroyer" || this.scenario === "conquest" || this.scenario === "scripted") {
+      capitalShipAISystem(ctx.world, dt);
       capitalShipMovementSystem(ctx.world, dt);
       capitalShipShieldSystem(ctx.world, dt);
       parentChildTransformSystem(ctx.world);
@@ -536,12 +816,17 @@ export class FlightMode implements ModeHandler {
       turretFireSystem(ctx.world, dt);
       turretProjectileSystem(ctx.world, dt);
       subsystemEffectsSystem(ctx.world, dt);
+      hangarSystem(ctx.world, dt);
+      capitalDestructionSystem(ctx.world, dt);
     }
   }
 
   private handleImpacts(): void {
     const impacts = consumeImpactEvents();
+    this.killCredits.clear();
+    if (this.shipEid !== null) this.missionStats.recordImpacts(impacts, this.shipEid);
     for (const hit of impacts) {
+      if (hit.killed) this.killCredits.set(hit.victim, hit.shooter);
       const color = hit.team === 0 ? 0xff6666 : 0x77ff88;
       this.explosions?.spawn(
         this.tmpExplosionPos.set(hit.x, hit.y, hit.z),
@@ -552,6 +837,20 @@ export class FlightMode implements ModeHandler {
     }
   }
 
+  private handleCollisions(): void {
+    for (const hit of consumeCollisionEvents()) {
+      // Gentle nudges leave no mark; scrapes throw sparks, hard rams burst.
+      // Ram kills come through as impact events and burst there.
+      if (hit.damage <= 0 || hit.killed) continue;
+      this.explosions?.spawn(
+        this.tmpExplosionPos.set(hit.x, hit.y, hit.z),
+        0xffcc66,
+        hit.scrape ? 0.15 : 0.3,
+        hit.scrape ? 1.6 : 3.2
+      );
+    }
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Private: Death Handling
   // ───────────────────────────────────────────────────────────────────────────
@@ -576,6 +875,25 @@ export class FlightMode implements ModeHandler {
         ctx.scheduleSave();
       }
     }
+    if (this.scenario === "conquest" && this.currentSystem) {
+      this.conquestHandler.markDefeat(this.createConquestBattleContext(ctx));
+    }
+    if (this.scenario === "hoth_speeder") {
+      this.hothSpeederHandler.markShotDown();
+    }
+    if (this.scenario === "scripted" && this.currentSystem) {
+      this.scriptedHandler.markShotDown(this.createScriptedContext(ctx));
+    }
+    if (this.scenario === "coruscant_battle") {
+      const cState = this.coruscantHandler.getMissionState();
+      if (cState && cState.phase !== "victory" && cState.phase !== "defeat") {
+        cState.phase = "defeat";
+        cState.message = "MISSION FAILED - YOU WERE SHOT DOWN";
+        cState.messageTimer = 8;
+        ctx.scheduleSave();
+      }
+    }
+    this.checkDebrief(ctx);
 
     this.playerDead = true;
     this.respawnTimer = 0;
@@ -594,13 +912,67 @@ export class FlightMode implements ModeHandler {
     ctx.renderer.render(ctx.scene, ctx.camera);
   }
 
+  // ───────────────────────────────────────────────────────────────────────────
+  // Private: Debrief
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Once the scenario reports its mission over, score it into the pilot
+   * record and show the debrief. Replays are shown but not recorded.
+   */
+  private checkDebrief(ctx: ModeContext): void {
+    const result = this.getMissionResult();
+    if (!result || result === this.debriefedResult) return;
+    this.debriefedResult = result;
+
+    const debrief = buildDebrief(result, this.missionStats.getData());
+    const update = this.replay
+      ? { newBest: false, newAwards: [] }
+      : recordMission(ctx.profile.pilot, debrief);
+    if (!this.replay) ctx.scheduleSave();
+    this.missionStats.reset();
+    this.debriefOverlay?.open(debrief, update);
+  }
+
+  private getMissionResult(): MissionResult | null {
+    if (!this.currentSystem) return null;
+    switch (this.scenario) {
+      case "yavin_defense":
+        return this.yavinHandler.getMissionResult();
+      case "destroy_star_destroyer":
+        return this.starDestroyerHandler.getMissionResult();
+      case "coruscant_battle":
+        return this.coruscantHandler.getMissionResult();
+      case "hoth_speeder":
+        return this.hothSpeederHandler.getMissionResult();
+      case "conquest":
+        return this.conquestHandler.getMissionResult();
+      case "scripted":
+        return this.scriptedHandler.getMissionResult();
+      case "sandbox":
+        return this.sandboxHandler.getMissionResult();
+      default:
+        return null;
+    }
+  }
+
   private handlePlayerDeath(ctx: ModeContext, dt: number): void {
     this.respawnTimer += dt;
 
+    // Conquest battles end with the player's ship
+    if (this.scenario === "conquest" && this.respawnTimer >= this.RESPAWN_DELAY && !this.debriefOverlay?.isOpen) {
+      this.returnToConquest(ctx, false);
+      return;
+    }
+
     // Only respawn in sandbox mode
     if (
       this.scenario !== "yavin_defense" &&
       this.scenario !== "destroy_star_destroyer" &&
+      this.scenario !== "coruscant_battle" &&
+      this.scenario !== "hoth_speeder" &&
+      this.scenario !== "conquest" &&
+      this.scenario !== "scripted" &&
       this.respawnTimer >= this.RESPAWN_DELAY &&
       this.currentSystem
     ) {
@@ -616,6 +988,267 @@ export class FlightMode implements ModeHandler {
     ctx.renderer.render(ctx.scene, ctx.camera);
   }
 
+  // ───────────────────────────────────────────────────────────────────────────
+  // Private: Co-op
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Every client starts from the lead ship (slot 0) the scenario just placed;
+   * wingmates form up on it in slot order and the camera takes this client's
+   * own ship. The snowspeeder stays one ship with two crew.
+   */
+  private spawnCoopPilots(ctx: ModeContext): void {
+    const coop = this.coop;
+    const lead = this.shipEid;
+    if (!coop || lead === null) return;
+
+    assignCoopPilot(ctx.world, lead, 0);
+    if (this.scenario === "hoth_speeder") return;
+
+    for (let slot = 1; slot < coop.players.length; slot++) {
+      const eid = spawnPlayerShip(ctx.world, { ionCannon: true });
+      applyUpgradesToPlayer(ctx.world, eid, coopPlayerUpgrades(coop.players[slot]), true);
+      formUpCoopWingmate(ctx.world, eid, lead, slot);
+      const mesh = buildPlayerMesh();
+      ctx.scene.add(mesh);
+      this.pilotMeshes.set(eid, mesh);
+    }
+
+    const own = getPilotShip(ctx.world, coop.slot);
+    const ownMesh = own !== null ? this.pilotMeshes.get(own) : undefined;
+    if (own !== null && ownMesh && this.shipMesh) {
+      this.pilotMeshes.delete(own);
+      this.pilotMeshes.set(lead, this.shipMesh);
+      this.shipEid = own;
+      this.shipMesh = ownMesh;
+    }
+  }
+
+  /**
+   * Trade this frame's input for every player's input this tick. Returns
+   * false (after drawing the frame as it stands) while a wingmate's input is
+   * still on its way; a closed room ends the mission.
+   */
+  private stepCoop(ctx: ModeContext): boolean {
+    const coop = this.coop!;
+    if (coop.status === "closed") {
+      ctx.requestModeChange("map", { type: "map" });
+      return false;
+    }
+
+    const inputs = coop.step(this.simInput);
+    if (!inputs) {
+      if (this.flightHud) {
+        this.flightHud.landPrompt.textContent = COOP_WAITING;
+        this.flightHud.landPrompt.classList.remove("hidden");
+      }
+      ctx.renderer.render(ctx.scene, ctx.camera);
+      return false;
+    }
+
+    if (this.scenario === "hoth_speeder") {
+      // Slot 0 flies the speeder, slot 1 works the harpoon gun
+      Object.assign(this.simInput, mergeCrewInput(inputs[0]!, inputs[1] ?? NEUTRAL_SPACE_INPUT));
+    } else {
+      setPilotInputs(inputs);
+      Object.assign(this.simInput, inputs[coop.slot]);
+    }
+    return true;
+  }
+
+  /**
+   * Our ship went down while a wingmate flies on: follow theirs instead.
+   */
+  private spectateWingmate(ctx: ModeContext): void {
+    if (this.shipEid === null || hasComponent(ctx.world, CoopPilot, this.shipEid)) return;
+
+    if (this.shipMesh) {
+      this.explosions?.spawn(this.tmpExplosionPos.copy(this.shipMesh.position), 0xff5555);
+      ctx.scene.remove(this.shipMesh);
+      disposeObject(this.shipMesh);
+      this.shipMesh = null;
+    }
+    this.shipEid = null;
+
+    for (const [eid, mesh] of this.pilotMeshes) {
+      if (!hasComponent(ctx.world, CoopPilot, eid)) continue;
+      this.pilotMeshes.delete(eid);
+      this.shipEid = eid;
+      this.shipMesh = mesh;
+      this.camInit = false;
+      return;
+    }
+  }
+
+  private syncPilotMeshes(ctx: ModeContext): void {
+    for (const [eid, mesh] of this.pilotMeshes) {
+      if (!hasComponent(ctx.world, CoopPilot, eid)) {
+        this.explosions?.spawn(this.tmpExplosionPos.copy(mesh.position), 0xff5555);
+        ctx.scene.remove(mesh);
+        disposeObject(mesh);
+        this.pilotMeshes.delete(eid);
+        continue;
+      }
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.quaternion.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+    }
+  }
+
+  /**
+   * Swap pilot-ship hashes with the room now and then; a mismatch means the
+   * simulations have drifted apart and is worth a warning.
+   */
+  private checkCoopSync(ctx: ModeContext, coop: LockstepSession<SpaceInputState>): void {
+    if (coop.tick % COOP_HASH_INTERVAL === 0) {
+      coop.reportHash(hashPilotShips(ctx.world, coop.players.length));
+    }
+    if (coop.desyncTick !== null && !this.desyncReported) {
+      this.desyncReported = true;
+      log.warn(`Co-op desync at tick ${coop.desyncTick}`);
+    }
+  }
+
+  /** Living co-op pilot ships in slot order (undefined outside co-op) */
+  private livingPilots(ctx: ModeContext): number[] | undefined {
+    if (!this.coop) return undefined;
+    const eids: number[] = [];
+    for (let slot = 0; slot < this.coop.players.length; slot++) {
+      const eid = getPilotShip(ctx.world, slot);
+      if (eid !== null) eids.push(eid);
+    }
+    return eids;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Private: Landing / Launch
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Start the atmospheric entry: the ship glides forward and down to a
+   * touchdown point on the terrain, then GroundMode takes over.
+   */
+  private beginLanding(ctx: ModeContext, eid: number): void {
+    const x = Transform.x[eid] ?? 0;
+    const y = Transform.y[eid] ?? 0;
+    const z = Transform.z[eid] ?? 0;
+
+    // Carry on along the current heading, further the higher we start
+    const qx = Transform.qx[eid] ?? 0;
+    const qy = Transform.qy[eid] ?? 0;
+    const qz = Transform.qz[eid] ?? 0;
+    const qw = Transform.qw[eid] ?? 1;
+    let fx = -2 * (qx * qz + qw * qy);
+    let fz = -(1 - 2 * (qx * qx + qy * qy));
+    const len = Math.hypot(fx, fz) || 1;
+    fx /= len;
+    fz /= len;
+    const altitude = y - this.surfaceHeight(x, z);
+    const reach = Math.min(Math.max(0, altitude) * 1.5, 400);
+    const tx = x + fx * reach;
+    const tz = z + fz * reach;
+
+    beginTransition(
+      ctx.world,
+      eid,
+      TRANSITION_TYPE.LANDING,
+      { x, y, z },
+      { x: tx, y: this.surfaceHeight(tx, tz) + 3, z: tz },
+      { health: Health.hp[eid] ?? 100, shields: Shield.sp[eid] ?? 0 }
+    );
+  }
+
+  /**
+   * Arriving from GroundMode: put the ship where it was parked, restore its
+   * hull/shields, and climb back up to the landing gate.
+   */
+  private beginLaunch(ctx: ModeContext, data: FlightFromGroundData): void {
+    const eid = this.shipEid;
+    if (eid === null) return;
+
+    const { x, z } = data.launchPosition;
+    const surface = this.surfaceHeight(x, z);
+    const y = Math.max(data.launchPosition.y, surface + SURFACE_ALTITUDE);
+    Transform.x[eid] = x;
+    Transform.y[eid] = y;
+    Transform.z[eid] = z;
+    Transform.qx[eid] = 0;
+    Transform.qy[eid] = 0;
+    Transform.qz[eid] = 0;
+    Transform.qw[eid] = 1;
+    Ship.throttle[eid] = 0.5;
+
+    const state = data.playerState;
+    Health.hp[eid] = Math.min(state.health, Health.maxHp[eid] ?? state.health);
+    if (state.shields !== undefined && hasComponent(ctx.world, Shield, eid)) {
+      Shield.sp[eid] = Math.min(state.shields, Shield.maxSp[eid] ?? state.shields);
+    }
+
+    beginTransition(
+      ctx.world,
+      eid,
+      TRANSITION_TYPE.LAUNCHING,
+      { x, y, z },
+      { x, y: surface + LANDING_ALTITUDE_THRESHOLD, z: z - 600 },
+      { health: Health.hp[eid] ?? 100, shields: Shield.sp[eid] ?? 0 }
+    );
+    this.camInit = false;
+  }
+
+  /**
+   * The sequence flies the ship; stick, throttle and triggers are ignored
+   */
+  private holdControlsForTransition(): void {
+    this.smPitch = 0;
+    this.smYaw = 0;
+    this.smRoll = 0;
+    this.smThrottleDelta = 0;
+    this.simInput.pitch = 0;
+    this.simInput.yaw = 0;
+    this.simInput.roll = 0;
+    this.simInput.throttleDelta = 0;
+    this.simInput.boost = false;
+    this.simInput.brake = false;
+    this.simInput.firePrimary = false;
+    this.simInput.fireSecondary = false;
+    this.simInput.land = false;
+  }
+
+  /**
+   * Finished landings switch to GroundMode; finished launches hand the ship
+   * back to the player. Returns true if the mode is changing.
+   */
+  private handleTransitionEvents(ctx: ModeContext): boolean {
+    for (const done of consumeTransitionCompleteEvents()) {
+      if (done.eid !== this.shipEid) continue;
+
+      if (done.type === TRANSITION_TYPE.LANDING) {
+        ctx.requestModeChange("ground", {
+          type: "ground_from_flight",
+          landingPosition: calculateLandingZone(done),
+          playerState: {
+            health: done.preservedHealth,
+            maxHealth: Health.maxHp[done.eid] ?? 100,
+            shields: done.preservedShields,
+            maxShields: Shield.maxSp[done.eid] ?? 0
+          },
+          planetIndex: 0,
+          system: this.currentSystem,
+          flightScenario: this.scenario
+        });
+        return true;
+      }
+
+      endTransition(ctx.world, done.eid);
+      this.flightHud?.landPrompt.classList.add("hidden");
+    }
+    return false;
+  }
+
+  /** Terrain height under a point (flat space at y=0 outside Yavin) */
+  private surfaceHeight(x: number, z: number): number {
+    return this.scenario === "yavin_defense" ? this.yavinHandler.getTerrainHeight(x, z) : 0;
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Private: Hyperspace
   // ───────────────────────────────────────────────────────────────────────────
@@ -653,6 +1286,52 @@ export class FlightMode implements ModeHandler {
       }
     }
 
+    // Check for restart in Coruscant (keeps the chosen difficulty)
+    if (this.scenario === "coruscant_battle" && this.currentSystem) {
+      if (this.coruscantHandler.handleHyperspace(this.createCoruscantContext(ctx))) {
+        ctx.requestModeChange("flight", {
+          type: "flight",
+          system: this.currentSystem,
+          scenario: "coruscant_battle",
+          difficulty: this.difficulty
+        });
+        return true;
+      }
+      return false;
+    }
+
+    // Back to Echo Base once the speeder run is over
+    if (this.scenario === "hoth_speeder" && this.currentSystem) {
+      if (this.hothSpeederHandler.handleHyperspace(this.createHothSpeederContext(ctx))) {
+        this.returnToEchoBase(ctx);
+        return true;
+      }
+      return false;
+    }
+
+    // Leave a finished conquest battle early
+    if (this.scenario === "conquest" && this.currentSystem) {
+      if (this.conquestHandler.handleHyperspace(this.createConquestBattleContext(ctx))) {
+        this.returnToConquest(ctx, this.conquestHandler.getBattleState()?.phase === "victory");
+        return true;
+      }
+      return false;
+    }
+
+    // Restart a finished scripted mission
+    if (this.scenario === "scripted" && this.currentSystem) {
+      if (this.scriptedHandler.handleHyperspace(this.createScriptedContext(ctx))) {
+        ctx.requestModeChange("flight", {
+          type: "flight",
+          system: this.currentSystem,
+          scenario: "scripted",
+          missionScript: this.missionScript
+        });
+        return true;
+      }
+      return false;
+    }
+
     // Sandbox hyperspace jump
     if (this.scenario === "sandbox" && this.currentSystem) {
       const sctx = this.createSandboxContext(ctx);
@@ -664,6 +1343,34 @@ export class FlightMode implements ModeHandler {
     return false;
   }
 
+  /**
+   * Report a conquest battle outcome back to the campaign.
+   */
+  private returnToConquest(ctx: ModeContext, playerWon: boolean): void {
+    if (this.conquestBattle) {
+      ctx.requestModeChange("conquest", {
+        type: "conquest",
+        battleResult: {
+          battleEid: this.conquestBattle.battleEid,
+          report: this.conquestHandler.buildReport(playerWon)
+        }
+      });
+    } else {
+      ctx.requestModeChange("map", { type: "map" });
+    }
+  }
+
+  /**
+   * Hand the Hoth battle back to GroundMode with the speeder run's outcome.
+   */
+  private returnToEchoBase(ctx: ModeContext): void {
+    ctx.requestModeChange("ground", {
+      type: "ground",
+      scenario: "hoth_defense",
+      speederRun: this.hothSpeederHandler.getRunResult()
+    });
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Private: Context Factories
   // ───────────────────────────────────────────────────────────────────────────
@@ -690,7 +1397,10 @@ export class FlightMode implements ModeHandler {
       projectileMeshes: this.projectileMeshes,
       explosions: this.explosions,
       assetLoader: this.assetLoader,
-      assetsReady: this.assetsReady
+      assetsReady: this.assetsReady,
+      input: this.simInput,
+      killCredits: this.killCredits,
+      pilotEids: this.livingPilots(ctx)
     };
   }
 
@@ -704,7 +1414,64 @@ export class FlightMode implements ModeHandler {
       projectileMeshes: this.projectileMeshes,
       explosions: this.explosions,
       assetLoader: this.assetLoader,
-      assetsReady: this.assetsReady
+      assetsReady: this.assetsReady,
+      input: this.simInput,
+      killCredits: this.killCredits
+    };
+  }
+
+  private createCoruscantContext(ctx: ModeContext): CoruscantContext {
+    return {
+      ctx,
+      currentSystem: this.currentSystem!,
+      shipEid: this.shipEid,
+      targetEids: this.targetEids,
+      targetMeshes: this.targetMeshes,
+      projectileMeshes: this.projectileMeshes,
+      explosions: this.explosions,
+      input: this.simInput,
+      difficulty: this.difficulty,
+      killCredits: this.killCredits
+    };
+  }
+
+  private createHothSpeederContext(ctx: ModeContext): HothSpeederContext {
+    return {
+      ctx,
+      currentSystem: this.currentSystem,
+      shipEid: this.shipEid,
+      targetEids: this.targetEids,
+      targetMeshes: this.targetMeshes,
+      projectileMeshes: this.projectileMeshes,
+      explosions: this.explosions,
+      input: this.simInput
+    };
+  }
+
+  private createConquestBattleContext(ctx: ModeContext): ConquestBattleContext {
+    return {
+      ctx,
+      currentSystem: this.currentSystem!,
+      shipEid: this.shipEid,
+      targetEids: this.targetEids,
+      targetMeshes: this.targetMeshes,
+      projectileMeshes: this.projectileMeshes,
+      explosions: this.explosions,
+      battle: this.conquestBattle,
+      killCredits: this.killCredits
+    };
+  }
+
+  private createScriptedContext(ctx: ModeContext): ScriptedFlightContext {
+    return {
+      ctx,
+      currentSystem: this.currentSystem!,
+      shipEid: this.shipEid,
+      targetEids: this.targetEids,
+      targetMeshes: this.targetMeshes,
+      projectileMeshes: this.projectileMeshes,
+      explosions: this.explosions,
+      script: getMissionScript(this.missionScript)
     };
   }
 
@@ -726,7 +1493,8 @@ export class FlightMode implements ModeHandler {
       </div>
       <div id="hud-bracket" class="hud-bracket hidden"></div>
       <div id="hud-lead" class="hud-lead hidden"></div>
-      <div id="hud-land-prompt" class="hud-land-prompt hidden">PRESS L TO LAND</div>
+      <div id="hud-land-prompt" class="hud-land-prompt hidden">${LAND_PROMPT}</div>
+      <div id="hud-ion-warning" class="hud-ion-warning hidden"></div>
       <div class="hud-left">
         <div class="hud-label">SPD</div>
         <div id="hud-speed" class="hud-value">0</div>
@@ -738,6 +1506,8 @@ export class FlightMode implements ModeHandler {
         <div id="hud-hp" class="hud-value">0</div>
         <div class="hud-label">TORP</div>
         <div id="hud-torpedo" class="hud-value">0/0</div>
+        <div class="hud-label">WPN</div>
+        <div id="hud-weapon" class="hud-value">LASERS</div>
       </div>
       <div class="hud-right">
         <div class="hud-label">SYS</div>
@@ -799,6 +1569,8 @@ export class FlightMode implements ModeHandler {
       shield: q<HTMLDivElement>("#hud-shield"),
       hp: q<HTMLDivElement>("#hud-hp"),
       torpedo: q<HTMLDivElement>("#hud-torpedo"),
+      weapon: q<HTMLDivElement>("#hud-weapon"),
+      ionWarning: q<HTMLDivElement>("#hud-ion-warning"),
       system: q<HTMLDivElement>("#hud-system"),
       faction: q<HTMLDivElement>("#hud-faction"),
       credits: q<HTMLDivElement>("#hud-credits"),
@@ -828,18 +1600,50 @@ export class FlightMode implements ModeHandler {
       this.flightHud.capitalPanel.classList.add("hidden");
     } else if (this.scenario === "destroy_star_destroyer") {
       this.starDestroyerHandler.updateHud(this.createStarDestroyerContext(ctx), this.flightHud, dt);
+    } else if (this.scenario === "coruscant_battle") {
+      this.coruscantHandler.updateHud(this.createCoruscantContext(ctx), this.flightHud, dt);
+    } else if (this.scenario === "hoth_speeder") {
+      this.hothSpeederHandler.updateHud(this.createHothSpeederContext(ctx), this.flightHud, dt);
+      this.flightHud.capitalPanel.classList.add("hidden");
+    } else if (this.scenario === "conquest") {
+      this.conquestHandler.updateHud(this.createConquestBattleContext(ctx), this.flightHud, dt);
+      this.flightHud.capitalPanel.classList.add("hidden");
+    } else if (this.scenario === "scripted") {
+      this.scriptedHandler.updateHud(this.createScriptedContext(ctx), this.flightHud, dt);
+      this.flightHud.capitalPanel.classList.add("hidden");
     } else {
       this.sandboxHandler.updateHud(this.createSandboxContext(ctx), this.flightHud, dt);
       // Ensure capital panel is hidden in sandbox mode
       this.flightHud.capitalPanel.classList.add("hidden");
     }
 
+    // Landing / launch callouts take over the land prompt
+    if (this.shipEid !== null && isTransitioning(ctx.world, this.shipEid)) {
+      const phase = getTransitionPhase(
+        TransitionState.type[this.shipEid] as TransitionType,
+        TransitionState.progress[this.shipEid] ?? 0
+      );
+      this.flightHud.landPrompt.textContent = TRANSITION_CALLOUTS[phase];
+      this.flightHud.landPrompt.classList.remove("hidden");
+    } else if (this.flightHud.landPrompt.textContent !== LAND_PROMPT) {
+      this.flightHud.landPrompt.textContent = LAND_PROMPT;
+    }
+    // A co-op room stays in the air
+    if (this.coop) {
+      this.flightHud.landPrompt.classList.add("hidden");
+    }
+
     // Handle dead player HUD
     if (this.playerDead) {
       this.flightHud.target.textContent = "SHIP DESTROYED";
       const yavinState = this.yavinHandler.getYavinState();
       const sdState = this.starDestroyerHandler.getMissionState();
-      if (yavinState || sdState) {
+      const coruscantState = this.coruscantHandler.getMissionState();
+      if (this.scenario === "conquest") {
+        this.flightHud.lock.textContent = "BATTLE LOST";
+      } else if (this.scenario === "hoth_speeder") {
+        this.flightHud.lock.textContent = "PRESS H TO RETURN TO ECHO BASE";
+      } else if (yavinState || sdState || coruscantState || this.scriptedHandler.getMissionState()) {
         this.flightHud.lock.textContent = "PRESS H TO RESTART";
       } else {
         this.flightHud.lock.textContent = "RESPAWNING...";
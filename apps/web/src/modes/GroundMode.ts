@@ -4,12 +4,29 @@
  * Orchestrates ground combat scenarios via a modular handler pattern.
  * GroundMode manages common infrastructure (physics, input, camera, effects).
  * Scenario handlers manage terrain, spawning, objectives, and HUD content.
+ * Ground battles launched from Galactic Conquest report their outcome back.
+ * The "scripted" scenario runs a JSON mission script from apps/web/src/missions.
+ * Landing from flight parks the ship beside the player; walking back to it
+ * and pressing launch flies the climb-out sequence back into FlightMode.
+ * Terrain follows the planet fought on (style from the landing site or the
+ * conquest planet); scenarios that stream it hand GroundTerrain back here.
  */
 
 import * as THREE from "three";
-import { removeEntity, hasComponent } from "bitecs";
+import { addComponent, addEntity, removeEntity, hasComponent } from "bitecs";
+import {
+  createLogger,
+  createInputRecorder,
+  createInputReplay,
+  type InputRecorder,
+  type InputRecording,
+  type InputReplay
+} from "@xwingz/core";
+import { createTerrain, deriveSeed, getPlanet, terrainForPlanet, type Terrain } from "@xwingz/procgen";
+import { PLANETS } from "@xwingz/data";
 import {
   createGroundInput,
+  type GroundInputState,
   groundMovementSystem,
   syncPlayerGroundInput,
   vehicleInteractionSystem,
@@ -18,6 +35,17 @@ import {
   groundVehicleMovementSystem,
   commandPostSystem,
   groundAISystem,
+  groundVehicleAISystem,
+  suppressionSystem,
+  squadSystem,
+  findPlayerSquad,
+  issueSquadOrder,
+  nearestPostFor,
+  disbandAllSquads,
+  SquadOrder,
+  type CoverProbe,
+  bakeNavGrid,
+  setGroundNavGrid,
   damageReactionSystem,
   staminaSystem,
   dodgeRollSystem,
@@ -27,10 +55,20 @@ import {
   Transform,
   GroundInput,
   Health,
-  BlasterBolt
+  BlasterBolt,
+  emptyBattleUnits,
+  beginTransition,
+  transitionSystem,
+  consumeTransitionCompleteEvents,
+  calculateLaunchPosition,
+  interpolateTransition,
+  TransitionState,
+  TRANSITION_TYPE
 } from "@xwingz/gameplay";
 import {
   createPhysicsWorld,
+  groundHeightAt,
+  raycast,
   stepPhysics,
   type PhysicsWorld
 } from "@xwingz/physics";
@@ -39,9 +77,11 @@ import type {
   ModeContext,
   ModeTransitionData,
   GroundFromFlightData,
-  GroundScenario
+  GroundScenario,
+  ConquestBattleRef,
+  HothSpeederRunResult
 } from "./types";
-import { isGroundFromFlightTransition } from "./types";
+import { isGroundFromFlightTransition, isGroundTransition } from "./types";
 import { disposeObject } from "../rendering/MeshManager";
 import { ExplosionManager } from "../rendering/effects";
 import { createProceduralShip } from "@xwingz/render";
@@ -52,6 +92,23 @@ import type {
 } from "./ground/GroundScenarioTypes";
 import { DefaultScenario } from "./ground/DefaultScenario";
 import { HothDefenseScenario } from "./ground/HothDefenseScenario";
+import { ConquestGroundScenario } from "./ground/ConquestGroundScenario";
+import { ScriptedGroundScenario } from "./ground/ScriptedGroundScenario";
+import type { GroundTerrain } from "./ground/GroundTerrain";
+import { getMissionScript } from "../missions";
+import { groundReplayMeta, setLastRecording } from "../state/ReplayManager";
+
+const log = createLogger("GroundMode");
+
+// Seeds ground missions that don't come with one (matches the game's global seed)
+const DEFAULT_GROUND_SEED = 42n;
+
+// Terrain style when the planet isn't known
+const DEFAULT_TERRAIN_STYLE = "jungle";
+
+// Half the width of the square of ground the AI nav grid covers, centred on
+// the player (m); it is rebaked once the player strays half that far
+const NAV_HALF_EXTENT = 80;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Ground Mode State
@@ -61,6 +118,7 @@ export class GroundMode implements ModeHandler {
   // Scenario handler
   private scenarioHandler: GroundScenarioHandler | null = null;
   private scenarioType: GroundScenario = "default";
+  private missionScript: string | undefined = undefined;
 
   // Physics
   private physicsWorld: PhysicsWorld | null = null;
@@ -68,6 +126,14 @@ export class GroundMode implements ModeHandler {
   // Input
   private groundInput: ReturnType<typeof createGroundInput> | null = null;
 
+  // Mission seed - scenarios derive all their randomness from it
+  private missionSeed = DEFAULT_GROUND_SEED;
+
+  // Input recording / replay (one or the other per mission)
+  private recorder: InputRecorder<GroundInputState> | null = null;
+  private replay: InputReplay<GroundInputState> | null = null;
+  private replayTick = 0;
+
   // Entity tracking (shared with scenarios via GroundContext)
   private playerSoldierEid: number | null = null;
   private commandPostEids: number[] = [];
@@ -82,6 +148,13 @@ export class GroundMode implements ModeHandler {
   private vehicleMeshes = new Map<number, THREE.Object3D>();
   private groundMesh: THREE.Mesh | null = null;
 
+  // Planet terrain, and its streamed chunks if the scenario built them
+  private planetTerrain: Terrain | null = null;
+  private terrain: GroundTerrain | null = null;
+
+  // Where the AI nav grid was last baked around (null = not baked yet)
+  private navCenter: { x: number; z: number } | null = null;
+
   // Blaster bolt meshes
   private boltMeshes = new Map<number, THREE.Mesh>();
   private boltGeometry: THREE.CylinderGeometry | null = null;
@@ -113,6 +186,19 @@ export class GroundMode implements ModeHandler {
   private canLaunch = false;
   private landedShipPosition = { x: 0, y: 0, z: 0 };
   private readonly LAUNCH_RADIUS = 8; // How close to ship to launch
+  private readonly SHIP_REST_HEIGHT = 1.5; // Hull height on its landing gear
+  private arrivalTimer = 0; // Counts down while the ship settles after touchdown
+  private readonly ARRIVAL_DURATION = 1.5;
+  private launchEid: number | null = null; // Ship entity flying the climb-out
+
+  // Acknowledgement of the last order given to the player's squad
+  private squadOrderMessage = "";
+  private squadOrderTimer = 0;
+  private readonly SQUAD_ORDER_MESSAGE_DURATION = 2;
+
+  // Conquest battle being fought (null outside Galactic Conquest)
+  private conquestBattle: ConquestBattleRef | null = null;
+  private conquestHandler: ConquestGroundScenario | null = null;
 
   enter(ctx: ModeContext, data?: ModeTransitionData): void {
     ctx.controls.enabled = false;
@@ -120,6 +206,8 @@ export class GroundMode implements ModeHandler {
 
     // Determine scenario type from transition data
     this.scenarioType = (data as any)?.scenario ?? "default";
+    this.conquestBattle = isGroundTransition(data) ? data.conquestBattle ?? null : null;
+    this.missionScript = isGroundTransition(data) ? data.missionScript : undefined;
 
     // Check for seamless transition from flight mode
     if (isGroundFromFlightTransition(data)) {
@@ -130,6 +218,9 @@ export class GroundMode implements ModeHandler {
       this.landedShipPosition = { x: 0, y: 0, z: 0 };
     }
 
+    this.missionSeed = this.resolveMissionSeed(data);
+    this.planetTerrain = this.resolvePlanetTerrain();
+
     // Initialize explosion manager
     this.explosions = new ExplosionManager(ctx.scene);
 
@@ -199,10 +290,14 @@ export class GroundMode implements ModeHandler {
     this.physicsWorld = createPhysicsWorld({ x: 0, y: -9.81, z: 0 });
 
     // Create input handler
-    this.groundInput = createGroundInput(window);
+    this.groundInput = createGroundInput(window, ctx.profile.controls);
+    this.startRecordingOrReplay(isGroundTransition(data) ? data.replay : undefined);
 
     // Instantiate scenario handler
-    this.scenarioHandler = this.createScenarioHandler(this.scenarioType);
+    this.conquestHandler = this.conquestBattle ? new ConquestGroundScenario(this.conquestBattle.setup) : null;
+    this.scenarioHandler =
+      this.conquestHandler ??
+      this.createScenarioHandler(this.scenarioType, isGroundTransition(data) ? data.speederRun : undefined);
 
     // Create ground context for scenario
     const gctx = this.createGroundContext(ctx);
@@ -241,8 +336,9 @@ export class GroundMode implements ModeHandler {
         // Get team from entity (simplified - assume team 0 for now)
         const cpMesh = this.buildCommandPostMesh(-1);
         const cx = Transform.x[cpEid] ?? 0;
+        const cy = Transform.y[cpEid] ?? 0;
         const cz = Transform.z[cpEid] ?? 0;
-        cpMesh.position.set(cx, 0, cz);
+        cpMesh.position.set(cx, cy, cz);
         cpMesh.userData.cpEid = cpEid;
         ctx.scene.add(cpMesh);
         this.commandPostMeshes.push(cpMesh);
@@ -265,18 +361,26 @@ export class GroundMode implements ModeHandler {
     }
     this.vehicleEids = [...gctx.vehicleEids];
 
-    // Store ground mesh reference
+    // Store ground mesh and terrain references
     this.groundMesh = gctx.groundMesh;
+    this.terrain = gctx.terrain;
+    if (this.terrain) {
+      this.landedShipPosition.y = this.terrain.heightAt(this.landedShipPosition.x, this.landedShipPosition.z);
+    }
 
-    // If transitioned from flight, spawn landed ship mesh
+    // If transitioned from flight, park the ship and put the pilot beside it
     if (this.transitionData) {
       this.landedShipMesh = this.buildLandedShipMesh();
       this.landedShipMesh.position.set(
         this.landedShipPosition.x,
-        this.landedShipPosition.y,
+        this.landedShipPosition.y + this.SHIP_REST_HEIGHT,
         this.landedShipPosition.z
       );
       ctx.scene.add(this.landedShipMesh);
+      this.placePilotBesideShip();
+      this.arrivalTimer = this.ARRIVAL_DURATION;
+    } else {
+      this.arrivalTimer = 0;
     }
 
     // Position camera
@@ -287,13 +391,210 @@ export class GroundMode implements ModeHandler {
     ctx.canvas.addEventListener("click", this.handleCanvasClick);
   }
 
+  /**
+   * Move the pilot out from under the parked ship (body and Transform both,
+   * so the character controller starts from the new spot)
+   */
+  private placePilotBesideShip(): void {
+    const eid = this.playerSoldierEid;
+    if (eid === null) return;
+
+    const x = this.landedShipPosition.x + 6;
+    const y = Math.max(Transform.y[eid] ?? 1, this.landedShipPosition.y + 1);
+    const z = this.landedShipPosition.z + 2;
+    Transform.x[eid] = x;
+    Transform.y[eid] = y;
+    Transform.z[eid] = z;
+    this.physicsWorld?.rigidBodies.get(eid)?.setTranslation({ x, y, z }, true);
+    this.playerMesh?.position.set(x, y, z);
+  }
+
+  /**
+   * Board the parked ship and start the climb-out. The ship gets its own
+   * entity so transitionSystem can fly it; the pilot's soldier stays behind.
+   */
+  private beginLaunch(ctx: ModeContext, data: GroundFromFlightData): void {
+    const ship = this.landedShipPosition;
+    const source = { x: ship.x, y: ship.y + this.SHIP_REST_HEIGHT, z: ship.z };
+
+    const eid = addEntity(ctx.world);
+    addComponent(ctx.world, Transform, eid);
+    Transform.x[eid] = source.x;
+    Transform.y[eid] = source.y;
+    Transform.z[eid] = source.z;
+    Transform.qx[eid] = 0;
+    Transform.qy[eid] = 0;
+    Transform.qz[eid] = 0;
+    Transform.qw[eid] = 1;
+
+    beginTransition(
+      ctx.world,
+      eid,
+      TRANSITION_TYPE.LAUNCHING,
+      source,
+      { x: source.x, y: source.y + 60, z: source.z - 40 },
+      { health: data.playerState.health, shields: data.playerState.shields ?? 0 }
+    );
+    this.launchEid = eid;
+    this.arrivalTimer = 0;
+    this.canLaunch = false;
+    if (this.playerMesh) this.playerMesh.visible = false;
+  }
+
+  /**
+   * Fly the climb-out and chase it with the camera; once clear of the
+   * ground hand over to FlightMode with the preserved hull/shields.
+   */
+  private tickLaunch(ctx: ModeContext, dt: number): void {
+    const eid = this.launchEid;
+    const data = this.transitionData;
+    if (eid === null || !data?.system) return;
+
+    transitionSystem(ctx.world, dt);
+
+    const x = Transform.x[eid] ?? 0;
+    const y = Transform.y[eid] ?? 0;
+    const z = Transform.z[eid] ?? 0;
+    if (this.landedShipMesh) {
+      this.landedShipMesh.position.set(x, y, z);
+      // Nose up as it climbs
+      this.landedShipMesh.rotation.x = 0.35 * Math.min(1, (TransitionState.progress[eid] ?? 0) * 3);
+    }
+
+    const desired = this.tmpCamOffset.set(x + 6, y + 4, z + 18);
+    ctx.camera.position.lerp(desired, 1 - Math.exp(-dt * 4));
+    ctx.camera.lookAt(x, y, z);
+
+    for (const done of consumeTransitionCompleteEvents()) {
+      if (done.eid !== eid) continue;
+      ctx.requestModeChange("flight", {
+        type: "flight_from_ground",
+        system: data.system,
+        launchPosition: calculateLaunchPosition(this.landedShipPosition),
+        playerState: {
+          ...data.playerState,
+          health: done.preservedHealth,
+          shields: done.preservedShields
+        },
+        planetIndex: data.planetIndex,
+        scenario: data.flightScenario ?? "yavin_defense"
+      });
+      return;
+    }
+
+    this.explosions?.update(dt);
+    ctx.renderer.render(ctx.scene, ctx.camera);
+  }
+
+  /**
+   * Report a conquest ground battle outcome back to the campaign
+   */
+  private returnToConquest(ctx: ModeContext, playerWon: boolean): void {
+    const battle = this.conquestBattle;
+    if (!battle) return;
+    this.conquestBattle = null;
+    ctx.requestModeChange("conquest", {
+      type: "conquest",
+      battleResult: {
+        battleEid: battle.battleEid,
+        report: this.conquestHandler?.buildReport(ctx.world, playerWon) ?? {
+          playerWon,
+          playerLosses: emptyBattleUnits(),
+          enemyLosses: emptyBattleUnits()
+        }
+      }
+    });
+  }
+
+  /**
+   * Seed for this mission: given by the transition (replays), derived from
+   * the landing site or conquest battle, or the default per scenario.
+   */
+  private resolveMissionSeed(data?: ModeTransitionData): bigint {
+    if (isGroundTransition(data) && data.seed !== undefined) return data.seed;
+    if (this.transitionData?.system) {
+      return deriveSeed(this.transitionData.system.seed, "ground", this.transitionData.planetIndex);
+    }
+    if (this.conquestBattle) {
+      return deriveSeed(DEFAULT_GROUND_SEED, "conquest", this.conquestBattle.battleEid);
+    }
+    if (this.missionScript) {
+      return deriveSeed(DEFAULT_GROUND_SEED, "ground", this.scenarioType, this.missionScript);
+    }
+    return deriveSeed(DEFAULT_GROUND_SEED, "ground", this.scenarioType);
+  }
+
+  /**
+   * Terrain for the planet being fought on: a procedural planet's own
+   * terrain seed, or the mission seed shaped by the fixed planet's style.
+   */
+  private resolvePlanetTerrain(): Terrain {
+    const seed = deriveSeed(this.missionSeed, "terrain");
+    const conquestPlanet = this.conquestBattle ? PLANETS[this.conquestBattle.planetIndex] : undefined;
+    if (conquestPlanet) return createTerrain(seed, conquestPlanet.style);
+
+    const system = this.transitionData?.system;
+    if (system) {
+      const fixed = PLANETS.find((p) => p.id === system.id);
+      if (fixed) return createTerrain(seed, fixed.style);
+      if (system.planetCount > 0) {
+        const orbit = Math.min(this.transitionData!.planetIndex, system.planetCount - 1);
+        return terrainForPlanet(getPlanet(system, orbit, { globalSeed: DEFAULT_GROUND_SEED }));
+      }
+    }
+    return createTerrain(seed, DEFAULT_TERRAIN_STYLE);
+  }
+
+  private startRecordingOrReplay(recording?: InputRecording): void {
+    this.recorder = null;
+    this.replay = null;
+    this.replayTick = 0;
+
+    if (recording) {
+      this.replay = createInputReplay<GroundInputState>(recording);
+      log.info(`Replaying ${this.replay.length} ticks`);
+    } else {
+      this.recorder = createInputRecorder<GroundInputState>(this.missionSeed, {
+        meta: groundReplayMeta(this.scenarioType, this.missionScript)
+      });
+    }
+  }
+
+  /**
+   * This tick's input: keyboard/mouse/gamepad, or the replay while one is running
+   */
+  private readInput(dt: number): GroundInputState {
+    this.groundInput!.update(dt);
+    const live = this.groundInput!.state;
+
+    if (this.replay) {
+      const recorded = this.replay.at(this.replayTick++);
+      if (recorded) {
+        // The keyboard can still leave a replay
+        recorded.toggleMap ||= live.toggleMap;
+        return recorded;
+      }
+      // Replay finished - hand control back to the player
+      log.info("Replay finished");
+      this.replay = null;
+    }
+
+    return live;
+  }
+
+  getRecording(): InputRecording | null {
+    return this.recorder?.finish() ?? null;
+  }
+
   /**
    * Create scenario handler based on type
    */
-  private createScenarioHandler(type: GroundScenario): GroundScenarioHandler {
+  private createScenarioHandler(type: GroundScenario, speederRun?: HothSpeederRunResult): GroundScenarioHandler {
     switch (type) {
       case "hoth_defense":
-        return new HothDefenseScenario();
+        return new HothDefenseScenario(speederRun);
+      case "scripted":
+        return new ScriptedGroundScenario(getMissionScript(this.missionScript));
       case "default":
       default:
         return new DefaultScenario();
@@ -307,6 +608,7 @@ export class GroundMode implements ModeHandler {
     return {
       ctx,
       physicsWorld: this.physicsWorld!,
+      seed: this.missionSeed,
       playerEid: this.playerSoldierEid,
       playerMesh: this.playerMesh,
       enemyEids: this.enemyEids,
@@ -317,7 +619,9 @@ export class GroundMode implements ModeHandler {
       commandPostMeshes: this.commandPostMeshes,
       boltMeshes: this.boltMeshes,
       explosions: this.explosions,
-      groundMesh: this.groundMesh
+      groundMesh: this.groundMesh,
+      planetTerrain: this.planetTerrain!,
+      terrain: this.terrain
     };
   }
 
@@ -408,12 +712,17 @@ export class GroundMode implements ModeHandler {
       return;
     }
 
-    // Update input
-    this.groundInput.update();
+    // Update input (or read it from the replay)
+    const input = this.readInput(dt);
+    this.recorder?.record(input);
 
-    // Check for mode exit
-    if (this.groundInput.state.toggleMap) {
-      ctx.requestModeChange("map", { type: "map" });
+    // Check for mode exit (retreating from a conquest battle loses it)
+    if (input.toggleMap) {
+      if (this.conquestBattle) {
+        this.returnToConquest(ctx, false);
+      } else {
+        ctx.requestModeChange("map", { type: "map" });
+      }
       return;
     }
 
@@ -425,7 +734,7 @@ export class GroundMode implements ModeHandler {
       const transition = this.scenarioHandler.canTransition();
 
       // Handle speeder boarding (for Hoth)
-      if (transition === "speeder" && this.groundInput.state.interact) {
+      if (transition === "speeder" && input.interact) {
         if (this.scenarioHandler.handleSpeederTransition) {
           this.scenarioHandler.handleSpeederTransition(gctx);
           return;
@@ -433,6 +742,12 @@ export class GroundMode implements ModeHandler {
       }
     }
 
+    // Climb-out in progress: the ship flies itself, the pilot is aboard
+    if (this.launchEid !== null) {
+      this.tickLaunch(ctx, dt);
+      return;
+    }
+
     // Launch detection (only if landed from flight with valid system)
     if (this.transitionData?.system && this.playerSoldierEid !== null && hasComponent(ctx.world, Transform, this.playerSoldierEid)) {
       const px = Transform.x[this.playerSoldierEid] ?? 0;
@@ -440,15 +755,12 @@ export class GroundMode implements ModeHandler {
       const dx = px - this.landedShipPosition.x;
       const dz = pz - this.landedShipPosition.z;
       const dist = Math.sqrt(dx * dx + dz * dz);
-      this.canLaunch = dist < this.LAUNCH_RADIUS;
+      this.canLaunch = dist < this.LAUNCH_RADIUS && this.arrivalTimer <= 0;
 
       // Handle launch
-      if (this.groundInput.state.launch && this.canLaunch) {
-        ctx.requestModeChange("flight", {
-          type: "flight",
-          system: this.transitionData.system,
-          scenario: "yavin_defense"
-        });
+      if (input.launch && this.canLaunch) {
+        this.beginLaunch(ctx, this.transitionData);
+        this.tickLaunch(ctx, dt);
         return;
       }
     } else {
@@ -456,16 +768,24 @@ export class GroundMode implements ModeHandler {
     }
 
     // Sync input to player entity
-    syncPlayerGroundInput(ctx.world, this.playerSoldierEid, this.groundInput.state);
+    syncPlayerGroundInput(ctx.world, this.playerSoldierEid, input);
+    this.handleSquadOrders(ctx, input, dt);
+
+    // Stream terrain around the player
+    const heightAt = this.terrain?.heightAt;
+    this.terrain?.update(Transform.x[this.playerSoldierEid] ?? 0, Transform.z[this.playerSoldierEid] ?? 0);
 
     // Run ground systems
     groundMovementSystem(ctx.world, this.physicsWorld, dt);
     vehicleInteractionSystem(ctx.world);
-    groundVehicleMovementSystem(ctx.world, this.physicsWorld, dt);
+    groundVehicleMovementSystem(ctx.world, this.physicsWorld, dt, heightAt);
     blasterSystem(ctx.world, this.physicsWorld, dt);
     blasterBoltFlightSystem(ctx.world, dt);
+    suppressionSystem(ctx.world, dt, this.coverProbe);
     commandPostSystem(ctx.world, dt);
-    groundAISystem(ctx.world, dt);
+    squadSystem(ctx.world, dt);
+    groundAISystem(ctx.world, dt, heightAt);
+    groundVehicleAISystem(ctx.world, dt);
     damageReactionSystem(ctx.world, dt);
     staminaSystem(ctx.world, dt);
     dodgeRollSystem(ctx.world, this.physicsWorld, dt);
@@ -474,6 +794,9 @@ export class GroundMode implements ModeHandler {
     // Step physics
     stepPhysics(this.physicsWorld, dt);
 
+    // (Re)bake the AI nav grid once colliders have settled into the step
+    this.updateNavGrid(Transform.x[this.playerSoldierEid] ?? 0, Transform.z[this.playerSoldierEid] ?? 0);
+
     // Run scenario-specific tick
     if (this.scenarioHandler) {
       const shouldExit = this.scenarioHandler.tick(gctx, dt);
@@ -485,6 +808,8 @@ export class GroundMode implements ModeHandler {
       // Update HUD from scenario
       if (this.hudElements) {
         this.scenarioHandler.updateHud(gctx, this.hudElements);
+        if (this.canLaunch) this.hudElements.mission.textContent = "PRESS L TO LAUNCH";
+        if (this.squadOrderTimer > 0) this.hudElements.mission.textContent = this.squadOrderMessage;
       }
 
       // Sync newly spawned enemies from scenario
@@ -502,6 +827,18 @@ export class GroundMode implements ModeHandler {
       this.enemyEids = [...gctx.enemyEids];
     }
 
+    // Conquest battle outcome: player down loses, all enemies down wins
+    if (this.conquestBattle) {
+      if ((Health.hp[this.playerSoldierEid] ?? 0) <= 0) {
+        this.returnToConquest(ctx, false);
+        return;
+      }
+      if (this.enemyEids.length === 0) {
+        this.returnToConquest(ctx, true);
+        return;
+      }
+    }
+
     // Handle bolt spawn events (create meshes)
     const boltSpawns = consumeBlasterBoltSpawnEvents();
     for (const spawn of boltSpawns) {
@@ -637,8 +974,8 @@ export class GroundMode implements ModeHandler {
 
     // Third-person camera follow
     if (this.playerMesh) {
-      const yaw = this.groundInput.state.aimYaw;
-      const pitch = this.groundInput.state.aimPitch;
+      const yaw = input.aimYaw;
+      const pitch = input.aimPitch;
       const camDist = 8;
       const camHeight = 3;
 
@@ -654,7 +991,18 @@ export class GroundMode implements ModeHandler {
       );
 
       const k = 1 - Math.exp(-dt * 12);
-      if (!this.camInit) {
+      if (this.arrivalTimer > 0) {
+        // Touchdown: the ship settles onto its gear while the camera comes down from overhead
+        this.arrivalTimer = Math.max(0, this.arrivalTimer - dt);
+        const t = 1 - this.arrivalTimer / this.ARRIVAL_DURATION;
+        const eased = t * t * (3 - 2 * t);
+        const ship = this.landedShipPosition;
+        this.landedShipMesh?.position.setY(ship.y + this.SHIP_REST_HEIGHT + 12 * (1 - t) * (1 - t));
+        const overhead = { x: ship.x + 10, y: ship.y + 40, z: ship.z + 30 };
+        const cam = interpolateTransition(overhead, desiredCamPos, eased);
+        ctx.camera.position.set(cam.x, cam.y, cam.z);
+        this.camInit = true;
+      } else if (!this.camInit) {
         ctx.camera.position.copy(desiredCamPos);
         this.camInit = true;
       } else {
@@ -684,6 +1032,7 @@ export class GroundMode implements ModeHandler {
       const gctx = this.createGroundContext(ctx);
       this.scenarioHandler.exit(gctx);
       this.scenarioHandler = null;
+      this.conquestHandler = null;
     }
 
     // Remove player
@@ -736,7 +1085,18 @@ export class GroundMode implements ModeHandler {
       this.groundInput = null;
     }
 
-    // Remove landed ship mesh
+    // Keep the mission's recording for export
+    if (this.recorder && this.recorder.ticks > 0) {
+      setLastRecording(this.recorder.finish());
+    }
+    this.recorder = null;
+    this.replay = null;
+
+    // Remove the climb-out ship entity and landed ship mesh
+    if (this.launchEid !== null) {
+      removeEntity(ctx.world, this.launchEid);
+      this.launchEid = null;
+    }
     if (this.landedShipMesh) {
       ctx.scene.remove(this.landedShipMesh);
       disposeObject(this.landedShipMesh);
@@ -786,6 +1146,7 @@ export class GroundMode implements ModeHandler {
     // Reset transition state
     this.transitionData = null;
     this.canLaunch = false;
+    this.arrivalTimer = 0;
 
     // Clean up HUD elements
     if (this.hudElements) {
@@ -797,8 +1158,91 @@ export class GroundMode implements ModeHandler {
       this.hudElements = null;
     }
 
-    // Reset ground mesh reference
+    // Reset ground mesh and terrain references (the scenario disposed them)
     this.groundMesh = null;
+    this.terrain = null;
+    this.planetTerrain = null;
+
+    // Drop the nav grid with the colliders it was baked from
+    setGroundNavGrid(null);
+    disbandAllSquads(ctx.world);
+    this.squadOrderTimer = 0;
+    this.navCenter = null;
+  }
+
+  /**
+   * Bake the nav grid from the static colliders around (x, z) - terrain,
+   * boxes, trench walls - when there is none yet or the player has walked
+   * far enough from the last bake for its edge to matter.
+   */
+  /**
+   * Pass follow / hold / attack-post orders to the squad the player leads.
+   */
+  private handleSquadOrders(ctx: ModeContext, input: GroundInputState, dt: number): void {
+    this.squadOrderTimer = Math.max(0, this.squadOrderTimer - dt);
+    if (!input.orderFollow && !input.orderHold && !input.orderAttackPost) return;
+
+    const playerEid = this.playerSoldierEid;
+    if (playerEid === null) return;
+    const squad = findPlayerSquad(ctx.world, playerEid);
+    if (squad === null) return;
+
+    const px = Transform.x[playerEid] ?? 0;
+    const pz = Transform.z[playerEid] ?? 0;
+
+    if (input.orderFollow) {
+      issueSquadOrder(ctx.world, squad, SquadOrder.Follow, playerEid);
+      this.squadOrderMessage = "SQUAD: FORM ON ME";
+    } else if (input.orderHold) {
+      issueSquadOrder(ctx.world, squad, SquadOrder.Hold, -1, px, pz);
+      this.squadOrderMessage = "SQUAD: HOLD THIS POSITION";
+    } else {
+      const post = nearestPostFor(ctx.world, 0, px, pz);
+      if (post < 0) {
+        this.squadOrderMessage = "SQUAD: NO POST TO TAKE";
+      } else {
+        issueSquadOrder(ctx.world, squad, SquadOrder.AttackPost, post);
+        this.squadOrderMessage = "SQUAD: TAKING COMMAND POST";
+      }
+    }
+    this.squadOrderTimer = this.SQUAD_ORDER_MESSAGE_DURATION;
+  }
+
+  /**
+   * Cover test for suppressed AI: a chest-high ray from the spot to the
+   * shooter is blocked by level geometry.
+   */
+  private coverProbe: CoverProbe = (x, z, threatX, threatZ) => {
+    const pw = this.physicsWorld;
+    if (!pw) return false;
+    const fromY = (groundHeightAt(pw, x, z) ?? 0) + 1;
+    const toY = (groundHeightAt(pw, threatX, threatZ) ?? 0) + 1.5;
+    const dx = threatX - x;
+    const dy = toY - fromY;
+    const dz = threatZ - z;
+    const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (dist < 1) return false;
+    const dir = { x: dx / dist, y: dy / dist, z: dz / dist };
+    return raycast(pw, { x, y: fromY, z }, dir, dist - 1) !== null;
+  };
+
+  private updateNavGrid(x: number, z: number): void {
+    const physicsWorld = this.physicsWorld;
+    if (!physicsWorld) return;
+    if (this.navCenter && Math.hypot(x - this.navCenter.x, z - this.navCenter.z) < NAV_HALF_EXTENT / 2) return;
+
+    this.navCenter = { x, z };
+    setGroundNavGrid(
+      bakeNavGrid(
+        {
+          minX: Math.floor(x) - NAV_HALF_EXTENT,
+          minZ: Math.floor(z) - NAV_HALF_EXTENT,
+          maxX: Math.floor(x) + NAV_HALF_EXTENT,
+          maxZ: Math.floor(z) + NAV_HALF_EXTENT
+        },
+        (px, pz) => groundHeightAt(physicsWorld, px, pz)
+      )
+    );
   }
 
   private handleCanvasClick = (): void => {
@@ -8,6 +8,7 @@ import { PLANETS, planetToSystem, type PlanetDef } from "@xwingz/data";
 import { getPlanetTexture, clearPlanetTextureCache } from "@xwingz/render";
 import type { ModeHandler, ModeContext } from "./types";
 import { disposeObject } from "../rendering/MeshManager";
+import { MISSION_SCRIPTS, missionScriptTransition } from "../missions";
 import { setupEnhancedSpaceLighting, buildEnhancedStarfield, buildNebulaBackdrop, NebulaColors } from "../rendering/shared";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -48,6 +49,7 @@ export class MapMode implements ModeHandler {
 
   // Selection state
   private selectedSystem: SystemDef | null = null;
+  private selectedScript = 0;
 
   // Input helpers
   private raycaster = new THREE.Raycaster();
@@ -271,6 +273,12 @@ export class MapMode implements ModeHandler {
     return sprite;
   }
 
+  private scriptedMissionLine(): string {
+    const script = MISSION_SCRIPTS[this.selectedScript];
+    if (!script) return "";
+    return `6 Scripted: ${script.name} (${script.mode}) | 7 next mission`;
+  }
+
   private getFactionRingColor(faction: string): number {
     switch (faction) {
       case "republic": return 0xff6644;  // Rebel orange/red
@@ -295,7 +303,8 @@ export class MapMode implements ModeHandler {
         `Credits: ${ctx.profile.credits} | Tier: ${ctx.profile.missionTier}\n` +
         `Planets: 10 iconic Star Wars locations\n` +
         `Click planet to select | Enter to fly\n` +
-        `1 Yavin | 2/G Ground | 4 Star Destroyer | U upgrades`;
+        `1 Yavin | 2/G Ground | 4 Star Destroyer | 5 Coruscant | C Conquest | U upgrades | O controls\n` +
+        this.scriptedMissionLine();
     } else {
       const preview = getMission(sys, ctx.profile.missionTier);
       const planetName = planetDef?.name ?? sys.id;
@@ -308,7 +317,7 @@ export class MapMode implements ModeHandler {
         `Selected: ${planetName.toUpperCase()}\n` +
         `${description}\n` +
         `Faction: ${sys.controllingFaction}\n` +
-        `Mission: ${preview.title} — ${preview.goalKills} kills, reward ${preview.rewardCredits} CR\n` +
+        `Mission: ${preview.title} — ${preview.summary}, reward ${preview.rewardCredits} CR\n` +
         `Press Enter to fly here`;
     }
   }
@@ -332,6 +341,30 @@ export class MapMode implements ModeHandler {
           }
           break;
         }
+        case "5": {
+          const coruscant = PLANETS.find(p => p.id === "coruscant");
+          if (coruscant) {
+            const system = planetToSystem(coruscant);
+            ctx.requestModeChange("flight", { type: "flight", system, scenario: "coruscant_battle" });
+          }
+          break;
+        }
+        case "6": {
+          const script = MISSION_SCRIPTS[this.selectedScript];
+          const transition = script ? missionScriptTransition(script) : null;
+          if (transition) ctx.requestModeChange(transition.mode, transition.data);
+          break;
+        }
+        case "7":
+          if (MISSION_SCRIPTS.length > 0) {
+            this.selectedScript = (this.selectedScript + 1) % MISSION_SCRIPTS.length;
+            if (!this.selectedSystem) this.updateHud(ctx);
+          }
+          break;
+        case "c":
+        case "C":
+          ctx.requestModeChange("conquest", { type: "conquest" });
+          break;
         case "Enter":
           if (this.selectedSystem) {
             ctx.requestModeChange("flight", { type: "flight", system: this.selectedSystem, scenario: "sandbox" });
@@ -5,13 +5,18 @@
  * - Fleet mesh creation and updates
  * - Hyperspace trail rendering
  * - Fleet position interpolation
+ * - Hyperlane network lines
  */
 
 import * as THREE from "three";
 import { CONQUEST_FACTION } from "@xwingz/gameplay";
 import { createProceduralShip } from "@xwingz/render";
 import { disposeObject } from "../../rendering/MeshManager";
-import type { GalaxyFleetState, GalaxyPlanetState } from "../../conquest/GalaxySimulation";
+import type {
+  GalaxyFleetState,
+  GalaxyHyperlaneState,
+  GalaxyPlanetState
+} from "../../conquest/GalaxySimulation";
 import { GALAXY_SCALE, FACTION_COLORS, FACTION_GLOW } from "./ConquestConstants";
 
 /**
@@ -105,6 +110,75 @@ export function updateHyperspaceTrail(
   posAttr.needsUpdate = true;
 }
 
+/**
+ * Build line segments for every hyperlane (vertex colors follow planet control)
+ */
+export function buildHyperlaneLines(
+  scene: THREE.Scene,
+  hyperlanes: GalaxyHyperlaneState[],
+  planets: GalaxyPlanetState[]
+): THREE.LineSegments {
+  const positions = new Float32Array(hyperlanes.length * 6);
+  const scale = GALAXY_SCALE * 0.18;
+
+  hyperlanes.forEach((lane, i) => {
+    const from = planets.find((p) => p.eid === lane.fromPlanetEid);
+    const to = planets.find((p) => p.eid === lane.toPlanetEid);
+    if (!from || !to) return;
+    positions.set(
+      [
+        from.planetDef.position[0] * scale, 0, from.planetDef.position[1] * scale,
+        to.planetDef.position[0] * scale, 0, to.planetDef.position[1] * scale
+      ],
+      i * 6
+    );
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(new Float32Array(hyperlanes.length * 6), 3));
+
+  const material = new THREE.LineBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    opacity: 0.45,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false
+  });
+  const lines = new THREE.LineSegments(geometry, material);
+  lines.name = "hyperlanes";
+  scene.add(lines);
+
+  updateHyperlaneLines(lines, hyperlanes, planets);
+  return lines;
+}
+
+/**
+ * Recolor hyperlanes by the faction holding each end (major routes brighter)
+ */
+export function updateHyperlaneLines(
+  lines: THREE.LineSegments,
+  hyperlanes: GalaxyHyperlaneState[],
+  planets: GalaxyPlanetState[]
+): void {
+  const colorAttr = lines.geometry.attributes.color as THREE.BufferAttribute;
+  const arr = colorAttr.array as Float32Array;
+  const color = new THREE.Color();
+
+  hyperlanes.forEach((lane, i) => {
+    const brightness = lane.isMajorRoute ? 1 : 0.55;
+    const ends = [lane.fromPlanetEid, lane.toPlanetEid];
+    ends.forEach((planetEid, end) => {
+      const controller = planets.find((p) => p.eid === planetEid)?.controller ?? CONQUEST_FACTION.NEUTRAL;
+      color.setHex(FACTION_COLORS[controller]).multiplyScalar(brightness);
+      arr[i * 6 + end * 3] = color.r;
+      arr[i * 6 + end * 3 + 1] = color.g;
+      arr[i * 6 + end * 3 + 2] = color.b;
+    });
+  });
+  colorAttr.needsUpdate = true;
+}
+
 /**
  * Update all fleet visuals (positions, colors, trails)
  */
@@ -74,12 +74,12 @@ export function buildConquestHudText(
         `Garrison: ${Math.floor(planet.garrison)}\n` +
         `Resources: ${Math.floor(planet.resources)}\n` +
         `${planet.underAttack ? ">>> UNDER ATTACK <<<" : ""}\n` +
-        `Press ENTER to enter system\n`;
+        `Press ENTER to enter system | F to send your fleet\n`;
     }
   } else {
     hudText += `Click a planet to select\nB for Battle of Coruscant\n`;
   }
 
-  hudText += `\nESC: Return to map | SPACE: Pause | +/-: Speed`;
+  hudText += `\nESC: Return to map | SPACE: Pause | +/-: Speed | N: New campaign`;
   return hudText;
 }
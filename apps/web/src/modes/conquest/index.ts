@@ -19,7 +19,9 @@ export {
 export {
   createFleetMesh,
   updateHyperspaceTrail,
-  updateFleetVisuals
+  updateFleetVisuals,
+  buildHyperlaneLines,
+  updateHyperlaneLines
 } from "./ConquestFleetRenderer";
 
 export {
@@ -1,6 +1,7 @@
 /**
  * CapitalShipController - Manages capital ship entities and rendering
- * Handles Star Destroyer spawning, turrets, subsystems, and mesh syncing
+ * Handles Star Destroyer spawning, turrets, subsystems, and mesh syncing.
+ * Destroyed ships are handed to a CapitalWreckController while they break up.
  */
 
 import * as THREE from "three";
@@ -8,6 +9,7 @@ import { hasComponent } from "bitecs";
 import {
   Transform,
   CapitalShipV2,
+  CapitalDestruction,
   Turret,
   Subsystem,
   spawnCapitalShipV2,
@@ -15,11 +17,13 @@ import {
   consumeTurretFireEvents,
   consumeSubsystemDestroyedEvents
 } from "@xwingz/gameplay";
-import { AssetLoader, KENNEY_ASSETS, createProceduralShip } from "@xwingz/render";
+import { AssetLoader, KENNEY_ASSETS, createProceduralShip, type ShipType } from "@xwingz/render";
 import { createLogger } from "@xwingz/core";
+import type { FighterArchetypeId } from "@xwingz/data";
 import { disposeObject } from "../../rendering/MeshManager";
 import type { ModeContext } from "../types";
 import type { ExplosionManager } from "../../rendering/effects";
+import { CapitalWreckController } from "./CapitalWreckController";
 
 const log = createLogger("CapitalShipController");
 
@@ -46,6 +50,7 @@ export class CapitalShipController {
   private turretMeshes = new Map<number, THREE.Object3D>();
   private subsystemMeshes = new Map<number, THREE.Object3D>();
   private turretProjectileMeshes = new Map<number, THREE.Mesh>();
+  private wrecks = new CapitalWreckController();
 
   // Asset loading
   private assetLoader = new AssetLoader({ basePath: '/assets/models/' });
@@ -80,17 +85,60 @@ export class CapitalShipController {
     z: number,
     team: number
   ): { shipEid: number; turretEids: number[]; subsystemEids: number[] } {
-    const result = spawnCapitalShipV2(ctx.world, {
+    return this.spawnCapitalShip(ctx, {
       shipClass: 3, // ShipClass.Destroyer
+      meshType: "star_destroyer",
+      scale: 5.0,
       team,
       x,
       y,
       z
     });
+  }
+
+  /**
+   * Spawn a capital ship of any class with the given model
+   */
+  spawnCapitalShip(
+    ctx: ModeContext,
+    params: {
+      shipClass: number;
+      meshType: ShipType;
+      scale: number;
+      tint?: number;
+      team: number;
+      x: number;
+      y: number;
+      z: number;
+      /** Heading about +Y (0 faces -Z) */
+      yaw?: number;
+      seed?: number;
+      hangarArchetype?: FighterArchetypeId;
+    }
+  ): { shipEid: number; turretEids: number[]; subsystemEids: number[] } {
+    const { x, y, z } = params;
+    const yaw = params.yaw ?? 0;
+    const result = spawnCapitalShipV2(ctx.world, {
+      shipClass: params.shipClass,
+      team: params.team,
+      x,
+      y,
+      z,
+      qy: Math.sin(yaw / 2),
+      qw: Math.cos(yaw / 2),
+      seed: params.seed,
+      hangarArchetype: params.hangarArchetype
+    });
 
     // Create mesh using centralized ship model system
-    const mesh = createProceduralShip({ type: "star_destroyer", scale: 5.0, enableShadows: true });
+    const mesh = createProceduralShip({
+      type: params.meshType,
+      scale: params.scale,
+      tint: params.tint,
+      enableShadows: true
+    });
     mesh.position.set(x, y, z);
+    mesh.rotation.y = yaw;
     // FIX: Disable frustum culling for capital ships (they're so large they get incorrectly culled)
     mesh.frustumCulled = false;
     mesh.traverse((child) => {
@@ -140,7 +188,11 @@ export class CapitalShipController {
       // Check if destroyed
       if (!hasComponent(ctx.world, CapitalShipV2, eid)) {
         const mesh = this.capitalShipMeshes.get(eid);
-        if (mesh) {
+        if (mesh && hasComponent(ctx.world, CapitalDestruction, eid)) {
+          // Coming apart - the wreck controller plays it out from here
+          this.wrecks.adopt(eid, mesh);
+          this.capitalShipMeshes.delete(eid);
+        } else if (mesh) {
           // Big explosion for capital ship destruction
           explosions?.spawn(
             this.tmpExplosionPos.copy(mesh.position),
@@ -172,6 +224,8 @@ export class CapitalShipController {
       }
     }
 
+    this.wrecks.sync(ctx, explosions);
+
     // Sync turrets
     for (const [tid, mesh] of this.turretMeshes) {
       if (!hasComponent(ctx.world, Turret, tid)) {
@@ -255,6 +309,7 @@ export class CapitalShipController {
       removeCapitalShipV2(ctx.world, eid);
     }
     this.capitalShipEids = [];
+    this.wrecks.clear(ctx);
 
     for (const mesh of this.capitalShipMeshes.values()) {
       ctx.scene.remove(mesh);
@@ -0,0 +1,170 @@
+/**
+ * CapitalWreckController - Renders capital ship destruction sequences and wreckage
+ * Takes over a ship's hull mesh while it comes apart, plays the section,
+ * secondary and breakup explosions, and keeps the drifting hulk pieces in
+ * sync for the rest of the mission.
+ */
+
+import * as THREE from "three";
+import { hasComponent } from "bitecs";
+import { SeededRNG } from "@xwingz/core";
+import {
+  Transform,
+  CapitalDestruction,
+  WreckHulk,
+  clearCapitalWrecks,
+  consumeCapitalExplosionEvents,
+  consumeCapitalBreakupEvents
+} from "@xwingz/gameplay";
+import { disposeObject } from "../../rendering/MeshManager";
+import type { ModeContext } from "../types";
+import type { ExplosionManager } from "../../rendering/effects";
+
+export class CapitalWreckController {
+  private hullMeshes = new Map<number, THREE.Object3D>();
+  private hulkMeshes = new Map<number, THREE.Object3D>();
+
+  // Temp objects
+  private tmpPos = new THREE.Vector3();
+  private tmpSize = new THREE.Vector3();
+  private tmpBox = new THREE.Box3();
+
+  /**
+   * Take over the hull mesh of a ship that has started its destruction sequence
+   */
+  adopt(shipEid: number, mesh: THREE.Object3D): void {
+    this.hullMeshes.set(shipEid, mesh);
+  }
+
+  /**
+   * Play destruction explosions, swap broken-up hulls for hulk pieces and
+   * sync everything still drifting
+   */
+  sync(ctx: ModeContext, explosions: ExplosionManager | null): void {
+    for (const evt of consumeCapitalExplosionEvents()) {
+      const secondary = evt.kind === "secondary";
+      explosions?.spawn(
+        this.tmpPos.set(evt.x, evt.y, evt.z),
+        secondary ? 0xffaa55 : 0xff8844,
+        secondary ? 0.9 : 1.8,
+        evt.radius * (evt.kind === "breakup" ? 0.8 : 0.5)
+      );
+    }
+
+    for (const evt of consumeCapitalBreakupEvents()) {
+      // Hulk pieces are sized like the hull they came from, not its hit volume
+      let meshScale = 1;
+      const hull = this.hullMeshes.get(evt.shipEid);
+      if (hull) {
+        const hullLength = evt.hulkEids.reduce((sum, eid) => sum + (WreckHulk.length[eid] ?? 0), 0);
+        const size = this.tmpBox.setFromObject(hull).getSize(this.tmpSize);
+        if (hullLength > 0) meshScale = Math.max(size.x, size.y, size.z) / hullLength;
+        ctx.scene.remove(hull);
+        disposeObject(hull);
+        this.hullMeshes.delete(evt.shipEid);
+      }
+
+      for (const eid of evt.hulkEids) {
+        const mesh = this.buildHulkMesh(eid, (WreckHulk.length[eid] ?? 10) * meshScale);
+        this.syncMesh(eid, mesh);
+        ctx.scene.add(mesh);
+        this.hulkMeshes.set(eid, mesh);
+      }
+    }
+
+    this.syncMeshes(ctx, this.hullMeshes, (eid) => hasComponent(ctx.world, CapitalDestruction, eid));
+    this.syncMeshes(ctx, this.hulkMeshes, (eid) => hasComponent(ctx.world, WreckHulk, eid));
+  }
+
+  /**
+   * Remove all wreckage entities and meshes
+   */
+  clear(ctx: ModeContext): void {
+    clearCapitalWrecks(ctx.world);
+
+    for (const mesh of [...this.hullMeshes.values(), ...this.hulkMeshes.values()]) {
+      ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.hullMeshes.clear();
+    this.hulkMeshes.clear();
+  }
+
+  private syncMeshes(
+    ctx: ModeContext,
+    meshes: Map<number, THREE.Object3D>,
+    alive: (eid: number) => boolean
+  ): void {
+    for (const [eid, mesh] of meshes) {
+      if (!alive(eid)) {
+        ctx.scene.remove(mesh);
+        disposeObject(mesh);
+        meshes.delete(eid);
+        continue;
+      }
+      this.syncMesh(eid, mesh);
+    }
+  }
+
+  private syncMesh(eid: number, mesh: THREE.Object3D): void {
+    mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+    mesh.quaternion.set(
+      Transform.qx[eid] ?? 0,
+      Transform.qy[eid] ?? 0,
+      Transform.qz[eid] ?? 0,
+      Transform.qw[eid] ?? 1
+    );
+  }
+
+  /**
+   * Procedural hull section: scorched plating with torn-off blocks and fires
+   */
+  private buildHulkMesh(eid: number, length: number): THREE.Group {
+    const group = new THREE.Group();
+    const rng = new SeededRNG(eid * 7919 + 17);
+
+    const hullMat = new THREE.MeshStandardMaterial({
+      color: 0x3a3d45,
+      metalness: 0.3,
+      roughness: 0.9
+    });
+    const fireMat = new THREE.MeshStandardMaterial({
+      color: 0xff6622,
+      emissive: 0xff5511,
+      emissiveIntensity: 1.5
+    });
+
+    const core = new THREE.Mesh(new THREE.BoxGeometry(length * 0.45, length * 0.18, length), hullMat);
+    group.add(core);
+
+    // Torn-off blocks along the hull
+    for (let i = 0; i < 4; i++) {
+      const size = length * rng.range(0.12, 0.25);
+      const block = new THREE.Mesh(new THREE.BoxGeometry(size, size * 0.6, size * 1.4), hullMat);
+      block.position.set(
+        rng.range(-0.25, 0.25) * length,
+        rng.range(-0.12, 0.12) * length,
+        rng.range(-0.45, 0.45) * length
+      );
+      block.rotation.set(rng.range(-0.4, 0.4), rng.range(-0.4, 0.4), rng.range(-0.4, 0.4));
+      group.add(block);
+    }
+
+    // Fires still burning in the wreck
+    for (let i = 0; i < 3; i++) {
+      const fire = new THREE.Mesh(new THREE.SphereGeometry(length * rng.range(0.03, 0.06), 6, 6), fireMat);
+      fire.position.set(
+        rng.range(-0.2, 0.2) * length,
+        length * 0.1,
+        rng.range(-0.45, 0.45) * length
+      );
+      group.add(fire);
+    }
+
+    group.frustumCulled = false;
+    group.traverse((child) => {
+      child.frustumCulled = false;
+    });
+    return group;
+  }
+}
@@ -0,0 +1,642 @@
+/**
+ * ConquestBattleScenario - Space battle launched from Galactic Conquest
+ *
+ * The player's fleet has met an enemy fleet at a planet. Both sides are
+ * seeded from the strategic fleets (PlayerBattleSetup): the player flies with
+ * allied wingmen and capital ships against enemy fighter waves, bombers and
+ * capital ships. Clear the enemy fighters to win; getting shot down or
+ * retreating (M) loses the battle. FlightMode reports the outcome and the
+ * losses on both sides back to ConquestMode.
+ */
+
+import * as THREE from "three";
+import { addComponent, addEntity, hasComponent, removeEntity } from "bitecs";
+import { createProceduralShip, type ShipType } from "@xwingz/render";
+import { createRng, deriveSeed, getFighterArchetype, type SystemDef } from "@xwingz/procgen";
+import type { FighterArchetypeId } from "@xwingz/data";
+import {
+  AIControlled,
+  AngularVelocity,
+  CapitalShipV2,
+  CONQUEST_FACTION,
+  emptyBattleUnits,
+  FighterBrain,
+  Health,
+  HitRadius,
+  KillTracker,
+  LaserWeapon,
+  Shield,
+  Ship,
+  Targetable,
+  Targeting,
+  Team,
+  Transform,
+  Velocity,
+  type BattleUnitCounts,
+  type MissionResult,
+  type PlayerBattleReport,
+  type PlayerBattleSide
+} from "@xwingz/gameplay";
+import type { ConquestBattleRef, ModeContext } from "../types";
+import type { ExplosionManager } from "../../rendering/effects";
+import { disposeObject } from "../../rendering/MeshManager";
+import { CapitalShipController } from "./CapitalShipController";
+import {
+  type FlightHudElements,
+  type ConquestBattleState,
+  type TargetBracketState
+} from "./FlightScenarioTypes";
+import {
+  createMissionResult,
+  createStarfield,
+  disposeStarfield,
+  syncTargets,
+  syncCarrierFighters,
+  updatePlayerHudValues,
+  updateSystemInfo,
+  updateTargetBracket,
+  clearTargetBracket
+} from "./FlightShared";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conquest Battle Context
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ConquestBattleContext {
+  ctx: ModeContext;
+  currentSystem: SystemDef;
+  shipEid: number | null;
+  targetEids: number[];
+  targetMeshes: Map<number, THREE.Object3D>;
+  projectileMeshes: Map<number, THREE.Mesh>;
+  explosions: ExplosionManager | null;
+  battle: ConquestBattleRef | null;
+  /** Shooter of each ship killed this tick, by victim eid */
+  killCredits: ReadonlyMap<number, number>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BATTLE_WAVES = 2;
+const RETURN_DELAY = 4;
+const VICTORY_CREDITS = 250;
+const CRAFT_SCALE = 2.5;
+
+/** Enemy fleet when a battle is launched without a campaign (e.g. E2E) */
+const SKIRMISH_ENEMY: PlayerBattleSide = {
+  faction: CONQUEST_FACTION.EMPIRE,
+  veterancy: 0.3,
+  units: { ...emptyBattleUnits(), fighters: 6 }
+};
+
+/** Craft flown by each conquest faction */
+const FACTION_CRAFT: Record<number, {
+  archetype: FighterArchetypeId;
+  fighterMesh: ShipType;
+  bomberMesh: ShipType;
+  capitalClass: number;
+  capitalMesh: ShipType;
+  capitalScale: number;
+}> = {
+  [CONQUEST_FACTION.REBEL]: {
+    archetype: "xwing_player",
+    fighterMesh: "xwing",
+    bomberMesh: "ywing",
+    capitalClass: 1, // ShipClass.Frigate
+    capitalMesh: "nebulon_b",
+    capitalScale: 3.0
+  },
+  [CONQUEST_FACTION.EMPIRE]: {
+    archetype: "tie_ln",
+    fighterMesh: "tie_ln",
+    bomberMesh: "tie_fighter",
+    capitalClass: 3, // ShipClass.Destroyer
+    capitalMesh: "star_destroyer",
+    capitalScale: 5.0
+  }
+};
+
+/** Bombers are tougher and hit harder but fly like bricks */
+const BOMBER_MODS = { hp: 1.6, speed: 0.8, turn: 0.75, damage: 1.5 } as const;
+
+type CraftKind = "fighter" | "bomber";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conquest Battle Scenario Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ConquestBattleScenario {
+  private starfield: THREE.Points | null = null;
+  private state: ConquestBattleState | null = null;
+  private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
+
+  private player: PlayerBattleSide | null = null;
+  private enemy: PlayerBattleSide = SKIRMISH_ENEMY;
+  private capitals = new CapitalShipController();
+  private playerCapitalEids: number[] = [];
+  private enemyCapitalEids: number[] = [];
+
+  // Allied wingmen (not Targetable - the player can't lock friendlies)
+  private allyEids: number[] = [];
+  private allyMeshes = new Map<number, THREE.Object3D>();
+  private carrierMeshes = new Map<number, THREE.Object3D>();
+  private allyKinds = new Map<number, CraftKind>();
+
+  // Enemy craft still to come and already fielded
+  private enemyKinds = new Map<number, CraftKind>();
+  private waveFighters: number[] = [];
+  private waveBombers: number[] = [];
+
+  private playerLosses: BattleUnitCounts = emptyBattleUnits();
+  private enemyLosses: BattleUnitCounts = emptyBattleUnits();
+
+  // Debrief
+  private title = "";
+  private missionTime = 0;
+  private missionResult: MissionResult | null = null;
+  private killTracker = new KillTracker(80);
+
+  enter(bctx: ConquestBattleContext): void {
+    this.lockState = { lockValue: 0, lockTargetEid: -1 };
+    this.player = bctx.battle?.setup.player ?? null;
+    this.enemy = bctx.battle?.setup.enemy ?? SKIRMISH_ENEMY;
+    this.playerLosses = emptyBattleUnits();
+    this.enemyLosses = emptyBattleUnits();
+    this.title = `Battle of ${bctx.currentSystem.id.toUpperCase().replace(/_/g, " ")}`;
+    this.missionTime = 0;
+    this.missionResult = null;
+    this.killTracker = new KillTracker(80);
+
+    this.starfield = createStarfield(bctx.currentSystem.seed);
+    bctx.ctx.scene.add(this.starfield);
+
+    // Split enemy fighters across the waves; bombers come with the last one
+    const waves = this.enemy.units.fighters + this.enemy.units.bombers > 1 ? BATTLE_WAVES : 1;
+    this.waveFighters = [];
+    this.waveBombers = [];
+    let fightersLeft = this.enemy.units.fighters;
+    for (let i = 0; i < waves; i++) {
+      const count = Math.ceil(fightersLeft / (waves - i));
+      this.waveFighters.push(count);
+      this.waveBombers.push(i === waves - 1 ? this.enemy.units.bombers : 0);
+      fightersLeft -= count;
+    }
+
+    this.state = {
+      phase: "combat",
+      wave: 0,
+      wavesTotal: waves,
+      kills: 0,
+      enemyFighters: this.enemy.units.fighters,
+      enemyBombers: this.enemy.units.bombers,
+      wingmen: 0,
+      returnTimer: 0,
+      message: `BATTLE OF ${bctx.currentSystem.id.toUpperCase().replace(/_/g, " ")}`,
+      messageTimer: 3
+    };
+
+    this.spawnCapitals(bctx);
+    if (this.player) this.spawnWingmen(bctx, this.player);
+    this.spawnWave(bctx);
+  }
+
+  /**
+   * Returns true once the battle is over and FlightMode should report back.
+   */
+  tick(bctx: ConquestBattleContext, dt: number): boolean {
+    const s = this.state;
+    if (!s) return false;
+
+    // Capital ship hangars launch extra fighters on both sides; they are not
+    // part of the strategic fleets, so losing them costs nothing on the map
+    syncCarrierFighters(
+      bctx.ctx,
+      bctx.ctx.scene,
+      bctx.targetMeshes,
+      this.carrierMeshes,
+      bctx.explosions,
+      (_, team) => {
+        const side = team === 0 && this.player ? this.player : this.enemy;
+        return this.buildCraftMesh(side.faction, "fighter");
+      }
+    );
+
+    const syncResult = syncTargets(bctx.ctx, bctx.ctx.scene, bctx.targetMeshes, bctx.explosions);
+    // Update array in place to preserve FlightMode's reference
+    bctx.targetEids.length = 0;
+    bctx.targetEids.push(...syncResult.targetEids);
+
+    this.syncWingmen(bctx);
+    this.capitals.sync(bctx.ctx, bctx.explosions);
+    this.capitals.syncTurretProjectiles(bctx.explosions);
+    this.countCapitalLosses(bctx);
+
+    if (s.messageTimer > 0) {
+      s.messageTimer = Math.max(0, s.messageTimer - dt);
+    }
+
+    if (s.phase !== "combat") {
+      s.returnTimer -= dt;
+      return s.returnTimer <= 0;
+    }
+    this.missionTime += dt;
+
+    s.kills += syncResult.killedCount;
+    for (const eid of syncResult.killedEids) {
+      const kind = this.enemyKinds.get(eid);
+      if (!kind) continue;
+      this.enemyKinds.delete(eid);
+      const byWingman = this.allyEids.includes(bctx.killCredits.get(eid) ?? -1);
+      this.killTracker.recordKill(kind, s.wave, byWingman);
+      if (kind === "bomber") {
+        this.enemyLosses.bombers += 1;
+        s.enemyBombers = Math.max(0, s.enemyBombers - 1);
+      } else {
+        this.enemyLosses.fighters += 1;
+        s.enemyFighters = Math.max(0, s.enemyFighters - 1);
+      }
+    }
+
+    if (this.enemyKinds.size === 0) {
+      if (s.wave < s.wavesTotal) {
+        this.spawnWave(bctx);
+      } else {
+        this.endBattle(bctx, true);
+      }
+    }
+
+    return false;
+  }
+
+  handleHyperspace(_bctx: ConquestBattleContext): boolean {
+    if (!this.state) return true;
+    if (this.state.phase !== "combat") return true;
+
+    this.state.message = "HYPERSPACE DISABLED - WIN THE BATTLE OR RETREAT (M)";
+    this.state.messageTimer = 2;
+    return false;
+  }
+
+  updateHud(bctx: ConquestBattleContext, els: FlightHudElements, dt: number): void {
+    updatePlayerHudValues(els, bctx.shipEid, bctx.ctx);
+    updateSystemInfo(els, bctx.currentSystem, bctx.ctx.profile.credits);
+
+    const s = this.state;
+    if (s) {
+      if (s.messageTimer > 0) {
+        els.mission.textContent = s.message;
+      } else if (s.phase === "victory") {
+        els.mission.textContent = "SYSTEM SECURED - RETURNING TO GALAXY MAP";
+      } else if (s.phase === "defeat") {
+        els.mission.textContent = "BATTLE LOST - RETURNING TO GALAXY MAP";
+      } else {
+        els.mission.textContent =
+          `FLEET ENGAGEMENT  WAVE ${s.wave}/${s.wavesTotal}  ` +
+          `FIGHTERS ${s.enemyFighters}  BOMBERS ${s.enemyBombers}  WINGMEN ${s.wingmen}`;
+      }
+    }
+
+    // Target bracket
+    if (bctx.shipEid !== null) {
+      const teid = Targeting.targetEid[bctx.shipEid] ?? -1;
+      if (teid >= 0 && Transform.x[teid] !== undefined) {
+        this.lockState = updateTargetBracket(bctx.ctx, els, bctx.shipEid, teid, this.lockState, dt);
+      } else {
+        clearTargetBracket(els);
+        this.lockState = { lockValue: 0, lockTargetEid: -1 };
+      }
+    }
+  }
+
+  getMissionMessage(_bctx: ConquestBattleContext): string {
+    if (!this.state) return "";
+    if (this.state.messageTimer > 0) return this.state.message;
+    return `PHASE: ${this.state.phase.toUpperCase()}`;
+  }
+
+  canLand(_bctx: ConquestBattleContext): boolean {
+    return false;
+  }
+
+  exit(bctx: ConquestBattleContext): void {
+    disposeStarfield(bctx.ctx.scene, this.starfield);
+    this.starfield = null;
+
+    for (const eid of this.allyEids) {
+      if (hasComponent(bctx.ctx.world, Transform, eid)) removeEntity(bctx.ctx.world, eid);
+    }
+    for (const mesh of this.allyMeshes.values()) {
+      bctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.allyEids = [];
+    this.allyMeshes.clear();
+    this.allyKinds.clear();
+    this.enemyKinds.clear();
+
+    for (const [eid, mesh] of this.carrierMeshes) {
+      if (hasComponent(bctx.ctx.world, Transform, eid)) removeEntity(bctx.ctx.world, eid);
+      bctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.carrierMeshes.clear();
+
+    this.capitals.clear(bctx.ctx);
+    this.playerCapitalEids = [];
+    this.enemyCapitalEids = [];
+
+    this.state = null;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Public Accessors
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  getBattleState(): ConquestBattleState | null {
+    return this.state;
+  }
+
+  /**
+   * How the battle ended, for the debrief (null while it is still on)
+   */
+  getMissionResult(): MissionResult | null {
+    const s = this.state;
+    if (!s || s.phase === "combat") return null;
+    this.missionResult ??= createMissionResult(
+      "conquest",
+      this.title,
+      s.phase === "victory",
+      this.missionTime,
+      null,
+      this.killTracker,
+      s.phase === "victory" ? VICTORY_CREDITS : 0
+    );
+    return this.missionResult;
+  }
+
+  /**
+   * Player was shot down - the battle is lost.
+   */
+  markDefeat(bctx: ConquestBattleContext): void {
+    if (!this.state || this.state.phase !== "combat") return;
+    // The player's own craft counts as a lost fighter
+    this.playerLosses.fighters += 1;
+    this.endBattle(bctx, false);
+    this.state.message = "BATTLE LOST - YOU WERE SHOT DOWN";
+  }
+
+  /**
+   * What each side lost, for resolvePlayerBattle.
+   */
+  buildReport(playerWon: boolean): PlayerBattleReport {
+    return {
+      playerWon,
+      playerLosses: { ...this.playerLosses },
+      enemyLosses: { ...this.enemyLosses }
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private battleSeed(bctx: ConquestBattleContext, ...keys: Array<string | number>): bigint {
+    const battleKey = bctx.battle ? bctx.battle.battleEid : "skirmish";
+    return deriveSeed(bctx.currentSystem.seed, "conquest", battleKey, ...keys);
+  }
+
+  private spawnWave(bctx: ConquestBattleContext): void {
+    const s = this.state;
+    if (!s) return;
+
+    const rng = createRng(this.battleSeed(bctx, "wave", s.wave));
+    const fighters = this.waveFighters[s.wave] ?? 0;
+    const bombers = this.waveBombers[s.wave] ?? 0;
+    s.wave += 1;
+
+    for (let i = 0; i < fighters + bombers; i++) {
+      const kind: CraftKind = i < fighters ? "fighter" : "bomber";
+      const angle = rng.range(-0.9, 0.9);
+      const r = rng.range(900, 1500);
+      const pos = new THREE.Vector3(Math.sin(angle) * r, rng.range(-140, 140), -Math.cos(angle) * r - rng.range(300, 800));
+
+      const eid = this.spawnCraft(bctx, this.enemy, kind, 1, pos, rng.range(0.6, 0.9));
+      addComponent(bctx.ctx.world, Targetable, eid);
+
+      const mesh = this.buildCraftMesh(this.enemy.faction, kind);
+      mesh.position.copy(pos);
+      bctx.ctx.scene.add(mesh);
+      bctx.targetMeshes.set(eid, mesh);
+      bctx.targetEids.push(eid);
+      this.enemyKinds.set(eid, kind);
+    }
+  }
+
+  private spawnWingmen(bctx: ConquestBattleContext, player: PlayerBattleSide): void {
+    // The player flies one of the fleet's fighters
+    const fighters = Math.max(0, player.units.fighters - 1);
+    const total = fighters + player.units.bombers;
+
+    for (let i = 0; i < total; i++) {
+      const kind: CraftKind = i < fighters ? "fighter" : "bomber";
+      const side = i % 2 === 0 ? -1 : 1;
+      const row = Math.floor(i / 2) + 1;
+      const pos = new THREE.Vector3(side * row * 24, (i % 3) * 6 - 6, row * 20 + 20);
+
+      const eid = this.spawnCraft(bctx, player, kind, 0, pos, 0.45);
+      const mesh = this.buildCraftMesh(player.faction, kind);
+      mesh.position.copy(pos);
+      bctx.ctx.scene.add(mesh);
+      this.allyMeshes.set(eid, mesh);
+      this.allyKinds.set(eid, kind);
+      this.allyEids.push(eid);
+    }
+    if (this.state) this.state.wingmen = this.allyEids.length;
+  }
+
+  private spawnCapitals(bctx: ConquestBattleContext): void {
+    this.playerCapitalEids = [];
+    this.enemyCapitalEids = [];
+
+    const spawnSide = (side: PlayerBattleSide, team: number, z: number): number[] => {
+      const craft = FACTION_CRAFT[side.faction] ?? FACTION_CRAFT[CONQUEST_FACTION.EMPIRE]!;
+      const eids: number[] = [];
+      for (let i = 0; i < side.units.capitals; i++) {
+        const { shipEid } = this.capitals.spawnCapitalShip(bctx.ctx, {
+          shipClass: craft.capitalClass,
+          meshType: craft.capitalMesh,
+          scale: craft.capitalScale,
+          team,
+          x: (i - (side.units.capitals - 1) / 2) * 700,
+          y: team === 0 ? -120 : 160,
+          z,
+          seed: Number(this.battleSeed(bctx, "capital", team, i) & 0x7fffffffn),
+          hangarArchetype: craft.archetype
+        });
+        eids.push(shipEid);
+      }
+      return eids;
+    };
+
+    if (this.player) this.playerCapitalEids = spawnSide(this.player, 0, 900);
+    this.enemyCapitalEids = spawnSide(this.enemy, 1, -2600);
+  }
+
+  private spawnCraft(
+    bctx: ConquestBattleContext,
+    side: PlayerBattleSide,
+    kind: CraftKind,
+    team: number,
+    pos: THREE.Vector3,
+    throttle: number
+  ): number {
+    const world = bctx.ctx.world;
+    const craft = FACTION_CRAFT[side.faction] ?? FACTION_CRAFT[CONQUEST_FACTION.EMPIRE]!;
+    const archetype = getFighterArchetype(craft.archetype);
+    const bomber = kind === "bomber";
+    // Veteran fleets field tougher, more aggressive pilots
+    const quality = 0.8 + side.veterancy * 0.4;
+
+    const eid = addEntity(world);
+    addComponent(world, Transform, eid);
+    addComponent(world, Velocity, eid);
+    addComponent(world, AngularVelocity, eid);
+    addComponent(world, Team, eid);
+    addComponent(world, Ship, eid);
+    addComponent(world, LaserWeapon, eid);
+    addComponent(world, Health, eid);
+    addComponent(world, HitRadius, eid);
+    addComponent(world, Shield, eid);
+    addComponent(world, FighterBrain, eid);
+    addComponent(world, AIControlled, eid);
+
+    Transform.x[eid] = pos.x;
+    Transform.y[eid] = pos.y;
+    Transform.z[eid] = pos.z;
+    Transform.qx[eid] = 0;
+    Transform.qy[eid] = 0;
+    Transform.qz[eid] = 0;
+    Transform.qw[eid] = 1;
+
+    Velocity.vx[eid] = 0;
+    Velocity.vy[eid] = 0;
+    Velocity.vz[eid] = 0;
+
+    AngularVelocity.wx[eid] = 0;
+    AngularVelocity.wy[eid] = 0;
+    AngularVelocity.wz[eid] = 0;
+
+    Team.id[eid] = team;
+
+    Ship.throttle[eid] = throttle;
+    Ship.maxSpeed[eid] = archetype.maxSpeed * (bomber ? BOMBER_MODS.speed : 1);
+    Ship.accel[eid] = archetype.accel * (bomber ? BOMBER_MODS.speed : 1);
+    Ship.turnRate[eid] = archetype.turnRate * (bomber ? BOMBER_MODS.turn : 1);
+
+    LaserWeapon.cooldown[eid] = archetype.weaponCooldown;
+    LaserWeapon.cooldownRemaining[eid] = archetype.weaponCooldown;
+    LaserWeapon.projectileSpeed[eid] = archetype.projectileSpeed;
+    LaserWeapon.damage[eid] = archetype.damage * (bomber ? BOMBER_MODS.damage : 1);
+
+    const hp = archetype.hp * quality * (bomber ? BOMBER_MODS.hp : 1);
+    Health.hp[eid] = hp;
+    Health.maxHp[eid] = hp;
+    HitRadius.r[eid] = archetype.hitRadius;
+
+    Shield.maxSp[eid] = craft.archetype === "tie_ln" ? 10 : 40;
+    Shield.sp[eid] = Shield.maxSp[eid];
+    Shield.regenRate[eid] = 5;
+    Shield.lastHit[eid] = 999;
+
+    FighterBrain.state[eid] = 0;
+    FighterBrain.stateTime[eid] = 0;
+    FighterBrain.aggression[eid] = Math.min(1, archetype.aggression * quality);
+    FighterBrain.evadeBias[eid] = archetype.evadeBias;
+    FighterBrain.targetEid[eid] = -1;
+
+    return eid;
+  }
+
+  private buildCraftMesh(faction: number, kind: CraftKind): THREE.Object3D {
+    const craft = FACTION_CRAFT[faction] ?? FACTION_CRAFT[CONQUEST_FACTION.EMPIRE]!;
+    const mesh = createProceduralShip({
+      type: kind === "bomber" ? craft.bomberMesh : craft.fighterMesh,
+      enableShadows: true
+    });
+    mesh.scale.setScalar(CRAFT_SCALE);
+    return mesh;
+  }
+
+  private syncWingmen(bctx: ConquestBattleContext): void {
+    const world = bctx.ctx.world;
+
+    for (let i = this.allyEids.length - 1; i >= 0; i--) {
+      const eid = this.allyEids[i]!;
+      const mesh = this.allyMeshes.get(eid);
+
+      if (
+        !hasComponent(world, Transform, eid) ||
+        !hasComponent(world, Health, eid) ||
+        (Health.hp[eid] ?? 0) <= 0
+      ) {
+        if (mesh) {
+          bctx.explosions?.spawn(mesh.position.clone(), 0x66aaff);
+          bctx.ctx.scene.remove(mesh);
+          disposeObject(mesh);
+          this.allyMeshes.delete(eid);
+        }
+        if (this.state?.phase === "combat") {
+          if (this.allyKinds.get(eid) === "bomber") this.playerLosses.bombers += 1;
+          else this.playerLosses.fighters += 1;
+        }
+        this.allyKinds.delete(eid);
+        this.allyEids.splice(i, 1);
+        continue;
+      }
+
+      if (!mesh) continue;
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.quaternion.set(
+        Transform.qx[eid] ?? 0,
+        Transform.qy[eid] ?? 0,
+        Transform.qz[eid] ?? 0,
+        Transform.qw[eid] ?? 1
+      );
+    }
+
+    if (this.state) this.state.wingmen = this.allyEids.length;
+  }
+
+  private countCapitalLosses(bctx: ConquestBattleContext): void {
+    const world = bctx.ctx.world;
+    const combat = this.state?.phase === "combat";
+
+    this.playerCapitalEids = this.playerCapitalEids.filter((eid) => {
+      if (hasComponent(world, CapitalShipV2, eid)) return true;
+      if (combat) this.playerLosses.capitals += 1;
+      return false;
+    });
+    this.enemyCapitalEids = this.enemyCapitalEids.filter((eid) => {
+      if (hasComponent(world, CapitalShipV2, eid)) return true;
+      if (combat) this.enemyLosses.capitals += 1;
+      return false;
+    });
+  }
+
+  private endBattle(bctx: ConquestBattleContext, playerWon: boolean): void {
+    const s = this.state!;
+    s.phase = playerWon ? "victory" : "defeat";
+    s.returnTimer = RETURN_DELAY;
+    s.messageTimer = RETURN_DELAY;
+
+    if (playerWon) {
+      bctx.ctx.profile.credits += VICTORY_CREDITS;
+      s.message = `ENEMY FLEET ROUTED  +${VICTORY_CREDITS} CR`;
+      bctx.ctx.scheduleSave();
+    } else {
+      s.message = "BATTLE LOST";
+    }
+  }
+}
@@ -0,0 +1,836 @@
+/**
+ * CoruscantBattleScenario - Battle of Coruscant story mission
+ *
+ * Drives the coruscant-runtime mission from @xwingz/gameplay:
+ * - Briefing and launch from the Resolute
+ * - Runtime phases: blockade, cruiser defense, buzz droid emergency,
+ *   assault on the Invisible Hand (boarding craft escort)
+ * - Victory / defeat with restart
+ */
+
+import * as THREE from "three";
+import { defineQuery, hasComponent, removeEntity } from "bitecs";
+import { PLANETS } from "@xwingz/data";
+import type {
+  SystemDef,
+  CoruscantDifficulty,
+  CoruscantDialogueTrigger,
+  CoruscantFighterArchetypeId
+} from "@xwingz/procgen";
+import { createProceduralShip, getPlanetTexture, type ShipType } from "@xwingz/render";
+import {
+  BuzzDroidSwarm,
+  BuzzDroidVictim,
+  CapitalShip,
+  DroidBrain,
+  Health,
+  HitRadius,
+  Ship,
+  Targeting,
+  Team,
+  Transform,
+  Velocity,
+  WeakPoint,
+  createCoruscantRuntime,
+  initializeCoruscantMission,
+  updateCoruscantMission,
+  getCoruscantHUDState,
+  rebuildSpaceCombatIndex,
+  KillTracker,
+  type CoruscantRuntimeState,
+  type MissionResult,
+  type SpaceInputState
+} from "@xwingz/gameplay";
+import type { ModeContext } from "../types";
+import { disposeObject } from "../../rendering/MeshManager";
+import type { ExplosionManager } from "../../rendering/effects";
+import {
+  type FlightHudElements,
+  type CoruscantMissionState,
+  type TargetBracketState
+} from "./FlightScenarioTypes";
+import {
+  buildSubsystemMesh,
+  createStarfield,
+  disposeStarfield,
+  syncTargets,
+  createMissionResult,
+  updatePlayerHudValues,
+  updateSystemInfo,
+  updateTargetBracket,
+  clearTargetBracket,
+  SubsystemType
+} from "./FlightShared";
+import {
+  AnnouncementSystem,
+  objectiveCompleteAnnouncement,
+  phaseTransitionAnnouncement,
+  missionCompleteAnnouncement,
+  missionFailedAnnouncement
+} from "./AnnouncementSystem";
+import { RadioChatterSystem, RadioSpeaker } from "./RadioChatterSystem";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Coruscant Context
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CoruscantContext {
+  ctx: ModeContext;
+  currentSystem: SystemDef;
+  shipEid: number | null;
+  targetEids: number[];
+  targetMeshes: Map<number, THREE.Object3D>;
+  projectileMeshes: Map<number, THREE.Mesh>;
+  explosions: ExplosionManager | null;
+  input: SpaceInputState;
+  difficulty: CoruscantDifficulty;
+  /** Shooter of each ship killed this tick, by victim eid */
+  killCredits: ReadonlyMap<number, number>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LAUNCH_DURATION = 3;
+const BARREL_ROLL_THRESHOLD = 0.8;
+const PLAYER_START: [number, number, number] = [0, -30, 380];
+
+const buzzSwarmQuery = defineQuery([BuzzDroidSwarm, Transform]);
+
+// DroidBrain.droidType → procedural stand-in hull
+const DROID_SHIP_TYPES: Record<number, { type: ShipType; tint: number }> = {
+  0: { type: "tie_ln", tint: 0xb89f7a },          // Vulture droid
+  1: { type: "tie_interceptor", tint: 0x9a8a70 }, // Tri-fighter
+  2: { type: "ywing", tint: 0x8a7a60 }            // Hyena bomber
+};
+
+// DroidBrain.droidType → kill tracker entity type
+const DROID_KILL_TYPES: Record<number, string> = {
+  0: "vulture_droid",
+  1: "tri_fighter",
+  2: "hyena_bomber"
+};
+
+const WINGMAN_SHIP_TYPES: Partial<Record<CoruscantFighterArchetypeId, { type: ShipType; tint: number }>> = {
+  eta2_jedi_interceptor: { type: "awing", tint: 0xcc4444 },
+  arc170: { type: "ywing", tint: 0xd8d8d8 },
+  v19_torrent: { type: "awing", tint: 0xe8e8e8 },
+  vwing: { type: "xwing", tint: 0xe0e0e0 }
+};
+
+// CapitalShip.shipType → procedural stand-in hull
+const CAPITAL_SHIP_TYPES: Record<number, { type: ShipType; tint: number; scale: number }> = {
+  0: { type: "star_destroyer", tint: 0xe6d6d0, scale: 3 }, // Venator
+  1: { type: "nebulon_b", tint: 0x9a8468, scale: 6 },      // Providence
+  2: { type: "cr90_corvette", tint: 0x8c8c80, scale: 8 },  // Munificent
+  3: { type: "nebulon_b", tint: 0xb08850, scale: 7 }       // Invisible Hand
+};
+
+const DIALOGUE_PRIORITY: Record<CoruscantDialogueTrigger["priority"], number> = {
+  critical: 10,
+  high: 8,
+  normal: 5,
+  ambient: 2
+};
+
+function radioSpeakerFor(speaker: string): RadioSpeaker {
+  if (speaker === "Anakin Skywalker") return RadioSpeaker.PLAYER;
+  if (speaker === "General Grievous") return RadioSpeaker.IMPERIAL;
+  if (speaker === "R2-D2") return RadioSpeaker.GUNNER;
+  if (speaker.startsWith("Admiral") || speaker.startsWith("Clone Commander")) return RadioSpeaker.COMMAND;
+  return RadioSpeaker.WINGMAN;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Coruscant Battle Scenario Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class CoruscantBattleScenario {
+  // Backdrop
+  private starfield: THREE.Points | null = null;
+  private planet: THREE.Mesh | null = null;
+
+  // Runtime + mission state
+  private runtime: CoruscantRuntimeState | null = null;
+  private mission: CoruscantMissionState | null = null;
+  private lastDialogueId: string | null = null;
+  private announcedObjectives = new Set<string>();
+  private killTracker: KillTracker | null = null;
+  private missionResult: MissionResult | null = null;
+  private enemyTypes = new Map<number, string>();
+
+  // Meshes
+  private capitalShipMeshes = new Map<number, THREE.Object3D>();
+  private allyMeshes = new Map<number, THREE.Object3D>();
+  private swarmMeshes = new Map<number, THREE.Object3D>();
+
+  // HUD systems
+  private announcements: AnnouncementSystem | null = null;
+  private radioChatter: RadioChatterSystem | null = null;
+  private fleetPanel: HTMLDivElement | null = null;
+
+  // Targeting state
+  private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
+
+  // Temp vectors
+  private tmpExplosionPos = new THREE.Vector3();
+
+  enter(cctx: CoruscantContext): void {
+    this.lockState = { lockValue: 0, lockTargetEid: -1 };
+    this.lastDialogueId = null;
+    this.announcedObjectives.clear();
+
+    const hudContainer = cctx.ctx.hud;
+    this.announcements = new AnnouncementSystem(hudContainer);
+    this.radioChatter = new RadioChatterSystem(hudContainer);
+    this.fleetPanel = document.createElement("div");
+    this.fleetPanel.className = "hud-fleet-panel";
+    hudContainer.appendChild(this.fleetPanel);
+
+    this.starfield = createStarfield(cctx.currentSystem.seed);
+    cctx.ctx.scene.add(this.starfield);
+
+    this.startCoruscantMission(cctx);
+  }
+
+  tick(cctx: CoruscantContext, dt: number): boolean {
+    const m = this.mission;
+    const runtime = this.runtime;
+    if (!m || !runtime) return false;
+
+    switch (m.phase) {
+      case "briefing":
+        this.tickBriefing(cctx, dt);
+        break;
+      case "launch":
+        this.tickLaunch(cctx, dt);
+        break;
+      case "victory":
+      case "defeat":
+        break;
+      default:
+        this.tickRuntime(cctx, runtime, dt);
+        break;
+    }
+
+    // Sync visuals
+    this.syncEnemies(cctx, runtime);
+    this.syncCapitalShips(cctx, runtime);
+    this.syncAllies(cctx, runtime);
+    this.syncBuzzDroids(cctx);
+
+    if (m.messageTimer > 0) {
+      m.messageTimer = Math.max(0, m.messageTimer - dt);
+    }
+
+    this.announcements?.tick(dt);
+    this.radioChatter?.tick(dt);
+
+    return false;
+  }
+
+  handleHyperspace(_cctx: CoruscantContext): boolean {
+    if (!this.mission) return true;
+
+    // Allow restart on victory/defeat
+    if (this.mission.phase === "victory" || this.mission.phase === "defeat") {
+      return true;
+    }
+
+    this.mission.message = "HYPERSPACE DISABLED - THE CHANCELLOR IS ABOARD THE INVISIBLE HAND";
+    this.mission.messageTimer = 2;
+    return false;
+  }
+
+  updateHud(cctx: CoruscantContext, els: FlightHudElements, dt: number): void {
+    updatePlayerHudValues(els, cctx.shipEid, cctx.ctx);
+    updateSystemInfo(els, cctx.currentSystem, cctx.ctx.profile.credits);
+    els.capitalPanel.classList.add("hidden");
+
+    const m = this.mission;
+    const runtime = this.runtime;
+    if (m && runtime) {
+      const hud = getCoruscantHUDState(cctx.ctx.world, runtime);
+
+      if (m.messageTimer > 0) {
+        els.mission.textContent = m.message;
+      } else if (m.phase === "briefing") {
+        els.mission.textContent = "BRIEFING - FIRE TO LAUNCH";
+      } else if (m.phase === "launch") {
+        els.mission.textContent = "LAUNCHING - CLONE FLIGHT SEVEN, FORM UP";
+      } else if (m.phase === "victory") {
+        els.mission.textContent = `VICTORY +${m.rewardCredits} CR - PRESS M FOR MAP OR H TO RESTART`;
+      } else if (m.phase === "defeat") {
+        els.mission.textContent = "MISSION FAILED - PRESS H TO RESTART";
+      } else if (hud.buzzDroidWarning) {
+        els.mission.textContent = "BUZZ DROIDS ATTACHED - BARREL ROLL (Q/E) TO SHAKE THEM OFF";
+      } else if (hud.messageActive) {
+        els.mission.textContent = hud.message;
+      } else {
+        els.mission.textContent = `${hud.phaseName.toUpperCase()}  ${hud.enemiesRemaining} HOSTILES`;
+      }
+
+      this.updateFleetPanel(hud);
+    }
+
+    // Target bracket
+    if (cctx.shipEid !== null) {
+      const teid = Targeting.targetEid[cctx.shipEid] ?? -1;
+      if (teid >= 0 && Transform.x[teid] !== undefined) {
+        this.lockState = updateTargetBracket(cctx.ctx, els, cctx.shipEid, teid, this.lockState, dt);
+      } else {
+        clearTargetBracket(els);
+        this.lockState = { lockValue: 0, lockTargetEid: -1 };
+      }
+    }
+  }
+
+  getMissionMessage(_cctx: CoruscantContext): string {
+    if (!this.mission) return "";
+    if (this.mission.messageTimer > 0) return this.mission.message;
+    if (this.mission.phase === "victory") return "VICTORY";
+    if (this.mission.phase === "defeat") return "MISSION FAILED";
+    return `PHASE: ${this.mission.phase.toUpperCase()}`;
+  }
+
+  canLand(_cctx: CoruscantContext): boolean {
+    return false;
+  }
+
+  exit(cctx: CoruscantContext): void {
+    disposeStarfield(cctx.ctx.scene, this.starfield);
+    this.starfield = null;
+    if (this.planet) {
+      cctx.ctx.scene.remove(this.planet);
+      disposeObject(this.planet);
+      this.planet = null;
+    }
+
+    this.clearMissionEntities(cctx);
+    this.runtime = null;
+    this.mission = null;
+    this.killTracker = null;
+    this.missionResult = null;
+    this.enemyTypes.clear();
+
+    this.announcements?.dispose();
+    this.radioChatter?.dispose();
+    this.fleetPanel?.remove();
+    this.announcements = null;
+    this.radioChatter = null;
+    this.fleetPanel = null;
+    this.lastDialogueId = null;
+    this.announcedObjectives.clear();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Public Accessors
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  getMissionState(): CoruscantMissionState | null {
+    return this.mission;
+  }
+
+  getRuntime(): CoruscantRuntimeState | null {
+    return this.runtime;
+  }
+
+  /**
+   * How the battle ended, for the debrief (null while it is still on)
+   */
+  getMissionResult(): MissionResult | null {
+    const m = this.mission;
+    const runtime = this.runtime;
+    if (!m || !runtime || (m.phase !== "victory" && m.phase !== "defeat")) return null;
+    this.missionResult ??= createMissionResult(
+      "coruscant_battle",
+      "Battle of Coruscant",
+      m.phase === "victory",
+      runtime.totalMissionTime,
+      null,
+      this.killTracker,
+      m.phase === "victory" ? m.rewardCredits : 0
+    );
+    return this.missionResult;
+  }
+
+  getAllyCount(): number {
+    return this.runtime?.allyFighterEids.length ?? 0;
+  }
+
+  getCapitalShipCount(): number {
+    return this.capitalShipMeshes.size;
+  }
+
+  /**
+   * Satisfy the current phase so the next tick advances (E2E only).
+   */
+  skipPhaseForTest(world: import("bitecs").IWorld): void {
+    const m = this.mission;
+    const runtime = this.runtime;
+    if (!m || !runtime) return;
+
+    if (m.phase === "briefing") {
+      this.beginLaunch(m);
+      return;
+    }
+    if (m.phase === "launch") {
+      m.launchTimer = 0;
+      return;
+    }
+
+    const phase = runtime.mission.phases[runtime.currentPhaseIndex];
+    if (!phase) return;
+
+    for (const eid of runtime.enemyFighterEids) {
+      removeEntity(world, eid);
+    }
+    for (let i = 0; i < phase.waves.length; i++) {
+      runtime.wavesTriggered.add(i);
+    }
+    if (phase.victoryCondition.type === "survive_time") {
+      runtime.phaseTimer = Math.max(runtime.phaseTimer, (phase.victoryCondition.params?.seconds as number) ?? 0);
+    }
+    for (const eid of buzzSwarmQuery(world)) {
+      removeEntity(world, eid);
+    }
+    runtime.buzzDroidAttached = false;
+    runtime.objectivesCompleted.add("remove_buzzdroids");
+    runtime.objectivesCompleted.add("boarding_craft_docked");
+    runtime.pendingPhaseTransition = true;
+    runtime.transitionDelay = 0;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Mission Setup
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private startCoruscantMission(cctx: CoruscantContext): void {
+    const world = cctx.ctx.world;
+
+    // Clear existing enemies
+    for (const eid of cctx.targetEids) removeEntity(world, eid);
+    cctx.targetEids.length = 0;
+    for (const mesh of cctx.targetMeshes.values()) {
+      cctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    cctx.targetMeshes.clear();
+    this.killTracker = new KillTracker(80);
+    this.missionResult = null;
+    this.enemyTypes.clear();
+
+    const runtime = createCoruscantRuntime(cctx.currentSystem.seed, cctx.difficulty);
+    this.runtime = runtime;
+
+    this.buildPlanetBackdrop(cctx, runtime);
+
+    // Player sits off the Resolute's bow until launch
+    if (cctx.shipEid !== null) {
+      const eid = cctx.shipEid;
+      Transform.x[eid] = PLAYER_START[0];
+      Transform.y[eid] = PLAYER_START[1];
+      Transform.z[eid] = PLAYER_START[2];
+      Transform.qx[eid] = 0;
+      Transform.qy[eid] = 0;
+      Transform.qz[eid] = 0;
+      Transform.qw[eid] = 1;
+      Velocity.vx[eid] = 0;
+      Velocity.vy[eid] = 0;
+      Velocity.vz[eid] = 0;
+      Ship.throttle[eid] = 0;
+
+      initializeCoruscantMission(world, runtime, eid);
+    }
+
+    // Capital ship hulls + hostile weak points
+    for (const data of runtime.capitalShipEids.values()) {
+      const shipType = CapitalShip.shipType[data.shipEid] ?? 0;
+      const style = CAPITAL_SHIP_TYPES[shipType] ?? CAPITAL_SHIP_TYPES[0]!;
+      const mesh = createProceduralShip({ type: style.type, tint: style.tint, scale: style.scale, enableShadows: true });
+      cctx.ctx.scene.add(mesh);
+      this.capitalShipMeshes.set(data.shipEid, mesh);
+
+      if ((Team.id[data.shipEid] ?? 0) !== 1) continue;
+      for (const wpEid of data.weakPointEids) {
+        const wpMesh = buildSubsystemMesh(SubsystemType.ShieldGen);
+        wpMesh.scale.setScalar(Math.max(1, (HitRadius.r[wpEid] ?? 2.5) / 2.5));
+        cctx.ctx.scene.add(wpMesh);
+        cctx.targetMeshes.set(wpEid, wpMesh);
+      }
+    }
+
+    // Clone wingmen
+    for (const eid of runtime.allyFighterEids) {
+      const callsign = runtime.wingmanCallsigns.get(eid);
+      const wingman = runtime.mission.wingmen.find(w => w.callsign === callsign);
+      const style = (wingman && WINGMAN_SHIP_TYPES[wingman.archetypeId]) ?? { type: "xwing" as ShipType, tint: 0xe0e0e0 };
+      const mesh = createProceduralShip({ type: style.type, tint: style.tint, enableShadows: true });
+      cctx.ctx.scene.add(mesh);
+      this.allyMeshes.set(eid, mesh);
+    }
+
+    this.mission = {
+      phase: "briefing",
+      difficulty: cctx.difficulty,
+      briefingIndex: 0,
+      briefingTimer: 0,
+      launchTimer: 0,
+      rewardCredits: 0,
+      message: `${runtime.mission.title.toUpperCase()} - ${runtime.mission.subtitle.toUpperCase()}`,
+      messageTimer: 4
+    };
+    this.sayBriefingLine(0);
+
+    rebuildSpaceCombatIndex(world);
+  }
+
+  private buildPlanetBackdrop(cctx: CoruscantContext, runtime: CoruscantRuntimeState): void {
+    const backdrop = runtime.mission.backdrop;
+    if (!backdrop.planetVisible) return;
+
+    const coruscant = PLANETS.find(p => p.id === "coruscant");
+    const texture = getPlanetTexture(coruscant?.style ?? "city", "coruscant", 512);
+    const material = new THREE.MeshStandardMaterial({
+      map: texture,
+      emissive: 0xffcc88,
+      emissiveMap: texture,
+      emissiveIntensity: backdrop.cityLightsIntensity,
+      roughness: 0.9,
+      metalness: 0.05
+    });
+    this.planet = new THREE.Mesh(new THREE.SphereGeometry(6000, 64, 64), material);
+    this.planet.position.set(backdrop.planetPosition.x, backdrop.planetPosition.y, backdrop.planetPosition.z);
+    cctx.ctx.scene.add(this.planet);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Mission Update
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private tickBriefing(cctx: CoruscantContext, dt: number): void {
+    const m = this.mission!;
+    const briefing = this.runtime!.mission.briefing;
+
+    // Hold the flight in place while the briefing plays
+    this.holdFlight(cctx);
+
+    m.briefingTimer += dt;
+    const line = briefing[m.briefingIndex];
+    if (line && m.briefingTimer >= line.durationSeconds) {
+      m.briefingIndex++;
+      m.briefingTimer = 0;
+      this.sayBriefingLine(m.briefingIndex);
+    }
+
+    if (m.briefingIndex >= briefing.length || cctx.input.firePrimary) {
+      this.beginLaunch(m);
+    }
+  }
+
+  private beginLaunch(m: CoruscantMissionState): void {
+    m.phase = "launch";
+    m.launchTimer = LAUNCH_DURATION;
+    m.message = "ALL FIGHTERS, LAUNCH!";
+    m.messageTimer = LAUNCH_DURATION;
+    this.radioChatter?.clear();
+  }
+
+  private tickLaunch(cctx: CoruscantContext, dt: number): void {
+    const m = this.mission!;
+    if (cctx.shipEid !== null) {
+      Ship.throttle[cctx.shipEid] = 1;
+    }
+
+    m.launchTimer -= dt;
+    if (m.launchTimer > 0) return;
+
+    const firstPhase = this.runtime!.mission.phases[0];
+    if (!firstPhase) return;
+    m.phase = firstPhase.id;
+    this.announcements?.announce(phaseTransitionAnnouncement(firstPhase.name.toUpperCase()));
+  }
+
+  private tickRuntime(cctx: CoruscantContext, runtime: CoruscantRuntimeState, dt: number): void {
+    const m = this.mission!;
+    if (cctx.shipEid === null) return;
+
+    const barrelRoll = Math.abs(cctx.input.roll) > BARREL_ROLL_THRESHOLD;
+    const result = updateCoruscantMission(cctx.ctx.world, runtime, dt, cctx.shipEid, barrelRoll);
+
+    if (result.dialogueEvent && result.dialogueEvent.id !== this.lastDialogueId) {
+      this.lastDialogueId = result.dialogueEvent.id;
+      this.sayDialogue(result.dialogueEvent);
+    }
+
+    // Runtime-completed objectives worth a callout
+    for (const id of ["remove_buzzdroids", "help_obiwan", "boarding_craft_docked"]) {
+      if (runtime.objectivesCompleted.has(id) && !this.announcedObjectives.has(id)) {
+        this.announcedObjectives.add(id);
+        this.announcements?.announce(objectiveCompleteAnnouncement(runtime.message));
+      }
+    }
+
+    // The runtime reports the victory phase as mission complete on the next update
+    if (result.phaseChanged && result.newPhase && result.newPhase.id !== "victory") {
+      m.phase = result.newPhase.id;
+      this.announcements?.announce(phaseTransitionAnnouncement(result.newPhase.name.toUpperCase()));
+    }
+
+    if (result.missionComplete) {
+      if (result.missionSuccess) {
+        m.phase = "victory";
+        m.rewardCredits = result.reward;
+        m.message = `THE HANGAR IS OURS! +${result.reward} CR`;
+        m.messageTimer = 6;
+        cctx.ctx.profile.credits += result.reward;
+        this.announcements?.announce(missionCompleteAnnouncement());
+      } else {
+        const reason = this.getFailureReason(runtime);
+        m.phase = "defeat";
+        m.message = `MISSION FAILED - ${reason}`;
+        m.messageTimer = 8;
+        this.announcements?.announce(missionFailedAnnouncement(reason));
+      }
+      cctx.ctx.scheduleSave();
+    }
+  }
+
+  private getFailureReason(runtime: CoruscantRuntimeState): string {
+    if (runtime.objectivesFailed.has("boarding_craft_destroyed")) return "BOARDING CRAFT DESTROYED";
+
+    const phase = runtime.mission.phases[runtime.currentPhaseIndex];
+    switch (phase?.failureCondition.type) {
+      case "ally_destroyed":
+        return "THE REPUBLIC FLEET IS LOST";
+      case "time_expired":
+        return "THE INVISIBLE HAND ESCAPED";
+      default:
+        return "YOU WERE SHOT DOWN";
+    }
+  }
+
+  private holdFlight(cctx: CoruscantContext): void {
+    const eids = cctx.shipEid !== null
+      ? [cctx.shipEid, ...this.runtime!.allyFighterEids]
+      : this.runtime!.allyFighterEids;
+    for (const eid of eids) {
+      Velocity.vx[eid] = 0;
+      Velocity.vy[eid] = 0;
+      Velocity.vz[eid] = 0;
+      Ship.throttle[eid] = 0;
+    }
+  }
+
+  private sayBriefingLine(index: number): void {
+    const line = this.runtime?.mission.briefing[index];
+    if (!line) return;
+    this.radioChatter?.queueMessage({
+      speaker: radioSpeakerFor(line.speaker),
+      callsign: `${line.speaker.toUpperCase()}:`,
+      text: line.text,
+      priority: 5,
+      duration: line.durationSeconds
+    });
+  }
+
+  private sayDialogue(dialogue: CoruscantDialogueTrigger): void {
+    this.radioChatter?.queueMessage({
+      speaker: radioSpeakerFor(dialogue.speaker),
+      callsign: `${(dialogue.callsign ?? dialogue.speaker).toUpperCase()}:`,
+      text: dialogue.text,
+      priority: DIALOGUE_PRIORITY[dialogue.priority],
+      duration: dialogue.durationSeconds
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Entity Sync
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private syncEnemies(cctx: CoruscantContext, runtime: CoruscantRuntimeState): void {
+    const world = cctx.ctx.world;
+    const syncResult = syncTargets(cctx.ctx, cctx.ctx.scene, cctx.targetMeshes, cctx.explosions);
+
+    // Track droid kills for the debrief
+    for (const killedEid of syncResult.killedEids) {
+      const enemyType = this.enemyTypes.get(killedEid);
+      if (!enemyType) continue;
+      const byWingman = runtime.allyFighterEids.includes(cctx.killCredits.get(killedEid) ?? -1);
+      this.killTracker?.recordKill(enemyType, runtime.currentPhaseIndex + 1, byWingman);
+      this.enemyTypes.delete(killedEid);
+    }
+
+    // New droid fighters from wave spawns
+    for (const eid of runtime.enemyFighterEids) {
+      if (cctx.targetMeshes.has(eid) || !hasComponent(world, Transform, eid)) continue;
+      const droidType = DroidBrain.droidType[eid] ?? 0;
+      this.enemyTypes.set(eid, DROID_KILL_TYPES[droidType] ?? "vulture_droid");
+      const style = DROID_SHIP_TYPES[droidType] ?? DROID_SHIP_TYPES[0]!;
+      const mesh = createProceduralShip({ type: style.type, tint: style.tint, enableShadows: true });
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      cctx.ctx.scene.add(mesh);
+      cctx.targetMeshes.set(eid, mesh);
+    }
+
+    // Update array in place to preserve FlightMode's reference (hostiles only)
+    cctx.targetEids.length = 0;
+    for (const eid of syncResult.targetEids) {
+      if ((Team.id[eid] ?? 0) === 1 && cctx.targetMeshes.has(eid)) {
+        cctx.targetEids.push(eid);
+      }
+    }
+  }
+
+  private syncCapitalShips(cctx: CoruscantContext, runtime: CoruscantRuntimeState): void {
+    const world = cctx.ctx.world;
+    for (const data of runtime.capitalShipEids.values()) {
+      const mesh = this.capitalShipMeshes.get(data.shipEid);
+      if (!mesh) continue;
+
+      if (!hasComponent(world, Health, data.shipEid) || (Health.hp[data.shipEid] ?? 0) <= 0) {
+        cctx.explosions?.spawn(this.tmpExplosionPos.copy(mesh.position), 0xff8844, 2.0, 30);
+        cctx.ctx.scene.remove(mesh);
+        disposeObject(mesh);
+        this.capitalShipMeshes.delete(data.shipEid);
+        continue;
+      }
+
+      mesh.position.set(Transform.x[data.shipEid] ?? 0, Transform.y[data.shipEid] ?? 0, Transform.z[data.shipEid] ?? 0);
+      mesh.quaternion.set(
+        Transform.qx[data.shipEid] ?? 0,
+        Transform.qy[data.shipEid] ?? 0,
+        Transform.qz[data.shipEid] ?? 0,
+        Transform.qw[data.shipEid] ?? 1
+      );
+    }
+  }
+
+  private syncAllies(cctx: CoruscantContext, runtime: CoruscantRuntimeState): void {
+    const world = cctx.ctx.world;
+
+    // Boarding craft appears once the Invisible Hand assault begins
+    const craftEid = runtime.boardingCraftEid;
+    if (craftEid !== null && !this.allyMeshes.has(craftEid)) {
+      const mesh = createProceduralShip({ type: "shuttle", tint: 0xe6e6e6, scale: 2, enableShadows: true });
+      cctx.ctx.scene.add(mesh);
+      this.allyMeshes.set(craftEid, mesh);
+    }
+
+    for (const [eid, mesh] of this.allyMeshes) {
+      if (!hasComponent(world, Health, eid) || (Health.hp[eid] ?? 0) <= 0) {
+        cctx.explosions?.spawn(this.tmpExplosionPos.copy(mesh.position), 0xff6644);
+        cctx.ctx.scene.remove(mesh);
+        disposeObject(mesh);
+        this.allyMeshes.delete(eid);
+        continue;
+      }
+
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.quaternion.set(
+        Transform.qx[eid] ?? 0,
+        Transform.qy[eid] ?? 0,
+        Transform.qz[eid] ?? 0,
+        Transform.qw[eid] ?? 1
+      );
+    }
+  }
+
+  private syncBuzzDroids(cctx: CoruscantContext): void {
+    const world = cctx.ctx.world;
+    const swarms = new Set(buzzSwarmQuery(world));
+
+    for (const [eid, mesh] of this.swarmMeshes) {
+      if (swarms.has(eid)) continue;
+      cctx.explosions?.spawn(this.tmpExplosionPos.copy(mesh.position), 0xffaa33, 0.3, 4);
+      cctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+      this.swarmMeshes.delete(eid);
+    }
+
+    for (const eid of swarms) {
+      let mesh = this.swarmMeshes.get(eid);
+      if (!mesh) {
+        mesh = this.buildSwarmMesh(BuzzDroidSwarm.droidCount[eid] ?? 4);
+        cctx.ctx.scene.add(mesh);
+        this.swarmMeshes.set(eid, mesh);
+      }
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.rotation.y += 0.15;
+      mesh.rotation.x += 0.07;
+    }
+  }
+
+  private buildSwarmMesh(count: number): THREE.Group {
+    const group = new THREE.Group();
+    const geo = new THREE.SphereGeometry(0.5, 6, 6);
+    const mat = new THREE.MeshStandardMaterial({ color: 0x886644, emissive: 0xff6600, emissiveIntensity: 1.2 });
+    for (let i = 0; i < count; i++) {
+      const droid = new THREE.Mesh(geo, mat);
+      const angle = (i / count) * Math.PI * 2;
+      droid.position.set(Math.cos(angle) * 3, ((i % 3) - 1) * 0.8, Math.sin(angle) * 3);
+      group.add(droid);
+    }
+    return group;
+  }
+
+  private clearMissionEntities(cctx: CoruscantContext): void {
+    const world = cctx.ctx.world;
+    const runtime = this.runtime;
+
+    if (runtime) {
+      for (const data of runtime.capitalShipEids.values()) {
+        for (const wpEid of data.weakPointEids) {
+          if (hasComponent(world, WeakPoint, wpEid)) removeEntity(world, wpEid);
+        }
+        if (hasComponent(world, CapitalShip, data.shipEid)) removeEntity(world, data.shipEid);
+      }
+      for (const eid of [...runtime.enemyFighterEids, ...runtime.allyFighterEids]) {
+        if (hasComponent(world, Transform, eid)) removeEntity(world, eid);
+      }
+      if (runtime.boardingCraftEid !== null && hasComponent(world, Transform, runtime.boardingCraftEid)) {
+        removeEntity(world, runtime.boardingCraftEid);
+      }
+    }
+    for (const eid of buzzSwarmQuery(world)) {
+      removeEntity(world, eid);
+    }
+    if (cctx.shipEid !== null && hasComponent(world, BuzzDroidVictim, cctx.shipEid)) {
+      BuzzDroidVictim.swarmEid[cctx.shipEid] = -1;
+    }
+
+    for (const meshes of [this.capitalShipMeshes, this.allyMeshes, this.swarmMeshes]) {
+      for (const mesh of meshes.values()) {
+        cctx.ctx.scene.remove(mesh);
+        disposeObject(mesh);
+      }
+      meshes.clear();
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Fleet HUD
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private updateFleetPanel(hud: ReturnType<typeof getCoruscantHUDState>): void {
+    if (!this.fleetPanel) return;
+
+    const rows = hud.capitalShipHealth.map(s => {
+      const pct = Math.round(s.hpPercent);
+      const side = s.team === 0 ? "republic" : "separatist";
+      const name = s.name.replace(/_/g, " ").toUpperCase();
+      return `<div class="hud-fleet-row ${side}"><span>${name}</span><span>${pct}%</span></div>`;
+    });
+
+    if (hud.boardingCraftProgress !== null) {
+      rows.push(
+        `<div class="hud-fleet-row republic"><span>BOARDING CRAFT</span><span>${Math.round(hud.boardingCraftProgress * 100)}%</span></div>`
+      );
+    }
+    rows.push(`<div class="hud-fleet-row"><span>WINGMEN</span><span>${hud.alliesRemaining}</span></div>`);
+
+    this.fleetPanel.classList.toggle("buzz-warning", hud.buzzDroidWarning);
+    this.fleetPanel.innerHTML = `<div class="hud-fleet-title">${hud.phaseObjective}</div>${rows.join("")}`;
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import type * as THREE from "three";
-import type { SystemDef } from "@xwingz/procgen";
+import type { SystemDef, CoruscantDifficulty, MissionDef, MissionPhaseId } from "@xwingz/procgen";
 import type { SpaceInputState } from "@xwingz/gameplay";
 import type { ModeContext } from "../types";
 import type { ExplosionManager } from "../../rendering/effects";
@@ -18,6 +18,8 @@ export type FlightHudElements = {
   shield: HTMLDivElement;
   hp: HTMLDivElement;
   torpedo: HTMLDivElement;
+  weapon: HTMLDivElement;
+  ionWarning: HTMLDivElement;
   system: HTMLDivElement;
   faction: HTMLDivElement;
   credits: HTMLDivElement;
@@ -48,15 +50,11 @@ export type TerrainParams = {
 };
 
 export type MissionRuntime = {
-  def: {
-    id: string;
-    title: string;
-    goalKills: number;
-    rewardCredits: number;
-  };
+  def: MissionDef;
   kills: number;
   wave: number;
   completed: boolean;
+  failed: boolean;
   message: string;
   messageTimer: number;
 };
@@ -86,7 +84,49 @@ export type StarDestroyerMissionState = {
   messageTimer: number;
 };
 
-export type ScreenPoint = { x: number; y: number; onScreen: boolean; behind: boolean };
+export type CoruscantMissionState = {
+  phase: MissionPhaseId;
+  difficulty: CoruscantDifficulty;
+  briefingIndex: number;
+  briefingTimer: number;
+  launchTimer: number;
+  rewardCredits: number;
+  message: string;
+  messageTimer: number;
+};
+
+export type ConquestBattlePhase = "combat" | "victory" | "defeat";
+
+export type ConquestBattleState = {
+  phase: ConquestBattlePhase;
+  wave: number;
+  wavesTotal: number;
+  kills: number;
+  /** Enemy fighters and bombers not yet destroyed (including later waves) */
+  enemyFighters: number;
+  enemyBombers: number;
+  /** Allied wingmen still flying */
+  wingmen: number;
+  returnTimer: number;
+  message: string;
+  messageTimer: number;
+};
+
+export type ScriptedMissionPhase = "active" | "success" | "fail";
+
+export type ScriptedMissionState = {
+  phase: ScriptedMissionPhase;
+  scriptId: string;
+  wavesSpawned: number;
+  /** Enemy craft still flying */
+  enemies: number;
+  wingmen: number;
+  rewardCredits: number;
+  message: string;
+  messageTimer: number;
+};
+
+export type ScreenPoint ={ x: number; y: number; onScreen: boolean; behind: boolean };
 
 export type TargetBracketState = { lockValue: number; lockTargetEid: number };
 
@@ -18,11 +18,13 @@ import {
   getMission,
   type SystemDef
 } from "@xwingz/procgen";
+import type { FighterArchetypeId } from "@xwingz/data";
 import {
   AIControlled,
   AngularVelocity,
   computeInterceptTime,
   FighterBrain,
+  FormationShape,
   getProjectiles,
   getTargetables,
   Health,
@@ -36,7 +38,16 @@ import {
   Team,
   Transform,
   Velocity,
-  getTorpedoState
+  KillTracker,
+  arrangeFormation,
+  createSquadron,
+  getTorpedoState,
+  getIonState,
+  SQUADRON_SIZE,
+  consumeHangarLaunchEvents,
+  consumeHangarRecoveryEvents,
+  type MissionResult,
+  type ObjectiveTracker
 } from "@xwingz/gameplay";
 import type { ModeContext } from "../types";
 import { disposeObject } from "../../rendering/MeshManager";
@@ -44,6 +55,7 @@ import {
   ExplosionManager,
   getBoltGeometry,
   getBoltMaterial,
+  getIonBoltMaterial,
   makeBoltGlow,
   buildStarfield
 } from "../../rendering/effects";
@@ -213,7 +225,7 @@ export function spawnPlayer(
     disposeObject(existingShipMesh);
   }
 
-  const shipEid = spawnPlayerShip(ctx.world);
+  const shipEid = spawnPlayerShip(ctx.world, { ionCannon: true });
   const shipMesh = buildPlayerMesh();
   scene.add(shipMesh);
 
@@ -348,6 +360,13 @@ export function spawnEnemyFighters(
     targetEids.push(eid);
   }
 
+  // Fly in as wedges; all-TIE squadrons open with a pincer
+  for (let i = 0; i < targetEids.length; i += SQUADRON_SIZE) {
+    const members = targetEids.slice(i, i + SQUADRON_SIZE);
+    const pincer = members.every((_, j) => (encounter.archetypes[i + j] ?? "z95").startsWith("tie"));
+    arrangeFormation(ctx.world, createSquadron(ctx.world, members, FormationShape.Wedge, { pincer }));
+  }
+
   return { targetEids, targetMeshes };
 }
 
@@ -376,10 +395,11 @@ export function syncProjectiles(
       const owner = Projectile.owner[eid] ?? -1;
       const ownerTeam = owner >= 0 && hasComponent(ctx.world, Team, owner) ? (Team.id[owner] ?? -1) : -1;
       const friendly = ownerTeam === 0;
-      mesh = new THREE.Mesh(boltGeo, getBoltMaterial(friendly));
+      const ion = (Projectile.ion[eid] ?? 0) > 0;
+      mesh = new THREE.Mesh(boltGeo, ion ? getIonBoltMaterial() : getBoltMaterial(friendly));
       mesh.rotation.x = Math.PI / 2;
       mesh.renderOrder = 8;
-      mesh.add(makeBoltGlow(friendly ? 0xff6666 : 0x77ff88));
+      mesh.add(makeBoltGlow(ion ? 0x88ddff : friendly ? 0xff6666 : 0x77ff88));
       scene.add(mesh);
       projectileMeshes.set(eid, mesh);
 
@@ -469,6 +489,65 @@ export function syncTargets(
   return { targetEids: aliveTargets, killedCount: killed, killedEids };
 }
 
+/**
+ * Give fighters launched from capital ship hangars their meshes and drop the
+ * ones taken back aboard. Hostile launches become Targetable and join
+ * targetMeshes; friendly ones live in allyMeshes and are synced (and blown
+ * up when killed) here. Call before syncTargets so recoveries aren't counted
+ * as kills. Returns the hostile fighters launched this tick.
+ */
+export function syncCarrierFighters(
+  ctx: ModeContext,
+  scene: THREE.Scene,
+  targetMeshes: Map<number, THREE.Object3D>,
+  allyMeshes: Map<number, THREE.Object3D>,
+  explosions: ExplosionManager | null,
+  buildMesh: (archetype: FighterArchetypeId, team: number) => THREE.Object3D
+): number[] {
+  for (const evt of consumeHangarRecoveryEvents()) {
+    const meshes = targetMeshes.has(evt.fighterEid) ? targetMeshes : allyMeshes;
+    const mesh = meshes.get(evt.fighterEid);
+    if (!mesh) continue;
+    scene.remove(mesh);
+    disposeObject(mesh);
+    meshes.delete(evt.fighterEid);
+  }
+
+  const launched: number[] = [];
+  for (const evt of consumeHangarLaunchEvents()) {
+    const eid = evt.fighterEid;
+    const mesh = buildMesh(evt.archetype, evt.team);
+    mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+    scene.add(mesh);
+    if (evt.team === 0) {
+      allyMeshes.set(eid, mesh);
+    } else {
+      addComponent(ctx.world, Targetable, eid);
+      targetMeshes.set(eid, mesh);
+      launched.push(eid);
+    }
+  }
+
+  for (const [eid, mesh] of allyMeshes) {
+    if (!hasComponent(ctx.world, Transform, eid) || (Health.hp[eid] ?? 0) <= 0) {
+      explosions?.spawn(tmpExplosionPos.copy(mesh.position), 0x66aaff);
+      scene.remove(mesh);
+      disposeObject(mesh);
+      allyMeshes.delete(eid);
+      continue;
+    }
+    mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+    mesh.quaternion.set(
+      Transform.qx[eid] ?? 0,
+      Transform.qy[eid] ?? 0,
+      Transform.qz[eid] ?? 0,
+      Transform.qw[eid] ?? 1
+    );
+  }
+
+  return launched;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Starfield
 // ─────────────────────────────────────────────────────────────────────────────
@@ -521,6 +600,10 @@ export function projectToScreen(
   return out;
 }
 
+// Indexed by WeaponLoadout.activeWeapon
+const WEAPON_NAMES = ["LASERS", "TORPS", "ION"];
+const ION_WARNING_CHARGE = 0.5;
+
 export function updatePlayerHudValues(
   els: FlightHudElements,
   shipEid: number | null,
@@ -532,6 +615,8 @@ export function updatePlayerHudValues(
     els.shield.textContent = "0/0";
     els.hp.textContent = "0/0";
     els.torpedo.textContent = "0/0";
+    els.weapon.textContent = WEAPON_NAMES[0];
+    els.ionWarning.classList.add("hidden");
     return;
   }
 
@@ -565,6 +650,20 @@ export function updatePlayerHudValues(
     els.torpedo.textContent = "0/0";
     els.torpedo.style.color = "#88ff88";
   }
+  els.weapon.textContent = WEAPON_NAMES[torpState?.activeWeapon ?? 0] ?? WEAPON_NAMES[0];
+
+  // Ion: controls dead while locked, a warning as the charge builds toward it
+  const ion = getIonState(ctx.world);
+  if (ion && ion.lockRemaining > 0) {
+    els.ionWarning.textContent = `ION DISABLED ${ion.lockRemaining.toFixed(1)}s`;
+    els.ionWarning.classList.add("disabled");
+    els.ionWarning.classList.remove("hidden");
+  } else if (ion && ion.charge >= ION_WARNING_CHARGE) {
+    els.ionWarning.textContent = `ION CHARGE ${Math.round(ion.charge * 100)}%`;
+    els.ionWarning.classList.remove("disabled", "hidden");
+  } else {
+    els.ionWarning.classList.add("hidden");
+  }
 }
 
 export function updateSystemInfo(
@@ -687,18 +786,37 @@ export function clearTargetBracket(els: FlightHudElements): void {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function createMission(system: SystemDef, tier: number): MissionRuntime {
-  const def = getMission(system, tier);
   return {
-    def: {
-      id: def.id,
-      title: def.title,
-      goalKills: def.goalKills,
-      rewardCredits: def.rewardCredits
-    },
+    def: getMission(system, tier),
     kills: 0,
     wave: 0,
     completed: false,
+    failed: false,
     message: "",
     messageTimer: 0
   };
 }
+
+/**
+ * Snapshot a finished mission for the debrief. Credits are the objective
+ * payouts plus any end-of-mission bonus.
+ */
+export function createMissionResult(
+  scenario: string,
+  title: string,
+  victory: boolean,
+  missionTime: number,
+  objectives: ObjectiveTracker | null,
+  kills: KillTracker | null,
+  bonusCredits = 0
+): MissionResult {
+  return {
+    scenario,
+    title,
+    outcome: victory ? "victory" : "defeat",
+    missionTime,
+    kills: (kills ?? new KillTracker()).getTrackingData(),
+    objectives: (objectives?.getAllObjectives() ?? []).map((state) => ({ ...state })),
+    credits: (objectives?.getTotalCreditsEarned() ?? 0) + bonusCredits
+  };
+}
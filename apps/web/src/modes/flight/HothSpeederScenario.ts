@@ -10,7 +10,7 @@
 
 import * as THREE from "three";
 import { addComponent, addEntity, removeEntity, hasComponent } from "bitecs";
-import { type SystemDef } from "@xwingz/procgen";
+import { createRng, deriveSeed, type SystemDef } from "@xwingz/procgen";
 import {
   AIControlled,
   AngularVelocity,
@@ -22,14 +22,30 @@ import {
   Targetable,
   Team,
   Transform,
-  Velocity
+  Velocity,
+  KillTracker,
+  type MissionResult,
+  type SpaceInputState
 } from "@xwingz/gameplay";
-import { ATATWalker, ATAT_STATE, CABLE_STATE } from "@xwingz/gameplay";
-import type { ModeContext } from "../types";
+import {
+  ATATWalker,
+  ATAT_STATE,
+  CABLE_STATE,
+  Snowspeeder,
+  TOW_CABLE,
+  addSnowspeeder,
+  atatTripSystem,
+  atatWalkerSystem,
+  consumeTowCableEvents,
+  spawnATATWalker,
+  towCableSystem,
+  type TowCableEvent
+} from "@xwingz/gameplay";
+import type { HothSpeederRunResult, ModeContext } from "../types";
 import { disposeObject } from "../../rendering/MeshManager";
 import type { ExplosionManager } from "../../rendering/effects";
 import type { FlightHudElements } from "./FlightScenarioTypes";
-import { updatePlayerHudValues, clearTargetBracket } from "./FlightShared";
+import { updatePlayerHudValues, clearTargetBracket, createMissionResult } from "./FlightShared";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Hoth Speeder Context
@@ -43,21 +59,29 @@ export interface HothSpeederContext {
   targetMeshes: Map<number, THREE.Object3D>;
   projectileMeshes: Map<number, THREE.Mesh>;
   explosions: ExplosionManager | null;
+  input: SpaceInputState;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Mission State
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface HothSpeederState {
-  phase: "approach" | "engage" | "wrapping" | "success" | "fail";
+export interface HothSpeederState {
+  phase: "approach" | "engage" | "success" | "fail";
   atatCount: number;
   atatTripped: number;
   message: string;
   messageTimer: number;
   rewardCredits: number;
+  // Seconds left before handing back to Echo Base once the run is over
+  handoffTimer: number;
 }
 
+// AT-ATs march on Echo Base; the run fails if one gets there standing
+const ECHO_BASE_Z = -500;
+const ATAT_WALK_SPEED = 3;
+const HANDOFF_DELAY = 6;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Hoth Speeder Scenario Handler
 // ─────────────────────────────────────────────────────────────────────────────
@@ -71,15 +95,6 @@ export class HothSpeederScenario {
   private atatEids: number[] = [];
   private atatMeshes = new Map<number, THREE.Object3D>();
 
-  // Tow cable state
-  private cableState: (typeof CABLE_STATE)[keyof typeof CABLE_STATE] = CABLE_STATE.READY;
-  private cableTargetEid = -1;
-  private cableWraps = 0;
-  private cableStrength = 100;
-  private orbitAngle = 0;
-  private readonly WRAPS_NEEDED = 3;
-  private readonly MIN_WRAP_SPEED = 80; // m/s - below this cable breaks
-
   // Tow cable visual
   private cableLine: THREE.Line | null = null;
   private cableMaterial: THREE.LineBasicMaterial | null = null;
@@ -89,19 +104,20 @@ export class HothSpeederScenario {
   private allyMeshes = new Map<number, THREE.Object3D>();
 
   // Mission state
-  private state: HothSpeederState = {
-    phase: "approach",
-    atatCount: 2,
-    atatTripped: 0,
-    message: "APPROACH THE AT-AT WALKERS",
-    messageTimer: 5,
-    rewardCredits: 1500
-  };
+  private state: HothSpeederState = this.createState();
+  private missionTime = 0;
+  private missionResult: MissionResult | null = null;
+  private killTracker = new KillTracker(80);
 
   // Temp vectors
   private tmpVec = new THREE.Vector3();
 
   enter(hctx: HothSpeederContext): void {
+    this.state = this.createState();
+    this.missionTime = 0;
+    this.missionResult = null;
+    this.killTracker = new KillTracker(80);
+    consumeTowCableEvents();
 
     // Build Hoth terrain for flight
     this.buildHothFlightTerrain(hctx);
@@ -118,8 +134,10 @@ export class HothSpeederScenario {
       linewidth: 2
     });
 
-    // Position player snowspeeder
+    // Fit the player's craft with the harpoon gun and put it on the deck
     if (hctx.shipEid !== null) {
+      addSnowspeeder(hctx.ctx.world, hctx.shipEid);
+      Ship.maxSpeed[hctx.shipEid] = Snowspeeder.maxSpeed[hctx.shipEid] ?? 166;
       Transform.x[hctx.shipEid] = 0;
       Transform.y[hctx.shipEid] = 30; // Low altitude
       Transform.z[hctx.shipEid] = 200;
@@ -129,23 +147,29 @@ export class HothSpeederScenario {
       Ship.throttle[hctx.shipEid] = 0.7;
     }
 
-    this.state.phase = "approach";
     this.state.message = "APPROACH THE AT-AT WALKERS - TARGET THEIR LEGS";
     this.state.messageTimer = 5;
   }
 
+  /**
+   * Returns true once the run is over and play should hand back to Echo Base.
+   */
   tick(hctx: HothSpeederContext, dt: number): boolean {
+    if (!this.isFinished()) this.missionTime += dt;
+
     // Update message timer
     if (this.state.messageTimer > 0) {
       this.state.messageTimer -= dt;
     }
 
-    // Run AT-AT systems (imported from ground)
-    // Note: In a full implementation, these would be space-domain AT-ATs
-    this.updateATATs(hctx, dt);
-
-    // Update tow cable mechanics
-    this.updateTowCable(hctx, dt);
+    // Walkers advance, the harpoon/cable state machine runs, wrapped walkers trip
+    atatWalkerSystem(hctx.ctx.world, dt);
+    towCableSystem(hctx.ctx.world, hctx.input, dt);
+    atatTripSystem(hctx.ctx.world, dt);
+    for (const event of consumeTowCableEvents()) {
+      this.onCableEvent(event);
+    }
+    this.updateATATs(hctx);
 
     // Update cable visual
     this.updateCableVisual(hctx);
@@ -162,12 +186,19 @@ export class HothSpeederScenario {
     // Check victory/defeat
     this.updatePhase(hctx);
 
+    if (this.isFinished()) {
+      this.state.handoffTimer -= dt;
+      return this.state.handoffTimer <= 0;
+    }
     return false;
   }
 
+  /**
+   * H returns to Echo Base once the run is over.
+   */
   handleHyperspace(_hctx: HothSpeederContext): boolean {
     // Can't hyperspace during Hoth battle
-    if (this.state.phase !== "success" && this.state.phase !== "fail") {
+    if (!this.isFinished()) {
       this.state.message = "CANNOT RETREAT - COMPLETE THE MISSION";
       this.state.messageTimer = 2;
       return false;
@@ -175,6 +206,49 @@ export class HothSpeederScenario {
     return true;
   }
 
+  getMissionState(): HothSpeederState {
+    return this.state;
+  }
+
+  /**
+   * Called when the player's speeder goes down.
+   */
+  markShotDown(): void {
+    if (this.isFinished()) return;
+    this.state.phase = "fail";
+    this.state.message = "SPEEDER DOWN - RETURNING TO ECHO BASE";
+    this.state.messageTimer = HANDOFF_DELAY;
+    this.state.handoffTimer = HANDOFF_DELAY;
+  }
+
+  /**
+   * How the run ended, for the debrief (null while it is still on)
+   */
+  getMissionResult(): MissionResult | null {
+    if (!this.isFinished()) return null;
+    this.missionResult ??= createMissionResult(
+      "hoth_speeder",
+      "Snowspeeder Assault",
+      this.state.phase === "success",
+      this.missionTime,
+      null,
+      this.killTracker,
+      this.state.phase === "success" ? this.state.rewardCredits : 0
+    );
+    return this.missionResult;
+  }
+
+  /**
+   * Outcome carried into HothDefenseScenario when play returns to the ground.
+   */
+  getRunResult(): HothSpeederRunResult {
+    return {
+      atatsTripped: this.state.atatTripped,
+      atatCount: this.state.atatCount,
+      success: this.state.phase === "success"
+    };
+  }
+
   updateHud(hctx: HothSpeederContext, els: FlightHudElements, _dt: number): void {
     updatePlayerHudValues(els, hctx.shipEid, hctx.ctx);
 
@@ -186,13 +260,8 @@ export class HothSpeederScenario {
     }
 
     // Tow cable status in system slot
-    if (this.cableState === CABLE_STATE.WRAPPING) {
-      els.system.textContent = `CABLE: ${Math.round(this.cableStrength)}% | WRAPS: ${this.cableWraps}/${this.WRAPS_NEEDED}`;
-    } else if (this.cableState === CABLE_STATE.READY) {
-      els.system.textContent = "CABLE: READY (F to fire)";
-    } else if (this.cableState === CABLE_STATE.ATTACHED) {
-      els.system.textContent = "CABLE ATTACHED - CIRCLE THE LEGS!";
-    }
+    els.system.textContent = this.getCableStatus(hctx);
+    els.torpedo.textContent = "HARPOON";
 
     // AT-AT count
     els.credits.textContent = `AT-ATs: ${this.state.atatCount - this.state.atatTripped}/${this.state.atatCount}`;
@@ -208,7 +277,7 @@ export class HothSpeederScenario {
 
   canLand(_hctx: HothSpeederContext): boolean {
     // Can land after mission complete
-    return this.state.phase === "success" || this.state.phase === "fail";
+    return this.isFinished();
   }
 
   exit(hctx: HothSpeederContext): void {
@@ -224,15 +293,13 @@ export class HothSpeederScenario {
     }
     this.rockMeshes = [];
 
-    // Clean up AT-ATs
-    for (const eid of this.atatEids) {
-      removeEntity(hctx.ctx.world, eid);
-    }
-    this.atatEids = [];
-    for (const mesh of this.atatMeshes.values()) {
+    // Clean up AT-ATs (downed walkers keep their mesh and entity until now)
+    for (const [eid, mesh] of this.atatMeshes) {
+      if (hasComponent(hctx.ctx.world, ATATWalker, eid)) removeEntity(hctx.ctx.world, eid);
       hctx.ctx.scene.remove(mesh);
       disposeObject(mesh);
     }
+    this.atatEids = [];
     this.atatMeshes.clear();
 
     // Clean up allies
@@ -309,6 +376,7 @@ export class HothSpeederScenario {
       roughness: 0.5
     });
 
+    const rng = createRng(deriveSeed(hctx.currentSystem?.seed ?? 0n, "hoth_speeder", "ice"));
     const positions = [
       { x: 200, z: -100, scale: 1.5 },
       { x: -300, z: 50, scale: 2.0 },
@@ -321,7 +389,7 @@ export class HothSpeederScenario {
       const rock = new THREE.Mesh(rockGeo, rockMat);
       rock.position.set(p.x, p.scale * 8, p.z);
       rock.scale.setScalar(p.scale);
-      rock.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, 0);
+      rock.rotation.set(rng.range(0, Math.PI), rng.range(0, Math.PI), 0);
       rock.castShadow = true;
       rock.receiveShadow = true;
       hctx.ctx.scene.add(rock);
@@ -339,10 +407,11 @@ export class HothSpeederScenario {
       { x: -80, z: -100 },
       { x: 80, z: -150 },
     ];
+    const seed = deriveSeed(hctx.currentSystem?.seed ?? 0n, "hoth_speeder", "atat");
 
     for (let i = 0; i < positions.length; i++) {
       const pos = positions[i]!;
-      const eid = this.createFlightATAT(hctx, pos.x, pos.z, i);
+      const eid = this.createFlightATAT(hctx, pos.x, pos.z, Number((seed + BigInt(i)) & 0x7fffffffn));
       this.atatEids.push(eid);
 
       // Build mesh
@@ -351,40 +420,17 @@ export class HothSpeederScenario {
       hctx.ctx.scene.add(mesh);
       this.atatMeshes.set(eid, mesh);
     }
+    this.state.atatCount = this.atatEids.length;
   }
 
-  private createFlightATAT(hctx: HothSpeederContext, x: number, z: number, _index: number): number {
-    const eid = addEntity(hctx.ctx.world);
+  private createFlightATAT(hctx: HothSpeederContext, x: number, z: number, seed: number): number {
+    const eid = spawnATATWalker(hctx.ctx.world, x, z, x, ECHO_BASE_Z, seed);
 
-    addComponent(hctx.ctx.world, Transform, eid);
-    addComponent(hctx.ctx.world, Health, eid);
-    addComponent(hctx.ctx.world, Team, eid);
+    // Lockable and hittable from the cockpit, though blasters barely scratch it
     addComponent(hctx.ctx.world, Targetable, eid);
     addComponent(hctx.ctx.world, HitRadius, eid);
-    addComponent(hctx.ctx.world, ATATWalker, eid);
-
-    Transform.x[eid] = x;
-    Transform.y[eid] = 22;
-    Transform.z[eid] = z;
-    Transform.qx[eid] = 0;
-    Transform.qy[eid] = 0;
-    Transform.qz[eid] = 0;
-    Transform.qw[eid] = 1;
-
-    Health.hp[eid] = 5000;
-    Health.maxHp[eid] = 5000;
     HitRadius.r[eid] = 15;
-
-    Team.id[eid] = 1; // Empire
-
-    // AT-AT specific
-    ATATWalker.state[eid] = ATAT_STATE.ADVANCING;
-    ATATWalker.walkSpeed[eid] = 5;
-    ATATWalker.cableWraps[eid] = 0;
-    ATATWalker.cableAttached[eid] = 0;
-    ATATWalker.legPhase[eid] = 0;
-    ATATWalker.targetX[eid] = 0;
-    ATATWalker.targetZ[eid] = -500; // Walking toward Echo Base
+    ATATWalker.walkSpeed[eid] = ATAT_WALK_SPEED;
 
     return eid;
   }
@@ -439,63 +485,38 @@ export class HothSpeederScenario {
     return group;
   }
 
-  private updateATATs(hctx: HothSpeederContext, dt: number): void {
-    for (const eid of this.atatEids) {
-      if (!hasComponent(hctx.ctx.world, ATATWalker, eid)) continue;
-
-      const state = ATATWalker.state[eid] ?? ATAT_STATE.ADVANCING;
-
-      if (state === ATAT_STATE.ADVANCING) {
-        // Walk toward target
-        const z = Transform.z[eid] ?? 0;
-        const speed = ATATWalker.walkSpeed[eid] ?? 5;
-
-        Transform.z[eid] = z - speed * dt;
-
-        // Update leg animation
-        ATATWalker.legPhase[eid] = ((ATATWalker.legPhase[eid] ?? 0) + dt * 2) % (Math.PI * 2);
+  /**
+   * Count walkers as they hit the ground. Blasters can (very slowly) destroy a
+   * walker outright, which counts too.
+   */
+  private updateATATs(hctx: HothSpeederContext): void {
+    for (let i = this.atatEids.length - 1; i >= 0; i--) {
+      const eid = this.atatEids[i]!;
+      const removed = !hasComponent(hctx.ctx.world, ATATWalker, eid);
+      const state = removed ? ATAT_STATE.DESTROYED : ATATWalker.state[eid] ?? ATAT_STATE.ADVANCING;
+      if (state < ATAT_STATE.DOWN) continue;
+
+      this.state.atatTripped++;
+      this.killTracker.recordKill("atat");
+      this.atatEids.splice(i, 1);
+      this.state.message = "AT-AT DOWN!";
+      this.state.messageTimer = 3;
 
-        // Check cable wraps
-        const wraps = ATATWalker.cableWraps[eid] ?? 0;
-        if (wraps >= this.WRAPS_NEEDED) {
-          ATATWalker.state[eid] = ATAT_STATE.FALLING;
-          ATATWalker.stateTimer[eid] = 3.0;
-          this.state.message = "AT-AT GOING DOWN!";
-          this.state.messageTimer = 3;
-        }
-      } else if (state === ATAT_STATE.FALLING) {
-        const timer = ATATWalker.stateTimer[eid] ?? 0;
-        ATATWalker.stateTimer[eid] = timer - dt;
-
-        // Fall animation
-        const progress = 1 - (timer - dt) / 3.0;
-        Transform.qx[eid] = Math.sin((progress * Math.PI / 2) / 2);
-        Transform.qw[eid] = Math.cos((progress * Math.PI / 2) / 2);
-        Transform.y[eid] = Math.max(5, 22 * (1 - progress));
-
-        if (timer - dt <= 0) {
-          ATATWalker.state[eid] = ATAT_STATE.DOWN;
-          this.state.atatTripped++;
-
-          // Explosion
-          const mesh = this.atatMeshes.get(eid);
-          if (mesh) {
-            hctx.explosions?.spawn(
-              this.tmpVec.copy(mesh.position),
-              0xff8844,
-              1.0,
-              20
-            );
-          }
+      const mesh = this.atatMeshes.get(eid);
+      if (mesh) {
+        hctx.explosions?.spawn(this.tmpVec.copy(mesh.position), 0xff8844, 1.0, 20);
+        if (removed) {
+          hctx.ctx.scene.remove(mesh);
+          disposeObject(mesh);
+          this.atatMeshes.delete(eid);
         }
       }
     }
   }
 
-  private syncATATMeshes(_hctx: HothSpeederContext): void {
-    for (const eid of this.atatEids) {
-      const mesh = this.atatMeshes.get(eid);
-      if (!mesh) continue;
+  private syncATATMeshes(hctx: HothSpeederContext): void {
+    for (const [eid, mesh] of this.atatMeshes) {
+      if (!hasComponent(hctx.ctx.world, ATATWalker, eid)) continue;
 
       mesh.position.set(
         Transform.x[eid] ?? 0,
@@ -515,117 +536,67 @@ export class HothSpeederScenario {
   // Tow Cable Mechanics
   // ─────────────────────────────────────────────────────────────────────────────
 
-  private updateTowCable(hctx: HothSpeederContext, dt: number): void {
-    if (hctx.shipEid === null) return;
-
-    const px = Transform.x[hctx.shipEid] ?? 0;
-    const pz = Transform.z[hctx.shipEid] ?? 0;
-    const speed = Math.sqrt(
-      (Velocity.vx[hctx.shipEid] ?? 0) ** 2 +
-      (Velocity.vz[hctx.shipEid] ?? 0) ** 2
-    );
-
-    switch (this.cableState) {
-      case CABLE_STATE.READY:
-        // Check for cable fire input (simplified - would use actual input)
-        // For now, auto-attach when close to AT-AT and not already attached
-        for (const eid of this.atatEids) {
-          if ((ATATWalker.state[eid] ?? 0) !== ATAT_STATE.ADVANCING) continue;
-
-          const ax = Transform.x[eid] ?? 0;
-          const az = Transform.z[eid] ?? 0;
-          const dist = Math.sqrt((px - ax) ** 2 + (pz - az) ** 2);
-
-          if (dist < 60 && dist > 30) {
-            this.cableState = CABLE_STATE.ATTACHED;
-            this.cableTargetEid = eid;
-            this.cableWraps = 0;
-            this.cableStrength = 100;
-            this.orbitAngle = Math.atan2(px - ax, pz - az);
-            ATATWalker.cableAttached[eid] = 1;
-            this.state.message = "CABLE ATTACHED! MAINTAIN SPEED AND CIRCLE!";
-            this.state.messageTimer = 3;
-          }
-        }
+  private onCableEvent(event: TowCableEvent): void {
+    switch (event.type) {
+      case "fired":
+        this.state.message = "HARPOON AWAY!";
+        this.state.messageTimer = 1;
         break;
-
-      case CABLE_STATE.ATTACHED:
-        // Transition to wrapping
-        this.cableState = CABLE_STATE.WRAPPING;
+      case "missed":
+        this.state.message = "NO WALKER IN HARPOON RANGE";
+        this.state.messageTimer = 1.5;
         break;
-
-      case CABLE_STATE.WRAPPING:
-        if (this.cableTargetEid < 0) {
-          this.cableState = CABLE_STATE.READY;
-          break;
-        }
-
-        const ax = Transform.x[this.cableTargetEid] ?? 0;
-        const az = Transform.z[this.cableTargetEid] ?? 0;
-
-        // Check speed - cable breaks if too slow
-        if (speed < this.MIN_WRAP_SPEED) {
-          this.cableStrength -= dt * 30; // Lose 30% per second at low speed
-          if (this.cableStrength <= 0) {
-            this.cableState = CABLE_STATE.BROKEN;
-            ATATWalker.cableAttached[this.cableTargetEid] = 0;
-            this.state.message = "CABLE SNAPPED! SPEED UP!";
-            this.state.messageTimer = 2;
-            break;
-          }
-        } else {
-          // Recover strength at high speed
-          this.cableStrength = Math.min(100, this.cableStrength + dt * 10);
-        }
-
-        // Calculate orbit progress
-        const newAngle = Math.atan2(px - ax, pz - az);
-        let angleDiff = newAngle - this.orbitAngle;
-
-        // Handle angle wrapping
-        if (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
-        if (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
-
-        // Accumulate wraps (full circle = 2*PI)
-        if (Math.abs(angleDiff) > 0.1) {
-          const wrapProgress = Math.abs(angleDiff) / (Math.PI * 2);
-          if (wrapProgress > 0.9 && this.cableWraps < this.WRAPS_NEEDED) {
-            this.cableWraps++;
-            ATATWalker.cableWraps[this.cableTargetEid] = this.cableWraps;
-
-            if (this.cableWraps >= this.WRAPS_NEEDED) {
-              this.cableState = CABLE_STATE.RELEASED;
-              ATATWalker.cableAttached[this.cableTargetEid] = 0;
-              this.state.message = `WRAP COMPLETE! AT-AT TRIPPED!`;
-              this.state.messageTimer = 3;
-            } else {
-              this.state.message = `WRAP ${this.cableWraps}/${this.WRAPS_NEEDED} COMPLETE!`;
-              this.state.messageTimer = 1;
-            }
-          }
+      case "attached":
+        this.state.message = "CABLE ATTACHED! MAINTAIN SPEED AND CIRCLE!";
+        this.state.messageTimer = 3;
+        break;
+      case "wrap":
+        this.state.message = `WRAP ${event.wraps}/${TOW_CABLE.WRAPS_TO_TRIP} COMPLETE!`;
+        this.state.messageTimer = 1.5;
+        break;
+      case "released":
+        if (event.wraps >= TOW_CABLE.WRAPS_TO_TRIP) {
+          this.state.message = "CABLE OUT! AT-AT TRIPPED!";
+          this.state.messageTimer = 3;
         }
-        this.orbitAngle = newAngle;
         break;
-
-      case CABLE_STATE.BROKEN:
-        // Cooldown before can fire again
-        setTimeout(() => {
-          this.cableState = CABLE_STATE.READY;
-          this.cableTargetEid = -1;
-        }, 3000);
-        this.cableState = CABLE_STATE.READY; // Reset immediately for simplicity
-        this.cableTargetEid = -1;
+      case "snapped":
+        this.state.message = "CABLE SNAPPED! SPEED UP!";
+        this.state.messageTimer = 2;
         break;
+    }
+  }
+
+  private getCableStatus(hctx: HothSpeederContext): string {
+    const eid = hctx.shipEid;
+    if (eid === null) return "CABLE: --";
 
+    const strength = Math.round(Snowspeeder.cableStrength[eid] ?? 0);
+    const target = Snowspeeder.cableTargetEid[eid] ?? -1;
+    const wraps = target >= 0 ? ATATWalker.cableWraps[target] ?? 0 : 0;
+    switch (Snowspeeder.cableState[eid] ?? CABLE_STATE.READY) {
+      case CABLE_STATE.FIRING:
+        return "HARPOON AWAY";
+      case CABLE_STATE.ATTACHED:
+        return "CABLE ATTACHED - CIRCLE THE LEGS!";
+      case CABLE_STATE.WRAPPING:
+        return `CABLE: ${strength}% | WRAPS: ${wraps}/${TOW_CABLE.WRAPS_TO_TRIP}`;
       case CABLE_STATE.RELEASED:
-        this.cableState = CABLE_STATE.READY;
-        this.cableTargetEid = -1;
-        break;
+        return "CABLE RELEASED";
+      case CABLE_STATE.BROKEN:
+        return "CABLE BROKEN - RELOADING";
+      default:
+        return (Snowspeeder.cableCooldown[eid] ?? 0) > 0 ? "CABLE: RELOADING" : "CABLE: READY (C to fire)";
     }
   }
 
   private updateCableVisual(hctx: HothSpeederContext): void {
-    if (this.cableState !== CABLE_STATE.WRAPPING || hctx.shipEid === null || this.cableTargetEid < 0) {
+    const eid = hctx.shipEid;
+    const cableState = eid !== null ? Snowspeeder.cableState[eid] ?? CABLE_STATE.READY : CABLE_STATE.READY;
+    const target = eid !== null ? Snowspeeder.cableTargetEid[eid] ?? -1 : -1;
+    const cableOut =
+      cableState === CABLE_STATE.FIRING || cableState === CABLE_STATE.ATTACHED || cableState === CABLE_STATE.WRAPPING;
+    if (eid === null || !cableOut || target < 0) {
       // Remove cable visual
       if (this.cableLine) {
         hctx.ctx.scene.remove(this.cableLine);
@@ -636,18 +607,23 @@ export class HothSpeederScenario {
     }
 
     // Create or update cable
-    const px = Transform.x[hctx.shipEid] ?? 0;
-    const py = (Transform.y[hctx.shipEid] ?? 30) - 1;
-    const pz = Transform.z[hctx.shipEid] ?? 0;
+    const px = Transform.x[eid] ?? 0;
+    const py = (Transform.y[eid] ?? 30) - 1;
+    const pz = Transform.z[eid] ?? 0;
 
-    const ax = Transform.x[this.cableTargetEid] ?? 0;
+    const ax = Transform.x[target] ?? 0;
     const ay = 5; // Cable attaches low on AT-AT legs
-    const az = Transform.z[this.cableTargetEid] ?? 0;
-
-    const points = [
-      new THREE.Vector3(px, py, pz),
-      new THREE.Vector3(ax, ay, az)
-    ];
+    const az = Transform.z[target] ?? 0;
+
+    // While the harpoon is in flight, only draw the paid-out length
+    const start = new THREE.Vector3(px, py, pz);
+    const end = new THREE.Vector3(ax, ay, az);
+    if (cableState === CABLE_STATE.FIRING) {
+      const total = start.distanceTo(end);
+      const paidOut = Snowspeeder.cableLength[eid] ?? 0;
+      if (total > 0) end.lerpVectors(start, end, Math.min(1, paidOut / total));
+    }
+    const points = [start, end];
 
     if (this.cableLine) {
       this.cableLine.geometry.dispose();
@@ -793,30 +769,64 @@ export class HothSpeederScenario {
     }
   }
 
-  private updatePhase(_hctx: HothSpeederContext): void {
+  private updatePhase(hctx: HothSpeederContext): void {
+    if (this.isFinished()) return;
+
     // Check victory
-    if (this.state.atatTripped >= this.state.atatCount && this.state.phase !== "success") {
+    if (this.state.atatTripped >= this.state.atatCount) {
       this.state.phase = "success";
-      this.state.message = "ALL AT-ATs DESTROYED! VICTORY!";
-      this.state.messageTimer = 10;
+      this.state.message = "ALL AT-ATs DOWN! VICTORY!";
+      this.state.messageTimer = HANDOFF_DELAY;
+      this.state.handoffTimer = HANDOFF_DELAY;
+      hctx.ctx.profile.credits += this.state.rewardCredits;
+      hctx.ctx.scheduleSave();
+      return;
+    }
+
+    // Check defeat - a walker reached Echo Base on its feet
+    for (const eid of this.atatEids) {
+      if ((Transform.z[eid] ?? 0) <= ECHO_BASE_Z + 10) {
+        this.state.phase = "fail";
+        this.state.message = "THE WALKERS HAVE REACHED ECHO BASE";
+        this.state.messageTimer = HANDOFF_DELAY;
+        this.state.handoffTimer = HANDOFF_DELAY;
+        return;
+      }
     }
 
     // Update phase based on progress
-    if (this.state.phase === "approach" && this.cableState !== CABLE_STATE.READY) {
+    const cableState = hctx.shipEid !== null ? Snowspeeder.cableState[hctx.shipEid] ?? CABLE_STATE.READY : CABLE_STATE.READY;
+    if (this.state.phase === "approach" && cableState !== CABLE_STATE.READY) {
       this.state.phase = "engage";
     }
   }
 
+  private isFinished(): boolean {
+    return this.state.phase === "success" || this.state.phase === "fail";
+  }
+
+  private createState(): HothSpeederState {
+    return {
+      phase: "approach",
+      atatCount: 2,
+      atatTripped: 0,
+      message: "APPROACH THE AT-AT WALKERS",
+      messageTimer: 5,
+      rewardCredits: 1500,
+      handoffTimer: HANDOFF_DELAY
+    };
+  }
+
   private getPhaseMessage(): string {
     switch (this.state.phase) {
       case "approach":
         return "APPROACH AT-ATs - GET WITHIN CABLE RANGE";
       case "engage":
-        return `WRAPPING: ${this.cableWraps}/${this.WRAPS_NEEDED} | STRENGTH: ${Math.round(this.cableStrength)}%`;
+        return `AT-ATs DOWN: ${this.state.atatTripped}/${this.state.atatCount} - HARPOON THE LEGS AND CIRCLE`;
       case "success":
-        return "VICTORY! PRESS M FOR MAP";
+        return "VICTORY! PRESS H TO RETURN TO ECHO BASE";
       case "fail":
-        return "MISSION FAILED";
+        return "MISSION FAILED - PRESS H TO RETURN TO ECHO BASE";
       default:
         return "ENGAGE AT-AT WALKERS";
     }
@@ -396,3 +396,15 @@ export const HOTH_RADIO = {
     "She'll make point five past lightspeed. Now RUN!"
   ]
 };
+
+/** Player call and wingman acknowledgement for each wingman order */
+export const WINGMAN_RADIO = {
+  attack: { call: "Red Flight, go after my target!", ack: "Copy, Five, we're on it." },
+  cover: { call: "Red Flight, cover me!", ack: "We've got your back, Five." },
+  formUp: { call: "Red Flight, form up on me.", ack: "Forming up, Five." },
+  subsystems: { call: "Red Flight, hit their subsystems!", ack: "Copy, going for their systems." },
+  escort: { call: "Red Flight, back to your escort.", ack: "Returning to escort." },
+  noTarget: "Negative, Five, you don't have a target.",
+  noSubsystems: "No capital ship systems out here, Five.",
+  kill: "Scratch one! That one's mine."
+};
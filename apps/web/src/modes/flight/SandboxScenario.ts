@@ -1,12 +1,34 @@
 /**
- * SandboxScenario - Standard space combat missions with hyperspace jumping
+ * SandboxScenario - Procedural missions with hyperspace jumping
+ *
+ * Each system offers a procgen MissionDef (bounty, defense, escort, ...).
+ * Its objectives come from createMissionObjectives() and run through the
+ * ObjectiveTracker; the sandbox supplies waves, mission sites and context.
  */
 
 import * as THREE from "three";
+import { hasComponent, removeEntity } from "bitecs";
 import { createRng, deriveSeed, GalaxyCache, type SystemDef } from "@xwingz/procgen";
-import { Transform, Velocity, Targeting } from "@xwingz/gameplay";
+import {
+  Transform,
+  Velocity,
+  Targeting,
+  Shield,
+  ObjectiveTracker,
+  KillTracker,
+  ObjectiveEventType,
+  ObjectiveStatus,
+  ProgressIndicatorType,
+  TriggerType,
+  createDefaultObjectiveContext,
+  createMissionObjectives,
+  type MissionResult,
+  type ObjectiveContext,
+  type ObjectiveEvent
+} from "@xwingz/gameplay";
 import type { ModeContext } from "../types";
 import type { ExplosionManager } from "../../rendering/effects";
+import { disposeObject } from "../../rendering/MeshManager";
 import {
   type FlightHudElements,
   type MissionRuntime,
@@ -21,8 +43,32 @@ import {
   updatePlayerHudValues,
   updateSystemInfo,
   updateTargetBracket,
-  clearTargetBracket
+  clearTargetBracket,
+  createMissionResult
 } from "./FlightShared";
+import { ObjectiveHud } from "./ObjectiveHud";
+import {
+  AnnouncementSystem,
+  newObjectiveAnnouncement,
+  objectiveCompleteAnnouncement,
+  milestoneAnnouncement,
+  missionCompleteAnnouncement,
+  missionFailedAnnouncement
+} from "./AnnouncementSystem";
+import {
+  createMissionSiteState,
+  spawnMissionSites,
+  syncMissionSites,
+  applyMissionSiteContext,
+  getMissionSitePosition,
+  clearMissionSites,
+  createPlanetBackdrop,
+  disposePlanetBackdrop,
+  type MissionSiteState
+} from "./sandbox";
+
+// Shield percentage below which a kill streak no longer counts for the bonus
+const STREAK_SHIELD_PERCENT = 50;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Sandbox Scenario Context
@@ -47,33 +93,57 @@ export class SandboxScenario {
   private cache: GalaxyCache;
   private jumpIndex = 0;
 
-  // Starfield
+  // Starfield + system planets
   private starfield: THREE.Points | null = null;
+  private planets: THREE.Group | null = null;
 
   // Mission state
   private mission: MissionRuntime | null = null;
+  private missionTime = 0;
+  private missionResult: MissionResult | null = null;
+  private sites: MissionSiteState = createMissionSiteState();
+
+  // Seconds spent inside the active INTERACT objective's site
+  private interactTime = 0;
+
+  // Objective system
+  private objectiveTracker: ObjectiveTracker | null = null;
+  private killTracker: KillTracker | null = null;
+  private objectiveHud: ObjectiveHud | null = null;
+  private announcements: AnnouncementSystem | null = null;
 
   // Targeting state
   private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
 
+  private tmpPlayerPos = new THREE.Vector3();
+
   constructor() {
     this.cache = new GalaxyCache({ globalSeed: 42n }, { maxSectors: 256 });
   }
 
   enter(sctx: SandboxContext): void {
+    // Respawns re-enter without exiting; drop the previous mission first
+    this.teardown(sctx);
+
     this.jumpIndex = 0;
-    this.mission = null;
     this.lockState = { lockValue: 0, lockTargetEid: -1 };
 
+    const hudContainer = sctx.ctx.hud;
+    this.objectiveHud = new ObjectiveHud(hudContainer);
+    this.announcements = new AnnouncementSystem(hudContainer);
+
     // Build starfield
     this.starfield = createStarfield(sctx.currentSystem.seed);
     sctx.ctx.scene.add(this.starfield);
+    this.buildPlanets(sctx);
 
     // Start mission
     this.startMission(sctx);
   }
 
   tick(sctx: SandboxContext, dt: number): boolean {
+    this.missionTime += dt;
+
     // Sync targets and handle kills
     const syncResult = syncTargets(
       sctx.ctx,
@@ -85,36 +155,41 @@ export class SandboxScenario {
     sctx.targetEids.length = 0;
     sctx.targetEids.push(...syncResult.targetEids);
 
-    if (syncResult.killedCount > 0 && sctx.shipEid !== null && this.mission && !this.mission.completed) {
-      this.mission.kills += syncResult.killedCount;
-      sctx.ctx.profile.credits += syncResult.killedCount * 5;
+    syncMissionSites(sctx.ctx.world, sctx.ctx.scene, this.sites, sctx.explosions, dt);
+
+    const mission = this.mission;
+    if (!mission) return false;
+    const inProgress = !mission.completed && !mission.failed;
 
-      if (this.mission.kills >= this.mission.def.goalKills) {
-        this.mission.kills = this.mission.def.goalKills;
-        this.mission.completed = true;
-        sctx.ctx.profile.credits += this.mission.def.rewardCredits;
-        sctx.ctx.profile.missionTier += 1;
-        this.mission.message = `MISSION COMPLETE  +${this.mission.def.rewardCredits} CR`;
-        this.mission.messageTimer = 4;
+    if (syncResult.killedCount > 0 && sctx.shipEid !== null && inProgress) {
+      mission.kills += syncResult.killedCount;
+      for (let i = 0; i < syncResult.killedCount; i++) {
+        this.killTracker?.recordKill("fighter", mission.wave);
       }
+      sctx.ctx.profile.credits += syncResult.killedCount * 5;
       sctx.ctx.scheduleSave();
     }
 
-    // Spawn next wave if needed
-    if (
-      this.mission &&
-      !this.mission.completed &&
-      this.mission.kills < this.mission.def.goalKills &&
-      sctx.targetEids.length === 0
-    ) {
+    // Objectives
+    if (inProgress && this.objectiveTracker) {
+      this.updateInteract(sctx, dt);
+      const events = this.objectiveTracker.tick(dt, this.buildObjectiveContext(sctx));
+      this.processObjectiveEvents(sctx, events);
+    }
+
+    // Spawn next wave once the sky is clear
+    const wantsWave = mission.kills < mission.def.goalKills || mission.wave < mission.def.waves;
+    if (!mission.completed && !mission.failed && wantsWave && sctx.targetMeshes.size === 0) {
       this.spawnMissionWave(sctx);
     }
 
     // Update mission message timer
-    if (this.mission && this.mission.messageTimer > 0) {
-      this.mission.messageTimer = Math.max(0, this.mission.messageTimer - dt);
+    if (mission.messageTimer > 0) {
+      mission.messageTimer = Math.max(0, mission.messageTimer - dt);
     }
 
+    this.announcements?.tick(dt);
+
     return false; // Don't exit flight mode
   }
 
@@ -127,17 +202,13 @@ export class SandboxScenario {
     updatePlayerHudValues(els, sctx.shipEid, sctx.ctx);
     updateSystemInfo(els, sctx.currentSystem, sctx.ctx.profile.credits);
 
+    if (this.objectiveTracker && this.objectiveHud) {
+      this.objectiveHud.update(this.objectiveTracker, dt);
+    }
+
     // Mission message
     if (this.mission) {
-      if (this.mission.messageTimer > 0) {
-        els.mission.textContent = this.mission.message;
-      } else if (this.mission.completed) {
-        els.mission.textContent = "MISSION COMPLETE — PRESS H TO JUMP";
-      } else {
-        els.mission.textContent =
-          `${this.mission.def.title}: ${this.mission.kills}/${this.mission.def.goalKills}  ` +
-          `REWARD ${this.mission.def.rewardCredits} CR`;
-      }
+      els.mission.textContent = this.getMissionMessage(sctx);
     }
 
     // Target bracket
@@ -152,11 +223,25 @@ export class SandboxScenario {
     }
   }
 
-  getMissionMessage(_sctx: SandboxContext): string {
-    if (!this.mission) return "";
-    if (this.mission.messageTimer > 0) return this.mission.message;
-    if (this.mission.completed) return "MISSION COMPLETE — PRESS H TO JUMP";
-    return `${this.mission.def.title}: ${this.mission.kills}/${this.mission.def.goalKills}`;
+  getMissionMessage(sctx: SandboxContext): string {
+    const mission = this.mission;
+    if (!mission) return "";
+    if (mission.messageTimer > 0) return mission.message;
+    if (mission.completed) return "MISSION COMPLETE — PRESS H TO JUMP";
+    if (mission.failed) return "MISSION FAILED — PRESS H TO JUMP";
+
+    const active = this.objectiveTracker?.getActiveObjective();
+    if (!active) return `${mission.def.title}: ${mission.def.summary}`;
+
+    const def = active.definition;
+    let status = "";
+    if (def.progressType === ProgressIndicatorType.NUMERIC_COUNTER || def.progressType === ProgressIndicatorType.PROGRESS_BAR) {
+      status = `${active.progress}/${def.progressMax}`;
+    } else if (def.triggerComplete.type === TriggerType.REACH_LOCATION && def.triggerComplete.location) {
+      const distance = this.distanceToSite(sctx, def.triggerComplete.location);
+      if (distance !== null) status = `${Math.round(distance)}m`;
+    }
+    return `${mission.def.title}: ${def.hudTextActive}  ${status}`.trimEnd();
   }
 
   canLand(_sctx: SandboxContext): boolean {
@@ -164,9 +249,7 @@ export class SandboxScenario {
   }
 
   exit(sctx: SandboxContext): void {
-    disposeStarfield(sctx.ctx.scene, this.starfield);
-    this.starfield = null;
-    this.mission = null;
+    this.teardown(sctx);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -178,9 +261,57 @@ export class SandboxScenario {
     return Targeting.targetEid[sctx.shipEid] ?? -1;
   }
 
+  private teardown(sctx: SandboxContext): void {
+    disposeStarfield(sctx.ctx.scene, this.starfield);
+    this.starfield = null;
+    disposePlanetBackdrop(sctx.ctx.scene, this.planets);
+    this.planets = null;
+    this.clearMission(sctx);
+    this.objectiveHud?.dispose();
+    this.announcements?.dispose();
+    this.objectiveHud = null;
+    this.announcements = null;
+  }
+
+  private buildPlanets(sctx: SandboxContext): void {
+    disposePlanetBackdrop(sctx.ctx.scene, this.planets);
+    this.planets = createPlanetBackdrop(this.cache.planetsOf(sctx.currentSystem));
+    sctx.ctx.scene.add(this.planets);
+  }
+
   private startMission(sctx: SandboxContext): void {
-    this.mission = createMission(sctx.currentSystem, sctx.ctx.profile.missionTier);
+    const mission = createMission(sctx.currentSystem, sctx.ctx.profile.missionTier);
+    this.mission = mission;
+    this.missionTime = 0;
+    this.missionResult = null;
+    this.interactTime = 0;
+
+    this.objectiveTracker = new ObjectiveTracker(createMissionObjectives(mission.def));
+    this.killTracker = new KillTracker(STREAK_SHIELD_PERCENT);
+    this.objectiveTracker.initialize();
+
+    spawnMissionSites(sctx.ctx.world, sctx.ctx.scene, this.sites, mission.def);
     this.spawnMissionWave(sctx);
+
+    mission.message = `${mission.def.title.toUpperCase()} — ${mission.def.summary.toUpperCase()}`;
+    mission.messageTimer = 4;
+  }
+
+  /** Remove the current mission's fighters, sites and objectives */
+  private clearMission(sctx: SandboxContext): void {
+    const world = sctx.ctx.world;
+    for (const [eid, mesh] of sctx.targetMeshes) {
+      if (hasComponent(world, Transform, eid)) removeEntity(world, eid);
+      sctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    sctx.targetMeshes.clear();
+    sctx.targetEids.length = 0;
+
+    clearMissionSites(world, sctx.ctx.scene, this.sites);
+    this.mission = null;
+    this.objectiveTracker = null;
+    this.killTracker = null;
   }
 
   private spawnMissionWave(sctx: SandboxContext): void {
@@ -188,16 +319,135 @@ export class SandboxScenario {
     const key = `${this.mission.def.id}:wave:${this.mission.wave}`;
     this.mission.wave += 1;
 
+    // Fresh collections: spawnEnemyFighters clears whatever it is given,
+    // and mission sites share targetEids with the fighters
     const result = spawnEnemyFighters(
       sctx.ctx,
       sctx.ctx.scene,
       sctx.currentSystem,
       key,
-      sctx.targetEids,
-      sctx.targetMeshes
+      [],
+      new Map()
     );
-    sctx.targetEids = result.targetEids;
-    // Note: targetMeshes is mutated in place
+    for (const [eid, mesh] of result.targetMeshes) {
+      sctx.targetMeshes.set(eid, mesh);
+    }
+    sctx.targetEids.push(...result.targetEids);
+  }
+
+  private distanceToSite(sctx: SandboxContext, siteId: string): number | null {
+    const site = getMissionSitePosition(this.sites, siteId);
+    const player = this.playerPosition(sctx);
+    return site && player ? player.distanceTo(site) : null;
+  }
+
+  private playerPosition(sctx: SandboxContext): THREE.Vector3 | null {
+    const eid = sctx.shipEid;
+    if (eid === null || !hasComponent(sctx.ctx.world, Transform, eid)) return null;
+    return this.tmpPlayerPos.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+  }
+
+  /** Accumulate dwell time while the player holds inside the scan site */
+  private updateInteract(sctx: SandboxContext, dt: number): void {
+    const trigger = this.objectiveTracker?.getActiveObjective()?.definition.triggerComplete;
+    if (trigger?.type !== TriggerType.INTERACT || !trigger.location) {
+      this.interactTime = 0;
+      return;
+    }
+
+    const site = this.mission?.def.sites.find((s) => s.id === trigger.location);
+    const distance = this.distanceToSite(sctx, trigger.location);
+    if (site && distance !== null && distance <= site.radius) {
+      this.interactTime += dt;
+    } else {
+      // Leaving the site restarts the scan
+      this.interactTime = 0;
+    }
+  }
+
+  /**
+   * Build ObjectiveContext from current game state
+   */
+  private buildObjectiveContext(sctx: SandboxContext): ObjectiveContext {
+    const ctx = createDefaultObjectiveContext();
+    ctx.missionTime = this.missionTime;
+    ctx.interactProgress = this.interactTime;
+
+    const player = this.playerPosition(sctx);
+    if (player) {
+      ctx.location.playerPosition = { x: player.x, y: player.y, z: player.z };
+
+      const eid = sctx.shipEid!;
+      if (hasComponent(sctx.ctx.world, Shield, eid)) {
+        ctx.playerShieldPercent = ((Shield.sp[eid] ?? 0) / (Shield.maxSp[eid] ?? 1)) * 100;
+      }
+    }
+
+    if (this.killTracker) {
+      this.killTracker.checkShieldForStreak(ctx.playerShieldPercent);
+      ctx.kills = this.killTracker.getTrackingData();
+    }
+
+    applyMissionSiteContext(this.sites, player, ctx);
+
+    if (this.objectiveTracker) {
+      for (const obj of this.objectiveTracker.getObjectivesByStatus(ObjectiveStatus.COMPLETED)) {
+        ctx.completedObjectives.add(obj.definition.id);
+      }
+    }
+
+    return ctx;
+  }
+
+  /**
+   * Process objective events (announcements, credits, mission end)
+   */
+  private processObjectiveEvents(sctx: SandboxContext, events: ObjectiveEvent[]): void {
+    const mission = this.mission;
+    if (!mission) return;
+
+    for (const event of events) {
+      switch (event.type) {
+        case ObjectiveEventType.OBJECTIVE_ACTIVATED:
+          this.interactTime = 0;
+          this.announcements?.announce(
+            newObjectiveAnnouncement(event.objective?.definition.name ?? "", event.message)
+          );
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_COMPLETED:
+          this.announcements?.announce(
+            objectiveCompleteAnnouncement(event.objective?.definition.hudTextComplete ?? "COMPLETE")
+          );
+          if (event.objective) {
+            sctx.ctx.profile.credits += event.objective.definition.rewardCredits;
+            sctx.ctx.scheduleSave();
+          }
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_MILESTONE:
+          this.announcements?.announce(milestoneAnnouncement(event.message ?? ""));
+          break;
+
+        case ObjectiveEventType.MISSION_COMPLETE:
+          if (mission.completed) break;
+          mission.completed = true;
+          sctx.ctx.profile.missionTier += 1;
+          mission.message = `MISSION COMPLETE  +${this.objectiveTracker?.getTotalCreditsEarned() ?? 0} CR`;
+          mission.messageTimer = 4;
+          this.announcements?.announce(missionCompleteAnnouncement());
+          sctx.ctx.scheduleSave();
+          break;
+
+        case ObjectiveEventType.MISSION_FAILED:
+          if (mission.failed) break;
+          mission.failed = true;
+          mission.message = "MISSION FAILED";
+          mission.messageTimer = 4;
+          this.announcements?.announce(missionFailedAnnouncement(event.message));
+          break;
+      }
+    }
   }
 
   private hyperspaceJump(sctx: SandboxContext): void {
@@ -219,20 +469,12 @@ export class SandboxScenario {
 
     // Update system reference (caller should update their reference too)
     (sctx as { currentSystem: SystemDef }).currentSystem = next;
+    this.buildPlanets(sctx);
 
     // Clear projectiles handled by FlightMode
     // Start new mission
-    this.mission = createMission(next, sctx.ctx.profile.missionTier);
-    const result = spawnEnemyFighters(
-      sctx.ctx,
-      sctx.ctx.scene,
-      next,
-      `${this.mission.def.id}:wave:0`,
-      sctx.targetEids,
-      sctx.targetMeshes
-    );
-    sctx.targetEids = result.targetEids;
-    this.mission.wave = 1;
+    this.clearMission(sctx);
+    this.startMission(sctx);
 
     // Reset player position
     if (sctx.shipEid !== null) {
@@ -249,4 +491,21 @@ export class SandboxScenario {
   getCurrentSystem(sctx: SandboxContext): SystemDef {
     return sctx.currentSystem;
   }
+
+  /**
+   * How the current mission ended, for the debrief (null while it is on)
+   */
+  getMissionResult(): MissionResult | null {
+    const mission = this.mission;
+    if (!mission || (!mission.completed && !mission.failed)) return null;
+    this.missionResult ??= createMissionResult(
+      `sandbox:${mission.def.type}`,
+      mission.def.title,
+      mission.completed,
+      this.missionTime,
+      this.objectiveTracker,
+      this.killTracker
+    );
+    return this.missionResult;
+  }
 }
@@ -0,0 +1,639 @@
+/**
+ * ScriptedFlightScenario - Runs a JSON mission script in space
+ *
+ * The script (apps/web/src/missions) supplies objectives, waves, dialogue and
+ * rewards; MissionScriptRunner decides when each fires. This handler only
+ * spawns the craft (or capital ships) a wave asks for, feeds kills/wingmen/position back in as
+ * an ObjectiveContext, and shows objectives, announcements and radio lines.
+ * Getting shot down fails the mission; H restarts it once it is over.
+ */
+
+import * as THREE from "three";
+import { addComponent, addEntity, hasComponent, removeEntity } from "bitecs";
+import { createRng, deriveSeed, getFighterArchetype, type SystemDef } from "@xwingz/procgen";
+import type { FighterArchetypeId } from "@xwingz/data";
+import type { ShipType } from "@xwingz/render";
+import {
+  AIControlled,
+  AngularVelocity,
+  CAPITAL_SCRIPT_UNITS,
+  CapitalShipV2,
+  FighterBrain,
+  Health,
+  HitRadius,
+  KillTracker,
+  LaserWeapon,
+  MissionScriptRunner,
+  ObjectiveEventType,
+  ObjectiveStatus,
+  Shield,
+  Ship,
+  Targetable,
+  Targeting,
+  Team,
+  Transform,
+  Velocity,
+  createDefaultObjectiveContext,
+  type CapitalScriptUnit,
+  type MissionResult,
+  type MissionScript,
+  type MissionSpawnDef,
+  type MissionWaveDef,
+  type ObjectiveContext,
+  type ObjectiveEvent
+} from "@xwingz/gameplay";
+import type { ModeContext } from "../types";
+import type { ExplosionManager } from "../../rendering/effects";
+import { disposeObject } from "../../rendering/MeshManager";
+import {
+  type FlightHudElements,
+  type ScriptedMissionState,
+  type TargetBracketState
+} from "./FlightScenarioTypes";
+import {
+  buildAllyMesh,
+  buildEnemyMesh,
+  createStarfield,
+  disposeStarfield,
+  syncTargets,
+  updatePlayerHudValues,
+  updateSystemInfo,
+  updateTargetBracket,
+  clearTargetBracket,
+  createMissionResult
+} from "./FlightShared";
+import { ObjectiveHud } from "./ObjectiveHud";
+import { CapitalShipController } from "./CapitalShipController";
+import {
+  AnnouncementSystem,
+  newObjectiveAnnouncement,
+  objectiveCompleteAnnouncement,
+  objectiveFailedAnnouncement,
+  milestoneAnnouncement,
+  missionCompleteAnnouncement,
+  missionFailedAnnouncement
+} from "./AnnouncementSystem";
+import { RadioChatterSystem, RadioSpeaker } from "./RadioChatterSystem";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scripted Flight Context
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ScriptedFlightContext {
+  ctx: ModeContext;
+  currentSystem: SystemDef;
+  shipEid: number | null;
+  targetEids: number[];
+  targetMeshes: Map<number, THREE.Object3D>;
+  projectileMeshes: Map<number, THREE.Mesh>;
+  explosions: ExplosionManager | null;
+  script: MissionScript | null;
+}
+
+const CRAFT_SCALE = 2.5;
+
+// Capital script units → ShipClass and procedural stand-in hull
+const CAPITAL_UNITS: Record<CapitalScriptUnit, { shipClass: number; type: ShipType; scale: number; tint?: number }> = {
+  cr90: { shipClass: 0, type: "cr90_corvette", scale: 3 },                 // ShipClass.Corvette
+  nebulon_b: { shipClass: 1, type: "nebulon_b", scale: 3 },                // ShipClass.Frigate
+  mc80: { shipClass: 2, type: "nebulon_b", tint: 0x9fb4c8, scale: 7 },     // ShipClass.Cruiser
+  isd: { shipClass: 3, type: "star_destroyer", scale: 5 }                  // ShipClass.Destroyer
+};
+
+function isCapitalUnit(unit: string): unit is CapitalScriptUnit {
+  return (CAPITAL_SCRIPT_UNITS as readonly string[]).includes(unit);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scripted Flight Scenario Handler
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ScriptedFlightScenario {
+  private starfield: THREE.Points | null = null;
+  private state: ScriptedMissionState | null = null;
+  private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
+
+  private runner: MissionScriptRunner | null = null;
+  private killTracker: KillTracker | null = null;
+  private missionTime = 0;
+  private missionResult: MissionResult | null = null;
+
+  // Enemy craft fielded by waves: unit type and wave id for kill tracking
+  private enemyUnits = new Map<number, { unit: string; wave: number }>();
+
+  // Capital ships from either side; enemy ones are in enemyUnits too
+  private capitals = new CapitalShipController();
+  private enemyCapitalEids = new Set<number>();
+
+  // Scripted wingmen (not Targetable - the player can't lock friendlies)
+  private allyEids: number[] = [];
+  private allyMeshes = new Map<number, THREE.Object3D>();
+  private alliesStarted = 0;
+
+  // HUD systems
+  private objectiveHud: ObjectiveHud | null = null;
+  private announcements: AnnouncementSystem | null = null;
+  private radioChatter: RadioChatterSystem | null = null;
+
+  enter(sctx: ScriptedFlightContext): void {
+    this.lockState = { lockValue: 0, lockTargetEid: -1 };
+    this.missionTime = 0;
+    this.missionResult = null;
+    this.enemyUnits.clear();
+    this.enemyCapitalEids.clear();
+    this.alliesStarted = 0;
+
+    this.starfield = createStarfield(sctx.currentSystem.seed);
+    sctx.ctx.scene.add(this.starfield);
+
+    const script = sctx.script;
+    if (!script) {
+      this.state = null;
+      return;
+    }
+
+    this.runner = new MissionScriptRunner(script);
+    this.killTracker = new KillTracker(80);
+    this.runner.start();
+
+    const hudContainer = sctx.ctx.hud;
+    this.objectiveHud = new ObjectiveHud(hudContainer);
+    this.announcements = new AnnouncementSystem(hudContainer);
+    this.radioChatter = new RadioChatterSystem(hudContainer);
+
+    this.state = {
+      phase: "active",
+      scriptId: script.id,
+      wavesSpawned: 0,
+      enemies: 0,
+      wingmen: 0,
+      rewardCredits: 0,
+      message: script.name.toUpperCase(),
+      messageTimer: 3
+    };
+
+    const first = this.runner.tracker.getActiveObjective();
+    if (first) {
+      this.announcements.announce(newObjectiveAnnouncement(first.definition.name, script.briefing || undefined));
+    }
+  }
+
+  tick(sctx: ScriptedFlightContext, dt: number): boolean {
+    const s = this.state;
+    if (!s || !this.runner || !this.killTracker) return false;
+
+    this.missionTime += dt;
+
+    const syncResult = syncTargets(sctx.ctx, sctx.ctx.scene, sctx.targetMeshes, sctx.explosions);
+    // Update array in place to preserve FlightMode's reference
+    sctx.targetEids.length = 0;
+    sctx.targetEids.push(...syncResult.targetEids);
+
+    for (const eid of syncResult.killedEids) {
+      const fielded = this.enemyUnits.get(eid);
+      if (!fielded) continue;
+      this.enemyUnits.delete(eid);
+      this.killTracker.recordKill(fielded.unit, fielded.wave);
+    }
+    this.syncCapitals(sctx);
+    this.syncWingmen(sctx);
+
+    if (s.phase === "active") {
+      const update = this.runner.tick(dt, this.buildObjectiveContext(sctx));
+      for (const wave of update.waves) this.spawnWave(sctx, wave);
+      for (const line of update.dialogue) {
+        this.radioChatter?.queueMessages(line.lines, RadioSpeaker[line.speaker], 6);
+      }
+      this.processObjectiveEvents(sctx, update.events);
+    }
+
+    s.enemies = this.enemyUnits.size;
+    s.wingmen = this.allyEids.length;
+    if (s.messageTimer > 0) {
+      s.messageTimer = Math.max(0, s.messageTimer - dt);
+    }
+
+    this.announcements?.tick(dt);
+    this.radioChatter?.tick(dt);
+
+    return false;
+  }
+
+  handleHyperspace(_sctx: ScriptedFlightContext): boolean {
+    if (!this.state) return true;
+
+    // Allow restart once the mission is over
+    if (this.state.phase !== "active") return true;
+
+    this.state.message = "HYPERSPACE DISABLED - COMPLETE YOUR OBJECTIVES";
+    this.state.messageTimer = 2;
+    return false;
+  }
+
+  updateHud(sctx: ScriptedFlightContext, els: FlightHudElements, dt: number): void {
+    updatePlayerHudValues(els, sctx.shipEid, sctx.ctx);
+    updateSystemInfo(els, sctx.currentSystem, sctx.ctx.profile.credits);
+
+    if (this.runner && this.objectiveHud) {
+      this.objectiveHud.update(this.runner.tracker, dt);
+    }
+
+    const s = this.state;
+    if (!s) {
+      els.mission.textContent = "UNKNOWN MISSION SCRIPT - PRESS M FOR MAP";
+    } else if (s.messageTimer > 0) {
+      els.mission.textContent = s.message;
+    } else if (s.phase === "success") {
+      els.mission.textContent = "MISSION COMPLETE - PRESS M FOR MAP OR H TO RESTART";
+    } else if (s.phase === "fail") {
+      els.mission.textContent = "MISSION FAILED - PRESS H TO RESTART";
+    } else {
+      const active = this.runner?.tracker.getActiveObjective();
+      const objText = active ? active.definition.hudTextActive : s.scriptId.toUpperCase();
+      els.mission.textContent = `${objText}  HOSTILES ${s.enemies}  WINGMEN ${s.wingmen}`;
+    }
+
+    if (sctx.shipEid !== null) {
+      const teid = Targeting.targetEid[sctx.shipEid] ?? -1;
+      if (teid >= 0 && Transform.x[teid] !== undefined) {
+        this.lockState = updateTargetBracket(sctx.ctx, els, sctx.shipEid, teid, this.lockState, dt);
+      } else {
+        clearTargetBracket(els);
+        this.lockState = { lockValue: 0, lockTargetEid: -1 };
+      }
+    }
+  }
+
+  getMissionMessage(_sctx: ScriptedFlightContext): string {
+    if (!this.state) return "";
+    if (this.state.messageTimer > 0) return this.state.message;
+    if (this.state.phase === "success") return "MISSION COMPLETE";
+    if (this.state.phase === "fail") return "MISSION FAILED";
+    return this.runner?.tracker.getActiveObjective()?.definition.hudTextActive ?? "";
+  }
+
+  canLand(_sctx: ScriptedFlightContext): boolean {
+    return false;
+  }
+
+  exit(sctx: ScriptedFlightContext): void {
+    disposeStarfield(sctx.ctx.scene, this.starfield);
+    this.starfield = null;
+
+    for (const eid of this.allyEids) {
+      if (hasComponent(sctx.ctx.world, Transform, eid)) removeEntity(sctx.ctx.world, eid);
+    }
+    for (const mesh of this.allyMeshes.values()) {
+      sctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.allyEids = [];
+    this.allyMeshes.clear();
+    this.enemyUnits.clear();
+    this.capitals.clear(sctx.ctx);
+    this.enemyCapitalEids.clear();
+
+    this.objectiveHud?.dispose();
+    this.announcements?.dispose();
+    this.radioChatter?.dispose();
+    this.objectiveHud = null;
+    this.announcements = null;
+    this.radioChatter = null;
+
+    this.runner = null;
+    this.killTracker = null;
+    this.state = null;
+    this.missionTime = 0;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Public Accessors
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  getMissionState(): ScriptedMissionState | null {
+    return this.state;
+  }
+
+  /**
+   * How the script ended, for the debrief (null while it is still running)
+   */
+  getMissionResult(): MissionResult | null {
+    const s = this.state;
+    const runner = this.runner;
+    if (!s || !runner || s.phase === "active") return null;
+    this.missionResult ??= createMissionResult(
+      `scripted:${runner.script.id}`,
+      runner.script.name,
+      s.phase === "success",
+      this.missionTime,
+      runner.tracker,
+      this.killTracker,
+      s.phase === "success" ? runner.script.rewards.credits : 0
+    );
+    return this.missionResult;
+  }
+
+  /**
+   * Player was shot down - the mission is lost.
+   */
+  markShotDown(sctx: ScriptedFlightContext): void {
+    if (!this.state || this.state.phase !== "active") return;
+    this.runner?.fail();
+    this.endMission(sctx, false, "MISSION FAILED - YOU WERE SHOT DOWN");
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private buildObjectiveContext(sctx: ScriptedFlightContext): ObjectiveContext {
+    const ctx = createDefaultObjectiveContext();
+    ctx.missionTime = this.missionTime;
+
+    if (sctx.shipEid !== null) {
+      const eid = sctx.shipEid;
+      ctx.location.playerPosition = {
+        x: Transform.x[eid] ?? 0,
+        y: Transform.y[eid] ?? 0,
+        z: Transform.z[eid] ?? 0
+      };
+      ctx.location.playerAltitude = Transform.y[eid] ?? 0;
+      if (hasComponent(sctx.ctx.world, Shield, eid)) {
+        ctx.playerShieldPercent = ((Shield.sp[eid] ?? 0) / (Shield.maxSp[eid] || 1)) * 100;
+      }
+    }
+
+    this.killTracker?.checkShieldForStreak(ctx.playerShieldPercent);
+    if (this.killTracker) ctx.kills = this.killTracker.getTrackingData();
+
+    ctx.allies.alive = this.allyEids.length;
+    ctx.allies.started = this.alliesStarted;
+
+    for (const obj of this.runner?.tracker.getObjectivesByStatus(ObjectiveStatus.COMPLETED) ?? []) {
+      ctx.completedObjectives.add(obj.definition.id);
+    }
+
+    return ctx;
+  }
+
+  private processObjectiveEvents(sctx: ScriptedFlightContext, events: ObjectiveEvent[]): void {
+    for (const event of events) {
+      const def = event.objective?.definition;
+      switch (event.type) {
+        case ObjectiveEventType.OBJECTIVE_ACTIVATED:
+          if (def?.radioOnStart) this.radioChatter?.queueMessages(def.radioOnStart, RadioSpeaker.WINGMAN, 5);
+          this.announcements?.announce(newObjectiveAnnouncement(def?.name ?? "", event.message));
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_COMPLETED:
+          if (def?.radioOnComplete) this.radioChatter?.queueMessages(def.radioOnComplete, RadioSpeaker.WINGMAN, 6);
+          this.announcements?.announce(objectiveCompleteAnnouncement(def?.hudTextComplete ?? "COMPLETE"));
+          if (def) {
+            sctx.ctx.profile.credits += def.rewardCredits;
+            sctx.ctx.scheduleSave();
+          }
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_FAILED:
+          this.announcements?.announce(objectiveFailedAnnouncement(def?.name ?? "OBJECTIVE"));
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_MILESTONE:
+          this.announcements?.announce(milestoneAnnouncement(event.message ?? ""));
+          break;
+
+        case ObjectiveEventType.MISSION_COMPLETE:
+          this.endMission(sctx, true, "");
+          break;
+
+        case ObjectiveEventType.MISSION_FAILED:
+          this.endMission(sctx, false, "MISSION FAILED");
+          break;
+      }
+    }
+  }
+
+  private endMission(sctx: ScriptedFlightContext, success: boolean, message: string): void {
+    const s = this.state;
+    if (!s || s.phase !== "active" || !this.runner) return;
+
+    s.phase = success ? "success" : "fail";
+    s.rewardCredits = this.runner.getRewardCredits();
+    s.messageTimer = success ? 6 : 8;
+
+    if (success) {
+      // Objective credits were paid as each completed; add the mission bonus
+      const bonus = this.runner.script.rewards.credits;
+      sctx.ctx.profile.credits += bonus;
+      s.message = `MISSION COMPLETE  +${s.rewardCredits} CR`;
+      this.announcements?.announce(missionCompleteAnnouncement());
+    } else {
+      s.message = message;
+      this.announcements?.announce(missionFailedAnnouncement());
+    }
+    sctx.ctx.scheduleSave();
+  }
+
+  private spawnWave(sctx: ScriptedFlightContext, wave: MissionWaveDef): void {
+    const s = this.state;
+    if (!s || !this.runner) return;
+
+    s.wavesSpawned += 1;
+    if (wave.message) {
+      s.message = wave.message;
+      s.messageTimer = 3;
+    }
+
+    wave.spawns.forEach((spawn, spawnIndex) => {
+      const rng = createRng(
+        deriveSeed(sctx.currentSystem.seed, "script", this.runner!.script.id, "wave", wave.id, spawnIndex)
+      );
+      for (let i = 0; i < spawn.count; i++) {
+        const pos = spawnPosition(spawn, rng);
+        const ally = spawn.team === "ally";
+
+        if (isCapitalUnit(spawn.unit)) {
+          const eid = this.spawnCapital(sctx, spawn.unit, ally ? 0 : 1, pos, rng.nextU32() & 0x7fffffff);
+          if (!ally) {
+            this.enemyCapitalEids.add(eid);
+            this.enemyUnits.set(eid, { unit: spawn.unit, wave: wave.id });
+          }
+          continue;
+        }
+
+        const eid = this.spawnCraft(sctx, spawn.unit as FighterArchetypeId, ally ? 0 : 1, pos, rng.range(0.6, 0.9));
+
+        if (ally) {
+          const mesh = buildAllyMesh(this.allyEids.length);
+          mesh.scale.setScalar(CRAFT_SCALE);
+          mesh.position.copy(pos);
+          sctx.ctx.scene.add(mesh);
+          this.allyMeshes.set(eid, mesh);
+          this.allyEids.push(eid);
+          this.alliesStarted += 1;
+          continue;
+        }
+
+        addComponent(sctx.ctx.world, Targetable, eid);
+        const mesh = buildEnemyMesh(spawn.unit);
+        mesh.scale.setScalar(CRAFT_SCALE);
+        mesh.position.copy(pos);
+        sctx.ctx.scene.add(mesh);
+        sctx.targetMeshes.set(eid, mesh);
+        sctx.targetEids.push(eid);
+        this.enemyUnits.set(eid, { unit: spawn.unit, wave: wave.id });
+      }
+    });
+  }
+
+  private spawnCapital(
+    sctx: ScriptedFlightContext,
+    unit: CapitalScriptUnit,
+    team: number,
+    pos: THREE.Vector3,
+    seed: number
+  ): number {
+    const def = CAPITAL_UNITS[unit];
+    const { shipEid } = this.capitals.spawnCapitalShip(sctx.ctx, {
+      shipClass: def.shipClass,
+      meshType: def.type,
+      scale: def.scale,
+      tint: def.tint,
+      team,
+      x: pos.x,
+      y: pos.y,
+      z: pos.z,
+      // Enemies come in facing the player start, allies head out past it
+      yaw: team === 0 ? 0 : Math.PI,
+      seed
+    });
+    return shipEid;
+  }
+
+  private spawnCraft(
+    sctx: ScriptedFlightContext,
+    archetypeId: FighterArchetypeId,
+    team: number,
+    pos: THREE.Vector3,
+    throttle: number
+  ): number {
+    const world = sctx.ctx.world;
+    const archetype = getFighterArchetype(archetypeId);
+
+    const eid = addEntity(world);
+    addComponent(world, Transform, eid);
+    addComponent(world, Velocity, eid);
+    addComponent(world, AngularVelocity, eid);
+    addComponent(world, Team, eid);
+    addComponent(world, Ship, eid);
+    addComponent(world, LaserWeapon, eid);
+    addComponent(world, Health, eid);
+    addComponent(world, HitRadius, eid);
+    addComponent(world, Shield, eid);
+    addComponent(world, FighterBrain, eid);
+    addComponent(world, AIControlled, eid);
+
+    Transform.x[eid] = pos.x;
+    Transform.y[eid] = pos.y;
+    Transform.z[eid] = pos.z;
+    Transform.qx[eid] = 0;
+    Transform.qy[eid] = 0;
+    Transform.qz[eid] = 0;
+    Transform.qw[eid] = 1;
+
+    Velocity.vx[eid] = 0;
+    Velocity.vy[eid] = 0;
+    Velocity.vz[eid] = 0;
+
+    AngularVelocity.wx[eid] = 0;
+    AngularVelocity.wy[eid] = 0;
+    AngularVelocity.wz[eid] = 0;
+
+    Team.id[eid] = team;
+
+    Ship.throttle[eid] = throttle;
+    Ship.maxSpeed[eid] = archetype.maxSpeed;
+    Ship.accel[eid] = archetype.accel;
+    Ship.turnRate[eid] = archetype.turnRate;
+
+    LaserWeapon.cooldown[eid] = archetype.weaponCooldown;
+    LaserWeapon.cooldownRemaining[eid] = archetype.weaponCooldown;
+    LaserWeapon.projectileSpeed[eid] = archetype.projectileSpeed;
+    LaserWeapon.damage[eid] = archetype.damage;
+
+    Health.hp[eid] = archetype.hp;
+    Health.maxHp[eid] = archetype.hp;
+    HitRadius.r[eid] = archetype.hitRadius;
+
+    Shield.maxSp[eid] = archetypeId === "tie_ln" ? 10 : 25;
+    Shield.sp[eid] = Shield.maxSp[eid];
+    Shield.regenRate[eid] = 4;
+    Shield.lastHit[eid] = 999;
+
+    FighterBrain.state[eid] = 0;
+    FighterBrain.stateTime[eid] = 0;
+    FighterBrain.aggression[eid] = archetype.aggression;
+    FighterBrain.evadeBias[eid] = archetype.evadeBias;
+    FighterBrain.targetEid[eid] = -1;
+
+    return eid;
+  }
+
+  private syncCapitals(sctx: ScriptedFlightContext): void {
+    this.capitals.sync(sctx.ctx, sctx.explosions);
+    this.capitals.syncTurretProjectiles(sctx.explosions);
+
+    for (const eid of this.enemyCapitalEids) {
+      if (hasComponent(sctx.ctx.world, CapitalShipV2, eid)) continue;
+      this.enemyCapitalEids.delete(eid);
+      const fielded = this.enemyUnits.get(eid);
+      if (!fielded) continue;
+      this.enemyUnits.delete(eid);
+      this.killTracker?.recordKill(fielded.unit, fielded.wave);
+    }
+  }
+
+  private syncWingmen(sctx: ScriptedFlightContext): void {
+    const world = sctx.ctx.world;
+
+    for (let i = this.allyEids.length - 1; i >= 0; i--) {
+      const eid = this.allyEids[i]!;
+      const mesh = this.allyMeshes.get(eid);
+
+      if (
+        !hasComponent(world, Transform, eid) ||
+        !hasComponent(world, Health, eid) ||
+        (Health.hp[eid] ?? 0) <= 0
+      ) {
+        if (mesh) {
+          sctx.explosions?.spawn(mesh.position.clone(), 0x66aaff);
+          sctx.ctx.scene.remove(mesh);
+          disposeObject(mesh);
+          this.allyMeshes.delete(eid);
+        }
+        this.allyEids.splice(i, 1);
+        continue;
+      }
+
+      if (!mesh) continue;
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.quaternion.set(
+        Transform.qx[eid] ?? 0,
+        Transform.qy[eid] ?? 0,
+        Transform.qz[eid] ?? 0,
+        Transform.qw[eid] ?? 1
+      );
+    }
+  }
+}
+
+/** Random point in the spawn sphere around `at` */
+function spawnPosition(spawn: MissionSpawnDef, rng: ReturnType<typeof createRng>): THREE.Vector3 {
+  const angle = rng.range(0, Math.PI * 2);
+  const r = Math.sqrt(rng.range(0, 1)) * spawn.radius;
+  return new THREE.Vector3(
+    spawn.at.x + Math.cos(angle) * r,
+    spawn.at.y + rng.range(-0.25, 0.25) * spawn.radius,
+    spawn.at.z + Math.sin(angle) * r
+  );
+}
@@ -5,12 +5,12 @@
  * - StarDestroyerObjectives: Objective definitions
  * - DebrisFieldSpawner: Debris field spawning
  * - StarDestroyerAllyManager: Wingman management
- * - TIEInterceptorSpawner: TIE spawning
+ * - TIEInterceptorSpawner: Initial TIE screen (reinforcements launch from the hangar)
  */
 
 import * as THREE from "three";
 import { removeEntity, hasComponent, defineQuery } from "bitecs";
-import { type SystemDef } from "@xwingz/procgen";
+import { deriveSeed, type SystemDef } from "@xwingz/procgen";
 import { createProceduralShip, AssetLoader } from "@xwingz/render";
 import {
   Health,
@@ -19,6 +19,7 @@ import {
   Velocity,
   Targeting,
   CapitalShipV2,
+  CapitalDestruction,
   Turret,
   Subsystem,
   spawnCapitalShipV2,
@@ -33,11 +34,14 @@ import {
   ObjectiveStatus,
   ObjectiveEventType,
   createDefaultObjectiveContext,
-  Shield
+  Shield,
+  type MissionResult,
+  type SpaceInputState
 } from "@xwingz/gameplay";
 import type { ModeContext } from "../types";
 import { disposeObject } from "../../rendering/MeshManager";
 import type { ExplosionManager } from "../../rendering/effects";
+import { CapitalWreckController } from "./CapitalWreckController";
 import {
   type FlightHudElements,
   type StarDestroyerMissionState,
@@ -49,10 +53,13 @@ import {
   createStarfield,
   disposeStarfield,
   syncTargets,
+  syncCarrierFighters,
+  buildEnemyMesh,
   updatePlayerHudValues,
   updateSystemInfo,
   updateTargetBracket,
   clearTargetBracket,
+  createMissionResult,
   SubsystemType
 } from "./FlightShared";
 import { ObjectiveHud } from "./ObjectiveHud";
@@ -64,13 +71,16 @@ import {
   missionCompleteAnnouncement,
   missionFailedAnnouncement
 } from "./AnnouncementSystem";
-import { RadioChatterSystem, RadioSpeaker, STAR_DESTROYER_RADIO } from "./RadioChatterSystem";
+import { RadioChatterSystem, RadioSpeaker, STAR_DESTROYER_RADIO, WINGMAN_RADIO } from "./RadioChatterSystem";
+import { WingmanCommandMenu } from "./WingmanCommandMenu";
 
 // Extracted submodules
 import {
   STAR_DESTROYER_OBJECTIVES,
   spawnDebrisField,
   clearDebrisField,
+  spawnDebrisObstacles,
+  clearDebrisObstacles,
   createSDAllyManagerState,
   spawnWingmenFormation,
   syncSDAllies,
@@ -94,6 +104,10 @@ export interface StarDestroyerContext {
   explosions: ExplosionManager | null;
   assetLoader: AssetLoader;
   assetsReady: boolean;
+  /** This tick's flight input, for the wingman command menu */
+  input: SpaceInputState;
+  /** Shooter of each ship killed this tick, by victim eid */
+  killCredits: ReadonlyMap<number, number>;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -106,6 +120,7 @@ export class StarDestroyerScenario {
 
   // Debris field (asteroids/wreckage) - using extracted module
   private debrisField: THREE.Object3D[] = [];
+  private debrisObstacleEids: number[] = [];
 
   // Capital ships
   private capitalShipEids: number[] = [];
@@ -113,6 +128,8 @@ export class StarDestroyerScenario {
   private turretMeshes = new Map<number, THREE.Object3D>();
   private subsystemMeshes = new Map<number, THREE.Object3D>();
   private turretProjectileMeshes = new Map<number, THREE.Mesh>();
+  private carrierMeshes = new Map<number, THREE.Object3D>();
+  private wrecks = new CapitalWreckController();
 
   // Allies (wingmen) - using extracted module
   private allyState: SDAllyManagerState = createSDAllyManagerState();
@@ -123,6 +140,7 @@ export class StarDestroyerScenario {
   // Mission state
   private mission: StarDestroyerMissionState | null = null;
   private missionTime = 0;
+  private missionResult: MissionResult | null = null;
   private initialWingmenCount = 5;
   private wingmenLost = 0;
 
@@ -132,6 +150,7 @@ export class StarDestroyerScenario {
   private objectiveHud: ObjectiveHud | null = null;
   private announcements: AnnouncementSystem | null = null;
   private radioChatter: RadioChatterSystem | null = null;
+  private wingmanMenu: WingmanCommandMenu | null = null;
 
   // Targeting state
   private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
@@ -142,6 +161,7 @@ export class StarDestroyerScenario {
   enter(sdctx: StarDestroyerContext): void {
     this.lockState = { lockValue: 0, lockTargetEid: -1 };
     this.missionTime = 0;
+    this.missionResult = null;
     this.wingmenLost = 0;
     this.enemyTypes.clear();
 
@@ -155,6 +175,7 @@ export class StarDestroyerScenario {
     this.objectiveHud = new ObjectiveHud(hudContainer);
     this.announcements = new AnnouncementSystem(hudContainer);
     this.radioChatter = new RadioChatterSystem(hudContainer);
+    this.wingmanMenu = new WingmanCommandMenu(hudContainer);
 
     // Build starfield
     this.starfield = createStarfield(sdctx.currentSystem.seed);
@@ -164,6 +185,7 @@ export class StarDestroyerScenario {
     spawnDebrisField(sdctx.ctx.scene, sdctx.assetLoader, sdctx.currentSystem.seed)
       .then((debris) => {
         this.debrisField = debris;
+        this.debrisObstacleEids = spawnDebrisObstacles(sdctx.ctx.world, debris);
       });
 
     // Start mission
@@ -180,6 +202,17 @@ export class StarDestroyerScenario {
 
     this.missionTime += dt;
 
+    // TIEs launched from the Star Destroyer hangar join the targets
+    const launched = syncCarrierFighters(
+      sdctx.ctx,
+      sdctx.ctx.scene,
+      sdctx.targetMeshes,
+      this.carrierMeshes,
+      sdctx.explosions,
+      (archetype) => buildEnemyMesh(archetype)
+    );
+    for (const eid of launched) this.enemyTypes.set(eid, "tie_fighter");
+
     // Sync targets (TIE fighters)
     const syncResult = syncTargets(
       sdctx.ctx,
@@ -192,8 +225,12 @@ export class StarDestroyerScenario {
     if (syncResult.killedCount > 0 && sdctx.shipEid !== null) {
       for (const killedEid of syncResult.killedEids) {
         const enemyType = this.enemyTypes.get(killedEid) ?? "tie_fighter";
-        this.killTracker?.recordKill(enemyType, 1);
+        const byWingman = this.allyState.allyEids.includes(sdctx.killCredits.get(killedEid) ?? -1);
+        this.killTracker?.recordKill(enemyType, 1, byWingman);
         this.enemyTypes.delete(killedEid);
+        if (byWingman && (this.killTracker?.getWingmanKills() ?? 0) % 3 === 0) {
+          this.radioChatter?.wingmanSay(WINGMAN_RADIO.kill, 3);
+        }
       }
     }
 
@@ -208,6 +245,7 @@ export class StarDestroyerScenario {
     if (newAllyCount < prevAllyCount) {
       this.wingmenLost += prevAllyCount - newAllyCount;
     }
+    this.wingmanMenu?.tick(sdctx.ctx.world, sdctx.input, sdctx.shipEid, this.allyState.allyEids, this.radioChatter);
 
     // Sync capital ships
     this.syncCapitalShips(sdctx);
@@ -428,6 +466,8 @@ export class StarDestroyerScenario {
     this.starfield = null;
     clearDebrisField(sdctx.ctx.scene, this.debrisField);
     this.debrisField = [];
+    clearDebrisObstacles(sdctx.ctx.world, this.debrisObstacleEids);
+    this.debrisObstacleEids = [];
     this.clearCapitalShips(sdctx);
     clearSDAllies(sdctx.ctx.world, sdctx.ctx.scene, this.allyState);
     this.mission = null;
@@ -436,9 +476,11 @@ export class StarDestroyerScenario {
     this.objectiveHud?.dispose();
     this.announcements?.dispose();
     this.radioChatter?.dispose();
+    this.wingmanMenu?.dispose();
     this.objectiveHud = null;
     this.announcements = null;
     this.radioChatter = null;
+    this.wingmanMenu = null;
     this.objectiveTracker = null;
     this.killTracker = null;
     this.missionTime = 0;
@@ -454,6 +496,24 @@ export class StarDestroyerScenario {
     return this.mission;
   }
 
+  /**
+   * How the strike ended, for the debrief (null while it is still on)
+   */
+  getMissionResult(): MissionResult | null {
+    const m = this.mission;
+    if (!m || (m.phase !== "success" && m.phase !== "fail")) return null;
+    this.missionResult ??= createMissionResult(
+      "destroy_star_destroyer",
+      "Destroy the Star Destroyer",
+      m.phase === "success",
+      this.missionTime,
+      this.objectiveTracker,
+      this.killTracker,
+      m.phase === "success" ? m.rewardCredits : 0
+    );
+    return this.missionResult;
+  }
+
   getCapitalShipEids(): number[] {
     return this.capitalShipEids;
   }
@@ -571,7 +631,9 @@ export class StarDestroyerScenario {
       team,
       x,
       y,
-      z
+      z,
+      seed: Number(deriveSeed(sdctx.currentSystem.seed, "star_destroyer") & 0x7fffffffn),
+      hangarCapacity: 24
     });
 
     // Create mesh
@@ -693,7 +755,11 @@ export class StarDestroyerScenario {
 
       if (!hasComponent(sdctx.ctx.world, CapitalShipV2, eid)) {
         const mesh = this.capitalShipMeshes.get(eid);
-        if (mesh) {
+        if (mesh && hasComponent(sdctx.ctx.world, CapitalDestruction, eid)) {
+          // Coming apart - the wreck controller plays it out from here
+          this.wrecks.adopt(eid, mesh);
+          this.capitalShipMeshes.delete(eid);
+        } else if (mesh) {
           sdctx.explosions?.spawn(
             this.tmpExplosionPos.copy(mesh.position),
             0xff8844,
@@ -724,6 +790,8 @@ export class StarDestroyerScenario {
       }
     }
 
+    this.wrecks.sync(sdctx.ctx, sdctx.explosions);
+
     // Sync turrets
     for (const [tid, mesh] of this.turretMeshes) {
       if (!hasComponent(sdctx.ctx.world, Turret, tid)) {
@@ -795,6 +863,7 @@ export class StarDestroyerScenario {
       removeCapitalShipV2(sdctx.ctx.world, eid);
     }
     this.capitalShipEids = [];
+    this.wrecks.clear(sdctx.ctx);
 
     for (const mesh of this.capitalShipMeshes.values()) {
       sdctx.ctx.scene.remove(mesh);
@@ -819,6 +888,13 @@ export class StarDestroyerScenario {
       disposeObject(mesh);
     }
     this.turretProjectileMeshes.clear();
+
+    for (const [eid, mesh] of this.carrierMeshes) {
+      if (hasComponent(sdctx.ctx.world, Transform, eid)) removeEntity(sdctx.ctx.world, eid);
+      sdctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.carrierMeshes.clear();
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
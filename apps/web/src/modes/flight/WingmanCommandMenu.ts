@@ -0,0 +1,148 @@
+/**
+ * WingmanCommandMenu - Flight leader's order menu for AI wingmen
+ *
+ * Z opens the menu, 1-5 pick an order. Orders go to every living wingman
+ * through issueWingmanCommand and get called and acknowledged over the radio.
+ */
+
+import type { IWorld } from "bitecs";
+import {
+  Targeting,
+  WingmanCommand,
+  issueWingmanCommand,
+  type SpaceInputState
+} from "@xwingz/gameplay";
+import { RadioSpeaker, WINGMAN_RADIO, type RadioChatterSystem } from "./RadioChatterSystem";
+
+type OrderButton = "orderAttack" | "orderCover" | "orderFormUp" | "orderSubsystems" | "orderEscort";
+
+const ORDERS: ReadonlyArray<{
+  button: OrderButton;
+  command: WingmanCommand;
+  key: string;
+  label: string;
+  radio: { call: string; ack: string };
+}> = [
+  { button: "orderAttack", command: WingmanCommand.AttackTarget, key: "1", label: "ATTACK MY TARGET", radio: WINGMAN_RADIO.attack },
+  { button: "orderCover", command: WingmanCommand.CoverMe, key: "2", label: "COVER ME", radio: WINGMAN_RADIO.cover },
+  { button: "orderFormUp", command: WingmanCommand.FormUp, key: "3", label: "FORM UP", radio: WINGMAN_RADIO.formUp },
+  { button: "orderSubsystems", command: WingmanCommand.AttackSubsystems, key: "4", label: "ENGAGE SUBSYSTEMS", radio: WINGMAN_RADIO.subsystems },
+  { button: "orderEscort", command: WingmanCommand.Escort, key: "5", label: "RETURN TO ESCORT", radio: WINGMAN_RADIO.escort }
+];
+
+const MENU_STYLES = `
+.wingman-menu {
+  position: fixed;
+  bottom: 120px;
+  right: 20px;
+  font-family: 'Orbitron', 'Segoe UI', sans-serif;
+  font-size: 12px;
+  z-index: 100;
+  pointer-events: none;
+  background: linear-gradient(270deg, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0.5) 80%, transparent 100%);
+  border-right: 3px solid #ffaa44;
+  padding: 8px 12px 8px 40px;
+  color: #ccc;
+  text-align: right;
+}
+
+.wingman-menu.hidden {
+  display: none;
+}
+
+.wingman-menu-title {
+  color: #ffaa44;
+  font-weight: bold;
+  letter-spacing: 1px;
+  margin-bottom: 4px;
+}
+
+.wingman-menu-key {
+  color: #ffaa44;
+  margin-left: 8px;
+}
+`;
+
+export class WingmanCommandMenu {
+  private menuElement: HTMLDivElement;
+  private styleElement: HTMLStyleElement | null = null;
+  private open = false;
+
+  constructor(container: HTMLElement) {
+    if (!document.getElementById("wingman-menu-styles")) {
+      this.styleElement = document.createElement("style");
+      this.styleElement.id = "wingman-menu-styles";
+      this.styleElement.textContent = MENU_STYLES;
+      document.head.appendChild(this.styleElement);
+    }
+
+    this.menuElement = document.createElement("div");
+    this.menuElement.className = "wingman-menu hidden";
+
+    const title = document.createElement("div");
+    title.className = "wingman-menu-title";
+    title.textContent = "RED FLIGHT";
+    this.menuElement.appendChild(title);
+
+    for (const order of ORDERS) {
+      const item = document.createElement("div");
+      item.className = "wingman-menu-item";
+      item.textContent = order.label;
+      const key = document.createElement("span");
+      key.className = "wingman-menu-key";
+      key.textContent = `[${order.key}]`;
+      item.appendChild(key);
+      this.menuElement.appendChild(item);
+    }
+
+    container.appendChild(this.menuElement);
+  }
+
+  /**
+   * Per-tick update: toggle the menu and hand a picked order to `wingmen`.
+   * The leader's current target is what AttackTarget goes after.
+   */
+  tick(
+    world: IWorld,
+    input: SpaceInputState,
+    leaderEid: number | null,
+    wingmen: readonly number[],
+    radio: RadioChatterSystem | null
+  ): void {
+    if (input.commandMenu) this.setOpen(!this.open);
+    if (!this.open || leaderEid === null) return;
+
+    const order = ORDERS.find((o) => input[o.button]);
+    if (!order) return;
+    this.setOpen(false);
+
+    const targetEid = Targeting.targetEid[leaderEid] ?? -1;
+    const accepted = issueWingmanCommand(world, wingmen, order.command, leaderEid, targetEid);
+
+    radio?.say(order.radio.call, RadioSpeaker.PLAYER, 8);
+    if (wingmen.length === 0) return;
+    if (accepted > 0) {
+      radio?.wingmanSay(order.radio.ack, 8);
+    } else if (order.command === WingmanCommand.AttackTarget) {
+      radio?.wingmanSay(WINGMAN_RADIO.noTarget, 8);
+    } else if (order.command === WingmanCommand.AttackSubsystems) {
+      radio?.wingmanSay(WINGMAN_RADIO.noSubsystems, 8);
+    }
+  }
+
+  private setOpen(open: boolean): void {
+    this.open = open;
+    this.menuElement.classList.toggle("hidden", !open);
+  }
+
+  /**
+   * Clean up DOM elements
+   */
+  dispose(): void {
+    this.menuElement.remove();
+    if (this.styleElement) {
+      this.styleElement.remove();
+      this.styleElement = null;
+    }
+  }
+}
@@ -28,7 +28,10 @@ import {
   type ObjectiveEvent,
   ObjectiveStatus,
   ObjectiveEventType,
-  createDefaultObjectiveContext
+  createDefaultObjectiveContext,
+  isInLandingRange,
+  type MissionResult,
+  type SpaceInputState
 } from "@xwingz/gameplay";
 import type { SystemDef } from "@xwingz/procgen";
 import type { ModeContext } from "../types";
@@ -45,7 +48,8 @@ import {
   updatePlayerHudValues,
   updateSystemInfo,
   updateTargetBracket,
-  clearTargetBracket
+  clearTargetBracket,
+  createMissionResult
 } from "./FlightShared";
 import { ObjectiveHud } from "./ObjectiveHud";
 import {
@@ -56,7 +60,8 @@ import {
   missionCompleteAnnouncement,
   missionFailedAnnouncement
 } from "./AnnouncementSystem";
-import { RadioChatterSystem, RadioSpeaker, YAVIN_RADIO } from "./RadioChatterSystem";
+import { RadioChatterSystem, RadioSpeaker, WINGMAN_RADIO, YAVIN_RADIO } from "./RadioChatterSystem";
+import { WingmanCommandMenu } from "./WingmanCommandMenu";
 
 // Extracted submodules
 import {
@@ -91,6 +96,12 @@ export interface YavinContext {
   explosions: ExplosionManager | null;
   assetLoader: AssetLoader;
   assetsReady: boolean;
+  /** This tick's flight input, for the wingman command menu */
+  input: SpaceInputState;
+  /** Shooter of each ship killed this tick, by victim eid */
+  killCredits: ReadonlyMap<number, number>;
+  /** Co-op: living pilot ships in slot order; mission logic follows the first */
+  pilotEids?: number[];
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -118,6 +129,7 @@ export class YavinDefenseScenario {
   private currentWave = 0;
   private waveEnemyTypes = new Map<number, string>();
   private missionTime = 0;
+  private missionResult: MissionResult | null = null;
 
   // Objective system
   private objectiveTracker: ObjectiveTracker | null = null;
@@ -125,10 +137,10 @@ export class YavinDefenseScenario {
   private objectiveHud: ObjectiveHud | null = null;
   private announcements: AnnouncementSystem | null = null;
   private radioChatter: RadioChatterSystem | null = null;
+  private wingmanMenu: WingmanCommandMenu | null = null;
 
   // Landing
   private canLandNow = false;
-  private readonly LANDING_ALTITUDE = 150;
 
   // Targeting state
   private lockState: TargetBracketState = { lockValue: 0, lockTargetEid: -1 };
@@ -136,6 +148,7 @@ export class YavinDefenseScenario {
   enter(yctx: YavinContext): void {
     this.lockState = { lockValue: 0, lockTargetEid: -1 };
     this.missionTime = 0;
+    this.missionResult = null;
     this.currentWave = 0;
     this.waveEnemyTypes.clear();
 
@@ -149,6 +162,8 @@ export class YavinDefenseScenario {
     this.objectiveHud = new ObjectiveHud(hudContainer);
     this.announcements = new AnnouncementSystem(hudContainer);
     this.radioChatter = new RadioChatterSystem(hudContainer);
+    // Orders come from this client's input alone, so co-op wingmen stay on escort
+    this.wingmanMenu = yctx.pilotEids ? null : new WingmanCommandMenu(hudContainer);
 
     // Build terrain using extracted module
     this.terrainResult = buildYavinTerrain(yctx.ctx.scene, yctx.currentSystem.seed);
@@ -182,12 +197,17 @@ export class YavinDefenseScenario {
     const syncResult = syncTargets(yctx.ctx, yctx.ctx.scene, yctx.targetMeshes, yctx.explosions);
 
     // Handle kills - track for objectives
-    if (syncResult.killedCount > 0 && yctx.shipEid !== null) {
+    const leadEid = this.leadShip(yctx);
+    if (syncResult.killedCount > 0 && leadEid !== null) {
       for (const killedEid of syncResult.killedEids) {
         const enemyType = this.waveEnemyTypes.get(killedEid) ?? "tie_fighter";
         const wave = this.currentWave;
-        this.killTracker?.recordKill(enemyType, wave);
+        const byWingman = this.allyState.allyEids.includes(yctx.killCredits.get(killedEid) ?? -1);
+        this.killTracker?.recordKill(enemyType, wave, byWingman);
         this.waveEnemyTypes.delete(killedEid);
+        if (byWingman && (this.killTracker?.getWingmanKills() ?? 0) % 3 === 0) {
+          this.radioChatter?.wingmanSay(WINGMAN_RADIO.kill, 3);
+        }
       }
 
       this.yavin.enemiesKilled += syncResult.killedCount;
@@ -196,9 +216,9 @@ export class YavinDefenseScenario {
     }
 
     // Check player shield for kill streak
-    if (yctx.shipEid !== null && this.killTracker) {
-      const shieldPercent = hasComponent(yctx.ctx.world, Shield, yctx.shipEid)
-        ? ((Shield.sp[yctx.shipEid] ?? 0) / (Shield.maxSp[yctx.shipEid] ?? 1)) * 100
+    if (leadEid !== null && this.killTracker) {
+      const shieldPercent = hasComponent(yctx.ctx.world, Shield, leadEid)
+        ? ((Shield.sp[leadEid] ?? 0) / (Shield.maxSp[leadEid] ?? 1)) * 100
         : 100;
       this.killTracker.checkShieldForStreak(shieldPercent);
     }
@@ -209,6 +229,7 @@ export class YavinDefenseScenario {
 
     // Sync allies using extracted module
     syncAllies(yctx.ctx.world, yctx.ctx.scene, this.allyState, yctx.explosions);
+    this.wingmanMenu?.tick(yctx.ctx.world, yctx.input, leadEid, this.allyState.allyEids, this.radioChatter);
 
     // Build objective context and update tracker
     if (this.objectiveTracker && this.killTracker) {
@@ -221,8 +242,8 @@ export class YavinDefenseScenario {
     this.checkWaveTransitions(yctx);
 
     // Terrain clamping
-    if (yctx.shipEid !== null) {
-      this.clampEntityAboveTerrain(yctx.ctx, yctx.shipEid, 6);
+    for (const eid of yctx.pilotEids ?? (yctx.shipEid !== null ? [yctx.shipEid] : [])) {
+      this.clampEntityAboveTerrain(yctx.ctx, eid, 6);
     }
     for (const eid of this.allyState.allyEids) {
       this.clampEntityAboveTerrain(yctx.ctx, eid, 6);
@@ -245,12 +266,21 @@ export class YavinDefenseScenario {
       const altitude =
         (Transform.y[yctx.shipEid] ?? 0) -
         this.terrainHeight(Transform.x[yctx.shipEid] ?? 0, Transform.z[yctx.shipEid] ?? 0);
-      this.canLandNow = altitude < this.LANDING_ALTITUDE;
+      // Below the gate FlightMode can take over with the entry sequence
+      this.canLandNow = isInLandingRange(altitude);
     }
 
     return false;
   }
 
+  /**
+   * Ship the mission tracks: this client's own, or in co-op the lowest slot
+   * still flying, so every client scores the same ship.
+   */
+  private leadShip(yctx: YavinContext): number | null {
+    return yctx.pilotEids ? yctx.pilotEids[0] ?? null : yctx.shipEid;
+  }
+
   /**
    * Build ObjectiveContext from current game state
    */
@@ -268,10 +298,11 @@ export class YavinDefenseScenario {
     ctx.allies.started = 5;
 
     // Count allies near player
-    if (yctx.shipEid !== null) {
-      const px = Transform.x[yctx.shipEid] ?? 0;
-      const py = Transform.y[yctx.shipEid] ?? 0;
-      const pz = Transform.z[yctx.shipEid] ?? 0;
+    const leadEid = this.leadShip(yctx);
+    if (leadEid !== null) {
+      const px = Transform.x[leadEid] ?? 0;
+      const py = Transform.y[leadEid] ?? 0;
+      const pz = Transform.z[leadEid] ?? 0;
 
       let nearbyCount = 0;
       for (const allyEid of this.allyState.allyEids) {
@@ -288,9 +319,9 @@ export class YavinDefenseScenario {
       ctx.location.playerAltitude = py - this.terrainHeight(px, pz);
 
       // Player shield
-      if (hasComponent(yctx.ctx.world, Shield, yctx.shipEid)) {
+      if (hasComponent(yctx.ctx.world, Shield, leadEid)) {
         ctx.playerShieldPercent =
-          ((Shield.sp[yctx.shipEid] ?? 0) / (Shield.maxSp[yctx.shipEid] ?? 1)) * 100;
+          ((Shield.sp[leadEid] ?? 0) / (Shield.maxSp[leadEid] ?? 1)) * 100;
       }
     }
 
@@ -511,9 +542,11 @@ export class YavinDefenseScenario {
     this.objectiveHud?.dispose();
     this.announcements?.dispose();
     this.radioChatter?.dispose();
+    this.wingmanMenu?.dispose();
     this.objectiveHud = null;
     this.announcements = null;
     this.radioChatter = null;
+    this.wingmanMenu = null;
     this.objectiveTracker = null;
     this.killTracker = null;
     this.waveEnemyTypes.clear();
@@ -528,6 +561,24 @@ export class YavinDefenseScenario {
     return this.yavin;
   }
 
+  /**
+   * How the defense ended, for the debrief (null while it is still on)
+   */
+  getMissionResult(): MissionResult | null {
+    const y = this.yavin;
+    if (!y || (y.phase !== "success" && y.phase !== "fail")) return null;
+    this.missionResult ??= createMissionResult(
+      "yavin_defense",
+      "Defense of Yavin 4",
+      y.phase === "success",
+      this.missionTime,
+      this.objectiveTracker,
+      this.killTracker,
+      y.phase === "success" ? y.rewardCredits : 0
+    );
+    return this.missionResult;
+  }
+
   getAllyCount(): number {
     return getAllyCount(this.allyState);
   }
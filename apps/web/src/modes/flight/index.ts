@@ -7,3 +7,7 @@ export * from "./FlightShared";
 export { SandboxScenario, type SandboxContext } from "./SandboxScenario";
 export { YavinDefenseScenario, type YavinContext } from "./YavinDefenseScenario";
 export { StarDestroyerScenario, type StarDestroyerContext } from "./StarDestroyerScenario";
+export { CoruscantBattleScenario, type CoruscantContext } from "./CoruscantBattleScenario";
+export { HothSpeederScenario, type HothSpeederContext } from "./HothSpeederScenario";
+export { ConquestBattleScenario, type ConquestBattleContext } from "./ConquestBattleScenario";
+export { ScriptedFlightScenario, type ScriptedFlightContext } from "./ScriptedFlightScenario";
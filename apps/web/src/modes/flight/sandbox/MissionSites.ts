@@ -0,0 +1,290 @@
+/**
+ * MissionSites - World presence for procgen mission sites
+ *
+ * Handles:
+ * - Friendly station / convoy entities (raiders target them, the player can't)
+ * - Hostile relays and emplacements the player must destroy
+ * - Waypoint rings for nav buoys, wrecks, drop points, ruins and jump points
+ * - Convoy movement toward its destination
+ * - Filling the ObjectiveContext fields the mission objectives read
+ */
+
+import * as THREE from "three";
+import { addComponent, addEntity, hasComponent, removeEntity, type IWorld } from "bitecs";
+import type { MissionDef, MissionSite } from "@xwingz/procgen";
+import { createProceduralShip } from "@xwingz/render";
+import {
+  CONVOY_ARRIVAL_LOCATION,
+  Health,
+  HitRadius,
+  Targetable,
+  Team,
+  Transform,
+  Velocity,
+  type ObjectiveContext
+} from "@xwingz/gameplay";
+import { buildSubsystemMesh, SubsystemType } from "../FlightShared";
+import { disposeObject } from "../../../rendering/MeshManager";
+import type { ExplosionManager } from "../../../rendering/effects";
+
+type SiteRuntime = {
+  site: MissionSite;
+  /** ECS entity for sites with hp, null for waypoints */
+  eid: number | null;
+  mesh: THREE.Object3D;
+  maxHp: number;
+  destroyed: boolean;
+  arrived: boolean;
+};
+
+export interface MissionSiteState {
+  sites: SiteRuntime[];
+}
+
+const WAYPOINT_COLORS: Partial<Record<MissionSite["kind"], number>> = {
+  nav_buoy: 0x66ccff,
+  wreck: 0xffaa44,
+  drop_point: 0x44ff88,
+  ruin: 0xcc88ff,
+  jump_point: 0xffffff
+};
+
+const tmpPos = new THREE.Vector3();
+const tmpDir = new THREE.Vector3();
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+/**
+ * Initialize site state
+ */
+export function createMissionSiteState(): MissionSiteState {
+  return { sites: [] };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Spawning
+// ─────────────────────────────────────────────────────────────────────────────
+
+function buildWaypointMesh(site: MissionSite): THREE.Object3D {
+  const color = WAYPOINT_COLORS[site.kind] ?? 0xffffff;
+  // Torus lies in the XY plane, so rings face the arrival point like gates
+  return new THREE.Mesh(
+    new THREE.TorusGeometry(site.radius, Math.max(1, site.radius * 0.02), 8, 48),
+    new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.35, depthWrite: false })
+  );
+}
+
+function buildSiteMesh(site: MissionSite): THREE.Object3D {
+  switch (site.kind) {
+    case "station":
+      return createProceduralShip({ type: "nebulon_b", scale: 4, enableShadows: true });
+    case "convoy":
+      return createProceduralShip({ type: "transport", scale: 4, enableShadows: true });
+    case "relay":
+    case "emplacement": {
+      const mesh = buildSubsystemMesh(site.kind === "relay" ? SubsystemType.Targeting : SubsystemType.Power);
+      mesh.scale.setScalar(site.radius / 2.5);
+      return mesh;
+    }
+    default:
+      return buildWaypointMesh(site);
+  }
+}
+
+function spawnSiteEntity(world: IWorld, site: MissionSite): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+
+  Transform.x[eid] = site.position[0];
+  Transform.y[eid] = site.position[1];
+  Transform.z[eid] = site.position[2];
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  Velocity.vx[eid] = 0;
+  Velocity.vy[eid] = 0;
+  Velocity.vz[eid] = 0;
+
+  const hostile = site.kind === "relay" || site.kind === "emplacement";
+  Team.id[eid] = hostile ? 1 : 0;
+  Health.hp[eid] = site.hp;
+  Health.maxHp[eid] = site.hp;
+  HitRadius.r[eid] = site.radius;
+
+  // Hostile structures show up in the player's target cycle
+  if (hostile) addComponent(world, Targetable, eid);
+  return eid;
+}
+
+/**
+ * Spawn every site of a mission. Clears any sites from a previous mission.
+ */
+export function spawnMissionSites(
+  world: IWorld,
+  scene: THREE.Scene,
+  state: MissionSiteState,
+  mission: MissionDef
+): void {
+  clearMissionSites(world, scene, state);
+
+  for (const site of mission.sites) {
+    const mesh = buildSiteMesh(site);
+    mesh.position.set(site.position[0], site.position[1], site.position[2]);
+    scene.add(mesh);
+
+    state.sites.push({
+      site,
+      eid: site.hp > 0 ? spawnSiteEntity(world, site) : null,
+      mesh,
+      maxHp: site.hp,
+      destroyed: false,
+      arrived: false
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-frame
+// ─────────────────────────────────────────────────────────────────────────────
+
+function findSite(state: MissionSiteState, id: string | undefined): SiteRuntime | undefined {
+  return id ? state.sites.find((s) => s.site.id === id) : undefined;
+}
+
+function moveConvoy(state: MissionSiteState, convoy: SiteRuntime, eid: number, dt: number): void {
+  const destination = findSite(state, convoy.site.destination);
+  if (!destination || convoy.arrived) return;
+
+  tmpPos.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+  tmpDir.copy(destination.mesh.position).sub(tmpPos);
+  const distance = tmpDir.length();
+  const speed = convoy.site.speed ?? 40;
+
+  if (distance <= speed * dt) {
+    convoy.arrived = true;
+    Velocity.vx[eid] = 0;
+    Velocity.vy[eid] = 0;
+    Velocity.vz[eid] = 0;
+    return;
+  }
+
+  tmpDir.multiplyScalar(1 / distance);
+  Velocity.vx[eid] = tmpDir.x * speed;
+  Velocity.vy[eid] = tmpDir.y * speed;
+  Velocity.vz[eid] = tmpDir.z * speed;
+  Transform.x[eid] = tmpPos.x + tmpDir.x * speed * dt;
+  Transform.y[eid] = tmpPos.y + tmpDir.y * speed * dt;
+  Transform.z[eid] = tmpPos.z + tmpDir.z * speed * dt;
+
+  const q = convoy.mesh.quaternion.setFromUnitVectors(FORWARD, tmpDir);
+  Transform.qx[eid] = q.x;
+  Transform.qy[eid] = q.y;
+  Transform.qz[eid] = q.z;
+  Transform.qw[eid] = q.w;
+}
+
+/**
+ * Move the convoy, sync meshes and detect destroyed sites
+ */
+export function syncMissionSites(
+  world: IWorld,
+  scene: THREE.Scene,
+  state: MissionSiteState,
+  explosions: ExplosionManager | null,
+  dt: number
+): void {
+  for (const rt of state.sites) {
+    if (rt.eid === null || rt.destroyed) continue;
+    const eid = rt.eid;
+
+    // projectileSystem removes entities whose hp reaches zero
+    if (!hasComponent(world, Health, eid) || (Health.hp[eid] ?? 0) <= 0) {
+      rt.destroyed = true;
+      explosions?.spawn(tmpPos.copy(rt.mesh.position), 0xff8844, 1.2, rt.site.radius * 0.8);
+      scene.remove(rt.mesh);
+      disposeObject(rt.mesh);
+      if (hasComponent(world, Transform, eid)) removeEntity(world, eid);
+      continue;
+    }
+
+    if (rt.site.kind === "convoy") moveConvoy(state, rt, eid, dt);
+    rt.mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+  }
+}
+
+/**
+ * Fill the context fields read by createMissionObjectives()
+ */
+export function applyMissionSiteContext(
+  state: MissionSiteState,
+  player: THREE.Vector3 | null,
+  context: ObjectiveContext
+): void {
+  for (const rt of state.sites) {
+    const site = rt.site;
+
+    if (player) {
+      context.location.locationDistances.set(site.id, player.distanceTo(rt.mesh.position));
+    }
+
+    switch (site.kind) {
+      case "station": {
+        const hp = rt.destroyed || rt.eid === null ? 0 : (Health.hp[rt.eid] ?? 0);
+        context.entities.baseHealth = hp;
+        context.entities.baseHealthPercent = rt.maxHp > 0 ? (hp / rt.maxHp) * 100 : 0;
+        break;
+      }
+      case "convoy": {
+        const hp = rt.destroyed || rt.eid === null ? 0 : (Health.hp[rt.eid] ?? 0);
+        context.escort.escortAlive = !rt.destroyed;
+        context.escort.escortHealth = hp;
+        context.escort.escortMaxHealth = rt.maxHp;
+        context.escort.escortDamageTaken = rt.maxHp - hp;
+        if (player) context.escort.distanceToEscort = player.distanceTo(rt.mesh.position);
+
+        const destination = findSite(state, site.destination);
+        if (destination && !rt.destroyed) {
+          context.location.locationDistances.set(
+            CONVOY_ARRIVAL_LOCATION,
+            rt.mesh.position.distanceTo(destination.mesh.position)
+          );
+        }
+        break;
+      }
+      case "relay":
+      case "emplacement":
+        if (rt.destroyed) {
+          context.entities.subsystemsDestroyed += 1;
+          context.entities.destroyedSubsystemTypes.push(site.kind);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Position of a site, for dwell checks and HUD waypoints
+ */
+export function getMissionSitePosition(state: MissionSiteState, id: string): THREE.Vector3 | null {
+  return findSite(state, id)?.mesh.position ?? null;
+}
+
+/**
+ * Remove all site entities and meshes
+ */
+export function clearMissionSites(world: IWorld, scene: THREE.Scene, state: MissionSiteState): void {
+  for (const rt of state.sites) {
+    if (rt.eid !== null && !rt.destroyed && hasComponent(world, Transform, rt.eid)) {
+      removeEntity(world, rt.eid);
+    }
+    if (!rt.destroyed) {
+      scene.remove(rt.mesh);
+      disposeObject(rt.mesh);
+    }
+  }
+  state.sites.length = 0;
+}
@@ -0,0 +1,93 @@
+/**
+ * PlanetBackdrop - Distant planet bodies for procgen systems
+ *
+ * Handles:
+ * - One textured sphere per generated planet, styled by its archetype
+ * - Atmosphere shells tinted from the planet palette
+ * - Seeded placement so a system looks the same on every visit
+ */
+
+import * as THREE from "three";
+import { createRng, deriveSeed, type PlanetBodyDef } from "@xwingz/procgen";
+import { getPlanetTexture } from "@xwingz/render";
+
+// Bodies sit well outside the combat space; scale is for looks, not km
+const BASE_DISTANCE = 9000;
+const ORBIT_SPACING = 3500;
+const KM_TO_UNITS = 0.12;
+const MIN_RADIUS = 250;
+const MAX_RADIUS = 2200;
+
+const ATMOSPHERE_OPACITY: Record<PlanetBodyDef["atmosphere"], number> = {
+  none: 0,
+  thin: 0.12,
+  breathable: 0.2,
+  dense: 0.3,
+  toxic: 0.28,
+  corrosive: 0.32
+};
+
+export function createPlanetBackdrop(planets: PlanetBodyDef[]): THREE.Group {
+  const group = new THREE.Group();
+  group.name = "planet-backdrop";
+
+  for (const planet of planets) {
+    const rng = createRng(deriveSeed(planet.seed, "backdrop"));
+    const radius = THREE.MathUtils.clamp(planet.radiusKm * KM_TO_UNITS, MIN_RADIUS, MAX_RADIUS);
+    const distance = BASE_DISTANCE + planet.orbitIndex * ORBIT_SPACING;
+    const azimuth = rng.range(0, Math.PI * 2);
+    const elevation = rng.range(-0.35, 0.35);
+
+    const body = new THREE.Group();
+    body.name = planet.id;
+    body.position.set(
+      Math.cos(azimuth) * Math.cos(elevation) * distance,
+      Math.sin(elevation) * distance,
+      Math.sin(azimuth) * Math.cos(elevation) * distance
+    );
+
+    const texture = getPlanetTexture(planet.style, planet.id, 256);
+    const surface = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 48, 48),
+      new THREE.MeshStandardMaterial({
+        map: texture,
+        color: new THREE.Color(planet.palette.ground).lerp(new THREE.Color(0xffffff), 0.6),
+        roughness: 0.9,
+        metalness: 0.05
+      })
+    );
+    surface.rotation.y = rng.range(0, Math.PI * 2);
+    body.add(surface);
+
+    const opacity = ATMOSPHERE_OPACITY[planet.atmosphere];
+    if (opacity > 0) {
+      const shell = new THREE.Mesh(
+        new THREE.SphereGeometry(radius * 1.04, 32, 32),
+        new THREE.MeshBasicMaterial({
+          color: planet.palette.highlight,
+          transparent: true,
+          opacity,
+          side: THREE.BackSide,
+          depthWrite: false
+        })
+      );
+      body.add(shell);
+    }
+
+    group.add(body);
+  }
+
+  return group;
+}
+
+export function disposePlanetBackdrop(scene: THREE.Scene, backdrop: THREE.Group | null): void {
+  if (!backdrop) return;
+  scene.remove(backdrop);
+  // Textures belong to the shared planet texture cache, so only drop geometry/materials
+  backdrop.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Sandbox Scenario submodules
+ */
+
+export {
+  createMissionSiteState,
+  spawnMissionSites,
+  syncMissionSites,
+  applyMissionSiteContext,
+  getMissionSitePosition,
+  clearMissionSites,
+  type MissionSiteState
+} from "./MissionSites";
+
+export { createPlanetBackdrop, disposePlanetBackdrop } from "./PlanetBackdrop";
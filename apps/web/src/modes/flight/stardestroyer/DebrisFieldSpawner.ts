@@ -6,9 +6,12 @@
  * - Flanking debris (defines combat arena)
  * - Close debris (near destroyer)
  * - Procedural fallback asteroids
+ * - Collision obstacles for the debris
  */
 
 import * as THREE from "three";
+import { removeEntity, type IWorld } from "bitecs";
+import { spawnObstacle } from "@xwingz/gameplay";
 import { createRng, deriveSeed } from "@xwingz/procgen";
 import { AssetLoader, KENNEY_ASSETS } from "@xwingz/render";
 import { disposeObject } from "../../../rendering/MeshManager";
@@ -165,3 +168,28 @@ export function clearDebrisField(scene: THREE.Scene, debris: THREE.Object3D[]):
     disposeObject(d);
   }
 }
+
+/**
+ * Give each piece of debris a collision sphere, so fighters can't fly
+ * through it and the AI steers around it
+ */
+export function spawnDebrisObstacles(world: IWorld, debris: THREE.Object3D[]): number[] {
+  const box = new THREE.Box3();
+  const size = new THREE.Vector3();
+  const center = new THREE.Vector3();
+
+  return debris.map((d) => {
+    box.setFromObject(d);
+    box.getSize(size);
+    box.getCenter(center);
+    // Rocks are lumpy: the mean half-extent hugs them better than a bounding sphere
+    return spawnObstacle(world, center.x, center.y, center.z, (size.x + size.y + size.z) / 6);
+  });
+}
+
+/**
+ * Remove the debris collision obstacles
+ */
+export function clearDebrisObstacles(world: IWorld, eids: number[]): void {
+  for (const eid of eids) removeEntity(world, eid);
+}
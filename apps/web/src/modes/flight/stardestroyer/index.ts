@@ -8,7 +8,9 @@ export { STAR_DESTROYER_OBJECTIVES } from "./StarDestroyerObjectives";
 
 export {
   spawnDebrisField,
-  clearDebrisField
+  clearDebrisField,
+  spawnDebrisObstacles,
+  clearDebrisObstacles
 } from "./DebrisFieldSpawner";
 
 export {
@@ -22,6 +24,5 @@ export {
 
 export {
   spawnTIEFighterScreen,
-  spawnTIEInterceptorWave,
   type TIESpawnResult
 } from "./TIEInterceptorSpawner";
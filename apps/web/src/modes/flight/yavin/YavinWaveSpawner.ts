@@ -14,6 +14,7 @@ import {
   AIControlled,
   AngularVelocity,
   FighterBrain,
+  FormationShape,
   Health,
   HitRadius,
   LaserWeapon,
@@ -22,7 +23,9 @@ import {
   Targetable,
   Team,
   Transform,
-  Velocity
+  Velocity,
+  arrangeFormation,
+  formSquadrons
 } from "@xwingz/gameplay";
 import { buildEnemyMesh } from "../FlightShared";
 
@@ -125,6 +128,11 @@ export function spawnWave1TieRaid(
     result.meshes.set(eid, mesh);
   }
 
+  // Squadrons of four: wedge inbound, pincer once they find a fight
+  for (const sq of formSquadrons(world, result.eids, FormationShape.Wedge, { pincer: true })) {
+    arrangeFormation(world, sq);
+  }
+
   return result;
 }
 
@@ -214,6 +222,11 @@ export function spawnWave2Bombers(
     result.meshes.set(eid, mesh);
   }
 
+  // Bombers hold a tight wedge on the run in and stay on the base
+  for (const sq of formSquadrons(world, result.eids, FormationShape.Wedge, { spacing: 60 })) {
+    arrangeFormation(world, sq);
+  }
+
   return result;
 }
 
@@ -308,5 +321,10 @@ export function spawnWave3FinalAssault(
     result.meshes.set(eid, mesh);
   }
 
+  // Fighters as one pincer squadron, interceptors as a pair
+  for (const sq of formSquadrons(world, result.eids, FormationShape.Wedge, { pincer: true })) {
+    arrangeFormation(world, sq);
+  }
+
   return result;
 }
@@ -0,0 +1,236 @@
+/**
+ * ConquestGroundScenario - Ground assault launched from Galactic Conquest
+ *
+ * Both sides are seeded from the strategic ground forces (PlayerBattleSetup):
+ * the player fights alongside allied AI troopers against the enemy's troopers
+ * and AT-STs. GroundMode ends the battle when the player falls (defeat) or
+ * every enemy trooper is down (victory), then reports the losses back.
+ */
+
+import * as THREE from "three";
+import { removeEntity, hasComponent, type IWorld } from "bitecs";
+import {
+  spawnSoldier,
+  spawnATST,
+  createSquad,
+  addSquadMember,
+  emptyBattleUnits,
+  Transform,
+  Health,
+  GroundInput,
+  type PlayerBattleReport,
+  type PlayerBattleSetup
+} from "@xwingz/gameplay";
+import { deriveSeed } from "@xwingz/procgen";
+import { disposeObject } from "../../rendering/MeshManager";
+import { GroundTerrain } from "./GroundTerrain";
+import type {
+  GroundContext,
+  GroundHudElements,
+  GroundScenarioHandler
+} from "./GroundScenarioTypes";
+
+// Enemy troopers per squad (one of them the officer)
+const ENEMY_SQUAD_SIZE = 4;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conquest Ground Scenario Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ConquestGroundScenario implements GroundScenarioHandler {
+  private missionMessage = "DEFEAT THE ENEMY GARRISON";
+
+  // Everything fielded, so losses can be counted when the battle ends
+  private playerEid = -1;
+  private allyEids: number[] = [];
+  private allyMeshes = new Map<number, THREE.Object3D>();
+  private enemyTrooperEids: number[] = [];
+  private enemyVehicleEids: number[] = [];
+
+  private readonly setup: PlayerBattleSetup;
+
+  constructor(setup: PlayerBattleSetup) {
+    this.setup = setup;
+  }
+
+  enter(gctx: GroundContext): void {
+    // The contested planet's terrain
+    gctx.terrain = new GroundTerrain(gctx.ctx.scene, gctx.physicsWorld, gctx.planetTerrain);
+    gctx.terrain.update(0, 0);
+
+    // Player (one of the fielded troopers) with allies in a line behind
+    const heightAt = gctx.planetTerrain.heightAt;
+    gctx.playerEid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, 0, heightAt(0, 0) + 1, 0, 0, 0, false);
+    this.playerEid = gctx.playerEid;
+    this.spawnAllies(gctx, Math.max(0, this.setup.player.units.infantry - 1));
+
+    this.spawnEnemies(gctx, this.setup.enemy.units.infantry, this.setup.enemy.units.vehicles);
+  }
+
+  tick(gctx: GroundContext, _dt: number): boolean {
+    this.syncAllies(gctx);
+    // GroundMode ends conquest battles itself
+    return false;
+  }
+
+  updateHud(gctx: GroundContext, els: GroundHudElements): void {
+    els.mission.textContent =
+      `${this.missionMessage}  HOSTILES ${gctx.enemyEids.length}  ALLIES ${this.allyEids.length}`;
+  }
+
+  getMissionMessage(): string {
+    return this.missionMessage;
+  }
+
+  getMissionNumber(): number {
+    return 0;
+  }
+
+  canTransition(): "speeder" | "launch" | null {
+    return null;
+  }
+
+  exit(gctx: GroundContext): void {
+    for (const eid of this.allyEids) {
+      if (hasComponent(gctx.ctx.world, Transform, eid)) removeEntity(gctx.ctx.world, eid);
+    }
+    for (const mesh of this.allyMeshes.values()) {
+      gctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.allyEids = [];
+    this.allyMeshes.clear();
+
+    gctx.terrain?.dispose();
+    gctx.terrain = null;
+  }
+
+  /**
+   * What each side lost, for resolvePlayerBattle. Walkers the player's force
+   * brought stay in reserve and are never lost here.
+   */
+  buildReport(world: IWorld, playerWon: boolean): PlayerBattleReport {
+    const playerLosses = emptyBattleUnits();
+    const enemyLosses = emptyBattleUnits();
+
+    const fielded = this.setup.player.units.infantry;
+    const alive = this.allyEids.length + (isAlive(world, this.playerEid) ? 1 : 0);
+    playerLosses.infantry = Math.max(0, fielded - alive);
+
+    enemyLosses.infantry = this.enemyTrooperEids.filter((eid) => !isAlive(world, eid)).length;
+    enemyLosses.vehicles = this.enemyVehicleEids.filter((eid) => !isAlive(world, eid)).length;
+
+    return { playerWon, playerLosses, enemyLosses };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Entity Spawning
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private spawnAllies(gctx: GroundContext, count: number): void {
+    // The allies are the player's squad and take the player's orders
+    const squad = createSquad(gctx.ctx.world, 0, this.playerEid);
+
+    for (let i = 0; i < count; i++) {
+      const side = i % 2 === 0 ? -1 : 1;
+      const x = side * (Math.floor(i / 2) + 1) * 3;
+      const z = 4 + (i % 3) * 2;
+
+      const y = gctx.planetTerrain.heightAt(x, z) + 1;
+      const eid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, x, y, z, 0, 0, true, deriveSeed(gctx.seed, "ally", i));
+      addSquadMember(gctx.ctx.world, squad, eid);
+      const mesh = this.buildAllyMesh();
+      mesh.position.set(x, y, z);
+      gctx.ctx.scene.add(mesh);
+      this.allyMeshes.set(eid, mesh);
+      this.allyEids.push(eid);
+    }
+  }
+
+  private spawnEnemies(gctx: GroundContext, troopers: number, walkers: number): void {
+    this.enemyTrooperEids = [];
+    this.enemyVehicleEids = [];
+
+    // Garrison dug in across the far side of the field, in squads each
+    // led by an officer
+    let squad = -1;
+    for (let i = 0; i < troopers; i++) {
+      const x = (i - (troopers - 1) / 2) * 5;
+      const z = -40 - (i % 3) * 4;
+      const y = gctx.planetTerrain.heightAt(x, z) + 1;
+      const isOfficer = i % ENEMY_SQUAD_SIZE === 0;
+      const eid = spawnSoldier(
+        gctx.ctx.world, gctx.physicsWorld, x, y, z, 1, isOfficer ? 3 : 0, true,
+        deriveSeed(gctx.seed, "enemy", i)
+      );
+      if (isOfficer) squad = createSquad(gctx.ctx.world, 1, eid);
+      addSquadMember(gctx.ctx.world, squad, eid);
+      gctx.enemyEids.push(eid);
+      this.enemyTrooperEids.push(eid);
+    }
+
+    for (let i = 0; i < walkers; i++) {
+      const x = (i - (walkers - 1) / 2) * 20;
+      const eid = spawnATST(gctx.ctx.world, x, gctx.planetTerrain.heightAt(x, -60) + 3, -60, 1);
+      gctx.vehicleEids.push(eid);
+      this.enemyVehicleEids.push(eid);
+    }
+  }
+
+  private buildAllyMesh(): THREE.Object3D {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(
+      new THREE.CapsuleGeometry(0.35, 1.1, 8, 16),
+      new THREE.MeshStandardMaterial({ color: 0x4477aa, roughness: 0.7 })
+    );
+    body.position.y = 0.9;
+    body.castShadow = true;
+    group.add(body);
+
+    const head = new THREE.Mesh(
+      new THREE.SphereGeometry(0.2, 12, 8),
+      new THREE.MeshStandardMaterial({ color: 0x88aacc, roughness: 0.6 })
+    );
+    head.position.y = 1.65;
+    head.castShadow = true;
+    group.add(head);
+
+    return group;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Entity Syncing
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private syncAllies(gctx: GroundContext): void {
+    for (let i = this.allyEids.length - 1; i >= 0; i--) {
+      const eid = this.allyEids[i]!;
+      const mesh = this.allyMeshes.get(eid);
+
+      if (!isAlive(gctx.ctx.world, eid)) {
+        if (mesh) {
+          gctx.ctx.scene.remove(mesh);
+          disposeObject(mesh);
+          this.allyMeshes.delete(eid);
+        }
+        if (hasComponent(gctx.ctx.world, Transform, eid)) removeEntity(gctx.ctx.world, eid);
+        this.allyEids.splice(i, 1);
+        continue;
+      }
+
+      if (!mesh) continue;
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.rotation.y = GroundInput.aimYaw[eid] ?? 0;
+    }
+  }
+}
+
+function isAlive(world: IWorld, eid: number): boolean {
+  return (
+    eid >= 0 &&
+    hasComponent(world, Transform, eid) &&
+    hasComponent(world, Health, eid) &&
+    (Health.hp[eid] ?? 0) > 0
+  );
+}
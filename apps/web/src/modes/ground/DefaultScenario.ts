@@ -12,10 +12,13 @@ import {
   spawnCommandPost,
   spawnSpeederBike,
   spawnATST,
+  createSquad,
+  addSquadMember,
   Transform,
   Health
 } from "@xwingz/gameplay";
-import { createGroundPlane } from "@xwingz/physics";
+import { deriveSeed } from "@xwingz/procgen";
+import { GroundTerrain } from "./GroundTerrain";
 import type {
   GroundContext,
   GroundHudElements,
@@ -31,14 +34,12 @@ export class DefaultScenario implements GroundScenarioHandler {
   private missionMessage = "CAPTURE COMMAND POSTS";
 
   enter(gctx: GroundContext): void {
-    // Create physics ground plane
-    createGroundPlane(gctx.physicsWorld, 0);
-
-    // Build visual ground mesh
-    this.buildDefaultTerrain(gctx);
+    // Stream the planet's terrain (meshes + heightfield colliders)
+    gctx.terrain = new GroundTerrain(gctx.ctx.scene, gctx.physicsWorld, gctx.planetTerrain);
+    gctx.terrain.update(0, 0);
 
     // Spawn player at origin
-    this.spawnPlayer(gctx, 0, 1, 0);
+    this.spawnPlayer(gctx, 0, 0);
 
     // Spawn command posts
     this.spawnCommandPosts(gctx);
@@ -81,46 +82,17 @@ export class DefaultScenario implements GroundScenarioHandler {
   }
 
   exit(gctx: GroundContext): void {
-    // Clean up ground mesh
-    if (gctx.groundMesh) {
-      gctx.ctx.scene.remove(gctx.groundMesh);
-      gctx.groundMesh.geometry.dispose();
-      if (gctx.groundMesh.material instanceof THREE.Material) {
-        gctx.groundMesh.material.dispose();
-      }
-      gctx.groundMesh = null;
-    }
-  }
-
-  // ─────────────────────────────────────────────────────────────────────────────
-  // Terrain Building
-  // ─────────────────────────────────────────────────────────────────────────────
-
-  private buildDefaultTerrain(gctx: GroundContext): void {
-    // FIX: Add segments for better visual definition
-    const groundGeo = new THREE.PlaneGeometry(200, 200, 20, 20);
-    const groundMat = new THREE.MeshStandardMaterial({
-      color: 0x667744, // FIX: Brighter greenish-brown (was 0x556644)
-      roughness: 0.85,
-      metalness: 0.0
-    });
-    const ground = new THREE.Mesh(groundGeo, groundMat);
-    ground.rotation.x = -Math.PI / 2;
-    ground.receiveShadow = true;
-    ground.castShadow = false; // Ground doesn't cast shadows
-    gctx.ctx.scene.add(ground);
-    gctx.groundMesh = ground;
-
-    // FIX: Add grid helper for visual reference (removable later)
-    const gridHelper = new THREE.GridHelper(200, 20, 0x444444, 0x222222);
-    gctx.ctx.scene.add(gridHelper);
+    // Clean up terrain chunks and their colliders
+    gctx.terrain?.dispose();
+    gctx.terrain = null;
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
   // Entity Spawning
   // ─────────────────────────────────────────────────────────────────────────────
 
-  private spawnPlayer(gctx: GroundContext, x: number, y: number, z: number): void {
+  private spawnPlayer(gctx: GroundContext, x: number, z: number): void {
+    const y = gctx.planetTerrain.heightAt(x, z) + 1;
     gctx.playerEid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, x, y, z, 0, 0, false);
   }
 
@@ -132,7 +104,8 @@ export class DefaultScenario implements GroundScenarioHandler {
     ];
 
     for (const pos of cpPositions) {
-      const cpEid = spawnCommandPost(gctx.ctx.world, pos.x, 0, pos.z, pos.team, 10, 0.15);
+      const y = gctx.planetTerrain.heightAt(pos.x, pos.z);
+      const cpEid = spawnCommandPost(gctx.ctx.world, pos.x, y, pos.z, pos.team, 10, 0.15);
       gctx.commandPostEids.push(cpEid);
     }
   }
@@ -144,19 +117,29 @@ export class DefaultScenario implements GroundScenarioHandler {
       { x: -20, z: 0 },
     ];
 
-    for (const pos of enemyPositions) {
-      const enemyEid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, pos.x, 1, pos.z, 1, 0, true);
+    // One squad, led by the officer spawned first
+    let squad = -1;
+    for (const [i, pos] of enemyPositions.entries()) {
+      const y = gctx.planetTerrain.heightAt(pos.x, pos.z) + 1;
+      const enemyEid = spawnSoldier(
+        gctx.ctx.world, gctx.physicsWorld, pos.x, y, pos.z, 1, i === 0 ? 3 : 0, true,
+        deriveSeed(gctx.seed, "enemy", i)
+      );
+      if (i === 0) squad = createSquad(gctx.ctx.world, 1, enemyEid);
+      addSquadMember(gctx.ctx.world, squad, enemyEid);
       gctx.enemyEids.push(enemyEid);
     }
   }
 
   private spawnVehicles(gctx: GroundContext): void {
+    const heightAt = gctx.planetTerrain.heightAt;
+
     // Speeder bike (friendly) near player
-    const speederEid = spawnSpeederBike(gctx.ctx.world, 10, 0.5, 5, 0);
+    const speederEid = spawnSpeederBike(gctx.ctx.world, 10, heightAt(10, 5) + 0.5, 5, 0);
     gctx.vehicleEids.push(speederEid);
 
     // AT-ST (enemy) in the distance
-    const atstEid = spawnATST(gctx.ctx.world, -40, 3, -20, 1);
+    const atstEid = spawnATST(gctx.ctx.world, -40, heightAt(-40, -20) + 3, -20, 1);
     gctx.vehicleEids.push(atstEid);
   }
 
@@ -6,8 +6,10 @@
 
 import type * as THREE from "three";
 import type { PhysicsWorld } from "@xwingz/physics";
+import type { Terrain } from "@xwingz/procgen";
 import type { ModeContext } from "../types";
 import type { ExplosionManager } from "../../rendering/effects";
+import type { GroundTerrain } from "./GroundTerrain";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Ground Context - Shared state passed to scenario handlers
@@ -20,6 +22,9 @@ export interface GroundContext {
   // Physics
   physicsWorld: PhysicsWorld;
 
+  // Mission seed - derive all scenario randomness from it so replays match
+  seed: bigint;
+
   // Player state
   playerEid: number | null;
   playerMesh: THREE.Object3D | null;
@@ -40,6 +45,11 @@ export interface GroundContext {
 
   // Scene objects
   groundMesh: THREE.Mesh | null;
+
+  // Procedural terrain for this planet (seed and style), and the streamed
+  // meshes/colliders for it if the scenario builds them
+  planetTerrain: Terrain;
+  terrain: GroundTerrain | null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,258 @@
+/**
+ * GroundTerrain - Streams procedural heightfield terrain around the player
+ *
+ * Chunks come from @xwingz/procgen's terrain for the planet. Each chunk near
+ * the player gets a mesh at the LOD for its distance, and the closest ones
+ * also get a full-detail Rapier heightfield collider. Colliders are rebuilt
+ * as soon as the player changes chunk; meshes are built a few per frame,
+ * nearest first. Meshes carry a short skirt so LOD seams don't show gaps.
+ */
+
+import * as THREE from "three";
+import type { PlanetStyleId } from "@xwingz/data";
+import {
+  diffTerrainChunks,
+  terrainChunkCoord,
+  terrainChunkKey,
+  terrainChunksAround,
+  type Terrain,
+  type TerrainChunk,
+  type TerrainChunkRef
+} from "@xwingz/procgen";
+import { createHeightfield, removeStaticBody, type PhysicsWorld } from "@xwingz/physics";
+
+// Rings of chunks drawn around the player (fog hides the edge)
+const VIEW_RADIUS = 5;
+
+// Rings of chunks with colliders - wider than the fighting ever strays
+const COLLIDER_RADIUS = 2;
+
+// Chunk meshes built per update once the first view is up
+const MESH_BUILDS_PER_UPDATE = 4;
+
+// How far skirts hang below chunk edges (m)
+const SKIRT_DEPTH = 3;
+
+// Spacing of the height samples normals are taken from (m), the same at
+// every LOD so shading matches across LOD borders
+const NORMAL_SAMPLE_SPACING = 1;
+
+/** Ground and rock colours per planet style */
+const STYLE_COLORS: Record<PlanetStyleId, { ground: number; rock: number }> = {
+  desert: { ground: 0xd2b27a, rock: 0xa0764a },
+  ice: { ground: 0xe6eef8, rock: 0x8a9aac },
+  jungle: { ground: 0x667744, rock: 0x5a5040 },
+  volcanic: { ground: 0x3a3230, rock: 0x1e1a1a },
+  barren: { ground: 0x9a9288, rock: 0x6a645c },
+  mystic: { ground: 0x5c6a58, rock: 0x44404c },
+  ocean: { ground: 0xc8bc8c, rock: 0x6c7466 },
+  city: { ground: 0x77777a, rock: 0x5a5a60 },
+  gas: { ground: 0x8a7a66, rock: 0x5e5246 }
+};
+
+type ChunkMesh = { lod: number; mesh: THREE.Mesh };
+type ChunkCollider = { body: ReturnType<typeof createHeightfield>["body"] };
+
+export class GroundTerrain {
+  readonly terrain: Terrain;
+
+  private readonly scene: THREE.Scene;
+  private readonly physicsWorld: PhysicsWorld;
+  private readonly material: THREE.MeshStandardMaterial;
+  private readonly groundColor: THREE.Color;
+  private readonly rockColor: THREE.Color;
+
+  private meshes = new Map<string, ChunkMesh>();
+  private colliders = new Map<string, ChunkCollider>();
+  private pendingMeshes: TerrainChunkRef[] = [];
+  private centerKey: string | null = null;
+
+  constructor(scene: THREE.Scene, physicsWorld: PhysicsWorld, terrain: Terrain) {
+    this.scene = scene;
+    this.physicsWorld = physicsWorld;
+    this.terrain = terrain;
+
+    const colors = STYLE_COLORS[terrain.style];
+    this.groundColor = new THREE.Color(colors.ground);
+    this.rockColor = new THREE.Color(colors.rock);
+    this.material = new THREE.MeshStandardMaterial({
+      vertexColors: true,
+      roughness: 0.9,
+      metalness: 0.0
+    });
+  }
+
+  /** Terrain height at a point (bound, so it can be handed to systems) */
+  heightAt = (x: number, z: number): number => this.terrain.heightAt(x, z);
+
+  /**
+   * Stream chunks around (x, z). The first call builds the whole view so
+   * nothing pops in on arrival.
+   */
+  update(x: number, z: number): void {
+    const key = terrainChunkKey(...terrainChunkCoord(x, z));
+    const first = this.centerKey === null;
+
+    if (key !== this.centerKey) {
+      this.centerKey = key;
+      this.syncColliders(x, z);
+
+      const loaded = new Map([...this.meshes].map(([k, chunk]) => [k, chunk.lod]));
+      const { load, unload } = diffTerrainChunks(loaded, terrainChunksAround(x, z, VIEW_RADIUS));
+      for (const k of unload) this.removeMesh(k);
+      this.pendingMeshes = load;
+    }
+
+    const budget = first ? this.pendingMeshes.length : MESH_BUILDS_PER_UPDATE;
+    for (const ref of this.pendingMeshes.splice(0, budget)) {
+      this.removeMesh(ref.key);
+      const mesh = this.buildMesh(this.terrain.chunk(ref.cx, ref.cz, ref.lod));
+      this.scene.add(mesh);
+      this.meshes.set(ref.key, { lod: ref.lod, mesh });
+    }
+  }
+
+  dispose(): void {
+    for (const key of [...this.meshes.keys()]) this.removeMesh(key);
+    for (const { body } of this.colliders.values()) removeStaticBody(this.physicsWorld, body);
+    this.colliders.clear();
+    this.pendingMeshes = [];
+    this.centerKey = null;
+    this.material.dispose();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Colliders
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private syncColliders(x: number, z: number): void {
+    const wanted = terrainChunksAround(x, z, COLLIDER_RADIUS).map((ref) => ({ ...ref, lod: 0 }));
+    const loaded = new Map([...this.colliders.keys()].map((k): [string, number] => [k, 0]));
+    const { load, unload } = diffTerrainChunks(loaded, wanted);
+
+    for (const key of unload) {
+      removeStaticBody(this.physicsWorld, this.colliders.get(key)!.body);
+      this.colliders.delete(key);
+    }
+    for (const ref of load) {
+      const chunk = this.terrain.chunk(ref.cx, ref.cz, 0);
+      const half = chunk.size / 2;
+      const { body } = createHeightfield(
+        this.physicsWorld,
+        { x: chunk.originX + half, y: 0, z: chunk.originZ + half },
+        chunk.resolution,
+        chunk.heights,
+        chunk.size
+      );
+      this.colliders.set(ref.key, { body });
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Meshes
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private removeMesh(key: string): void {
+    const chunk = this.meshes.get(key);
+    if (!chunk) return;
+    this.scene.remove(chunk.mesh);
+    chunk.mesh.geometry.dispose();
+    this.meshes.delete(key);
+  }
+
+  private buildMesh(chunk: TerrainChunk): THREE.Mesh {
+    const verts = chunk.resolution + 1;
+    const step = chunk.size / chunk.resolution;
+    const gridCount = verts * verts;
+    const skirtCount = chunk.resolution * 4;
+    const positions = new Float32Array((gridCount + skirtCount) * 3);
+    const normals = new Float32Array((gridCount + skirtCount) * 3);
+    const colors = new Float32Array((gridCount + skirtCount) * 3);
+    const indices: number[] = [];
+    const color = new THREE.Color();
+
+    // Surface grid, in chunk-local coordinates. Normals come from the height
+    // function itself so they agree across chunk borders.
+    for (let j = 0; j < verts; j++) {
+      for (let i = 0; i < verts; i++) {
+        const v = j * verts + i;
+        const lx = i * step;
+        const lz = j * step;
+        const wx = chunk.originX + lx;
+        const wz = chunk.originZ + lz;
+
+        positions[v * 3] = lx;
+        positions[v * 3 + 1] = chunk.heights[v]!;
+        positions[v * 3 + 2] = lz;
+
+        const e = NORMAL_SAMPLE_SPACING;
+        const dx = (this.terrain.heightAt(wx + e, wz) - this.terrain.heightAt(wx - e, wz)) / (2 * e);
+        const dz = (this.terrain.heightAt(wx, wz + e) - this.terrain.heightAt(wx, wz - e)) / (2 * e);
+        const len = Math.sqrt(dx * dx + 1 + dz * dz);
+        normals[v * 3] = -dx / len;
+        normals[v * 3 + 1] = 1 / len;
+        normals[v * 3 + 2] = -dz / len;
+
+        // Bare rock shows through on steep ground
+        const steep = THREE.MathUtils.smoothstep(1 - 1 / len, 0.1, 0.35);
+        color.copy(this.groundColor).lerp(this.rockColor, steep);
+        colors[v * 3] = color.r;
+        colors[v * 3 + 1] = color.g;
+        colors[v * 3 + 2] = color.b;
+      }
+    }
+
+    for (let j = 0; j < chunk.resolution; j++) {
+      for (let i = 0; i < chunk.resolution; i++) {
+        const a = j * verts + i;
+        const b = a + verts;
+        const c = a + 1;
+        const d = b + 1;
+        indices.push(a, b, c, b, d, c);
+      }
+    }
+
+    // Skirt: drop each edge vertex straight down and stitch a strip to it,
+    // walking the border once around
+    const border: number[] = [];
+    for (let i = 0; i < chunk.resolution; i++) border.push(i);
+    for (let j = 0; j < chunk.resolution; j++) border.push(j * verts + chunk.resolution);
+    for (let i = chunk.resolution; i > 0; i--) border.push(chunk.resolution * verts + i);
+    for (let j = chunk.resolution; j > 0; j--) border.push(j * verts);
+
+    for (let k = 0; k < border.length; k++) {
+      const top = border[k]!;
+      const s = gridCount + k;
+      positions[s * 3] = positions[top * 3]!;
+      positions[s * 3 + 1] = positions[top * 3 + 1]! - SKIRT_DEPTH;
+      positions[s * 3 + 2] = positions[top * 3 + 2]!;
+      for (let c = 0; c < 3; c++) {
+        normals[s * 3 + c] = normals[top * 3 + c]!;
+        colors[s * 3 + c] = colors[top * 3 + c]!;
+      }
+    }
+    for (let k = 0; k < border.length; k++) {
+      const next = (k + 1) % border.length;
+      const t0 = border[k]!;
+      const t1 = border[next]!;
+      const s0 = gridCount + k;
+      const s1 = gridCount + next;
+      // Both windings - skirts are seen from either side
+      indices.push(t0, s0, t1, t1, s0, s1);
+      indices.push(t0, t1, s0, t1, s1, s0);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    geometry.setIndex(indices);
+    geometry.computeBoundingSphere();
+
+    const mesh = new THREE.Mesh(geometry, this.material);
+    mesh.position.set(chunk.originX, 0, chunk.originZ);
+    mesh.receiveShadow = true;
+    mesh.castShadow = false;
+    return mesh;
+  }
+}
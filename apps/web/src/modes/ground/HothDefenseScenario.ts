@@ -21,6 +21,8 @@
 import * as THREE from "three";
 import { addEntity, removeEntity, hasComponent, addComponent } from "bitecs";
 import { SeededRNG } from "@xwingz/core";
+import { deriveSeed } from "@xwingz/procgen";
+import { PLANETS, planetToSystem } from "@xwingz/data";
 import {
   spawnSoldier,
   Transform,
@@ -66,12 +68,13 @@ import {
   objectiveCompleteAnnouncement,
   objectiveFailedAnnouncement
 } from "../flight/AnnouncementSystem";
-import { createGroundPlane } from "@xwingz/physics";
+import { createGroundPlane, createStaticBox } from "@xwingz/physics";
 import type {
   GroundContext,
   GroundHudElements,
   GroundScenarioHandler
 } from "./GroundScenarioTypes";
+import type { HothSpeederRunResult } from "../types";
 import { disposeObject } from "../../rendering/MeshManager";
 import { ObjectiveHud } from "../flight/ObjectiveHud";
 import { AnnouncementSystem } from "../flight/AnnouncementSystem";
@@ -296,14 +299,19 @@ export class HothDefenseScenario implements GroundScenarioHandler {
   private message = "";
   private messageTimer = 0;
 
-  // RNG
-  private rng: SeededRNG;
+  // RNG (reseeded from the mission seed on enter)
+  private rng = new SeededRNG(0);
 
-  constructor() {
-    this.rng = new SeededRNG(Date.now());
+  // Outcome of the snowspeeder run when returning from FlightMode
+  private speederRun: HothSpeederRunResult | null;
+
+  constructor(speederRun: HothSpeederRunResult | null = null) {
+    this.speederRun = speederRun;
   }
 
   enter(gctx: GroundContext): void {
+    this.rng.reset(Number(deriveSeed(gctx.seed, "hoth_defense") & 0x7fffffffn));
+
     // Initialize objective system
     this.objectiveTracker = new ObjectiveTracker(HOTH_MEGA_OBJECTIVES);
     this.killTracker = new KillTracker();
@@ -327,8 +335,12 @@ export class HothDefenseScenario implements GroundScenarioHandler {
     // Spawn defensive turrets
     this.spawnTurrets(gctx);
 
-    // Spawn player in trenches
-    this.spawnPlayer(gctx, 0, 1, 30);
+    // Spawn player in trenches, or beside the speeder pad after a speeder run
+    if (this.speederRun) {
+      this.spawnPlayer(gctx, 22, 1, 20);
+    } else {
+      this.spawnPlayer(gctx, 0, 1, 30);
+    }
 
     // Spawn initial Snowtrooper wave
     this.spawnWave(gctx, 1);
@@ -337,7 +349,12 @@ export class HothDefenseScenario implements GroundScenarioHandler {
     this.buildSpeeder(gctx);
 
     // Set initial message
-    this.message = "DEFEND ECHO BASE";
+    if (this.speederRun) {
+      const { atatsTripped, atatCount } = this.speederRun;
+      this.message = `SPEEDER RUN: ${atatsTripped}/${atatCount} AT-ATs DOWN - BACK TO THE TRENCHES`;
+    } else {
+      this.message = "DEFEND ECHO BASE";
+    }
     this.messageTimer = 5;
 
     // Schedule ion cannon cinematic
@@ -488,16 +505,19 @@ export class HothDefenseScenario implements GroundScenarioHandler {
   }
 
   canTransition(): "speeder" | "launch" | null {
-    if (this.phase === "outdoor_defense" && this.nearSpeeder && this.atatSpawned) {
+    // One speeder run per battle
+    if (this.phase === "outdoor_defense" && this.nearSpeeder && this.atatSpawned && !this.speederRun) {
       return "speeder";
     }
     return null;
   }
 
   handleSpeederTransition(gctx: GroundContext): void {
+    const hoth = PLANETS.find((p) => p.id === "hoth");
+    if (!hoth) return;
     gctx.ctx.requestModeChange("flight", {
       type: "flight",
-      system: null as any,
+      system: planetToSystem(hoth),
       scenario: "hoth_speeder"
     });
   }
@@ -912,6 +932,9 @@ export class HothDefenseScenario implements GroundScenarioHandler {
       wall.receiveShadow = true;
       gctx.ctx.scene.add(wall);
       this.trenchMeshes.push(wall);
+
+      // Solid, so troopers take cover behind them and the AI routes round
+      createStaticBox(gctx.physicsWorld, { x: p.x, y: 0.75, z: p.z }, { x: 1, y: 0.75, z: 15 });
     }
   }
 
@@ -1210,7 +1233,10 @@ export class HothDefenseScenario implements GroundScenarioHandler {
     for (let i = 0; i < count; i++) {
       const x = this.rng.range(-60, 60);
       const z = spawnZ + this.rng.range(-20, 20);
-      const eid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, x, 1, z, 1, 0, true);
+      const eid = spawnSoldier(
+        gctx.ctx.world, gctx.physicsWorld, x, 1, z, 1, 0, true,
+        deriveSeed(gctx.seed, "wave", waveNum, i)
+      );
       gctx.enemyEids.push(eid);
     }
 
@@ -1221,7 +1247,7 @@ export class HothDefenseScenario implements GroundScenarioHandler {
   private spawnATAT(gctx: GroundContext): void {
     const eid = spawnATATWalker(
       gctx.ctx.world,
-      0, 300, -50, -60, Date.now()
+      0, 300, -50, -60, this.rng.int(0, 0x7ffffffe)
     );
     this.atatEids.push(eid);
 
@@ -1401,8 +1427,11 @@ export class HothDefenseScenario implements GroundScenarioHandler {
       { x: 5, z: -290 },
     ];
 
-    for (const p of positions) {
-      const eid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, p.x, 1, p.z, 1, 0, true);
+    for (const [i, p] of positions.entries()) {
+      const eid = spawnSoldier(
+        gctx.ctx.world, gctx.physicsWorld, p.x, 1, p.z, 1, 0, true,
+        deriveSeed(gctx.seed, "interior", i)
+      );
       this.interiorEnemyEids.push(eid);
       gctx.enemyEids.push(eid);
     }
@@ -0,0 +1,459 @@
+/**
+ * ScriptedGroundScenario - Runs a JSON mission script on foot
+ *
+ * Ground counterpart of ScriptedFlightScenario: MissionScriptRunner decides
+ * when objectives, waves and dialogue fire; this handler spawns troopers and
+ * AT-STs for each wave, reports kills and the player's position back, and
+ * drives the objective/announcement/radio HUD. Falling in battle fails the
+ * mission; either outcome returns to the map after a short delay.
+ */
+
+import * as THREE from "three";
+import { removeEntity, hasComponent, type IWorld } from "bitecs";
+import {
+  spawnSoldier,
+  spawnATST,
+  Transform,
+  Health,
+  GroundInput,
+  KillTracker,
+  MissionScriptRunner,
+  ObjectiveEventType,
+  ObjectiveStatus,
+  createDefaultObjectiveContext,
+  type MissionScript,
+  type MissionSpawnDef,
+  type MissionWaveDef,
+  type ObjectiveContext,
+  type ObjectiveEvent
+} from "@xwingz/gameplay";
+import { createRng, deriveSeed } from "@xwingz/procgen";
+import { createGroundPlane } from "@xwingz/physics";
+import { disposeObject } from "../../rendering/MeshManager";
+import { ObjectiveHud } from "../flight/ObjectiveHud";
+import {
+  AnnouncementSystem,
+  newObjectiveAnnouncement,
+  objectiveCompleteAnnouncement,
+  objectiveFailedAnnouncement,
+  milestoneAnnouncement,
+  missionCompleteAnnouncement,
+  missionFailedAnnouncement
+} from "../flight/AnnouncementSystem";
+import { RadioChatterSystem, RadioSpeaker } from "../flight/RadioChatterSystem";
+import type {
+  GroundContext,
+  GroundHudElements,
+  GroundScenarioHandler
+} from "./GroundScenarioTypes";
+
+/** Seconds the result stays on screen before returning to the map */
+const END_DELAY = 5;
+
+type ScriptedGroundPhase = "active" | "success" | "fail";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scripted Ground Scenario Implementation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ScriptedGroundScenario implements GroundScenarioHandler {
+  private phase: ScriptedGroundPhase = "active";
+  private missionMessage = "";
+  private messageTimer = 0;
+  private endTimer = 0;
+  private missionTime = 0;
+
+  private runner: MissionScriptRunner | null = null;
+  private killTracker: KillTracker | null = null;
+
+  // Enemies fielded by waves: unit type and wave id for kill tracking
+  private enemyUnits = new Map<number, { unit: string; wave: number }>();
+
+  private allyEids: number[] = [];
+  private allyMeshes = new Map<number, THREE.Object3D>();
+  private alliesStarted = 0;
+
+  // HUD systems
+  private objectiveHud: ObjectiveHud | null = null;
+  private announcements: AnnouncementSystem | null = null;
+  private radioChatter: RadioChatterSystem | null = null;
+
+  private readonly script: MissionScript | null;
+
+  constructor(script: MissionScript | null) {
+    this.script = script;
+  }
+
+  enter(gctx: GroundContext): void {
+    createGroundPlane(gctx.physicsWorld, 0);
+    this.buildTerrain(gctx);
+
+    gctx.playerEid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, 0, 1, 0, 0, 0, false);
+
+    if (!this.script) {
+      this.missionMessage = "UNKNOWN MISSION SCRIPT";
+      return;
+    }
+
+    this.runner = new MissionScriptRunner(this.script);
+    this.killTracker = new KillTracker(80);
+    this.runner.start();
+
+    this.objectiveHud = new ObjectiveHud(gctx.ctx.overlay);
+    this.announcements = new AnnouncementSystem(gctx.ctx.overlay);
+    this.radioChatter = new RadioChatterSystem(gctx.ctx.overlay);
+
+    this.missionMessage = this.script.name.toUpperCase();
+    this.messageTimer = 3;
+
+    const first = this.runner.tracker.getActiveObjective();
+    if (first) {
+      this.announcements.announce(newObjectiveAnnouncement(first.definition.name, this.script.briefing || undefined));
+    }
+  }
+
+  tick(gctx: GroundContext, dt: number): boolean {
+    this.announcements?.tick(dt);
+    this.radioChatter?.tick(dt);
+    if (this.runner && this.objectiveHud) {
+      this.objectiveHud.update(this.runner.tracker, dt);
+    }
+    if (this.messageTimer > 0) {
+      this.messageTimer = Math.max(0, this.messageTimer - dt);
+    }
+
+    if (!this.runner || !this.killTracker) return false;
+
+    if (this.phase !== "active") {
+      this.endTimer += dt;
+      return this.endTimer >= END_DELAY;
+    }
+
+    this.missionTime += dt;
+    this.recordKills(gctx.ctx.world);
+    this.syncAllies(gctx);
+
+    if (gctx.playerEid !== null && !isAlive(gctx.ctx.world, gctx.playerEid)) {
+      this.runner.fail();
+      this.endMission(gctx, false, "MISSION FAILED - YOU HAVE FALLEN");
+      return false;
+    }
+
+    const update = this.runner.tick(dt, this.buildObjectiveContext(gctx));
+    for (const wave of update.waves) this.spawnWave(gctx, wave);
+    for (const line of update.dialogue) {
+      this.radioChatter?.queueMessages(line.lines, RadioSpeaker[line.speaker], 6);
+    }
+    this.processObjectiveEvents(gctx, update.events);
+
+    return false;
+  }
+
+  updateHud(_gctx: GroundContext, els: GroundHudElements): void {
+    els.mission.textContent = this.getMissionMessage();
+    els.objective.textContent = this.runner
+      ? `HOSTILES ${this.enemyUnits.size}  ALLIES ${this.allyEids.length}`
+      : "";
+  }
+
+  getMissionMessage(): string {
+    if (this.messageTimer > 0 || !this.runner) return this.missionMessage;
+    if (this.phase === "success") return "MISSION COMPLETE";
+    if (this.phase === "fail") return "MISSION FAILED";
+    return this.runner.tracker.getActiveObjective()?.definition.hudTextActive ?? this.missionMessage;
+  }
+
+  getMissionNumber(): number {
+    return 0;
+  }
+
+  canTransition(): "speeder" | "launch" | null {
+    return null;
+  }
+
+  exit(gctx: GroundContext): void {
+    for (const eid of this.allyEids) {
+      if (hasComponent(gctx.ctx.world, Transform, eid)) removeEntity(gctx.ctx.world, eid);
+    }
+    for (const mesh of this.allyMeshes.values()) {
+      gctx.ctx.scene.remove(mesh);
+      disposeObject(mesh);
+    }
+    this.allyEids = [];
+    this.allyMeshes.clear();
+    this.enemyUnits.clear();
+
+    this.objectiveHud?.dispose();
+    this.announcements?.dispose();
+    this.radioChatter?.dispose();
+    this.objectiveHud = null;
+    this.announcements = null;
+    this.radioChatter = null;
+    this.runner = null;
+    this.killTracker = null;
+
+    if (gctx.groundMesh) {
+      gctx.ctx.scene.remove(gctx.groundMesh);
+      gctx.groundMesh.geometry.dispose();
+      if (gctx.groundMesh.material instanceof THREE.Material) {
+        gctx.groundMesh.material.dispose();
+      }
+      gctx.groundMesh = null;
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Objectives
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private buildObjectiveContext(gctx: GroundContext): ObjectiveContext {
+    const ctx = createDefaultObjectiveContext();
+    ctx.missionTime = this.missionTime;
+
+    if (gctx.playerEid !== null) {
+      const eid = gctx.playerEid;
+      ctx.location.playerPosition = {
+        x: Transform.x[eid] ?? 0,
+        y: Transform.y[eid] ?? 0,
+        z: Transform.z[eid] ?? 0
+      };
+      ctx.location.playerAltitude = Transform.y[eid] ?? 0;
+      ctx.playerShieldPercent = ((Health.hp[eid] ?? 0) / (Health.maxHp[eid] || 1)) * 100;
+    }
+
+    this.killTracker?.checkShieldForStreak(ctx.playerShieldPercent);
+    if (this.killTracker) ctx.kills = this.killTracker.getTrackingData();
+
+    ctx.allies.alive = this.allyEids.length;
+    ctx.allies.started = this.alliesStarted;
+
+    for (const obj of this.runner?.tracker.getObjectivesByStatus(ObjectiveStatus.COMPLETED) ?? []) {
+      ctx.completedObjectives.add(obj.definition.id);
+    }
+
+    return ctx;
+  }
+
+  private processObjectiveEvents(gctx: GroundContext, events: ObjectiveEvent[]): void {
+    for (const event of events) {
+      const def = event.objective?.definition;
+      switch (event.type) {
+        case ObjectiveEventType.OBJECTIVE_ACTIVATED:
+          if (def?.radioOnStart) this.radioChatter?.queueMessages(def.radioOnStart, RadioSpeaker.COMMAND, 5);
+          this.announcements?.announce(newObjectiveAnnouncement(def?.name ?? "", event.message));
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_COMPLETED:
+          if (def?.radioOnComplete) this.radioChatter?.queueMessages(def.radioOnComplete, RadioSpeaker.COMMAND, 6);
+          this.announcements?.announce(objectiveCompleteAnnouncement(def?.hudTextComplete ?? "COMPLETE"));
+          if (def) {
+            gctx.ctx.profile.credits += def.rewardCredits;
+            gctx.ctx.scheduleSave();
+          }
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_FAILED:
+          this.announcements?.announce(objectiveFailedAnnouncement(def?.name ?? "OBJECTIVE"));
+          break;
+
+        case ObjectiveEventType.OBJECTIVE_MILESTONE:
+          this.announcements?.announce(milestoneAnnouncement(event.message ?? ""));
+          break;
+
+        case ObjectiveEventType.MISSION_COMPLETE:
+          this.endMission(gctx, true, "");
+          break;
+
+        case ObjectiveEventType.MISSION_FAILED:
+          this.endMission(gctx, false, "MISSION FAILED");
+          break;
+      }
+    }
+  }
+
+  private endMission(gctx: GroundContext, success: boolean, message: string): void {
+    if (this.phase !== "active" || !this.runner) return;
+
+    this.phase = success ? "success" : "fail";
+    this.endTimer = 0;
+    this.messageTimer = END_DELAY;
+
+    if (success) {
+      // Objective credits were paid as each completed; add the mission bonus
+      gctx.ctx.profile.credits += this.runner.script.rewards.credits;
+      this.missionMessage = `MISSION COMPLETE  +${this.runner.getRewardCredits()} CR`;
+      this.announcements?.announce(missionCompleteAnnouncement());
+    } else {
+      this.missionMessage = message;
+      this.announcements?.announce(missionFailedAnnouncement());
+    }
+    gctx.ctx.scheduleSave();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Terrain Building
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private buildTerrain(gctx: GroundContext): void {
+    const groundGeo = new THREE.PlaneGeometry(300, 300, 30, 30);
+    const groundMat = new THREE.MeshStandardMaterial({
+      color: 0x8a7a55,
+      roughness: 0.9,
+      metalness: 0.0
+    });
+    const ground = new THREE.Mesh(groundGeo, groundMat);
+    ground.rotation.x = -Math.PI / 2;
+    ground.receiveShadow = true;
+    gctx.ctx.scene.add(ground);
+    gctx.groundMesh = ground;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Entity Spawning
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private spawnWave(gctx: GroundContext, wave: MissionWaveDef): void {
+    if (!this.runner) return;
+    const scriptId = this.runner.script.id;
+
+    if (wave.message) {
+      this.missionMessage = wave.message;
+      this.messageTimer = 3;
+    }
+
+    wave.spawns.forEach((spawn, spawnIndex) => {
+      const rng = createRng(deriveSeed(gctx.seed, "script", scriptId, "wave", wave.id, spawnIndex));
+      for (let i = 0; i < spawn.count; i++) {
+        const { x, z } = spawnPoint(spawn, rng);
+        const team = spawn.team === "ally" ? 0 : 1;
+
+        if (spawn.unit === "atst") {
+          const eid = spawnATST(gctx.ctx.world, x, spawn.at.y, z, team);
+          const mesh = this.buildWalkerMesh(team);
+          mesh.position.set(x, spawn.at.y, z);
+          gctx.ctx.scene.add(mesh);
+          // GroundMode syncs and removes vehicle meshes it knows about
+          gctx.vehicleMeshes.set(eid, mesh);
+          gctx.vehicleEids.push(eid);
+          if (team === 1) this.enemyUnits.set(eid, { unit: spawn.unit, wave: wave.id });
+          continue;
+        }
+
+        const seed = deriveSeed(gctx.seed, "script", scriptId, "soldier", wave.id, spawnIndex, i);
+        const eid = spawnSoldier(gctx.ctx.world, gctx.physicsWorld, x, spawn.at.y, z, team, 0, true, seed);
+        if (team === 1) {
+          // GroundMode builds the mesh for new enemies after this tick
+          gctx.enemyEids.push(eid);
+          this.enemyUnits.set(eid, { unit: spawn.unit, wave: wave.id });
+          continue;
+        }
+
+        const mesh = this.buildAllyMesh();
+        mesh.position.set(x, spawn.at.y, z);
+        gctx.ctx.scene.add(mesh);
+        this.allyMeshes.set(eid, mesh);
+        this.allyEids.push(eid);
+        this.alliesStarted += 1;
+      }
+    });
+  }
+
+  private buildAllyMesh(): THREE.Object3D {
+    const group = new THREE.Group();
+
+    const body = new THREE.Mesh(
+      new THREE.CapsuleGeometry(0.35, 1.1, 8, 16),
+      new THREE.MeshStandardMaterial({ color: 0x4477aa, roughness: 0.7 })
+    );
+    body.position.y = 0.9;
+    body.castShadow = true;
+    group.add(body);
+
+    const head = new THREE.Mesh(
+      new THREE.SphereGeometry(0.2, 12, 8),
+      new THREE.MeshStandardMaterial({ color: 0x88aacc, roughness: 0.6 })
+    );
+    head.position.y = 1.65;
+    head.castShadow = true;
+    group.add(head);
+
+    return group;
+  }
+
+  private buildWalkerMesh(team: number): THREE.Object3D {
+    const group = new THREE.Group();
+    const hullMat = new THREE.MeshStandardMaterial({
+      color: team === 0 ? 0x8899aa : 0x9a9a9a,
+      roughness: 0.6,
+      metalness: 0.3
+    });
+
+    const cockpit = new THREE.Mesh(new THREE.BoxGeometry(2.2, 1.6, 2.8), hullMat);
+    cockpit.position.y = 4.2;
+    cockpit.castShadow = true;
+    group.add(cockpit);
+
+    for (const side of [-1, 1]) {
+      const leg = new THREE.Mesh(new THREE.BoxGeometry(0.35, 3.4, 0.35), hullMat);
+      leg.position.set(side * 0.8, 1.7, 0);
+      leg.castShadow = true;
+      group.add(leg);
+    }
+
+    return group;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Entity Syncing
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Count enemies that went down since last tick. Runs before GroundMode
+   * removes the dead, so a kill is seen while its hp is still <= 0.
+   */
+  private recordKills(world: IWorld): void {
+    for (const [eid, fielded] of this.enemyUnits) {
+      if (isAlive(world, eid)) continue;
+      this.enemyUnits.delete(eid);
+      this.killTracker?.recordKill(fielded.unit, fielded.wave);
+    }
+  }
+
+  private syncAllies(gctx: GroundContext): void {
+    for (let i = this.allyEids.length - 1; i >= 0; i--) {
+      const eid = this.allyEids[i]!;
+      const mesh = this.allyMeshes.get(eid);
+
+      if (!isAlive(gctx.ctx.world, eid)) {
+        if (mesh) {
+          gctx.ctx.scene.remove(mesh);
+          disposeObject(mesh);
+          this.allyMeshes.delete(eid);
+        }
+        if (hasComponent(gctx.ctx.world, Transform, eid)) removeEntity(gctx.ctx.world, eid);
+        this.allyEids.splice(i, 1);
+        continue;
+      }
+
+      if (!mesh) continue;
+      mesh.position.set(Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      mesh.rotation.y = GroundInput.aimYaw[eid] ?? 0;
+    }
+  }
+}
+
+/** Random point on the spawn disc around `at` */
+function spawnPoint(spawn: MissionSpawnDef, rng: ReturnType<typeof createRng>): { x: number; z: number } {
+  const angle = rng.range(0, Math.PI * 2);
+  const r = Math.sqrt(rng.range(0, 1)) * spawn.radius;
+  return { x: spawn.at.x + Math.cos(angle) * r, z: spawn.at.z + Math.sin(angle) * r };
+}
+
+function isAlive(world: IWorld, eid: number): boolean {
+  return (
+    eid >= 0 &&
+    hasComponent(world, Transform, eid) &&
+    hasComponent(world, Health, eid) &&
+    (Health.hp[eid] ?? 0) > 0
+  );
+}
@@ -10,3 +10,5 @@ export * from "./GroundScenarioTypes";
 // Scenarios
 export { DefaultScenario } from "./DefaultScenario";
 export { HothDefenseScenario } from "./HothDefenseScenario";
+export { ConquestGroundScenario } from "./ConquestGroundScenario";
+export { ScriptedGroundScenario } from "./ScriptedGroundScenario";
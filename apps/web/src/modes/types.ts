@@ -1,15 +1,18 @@
 /**
  * Mode system infrastructure
- * Defines interfaces for the three game modes: map, flight, ground
+ * Defines interfaces for the game modes: map, flight, ground, conquest
  */
 
 import type { IWorld } from "bitecs";
+import type { InputRecording, LockstepSession } from "@xwingz/core";
 import type * as THREE from "three";
 import type { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import type { SystemDef } from "@xwingz/procgen";
+import type { SystemDef, CoruscantDifficulty } from "@xwingz/procgen";
+import type { PlayerBattleSetup, PlayerBattleReport, SpaceInputState } from "@xwingz/gameplay";
 import type { Profile } from "../state/ProfileManager";
+import type { GalaxySimulation } from "../conquest/GalaxySimulation";
 
-export type Mode = "map" | "flight" | "ground";
+export type Mode = "map" | "flight" | "ground" | "conquest";
 
 /**
  * Shared context passed to all mode handlers
@@ -30,6 +33,9 @@ export interface ModeContext {
   // Player state (mutable, shared across modes)
   profile: Profile;
 
+  // Active conquest campaign (kept alive while the player fights one of its battles)
+  conquest: GalaxySimulation | null;
+
   // Mode transition callback
   requestModeChange: (mode: Mode, data?: ModeTransitionData) => void;
 
@@ -47,7 +53,8 @@ export interface TransitionPosition {
 }
 
 /**
- * Preserved player state across transitions
+ * Preserved player state across transitions - the ship's hull and shields,
+ * kept while it is parked on the ground and restored on launch
  */
 export interface PreservedPlayerState {
   health: number;
@@ -56,19 +63,64 @@ export interface PreservedPlayerState {
   maxShields?: number;
 }
 
+/**
+ * Conquest battle the player was dropped into from ConquestMode
+ */
+export interface ConquestBattleRef {
+  battleEid: number;
+  planetIndex: number;
+  setup: PlayerBattleSetup; // Forces to field, from the campaign's fleets/ground forces
+}
+
+/**
+ * Outcome reported back to ConquestMode when a conquest battle ends
+ */
+export interface ConquestBattleResult {
+  battleEid: number;
+  report: PlayerBattleReport;
+}
+
+/**
+ * Outcome of the Hoth snowspeeder run, handed back to the ground battle
+ */
+export interface HothSpeederRunResult {
+  atatsTripped: number;
+  atatCount: number;
+  success: boolean;
+}
+
 /**
  * Data passed during mode transitions
  */
 export type ModeTransitionData =
-  | { type: "flight"; system: SystemDef; scenario: FlightScenario }
-  | { type: "ground"; scenario?: GroundScenario }
+  | {
+      type: "flight";
+      system: SystemDef;
+      scenario: FlightScenario;
+      difficulty?: CoruscantDifficulty;
+      conquestBattle?: ConquestBattleRef;
+      replay?: InputRecording;
+      missionScript?: string;
+      coop?: LockstepSession<SpaceInputState>;
+    }
+  | {
+      type: "ground";
+      scenario?: GroundScenario;
+      conquestBattle?: ConquestBattleRef;
+      seed?: bigint;
+      replay?: InputRecording;
+      speederRun?: HothSpeederRunResult;
+      missionScript?: string;
+    }
   | { type: "map" }
+  | { type: "conquest"; battleResult?: ConquestBattleResult; newCampaign?: boolean }
   | {
       type: "flight_from_ground";
       system: SystemDef;
       launchPosition: TransitionPosition;
       playerState: PreservedPlayerState;
       planetIndex: number;
+      scenario?: FlightScenario;
     }
   | {
       type: "ground_from_flight";
@@ -76,6 +128,7 @@ export type ModeTransitionData =
       playerState: PreservedPlayerState;
       planetIndex: number;
       system?: SystemDef | null;
+      flightScenario?: FlightScenario;
     };
 
 /**
@@ -99,22 +152,55 @@ export interface ModeHandler {
    * Clean up entities, dispose meshes, reset state
    */
   exit(ctx: ModeContext): void;
+
+  /**
+   * Input recorded so far in this mission (flight and ground only)
+   */
+  getRecording?(): InputRecording | null;
 }
 
 /**
  * Flight mode specific state (passed via data on transition)
  */
-export type FlightScenario = "sandbox" | "yavin_defense" | "destroy_star_destroyer" | "hoth_speeder";
+export type FlightScenario =
+  | "sandbox"
+  | "yavin_defense"
+  | "destroy_star_destroyer"
+  | "hoth_speeder"
+  | "coruscant_battle"
+  | "conquest"
+  | "scripted";
 
 /**
  * Ground mode specific scenarios
  */
-export type GroundScenario = "default" | "hoth_defense";
+export type GroundScenario = "default" | "hoth_defense" | "scripted";
 
 export interface FlightModeData {
   type: "flight";
   system: SystemDef;
   scenario: FlightScenario;
+  difficulty?: CoruscantDifficulty; // Story mission difficulty tier (Coruscant)
+  conquestBattle?: ConquestBattleRef; // Set when fighting a conquest battle
+  replay?: InputRecording; // Play back recorded input instead of the keyboard
+  missionScript?: string; // MissionScript id for the "scripted" scenario
+  coop?: LockstepSession<SpaceInputState>; // Started co-op room stepping the simulation
+}
+
+export interface GroundModeData {
+  type: "ground";
+  scenario?: GroundScenario;
+  conquestBattle?: ConquestBattleRef;
+  seed?: bigint; // Mission seed (defaults to one derived from the scenario)
+  replay?: InputRecording; // Play back recorded input instead of the keyboard
+  speederRun?: HothSpeederRunResult; // Returning to Hoth Defense from the snowspeeder run
+  missionScript?: string; // MissionScript id for the "scripted" scenario
+}
+
+export interface ConquestModeData {
+  type: "conquest";
+  battleResult?: ConquestBattleResult;
+  newCampaign?: boolean; // Ignore the saved campaign and start over
 }
 
 /**
@@ -124,10 +210,14 @@ export function isFlightTransition(data?: ModeTransitionData): data is FlightMod
   return data?.type === "flight";
 }
 
-export function isGroundTransition(data?: ModeTransitionData): data is { type: "ground" } {
+export function isGroundTransition(data?: ModeTransitionData): data is GroundModeData {
   return data?.type === "ground";
 }
 
+export function isConquestTransition(data?: ModeTransitionData): data is ConquestModeData {
+  return data?.type === "conquest";
+}
+
 export function isMapTransition(data?: ModeTransitionData): data is { type: "map" } {
   return data?.type === "map";
 }
@@ -138,18 +228,20 @@ export function isMapTransition(data?: ModeTransitionData): data is { type: "map
 export interface FlightFromGroundData {
   type: "flight_from_ground";
   system: SystemDef;
-  launchPosition: TransitionPosition;
+  launchPosition: TransitionPosition; // Space coordinates
   playerState: PreservedPlayerState;
   planetIndex: number;
+  scenario?: FlightScenario; // Flight scenario to climb back into
 }
 
 export interface GroundFromFlightData {
   type: "ground_from_flight";
-  landingPosition: TransitionPosition;
+  landingPosition: TransitionPosition; // Ground coordinates of the parked ship
   playerState: PreservedPlayerState;
   planetIndex: number;
   system?: SystemDef | null; // System to return to on launch
   scenario?: GroundScenario; // Ground scenario to load
+  flightScenario?: FlightScenario; // Flight scenario to resume on launch
 }
 
 export function isFlightFromGroundTransition(data?: ModeTransitionData): data is FlightFromGroundData {
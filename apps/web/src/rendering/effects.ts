@@ -40,6 +40,7 @@ export function getGlowTexture(): THREE.CanvasTexture {
 let boltGeo: THREE.CylinderGeometry | null = null;
 let boltMatFriendly: THREE.MeshBasicMaterial | null = null;
 let boltMatEnemy: THREE.MeshBasicMaterial | null = null;
+let boltMatIon: THREE.MeshBasicMaterial | null = null;
 
 export function getBoltGeometry(): THREE.CylinderGeometry {
   if (!boltGeo) {
@@ -75,6 +76,19 @@ export function getBoltMaterial(friendly: boolean): THREE.MeshBasicMaterial {
   }
 }
 
+export function getIonBoltMaterial(): THREE.MeshBasicMaterial {
+  if (!boltMatIon) {
+    boltMatIon = new THREE.MeshBasicMaterial({
+      color: 0x66ccff,
+      transparent: true,
+      opacity: 1.0,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+  }
+  return boltMatIon;
+}
+
 export function makeBoltGlow(color: number): THREE.Sprite {
   const mat = new THREE.SpriteMaterial({
     map: getGlowTexture(),
@@ -0,0 +1,123 @@
+/**
+ * ConquestSaveManager - Persistent storage for Galactic Conquest campaigns
+ *
+ * Features:
+ * - Versioned storage with migration support (mirrors ProfileManager)
+ * - Validation of the ECS snapshot and faction AI state on load
+ * - A single campaign slot, cleared when a new campaign starts
+ */
+
+import { createLogger } from "@xwingz/core";
+import {
+  CONQUEST_FACTION,
+  CONQUEST_SNAPSHOT_VERSION,
+  migrateConquestSnapshot,
+  type ConquestFactionId
+} from "@xwingz/gameplay";
+import type { GalaxySaveData } from "../conquest/GalaxySimulation";
+import type { FactionAIState } from "../conquest/FactionAI";
+
+const log = createLogger("ConquestSaveManager");
+
+// Storage keys
+const CONQUEST_SAVE_KEY = "xwingz_conquest";
+const CURRENT_VERSION = CONQUEST_SNAPSHOT_VERSION;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function sanitizeAIState(raw: unknown): FactionAIState | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const ai = raw as Partial<FactionAIState>;
+  if (!isFiniteNumber(ai.initialSeed) || !isFiniteNumber(ai.rngState) || !isFiniteNumber(ai.decisionTimer)) {
+    return null;
+  }
+  return { initialSeed: ai.initialSeed, rngState: ai.rngState, decisionTimer: ai.decisionTimer };
+}
+
+function sanitizePlayerFaction(v: unknown): ConquestFactionId {
+  return v === CONQUEST_FACTION.EMPIRE ? CONQUEST_FACTION.EMPIRE : CONQUEST_FACTION.REBEL;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Version Migration
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface VersionedConquestSave {
+  version: number;
+  data: GalaxySaveData;
+  savedAt: number;
+}
+
+function migrateConquestSave(raw: unknown, fromVersion: number): GalaxySaveData | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const data = raw as Partial<Record<keyof GalaxySaveData, unknown>>;
+
+  // The ECS snapshot carries the version-specific layout
+  const world = migrateConquestSnapshot(data.world, fromVersion);
+  const empireAI = sanitizeAIState(data.empireAI);
+  const rebelAI = sanitizeAIState(data.rebelAI);
+  if (!world || !empireAI || !rebelAI) return null;
+
+  return {
+    playerFaction: sanitizePlayerFaction(data.playerFaction),
+    world,
+    empireAI,
+    rebelAI
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Load the saved campaign, or null if there is none (or it is unreadable).
+ */
+export function loadConquestSave(): GalaxySaveData | null {
+  let stored: VersionedConquestSave;
+  try {
+    const raw = localStorage.getItem(CONQUEST_SAVE_KEY);
+    if (!raw) return null;
+    stored = JSON.parse(raw) as VersionedConquestSave;
+  } catch {
+    return null;
+  }
+
+  if (typeof stored?.version !== "number" || stored.version > CURRENT_VERSION) {
+    log.warn("Ignoring conquest save with unknown version:", stored?.version);
+    return null;
+  }
+
+  const data = migrateConquestSave(stored.data, stored.version);
+  if (!data) log.warn("Discarding invalid conquest save");
+  return data;
+}
+
+export function saveConquestCampaign(data: GalaxySaveData): void {
+  const payload: VersionedConquestSave = {
+    version: CURRENT_VERSION,
+    data,
+    savedAt: Date.now()
+  };
+
+  try {
+    localStorage.setItem(CONQUEST_SAVE_KEY, JSON.stringify(payload));
+  } catch (e) {
+    // Quota exceeded or storage disabled
+    log.warn("Conquest save failed:", e);
+  }
+}
+
+export function clearConquestSave(): void {
+  try {
+    localStorage.removeItem(CONQUEST_SAVE_KEY);
+  } catch {
+    // Storage disabled - nothing to clear
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * CoopManager - Joins lockstep co-op rooms on the relay
+ *
+ * Two players open the game with ?coop=<room> (see tools/relay). The first to
+ * join hosts: their mission and a fresh seed are the room's. Once the room is
+ * full both clients enter the same flight mission with the session, and
+ * FlightMode steps the simulation through it:
+ * - "yavin": each player flies their own X-wing in the Yavin defense
+ * - "speeder": one snowspeeder, slot 0 pilots and slot 1 mans the tail gun
+ */
+
+import {
+  createLockstepSession,
+  createLogger,
+  DEFAULT_ROOM_SIZE,
+  type LockstepSession,
+  type NetPlayer,
+  type NetTransport
+} from "@xwingz/core";
+import { NEUTRAL_SPACE_INPUT, type SpaceInputState } from "@xwingz/gameplay";
+import { PLANETS, planetToSystem } from "@xwingz/data";
+import type { SystemDef } from "@xwingz/procgen";
+import type { FlightScenario, ModeTransitionData } from "../modes/types";
+import { sanitizeUpgrades, type Profile, type Upgrades } from "./ProfileManager";
+
+const log = createLogger("CoopManager");
+
+export const DEFAULT_RELAY_URL = "ws://localhost:8787";
+
+export type CoopMission = "yavin" | "speeder";
+
+const COOP_SCENARIOS: Record<CoopMission, FlightScenario> = {
+  yavin: "yavin_defense",
+  speeder: "hoth_speeder"
+};
+
+export function isCoopMission(value: unknown): value is CoopMission {
+  return value === "yavin" || value === "speeder";
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transport
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * NetTransport over a browser WebSocket. Messages sent before the socket
+ * opens are queued.
+ */
+function createWebSocketTransport(url: string): NetTransport {
+  const socket = new WebSocket(url);
+  const pending: string[] = [];
+  let open = true;
+
+  const transport: NetTransport = {
+    onmessage: null,
+    onclose: null,
+    send(text) {
+      if (!open) return;
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(text);
+      } else {
+        pending.push(text);
+      }
+    },
+    close() {
+      if (!open) return;
+      open = false;
+      socket.close();
+      transport.onclose?.();
+    }
+  };
+
+  socket.onopen = () => {
+    for (const text of pending) socket.send(text);
+    pending.length = 0;
+  };
+  socket.onmessage = (e) => {
+    if (typeof e.data === "string") transport.onmessage?.(e.data);
+  };
+  socket.onclose = () => {
+    if (!open) return;
+    open = false;
+    transport.onclose?.();
+  };
+
+  return transport;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sessions
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CoopJoinOptions {
+  room: string;
+  profile: Profile;
+  url?: string;
+  name?: string;
+  /** Mission if this player opens the room */
+  mission?: CoopMission;
+  onStart: (session: LockstepSession<SpaceInputState>) => void;
+  onClose: (error: string | null) => void;
+}
+
+export function joinCoop(options: CoopJoinOptions): LockstepSession<SpaceInputState> {
+  const url = options.url ?? DEFAULT_RELAY_URL;
+  const session = createLockstepSession<SpaceInputState>({
+    transport: createWebSocketTransport(url),
+    neutral: { ...NEUTRAL_SPACE_INPUT },
+    onStart: () => {
+      log.info(`Room "${session.room}" started with ${session.players.length} players`);
+      options.onStart(session);
+    },
+    onClose: (error) => {
+      if (error) log.warn(`Co-op closed: ${error}`);
+      options.onClose(error);
+    }
+  });
+
+  session.join({
+    room: options.room,
+    name: options.name ?? "Pilot",
+    data: { upgrades: options.profile.upgrades },
+    size: DEFAULT_ROOM_SIZE,
+    seed: BigInt(Math.floor(Math.random() * 0xffffffff)),
+    mission: options.mission ?? "yavin"
+  });
+  log.info(`Joining room "${options.room}" on ${url}`);
+  return session;
+}
+
+/**
+ * Flight transition for a started room, or null if the host asked for a
+ * mission this client doesn't know.
+ */
+export function coopTransition(
+  session: LockstepSession<SpaceInputState>,
+  yavinSystem: SystemDef
+): { mode: "flight"; data: ModeTransitionData } | null {
+  const mission = session.mission;
+  if (!isCoopMission(mission) || session.seed === null) return null;
+
+  let system = yavinSystem;
+  if (mission === "speeder") {
+    const hoth = PLANETS.find((p) => p.id === "hoth");
+    if (!hoth) return null;
+    system = planetToSystem(hoth);
+  }
+
+  return {
+    mode: "flight",
+    data: { type: "flight", system: { ...system, seed: session.seed }, scenario: COOP_SCENARIOS[mission], coop: session }
+  };
+}
+
+/**
+ * A player's upgrades as they sent them when joining
+ */
+export function coopPlayerUpgrades(player: NetPlayer | undefined): Upgrades {
+  const data = player?.data as { upgrades?: unknown } | null | undefined;
+  return sanitizeUpgrades(data?.upgrades);
+}
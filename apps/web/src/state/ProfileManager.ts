@@ -9,6 +9,14 @@
  */
 
 import { createLogger } from "@xwingz/core";
+import {
+  createDefaultControlSettings,
+  createDefaultPilotRecord,
+  sanitizeControlSettings,
+  sanitizePilotRecord,
+  type ControlSettings,
+  type PilotRecord
+} from "@xwingz/gameplay";
 
 const log = createLogger("ProfileManager");
 
@@ -24,11 +32,14 @@ export type Profile = {
   credits: number;
   missionTier: number;
   upgrades: Upgrades;
+  controls: ControlSettings;
+  /** Mission history, best scores and awards (v2) */
+  pilot: PilotRecord;
 };
 
 // Storage keys
 const PROFILE_KEY = "xwingz_profile";
-const CURRENT_VERSION = 1;
+const CURRENT_VERSION = 2;
 
 // Max values to prevent overflow/exploits
 const MAX_CREDITS = 999_999_999;
@@ -66,7 +77,9 @@ export function createDefaultProfile(): Profile {
       shields: 0,
       lasers: 0,
       hull: 0
-    }
+    },
+    controls: createDefaultControlSettings(),
+    pilot: createDefaultPilotRecord()
   };
 }
 
@@ -99,29 +112,42 @@ function migrateProfile(raw: unknown, fromVersion: number): Profile {
         shields: legacy.upgrades?.shields ?? 0,
         lasers: legacy.upgrades?.lasers ?? 0,
         hull: legacy.upgrades?.hull ?? 0
-      }
+      },
+      controls: createDefaultControlSettings(),
+      pilot: createDefaultPilotRecord()
     });
   }
 
-  // Future migrations would go here (e.g., v1 -> v2)
-  // if (fromVersion === 1) { ... }
+  // v1 -> v2: pilot record added, everything else carries over
+  if (fromVersion === 1) {
+    const v1 = raw as Partial<Omit<Profile, "pilot">>;
+    return sanitizeProfile({ ...v1, pilot: createDefaultPilotRecord() });
+  }
 
   return defaults;
 }
 
-function sanitizeProfile(profile: Partial<Profile>): Profile {
-  const upgrades: Partial<Upgrades> = isValidUpgrades(profile.upgrades) ? profile.upgrades : {};
+/**
+ * Upgrade levels from untrusted data (saved profiles, co-op wingmates)
+ */
+export function sanitizeUpgrades(value: unknown): Upgrades {
+  const upgrades: Partial<Upgrades> = isValidUpgrades(value) ? value : {};
+  return {
+    engine: clampInt(upgrades.engine, 0, MAX_UPGRADE_LEVEL),
+    maneuver: clampInt(upgrades.maneuver, 0, MAX_UPGRADE_LEVEL),
+    shields: clampInt(upgrades.shields, 0, MAX_UPGRADE_LEVEL),
+    lasers: clampInt(upgrades.lasers, 0, MAX_UPGRADE_LEVEL),
+    hull: clampInt(upgrades.hull, 0, MAX_UPGRADE_LEVEL)
+  };
+}
 
+function sanitizeProfile(profile: Partial<Profile>): Profile {
   return {
     credits: clampInt(profile.credits, 0, MAX_CREDITS),
     missionTier: clampInt(profile.missionTier, 0, MAX_MISSION_TIER),
-    upgrades: {
-      engine: clampInt(upgrades.engine, 0, MAX_UPGRADE_LEVEL),
-      maneuver: clampInt(upgrades.maneuver, 0, MAX_UPGRADE_LEVEL),
-      shields: clampInt(upgrades.shields, 0, MAX_UPGRADE_LEVEL),
-      lasers: clampInt(upgrades.lasers, 0, MAX_UPGRADE_LEVEL),
-      hull: clampInt(upgrades.hull, 0, MAX_UPGRADE_LEVEL)
-    }
+    upgrades: sanitizeUpgrades(profile.upgrades),
+    controls: sanitizeControlSettings(profile.controls),
+    pilot: sanitizePilotRecord(profile.pilot)
   };
 }
 
@@ -0,0 +1,125 @@
+/**
+ * ReplayManager - Keeps, exports and loads input recordings
+ *
+ * FlightMode and GroundMode record every tick's input; the finished recording
+ * of the last mission is kept here in memory. Recordings are exported as
+ * compact JSON files and loaded back from dropped files.
+ */
+
+import { createLogger, decodeRecording, encodeRecording, type InputRecording } from "@xwingz/core";
+import type { SystemDef, CoruscantDifficulty } from "@xwingz/procgen";
+import type { FlightScenario, GroundScenario, ModeTransitionData } from "../modes/types";
+
+const log = createLogger("ReplayManager");
+
+let lastRecording: InputRecording | null = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording Metadata
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** SystemDef without its seed, which lives in the recording itself */
+type RecordedSystem = Omit<SystemDef, "seed">;
+
+export type ReplayMeta =
+  | {
+      mode: "flight";
+      scenario: FlightScenario;
+      difficulty?: CoruscantDifficulty;
+      system: RecordedSystem;
+      missionScript?: string;
+    }
+  | { mode: "ground"; scenario: GroundScenario; missionScript?: string };
+
+export function flightReplayMeta(
+  system: SystemDef,
+  scenario: FlightScenario,
+  difficulty?: CoruscantDifficulty,
+  missionScript?: string
+): ReplayMeta {
+  const { seed: _seed, ...rest } = system;
+  return { mode: "flight", scenario, difficulty, system: rest, missionScript };
+}
+
+export function groundReplayMeta(scenario: GroundScenario, missionScript?: string): ReplayMeta {
+  return { mode: "ground", scenario, missionScript };
+}
+
+/**
+ * Transition data that restarts the recorded mission in replay mode, or null
+ * if the recording doesn't say where it was made.
+ */
+export function replayTransition(recording: InputRecording): { mode: "flight" | "ground"; data: ModeTransitionData } | null {
+  const meta = recording.meta as Partial<ReplayMeta> & Record<string, unknown>;
+  const seed = BigInt(recording.seed);
+  const missionScript = typeof meta.missionScript === "string" ? meta.missionScript : undefined;
+
+  if (meta.mode === "flight" && typeof meta.scenario === "string" && typeof meta.system === "object" && meta.system) {
+    const system = { ...(meta.system as RecordedSystem), seed };
+    return {
+      mode: "flight",
+      data: {
+        type: "flight",
+        system,
+        scenario: meta.scenario as FlightScenario,
+        difficulty: meta.difficulty,
+        replay: recording,
+        missionScript
+      }
+    };
+  }
+
+  if (meta.mode === "ground" && typeof meta.scenario === "string") {
+    return {
+      mode: "ground",
+      data: { type: "ground", scenario: meta.scenario as GroundScenario, seed, replay: recording, missionScript }
+    };
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function setLastRecording(recording: InputRecording): void {
+  lastRecording = recording;
+}
+
+export function getLastRecording(): InputRecording | null {
+  return lastRecording;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Import / Export
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Download a recording as a JSON file
+ */
+export function downloadRecording(recording: InputRecording): void {
+  const blob = new Blob([encodeRecording(recording)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const scenario = typeof recording.meta.scenario === "string" ? recording.meta.scenario : "mission";
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `xwingz-replay-${scenario}-${recording.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a recording from a file (e.g. one dropped on the window)
+ */
+export async function readRecordingFile(file: File): Promise<InputRecording | null> {
+  try {
+    const recording = decodeRecording(await file.text());
+    if (!recording) log.warn(`Not a valid replay: ${file.name}`);
+    return recording;
+  } catch (err) {
+    log.warn("Failed to read replay:", err);
+    return null;
+  }
+}
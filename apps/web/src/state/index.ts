@@ -5,3 +5,4 @@
 export * from "./ProfileManager";
 export * from "./UpgradeManager";
 export * from "./GameState";
+export * from "./ConquestSaveManager";
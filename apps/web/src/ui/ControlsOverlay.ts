@@ -0,0 +1,296 @@
+/**
+ * ControlsOverlay - Rebind flight and ground controls and tune stick response
+ */
+
+import {
+  addBinding,
+  bindingLabel,
+  createDefaultControlSettings,
+  createInputDevices,
+  detectBinding,
+  normalizeKey,
+  type AxisBinding,
+  type ControlSettings,
+  type InputDevices
+} from "@xwingz/gameplay";
+
+export type ControlsOverlayCallbacks = {
+  onChange?: () => void;  // Called after any binding or response change
+  onClose?: () => void;   // Called when overlay closes
+};
+
+type ControlsTab = "space" | "ground";
+
+type ControlsRow =
+  | { kind: "bind"; label: string; list: string[] }
+  | { kind: "response"; label: string; axis: AxisBinding }
+  | { kind: "mouse"; label: string };
+
+const DEADZONE_STEP = 0.02;
+const CURVE_STEP = 0.1;
+const SENSITIVITY_STEP = 0.1;
+
+function actionLabel(name: string): string {
+  return name.replace(/([A-Z])/g, " $1").toUpperCase();
+}
+
+function round(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, v));
+}
+
+/**
+ * Manages the controls overlay UI
+ */
+export class ControlsOverlay {
+  private overlay: HTMLDivElement;
+  private settings: ControlSettings;
+  private callbacks: ControlsOverlayCallbacks;
+  private _isOpen = false;
+  private tab: ControlsTab = "space";
+  private selected = 0;
+  private capturing = false;
+  private devices: InputDevices | null = null;
+  private pollHandle: number | null = null;
+  private shownGamepad: string | null = null;
+  private keyHandler: ((e: KeyboardEvent) => void) | null = null;
+
+  constructor(overlay: HTMLDivElement, settings: ControlSettings, callbacks: ControlsOverlayCallbacks = {}) {
+    this.overlay = overlay;
+    this.settings = settings;
+    this.callbacks = callbacks;
+  }
+
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+
+  open(): void {
+    if (this._isOpen) return;
+    this._isOpen = true;
+    this.selected = 0;
+    this.capturing = false;
+    this.devices = createInputDevices(window);
+    this.render();
+    this.overlay.classList.remove("hidden");
+    this.attachKeyHandler();
+    this.pollHandle = requestAnimationFrame(this.pollDevices);
+  }
+
+  close(): void {
+    if (!this._isOpen) return;
+    this._isOpen = false;
+    this.overlay.classList.add("hidden");
+    this.overlay.innerHTML = "";
+    this.detachKeyHandler();
+    if (this.pollHandle !== null) cancelAnimationFrame(this.pollHandle);
+    this.pollHandle = null;
+    this.devices?.dispose();
+    this.devices = null;
+    this.callbacks.onClose?.();
+  }
+
+  toggle(): void {
+    if (this._isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  private rows(): ControlsRow[] {
+    const bindings = this.settings[this.tab];
+    const rows: ControlsRow[] = [];
+
+    for (const [name, axis] of Object.entries(bindings.axes) as Array<[string, AxisBinding]>) {
+      const label = actionLabel(name);
+      rows.push({ kind: "bind", label: `${label} +`, list: axis.positive });
+      rows.push({ kind: "bind", label: `${label} -`, list: axis.negative });
+      rows.push({ kind: "response", label: `${label} RESPONSE`, axis });
+    }
+    for (const [name, list] of Object.entries(bindings.buttons) as Array<[string, string[]]>) {
+      rows.push({ kind: "bind", label: actionLabel(name), list });
+    }
+    if (this.tab === "ground") {
+      rows.push({ kind: "mouse", label: "MOUSE LOOK" });
+    }
+    return rows;
+  }
+
+  private render(): void {
+    const rows = this.rows();
+    const lines = rows.map((row, idx) => {
+      let value: string;
+      if (row.kind === "bind") {
+        value = idx === this.selected && this.capturing
+          ? "PRESS A KEY, BUTTON OR STICK…"
+          : row.list.map(bindingLabel).join(" / ") || "UNBOUND";
+      } else if (row.kind === "response") {
+        const a = row.axis;
+        value = `DZ ${a.deadzone.toFixed(2)} • CURVE ${a.curve.toFixed(1)} • SENS ${a.sensitivity.toFixed(1)}${a.invert ? " • INVERTED" : ""}`;
+      } else {
+        value = `SENS ${this.settings.mouseSensitivity.toFixed(1)}`;
+      }
+      const marker = idx === this.selected ? "›" : " ";
+      return `<div class="overlay-row">${marker} ${row.label}  <span class="right">${value}</span></div>`;
+    }).join("");
+
+    this.shownGamepad = this.devices?.gamepadId ?? null;
+    const gamepad = this.shownGamepad ?? "none (press a button to connect)";
+    this.overlay.innerHTML = `
+      <div class="overlay-panel">
+        <div class="overlay-title">CONTROLS — ${this.tab === "space" ? "FLIGHT" : "GROUND"}</div>
+        <div class="overlay-sub">Gamepad: ${gamepad}</div>
+        <div class="overlay-list">${lines}</div>
+        <div class="overlay-hint">↑/↓ select • Enter rebind • Backspace clear • Tab flight/ground • R reset</div>
+        <div class="overlay-hint">Response: ←/→ deadzone • [/] curve • -/+ sensitivity • I invert • O/Esc close</div>
+      </div>
+    `;
+  }
+
+  private changed(): void {
+    this.callbacks.onChange?.();
+    this.render();
+  }
+
+  private finishCapture(binding: string | null): void {
+    const row = this.rows()[this.selected];
+    this.capturing = false;
+    if (binding && row?.kind === "bind") {
+      addBinding(row.list, binding);
+      this.changed();
+    } else {
+      this.render();
+    }
+  }
+
+  /** Polls mouse and gamepad for rebinding; keyboard goes through keyHandler */
+  private pollDevices = (): void => {
+    if (!this.devices) return;
+    const state = this.devices.poll();
+    if (this.capturing) {
+      const binding = detectBinding(state);
+      if (binding && !binding.startsWith("key:")) this.finishCapture(binding);
+    }
+    if (this.devices.gamepadId !== this.shownGamepad) this.render();
+    this.pollHandle = requestAnimationFrame(this.pollDevices);
+  };
+
+  private adjust(row: ControlsRow, key: string): boolean {
+    if (row.kind === "mouse") {
+      if (key !== "ArrowLeft" && key !== "ArrowRight") return false;
+      const step = key === "ArrowLeft" ? -SENSITIVITY_STEP : SENSITIVITY_STEP;
+      this.settings.mouseSensitivity = round(clamp(this.settings.mouseSensitivity + step, 0.1, 5));
+      return true;
+    }
+    if (row.kind !== "response") return false;
+
+    const a = row.axis;
+    switch (key) {
+      case "ArrowLeft":
+      case "ArrowRight":
+        a.deadzone = round(clamp(a.deadzone + (key === "ArrowLeft" ? -DEADZONE_STEP : DEADZONE_STEP), 0, 0.9));
+        return true;
+      case "[":
+      case "]":
+        a.curve = round(clamp(a.curve + (key === "[" ? -CURVE_STEP : CURVE_STEP), 0.5, 4));
+        return true;
+      case "-":
+      case "=":
+      case "+":
+        a.sensitivity = round(clamp(a.sensitivity + (key === "-" ? -SENSITIVITY_STEP : SENSITIVITY_STEP), 0.1, 3));
+        return true;
+      case "i":
+        a.invert = !a.invert;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private attachKeyHandler(): void {
+    this.keyHandler = (e: KeyboardEvent) => {
+      // The overlay owns the keyboard while open (keeps map hotkeys quiet)
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.repeat && this.capturing) return;
+
+      const key = normalizeKey(e.key);
+
+      if (this.capturing) {
+        this.finishCapture(key === "Escape" ? null : `key:${key}`);
+        return;
+      }
+
+      const rows = this.rows();
+      const row = rows[this.selected];
+      if (row && this.adjust(row, key)) {
+        this.changed();
+        return;
+      }
+
+      switch (key) {
+        case "ArrowUp":
+          this.selected = (this.selected - 1 + rows.length) % rows.length;
+          this.render();
+          break;
+        case "ArrowDown":
+          this.selected = (this.selected + 1) % rows.length;
+          this.render();
+          break;
+        case "Tab":
+          this.tab = this.tab === "space" ? "ground" : "space";
+          this.selected = 0;
+          this.render();
+          break;
+        case "Enter":
+          if (row?.kind === "bind") {
+            this.capturing = true;
+            this.render();
+          }
+          break;
+        case "Backspace":
+        case "Delete":
+          if (row?.kind === "bind") {
+            row.list.length = 0;
+            this.changed();
+          }
+          break;
+        case "r": {
+          const defaults = createDefaultControlSettings();
+          if (this.tab === "space") {
+            this.settings.space = defaults.space;
+          } else {
+            this.settings.ground = defaults.ground;
+            this.settings.mouseSensitivity = defaults.mouseSensitivity;
+          }
+          this.changed();
+          break;
+        }
+        case "o":
+        case "Escape":
+          this.close();
+          break;
+      }
+    };
+    window.addEventListener("keydown", this.keyHandler, { capture: true });
+  }
+
+  private detachKeyHandler(): void {
+    if (this.keyHandler) {
+      window.removeEventListener("keydown", this.keyHandler, { capture: true });
+      this.keyHandler = null;
+    }
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.close();
+    this.overlay.innerHTML = "";
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * DebriefOverlay - End-of-mission debrief: score, medal rating, gunnery,
+ * kills, objectives and any awards unlocked into the pilot record
+ */
+
+import { getAward, type MissionDebrief, type PilotRecordUpdate } from "@xwingz/gameplay";
+
+export type DebriefOverlayCallbacks = {
+  onClose?: () => void;
+};
+
+const RATING_LABELS: Record<MissionDebrief["rating"], string> = {
+  none: "NO MEDAL",
+  bronze: "BRONZE",
+  silver: "SILVER",
+  gold: "GOLD"
+};
+
+/**
+ * Manages the debrief overlay UI
+ */
+export class DebriefOverlay {
+  private overlay: HTMLDivElement;
+  private callbacks: DebriefOverlayCallbacks;
+  private _isOpen = false;
+  private keyHandler: ((e: KeyboardEvent) => void) | null = null;
+
+  constructor(overlay: HTMLDivElement, callbacks: DebriefOverlayCallbacks = {}) {
+    this.overlay = overlay;
+    this.callbacks = callbacks;
+  }
+
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+
+  open(debrief: MissionDebrief, update: PilotRecordUpdate): void {
+    this._isOpen = true;
+    this.render(debrief, update);
+    this.overlay.classList.remove("hidden");
+    this.attachKeyHandler();
+  }
+
+  close(): void {
+    if (!this._isOpen) return;
+    this._isOpen = false;
+    this.overlay.classList.add("hidden");
+    this.overlay.innerHTML = "";
+    this.detachKeyHandler();
+    this.callbacks.onClose?.();
+  }
+
+  private render(d: MissionDebrief, update: PilotRecordUpdate): void {
+    const rows: string[] = [];
+    const row = (label: string, value: string) =>
+      rows.push(`<div class="overlay-row">${label}<span class="right">${value}</span></div>`);
+
+    row("SCORE", `${d.score}${update.newBest ? "  NEW BEST" : ""}`);
+    row("MISSION TIME", formatTime(d.missionTime));
+    row("ACCURACY", `${Math.round(d.accuracy * 100)}%  <span class="muted">${d.hits}/${d.shotsFired}</span>`);
+
+    const byType = Object.entries(d.killsByType)
+      .map(([type, count]) => `${type.replace(/_/g, " ").toUpperCase()} ${count}`)
+      .join(" • ");
+    row("KILLS", `${d.kills}${byType ? `  <span class="muted">${byType}</span>` : ""}`);
+    if (d.wingmanKills > 0) row("WINGMAN KILLS", `${d.wingmanKills}`);
+    row("DAMAGE TAKEN", `${Math.round(d.damageTaken)}  <span class="muted">${Math.round(d.damageFraction * 100)}% of ship</span>`);
+    row("CREDITS", `+${d.credits} CR`);
+
+    for (const o of d.objectives) {
+      const time = o.time !== null ? `  <span class="muted">${formatTime(o.time)}</span>` : "";
+      const label = o.optional ? `${o.name} <span class="muted">(optional)</span>` : o.name;
+      row(label, `${o.outcome.toUpperCase()}${time}`);
+    }
+
+    for (const id of update.newAwards) {
+      const award = getAward(id);
+      if (award) row(`AWARD: ${award.name.toUpperCase()}`, `<span class="muted">${award.description}</span>`);
+    }
+
+    this.overlay.innerHTML = `
+      <div class="overlay-panel">
+        <div class="overlay-title">DEBRIEF - ${d.title.toUpperCase()}</div>
+        <div class="overlay-sub">${d.outcome === "victory" ? "MISSION COMPLETE" : "MISSION FAILED"} • ${RATING_LABELS[d.rating]}</div>
+        <div class="overlay-list">${rows.join("")}</div>
+        <div class="overlay-hint">Enter/Esc to continue</div>
+      </div>
+    `;
+  }
+
+  private attachKeyHandler(): void {
+    this.detachKeyHandler();
+    this.keyHandler = (e: KeyboardEvent) => {
+      if (e.key === "Enter" || e.key === "Escape") {
+        this.close();
+      }
+    };
+    window.addEventListener("keydown", this.keyHandler);
+  }
+
+  private detachKeyHandler(): void {
+    if (this.keyHandler) {
+      window.removeEventListener("keydown", this.keyHandler);
+      this.keyHandler = null;
+    }
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.detachKeyHandler();
+    if (this._isOpen) {
+      this._isOpen = false;
+      this.overlay.classList.add("hidden");
+      this.overlay.innerHTML = "";
+    }
+  }
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
+}
@@ -3,3 +3,5 @@
  */
 
 export * from "./UpgradesOverlay";
+export * from "./ControlsOverlay";
+export * from "./DebriefOverlay";
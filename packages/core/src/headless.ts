@@ -0,0 +1,226 @@
+/**
+ * Headless simulation runner
+ *
+ * Steps a world at a fixed tick with no browser: each tick reads the input for
+ * that tick from a scripted source, runs the systems in order, then snapshots
+ * and hashes the world. Two runs from the same setup and script must produce
+ * the same hash sequence - that is what determinism tests check.
+ *
+ * Input is generic so the same runner drives flight (SpaceInputState),
+ * ground (GroundInputState) or both at once.
+ *
+ * Snapshots identify entities by their position in the world's entity list
+ * rather than by eid: bitECS hands out eids from a process-wide cursor, so the
+ * same simulation gets different eids in a second world. Fields holding entity
+ * ids must be listed in `entityRefs` so they are remapped the same way.
+ */
+
+import { createWorld, getAllEntities, hasComponent, type IWorld } from "bitecs";
+import { DEFAULT_TIME_CONFIG } from "./time";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One system step. Systems that ignore input or tick simply don't read them. */
+export type SimSystem<TInput> = (world: IWorld, input: TInput, dt: number, tick: number) => void;
+
+/** Input for a tick */
+export type SimInputSource<TInput> = (tick: number, world: IWorld) => TInput;
+
+/** Held input from tick `at` until (but not including) tick `until`; one tick if omitted */
+export interface SimInputStep<TInput> {
+  at: number;
+  until?: number;
+  input: Partial<TInput>;
+}
+
+// bitECS component stores: one typed array per field (or an array of typed arrays)
+type FieldStore = ArrayLike<number> | ArrayLike<ArrayLike<number>>;
+export type SimComponentStore = Record<string, FieldStore>;
+
+/** Components captured in snapshots, by name */
+export type SimComponents = Record<string, object>;
+
+/** Fields holding entity ids, by component name */
+export type SimEntityRefs = Record<string, readonly string[]>;
+
+export type SimFieldValue = number | number[];
+
+/** Every listed component on every entity, in world entity order */
+export interface WorldSnapshot {
+  entities: Array<Record<string, Record<string, SimFieldValue>>>;
+}
+
+export interface SimFrame {
+  tick: number;
+  /** Simulated seconds after this tick */
+  time: number;
+  hash: string;
+  snapshot?: WorldSnapshot;
+}
+
+export interface HeadlessSimConfig<TInput> {
+  /** Defaults to a fresh world */
+  world?: IWorld;
+  /** Defaults to DEFAULT_TIME_CONFIG.tickHz */
+  tickHz?: number;
+  /** Runs once before the first tick - reset module state, spawn entities */
+  setup?: (world: IWorld) => void;
+  systems: SimSystem<TInput>[];
+  input: SimInputSource<TInput>;
+  components: SimComponents;
+  entityRefs?: SimEntityRefs;
+  /** Keep the snapshot on every frame (memory heavy for long runs) */
+  keepSnapshots?: boolean;
+}
+
+export interface SimRunResult {
+  frames: SimFrame[];
+  ticks: number;
+  finalHash: string;
+  finalSnapshot: WorldSnapshot;
+}
+
+export interface HeadlessSim {
+  readonly world: IWorld;
+  readonly tick: number;
+  readonly dt: number;
+  step(): SimFrame;
+  /** Step `ticks` times, or until `until` returns true after a tick */
+  run(ticks: number, until?: (world: IWorld, tick: number) => boolean): SimRunResult;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scripted Input
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Input source that starts every tick from `neutral` and applies each step
+ * covering the tick, later steps overriding earlier ones.
+ */
+export function createScriptedInput<TInput extends object>(
+  neutral: TInput,
+  steps: SimInputStep<TInput>[]
+): SimInputSource<TInput> {
+  return (tick) => {
+    const input = { ...neutral };
+    for (const step of steps) {
+      const until = step.until ?? step.at + 1;
+      if (tick >= step.at && tick < until) {
+        Object.assign(input, step.input);
+      }
+    }
+    return input;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Snapshots & Hashing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readField(store: FieldStore, eid: number): SimFieldValue {
+  const value = store[eid];
+  if (typeof value === "number") return value;
+  return value ? Array.from(value) : 0;
+}
+
+/**
+ * Capture the listed components of every entity in a world.
+ */
+export function snapshotWorld(world: IWorld, components: SimComponents, entityRefs: SimEntityRefs = {}): WorldSnapshot {
+  const eids = getAllEntities(world);
+  const ordinal = new Map<number, number>(eids.map((eid, i) => [eid, i]));
+  const names = Object.keys(components).sort();
+
+  const entities = eids.map((eid) => {
+    const record: Record<string, Record<string, SimFieldValue>> = {};
+    for (const name of names) {
+      const component = components[name]!;
+      if (!hasComponent(world, component, eid)) continue;
+
+      const store = component as SimComponentStore;
+      const refs = entityRefs[name] ?? [];
+      const fields: Record<string, SimFieldValue> = {};
+      for (const key of Object.keys(store).sort()) {
+        const value = readField(store[key]!, eid);
+        // A reference to an entity outside the world (or none) becomes -1
+        fields[key] = refs.includes(key) && typeof value === "number" ? ordinal.get(value) ?? -1 : value;
+      }
+      record[name] = fields;
+    }
+    return record;
+  });
+
+  return { entities };
+}
+
+/**
+ * 32-bit FNV-1a hash of a snapshot, as 8 hex digits.
+ */
+export function hashSnapshot(snapshot: WorldSnapshot): string {
+  const text = JSON.stringify(snapshot);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createHeadlessSim<TInput>(config: HeadlessSimConfig<TInput>): HeadlessSim {
+  const world = config.world ?? createWorld();
+  const dt = 1 / (config.tickHz ?? DEFAULT_TIME_CONFIG.tickHz);
+  const entityRefs = config.entityRefs ?? {};
+  let tick = 0;
+  let initialized = false;
+
+  function step(): SimFrame {
+    if (!initialized) {
+      initialized = true;
+      config.setup?.(world);
+    }
+
+    const input = config.input(tick, world);
+    for (const system of config.systems) {
+      system(world, input, dt, tick);
+    }
+    tick += 1;
+
+    const snapshot = snapshotWorld(world, config.components, entityRefs);
+    const frame: SimFrame = { tick, time: tick * dt, hash: hashSnapshot(snapshot) };
+    if (config.keepSnapshots) frame.snapshot = snapshot;
+    return frame;
+  }
+
+  return {
+    world,
+    get tick() {
+      return tick;
+    },
+    dt,
+    step,
+    run(ticks, until) {
+      const frames: SimFrame[] = [];
+      for (let i = 0; i < ticks; i++) {
+        frames.push(step());
+        if (until?.(world, tick)) break;
+      }
+      if (!initialized) {
+        initialized = true;
+        config.setup?.(world);
+      }
+      const finalSnapshot = snapshotWorld(world, config.components, entityRefs);
+      return {
+        frames,
+        ticks: tick,
+        finalHash: hashSnapshot(finalSnapshot),
+        finalSnapshot
+      };
+    }
+  };
+}
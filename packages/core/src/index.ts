@@ -3,3 +3,6 @@ export * from "./time";
 export * from "./rng";
 export * from "./logger";
 export * from "./math";
+export * from "./headless";
+export * from "./replay";
+export * from "./net";
@@ -0,0 +1,544 @@
+/**
+ * Lockstep co-op networking
+ *
+ * Players in a room exchange per-tick input frames through a relay that only
+ * forwards them - no world state is ever sent. Every client runs the same
+ * deterministic simulation from the same seed and steps tick N only once it
+ * holds every player's input for N, so the worlds stay identical. Local input
+ * is scheduled `inputDelay` ticks ahead to hide the round trip, and clients
+ * swap world hashes now and then so a desync is caught where it starts.
+ *
+ * The relay (createRelayHub) and the client (createLockstepSession) only see a
+ * NetTransport, so they run over WebSockets (tools/relay) or wired together
+ * in-process (connectInProcess) for tests and headless sims.
+ *
+ * Messages are JSON. Client → relay: join, input, hash. Relay → client:
+ * joined, start, input, hash, left, error.
+ */
+
+import type { RecordableInput } from "./replay";
+
+export const NET_PROTOCOL_VERSION = 1;
+
+/** Players per room unless the host asks for another size */
+export const DEFAULT_ROOM_SIZE = 2;
+export const MAX_ROOM_SIZE = 4;
+
+/** Ticks between pressing a key and it taking effect on every client */
+export const DEFAULT_INPUT_DELAY = 3;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Protocol
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface NetPlayer {
+  slot: number;
+  name: string;
+  /** Whatever the client sent with its join (loadout, ship...) */
+  data: unknown;
+}
+
+export type NetMessage =
+  | {
+      type: "join";
+      version: number;
+      room: string;
+      name: string;
+      data?: unknown;
+      /** Only used by the player who opens the room */
+      size?: number;
+      seed?: string;
+      mission?: unknown;
+    }
+  | { type: "joined"; room: string; slot: number; size: number }
+  | { type: "start"; seed: string; mission: unknown; players: NetPlayer[] }
+  | { type: "input"; tick: number; input: RecordableInput; slot?: number }
+  | { type: "hash"; tick: number; hash: string; slot?: number }
+  | { type: "left"; slot: number; tick: number }
+  | { type: "error"; message: string };
+
+export function encodeNetMessage(message: NetMessage): string {
+  return JSON.stringify(message);
+}
+
+function isTick(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0;
+}
+
+function isInput(v: unknown): v is RecordableInput {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) return false;
+  return Object.values(v).every((x) => typeof x === "boolean" || (typeof x === "number" && Number.isFinite(x)));
+}
+
+/**
+ * Input exactly as the other clients will decode it: JSON has no -0 (which
+ * atan2 and friends can tell apart from 0) and no NaN or Infinity.
+ */
+function toWireInput<TInput extends RecordableInput>(input: TInput): TInput {
+  const wire: RecordableInput = { ...input };
+  for (const key of Object.keys(wire)) {
+    const value = wire[key];
+    if (typeof value === "number") wire[key] = Number.isFinite(value) ? value + 0 : 0;
+  }
+  return wire as TInput;
+}
+
+/**
+ * Parse and validate a message. Returns null for anything malformed.
+ */
+export function decodeNetMessage(text: string): NetMessage | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== "object" || raw === null) return null;
+
+  const msg = raw as Record<string, unknown>;
+  const slotOk = msg.slot === undefined || isTick(msg.slot);
+  switch (msg.type) {
+    case "join":
+      if (typeof msg.version !== "number" || typeof msg.room !== "string" || typeof msg.name !== "string") return null;
+      if (msg.room.length === 0) return null;
+      if (msg.size !== undefined && !isTick(msg.size)) return null;
+      if (msg.seed !== undefined && (typeof msg.seed !== "string" || !/^-?\d+$/.test(msg.seed))) return null;
+      return msg as NetMessage;
+    case "joined":
+      return typeof msg.room === "string" && isTick(msg.slot) && isTick(msg.size) ? (msg as NetMessage) : null;
+    case "start":
+      if (typeof msg.seed !== "string" || !/^-?\d+$/.test(msg.seed) || !Array.isArray(msg.players)) return null;
+      return msg.players.every((p) => isTick(p?.slot) && typeof p?.name === "string") ? (msg as NetMessage) : null;
+    case "input":
+      return isTick(msg.tick) && isInput(msg.input) && slotOk ? (msg as NetMessage) : null;
+    case "hash":
+      return isTick(msg.tick) && typeof msg.hash === "string" && slotOk ? (msg as NetMessage) : null;
+    case "left":
+      return isTick(msg.slot) && isTick(msg.tick) ? (msg as NetMessage) : null;
+    case "error":
+      return typeof msg.message === "string" ? (msg as NetMessage) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A connection carrying text messages. The owner of the connection sets the
+ * handlers; send() after close() is ignored.
+ */
+export interface NetTransport {
+  send(text: string): void;
+  close(): void;
+  onmessage: ((text: string) => void) | null;
+  onclose: (() => void) | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Relay
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One client as the relay sees it */
+export interface RelayConnection {
+  receive(text: string): void;
+  close(): void;
+}
+
+export interface RelayHub {
+  readonly roomCount: number;
+  /** Attach a client; `send` delivers text to it */
+  connect(send: (text: string) => void): RelayConnection;
+}
+
+interface RelayMember {
+  send: (text: string) => void;
+  slot: number;
+  name: string;
+  data: unknown;
+  /** Highest input tick forwarded for this player, -1 before any */
+  lastTick: number;
+}
+
+interface RelayRoom {
+  id: string;
+  size: number;
+  seed: string;
+  mission: unknown;
+  members: RelayMember[];
+  started: boolean;
+}
+
+/**
+ * Room bookkeeping and frame forwarding. The first join opens a room (and
+ * picks its size, seed and mission); it starts once full and never takes
+ * late joiners. After the start, a player leaving is announced with the
+ * first tick they have no input for, so everyone drops them on the same tick.
+ */
+export function createRelayHub(): RelayHub {
+  const rooms = new Map<string, RelayRoom>();
+
+  function send(member: RelayMember, message: NetMessage): void {
+    member.send(encodeNetMessage(message));
+  }
+
+  function broadcast(room: RelayRoom, message: NetMessage, except?: RelayMember): void {
+    const text = encodeNetMessage(message);
+    for (const member of room.members) {
+      if (member !== except) member.send(text);
+    }
+  }
+
+  function join(conn: (text: string) => void, msg: Extract<NetMessage, { type: "join" }>): { room: RelayRoom; member: RelayMember } | string {
+    if (msg.version !== NET_PROTOCOL_VERSION) return `protocol version ${msg.version} is not supported`;
+
+    let room = rooms.get(msg.room);
+    if (!room) {
+      const size = Math.max(1, Math.min(MAX_ROOM_SIZE, msg.size ?? DEFAULT_ROOM_SIZE));
+      room = { id: msg.room, size, seed: msg.seed ?? "0", mission: msg.mission ?? null, members: [], started: false };
+      rooms.set(room.id, room);
+    }
+    if (room.started) return `room "${room.id}" has already started`;
+    if (room.members.length >= room.size) return `room "${room.id}" is full`;
+
+    // Lowest free slot, so a player who drops out before the start is replaced in place
+    let slot = 0;
+    while (room.members.some((m) => m.slot === slot)) slot++;
+    const member: RelayMember = { send: conn, slot, name: msg.name, data: msg.data ?? null, lastTick: -1 };
+    room.members.push(member);
+    room.members.sort((a, b) => a.slot - b.slot);
+    return { room, member };
+  }
+
+  function leave(room: RelayRoom, member: RelayMember): void {
+    room.members = room.members.filter((m) => m !== member);
+    if (room.members.length === 0) {
+      rooms.delete(room.id);
+      return;
+    }
+    if (room.started) {
+      broadcast(room, { type: "left", slot: member.slot, tick: member.lastTick + 1 });
+    }
+  }
+
+  return {
+    get roomCount() {
+      return rooms.size;
+    },
+
+    connect(sendText) {
+      let room: RelayRoom | null = null;
+      let member: RelayMember | null = null;
+      let closed = false;
+
+      return {
+        receive(text) {
+          if (closed) return;
+          const msg = decodeNetMessage(text);
+          if (!msg) {
+            sendText(encodeNetMessage({ type: "error", message: "malformed message" }));
+            return;
+          }
+
+          if (msg.type === "join") {
+            if (member) {
+              sendText(encodeNetMessage({ type: "error", message: "already in a room" }));
+              return;
+            }
+            const result = join(sendText, msg);
+            if (typeof result === "string") {
+              sendText(encodeNetMessage({ type: "error", message: result }));
+              return;
+            }
+            room = result.room;
+            member = result.member;
+            send(member, { type: "joined", room: room.id, slot: member.slot, size: room.size });
+
+            if (room.members.length === room.size) {
+              room.started = true;
+              broadcast(room, {
+                type: "start",
+                seed: room.seed,
+                mission: room.mission,
+                players: room.members.map((m) => ({ slot: m.slot, name: m.name, data: m.data }))
+              });
+            }
+            return;
+          }
+
+          if (!room || !member || !room.started) return;
+
+          if (msg.type === "input") {
+            member.lastTick = Math.max(member.lastTick, msg.tick);
+            broadcast(room, { type: "input", slot: member.slot, tick: msg.tick, input: msg.input }, member);
+          } else if (msg.type === "hash") {
+            broadcast(room, { type: "hash", slot: member.slot, tick: msg.tick, hash: msg.hash }, member);
+          }
+        },
+
+        close() {
+          if (closed) return;
+          closed = true;
+          if (room && member) leave(room, member);
+          room = null;
+          member = null;
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Client end of an in-process connection to a hub. Delivery is synchronous.
+ */
+export function connectInProcess(hub: RelayHub): NetTransport {
+  let open = true;
+  const transport: NetTransport = {
+    onmessage: null,
+    onclose: null,
+    send(text) {
+      if (open) connection.receive(text);
+    },
+    close() {
+      if (!open) return;
+      open = false;
+      connection.close();
+      transport.onclose?.();
+    }
+  };
+  const connection = hub.connect((text) => {
+    if (open) transport.onmessage?.(text);
+  });
+  return transport;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lockstep Client
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LockstepStatus = "idle" | "waiting" | "running" | "closed";
+
+export interface LockstepJoinOptions {
+  room: string;
+  name: string;
+  data?: unknown;
+  /** Used if this join opens the room */
+  size?: number;
+  seed?: bigint;
+  mission?: unknown;
+}
+
+export interface LockstepSessionOptions<TInput> {
+  transport: NetTransport;
+  /** Input for ticks before anyone's first frame and for players who left */
+  neutral: TInput;
+  inputDelay?: number;
+  onStart?: () => void;
+  /** Connection lost or refused; `error` says why if the relay did */
+  onClose?: (error: string | null) => void;
+}
+
+export interface LockstepSession<TInput> {
+  readonly status: LockstepStatus;
+  /** This client's slot, -1 until joined */
+  readonly slot: number;
+  readonly room: string | null;
+  readonly roomSize: number;
+  readonly players: readonly NetPlayer[];
+  /** Room seed, known once started */
+  readonly seed: bigint | null;
+  readonly mission: unknown;
+  /** Next tick to simulate */
+  readonly tick: number;
+  readonly error: string | null;
+  /** First tick whose world hash differed between clients */
+  readonly desyncTick: number | null;
+  join(options: LockstepJoinOptions): void;
+  /**
+   * Queue `local` and return every player's input (in slot order) for the
+   * next tick, or null while someone's input for it hasn't arrived. Nothing
+   * is queued when it returns null - call again with fresh input next frame.
+   */
+  step(local: TInput): TInput[] | null;
+  /** Share the world hash after the last stepped tick */
+  reportHash(hash: string): void;
+  leave(): void;
+}
+
+export function createLockstepSession<TInput extends RecordableInput>(
+  options: LockstepSessionOptions<TInput>
+): LockstepSession<TInput> {
+  const { transport, neutral } = options;
+  const inputDelay = Math.max(0, options.inputDelay ?? DEFAULT_INPUT_DELAY);
+
+  let status: LockstepStatus = "idle";
+  let slot = -1;
+  let room: string | null = null;
+  let roomSize = 0;
+  let players: NetPlayer[] = [];
+  let seed: bigint | null = null;
+  let mission: unknown = null;
+  let tick = 0;
+  let error: string | null = null;
+  let desyncTick: number | null = null;
+
+  // Pending input per slot, by tick
+  let frames: Map<number, TInput>[] = [];
+  // First tick each slot has no input for, once they leave
+  const leftAt = new Map<number, number>();
+  // Hashes waiting for the other side, by tick
+  const localHashes = new Map<number, string>();
+  const remoteHashes = new Map<number, string[]>();
+
+  function close(reason: string | null): void {
+    if (status === "closed") return;
+    status = "closed";
+    if (reason) error = reason;
+    transport.onmessage = null;
+    transport.onclose = null;
+    transport.close();
+    options.onClose?.(error);
+  }
+
+  function checkHash(at: number): void {
+    const mine = localHashes.get(at);
+    const theirs = remoteHashes.get(at);
+    if (mine === undefined || !theirs) return;
+    if (desyncTick === null && theirs.some((h) => h !== mine)) desyncTick = at;
+    if (theirs.length >= players.length - 1 - leftAt.size) {
+      localHashes.delete(at);
+      remoteHashes.delete(at);
+    }
+  }
+
+  function handle(text: string): void {
+    const msg = decodeNetMessage(text);
+    if (!msg) return;
+
+    switch (msg.type) {
+      case "joined":
+        slot = msg.slot;
+        room = msg.room;
+        roomSize = msg.size;
+        status = "waiting";
+        break;
+      case "start":
+        players = [...msg.players].sort((a, b) => a.slot - b.slot);
+        seed = BigInt(msg.seed);
+        mission = msg.mission;
+        frames = players.map(() => new Map<number, TInput>());
+        status = "running";
+        options.onStart?.();
+        break;
+      case "input": {
+        const from = msg.slot ?? -1;
+        if (from === slot || from < 0 || from >= frames.length) break;
+        if (msg.tick >= tick) frames[from]!.set(msg.tick, { ...neutral, ...msg.input } as TInput);
+        break;
+      }
+      case "hash": {
+        const list = remoteHashes.get(msg.tick) ?? [];
+        list.push(msg.hash);
+        remoteHashes.set(msg.tick, list);
+        checkHash(msg.tick);
+        break;
+      }
+      case "left":
+        leftAt.set(msg.slot, msg.tick);
+        break;
+      case "error":
+        close(msg.message);
+        break;
+    }
+  }
+
+  function inputFor(from: number, at: number): TInput | null {
+    const gone = leftAt.get(from);
+    if (gone !== undefined && at >= gone) return { ...neutral };
+    const frame = frames[from]?.get(at);
+    if (frame) return frame;
+    return at < inputDelay ? { ...neutral } : null;
+  }
+
+  return {
+    get status() {
+      return status;
+    },
+    get slot() {
+      return slot;
+    },
+    get room() {
+      return room;
+    },
+    get roomSize() {
+      return roomSize;
+    },
+    get players() {
+      return players;
+    },
+    get seed() {
+      return seed;
+    },
+    get mission() {
+      return mission;
+    },
+    get tick() {
+      return tick;
+    },
+    get error() {
+      return error;
+    },
+    get desyncTick() {
+      return desyncTick;
+    },
+
+    join(opts) {
+      if (status !== "idle") throw new Error(`Cannot join a room while ${status}`);
+      transport.onmessage = handle;
+      transport.onclose = () => close("connection lost");
+      transport.send(
+        encodeNetMessage({
+          type: "join",
+          version: NET_PROTOCOL_VERSION,
+          room: opts.room,
+          name: opts.name,
+          data: opts.data,
+          size: opts.size,
+          seed: opts.seed?.toString(),
+          mission: opts.mission
+        })
+      );
+    },
+
+    step(local) {
+      if (status !== "running") return null;
+
+      const inputs: TInput[] = [];
+      for (let s = 0; s < players.length; s++) {
+        const input = inputFor(s, tick);
+        if (!input) return null;
+        inputs.push(input);
+      }
+
+      // Everyone's input for this tick is in: queue ours for tick + delay
+      const ahead = tick + inputDelay;
+      const wire = toWireInput(local);
+      frames[slot]?.set(ahead, wire);
+      transport.send(encodeNetMessage({ type: "input", tick: ahead, input: wire }));
+
+      for (const frame of frames) frame.delete(tick);
+      tick += 1;
+      return inputs;
+    },
+
+    reportHash(hash) {
+      if (status !== "running" || tick === 0) return;
+      const at = tick - 1;
+      localHashes.set(at, hash);
+      transport.send(encodeNetMessage({ type: "hash", tick: at, hash }));
+      checkHash(at);
+    },
+
+    leave() {
+      close(null);
+    }
+  };
+}
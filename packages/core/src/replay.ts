@@ -0,0 +1,214 @@
+/**
+ * Input recording & replay
+ *
+ * Records the input a mode feeds its systems on every tick, together with the
+ * mission seed, and plays it back. The seed fixes every spawn and the
+ * recording fixes every input, so a fixed-tick simulation replays exactly.
+ *
+ * Recordings are compact JSON: each tick's input becomes a row of numbers
+ * (booleans as 0/1) in a fixed key order, and runs of identical ticks
+ * collapse into one row prefixed with the run length.
+ */
+
+import type { SimInputSource } from "./headless";
+import { DEFAULT_TIME_CONFIG } from "./time";
+
+export const INPUT_RECORDING_VERSION = 1;
+
+/** Flat input state - SpaceInputState, GroundInputState */
+export type RecordableInput = Record<string, number | boolean>;
+
+export interface InputRecording {
+  version: number;
+  /** Mission seed as a decimal string (JSON has no bigint) */
+  seed: string;
+  tickHz: number;
+  /** Input fields, in row order */
+  keys: string[];
+  /** Fields holding booleans (stored as 0/1) */
+  flags: string[];
+  /** One row per run of identical ticks: [ticks, ...values] */
+  runs: number[][];
+  /** Where it was recorded (mode, scenario, system...) */
+  meta: Record<string, unknown>;
+}
+
+export interface InputRecorder<TInput> {
+  readonly ticks: number;
+  record(input: TInput): void;
+  /** The recording so far; recording can continue afterwards */
+  finish(): InputRecording;
+}
+
+export interface InputReplay<TInput> {
+  readonly seed: bigint;
+  /** Recorded ticks */
+  readonly length: number;
+  /** Input recorded for `tick`, or null past the end */
+  at(tick: number): TInput | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recording
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createInputRecorder<TInput extends RecordableInput>(
+  seed: bigint,
+  options: { tickHz?: number; meta?: Record<string, unknown> } = {}
+): InputRecorder<TInput> {
+  let keys: string[] | null = null;
+  let flags: string[] = [];
+  const runs: number[][] = [];
+  let ticks = 0;
+
+  function sameValues(run: number[], row: number[]): boolean {
+    for (let i = 0; i < row.length; i++) {
+      if (run[i + 1] !== row[i]) return false;
+    }
+    return true;
+  }
+
+  return {
+    get ticks() {
+      return ticks;
+    },
+
+    record(input) {
+      // Key order is fixed by the first tick
+      if (!keys) {
+        keys = Object.keys(input);
+        flags = keys.filter((key) => typeof input[key] === "boolean");
+      }
+
+      const row = keys.map((key) => {
+        const value = input[key];
+        return typeof value === "boolean" ? (value ? 1 : 0) : value ?? 0;
+      });
+
+      const last = runs[runs.length - 1];
+      if (last && sameValues(last, row)) {
+        last[0] = (last[0] ?? 0) + 1;
+      } else {
+        runs.push([1, ...row]);
+      }
+      ticks += 1;
+    },
+
+    finish() {
+      return {
+        version: INPUT_RECORDING_VERSION,
+        seed: seed.toString(),
+        tickHz: options.tickHz ?? DEFAULT_TIME_CONFIG.tickHz,
+        keys: [...(keys ?? [])],
+        flags: [...flags],
+        runs: runs.map((run) => [...run]),
+        meta: { ...options.meta }
+      };
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Serialization
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function encodeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+/**
+ * Parse and validate a recording. Returns null for anything malformed or
+ * from another format version.
+ */
+export function decodeRecording(text: string): InputRecording | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== "object" || raw === null) return null;
+
+  const rec = raw as Partial<Record<keyof InputRecording, unknown>>;
+  if (rec.version !== INPUT_RECORDING_VERSION) return null;
+  if (typeof rec.seed !== "string" || !/^-?\d+$/.test(rec.seed)) return null;
+  if (typeof rec.tickHz !== "number" || !(rec.tickHz > 0)) return null;
+  if (!isStringArray(rec.keys) || !isStringArray(rec.flags)) return null;
+  if (!Array.isArray(rec.runs)) return null;
+
+  const width = rec.keys.length + 1;
+  for (const run of rec.runs) {
+    if (!Array.isArray(run) || run.length !== width) return null;
+    if (!run.every((v) => typeof v === "number" && Number.isFinite(v))) return null;
+    const repeat = run[0] as number;
+    if (!Number.isInteger(repeat) || repeat < 1) return null;
+  }
+
+  const meta = typeof rec.meta === "object" && rec.meta !== null ? (rec.meta as Record<string, unknown>) : {};
+  return {
+    version: rec.version,
+    seed: rec.seed,
+    tickHz: rec.tickHz,
+    keys: rec.keys,
+    flags: rec.flags,
+    runs: rec.runs as number[][],
+    meta
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Playback
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createInputReplay<TInput extends RecordableInput>(recording: InputRecording): InputReplay<TInput> {
+  const flags = new Set(recording.flags);
+
+  // First tick after each run, for binary search
+  const ends: number[] = [];
+  let total = 0;
+  for (const run of recording.runs) {
+    total += run[0] ?? 0;
+    ends.push(total);
+  }
+
+  // Decode each run once; at() hands out copies
+  const inputs = recording.runs.map((run) => {
+    const input: RecordableInput = {};
+    recording.keys.forEach((key, i) => {
+      const value = run[i + 1] ?? 0;
+      input[key] = flags.has(key) ? value !== 0 : value;
+    });
+    return input as TInput;
+  });
+
+  return {
+    seed: BigInt(recording.seed),
+    length: total,
+    at(tick) {
+      if (tick < 0 || tick >= total) return null;
+      let lo = 0;
+      let hi = ends.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (tick < ends[mid]!) hi = mid;
+        else lo = mid + 1;
+      }
+      return { ...inputs[lo]! };
+    }
+  };
+}
+
+/**
+ * Replay as a headless sim input source; ticks past the end get `neutral`.
+ */
+export function createReplayInput<TInput extends RecordableInput>(
+  recording: InputRecording,
+  neutral: TInput
+): SimInputSource<TInput> {
+  const replay = createInputReplay<TInput>(recording);
+  return (tick) => replay.at(tick) ?? { ...neutral };
+}
@@ -1,3 +1,5 @@
+import type { PlanetStyleId } from "./planets";
+
 export const DATA_VERSION = 0;
 
 // ---- ID Sets (v0) ----
@@ -101,6 +103,212 @@ export const SYSTEM_ARCHETYPES: SystemArchetype[] = [
   }
 ];
 
+// ---- Planet Archetypes (v0) ----
+export const PLANET_ATMOSPHERE_IDS = ["none", "thin", "breathable", "dense", "toxic", "corrosive"] as const;
+export type PlanetAtmosphereId = (typeof PLANET_ATMOSPHERE_IDS)[number];
+
+export const PLANET_HAZARD_IDS = [
+  "sandstorms",
+  "extreme_cold",
+  "extreme_heat",
+  "acid_rain",
+  "lava_flows",
+  "toxic_spores",
+  "tidal_storms",
+  "ion_storms",
+  "force_echoes",
+  "predators",
+  "radiation"
+] as const;
+export type PlanetHazardId = (typeof PLANET_HAZARD_IDS)[number];
+
+export const PLANET_SITE_IDS = [
+  "temple",
+  "wreck",
+  "kyber_seam",
+  "battlefield",
+  "outpost",
+  "spaceport",
+  "mine",
+  "ruins"
+] as const;
+export type PlanetSiteId = (typeof PLANET_SITE_IDS)[number];
+
+export type PlanetArchetype = {
+  id: string;
+  style: PlanetStyleId; // Texture style for getPlanetTexture
+  tags: string[];
+  affinityTags: string[]; // System tags that make this archetype more likely
+  orbitRange: [number, number]; // Preferred orbit, 0 = innermost .. 1 = outermost
+  landable: boolean;
+  biomes: string[];
+  atmosphereWeights: Partial<Record<PlanetAtmosphereId, number>>;
+  hazards: PlanetHazardId[];
+  hazardCountRange: [number, number];
+  palettes: Array<[number, number, number]>; // [ground, highlight, accent]
+  siteWeights: Partial<Record<PlanetSiteId, number>>;
+  siteSlotRange: [number, number];
+  radiusRange: [number, number]; // km
+  gravityRange: [number, number]; // g
+};
+
+// Curated per PROCGEN_PLAN 3.3; planets pick from these by orbit and system tags.
+export const PLANET_ARCHETYPES: PlanetArchetype[] = [
+  {
+    id: "lush_core_world",
+    style: "jungle",
+    tags: ["lush", "settled"],
+    affinityTags: ["core", "wealthy", "trade", "high_traffic"],
+    orbitRange: [0.25, 0.6],
+    landable: true,
+    biomes: ["rainforest", "temperate_forest", "grassland", "river_delta"],
+    atmosphereWeights: { breathable: 0.85, dense: 0.15 },
+    hazards: ["predators", "toxic_spores", "tidal_storms"],
+    hazardCountRange: [0, 1],
+    palettes: [[0x2d6a2d, 0x6fbf4a, 0x3a7ab8], [0x35592a, 0x9ccf5a, 0x4a90a8]],
+    siteWeights: { spaceport: 0.3, outpost: 0.3, ruins: 0.2, temple: 0.2 },
+    siteSlotRange: [2, 4],
+    radiusRange: [4800, 7200],
+    gravityRange: [0.85, 1.15]
+  },
+  {
+    id: "ecumenopolis",
+    style: "city",
+    tags: ["urban", "settled"],
+    affinityTags: ["core", "wealthy", "high_patrol", "trade_hub"],
+    orbitRange: [0.2, 0.5],
+    landable: true,
+    biomes: ["megacity", "industrial_sprawl", "undercity"],
+    atmosphereWeights: { breathable: 0.7, dense: 0.3 },
+    hazards: ["acid_rain", "radiation"],
+    hazardCountRange: [0, 1],
+    palettes: [[0x4a4a52, 0xffcc66, 0x8899aa], [0x3a3f4a, 0xffe08a, 0x6f7f99]],
+    siteWeights: { spaceport: 0.5, outpost: 0.2, ruins: 0.15, battlefield: 0.15 },
+    siteSlotRange: [3, 5],
+    radiusRange: [5500, 7500],
+    gravityRange: [0.9, 1.1]
+  },
+  {
+    id: "desert_scavenger_world",
+    style: "desert",
+    tags: ["arid", "frontier"],
+    affinityTags: ["frontier", "smuggler_friendly", "smuggler", "criminal", "low_patrol"],
+    orbitRange: [0, 0.4],
+    landable: true,
+    biomes: ["dune_sea", "canyon", "salt_flat", "badlands"],
+    atmosphereWeights: { breathable: 0.6, thin: 0.4 },
+    hazards: ["sandstorms", "extreme_heat", "predators"],
+    hazardCountRange: [1, 2],
+    palettes: [[0xc9a26b, 0xe8cf9a, 0x8a5a3a], [0xb8865a, 0xf0d8a8, 0x6e4a2e]],
+    siteWeights: { wreck: 0.4, outpost: 0.25, spaceport: 0.15, ruins: 0.2 },
+    siteSlotRange: [2, 4],
+    radiusRange: [3800, 6000],
+    gravityRange: [0.8, 1.05]
+  },
+  {
+    id: "frozen_relic_world",
+    style: "ice",
+    tags: ["frozen", "remote"],
+    affinityTags: ["ruins", "haunted", "low_patrol"],
+    orbitRange: [0.6, 1],
+    landable: true,
+    biomes: ["glacier", "ice_shelf", "tundra", "frozen_cavern"],
+    atmosphereWeights: { breathable: 0.5, thin: 0.5 },
+    hazards: ["extreme_cold", "predators", "ion_storms"],
+    hazardCountRange: [1, 2],
+    palettes: [[0xdfe9f2, 0xffffff, 0x7fa8c8], [0xc8d8e8, 0xf4f8ff, 0x5f88b0]],
+    siteWeights: { ruins: 0.35, temple: 0.2, kyber_seam: 0.2, outpost: 0.25 },
+    siteSlotRange: [1, 3],
+    radiusRange: [3500, 5500],
+    gravityRange: [0.8, 1.1]
+  },
+  {
+    id: "toxic_industrial_moon",
+    style: "volcanic",
+    tags: ["industrial", "hostile"],
+    affinityTags: ["dangerous", "battlefields", "criminal"],
+    orbitRange: [0, 0.5],
+    landable: true,
+    biomes: ["lava_field", "ash_plain", "refinery_zone", "sulfur_flat"],
+    atmosphereWeights: { toxic: 0.6, thin: 0.25, corrosive: 0.15 },
+    hazards: ["lava_flows", "extreme_heat", "acid_rain", "radiation"],
+    hazardCountRange: [2, 3],
+    palettes: [[0x3a2a22, 0xff5a1f, 0x8a8a3a], [0x2a2020, 0xff7a2a, 0x9a7a2a]],
+    siteWeights: { mine: 0.45, outpost: 0.25, battlefield: 0.2, wreck: 0.1 },
+    siteSlotRange: [2, 4],
+    radiusRange: [1800, 3600],
+    gravityRange: [0.4, 0.8]
+  },
+  {
+    id: "oceanic_route_world",
+    style: "ocean",
+    tags: ["oceanic", "trade"],
+    affinityTags: ["trade", "high_traffic", "trade_hub"],
+    orbitRange: [0.3, 0.7],
+    landable: true,
+    biomes: ["archipelago", "reef", "storm_sea", "floating_city"],
+    atmosphereWeights: { breathable: 0.8, dense: 0.2 },
+    hazards: ["tidal_storms", "predators"],
+    hazardCountRange: [0, 2],
+    palettes: [[0x1f4f8a, 0x4fa8d8, 0xd8c88a], [0x18466e, 0x62b8e0, 0xc8d89a]],
+    siteWeights: { spaceport: 0.35, outpost: 0.3, wreck: 0.2, ruins: 0.15 },
+    siteSlotRange: [1, 3],
+    radiusRange: [5000, 7500],
+    gravityRange: [0.9, 1.2]
+  },
+  {
+    id: "force_scarred_anomaly",
+    style: "mystic",
+    tags: ["anomaly", "force"],
+    affinityTags: ["haunted", "anomaly", "ruins"],
+    orbitRange: [0, 1],
+    landable: true,
+    biomes: ["crystal_waste", "shadow_forest", "scarred_plain", "cavern_network"],
+    atmosphereWeights: { breathable: 0.4, thin: 0.3, dense: 0.3 },
+    hazards: ["force_echoes", "ion_storms", "predators", "toxic_spores"],
+    hazardCountRange: [1, 2],
+    palettes: [[0x2a1f3a, 0x9a6aff, 0x3affc8], [0x1f2a33, 0xc86aff, 0x6affe8]],
+    siteWeights: { temple: 0.4, kyber_seam: 0.3, ruins: 0.3 },
+    siteSlotRange: [1, 3],
+    radiusRange: [3000, 6000],
+    gravityRange: [0.7, 1.3]
+  },
+  {
+    id: "gas_giant",
+    style: "gas",
+    tags: ["gas_giant"],
+    affinityTags: ["industrial"],
+    orbitRange: [0.55, 1],
+    landable: false,
+    biomes: ["cloud_layer"],
+    atmosphereWeights: { dense: 0.7, toxic: 0.3 },
+    hazards: ["ion_storms", "radiation"],
+    hazardCountRange: [1, 2],
+    palettes: [[0xc8a070, 0xf0d8b0, 0x9a6a4a], [0x7a8ab8, 0xc8d8f0, 0x4a5a8a]],
+    siteWeights: { mine: 0.6, outpost: 0.4 },
+    siteSlotRange: [0, 2],
+    radiusRange: [40000, 80000],
+    gravityRange: [1.5, 2.8]
+  },
+  {
+    id: "barren_rock",
+    style: "barren",
+    tags: ["barren"],
+    affinityTags: ["dangerous", "battlefields"],
+    orbitRange: [0, 1],
+    landable: true,
+    biomes: ["crater_field", "regolith_plain", "rocky_highland"],
+    atmosphereWeights: { none: 0.6, thin: 0.4 },
+    hazards: ["radiation", "extreme_cold", "extreme_heat"],
+    hazardCountRange: [0, 1],
+    palettes: [[0x6a625a, 0xa89f94, 0x4a4440], [0x5a5a5a, 0x9a9a9a, 0x7a5a4a]],
+    siteWeights: { mine: 0.3, wreck: 0.3, battlefield: 0.25, outpost: 0.15 },
+    siteSlotRange: [0, 2],
+    radiusRange: [1200, 3000],
+    gravityRange: [0.15, 0.5]
+  }
+];
+
 // ---- Space Combat Archetypes (v0) ----
 export type FighterArchetypeId = "xwing_player" | "tie_ln" | "z95" | "pirate_fang";
 
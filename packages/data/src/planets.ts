@@ -147,7 +147,8 @@ export function planetToSystem(planet: PlanetDef) {
     localPos: [x, 0, z] as [number, number, number],
     galaxyPos: [x, 0, z] as [number, number, number],
     archetypeId: planet.style,
-    tags: planet.tags,
+    // Preferred contract type, weighted by the procgen mission templates
+    tags: [...planet.tags, `mission_${planet.missionType}`],
     starClass: "g" as const,
     planetCount: 1,
     poiDensity: 0.5,
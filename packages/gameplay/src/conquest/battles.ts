@@ -0,0 +1,431 @@
+/**
+ * Galactic Conquest player battles
+ *
+ * Battles involving the player are fought for real in FlightMode/GroundMode
+ * instead of being auto-resolved. getPlayerBattleSetup turns the strategic
+ * forces into the craft and troops to field; resolvePlayerBattle writes what
+ * was destroyed back onto the fleets and ground forces.
+ *
+ * Winning a space battle over a planet the player does not hold on the ground
+ * turns the battle into a ground assault: a landing force carried by the
+ * fleet against the planet's garrison.
+ */
+
+import { addEntity, addComponent, removeEntity, hasComponent, defineQuery, type IWorld } from "bitecs";
+import {
+  ConquestPlanet,
+  ConquestFleet,
+  GroundForce,
+  BattlePending,
+  CONQUEST_FACTION,
+  FLEET_STATE,
+  BATTLE_TYPE,
+  GROUND_FORCE_STATE,
+  type ConquestFactionId
+} from "./components";
+import { calculateGroundStrength } from "./systems";
+
+const groundForceQuery = defineQuery([GroundForce]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PLAYER_BATTLE_SCALE = {
+  /** Craft fielded per fighter or bomber squadron */
+  craftPerSquadron: 2,
+  /** Most fighters (and most bombers) fielded per side */
+  maxCraft: 12,
+  /** Most capital ships fielded per side */
+  maxCapitals: 2,
+  /** Troopers fielded per infantry platoon */
+  troopersPerPlatoon: 3,
+  /** Most troopers fielded per side */
+  maxTroopers: 15,
+  /** Most walkers fielded per side (one per vehicle squadron) */
+  maxVehicles: 3,
+  /** Landing force infantry platoons carried per capital ship */
+  platoonsPerCapital: 3,
+  /** Landing force infantry platoons carried per bomber squadron */
+  platoonsPerBomberSquadron: 1,
+  /** Landing force vehicle squadrons carried per capital ship */
+  vehiclesPerCapital: 1
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Units of each class fielded in, or lost from, a player battle */
+export interface BattleUnitCounts {
+  fighters: number;
+  bombers: number;
+  capitals: number;
+  infantry: number;
+  vehicles: number;
+}
+
+export interface PlayerBattleSide {
+  faction: ConquestFactionId;
+  /** Fleet or ground force veterancy (0-1) */
+  veterancy: number;
+  /** Units to field */
+  units: BattleUnitCounts;
+}
+
+/** What FlightMode/GroundMode should spawn for a player battle */
+export interface PlayerBattleSetup {
+  battleEid: number;
+  /** BATTLE_TYPE.SPACE or BATTLE_TYPE.GROUND */
+  battleType: number;
+  planetEid: number;
+  /** The player's side - includes the player's own craft or trooper */
+  player: PlayerBattleSide;
+  enemy: PlayerBattleSide;
+}
+
+/** Outcome of a player battle, in fielded units */
+export interface PlayerBattleReport {
+  playerWon: boolean;
+  /** Units the player's side lost (including the player's own craft) */
+  playerLosses: BattleUnitCounts;
+  /** Enemy units destroyed */
+  enemyLosses: BattleUnitCounts;
+}
+
+export function emptyBattleUnits(): BattleUnitCounts {
+  return { fighters: 0, bombers: 0, capitals: 0, infantry: 0, vehicles: 0 };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Battle Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface BattleSides {
+  playerFleetEid: number;
+  enemyFleetEid: number;
+  playerForceEid: number;
+  enemyForceEid: number;
+  playerFaction: ConquestFactionId;
+  enemyFaction: ConquestFactionId;
+}
+
+/**
+ * Which fleets/ground forces in a battle belong to the player.
+ */
+function getBattleSides(battleEid: number): BattleSides {
+  const attackerFleet = BattlePending.attackerFleetEid[battleEid] ?? -1;
+  const defenderFleet = BattlePending.defenderFleetEid[battleEid] ?? -1;
+  const attackerForce = BattlePending.attackerGroundEid[battleEid] ?? -1;
+  const defenderForce = BattlePending.defenderGroundEid[battleEid] ?? -1;
+
+  const playerAttacking = (BattlePending.battleType[battleEid] ?? BATTLE_TYPE.SPACE) === BATTLE_TYPE.GROUND
+    ? attackerForce >= 0 && (GroundForce.isPlayerForce[attackerForce] ?? 0) === 1
+    : attackerFleet >= 0 && (ConquestFleet.isPlayerFleet[attackerFleet] ?? 0) === 1;
+
+  const attackerFaction = (BattlePending.attackerFaction[battleEid] ?? CONQUEST_FACTION.NEUTRAL) as ConquestFactionId;
+  const defenderFaction = (BattlePending.defenderFaction[battleEid] ?? CONQUEST_FACTION.NEUTRAL) as ConquestFactionId;
+
+  return playerAttacking
+    ? {
+        playerFleetEid: attackerFleet,
+        enemyFleetEid: defenderFleet,
+        playerForceEid: attackerForce,
+        enemyForceEid: defenderForce,
+        playerFaction: attackerFaction,
+        enemyFaction: defenderFaction
+      }
+    : {
+        playerFleetEid: defenderFleet,
+        enemyFleetEid: attackerFleet,
+        playerForceEid: defenderForce,
+        enemyForceEid: attackerForce,
+        playerFaction: defenderFaction,
+        enemyFaction: attackerFaction
+      };
+}
+
+function fieldCount(strategic: number, perUnit: number, max: number): number {
+  return Math.min(max, Math.max(0, strategic) * perUnit);
+}
+
+function fleetUnits(fleetEid: number): BattleUnitCounts {
+  const units = emptyBattleUnits();
+  if (fleetEid < 0) return units;
+  const scale = PLAYER_BATTLE_SCALE;
+  units.fighters = fieldCount(ConquestFleet.fighterSquadrons[fleetEid] ?? 0, scale.craftPerSquadron, scale.maxCraft);
+  units.bombers = fieldCount(ConquestFleet.bomberSquadrons[fleetEid] ?? 0, scale.craftPerSquadron, scale.maxCraft);
+  units.capitals = fieldCount(ConquestFleet.capitalShips[fleetEid] ?? 0, 1, scale.maxCapitals);
+  return units;
+}
+
+function groundUnits(forceEid: number): BattleUnitCounts {
+  const units = emptyBattleUnits();
+  if (forceEid < 0) return units;
+  const scale = PLAYER_BATTLE_SCALE;
+  units.infantry = fieldCount(GroundForce.infantryPlatoons[forceEid] ?? 0, scale.troopersPerPlatoon, scale.maxTroopers);
+  units.vehicles = fieldCount(GroundForce.vehicleSquadrons[forceEid] ?? 0, 1, scale.maxVehicles);
+  return units;
+}
+
+/**
+ * Units each side fields in a player battle, or null if the battle is gone.
+ * The player always fields at least their own craft (or trooper).
+ */
+export function getPlayerBattleSetup(world: IWorld, battleEid: number): PlayerBattleSetup | null {
+  if (!hasComponent(world, BattlePending, battleEid)) return null;
+
+  const battleType = BattlePending.battleType[battleEid] ?? BATTLE_TYPE.SPACE;
+  const sides = getBattleSides(battleEid);
+  const ground = battleType === BATTLE_TYPE.GROUND;
+
+  const playerUnits = ground ? groundUnits(sides.playerForceEid) : fleetUnits(sides.playerFleetEid);
+  const enemyUnits = ground ? groundUnits(sides.enemyForceEid) : fleetUnits(sides.enemyFleetEid);
+  if (ground) {
+    playerUnits.infantry = Math.max(1, playerUnits.infantry);
+  } else {
+    playerUnits.fighters = Math.max(1, playerUnits.fighters);
+  }
+
+  const veterancy = (fleetEid: number, forceEid: number) =>
+    ground ? GroundForce.veterancy[forceEid] ?? 0.5 : ConquestFleet.veterancy[fleetEid] ?? 0.5;
+
+  return {
+    battleEid,
+    battleType,
+    planetEid: BattlePending.planetEid[battleEid] ?? -1,
+    player: {
+      faction: sides.playerFaction,
+      veterancy: veterancy(sides.playerFleetEid, sides.playerForceEid),
+      units: playerUnits
+    },
+    enemy: {
+      faction: sides.enemyFaction,
+      veterancy: veterancy(sides.enemyFleetEid, sides.enemyForceEid),
+      units: enemyUnits
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Battle Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Strategic units lost when `lost` of the `fielded` units standing in for them were destroyed.
+ */
+function strategicLosses(strategic: number, fielded: number, lost: number): number {
+  if (strategic <= 0 || fielded <= 0) return 0;
+  const fraction = Math.min(1, Math.max(0, lost) / fielded);
+  return Math.min(strategic, Math.round(strategic * fraction));
+}
+
+function applyFleetBattleLosses(fleetEid: number, fielded: BattleUnitCounts, lost: BattleUnitCounts): void {
+  if (fleetEid < 0) return;
+
+  const fighters = ConquestFleet.fighterSquadrons[fleetEid] ?? 0;
+  const bombers = ConquestFleet.bomberSquadrons[fleetEid] ?? 0;
+  const capitals = ConquestFleet.capitalShips[fleetEid] ?? 0;
+  ConquestFleet.fighterSquadrons[fleetEid] = fighters - strategicLosses(fighters, fielded.fighters, lost.fighters);
+  ConquestFleet.bomberSquadrons[fleetEid] = bombers - strategicLosses(bombers, fielded.bombers, lost.bombers);
+  ConquestFleet.capitalShips[fleetEid] = capitals - strategicLosses(capitals, fielded.capitals, lost.capitals);
+
+  // Survivors gain experience
+  const currentVet = ConquestFleet.veterancy[fleetEid] ?? 0.5;
+  ConquestFleet.veterancy[fleetEid] = Math.min(1, currentVet + 0.05);
+}
+
+function applyGroundBattleLosses(forceEid: number, fielded: BattleUnitCounts, lost: BattleUnitCounts): void {
+  if (forceEid < 0) return;
+
+  const infantry = GroundForce.infantryPlatoons[forceEid] ?? 0;
+  const vehicles = GroundForce.vehicleSquadrons[forceEid] ?? 0;
+  const artillery = GroundForce.artilleryUnits[forceEid] ?? 0;
+  GroundForce.infantryPlatoons[forceEid] = infantry - strategicLosses(infantry, fielded.infantry, lost.infantry);
+  GroundForce.vehicleSquadrons[forceEid] = vehicles - strategicLosses(vehicles, fielded.vehicles, lost.vehicles);
+
+  // Artillery is never fielded - it shares the losses of the fielded units
+  const fieldedTotal = fielded.infantry + fielded.vehicles;
+  const lostTotal = lost.infantry + lost.vehicles;
+  GroundForce.artilleryUnits[forceEid] = artillery - strategicLosses(artillery, fieldedTotal, lostTotal);
+
+  const currentVet = GroundForce.veterancy[forceEid] ?? 0.5;
+  GroundForce.veterancy[forceEid] = Math.min(1, currentVet + 0.05);
+}
+
+/**
+ * Clears the planet's battle state and removes the battle.
+ */
+function finishBattle(world: IWorld, battleEid: number): void {
+  const planetEid = BattlePending.planetEid[battleEid] ?? -1;
+  if (planetEid >= 0) {
+    ConquestPlanet.underAttack[planetEid] = 0;
+    ConquestPlanet.battlePhase[planetEid] = 0;
+  }
+  removeEntity(world, battleEid);
+}
+
+/**
+ * Resolves a player-involved battle from what happened in Flight/Ground mode.
+ * A won space battle over a planet held by someone else continues on the ground
+ * (the battle stays pending as a ground battle); otherwise the battle ends.
+ */
+export function resolvePlayerBattle(world: IWorld, battleEid: number, report: PlayerBattleReport): void {
+  const setup = getPlayerBattleSetup(world, battleEid);
+  if (!setup) return;
+
+  if (setup.battleType === BATTLE_TYPE.GROUND) {
+    resolveGroundBattle(world, battleEid, setup, report);
+  } else {
+    resolveSpaceBattle(world, battleEid, setup, report);
+  }
+}
+
+function resolveSpaceBattle(
+  world: IWorld,
+  battleEid: number,
+  setup: PlayerBattleSetup,
+  report: PlayerBattleReport
+): void {
+  const sides = getBattleSides(battleEid);
+  applyFleetBattleLosses(sides.playerFleetEid, setup.player.units, report.playerLosses);
+  applyFleetBattleLosses(sides.enemyFleetEid, setup.enemy.units, report.enemyLosses);
+
+  const loserFleetEid = report.playerWon ? sides.enemyFleetEid : sides.playerFleetEid;
+  if (loserFleetEid >= 0) {
+    ConquestFleet.state[loserFleetEid] = FLEET_STATE.RETREATING;
+  }
+
+  const planetEid = setup.planetEid;
+  const winnerFaction = report.playerWon ? setup.player.faction : setup.enemy.faction;
+  if (planetEid >= 0) {
+    ConquestPlanet.spaceControl[planetEid] = winnerFaction;
+  }
+
+  // Orbit secured over a planet the player doesn't hold - land troops
+  if (
+    report.playerWon &&
+    planetEid >= 0 &&
+    sides.playerFleetEid >= 0 &&
+    (ConquestPlanet.groundControl[planetEid] ?? CONQUEST_FACTION.NEUTRAL) !== setup.player.faction
+  ) {
+    beginGroundAssault(world, battleEid, sides.playerFleetEid, planetEid);
+    return;
+  }
+
+  finishBattle(world, battleEid);
+}
+
+function resolveGroundBattle(
+  world: IWorld,
+  battleEid: number,
+  setup: PlayerBattleSetup,
+  report: PlayerBattleReport
+): void {
+  const sides = getBattleSides(battleEid);
+  applyGroundBattleLosses(sides.playerForceEid, setup.player.units, report.playerLosses);
+  applyGroundBattleLosses(sides.enemyForceEid, setup.enemy.units, report.enemyLosses);
+
+  const planetEid = setup.planetEid;
+  const winnerForceEid = report.playerWon ? sides.playerForceEid : sides.enemyForceEid;
+  const loserForceEid = report.playerWon ? sides.enemyForceEid : sides.playerForceEid;
+
+  if (loserForceEid >= 0) {
+    removeEntity(world, loserForceEid);
+  }
+
+  if (planetEid >= 0) {
+    if (report.playerWon) {
+      ConquestPlanet.controllingFaction[planetEid] = setup.player.faction;
+      ConquestPlanet.groundControl[planetEid] = setup.player.faction;
+    }
+    // The surviving force garrisons the planet
+    const maxGarrison = ConquestPlanet.maxGarrison[planetEid] ?? 100;
+    const strength = winnerForceEid >= 0 ? calculateGroundStrength(world, winnerForceEid) : 0;
+    ConquestPlanet.garrison[planetEid] = Math.min(maxGarrison, strength);
+  }
+  if (winnerForceEid >= 0) {
+    GroundForce.state[winnerForceEid] = GROUND_FORCE_STATE.GARRISON;
+  }
+
+  finishBattle(world, battleEid);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ground Assault
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Troops carried by a fleet, landed on a planet.
+ */
+function createLandingForce(world: IWorld, fleetEid: number, planetEid: number): number {
+  const scale = PLAYER_BATTLE_SCALE;
+  const capitals = ConquestFleet.capitalShips[fleetEid] ?? 0;
+  const bombers = ConquestFleet.bomberSquadrons[fleetEid] ?? 0;
+
+  const eid = addEntity(world);
+  addComponent(world, GroundForce, eid);
+  GroundForce.faction[eid] = ConquestFleet.faction[fleetEid] ?? CONQUEST_FACTION.NEUTRAL;
+  GroundForce.infantryPlatoons[eid] = Math.max(
+    1,
+    capitals * scale.platoonsPerCapital + bombers * scale.platoonsPerBomberSquadron
+  );
+  GroundForce.vehicleSquadrons[eid] = capitals * scale.vehiclesPerCapital;
+  GroundForce.artilleryUnits[eid] = 0;
+  GroundForce.planetEid[eid] = planetEid;
+  GroundForce.veterancy[eid] = ConquestFleet.veterancy[fleetEid] ?? 0.5;
+  GroundForce.isPlayerForce[eid] = ConquestFleet.isPlayerFleet[fleetEid] ?? 0;
+  GroundForce.state[eid] = GROUND_FORCE_STATE.ATTACKING;
+  GroundForce.strength[eid] = calculateGroundStrength(world, eid);
+  return eid;
+}
+
+/**
+ * The planet's garrison force for a faction, raised from the planet's garrison
+ * strength if it has none yet.
+ */
+function getGarrisonForce(world: IWorld, planetEid: number, faction: ConquestFactionId): number {
+  for (const eid of groundForceQuery(world)) {
+    if (GroundForce.planetEid[eid] === planetEid && GroundForce.faction[eid] === faction) {
+      return eid;
+    }
+  }
+
+  const garrison = ConquestPlanet.garrison[planetEid] ?? 0;
+  const eid = addEntity(world);
+  addComponent(world, GroundForce, eid);
+  GroundForce.faction[eid] = faction;
+  GroundForce.infantryPlatoons[eid] = Math.max(1, Math.round(garrison / 10));
+  GroundForce.vehicleSquadrons[eid] = Math.floor(garrison / 30);
+  GroundForce.artilleryUnits[eid] = Math.floor(garrison / 50);
+  GroundForce.planetEid[eid] = planetEid;
+  GroundForce.veterancy[eid] = 0.5;
+  GroundForce.isPlayerForce[eid] = 0;
+  GroundForce.state[eid] = GROUND_FORCE_STATE.DEFENDING;
+  GroundForce.strength[eid] = calculateGroundStrength(world, eid);
+  return eid;
+}
+
+/**
+ * Turns a won space battle into a ground battle against the planet's garrison.
+ */
+function beginGroundAssault(world: IWorld, battleEid: number, fleetEid: number, planetEid: number): void {
+  const attackerFaction = (ConquestFleet.faction[fleetEid] ?? CONQUEST_FACTION.NEUTRAL) as ConquestFactionId;
+  const defenderFaction = (ConquestPlanet.groundControl[planetEid] ?? CONQUEST_FACTION.NEUTRAL) as ConquestFactionId;
+
+  const landingForceEid = createLandingForce(world, fleetEid, planetEid);
+  const garrisonEid = getGarrisonForce(world, planetEid, defenderFaction);
+  GroundForce.state[garrisonEid] = GROUND_FORCE_STATE.DEFENDING;
+
+  BattlePending.battleType[battleEid] = BATTLE_TYPE.GROUND;
+  BattlePending.attackerFleetEid[battleEid] = -1;
+  BattlePending.defenderFleetEid[battleEid] = -1;
+  BattlePending.attackerGroundEid[battleEid] = landingForceEid;
+  BattlePending.defenderGroundEid[battleEid] = garrisonEid;
+  BattlePending.attackerFaction[battleEid] = attackerFaction;
+  BattlePending.defenderFaction[battleEid] = defenderFaction;
+  BattlePending.playerInvolved[battleEid] = GroundForce.isPlayerForce[landingForceEid] ?? 0;
+
+  ConquestPlanet.underAttack[planetEid] = 1;
+  ConquestPlanet.battlePhase[planetEid] = 2; // Ground battle
+}
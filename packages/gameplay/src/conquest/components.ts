@@ -121,9 +121,12 @@ export const ConquestFleet = defineComponent({
   /** Current planet entity ID (-1 if in hyperspace) */
   currentPlanetEid: Types.i32,
 
-  /** Destination planet entity ID (-1 if stationary) */
+  /** Next planet on the current hyperlane hop (-1 if stationary) */
   destinationPlanetEid: Types.i32,
 
+  /** Final planet of a multi-hop hyperlane route (-1 if no route) */
+  finalDestinationEid: Types.i32,
+
   /** Movement progress (0-1, reaches 1 at destination) */
   movementProgress: Types.f32,
 
@@ -300,7 +303,7 @@ export const BATTLE_TYPE = {
 
 /**
  * Hyperlane - Defines travel routes between planets.
- * Fleets can only move along hyperlanes.
+ * Fleets can only move along hyperlanes. Lanes are bidirectional.
  */
 export const Hyperlane = defineComponent({
   /** Source planet entity ID */
@@ -0,0 +1,254 @@
+/**
+ * Galactic Conquest hyperlane network
+ *
+ * Lanes are generated from planet map positions: a minimum spanning tree keeps
+ * the galaxy connected, and each planet also links to its nearest neighbours.
+ * Travel time scales with lane length; major trade routes are faster.
+ *
+ * Fleets path across the network hop by hop (see orderFleetMove), stopping at
+ * every planet on the way so battles can catch them.
+ */
+
+import { defineQuery, addEntity, addComponent, type IWorld } from "bitecs";
+import { Hyperlane } from "./components";
+
+const hyperlaneQuery = defineQuery([Hyperlane]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const HYPERLANE_CONFIG = {
+  /** Nearest-neighbour lanes per planet on top of the spanning tree */
+  neighbourLanes: 2,
+  /** Seconds of hyperspace travel per map unit of lane length */
+  secondsPerUnit: 8,
+  /** Minimum wealth at both ends for a major trade route */
+  majorRouteWealth: 0.6,
+  /** Travel time multiplier on major trade routes */
+  majorRouteFactor: 0.75
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A planet as seen by the lane generator */
+export interface HyperlaneNode {
+  planetEid: number;
+  x: number;
+  z: number;
+  wealth: number;
+}
+
+export interface HyperlaneEdge {
+  toPlanetEid: number;
+  travelTime: number;
+}
+
+export interface HyperlanePath {
+  /** Planets visited after the start, ending at the destination */
+  planets: number[];
+  /** Total travel time along the route (seconds) */
+  travelTime: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Network Generation
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CandidateLane {
+  a: number;
+  b: number;
+  length: number;
+}
+
+function findRoot(parent: number[], i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]!]!;
+    i = parent[i]!;
+  }
+  return i;
+}
+
+/**
+ * Create Hyperlane entities connecting the given planets.
+ * Returns the lane entity IDs.
+ */
+export function buildHyperlaneNetwork(world: IWorld, nodes: HyperlaneNode[]): number[] {
+  // Every possible lane, shortest first (index order breaks ties deterministically)
+  const candidates: CandidateLane[] = [];
+  for (let a = 0; a < nodes.length; a++) {
+    for (let b = a + 1; b < nodes.length; b++) {
+      const dx = nodes[a]!.x - nodes[b]!.x;
+      const dz = nodes[a]!.z - nodes[b]!.z;
+      candidates.push({ a, b, length: Math.sqrt(dx * dx + dz * dz) });
+    }
+  }
+  candidates.sort((l, r) => l.length - r.length || l.a - r.a || l.b - r.b);
+
+  const chosen = new Set<CandidateLane>();
+
+  // Minimum spanning tree (Kruskal) - guarantees every planet is reachable
+  const parent = nodes.map((_, i) => i);
+  for (const lane of candidates) {
+    const rootA = findRoot(parent, lane.a);
+    const rootB = findRoot(parent, lane.b);
+    if (rootA !== rootB) {
+      parent[rootA] = rootB;
+      chosen.add(lane);
+    }
+  }
+
+  // Nearest neighbours - adds alternate routes and loops
+  for (let i = 0; i < nodes.length; i++) {
+    let added = 0;
+    for (const lane of candidates) {
+      if (added >= HYPERLANE_CONFIG.neighbourLanes) break;
+      if (lane.a !== i && lane.b !== i) continue;
+      chosen.add(lane);
+      added++;
+    }
+  }
+
+  return candidates
+    .filter((lane) => chosen.has(lane))
+    .map((lane) => {
+      const from = nodes[lane.a]!;
+      const to = nodes[lane.b]!;
+      const major =
+        from.wealth >= HYPERLANE_CONFIG.majorRouteWealth && to.wealth >= HYPERLANE_CONFIG.majorRouteWealth;
+
+      const eid = addEntity(world);
+      addComponent(world, Hyperlane, eid);
+      Hyperlane.fromPlanetEid[eid] = from.planetEid;
+      Hyperlane.toPlanetEid[eid] = to.planetEid;
+      Hyperlane.baseTravelTime[eid] =
+        lane.length * HYPERLANE_CONFIG.secondsPerUnit * (major ? HYPERLANE_CONFIG.majorRouteFactor : 1);
+      Hyperlane.isMajorRoute[eid] = major ? 1 : 0;
+      return eid;
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Graph Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Does this world have a hyperlane network? (Without one fleets jump directly.)
+ */
+export function hasHyperlanes(world: IWorld): boolean {
+  return hyperlaneQuery(world).length > 0;
+}
+
+/**
+ * Build the planet adjacency list from Hyperlane entities.
+ */
+export function getHyperlaneGraph(world: IWorld): Map<number, HyperlaneEdge[]> {
+  const graph = new Map<number, HyperlaneEdge[]>();
+  const link = (from: number, to: number, travelTime: number) => {
+    let edges = graph.get(from);
+    if (!edges) {
+      edges = [];
+      graph.set(from, edges);
+    }
+    edges.push({ toPlanetEid: to, travelTime });
+  };
+
+  for (const eid of hyperlaneQuery(world)) {
+    const from = Hyperlane.fromPlanetEid[eid] ?? -1;
+    const to = Hyperlane.toPlanetEid[eid] ?? -1;
+    if (from < 0 || to < 0) continue;
+    const travelTime = Hyperlane.baseTravelTime[eid] ?? 0;
+    link(from, to, travelTime);
+    link(to, from, travelTime);
+  }
+  return graph;
+}
+
+/**
+ * Planets one lane away from a planet.
+ */
+export function getHyperlaneNeighbours(world: IWorld, planetEid: number): HyperlaneEdge[] {
+  return getHyperlaneGraph(world).get(planetEid) ?? [];
+}
+
+/**
+ * Dijkstra over lane travel times. Returns distances and predecessors from `from`.
+ */
+function shortestPaths(
+  graph: Map<number, HyperlaneEdge[]>,
+  from: number
+): { dist: Map<number, number>; prev: Map<number, number> } {
+  const dist = new Map<number, number>([[from, 0]]);
+  const prev = new Map<number, number>();
+  const visited = new Set<number>();
+
+  for (;;) {
+    // Closest unvisited planet (graphs are tiny - linear scan is fine)
+    let current = -1;
+    let best = Infinity;
+    for (const [planet, d] of dist) {
+      if (!visited.has(planet) && (d < best || (d === best && planet < current))) {
+        current = planet;
+        best = d;
+      }
+    }
+    if (current < 0) break;
+    visited.add(current);
+
+    for (const edge of graph.get(current) ?? []) {
+      const next = best + edge.travelTime;
+      if (next < (dist.get(edge.toPlanetEid) ?? Infinity)) {
+        dist.set(edge.toPlanetEid, next);
+        prev.set(edge.toPlanetEid, current);
+      }
+    }
+  }
+
+  return { dist, prev };
+}
+
+/**
+ * Fastest hyperlane route between two planets, or null if unreachable.
+ */
+export function findHyperlanePath(world: IWorld, fromPlanetEid: number, toPlanetEid: number): HyperlanePath | null {
+  if (fromPlanetEid === toPlanetEid) return { planets: [], travelTime: 0 };
+
+  const { dist, prev } = shortestPaths(getHyperlaneGraph(world), fromPlanetEid);
+  const travelTime = dist.get(toPlanetEid);
+  if (travelTime === undefined) return null;
+
+  const planets: number[] = [];
+  for (let p = toPlanetEid; p !== fromPlanetEid; p = prev.get(p)!) {
+    planets.unshift(p);
+  }
+  return { planets, travelTime };
+}
+
+/**
+ * Chokepoint score per planet (0-1): how many fastest routes between other
+ * planets pass through it, relative to the busiest planet.
+ */
+export function computeChokepointScores(world: IWorld): Map<number, number> {
+  const graph = getHyperlaneGraph(world);
+  const planets = [...graph.keys()].sort((a, b) => a - b);
+  const through = new Map<number, number>(planets.map((p) => [p, 0]));
+
+  for (const source of planets) {
+    const { prev } = shortestPaths(graph, source);
+    for (const target of planets) {
+      if (target === source || !prev.has(target)) continue;
+      for (let p = prev.get(target)!; p !== source; p = prev.get(p)!) {
+        through.set(p, (through.get(p) ?? 0) + 1);
+      }
+    }
+  }
+
+  const max = Math.max(1, ...through.values());
+  const scores = new Map<number, number>();
+  for (const [planet, count] of through) {
+    scores.set(planet, count / max);
+  }
+  return scores;
+}
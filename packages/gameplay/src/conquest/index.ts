@@ -4,3 +4,6 @@
 
 export * from "./components";
 export * from "./systems";
+export * from "./hyperlanes";
+export * from "./battles";
+export * from "./persistence";
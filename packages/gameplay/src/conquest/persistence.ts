@@ -0,0 +1,246 @@
+/**
+ * Galactic Conquest persistence
+ *
+ * Snapshots every conquest entity (state, planets, fleets, ground forces,
+ * pending battles) plus the conquest RNG so a campaign can be saved and
+ * resumed with an identical future simulation.
+ *
+ * Entity references are stored as the eids they had when saved and remapped
+ * on restore. Entities are restored in their original query order so systems
+ * iterate them exactly as before.
+ */
+
+import { defineQuery, addEntity, addComponent, type IWorld } from "bitecs";
+import {
+  ConquestState,
+  ConquestPlanet,
+  ConquestFleet,
+  GroundForce,
+  BattlePending
+} from "./components";
+import { getConquestRngState, setConquestSeed } from "./systems";
+
+/** Bump when the snapshot layout changes and add a step to migrateConquestSnapshot */
+export const CONQUEST_SNAPSHOT_VERSION = 2;
+
+const conquestStateQuery = defineQuery([ConquestState]);
+const conquestPlanetQuery = defineQuery([ConquestPlanet]);
+const conquestFleetQuery = defineQuery([ConquestFleet]);
+const groundForceQuery = defineQuery([GroundForce]);
+const battlePendingQuery = defineQuery([BattlePending]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One saved entity: its eid at save time and every component field */
+export interface ConquestEntityRecord {
+  eid: number;
+  fields: Record<string, number>;
+}
+
+export interface ConquestSnapshot {
+  rngState: number;
+  state: ConquestEntityRecord | null;
+  planets: ConquestEntityRecord[];
+  fleets: ConquestEntityRecord[];
+  groundForces: ConquestEntityRecord[];
+  battles: ConquestEntityRecord[];
+}
+
+/** New eids of the restored entities, in saved order */
+export interface ConquestRestoreResult {
+  stateEid: number;
+  planetEids: number[];
+  fleetEids: number[];
+  groundForceEids: number[];
+  battleEids: number[];
+}
+
+type ComponentStore = Record<string, ArrayLike<number> & { [index: number]: number }>;
+
+// Fields that hold entity ids and must be remapped on restore
+const FLEET_REFS = ["currentPlanetEid", "destinationPlanetEid", "finalDestinationEid"] as const;
+const GROUND_FORCE_REFS = ["planetEid"] as const;
+const BATTLE_PLANET_REFS = ["planetEid"] as const;
+const BATTLE_FLEET_REFS = ["attackerFleetEid", "defenderFleetEid"] as const;
+const BATTLE_GROUND_REFS = ["attackerGroundEid", "defenderGroundEid"] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Serialize
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readRecord(component: ComponentStore, eid: number): ConquestEntityRecord {
+  const fields: Record<string, number> = {};
+  for (const key of Object.keys(component)) {
+    fields[key] = component[key]![eid] ?? 0;
+  }
+  return { eid, fields };
+}
+
+/**
+ * Capture the full conquest state of a world as plain JSON-safe data.
+ */
+export function serializeConquest(world: IWorld): ConquestSnapshot {
+  const stateEid = conquestStateQuery(world)[0];
+
+  return {
+    rngState: getConquestRngState(),
+    state: stateEid !== undefined ? readRecord(ConquestState as unknown as ComponentStore, stateEid) : null,
+    planets: conquestPlanetQuery(world).map((eid) => readRecord(ConquestPlanet as unknown as ComponentStore, eid)),
+    fleets: conquestFleetQuery(world).map((eid) => readRecord(ConquestFleet as unknown as ComponentStore, eid)),
+    groundForces: groundForceQuery(world).map((eid) => readRecord(GroundForce as unknown as ComponentStore, eid)),
+    battles: battlePendingQuery(world).map((eid) => readRecord(BattlePending as unknown as ComponentStore, eid))
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Restore
+// ─────────────────────────────────────────────────────────────────────────────
+
+function writeRecords(
+  world: IWorld,
+  component: ComponentStore,
+  records: ConquestEntityRecord[],
+  eidMap: Map<number, number>
+): number[] {
+  return records.map((record) => {
+    const eid = addEntity(world);
+    addComponent(world, component, eid);
+    for (const key of Object.keys(component)) {
+      component[key]![eid] = record.fields[key] ?? 0;
+    }
+    eidMap.set(record.eid, eid);
+    return eid;
+  });
+}
+
+function remapRefs(
+  component: ComponentStore,
+  eids: number[],
+  records: ConquestEntityRecord[],
+  fields: readonly string[],
+  eidMap: Map<number, number>
+): void {
+  eids.forEach((eid, i) => {
+    for (const field of fields) {
+      // A missing reference means "none", not entity 0
+      const saved = records[i]!.fields[field] ?? -1;
+      component[field]![eid] = saved >= 0 ? eidMap.get(saved) ?? -1 : -1;
+    }
+  });
+}
+
+/**
+ * Recreate conquest entities from a snapshot and restore the conquest RNG.
+ * The world should not contain another campaign.
+ */
+export function restoreConquest(world: IWorld, snapshot: ConquestSnapshot): ConquestRestoreResult {
+  const planetMap = new Map<number, number>();
+  const fleetMap = new Map<number, number>();
+  const groundMap = new Map<number, number>();
+  const battleMap = new Map<number, number>();
+
+  const stateEids = writeRecords(
+    world,
+    ConquestState as unknown as ComponentStore,
+    snapshot.state ? [snapshot.state] : [],
+    new Map()
+  );
+  const planetEids = writeRecords(world, ConquestPlanet as unknown as ComponentStore, snapshot.planets, planetMap);
+  const fleetEids = writeRecords(world, ConquestFleet as unknown as ComponentStore, snapshot.fleets, fleetMap);
+  const groundForceEids = writeRecords(world, GroundForce as unknown as ComponentStore, snapshot.groundForces, groundMap);
+  const battleEids = writeRecords(world, BattlePending as unknown as ComponentStore, snapshot.battles, battleMap);
+
+  const fleets = ConquestFleet as unknown as ComponentStore;
+  const forces = GroundForce as unknown as ComponentStore;
+  const battles = BattlePending as unknown as ComponentStore;
+  remapRefs(fleets, fleetEids, snapshot.fleets, FLEET_REFS, planetMap);
+  remapRefs(forces, groundForceEids, snapshot.groundForces, GROUND_FORCE_REFS, planetMap);
+  remapRefs(battles, battleEids, snapshot.battles, BATTLE_PLANET_REFS, planetMap);
+  remapRefs(battles, battleEids, snapshot.battles, BATTLE_FLEET_REFS, fleetMap);
+  remapRefs(battles, battleEids, snapshot.battles, BATTLE_GROUND_REFS, groundMap);
+
+  setConquestSeed(snapshot.rngState);
+
+  return {
+    stateEid: stateEids[0] ?? -1,
+    planetEids,
+    fleetEids,
+    groundForceEids,
+    battleEids
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation & Migration
+// ─────────────────────────────────────────────────────────────────────────────
+
+function sanitizeRecord(raw: unknown): ConquestEntityRecord | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { eid, fields } = raw as Partial<ConquestEntityRecord>;
+  if (typeof eid !== "number" || !Number.isInteger(eid) || eid < 0) return null;
+  if (typeof fields !== "object" || fields === null) return null;
+
+  const clean: Record<string, number> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value === "number" && Number.isFinite(value)) clean[key] = value;
+  }
+  return { eid, fields: clean };
+}
+
+function sanitizeRecords(raw: unknown): ConquestEntityRecord[] | null {
+  if (!Array.isArray(raw)) return null;
+  const records: ConquestEntityRecord[] = [];
+  for (const entry of raw) {
+    const record = sanitizeRecord(entry);
+    if (!record) return null;
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Validate a stored snapshot. Returns null if it cannot be restored safely.
+ */
+export function sanitizeConquestSnapshot(raw: unknown): ConquestSnapshot | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+
+  const rngState = data.rngState;
+  if (typeof rngState !== "number" || !Number.isInteger(rngState)) return null;
+
+  const state = sanitizeRecord(data.state);
+  const planets = sanitizeRecords(data.planets);
+  const fleets = sanitizeRecords(data.fleets);
+  const groundForces = sanitizeRecords(data.groundForces ?? []);
+  const battles = sanitizeRecords(data.battles ?? []);
+  if (!state || !planets || !fleets || !groundForces || !battles) return null;
+
+  return { rngState, state, planets, fleets, groundForces, battles };
+}
+
+/**
+ * Bring a snapshot saved by an older version up to CONQUEST_SNAPSHOT_VERSION.
+ * Returns null for unknown versions.
+ */
+export function migrateConquestSnapshot(raw: unknown, fromVersion: number): ConquestSnapshot | null {
+  if (fromVersion === CONQUEST_SNAPSHOT_VERSION) {
+    return sanitizeConquestSnapshot(raw);
+  }
+
+  // v1 -> v2: fleets gained hyperlane routes. v1 fleets were jumping
+  // directly, so their current destination is also the final one.
+  if (fromVersion === 1) {
+    const snapshot = sanitizeConquestSnapshot(raw);
+    if (!snapshot) return null;
+    for (const fleet of snapshot.fleets) {
+      fleet.fields.finalDestinationEid = fleet.fields.destinationPlanetEid ?? -1;
+    }
+    return snapshot;
+  }
+
+  // Future migrations would go here (e.g., v2 -> v3)
+
+  return null;
+}
@@ -1,11 +1,11 @@
 /**
  * Conquest ECS Systems - Real-time galaxy simulation
  *
- * Handles resource generation, fleet movement, battle detection,
- * and auto-resolution for AI factions.
+ * Handles resource generation, fleet movement along hyperlanes,
+ * battle detection, and auto-resolution for AI factions.
  */
 
-import { defineQuery, hasComponent, addEntity, addComponent, removeEntity, IWorld } from "bitecs";
+import { defineQuery, addEntity, addComponent, removeEntity, IWorld } from "bitecs";
 import {
   ConquestPlanet,
   ConquestFleet,
@@ -18,6 +18,7 @@ import {
   CONQUEST_PHASE,
   type ConquestFactionId
 } from "./components";
+import { hasHyperlanes, findHyperlanePath, getHyperlaneNeighbours } from "./hyperlanes";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Queries
@@ -39,6 +40,11 @@ export function setConquestSeed(seed: number): void {
   conquestRngState = seed;
 }
 
+/** Current RNG state, for saving a campaign mid-game (restore with setConquestSeed). */
+export function getConquestRngState(): number {
+  return conquestRngState;
+}
+
 function seededRandom(): number {
   conquestRngState = (conquestRngState * 1103515245 + 12345) & 0x7fffffff;
   return conquestRngState / 0x7fffffff;
@@ -90,6 +96,8 @@ export function resourceGenerationSystem(world: IWorld, dt: number): void {
 /**
  * Moves fleets toward their destinations.
  * Updates movement progress and triggers arrival events.
+ * A fleet on a multi-hop route arrives IDLE at each stop so battle detection
+ * can catch it; fleetRoutingSystem sends it on to the next hop.
  */
 export function fleetMovementSystem(world: IWorld, dt: number): void {
   const fleetEids = conquestFleetQuery(world);
@@ -114,12 +122,82 @@ export function fleetMovementSystem(world: IWorld, dt: number): void {
       ConquestFleet.currentPlanetEid[eid] = destEid;
       ConquestFleet.destinationPlanetEid[eid] = -1;
       ConquestFleet.state[eid] = FLEET_STATE.IDLE;
+      if ((ConquestFleet.finalDestinationEid[eid] ?? -1) === destEid) {
+        ConquestFleet.finalDestinationEid[eid] = -1;
+      }
     } else {
       ConquestFleet.movementProgress[eid] = newProgress;
     }
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Fleet Routing System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Starts the next hyperlane hop for fleets stopped partway along a route,
+ * and sends retreating fleets to the nearest friendly neighbouring planet.
+ * Fleets wait out any battle at their current planet first.
+ */
+export function fleetRoutingSystem(world: IWorld): void {
+  if (!hasHyperlanes(world)) return;
+
+  const fleetEids = conquestFleetQuery(world);
+
+  for (const eid of fleetEids) {
+    const state = ConquestFleet.state[eid] ?? FLEET_STATE.IDLE;
+    const currentPlanet = ConquestFleet.currentPlanetEid[eid] ?? -1;
+    if (currentPlanet < 0) continue;
+    if (ConquestPlanet.underAttack[currentPlanet]) continue;
+
+    if (state === FLEET_STATE.RETREATING) {
+      const retreatTo = findRetreatPlanet(world, eid, currentPlanet);
+      ConquestFleet.finalDestinationEid[eid] = -1;
+      if (retreatTo >= 0) {
+        startHyperlaneHop(world, eid, retreatTo);
+      } else {
+        ConquestFleet.state[eid] = FLEET_STATE.IDLE;
+      }
+      continue;
+    }
+
+    const finalDest = ConquestFleet.finalDestinationEid[eid] ?? -1;
+    if (state !== FLEET_STATE.IDLE || finalDest < 0) continue;
+
+    const path = finalDest === currentPlanet ? null : findHyperlanePath(world, currentPlanet, finalDest);
+    const nextHop = path?.planets[0];
+    if (nextHop === undefined) {
+      ConquestFleet.finalDestinationEid[eid] = -1;
+      continue;
+    }
+    startHyperlaneHop(world, eid, nextHop);
+  }
+}
+
+/**
+ * Nearest neighbouring planet held by the fleet's faction (any neighbour if none).
+ */
+function findRetreatPlanet(world: IWorld, fleetEid: number, planetEid: number): number {
+  const faction = ConquestFleet.faction[fleetEid] ?? CONQUEST_FACTION.NEUTRAL;
+  const neighbours = [...getHyperlaneNeighbours(world, planetEid)].sort((a, b) => a.travelTime - b.travelTime);
+  const friendly = neighbours.find((n) => ConquestPlanet.controllingFaction[n.toPlanetEid] === faction);
+  return (friendly ?? neighbours[0])?.toPlanetEid ?? -1;
+}
+
+/**
+ * Sends a fleet down the lane to an adjacent planet.
+ */
+function startHyperlaneHop(world: IWorld, fleetEid: number, nextPlanetEid: number): void {
+  const currentPlanet = ConquestFleet.currentPlanetEid[fleetEid] ?? -1;
+  const lane = getHyperlaneNeighbours(world, currentPlanet).find((n) => n.toPlanetEid === nextPlanetEid);
+
+  ConquestFleet.destinationPlanetEid[fleetEid] = nextPlanetEid;
+  ConquestFleet.travelTime[fleetEid] = lane?.travelTime ?? 10;
+  ConquestFleet.movementProgress[fleetEid] = 0;
+  ConquestFleet.state[fleetEid] = FLEET_STATE.MOVING;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Battle Detection System
 // ─────────────────────────────────────────────────────────────────────────────
@@ -142,7 +220,8 @@ export function battleDetectionSystem(world: IWorld): void {
   for (const fleetEid of fleetEids) {
     const currentPlanet = ConquestFleet.currentPlanetEid[fleetEid] ?? -1;
     const fleetState = ConquestFleet.state[fleetEid] ?? FLEET_STATE.IDLE;
-    if (currentPlanet >= 0 && fleetState !== FLEET_STATE.MOVING) {
+    // Moving fleets are in hyperspace; retreating fleets have already lost here
+    if (currentPlanet >= 0 && fleetState !== FLEET_STATE.MOVING && fleetState !== FLEET_STATE.RETREATING) {
       let list = fleetsByPlanetMap.get(currentPlanet);
       if (!list) {
         list = [];
@@ -190,7 +269,8 @@ export function battleDetectionSystem(world: IWorld): void {
       BattlePending.attackerFaction[battleEid] = CONQUEST_FACTION.EMPIRE;
       BattlePending.defenderFaction[battleEid] = CONQUEST_FACTION.REBEL;
       BattlePending.battleType[battleEid] = BATTLE_TYPE.SPACE;
-      BattlePending.playerInvolved[battleEid] = 0;
+      BattlePending.playerInvolved[battleEid] =
+        ConquestFleet.isPlayerFleet[empireFleetEid] || ConquestFleet.isPlayerFleet[rebelFleetEid] ? 1 : 0;
       BattlePending.autoResolveTimer[battleEid] = 5; // 5 seconds to auto-resolve
     }
   }
@@ -216,7 +296,7 @@ function calculateFleetStrength(world: IWorld, fleetEid: number): number {
 /**
  * Ground force strength calculation.
  */
-function calculateGroundStrength(world: IWorld, forceEid: number): number {
+export function calculateGroundStrength(world: IWorld, forceEid: number): number {
   const infantry = GroundForce.infantryPlatoons[forceEid] ?? 0;
   const vehicles = GroundForce.vehicleSquadrons[forceEid] ?? 0;
   const artillery = GroundForce.artilleryUnits[forceEid] ?? 0;
@@ -242,72 +322,104 @@ export function autoResolveBattleSystem(world: IWorld, dt: number): void {
 
     if (timer <= 0) {
       // Resolve battle
-      const attackerFleetEid = BattlePending.attackerFleetEid[battleEid] ?? -1;
-      const defenderFleetEid = BattlePending.defenderFleetEid[battleEid] ?? -1;
-      const planetEid = BattlePending.planetEid[battleEid] ?? -1;
-
-      let attackerStrength = 0;
-      let defenderStrength = 0;
-
-      if (attackerFleetEid >= 0) {
-        attackerStrength += calculateFleetStrength(world, attackerFleetEid);
-      }
-      if (defenderFleetEid >= 0) {
-        defenderStrength += calculateFleetStrength(world, defenderFleetEid);
-      }
-
-      // Add planetary defense bonus
-      if (planetEid >= 0) {
-        const defenseBonus = ConquestPlanet.defenseBonus[planetEid] ?? 0;
-        defenderStrength *= 1 + defenseBonus;
-      }
+      const { attackerStrength, defenderStrength } = calculateBattleStrengths(world, battleEid);
 
       // Roll with variance (0.7 to 1.3 multiplier)
       const roll = seededRange(0.7, 1.3);
       const attackerEffective = attackerStrength * roll;
 
-      // Determine winner and apply losses
-      if (attackerEffective > defenderStrength) {
-        // Attacker wins
-        const lossRatio = Math.min(0.8, defenderStrength / attackerEffective);
-        if (attackerFleetEid >= 0) {
-          applyFleetLosses(world, attackerFleetEid, lossRatio * 0.5);
-        }
-        if (defenderFleetEid >= 0) {
-          applyFleetLosses(world, defenderFleetEid, 0.8);
-        }
-        // Transfer planet control
-        if (planetEid >= 0 && attackerFleetEid >= 0) {
-          const attackerFaction = ConquestFleet.faction[attackerFleetEid] ?? CONQUEST_FACTION.NEUTRAL;
-          ConquestPlanet.spaceControl[planetEid] = attackerFaction;
-        }
-      } else {
-        // Defender wins
-        const lossRatio = Math.min(0.8, attackerStrength / defenderStrength);
-        if (defenderFleetEid >= 0) {
-          applyFleetLosses(world, defenderFleetEid, lossRatio * 0.5);
-        }
-        if (attackerFleetEid >= 0) {
-          applyFleetLosses(world, attackerFleetEid, 0.7);
-          // Force retreat
-          ConquestFleet.state[attackerFleetEid] = FLEET_STATE.RETREATING;
-        }
-      }
-
-      // Clear battle state
-      if (planetEid >= 0) {
-        ConquestPlanet.underAttack[planetEid] = 0;
-        ConquestPlanet.battlePhase[planetEid] = 0;
-      }
+      // Winner's losses scale with how close the fight was
+      const attackerWins = attackerEffective > defenderStrength;
+      const lossRatio = attackerWins
+        ? Math.min(0.8, defenderStrength / attackerEffective)
+        : Math.min(0.8, attackerStrength / defenderStrength);
 
-      // Remove resolved battle entity
-      removeEntity(world, battleEid);
+      applyBattleOutcome(world, battleEid, attackerWins, lossRatio);
     } else {
       BattlePending.autoResolveTimer[battleEid] = timer;
     }
   }
 }
 
+/**
+ * Attacker/defender strength for a pending battle, including the planetary defense bonus.
+ */
+function calculateBattleStrengths(
+  world: IWorld,
+  battleEid: number
+): { attackerStrength: number; defenderStrength: number } {
+  const attackerFleetEid = BattlePending.attackerFleetEid[battleEid] ?? -1;
+  const defenderFleetEid = BattlePending.defenderFleetEid[battleEid] ?? -1;
+  const planetEid = BattlePending.planetEid[battleEid] ?? -1;
+
+  let attackerStrength = 0;
+  let defenderStrength = 0;
+
+  if (attackerFleetEid >= 0) {
+    attackerStrength += calculateFleetStrength(world, attackerFleetEid);
+  }
+  if (defenderFleetEid >= 0) {
+    defenderStrength += calculateFleetStrength(world, defenderFleetEid);
+  }
+
+  // Add planetary defense bonus
+  if (planetEid >= 0) {
+    const defenseBonus = ConquestPlanet.defenseBonus[planetEid] ?? 0;
+    defenderStrength *= 1 + defenseBonus;
+  }
+
+  return { attackerStrength, defenderStrength };
+}
+
+/**
+ * Applies losses, planet control and retreat for a decided battle, then removes it.
+ */
+function applyBattleOutcome(
+  world: IWorld,
+  battleEid: number,
+  attackerWins: boolean,
+  lossRatio: number
+): void {
+  const attackerFleetEid = BattlePending.attackerFleetEid[battleEid] ?? -1;
+  const defenderFleetEid = BattlePending.defenderFleetEid[battleEid] ?? -1;
+  const planetEid = BattlePending.planetEid[battleEid] ?? -1;
+
+  // Determine winner and apply losses
+  if (attackerWins) {
+    // Attacker wins
+    if (attackerFleetEid >= 0) {
+      applyFleetLosses(world, attackerFleetEid, lossRatio * 0.5);
+    }
+    if (defenderFleetEid >= 0) {
+      applyFleetLosses(world, defenderFleetEid, 0.8);
+    }
+    // Transfer planet control
+    if (planetEid >= 0 && attackerFleetEid >= 0) {
+      const attackerFaction = ConquestFleet.faction[attackerFleetEid] ?? CONQUEST_FACTION.NEUTRAL;
+      ConquestPlanet.spaceControl[planetEid] = attackerFaction;
+    }
+  } else {
+    // Defender wins
+    if (defenderFleetEid >= 0) {
+      applyFleetLosses(world, defenderFleetEid, lossRatio * 0.5);
+    }
+    if (attackerFleetEid >= 0) {
+      applyFleetLosses(world, attackerFleetEid, 0.7);
+      // Force retreat
+      ConquestFleet.state[attackerFleetEid] = FLEET_STATE.RETREATING;
+    }
+  }
+
+  // Clear battle state
+  if (planetEid >= 0) {
+    ConquestPlanet.underAttack[planetEid] = 0;
+    ConquestPlanet.battlePhase[planetEid] = 0;
+  }
+
+  // Remove resolved battle entity
+  removeEntity(world, battleEid);
+}
+
 function applyFleetLosses(world: IWorld, fleetEid: number, lossPercent: number): void {
   const fighters = ConquestFleet.fighterSquadrons[fleetEid] ?? 0;
   const capitals = ConquestFleet.capitalShips[fleetEid] ?? 0;
@@ -408,6 +520,7 @@ export function conquestTick(world: IWorld, dt: number): void {
   fleetMovementSystem(world, dt);
   battleDetectionSystem(world);
   autoResolveBattleSystem(world, dt);
+  fleetRoutingSystem(world);
   garrisonReinforcementSystem(world, dt);
   victoryConditionSystem(world);
 }
@@ -418,17 +531,33 @@ export function conquestTick(world: IWorld, dt: number): void {
 
 /**
  * Orders a fleet to move to a destination planet.
+ * With a hyperlane network the fleet follows the fastest route hop by hop
+ * (travelTime is ignored); without one it jumps directly in travelTime seconds.
+ * Returns false if the destination cannot be reached.
  */
 export function orderFleetMove(
   world: IWorld,
   fleetEid: number,
   destinationPlanetEid: number,
-  travelTime: number
-): void {
+  travelTime = 10
+): boolean {
+  if (hasHyperlanes(world)) {
+    const currentPlanet = ConquestFleet.currentPlanetEid[fleetEid] ?? -1;
+    const path = findHyperlanePath(world, currentPlanet, destinationPlanetEid);
+    const nextHop = path?.planets[0];
+    if (nextHop === undefined) return false;
+
+    ConquestFleet.finalDestinationEid[fleetEid] = destinationPlanetEid;
+    startHyperlaneHop(world, fleetEid, nextHop);
+    return true;
+  }
+
   ConquestFleet.destinationPlanetEid[fleetEid] = destinationPlanetEid;
+  ConquestFleet.finalDestinationEid[fleetEid] = destinationPlanetEid;
   ConquestFleet.travelTime[fleetEid] = travelTime;
   ConquestFleet.movementProgress[fleetEid] = 0;
   ConquestFleet.state[fleetEid] = FLEET_STATE.MOVING;
+  return true;
 }
 
 /**
@@ -458,6 +587,17 @@ export function getPlayerFleet(world: IWorld): number | null {
   return null;
 }
 
+/**
+ * Gets the first pending battle the player must fight (if any).
+ */
+export function getPlayerBattle(world: IWorld): number | null {
+  const battleEids = battlePendingQuery(world);
+  for (const eid of battleEids) {
+    if (BattlePending.playerInvolved[eid]) return eid;
+  }
+  return null;
+}
+
 /**
  * Gets the conquest game state entity.
  */
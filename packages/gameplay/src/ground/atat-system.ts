@@ -10,6 +10,7 @@ import type { IWorld } from "bitecs";
 import { SeededRNG } from "@xwingz/core";
 import { Transform, Health, Team } from "../space/components";
 import { ATATWalker, ATAT_STATE, ShieldGenerator } from "./hoth-components";
+import { TOW_CABLE } from "./tow-cable-system";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Queries
@@ -201,7 +202,7 @@ export function atatTripSystem(world: IWorld, dt: number): void {
     switch (state) {
       case ATAT_STATE.ADVANCING:
         // Check if enough cable wraps to trip
-        if (wraps >= 3) {
+        if (wraps >= TOW_CABLE.WRAPS_TO_TRIP) {
           ATATWalker.state[eid] = ATAT_STATE.STUMBLING;
           ATATWalker.stateTimer[eid] = 1.5; // Stumble for 1.5 seconds
         }
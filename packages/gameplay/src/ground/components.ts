@@ -182,7 +182,7 @@ export const CommandPost = defineComponent({
 // ─────────────────────────────────────────────────────────────────────────────
 
 export const GroundAI = defineComponent({
-  state: Types.ui8,            // 0=Idle, 1=MoveTo, 2=Attack, 3=Capture, 4=Flee, 5=Evade, 6=Strafe
+  state: Types.ui8,            // 0=Idle, 1=MoveTo, 2=Attack, 3=Capture, 4=Flee, 5=Evade, 6=Strafe, 7=Cover, 8=Flank, 9=Retreat
   stateTime: Types.f32,        // seconds in current state
   targetEid: Types.i32,        // -1 when none
   waypointX: Types.f32,        // current nav target
@@ -194,6 +194,61 @@ export const GroundAI = defineComponent({
   strafeTimer: Types.f32       // time until strafe direction change
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// SUPPRESSION AND SQUADS (for coordinated AI infantry)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How pinned down a soldier is by near-misses, and where it last saw cover.
+ * Above the pin threshold the AI dives for cover instead of advancing.
+ */
+export const Suppression = defineComponent({
+  level: Types.f32,            // 0..1, decays over time
+  threatX: Types.f32,          // where the last near-miss came from
+  threatZ: Types.f32,
+  coverX: Types.f32,           // cover point hidden from the threat
+  coverZ: Types.f32,
+  hasCover: Types.ui8          // 0 = not looked yet, 1 = coverX/Z valid, 2 = none nearby
+});
+
+export enum SquadOrder {
+  Advance = 0,     // Squad's own initiative: take posts, fight what it meets
+  Follow = 1,      // Stay with orderTargetEid (usually the player)
+  Hold = 2,        // Stay at orderX/orderZ
+  AttackPost = 3   // Take command post orderTargetEid
+}
+
+export const enum SquadTactic {
+  Advance = 0,     // Moving on the objective
+  Flank = 1,       // One fireteam pins the enemy, the other flanks
+  Retreat = 2      // Falling back to regroup
+}
+
+/**
+ * A squad: an entity of its own that members point at. The leader (an
+ * Officer, or the player for a friendly squad) is what makes it coordinate;
+ * a squad that loses its officer goes back to fighting man by man.
+ */
+export const Squad = defineComponent({
+  team: Types.i32,
+  leaderEid: Types.i32,        // -1 when leaderless
+  order: Types.ui8,            // SquadOrder
+  orderTargetEid: Types.i32,   // follow target or command post (-1 when none)
+  orderX: Types.f32,           // hold position
+  orderZ: Types.f32,
+  tactic: Types.ui8,           // SquadTactic
+  tacticTime: Types.f32,       // seconds in current tactic
+  strength: Types.ui8,         // members counted when the squad last regrouped
+  tacticX: Types.f32,          // flank or rally point for the current tactic
+  tacticZ: Types.f32
+});
+
+export const SquadMember = defineComponent({
+  squadEid: Types.i32,
+  fireteam: Types.ui8,         // 0 = base of fire, 1 = maneuver
+  slot: Types.ui8              // position in the squad's spread
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // DAMAGE REACTION (for reactive AI evasion)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -154,6 +154,8 @@ export const Snowspeeder = defineComponent({
   cableLength: Types.f32,        // Current cable extension
   cableStrength: Types.f32,      // 0..100, breaks if speed too low while wrapping
   orbitAngle: Types.f32,         // Current angle around AT-AT during wrap
+  orbitProgress: Types.f32,      // Radians swept around the AT-AT since attaching (signed)
+  cableCooldown: Types.f32,      // Seconds until the harpoon can fire again
 
   // Crew
   pilotEid: Types.i32,           // Player or AI pilot
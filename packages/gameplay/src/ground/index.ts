@@ -2,8 +2,12 @@
 export * from "./components";
 export * from "./systems";
 export * from "./input";
+export * from "./navigation";
+export * from "./vehicle-ai-system";
+export * from "./squad-system";
 
 // Hoth-specific (Battle of Hoth mission)
 export * from "./hoth-components";
 export * from "./atat-system";
+export * from "./tow-cable-system";
 export * from "./turret-system";
@@ -1,3 +1,13 @@
+import {
+  createDefaultControlSettings,
+  GROUND_ONE_SHOT,
+  type ControlSettings,
+  type GroundAxis,
+  type GroundButton
+} from "../input/bindings";
+import { readActions } from "../input/mapping";
+import { createInputDevices } from "../input/devices";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GROUND INPUT STATE (Third-person infantry controls)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -16,20 +26,29 @@ export type GroundInputState = {
   dodge: boolean;      // Alt key (one-shot, dodge roll)
   throwGrenade: boolean; // G key (one-shot, throw grenade)
   launch: boolean;     // L key (one-shot, launch back to space)
+  orderFollow: boolean;     // 1 key (one-shot, squad follows the player)
+  orderHold: boolean;       // 2 key (one-shot, squad holds here)
+  orderAttackPost: boolean; // 3 key (one-shot, squad takes nearest post)
 };
 
 const PITCH_MIN = -Math.PI * 0.44; // ~-80 degrees
 const PITCH_MAX = Math.PI * 0.44;  // ~+80 degrees
 const MOUSE_SENSITIVITY = 0.002;
-
-export function createGroundInput(target: HTMLElement | Window = window) {
-  const keys = new Set<string>();
-  let jumpPressed = false;
-  let interactPressed = false;
-  let toggleMapPressed = false;
-  let dodgePressed = false;
-  let grenadePressed = false;
-  let launchPressed = false;
+const GAMEPAD_LOOK_SPEED = 3.0;    // rad/s at full stick
+
+/**
+ * Infantry controls from keyboard, mouse and gamepad. `settings` is read on
+ * every update, so edits from the controls overlay apply immediately.
+ */
+export function createGroundInput(
+  target: HTMLElement | Window = window,
+  settings: ControlSettings = createDefaultControlSettings()
+) {
+  const devices = createInputDevices(target);
+  const actions = {
+    axes: { moveX: 0, moveZ: 0, lookX: 0, lookY: 0 } as Record<GroundAxis, number>,
+    buttons: {} as Record<GroundButton, boolean>
+  };
   let mouseDeltaX = 0;
   let mouseDeltaY = 0;
   let isPointerLocked = false;
@@ -47,26 +66,12 @@ export function createGroundInput(target: HTMLElement | Window = window) {
     toggleMap: false,
     dodge: false,
     throwGrenade: false,
-    launch: false
+    launch: false,
+    orderFollow: false,
+    orderHold: false,
+    orderAttackPost: false
   };
 
-  function onKeyDown(e: KeyboardEvent) {
-    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
-    keys.add(key);
-
-    if (key === " " || key === "Space") jumpPressed = true;
-    if (key === "e") interactPressed = true;
-    if (key === "m") toggleMapPressed = true;
-    if (key === "Alt" || key === "AltLeft" || key === "AltRight") dodgePressed = true;
-    if (key === "g") grenadePressed = true;
-    if (key === "l") launchPressed = true;
-  }
-
-  function onKeyUp(e: KeyboardEvent) {
-    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
-    keys.delete(key);
-  }
-
   function onMouseMove(e: MouseEvent) {
     if (!isPointerLocked) return;
     mouseDeltaX += e.movementX;
@@ -75,7 +80,7 @@ export function createGroundInput(target: HTMLElement | Window = window) {
 
   function onMouseDown(e: MouseEvent) {
     if (e.button === 0) {
-      // Left click - request pointer lock or mark fire
+      // Left click - request pointer lock (firing is read from the bindings)
       if (!isPointerLocked && target instanceof HTMLElement) {
         target.requestPointerLock();
       }
@@ -88,57 +93,51 @@ export function createGroundInput(target: HTMLElement | Window = window) {
 
   // Attach listeners
   const eventTarget = target instanceof Window ? window : target;
-  eventTarget.addEventListener("keydown", onKeyDown as EventListener);
-  eventTarget.addEventListener("keyup", onKeyUp as EventListener);
   eventTarget.addEventListener("mousemove", onMouseMove as EventListener);
   eventTarget.addEventListener("mousedown", onMouseDown as EventListener);
   document.addEventListener("pointerlockchange", onPointerLockChange);
 
-  function axis(neg: string[], pos: string[]): number {
-    const n = neg.some((k) => keys.has(k)) ? 1 : 0;
-    const p = pos.some((k) => keys.has(k)) ? 1 : 0;
-    return p - n;
-  }
+  function update(dt = 1 / 60): void {
+    readActions(devices.poll(), settings.ground, GROUND_ONE_SHOT, actions);
+    const { axes, buttons } = actions;
 
-  function update(): void {
-    // WASD movement
-    state.moveX = axis(["a", "ArrowLeft"], ["d", "ArrowRight"]);
-    state.moveZ = axis(["s", "ArrowDown"], ["w", "ArrowUp"]);
+    // Movement
+    state.moveX = axes.moveX;
+    state.moveZ = axes.moveZ;
 
-    // Modifiers
-    state.sprint = keys.has("Shift") || keys.has("ShiftLeft") || keys.has("ShiftRight");
-    state.crouch = keys.has("Control") || keys.has("ControlLeft") || keys.has("ControlRight");
+    // Held buttons
+    state.sprint = buttons.sprint;
+    state.crouch = buttons.crouch;
+    state.firePrimary = buttons.firePrimary;
 
     // One-shot inputs
-    state.jump = jumpPressed;
-    state.interact = interactPressed;
-    state.toggleMap = toggleMapPressed;
-    state.dodge = dodgePressed;
-    state.throwGrenade = grenadePressed;
-    state.launch = launchPressed;
-    jumpPressed = false;
-    interactPressed = false;
-    toggleMapPressed = false;
-    dodgePressed = false;
-    grenadePressed = false;
-    launchPressed = false;
-
-    // Fire
-    state.firePrimary = keys.has(" ") || keys.has("Space");
+    state.jump = buttons.jump;
+    state.interact = buttons.interact;
+    state.toggleMap = buttons.toggleMap;
+    state.dodge = buttons.dodge;
+    state.throwGrenade = buttons.throwGrenade;
+    state.launch = buttons.launch;
+    state.orderFollow = buttons.orderFollow;
+    state.orderHold = buttons.orderHold;
+    state.orderAttackPost = buttons.orderAttackPost;
 
     // Mouse look (accumulate into yaw/pitch)
     if (isPointerLocked) {
-      state.aimYaw -= mouseDeltaX * MOUSE_SENSITIVITY;
-      state.aimPitch -= mouseDeltaY * MOUSE_SENSITIVITY;
-      state.aimPitch = Math.max(PITCH_MIN, Math.min(PITCH_MAX, state.aimPitch));
+      const sensitivity = MOUSE_SENSITIVITY * settings.mouseSensitivity;
+      state.aimYaw -= mouseDeltaX * sensitivity;
+      state.aimPitch -= mouseDeltaY * sensitivity;
     }
     mouseDeltaX = 0;
     mouseDeltaY = 0;
+
+    // Stick look (rate-based)
+    state.aimYaw -= axes.lookX * GAMEPAD_LOOK_SPEED * dt;
+    state.aimPitch -= axes.lookY * GAMEPAD_LOOK_SPEED * dt;
+    state.aimPitch = Math.max(PITCH_MIN, Math.min(PITCH_MAX, state.aimPitch));
   }
 
   function dispose(): void {
-    eventTarget.removeEventListener("keydown", onKeyDown as EventListener);
-    eventTarget.removeEventListener("keyup", onKeyUp as EventListener);
+    devices.dispose();
     eventTarget.removeEventListener("mousemove", onMouseMove as EventListener);
     eventTarget.removeEventListener("mousedown", onMouseDown as EventListener);
     document.removeEventListener("pointerlockchange", onPointerLockChange);
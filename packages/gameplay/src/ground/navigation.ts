@@ -0,0 +1,550 @@
+/**
+ * Ground Navigation
+ *
+ * A walkability grid baked from the static world, A* queries over it, path
+ * smoothing, and local avoidance of things that move (troopers, walkers).
+ * Isolated from systems.ts; the AI systems ask it for directions.
+ *
+ * The grid is baked by probing ground height per cell (in the game, a
+ * downward ray against Rapier's fixed colliders - see groundHeightAt in
+ * @xwingz/physics). A cell is blocked when nothing is under it or when a
+ * neighbour is more than `maxStep` higher or lower (walls, box edges, cliffs;
+ * the higher side is blocked). Every cell then stores its clearance - the
+ * distance to the nearest blocked cell - so one grid serves a trooper and a
+ * walker alike: an agent of radius r may use cells with clearance > r.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type NavGrid = {
+  minX: number;
+  minZ: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  /** Ground height at each cell centre (NaN where there is none) */
+  heights: Float32Array;
+  /** Distance (m) from each cell to the nearest blocked cell; 0 if blocked */
+  clearance: Float32Array;
+};
+
+export type NavBakeOptions = {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+  /** Cell edge (m), default 1 */
+  cellSize?: number;
+  /** Largest height change between neighbouring cells (m), default a 45 degree slope plus a kerb */
+  maxStep?: number;
+};
+
+/** Ground height at a point, or null where there is no ground */
+export type GroundProbe = (x: number, z: number) => number | null;
+
+export type NavPoint = { x: number; z: number };
+
+/** Something that moves and should be walked around */
+export type NavObstacle = { x: number; z: number; radius: number };
+
+// Clearance recorded for cells with no blocked cell anywhere near
+const OPEN_CLEARANCE = 1e6;
+
+// Step a 45 degree slope climbs per cell, plus what autostep clears (m)
+const KERB_HEIGHT = 0.3;
+
+// Cap on A* expansions per query
+const MAX_SEARCH_NODES = 40000;
+
+// How far start/goal may be moved to reach walkable ground (cells)
+const SNAP_RADIUS_CELLS = 12;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Baking
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function bakeNavGrid(options: NavBakeOptions, probe: GroundProbe): NavGrid {
+  const cellSize = options.cellSize ?? 1;
+  const maxStep = options.maxStep ?? cellSize + KERB_HEIGHT;
+  const cols = Math.max(1, Math.ceil((options.maxX - options.minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((options.maxZ - options.minZ) / cellSize));
+  const count = cols * rows;
+  const heights = new Float32Array(count);
+  const blocked = new Uint8Array(count);
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const h = probe(options.minX + (c + 0.5) * cellSize, options.minZ + (r + 0.5) * cellSize);
+      heights[r * cols + c] = h ?? Number.NaN;
+      if (h === null) blocked[r * cols + c] = 1;
+    }
+  }
+
+  // Steps too tall to walk block the higher cell
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      const h = heights[i]!;
+      if (Number.isNaN(h)) continue;
+      if (c + 1 < cols) markStep(i, i + 1);
+      if (r + 1 < rows) markStep(i, i + cols);
+    }
+  }
+
+  function markStep(a: number, b: number): void {
+    const ha = heights[a]!;
+    const hb = heights[b]!;
+    if (Number.isNaN(hb) || Math.abs(ha - hb) <= maxStep) return;
+    blocked[ha > hb ? a : b] = 1;
+  }
+
+  return {
+    minX: options.minX,
+    minZ: options.minZ,
+    cellSize,
+    cols,
+    rows,
+    heights,
+    clearance: computeClearance(blocked, cols, rows, cellSize)
+  };
+}
+
+/**
+ * Two-pass chamfer distance from each cell to the nearest blocked one,
+ * measured to that cell's edge (so a cell next to a wall has cellSize / 2).
+ */
+function computeClearance(blocked: Uint8Array, cols: number, rows: number, cellSize: number): Float32Array {
+  const dist = new Float32Array(cols * rows);
+  for (let i = 0; i < dist.length; i++) dist[i] = blocked[i] ? 0 : OPEN_CLEARANCE;
+
+  const straight = cellSize;
+  const diagonal = cellSize * Math.SQRT2;
+  const relax = (i: number, r: number, c: number, cost: number) => {
+    if (r < 0 || r >= rows || c < 0 || c >= cols) return;
+    const d = dist[r * cols + c]! + cost;
+    if (d < dist[i]!) dist[i] = d;
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      relax(i, r, c - 1, straight);
+      relax(i, r - 1, c, straight);
+      relax(i, r - 1, c - 1, diagonal);
+      relax(i, r - 1, c + 1, diagonal);
+    }
+  }
+  for (let r = rows - 1; r >= 0; r--) {
+    for (let c = cols - 1; c >= 0; c--) {
+      const i = r * cols + c;
+      relax(i, r, c + 1, straight);
+      relax(i, r + 1, c, straight);
+      relax(i, r + 1, c + 1, diagonal);
+      relax(i, r + 1, c - 1, diagonal);
+    }
+  }
+
+  for (let i = 0; i < dist.length; i++) {
+    if (dist[i]! > 0 && dist[i]! < OPEN_CLEARANCE) dist[i] = dist[i]! - cellSize / 2;
+  }
+  return dist;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cells
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Index of the cell containing (x, z), or -1 outside the grid */
+export function navCellAt(grid: NavGrid, x: number, z: number): number {
+  const c = Math.floor((x - grid.minX) / grid.cellSize);
+  const r = Math.floor((z - grid.minZ) / grid.cellSize);
+  if (c < 0 || c >= grid.cols || r < 0 || r >= grid.rows) return -1;
+  return r * grid.cols + c;
+}
+
+function cellCenter(grid: NavGrid, cell: number): NavPoint {
+  const c = cell % grid.cols;
+  const r = Math.floor(cell / grid.cols);
+  return { x: grid.minX + (c + 0.5) * grid.cellSize, z: grid.minZ + (r + 0.5) * grid.cellSize };
+}
+
+function cellOpen(grid: NavGrid, cell: number, radius: number): boolean {
+  return (grid.clearance[cell] ?? 0) > radius;
+}
+
+/**
+ * Whether an agent of `radius` can stand at (x, z). Points outside the grid
+ * count as open - the grid only knows about what it was baked over.
+ */
+export function isNavWalkable(grid: NavGrid, x: number, z: number, radius = 0): boolean {
+  const cell = navCellAt(grid, x, z);
+  return cell < 0 || cellOpen(grid, cell, radius);
+}
+
+/** Clearance (m) at (x, z); unbounded outside the grid */
+export function navClearanceAt(grid: NavGrid, x: number, z: number): number {
+  const cell = navCellAt(grid, x, z);
+  return cell < 0 ? OPEN_CLEARANCE : (grid.clearance[cell] ?? 0);
+}
+
+/**
+ * Whether an agent of `radius` may move from one point to another: onto
+ * walkable ground, or at least no closer to an obstacle than it already is
+ * (so something spawned against a wall can still back away from it).
+ */
+export function canNavStep(
+  grid: NavGrid,
+  fromX: number,
+  fromZ: number,
+  toX: number,
+  toZ: number,
+  radius = 0
+): boolean {
+  const to = navClearanceAt(grid, toX, toZ);
+  return to > radius || to >= navClearanceAt(grid, fromX, fromZ);
+}
+
+/** Nearest open cell to `cell` within SNAP_RADIUS_CELLS, or -1 */
+function snapToOpen(grid: NavGrid, cell: number, radius: number): number {
+  if (cellOpen(grid, cell, radius)) return cell;
+  const c0 = cell % grid.cols;
+  const r0 = Math.floor(cell / grid.cols);
+  for (let ring = 1; ring <= SNAP_RADIUS_CELLS; ring++) {
+    let best = -1;
+    let bestDist = Infinity;
+    for (let dr = -ring; dr <= ring; dr++) {
+      for (let dc = -ring; dc <= ring; dc++) {
+        if (Math.max(Math.abs(dr), Math.abs(dc)) !== ring) continue;
+        const r = r0 + dr;
+        const c = c0 + dc;
+        if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue;
+        const i = r * grid.cols + c;
+        const d = dr * dr + dc * dc;
+        if (d < bestDist && cellOpen(grid, i, radius)) {
+          best = i;
+          bestDist = d;
+        }
+      }
+    }
+    if (best >= 0) return best;
+  }
+  return -1;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// A*
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NEIGHBOURS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+/**
+ * Shortest walkable route for an agent of `radius` from one point to
+ * another: smoothed waypoints ending at the goal (or the nearest open spot
+ * to it), without the start. Null when there is no route, or when either
+ * end is off the grid.
+ */
+export function findNavPath(
+  grid: NavGrid,
+  fromX: number,
+  fromZ: number,
+  toX: number,
+  toZ: number,
+  radius = 0
+): NavPoint[] | null {
+  const startCell = navCellAt(grid, fromX, fromZ);
+  const goalCell = navCellAt(grid, toX, toZ);
+  if (startCell < 0 || goalCell < 0) return null;
+
+  const start = snapToOpen(grid, startCell, radius);
+  const goal = snapToOpen(grid, goalCell, radius);
+  if (start < 0 || goal < 0) return null;
+
+  const cells = searchCells(grid, start, goal, radius);
+  if (!cells) return null;
+
+  const points = cells.map((cell) => cellCenter(grid, cell));
+  points[0] = { x: fromX, z: fromZ };
+  if (goal === goalCell) points[points.length - 1] = { x: toX, z: toZ };
+  return smoothNavPath(grid, points, radius).slice(1);
+}
+
+function searchCells(grid: NavGrid, start: number, goal: number, radius: number): number[] | null {
+  const count = grid.cols * grid.rows;
+  const gScore = new Float32Array(count).fill(Infinity);
+  const cameFrom = new Int32Array(count).fill(-1);
+  const closed = new Uint8Array(count);
+  const heap = createCellHeap();
+
+  const gc = goal % grid.cols;
+  const gr = Math.floor(goal / grid.cols);
+  const heuristic = (cell: number) => {
+    const dc = Math.abs((cell % grid.cols) - gc);
+    const dr = Math.abs(Math.floor(cell / grid.cols) - gr);
+    return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr);
+  };
+
+  gScore[start] = 0;
+  heap.push(start, heuristic(start));
+  let expanded = 0;
+
+  while (heap.size > 0) {
+    const cell = heap.pop();
+    if (cell === goal) return reconstruct(cameFrom, goal);
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+    if (++expanded > MAX_SEARCH_NODES) return null;
+
+    const c = cell % grid.cols;
+    const r = Math.floor(cell / grid.cols);
+    for (const [dc, dr] of NEIGHBOURS) {
+      const nc = c + dc;
+      const nr = r + dr;
+      if (nc < 0 || nc >= grid.cols || nr < 0 || nr >= grid.rows) continue;
+      const next = nr * grid.cols + nc;
+      if (closed[next] || !cellOpen(grid, next, radius)) continue;
+      // No cutting corners past a blocked cell
+      if (dc !== 0 && dr !== 0) {
+        if (!cellOpen(grid, r * grid.cols + nc, radius) || !cellOpen(grid, nr * grid.cols + c, radius)) continue;
+      }
+      const g = gScore[cell]! + (dc !== 0 && dr !== 0 ? Math.SQRT2 : 1);
+      if (g < gScore[next]!) {
+        gScore[next] = g;
+        cameFrom[next] = cell;
+        heap.push(next, g + heuristic(next));
+      }
+    }
+  }
+  return null;
+}
+
+function reconstruct(cameFrom: Int32Array, goal: number): number[] {
+  const cells = [goal];
+  let cell = goal;
+  while (cameFrom[cell]! >= 0) {
+    cell = cameFrom[cell]!;
+    cells.push(cell);
+  }
+  return cells.reverse();
+}
+
+/** Binary min-heap of cells keyed by f-score; ties pop in insertion order */
+function createCellHeap() {
+  const cells: number[] = [];
+  const keys: number[] = [];
+  const order: number[] = [];
+  let counter = 0;
+
+  const less = (a: number, b: number) => keys[a]! < keys[b]! || (keys[a] === keys[b] && order[a]! < order[b]!);
+  const swap = (a: number, b: number) => {
+    [cells[a], cells[b]] = [cells[b]!, cells[a]!];
+    [keys[a], keys[b]] = [keys[b]!, keys[a]!];
+    [order[a], order[b]] = [order[b]!, order[a]!];
+  };
+
+  return {
+    get size() {
+      return cells.length;
+    },
+    push(cell: number, key: number) {
+      cells.push(cell);
+      keys.push(key);
+      order.push(counter++);
+      let i = cells.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!less(i, parent)) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop(): number {
+      const top = cells[0]!;
+      const last = cells.length - 1;
+      swap(0, last);
+      cells.pop();
+      keys.pop();
+      order.pop();
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < cells.length && less(l, m)) m = l;
+        if (r < cells.length && less(r, m)) m = r;
+        if (m === i) break;
+        swap(i, m);
+        i = m;
+      }
+      return top;
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Smoothing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Whether an agent of `radius` can walk straight from a to b */
+export function hasNavLineOfSight(grid: NavGrid, a: NavPoint, b: NavPoint, radius = 0): boolean {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const steps = Math.ceil(Math.sqrt(dx * dx + dz * dz) / (grid.cellSize * 0.5));
+  for (let s = 0; s <= steps; s++) {
+    const t = steps === 0 ? 0 : s / steps;
+    const cell = navCellAt(grid, a.x + dx * t, a.z + dz * t);
+    if (cell < 0 || !cellOpen(grid, cell, radius)) return false;
+  }
+  return true;
+}
+
+/**
+ * String-pull a path: keep only the waypoints needed to walk it in straight
+ * lines. The first and last points are kept.
+ */
+export function smoothNavPath(grid: NavGrid, points: NavPoint[], radius = 0): NavPoint[] {
+  if (points.length <= 2) return points.slice();
+  const out = [points[0]!];
+  let anchor = 0;
+  while (anchor < points.length - 1) {
+    let next = anchor + 1;
+    for (let j = points.length - 1; j > anchor + 1; j--) {
+      if (hasNavLineOfSight(grid, points[anchor]!, points[j]!, radius)) {
+        next = j;
+        break;
+      }
+    }
+    out.push(points[next]!);
+    anchor = next;
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dynamic obstacles
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Bend a unit move direction around moving obstacles ahead: anything whose
+ * footprint (plus the agent's `radius`) crosses the next `lookAhead` metres
+ * pushes the direction sideways, harder the closer it is. Returns a unit
+ * direction.
+ */
+export function avoidNavObstacles(
+  x: number,
+  z: number,
+  dirX: number,
+  dirZ: number,
+  radius: number,
+  obstacles: readonly NavObstacle[],
+  lookAhead = 6
+): NavPoint {
+  let outX = dirX;
+  let outZ = dirZ;
+
+  for (const o of obstacles) {
+    const rx = o.x - x;
+    const rz = o.z - z;
+    const along = rx * dirX + rz * dirZ;
+    if (along <= 0 || along > lookAhead + o.radius) continue;
+
+    // Signed lateral offset (positive = obstacle to the right of travel)
+    const lateral = rx * -dirZ + rz * dirX;
+    const reach = o.radius + radius;
+    if (Math.abs(lateral) >= reach) continue;
+
+    const urgency = (1 - along / (lookAhead + o.radius)) * (1 - Math.abs(lateral) / reach);
+    // Pass on the side the obstacle isn't already on (dead ahead: go left)
+    const side = lateral > 0 ? -1 : 1;
+    outX += -dirZ * side * urgency * 2;
+    outZ += dirX * side * urgency * 2;
+  }
+
+  const len = Math.sqrt(outX * outX + outZ * outZ);
+  return len > 1e-6 ? { x: outX / len, z: outZ / len } : { x: dirX, z: dirZ };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Active grid and path following
+// ─────────────────────────────────────────────────────────────────────────────
+
+let activeNavGrid: NavGrid | null = null;
+
+type FollowState = { goalX: number; goalZ: number; points: NavPoint[]; age: number };
+const followStates = new Map<number, FollowState>();
+
+// Re-plan when the goal moves this far (m) or the plan gets this old (s)
+const REPLAN_DISTANCE = 3;
+const REPLAN_INTERVAL = 2;
+
+// A waypoint counts as reached within this distance (m), or sooner if the
+// one after it is already in a straight line
+const WAYPOINT_RADIUS = 0.3;
+const WAYPOINT_SHORTCUT_RADIUS = 1.5;
+
+/**
+ * Grid the ground AI routes over (null to walk straight at goals). Setting
+ * it drops every agent's current plan.
+ */
+export function setGroundNavGrid(grid: NavGrid | null): void {
+  activeNavGrid = grid;
+  followStates.clear();
+}
+
+export function getGroundNavGrid(): NavGrid | null {
+  return activeNavGrid;
+}
+
+/**
+ * Unit direction for agent `eid` to head in to reach a goal along the active
+ * grid, re-planning as the goal moves. Straight at the goal when there is no
+ * grid, no route, or the agent or goal is off the grid.
+ */
+export function navDirectionTo(
+  eid: number,
+  x: number,
+  z: number,
+  goalX: number,
+  goalZ: number,
+  radius: number,
+  dt: number
+): NavPoint {
+  const straight = unit(goalX - x, goalZ - z);
+  const grid = activeNavGrid;
+  if (!grid) return straight;
+
+  let state = followStates.get(eid);
+  const goalMoved = state ? Math.hypot(state.goalX - goalX, state.goalZ - goalZ) > REPLAN_DISTANCE : true;
+  if (!state || goalMoved || state.age > REPLAN_INTERVAL) {
+    const points = findNavPath(grid, x, z, goalX, goalZ, radius);
+    state = { goalX, goalZ, points: points ?? [], age: 0 };
+    followStates.set(eid, state);
+    if (!points) return straight;
+  }
+  state.age += dt;
+
+  const here = { x, z };
+  while (state.points.length > 1) {
+    const dist = Math.hypot(state.points[0]!.x - x, state.points[0]!.z - z);
+    const reached = dist < WAYPOINT_RADIUS ||
+      (dist < WAYPOINT_SHORTCUT_RADIUS && hasNavLineOfSight(grid, here, state.points[1]!, radius));
+    if (!reached) break;
+    state.points.shift();
+  }
+  const next = state.points[0];
+  return next ? unit(next.x - x, next.z - z) : straight;
+}
+
+/** Forget agent `eid`'s plan (when it dies or stops moving) */
+export function clearNavPath(eid: number): void {
+  followStates.delete(eid);
+}
+
+function unit(x: number, z: number): NavPoint {
+  const len = Math.sqrt(x * x + z * z);
+  return len > 1e-6 ? { x: x / len, z: z / len } : { x: 0, z: 0 };
+}
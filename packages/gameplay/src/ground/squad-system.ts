@@ -0,0 +1,577 @@
+/**
+ * Squad AI
+ *
+ * Groups AI soldiers into squads around a leader: an Officer for AI squads,
+ * or the player for a friendly squad taking orders. suppressionSystem pins
+ * soldiers that blaster bolts narrowly miss and finds them cover;
+ * squadSystem picks the squad's tactic (advance on a post, split into a
+ * base-of-fire and a flanking fireteam, or fall back to regroup) and hands
+ * each member its part through GroundAI. groundAISystem still does the
+ * moving and shooting.
+ * Isolated from main systems.ts to prevent god script bloat.
+ */
+
+import { addComponent, addEntity, defineQuery, hasComponent, removeEntity } from "bitecs";
+import type { IWorld } from "bitecs";
+import { Transform, Velocity, Health, Team } from "../space/components";
+import {
+  BlasterBolt,
+  CommandPost,
+  GroundAI,
+  InGroundDomain,
+  Soldier,
+  Squad,
+  SquadMember,
+  SquadOrder,
+  SquadTactic,
+  Suppression
+} from "./components";
+import { GroundAIState, SUPPRESSION_PIN_LEVEL, SUPPRESSION_RECOVER_LEVEL } from "./systems";
+import { getGroundNavGrid, isNavWalkable } from "./navigation";
+import type { NavGrid } from "./navigation";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const squadQuery = defineQuery([Squad]);
+const memberQuery = defineQuery([SquadMember, GroundAI, Transform, Health]);
+const suppressionQuery = defineQuery([Suppression, Transform, Team]);
+const boltQuery = defineQuery([BlasterBolt, Transform, Velocity]);
+const combatantQuery = defineQuery([InGroundDomain, Health, Transform, Team]);
+const commandPostQuery = defineQuery([CommandPost, Transform]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Bolts passing within this distance of a soldier suppress it (m)
+const NEAR_MISS_RADIUS = 3;
+
+// Suppression from one point-blank near-miss of a 15 damage bolt
+const NEAR_MISS_SUPPRESSION = 0.2;
+
+// Suppression lost per second
+const SUPPRESSION_DECAY = 0.25;
+
+// How far back along a bolt its shooter is assumed to be when unknown (m)
+const THREAT_BACKTRACK = 30;
+
+// Cover is searched on rings this far out (m), nearest first
+const COVER_RINGS = [3, 6, 10];
+const COVER_DIRECTIONS = 8;
+
+// Clearance a cover point needs on the nav grid (m)
+const COVER_CLEARANCE = 0.5;
+
+// Squads react to enemies this close to their centre (m)
+const SQUAD_THREAT_RANGE = 60;
+
+// How far out to the side the flanking fireteam swings (m)
+const FLANK_OFFSET = 18;
+
+// Flanking ends after this long, whether or not it worked (s)
+const FLANK_DURATION = 25;
+
+// Squads fall back once down to this share of their strength...
+const RETREAT_STRENGTH = 0.5;
+
+// ...or this share of their total health
+const RETREAT_HEALTH = 0.35;
+
+// Distance to fall back when there's no friendly post to rally on (m)
+const RETREAT_DISTANCE = 40;
+
+// Regrouping ends when everyone is this close to the rally point (m)...
+const RALLY_RADIUS = 6;
+
+// ...or after this long (s)
+const RETREAT_DURATION = 25;
+
+// Members further than this from their slot are sent back to it (m)
+const SLOT_TOLERANCE = 3;
+const FOLLOW_SLOT_TOLERANCE = 5;
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const OFFICER_CLASS = 3;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cover
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * True if a soldier standing at (x, z) can't be shot from (threatX, threatZ).
+ * GroundMode builds one from `raycast` in @xwingz/physics.
+ */
+export type CoverProbe = (x: number, z: number, threatX: number, threatZ: number) => boolean;
+
+/**
+ * Nearest point around (x, z) hidden from the threat, or null if there is
+ * none close by. Points toward the threat, and points the nav grid says
+ * can't be stood on, are never picked.
+ */
+export function findCoverPoint(
+  x: number,
+  z: number,
+  threatX: number,
+  threatZ: number,
+  probe: CoverProbe,
+  grid: NavGrid | null = getGroundNavGrid()
+): { x: number; z: number } | null {
+  const threatDist = Math.hypot(threatX - x, threatZ - z);
+
+  for (const ring of COVER_RINGS) {
+    let best: { x: number; z: number } | null = null;
+    let bestThreatDist = -Infinity;
+
+    for (let i = 0; i < COVER_DIRECTIONS; i++) {
+      const angle = (i / COVER_DIRECTIONS) * Math.PI * 2;
+      const cx = x + Math.cos(angle) * ring;
+      const cz = z + Math.sin(angle) * ring;
+
+      const candidateThreatDist = Math.hypot(threatX - cx, threatZ - cz);
+      if (candidateThreatDist < threatDist - ring * 0.5) continue;
+      if (grid && !isNavWalkable(grid, cx, cz, COVER_CLEARANCE)) continue;
+      if (!probe(cx, cz, threatX, threatZ)) continue;
+
+      // Prefer the point furthest from the threat on the nearest ring
+      if (candidateThreatDist > bestThreatDist) {
+        bestThreatDist = candidateThreatDist;
+        best = { x: cx, z: cz };
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Suppression System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build up suppression on soldiers from enemy bolts passing close by this
+ * frame, and let it wear off. Run after blasterBoltFlightSystem, so each
+ * bolt's path this frame ends at its current position. Pinned soldiers look
+ * for cover with `coverProbe`; without one they hunker down where they are.
+ */
+export function suppressionSystem(world: IWorld, dt: number, coverProbe?: CoverProbe): void {
+  const soldiers = suppressionQuery(world);
+  const bolts = boltQuery(world);
+
+  for (const eid of soldiers) {
+    Suppression.level[eid] = Math.max(0, (Suppression.level[eid] ?? 0) - SUPPRESSION_DECAY * dt);
+  }
+
+  for (const bolt of bolts) {
+    const ownerTeam = BlasterBolt.ownerTeam[bolt] ?? -1;
+    const ownerEid = BlasterBolt.ownerEid[bolt] ?? -1;
+    const damage = BlasterBolt.damage[bolt] ?? 15;
+
+    const vx = Velocity.vx[bolt] ?? 0;
+    const vz = Velocity.vz[bolt] ?? 0;
+    const endX = Transform.x[bolt] ?? 0;
+    const endZ = Transform.z[bolt] ?? 0;
+    const segX = vx * dt;
+    const segZ = vz * dt;
+    const startX = endX - segX;
+    const startZ = endZ - segZ;
+    const segLen2 = segX * segX + segZ * segZ;
+    if (segLen2 < 1e-6) continue;
+
+    // Where the shot came from
+    let threatX: number;
+    let threatZ: number;
+    if (ownerEid >= 0 && hasComponent(world, Transform, ownerEid)) {
+      threatX = Transform.x[ownerEid] ?? 0;
+      threatZ = Transform.z[ownerEid] ?? 0;
+    } else {
+      const segLen = Math.sqrt(segLen2);
+      threatX = startX - (segX / segLen) * THREAT_BACKTRACK;
+      threatZ = startZ - (segZ / segLen) * THREAT_BACKTRACK;
+    }
+
+    const weight = Math.min(2, Math.max(0.5, damage / 15));
+
+    for (const eid of soldiers) {
+      if ((Team.id[eid] ?? -1) === ownerTeam) continue;
+
+      // Closest approach of the bolt's path this frame
+      const px = (Transform.x[eid] ?? 0) - startX;
+      const pz = (Transform.z[eid] ?? 0) - startZ;
+      const t = Math.min(1, Math.max(0, (px * segX + pz * segZ) / segLen2));
+      const d = Math.hypot(px - segX * t, pz - segZ * t);
+      if (d >= NEAR_MISS_RADIUS) continue;
+
+      const added = NEAR_MISS_SUPPRESSION * (1 - d / NEAR_MISS_RADIUS) * weight;
+      Suppression.level[eid] = Math.min(1, (Suppression.level[eid] ?? 0) + added);
+      Suppression.threatX[eid] = threatX;
+      Suppression.threatZ[eid] = threatZ;
+    }
+  }
+
+  for (const eid of soldiers) {
+    const level = Suppression.level[eid] ?? 0;
+
+    if (level < SUPPRESSION_RECOVER_LEVEL) {
+      Suppression.hasCover[eid] = 0;
+    } else if (level >= SUPPRESSION_PIN_LEVEL && (Suppression.hasCover[eid] ?? 0) === 0 && coverProbe) {
+      const cover = findCoverPoint(
+        Transform.x[eid] ?? 0,
+        Transform.z[eid] ?? 0,
+        Suppression.threatX[eid] ?? 0,
+        Suppression.threatZ[eid] ?? 0,
+        coverProbe
+      );
+      if (cover) {
+        Suppression.coverX[eid] = cover.x;
+        Suppression.coverZ[eid] = cover.z;
+        Suppression.hasCover[eid] = 1;
+      } else {
+        Suppression.hasCover[eid] = 2;
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Squad Setup and Orders
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create an empty squad led by `leaderEid` (an Officer, or the player).
+ * The leader isn't made a member; add it with addSquadMember if it is AI.
+ */
+export function createSquad(world: IWorld, team: number, leaderEid: number): number {
+  const eid = addEntity(world);
+  addComponent(world, Squad, eid);
+  Squad.team[eid] = team;
+  Squad.leaderEid[eid] = leaderEid;
+  Squad.order[eid] = SquadOrder.Advance;
+  Squad.orderTargetEid[eid] = -1;
+  Squad.orderX[eid] = 0;
+  Squad.orderZ[eid] = 0;
+  Squad.tactic[eid] = SquadTactic.Advance;
+  Squad.tacticTime[eid] = 0;
+  Squad.strength[eid] = 0;
+  Squad.tacticX[eid] = 0;
+  Squad.tacticZ[eid] = 0;
+  return eid;
+}
+
+/**
+ * Put an AI soldier in a squad. Members alternate between the two fireteams.
+ */
+export function addSquadMember(world: IWorld, squadEid: number, eid: number): void {
+  const slot = Squad.strength[squadEid] ?? 0;
+
+  addComponent(world, SquadMember, eid);
+  SquadMember.squadEid[eid] = squadEid;
+  SquadMember.slot[eid] = slot;
+  SquadMember.fireteam[eid] = slot % 2;
+
+  if (!hasComponent(world, Suppression, eid)) {
+    addComponent(world, Suppression, eid);
+    Suppression.level[eid] = 0;
+    Suppression.hasCover[eid] = 0;
+  }
+
+  Squad.strength[squadEid] = slot + 1;
+}
+
+/**
+ * Give a squad an order. `targetEid` is who to follow or which post to take;
+ * (x, z) is where to hold.
+ */
+export function issueSquadOrder(
+  world: IWorld,
+  squadEid: number,
+  order: SquadOrder,
+  targetEid: number = -1,
+  x: number = 0,
+  z: number = 0
+): void {
+  if (!hasComponent(world, Squad, squadEid)) return;
+
+  Squad.order[squadEid] = order;
+  Squad.orderTargetEid[squadEid] = targetEid;
+  Squad.orderX[squadEid] = x;
+  Squad.orderZ[squadEid] = z;
+
+  // Orders override whatever the squad was doing on its own initiative
+  Squad.tactic[squadEid] = SquadTactic.Advance;
+  Squad.tacticTime[squadEid] = 0;
+}
+
+/**
+ * The squad led by the player's soldier, or null if it leads none.
+ */
+export function findPlayerSquad(world: IWorld, playerEid: number): number | null {
+  for (const eid of squadQuery(world)) {
+    if ((Squad.leaderEid[eid] ?? -1) === playerEid) return eid;
+  }
+  return null;
+}
+
+/**
+ * Remove every squad, e.g. when a ground battle ends.
+ */
+export function disbandAllSquads(world: IWorld): void {
+  for (const eid of squadQuery(world)) removeEntity(world, eid);
+}
+
+/**
+ * Nearest command post `team` doesn't hold, or -1 if it holds them all.
+ */
+export function nearestPostFor(world: IWorld, team: number, x: number, z: number): number {
+  let best = -1;
+  let bestDist = Infinity;
+  for (const cp of commandPostQuery(world)) {
+    if ((CommandPost.ownerTeam[cp] ?? -1) === team) continue;
+    const dist = Math.hypot((Transform.x[cp] ?? 0) - x, (Transform.z[cp] ?? 0) - z);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = cp;
+    }
+  }
+  return best;
+}
+
+function nearestOwnedPost(world: IWorld, team: number, x: number, z: number): number {
+  let best = -1;
+  let bestDist = Infinity;
+  for (const cp of commandPostQuery(world)) {
+    if ((CommandPost.ownerTeam[cp] ?? -1) !== team) continue;
+    const dist = Math.hypot((Transform.x[cp] ?? 0) - x, (Transform.z[cp] ?? 0) - z);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = cp;
+    }
+  }
+  return best;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Squad System
+// ─────────────────────────────────────────────────────────────────────────────
+
+const squadMembers = new Map<number, number[]>();
+
+function isAlive(world: IWorld, eid: number): boolean {
+  return eid >= 0 && hasComponent(world, Health, eid) && hasComponent(world, Transform, eid) &&
+    (Health.hp[eid] ?? 0) > 0;
+}
+
+/** States squadSystem leaves alone: the soldier is saving itself. */
+function isSelfPreserving(state: number): boolean {
+  return state === GroundAIState.Cover || state === GroundAIState.Evade || state === GroundAIState.Flee;
+}
+
+function setMemberState(eid: number, state: GroundAIState, x: number, z: number): void {
+  if ((GroundAI.state[eid] ?? GroundAIState.Idle) !== state) {
+    GroundAI.state[eid] = state;
+    GroundAI.stateTime[eid] = 0;
+  }
+  GroundAI.waypointX[eid] = x;
+  GroundAI.waypointZ[eid] = z;
+}
+
+/**
+ * Coordinate every squad with a living leader. A squad whose leader dies
+ * promotes another Officer among its members, or disbands so its soldiers
+ * fight on their own. Run before groundAISystem.
+ */
+export function squadSystem(world: IWorld, dt: number): void {
+  for (const list of squadMembers.values()) list.length = 0;
+  for (const eid of memberQuery(world)) {
+    const squadEid = SquadMember.squadEid[eid] ?? -1;
+    if (squadEid < 0 || (Health.hp[eid] ?? 0) <= 0) continue;
+    let list = squadMembers.get(squadEid);
+    if (!list) {
+      list = [];
+      squadMembers.set(squadEid, list);
+    }
+    list.push(eid);
+  }
+
+  const combatants = combatantQuery(world);
+
+  for (const squadEid of squadQuery(world)) {
+    const members = squadMembers.get(squadEid) ?? [];
+    const team = Squad.team[squadEid] ?? 0;
+
+    // Leadership
+    let leader = Squad.leaderEid[squadEid] ?? -1;
+    if (!isAlive(world, leader)) {
+      leader = members.find((m) => hasComponent(world, Soldier, m) && Soldier.classId[m] === OFFICER_CLASS) ?? -1;
+      Squad.leaderEid[squadEid] = leader;
+    }
+    if (leader < 0) {
+      for (const m of members) SquadMember.squadEid[m] = -1;
+      squadMembers.delete(squadEid);
+      removeEntity(world, squadEid);
+      continue;
+    }
+    if (members.length === 0) continue;
+
+    // Centre and condition of the squad
+    let cx = 0, cz = 0, hp = 0, maxHp = 0;
+    for (const m of members) {
+      cx += Transform.x[m] ?? 0;
+      cz += Transform.z[m] ?? 0;
+      hp += Health.hp[m] ?? 0;
+      maxHp += Health.maxHp[m] || 100;
+    }
+    cx /= members.length;
+    cz /= members.length;
+
+    // Nearest enemy to the squad
+    let threat = -1;
+    let threatDist = SQUAD_THREAT_RANGE;
+    for (const tid of combatants) {
+      if ((Team.id[tid] ?? -1) === team || (Health.hp[tid] ?? 0) <= 0) continue;
+      const dist = Math.hypot((Transform.x[tid] ?? 0) - cx, (Transform.z[tid] ?? 0) - cz);
+      if (dist < threatDist) {
+        threatDist = dist;
+        threat = tid;
+      }
+    }
+    const threatX = threat >= 0 ? (Transform.x[threat] ?? 0) : cx;
+    const threatZ = threat >= 0 ? (Transform.z[threat] ?? 0) : cz;
+
+    const order = Squad.order[squadEid] ?? SquadOrder.Advance;
+    let tactic = Squad.tactic[squadEid] ?? SquadTactic.Advance;
+    let tacticTime = (Squad.tacticTime[squadEid] ?? 0) + dt;
+    const strength = Squad.strength[squadEid] ?? members.length;
+    const onInitiative = order === SquadOrder.Advance || order === SquadOrder.AttackPost;
+
+    // ─────────────────────────────────────────────────────────────
+    // Pick a tactic
+    // ─────────────────────────────────────────────────────────────
+    if (tactic !== SquadTactic.Retreat && onInitiative && threat >= 0 &&
+        (members.length <= strength * RETREAT_STRENGTH || hp < maxHp * RETREAT_HEALTH)) {
+      // Badly hurt - fall back on the nearest friendly post, else away from the enemy
+      tactic = SquadTactic.Retreat;
+      tacticTime = 0;
+      const rally = nearestOwnedPost(world, team, cx, cz);
+      if (rally >= 0) {
+        Squad.tacticX[squadEid] = Transform.x[rally] ?? 0;
+        Squad.tacticZ[squadEid] = Transform.z[rally] ?? 0;
+      } else {
+        const away = Math.hypot(cx - threatX, cz - threatZ) || 1;
+        Squad.tacticX[squadEid] = cx + ((cx - threatX) / away) * RETREAT_DISTANCE;
+        Squad.tacticZ[squadEid] = cz + ((cz - threatZ) / away) * RETREAT_DISTANCE;
+      }
+      for (const m of members) {
+        if ((GroundAI.state[m] ?? 0) === GroundAIState.Flee) continue;
+        setMemberState(m, GroundAIState.Retreat, Squad.tacticX[squadEid] ?? 0, Squad.tacticZ[squadEid] ?? 0);
+        GroundAI.targetEid[m] = -1;
+      }
+    } else if (tactic === SquadTactic.Retreat) {
+      const rx = Squad.tacticX[squadEid] ?? 0;
+      const rz = Squad.tacticZ[squadEid] ?? 0;
+      const regrouped = members.every((m) =>
+        Math.hypot((Transform.x[m] ?? 0) - rx, (Transform.z[m] ?? 0) - rz) <= RALLY_RADIUS);
+      if (regrouped || tacticTime > RETREAT_DURATION) {
+        // Regrouped: what's left is the squad's new strength
+        tactic = SquadTactic.Advance;
+        tacticTime = 0;
+        Squad.strength[squadEid] = members.length;
+        for (const m of members) {
+          if ((GroundAI.state[m] ?? 0) === GroundAIState.Retreat) setMemberState(m, GroundAIState.Idle, rx, rz);
+        }
+      }
+    } else if (tactic === SquadTactic.Advance && threat >= 0 && onInitiative && members.length >= 2) {
+      // Contact - fireteam 0 pins the enemy down while fireteam 1 swings
+      // round to the side
+      tactic = SquadTactic.Flank;
+      tacticTime = 0;
+      const toThreat = Math.hypot(threatX - cx, threatZ - cz) || 1;
+      const side = squadEid % 2 === 0 ? 1 : -1;
+      Squad.tacticX[squadEid] = threatX - ((threatZ - cz) / toThreat) * FLANK_OFFSET * side;
+      Squad.tacticZ[squadEid] = threatZ + ((threatX - cx) / toThreat) * FLANK_OFFSET * side;
+      for (const m of members) {
+        if (isSelfPreserving(GroundAI.state[m] ?? 0)) continue;
+        if ((SquadMember.fireteam[m] ?? 0) === 1) {
+          setMemberState(m, GroundAIState.Flank, Squad.tacticX[squadEid] ?? 0, Squad.tacticZ[squadEid] ?? 0);
+        } else if ((GroundAI.state[m] ?? 0) !== GroundAIState.Strafe) {
+          setMemberState(m, GroundAIState.Attack, threatX, threatZ);
+        }
+        GroundAI.targetEid[m] = threat;
+      }
+    } else if (tactic === SquadTactic.Flank && (threat < 0 || tacticTime > FLANK_DURATION)) {
+      tactic = SquadTactic.Advance;
+      tacticTime = 0;
+    }
+
+    Squad.tactic[squadEid] = tactic;
+    Squad.tacticTime[squadEid] = tacticTime;
+    if (tactic === SquadTactic.Retreat) continue;
+
+    // ─────────────────────────────────────────────────────────────
+    // Focus fire: everyone shooting shoots the squad's threat
+    // ─────────────────────────────────────────────────────────────
+    if (threat >= 0) {
+      for (const m of members) {
+        const state = GroundAI.state[m] ?? 0;
+        if (state === GroundAIState.Attack || state === GroundAIState.Strafe) GroundAI.targetEid[m] = threat;
+      }
+    }
+
+    // ─────────────────────────────────────────────────────────────
+    // Move on the objective
+    // ─────────────────────────────────────────────────────────────
+    let goalX: number;
+    let goalZ: number;
+    let tolerance = SLOT_TOLERANCE;
+
+    if (order === SquadOrder.Follow) {
+      const followEid = isAlive(world, Squad.orderTargetEid[squadEid] ?? -1) ? (Squad.orderTargetEid[squadEid] ?? -1) : leader;
+      goalX = Transform.x[followEid] ?? cx;
+      goalZ = Transform.z[followEid] ?? cz;
+      tolerance = FOLLOW_SLOT_TOLERANCE;
+    } else if (order === SquadOrder.Hold) {
+      goalX = Squad.orderX[squadEid] ?? cx;
+      goalZ = Squad.orderZ[squadEid] ?? cz;
+    } else {
+      let post = -1;
+      if (order === SquadOrder.AttackPost) {
+        post = Squad.orderTargetEid[squadEid] ?? -1;
+        if (post < 0 || !hasComponent(world, CommandPost, post) || (CommandPost.ownerTeam[post] ?? -1) === team) {
+          // Taken (or gone) - back to the squad's own initiative
+          Squad.order[squadEid] = SquadOrder.Advance;
+          Squad.orderTargetEid[squadEid] = -1;
+          post = -1;
+        }
+      }
+      if (post < 0) post = nearestPostFor(world, team, cx, cz);
+      if (post < 0) continue;
+      goalX = Transform.x[post] ?? 0;
+      goalZ = Transform.z[post] ?? 0;
+    }
+
+    for (const m of members) {
+      const state = GroundAI.state[m] ?? 0;
+      if (state !== GroundAIState.Idle && state !== GroundAIState.MoveTo && state !== GroundAIState.Capture) continue;
+      if (m === Squad.orderTargetEid[squadEid]) continue;
+
+      // Spread out round the goal rather than all stand on it
+      const slot = SquadMember.slot[m] ?? 0;
+      const angle = slot * GOLDEN_ANGLE;
+      const radius = 3 + (slot % 3);
+      const sx = goalX + Math.cos(angle) * radius;
+      const sz = goalZ + Math.sin(angle) * radius;
+      const dist = Math.hypot((Transform.x[m] ?? 0) - sx, (Transform.z[m] ?? 0) - sz);
+
+      if (dist > tolerance) {
+        setMemberState(m, GroundAIState.MoveTo, sx, sz);
+      } else if (state === GroundAIState.MoveTo) {
+        GroundAI.waypointX[m] = sx;
+        GroundAI.waypointZ[m] = sz;
+      }
+    }
+  }
+}
@@ -9,7 +9,7 @@ import {
 } from "bitecs";
 import { Vector3, Quaternion } from "@xwingz/core";
 import type { PhysicsWorld } from "@xwingz/physics";
-import { createRng, deriveSeed } from "@xwingz/procgen";
+import { createRng, deriveSeed, type HeightSampler } from "@xwingz/procgen";
 
 // Frame counter for deterministic blaster spread (incremented each blasterSystem call)
 let blasterFrameCounter = 0;
@@ -31,7 +31,9 @@ import {
   DamageReaction,
   BlasterBolt,
   GroundVehicle,
-  GroundVehicleType
+  GroundVehicleType,
+  Suppression,
+  SquadMember
 } from "./components";
 import {
   Transform,
@@ -43,6 +45,14 @@ import {
   PlayerControlled
 } from "../space/components";
 import type { GroundInputState } from "./input";
+import {
+  avoidNavObstacles,
+  canNavStep,
+  getGroundNavGrid,
+  isNavWalkable,
+  navDirectionTo,
+  type NavObstacle
+} from "./navigation";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // QUERIES
@@ -707,7 +717,10 @@ export const enum GroundAIState {
   Capture = 3,
   Flee = 4,
   Evade = 5,   // Reactive dodge when hit
-  Strafe = 6   // Circle-strafe while attacking
+  Strafe = 6,  // Circle-strafe while attacking
+  Cover = 7,   // Pinned by suppression: get to cover and hunker down
+  Flank = 8,   // Squad maneuver: get round the target before engaging
+  Retreat = 9  // Squad falling back to a rally point
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -758,10 +771,103 @@ function computeInterceptTime(
 // Blaster bolt speed for lead aiming (m/s)
 const BLASTER_BOLT_SPEED = 150;
 
-export function groundAISystem(world: IWorld, dt: number): void {
+// ─────────────────────────────────────────────────────────────────────────────
+// SLOPE AVOIDANCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+// How far ahead the terrain is probed (m)
+const SLOPE_PROBE_DISTANCE = 1.5;
+
+// Detours tried, in order, when the way ahead is too steep (radians)
+const SLOPE_DETOURS = [Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2];
+
+/**
+ * Steer a world-space move direction around climbs steeper than
+ * `slopeLimit`. Returns the direction to walk (unit length), or null if
+ * every detour is too steep as well.
+ */
+export function steerAroundSlopes(
+  heightAt: HeightSampler,
+  x: number,
+  z: number,
+  dirX: number,
+  dirZ: number,
+  slopeLimit: number
+): { x: number; z: number } | null {
+  const len = Math.sqrt(dirX * dirX + dirZ * dirZ);
+  if (len < 1e-6) return { x: 0, z: 0 };
+  const ux = dirX / len;
+  const uz = dirZ / len;
+  const here = heightAt(x, z);
+  const maxRise = Math.tan(slopeLimit) * SLOPE_PROBE_DISTANCE;
+
+  const walkable = (wx: number, wz: number) =>
+    heightAt(x + wx * SLOPE_PROBE_DISTANCE, z + wz * SLOPE_PROBE_DISTANCE) - here <= maxRise;
+
+  if (walkable(ux, uz)) return { x: ux, z: uz };
+  for (const angle of SLOPE_DETOURS) {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    const wx = ux * c - uz * s;
+    const wz = ux * s + uz * c;
+    if (walkable(wx, wz)) return { x: wx, z: wz };
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// NAVIGATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Others within this distance are checked for local avoidance (m)
+const AVOID_SCAN_RADIUS = 10;
+
+// Footprint assumed for combatants without a HitRadius (m)
+const DEFAULT_AVOID_RADIUS = 0.5;
+
+// How far ahead strafes and avoidance detours are checked against the nav grid (m)
+const NAV_PROBE_DISTANCE = 1.5;
+
+/**
+ * Convert a local move (moveX right, moveZ forward) for `yaw` into a world
+ * direction, or back - the mapping is its own inverse.
+ */
+function flipMoveFrame(x: number, z: number, yaw: number): { x: number; z: number } {
+  const cosYaw = Math.cos(yaw);
+  const sinYaw = Math.sin(yaw);
+  return { x: x * cosYaw - z * sinYaw, z: -x * sinYaw - z * cosYaw };
+}
+
+const avoidObstacles: NavObstacle[] = [];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SUPPRESSION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Suppression at which a soldier is pinned and goes for cover */
+export const SUPPRESSION_PIN_LEVEL = 0.6;
+
+/** Suppression a pinned soldier waits for before leaving cover */
+export const SUPPRESSION_RECOVER_LEVEL = 0.25;
+
+// Shortest stay in cover once pinned (s)
+const COVER_MIN_TIME = 1.5;
+
+// Flanking moves give up and engage after this long (s)
+const FLANK_TIMEOUT = 20;
+
+/**
+ * AI for ground soldiers. With a terrain `heightAt`, soldiers steer around
+ * slopes steeper than their CharacterController.slopeLimit instead of
+ * walking into them. With a nav grid set (setGroundNavGrid) they follow A*
+ * routes to command posts and targets, keep strafes out of walls, and bend
+ * around troopers and vehicles in their way.
+ */
+export function groundAISystem(world: IWorld, dt: number, heightAt?: HeightSampler): void {
   const ais = groundAIQuery(world);
   const commandPosts = commandPostQuery(world);
   const combatants = groundCombatantQuery(world);
+  const navGrid = getGroundNavGrid();
 
   for (const eid of ais) {
     const myTeam = Team.id[eid] ?? 0;
@@ -774,6 +880,7 @@ export function groundAISystem(world: IWorld, dt: number): void {
     const svx = Velocity.vx[eid] ?? 0;
     const svy = Velocity.vy[eid] ?? 0;
     const svz = Velocity.vz[eid] ?? 0;
+    const navRadius = CharacterController.capsuleRadius[eid] || DEFAULT_AVOID_RADIUS;
 
     // ─────────────────────────────────────────────────────────────
     // 1. Scan for enemies and allies (for separation)
@@ -786,6 +893,7 @@ export function groundAISystem(world: IWorld, dt: number): void {
     let sepX = 0, sepZ = 0;
     const SEPARATION_RADIUS = 4.0;
     const SEPARATION_WEIGHT = 0.4;
+    avoidObstacles.length = 0;
 
     for (const tid of combatants) {
       if (tid === eid) continue;
@@ -795,6 +903,14 @@ export function groundAISystem(world: IWorld, dt: number): void {
       const dz = (Transform.z[tid] ?? 0) - sz;
       const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
+      if (dist < AVOID_SCAN_RADIUS) {
+        avoidObstacles.push({
+          x: Transform.x[tid] ?? 0,
+          z: Transform.z[tid] ?? 0,
+          radius: hasComponent(world, HitRadius, tid) ? (HitRadius.r[tid] ?? DEFAULT_AVOID_RADIUS) : DEFAULT_AVOID_RADIUS
+        });
+      }
+
       const targetTeam = Team.id[tid] ?? -1;
 
       if (targetTeam === myTeam) {
@@ -822,6 +938,9 @@ export function groundAISystem(world: IWorld, dt: number): void {
     const engageRange = 30 + aggression * 20;
     const fleeHealthThreshold = 20 + (1 - aggression) * 30;
     const hp = Health.hp[eid] ?? 100;
+    const suppression = hasComponent(world, Suppression, eid) ? (Suppression.level[eid] ?? 0) : 0;
+    // Squad members get their objectives from squadSystem
+    const inSquad = hasComponent(world, SquadMember, eid) && (SquadMember.squadEid[eid] ?? -1) >= 0;
 
     if (hasComponent(world, DamageReaction, eid)) {
       const lastHit = DamageReaction.lastHitTime[eid] ?? 999;
@@ -848,6 +967,20 @@ export function groundAISystem(world: IWorld, dt: number): void {
     if (hp < fleeHealthThreshold && state !== GroundAIState.Flee) {
       state = GroundAIState.Flee;
       stateTime = 0;
+    } else if (suppression >= SUPPRESSION_PIN_LEVEL && state !== GroundAIState.Cover &&
+               state !== GroundAIState.Flee && state !== GroundAIState.Retreat) {
+      // Pinned down - get into cover
+      state = GroundAIState.Cover;
+      stateTime = 0;
+    } else if (state === GroundAIState.Cover && suppression < SUPPRESSION_RECOVER_LEVEL && stateTime > COVER_MIN_TIME) {
+      // Fire has slackened - back into the fight
+      if (nearestEnemy >= 0 && nearestEnemyDist < engageRange) {
+        state = GroundAIState.Attack;
+        GroundAI.targetEid[eid] = nearestEnemy;
+      } else {
+        state = GroundAIState.Idle;
+      }
+      stateTime = 0;
     } else if (state === GroundAIState.Evade && stateTime > 0.8) {
       // After evade, transition to strafe attack if enemy nearby
       if (nearestEnemy >= 0 && nearestEnemyDist < engageRange) {
@@ -860,7 +993,9 @@ export function groundAISystem(world: IWorld, dt: number): void {
       stateTime = 0;
     } else if (nearestEnemy >= 0 && nearestEnemyDist < engageRange &&
                state !== GroundAIState.Attack && state !== GroundAIState.Strafe &&
-               state !== GroundAIState.Evade && state !== GroundAIState.Flee) {
+               state !== GroundAIState.Evade && state !== GroundAIState.Flee &&
+               state !== GroundAIState.Cover && state !== GroundAIState.Flank &&
+               state !== GroundAIState.Retreat) {
       // Engage enemy - aggressive AI uses strafe, others use attack
       if (aggression > 0.6) {
         state = GroundAIState.Strafe;
@@ -881,7 +1016,7 @@ export function groundAISystem(world: IWorld, dt: number): void {
       GroundAI.strafeDir[eid] = ((eid * 13 + Math.floor(stateTime * 10)) % 2) === 0 ? 1 : -1;
       GroundAI.strafeTimer[eid] = 1.5;
       stateTime = 0;
-    } else if (state === GroundAIState.Idle && stateTime > 2) {
+    } else if (state === GroundAIState.Idle && stateTime > 2 && !inSquad) {
       // Find a command post to capture
       let targetPost = -1;
       let targetPostDist = Infinity;
@@ -915,6 +1050,8 @@ export function groundAISystem(world: IWorld, dt: number): void {
     let moveX = 0;
     let moveZ = 0;
     let wantsFire = 0;
+    let crouch = 0;
+    let dash = false;
     let aimYaw = GroundInput.aimYaw[eid] ?? 0;
 
     if (state === GroundAIState.MoveTo || state === GroundAIState.Capture) {
@@ -925,7 +1062,9 @@ export function groundAISystem(world: IWorld, dt: number): void {
       const dist = Math.sqrt(dx * dx + dz * dz);
 
       if (dist > 2) {
-        aimYaw = Math.atan2(-dx, -dz);
+        // Along the nav route when there is one, else straight there
+        const dir = navDirectionTo(eid, sx, sz, wx, wz, navRadius, dt);
+        aimYaw = Math.atan2(-dir.x, -dir.z);
         moveZ = 1;
       } else {
         state = GroundAIState.Capture;
@@ -973,8 +1112,12 @@ export function groundAISystem(world: IWorld, dt: number): void {
           let strafeTimer = GroundAI.strafeTimer[eid] ?? 0;
           strafeTimer -= dt;
 
-          // Change strafe direction periodically
-          if (strafeTimer <= 0) {
+          // Change strafe direction periodically, or early rather than
+          // strafe into a wall
+          const side = flipMoveFrame(strafeDir, 0, aimYaw);
+          const blocked = navGrid !== null &&
+            !isNavWalkable(navGrid, sx + side.x * NAV_PROBE_DISTANCE, sz + side.z * NAV_PROBE_DISTANCE, navRadius);
+          if (strafeTimer <= 0 || blocked) {
             GroundAI.strafeDir[eid] = -strafeDir;
             GroundAI.strafeTimer[eid] = 1.5 + ((eid * 31) % 100) / 100;
           } else {
@@ -982,15 +1125,21 @@ export function groundAISystem(world: IWorld, dt: number): void {
           }
 
           // Strafe perpendicular + slight advance/retreat
-          moveX = strafeDir * 0.8;
+          moveX = (GroundAI.strafeDir[eid] ?? strafeDir) * 0.8;
           if (dist > 20) {
             moveZ = 0.5; // Advance while strafing
           } else if (dist < 10) {
             moveZ = -0.3; // Retreat while strafing
           }
         } else {
-          // Standard attack: advance/retreat based on distance
-          if (dist > 15) {
+          // Standard attack: advance/retreat based on distance, advancing
+          // along the nav route (while still aiming at the target)
+          if (dist > 15 && navGrid) {
+            const dir = navDirectionTo(eid, sx, sz, tx, tz, navRadius, dt);
+            const local = flipMoveFrame(dir.x, dir.z, aimYaw);
+            moveX = local.x;
+            moveZ = local.z;
+          } else if (dist > 15) {
             moveZ = 1;
           } else if (dist < 8) {
             moveZ = -0.5;
@@ -1015,6 +1164,40 @@ export function groundAISystem(world: IWorld, dt: number): void {
         const dz = nearestEnemyZ - sz;
         aimYaw = Math.atan2(-dx, -dz);
       }
+    } else if (state === GroundAIState.Cover) {
+      // Run for cover if there is any, then crouch there and return fire
+      // only once the incoming fire slackens below the pin level
+      const hasCover = hasComponent(world, Suppression, eid) && Suppression.hasCover[eid] === 1;
+      const cx = hasCover ? (Suppression.coverX[eid] ?? sx) : sx;
+      const cz = hasCover ? (Suppression.coverZ[eid] ?? sz) : sz;
+      const dist = Math.sqrt((cx - sx) * (cx - sx) + (cz - sz) * (cz - sz));
+
+      if (dist > 0.75) {
+        const dir = navDirectionTo(eid, sx, sz, cx, cz, navRadius, dt);
+        aimYaw = Math.atan2(-dir.x, -dir.z);
+        moveZ = 1;
+        dash = true;
+      } else {
+        crouch = 1;
+        if (nearestEnemy >= 0) {
+          aimYaw = Math.atan2(-(nearestEnemyX - sx), -(nearestEnemyZ - sz));
+          wantsFire = suppression < SUPPRESSION_PIN_LEVEL && nearestEnemyDist < engageRange ? 1 : 0;
+        }
+      }
+    } else if (state === GroundAIState.Flank || state === GroundAIState.Retreat) {
+      // Squad moves: get to the waypoint, then engage (flank) or regroup
+      const wx = GroundAI.waypointX[eid] ?? 0;
+      const wz = GroundAI.waypointZ[eid] ?? 0;
+      const dist = Math.sqrt((wx - sx) * (wx - sx) + (wz - sz) * (wz - sz));
+
+      if (dist > 3 && !(state === GroundAIState.Flank && stateTime > FLANK_TIMEOUT)) {
+        const dir = navDirectionTo(eid, sx, sz, wx, wz, navRadius, dt);
+        aimYaw = Math.atan2(-dir.x, -dir.z);
+        moveZ = 1;
+      } else {
+        state = state === GroundAIState.Flank ? GroundAIState.Attack : GroundAIState.Idle;
+        stateTime = 0;
+      }
     } else if (state === GroundAIState.Flee) {
       if (nearestEnemy >= 0) {
         const dx = sx - nearestEnemyX;
@@ -1050,6 +1233,42 @@ export function groundAISystem(world: IWorld, dt: number): void {
       moveZ /= moveLen;
     }
 
+    // Bend around troopers and vehicles ahead, unless that means a wall
+    if (moveLen > 0.05 && avoidObstacles.length > 0 && state !== GroundAIState.Evade) {
+      const speed = Math.min(1, moveLen);
+      const dir = flipMoveFrame(moveX / speed, moveZ / speed, aimYaw);
+      const avoid = avoidNavObstacles(sx, sz, dir.x, dir.z, navRadius, avoidObstacles);
+      const clear = navGrid === null ||
+        isNavWalkable(navGrid, sx + avoid.x * NAV_PROBE_DISTANCE, sz + avoid.z * NAV_PROBE_DISTANCE, navRadius);
+      if (clear) {
+        const local = flipMoveFrame(avoid.x, avoid.z, aimYaw);
+        moveX = local.x * speed;
+        moveZ = local.z * speed;
+      }
+    }
+
+    // Steer around slopes too steep to climb (local move -> world and back)
+    if (heightAt && moveLen > 0.05) {
+      const speed = Math.min(1, moveLen);
+      const worldDir = flipMoveFrame(moveX, moveZ, aimYaw);
+      const dir = steerAroundSlopes(
+        heightAt,
+        sx,
+        sz,
+        worldDir.x,
+        worldDir.z,
+        CharacterController.slopeLimit[eid] ?? Math.PI / 4
+      );
+      if (dir) {
+        const local = flipMoveFrame(dir.x, dir.z, aimYaw);
+        moveX = local.x * speed;
+        moveZ = local.z * speed;
+      } else {
+        moveX = 0;
+        moveZ = 0;
+      }
+    }
+
     // ─────────────────────────────────────────────────────────────
     // 6. Apply AI decisions to input components
     // ─────────────────────────────────────────────────────────────
@@ -1057,7 +1276,8 @@ export function groundAISystem(world: IWorld, dt: number): void {
     GroundInput.moveX[eid] = moveX;
     GroundInput.moveZ[eid] = moveZ;
     GroundInput.firePrimary[eid] = wantsFire;
-    GroundInput.sprint[eid] = state === GroundAIState.Flee ? 1 : 0;
+    GroundInput.sprint[eid] = state === GroundAIState.Flee || state === GroundAIState.Retreat || dash ? 1 : 0;
+    GroundInput.crouch[eid] = crouch;
 
     GroundAI.state[eid] = state;
     GroundAI.stateTime[eid] = stateTime;
@@ -1727,17 +1947,30 @@ export function getPlayerSoldier(world: IWorld): number | null {
 
 const groundVehicleQuery = defineQuery([GroundVehicle, Transform, Velocity, Health, Team]);
 
+// Share of a vehicle's HitRadius it needs clear around it to drive through
+const VEHICLE_NAV_RADIUS_SCALE = 0.5;
+
+/** Clearance a ground vehicle needs on the nav grid (m) */
+export function groundVehicleNavRadius(eid: number): number {
+  return (HitRadius.r[eid] ?? 2) * VEHICLE_NAV_RADIUS_SCALE;
+}
+
 /**
  * Move ground vehicles based on pilot input.
- * Vehicles are driven by the pilot's GroundInput when piloted.
+ * Vehicles are driven by the pilot's GroundInput when piloted, and by their
+ * own GroundInput (see groundVehicleAISystem) when AI-crewed and empty.
+ * With a nav grid set, vehicles can't drive into walls or up cliffs; they
+ * slide along them instead.
  */
 export function groundVehicleMovementSystem(
   world: IWorld,
   physics: PhysicsWorld,
-  dt: number
+  dt: number,
+  heightAt?: HeightSampler
 ): void {
   const vehicles = groundVehicleQuery(world);
   const onFootEntities = playerGroundQuery(world);
+  const navGrid = getGroundNavGrid();
 
   for (const vEid of vehicles) {
     // Find if anyone is piloting this vehicle
@@ -1751,13 +1984,15 @@ export function groundVehicleMovementSystem(
       }
     }
 
-    if (pilotEid < 0) continue; // No pilot - vehicle stays still
+    // No pilot and no AI crew - vehicle stays still
+    const driverEid = pilotEid >= 0 ? pilotEid : hasComponent(world, GroundAI, vEid) ? vEid : -1;
+    if (driverEid < 0) continue;
 
-    // Get pilot input
-    const inputX = GroundInput.moveX[pilotEid] ?? 0;
-    const inputZ = GroundInput.moveZ[pilotEid] ?? 0;
-    const yaw = GroundInput.aimYaw[pilotEid] ?? 0;
-    const wantsFire = (GroundInput.firePrimary[pilotEid] ?? 0) !== 0;
+    // Get driver input
+    const inputX = GroundInput.moveX[driverEid] ?? 0;
+    const inputZ = GroundInput.moveZ[driverEid] ?? 0;
+    const yaw = GroundInput.aimYaw[driverEid] ?? 0;
+    const wantsFire = (GroundInput.firePrimary[driverEid] ?? 0) !== 0;
 
     const maxSpeed = GroundVehicle.maxSpeed[vEid] ?? 15;
     const accel = GroundVehicle.acceleration[vEid] ?? 10;
@@ -1800,15 +2035,37 @@ export function groundVehicleMovementSystem(
     // Apply gravity if not grounded
     vy -= 9.81 * dt;
 
-    // Update position
+    // Update position, sliding along anything the nav grid says is in the way
+    const oldX = Transform.x[vEid] ?? 0;
     const oldY = Transform.y[vEid] ?? 0;
-    Transform.x[vEid] = (Transform.x[vEid] ?? 0) + vx * dt;
+    const oldZ = Transform.z[vEid] ?? 0;
+    let newX = oldX + vx * dt;
+    let newZ = oldZ + vz * dt;
+    if (navGrid) {
+      const radius = groundVehicleNavRadius(vEid);
+      if (!canNavStep(navGrid, oldX, oldZ, newX, newZ, radius)) {
+        if (canNavStep(navGrid, oldX, oldZ, newX, oldZ, radius)) {
+          newZ = oldZ;
+          vz = 0;
+        } else if (canNavStep(navGrid, oldX, oldZ, oldX, newZ, radius)) {
+          newX = oldX;
+          vx = 0;
+        } else {
+          newX = oldX;
+          newZ = oldZ;
+          vx = 0;
+          vz = 0;
+        }
+      }
+    }
+    Transform.x[vEid] = newX;
     Transform.y[vEid] = oldY + vy * dt;
-    Transform.z[vEid] = (Transform.z[vEid] ?? 0) + vz * dt;
+    Transform.z[vEid] = newZ;
 
-    // Simple ground clamp
-    if ((Transform.y[vEid] ?? 0) < 0.5) {
-      Transform.y[vEid] = 0.5;
+    // Simple ground clamp (to the terrain when there is one)
+    const groundY = (heightAt?.(Transform.x[vEid] ?? 0, Transform.z[vEid] ?? 0) ?? 0) + 0.5;
+    if ((Transform.y[vEid] ?? 0) < groundY) {
+      Transform.y[vEid] = groundY;
       vy = 0;
     }
 
@@ -1825,9 +2082,11 @@ export function groundVehicleMovementSystem(
     Transform.qw[vEid] = tmpQuat.w;
 
     // Sync pilot input to vehicle for weapons
-    GroundInput.aimYaw[vEid] = yaw;
-    GroundInput.aimPitch[vEid] = GroundInput.aimPitch[pilotEid] ?? 0;
-    GroundInput.firePrimary[vEid] = wantsFire ? 1 : 0;
+    if (pilotEid >= 0) {
+      GroundInput.aimYaw[vEid] = yaw;
+      GroundInput.aimPitch[vEid] = GroundInput.aimPitch[pilotEid] ?? 0;
+      GroundInput.firePrimary[vEid] = wantsFire ? 1 : 0;
+    }
 
     // Weapon cooldown
     const cdRem = (GroundVehicle.weaponCooldown[vEid] ?? 0) - dt;
@@ -1971,6 +2230,17 @@ export function spawnATST(
   Enterable.seatsFilled[eid] = 0;
   Enterable.enterRadius[eid] = 5;
 
+  // AI crew drives it while nobody has climbed in (groundVehicleAISystem)
+  addComponent(world, GroundAI, eid);
+  GroundAI.state[eid] = GroundAIState.Idle;
+  GroundAI.stateTime[eid] = 0;
+  GroundAI.targetEid[eid] = -1;
+  GroundAI.waypointX[eid] = x;
+  GroundAI.waypointY[eid] = y;
+  GroundAI.waypointZ[eid] = z;
+  GroundAI.aggression[eid] = 0.5;
+  GroundAI.accuracy[eid] = 0.5;
+
   // Heavy blasters
   BlasterWeapon.damage[eid] = 35;
   BlasterWeapon.fireRate[eid] = 4;
@@ -0,0 +1,262 @@
+/**
+ * Tow Cable System
+ *
+ * Snowspeeder harpoon and tow cable state machine for AT-AT takedowns.
+ * Isolated from main systems.ts to prevent god script bloat.
+ *
+ * State flow (Snowspeeder.cableState):
+ * READY -> (fire in range) -> FIRING -> (harpoon reaches target) -> ATTACHED
+ * ATTACHED -> (orbit begins) -> WRAPPING -> (3 wraps) -> RELEASED -> READY
+ * ATTACHED/WRAPPING -> (too slow / overstretched) -> BROKEN -> READY
+ */
+
+import { addComponent, defineQuery, hasComponent } from "bitecs";
+import type { IWorld } from "bitecs";
+import { PlayerControlled, Transform, Velocity } from "../space/components";
+import type { SpaceInputState } from "../space/input";
+import { ATATWalker, ATAT_STATE, CABLE_STATE, Snowspeeder } from "./hoth-components";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TOW_CABLE = {
+  WRAPS_TO_TRIP: 3,
+  HARPOON_RANGE: 60,        // m - max distance to lock a harpoon shot
+  HARPOON_SPEED: 200,       // m/s - cable extension while the harpoon flies
+  MAX_CABLE_LENGTH: 120,    // m - cable snaps if the speeder pulls further away
+  ATTACH_SWEEP: 0.25,       // rad of orbit before the cable starts wrapping
+  MIN_WRAP_SPEED: 80,       // m/s - below this the cable loses strength
+  STRENGTH_DECAY: 30,       // %/s while too slow
+  STRENGTH_RECOVERY: 10,    // %/s while fast enough
+  MISS_COOLDOWN: 1,         // s
+  RELEASE_COOLDOWN: 1,      // s
+  BROKEN_COOLDOWN: 3        // s
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const snowspeederQuery = defineQuery([Snowspeeder, Transform, Velocity]);
+const atatQuery = defineQuery([ATATWalker, Transform]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tow Cable Events
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TowCableEventType = "fired" | "missed" | "attached" | "wrap" | "released" | "snapped";
+
+export interface TowCableEvent {
+  type: TowCableEventType;
+  speederEid: number;
+  atatEid: number;
+  wraps: number;
+}
+
+const cableEvents: TowCableEvent[] = [];
+
+export function consumeTowCableEvents(): TowCableEvent[] {
+  const events = [...cableEvents];
+  cableEvents.length = 0;
+  return events;
+}
+
+function emit(type: TowCableEventType, speederEid: number, atatEid: number): void {
+  cableEvents.push({ type, speederEid, atatEid, wraps: ATATWalker.cableWraps[atatEid] ?? 0 });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Setup
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fit a flight entity with a T-47 harpoon gun and tow cable.
+ */
+export function addSnowspeeder(world: IWorld, eid: number): void {
+  addComponent(world, Snowspeeder, eid);
+  Snowspeeder.maxAltitude[eid] = 60;
+  Snowspeeder.maxSpeed[eid] = 166;
+  Snowspeeder.cableState[eid] = CABLE_STATE.READY;
+  Snowspeeder.cableTargetEid[eid] = -1;
+  Snowspeeder.cableLength[eid] = 0;
+  Snowspeeder.cableStrength[eid] = 100;
+  Snowspeeder.orbitAngle[eid] = 0;
+  Snowspeeder.orbitProgress[eid] = 0;
+  Snowspeeder.cableCooldown[eid] = 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function groundDistance(a: number, b: number): number {
+  const dx = (Transform.x[a] ?? 0) - (Transform.x[b] ?? 0);
+  const dz = (Transform.z[a] ?? 0) - (Transform.z[b] ?? 0);
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+function orbitAngleAround(speederEid: number, atatEid: number): number {
+  return Math.atan2(
+    (Transform.x[speederEid] ?? 0) - (Transform.x[atatEid] ?? 0),
+    (Transform.z[speederEid] ?? 0) - (Transform.z[atatEid] ?? 0)
+  );
+}
+
+function isStanding(world: IWorld, atatEid: number): boolean {
+  return hasComponent(world, ATATWalker, atatEid) && (ATATWalker.state[atatEid] ?? 0) === ATAT_STATE.ADVANCING;
+}
+
+function nearestHarpoonTarget(world: IWorld, speederEid: number): number {
+  let best = -1;
+  let bestDist: number = TOW_CABLE.HARPOON_RANGE;
+  for (const eid of atatQuery(world)) {
+    if (!isStanding(world, eid) || (ATATWalker.cableAttached[eid] ?? 0) === 1) continue;
+    const dist = groundDistance(speederEid, eid);
+    if (dist <= bestDist) {
+      best = eid;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+function detach(world: IWorld, speederEid: number, state: number, cooldown: number): void {
+  const atatEid = Snowspeeder.cableTargetEid[speederEid] ?? -1;
+  if (atatEid >= 0 && hasComponent(world, ATATWalker, atatEid)) {
+    ATATWalker.cableAttached[atatEid] = 0;
+    ATATWalker.cableAttacherEid[atatEid] = -1;
+  }
+  Snowspeeder.cableState[speederEid] = state;
+  Snowspeeder.cableCooldown[speederEid] = cooldown;
+  Snowspeeder.cableLength[speederEid] = 0;
+}
+
+/**
+ * Advance the orbit around the attached AT-AT and apply cable strain.
+ * Returns false if the cable snapped.
+ */
+function trackOrbit(world: IWorld, speederEid: number, atatEid: number, dt: number): boolean {
+  const angle = orbitAngleAround(speederEid, atatEid);
+  let delta = angle - (Snowspeeder.orbitAngle[speederEid] ?? 0);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  Snowspeeder.orbitAngle[speederEid] = angle;
+  Snowspeeder.orbitProgress[speederEid] = (Snowspeeder.orbitProgress[speederEid] ?? 0) + delta;
+
+  const length = groundDistance(speederEid, atatEid);
+  Snowspeeder.cableLength[speederEid] = length;
+
+  const speed = Math.sqrt((Velocity.vx[speederEid] ?? 0) ** 2 + (Velocity.vz[speederEid] ?? 0) ** 2);
+  Snowspeeder.speed[speederEid] = speed;
+  const strength = Snowspeeder.cableStrength[speederEid] ?? 100;
+  Snowspeeder.cableStrength[speederEid] = speed < TOW_CABLE.MIN_WRAP_SPEED
+    ? strength - TOW_CABLE.STRENGTH_DECAY * dt
+    : Math.min(100, strength + TOW_CABLE.STRENGTH_RECOVERY * dt);
+
+  if ((Snowspeeder.cableStrength[speederEid] ?? 0) <= 0 || length > TOW_CABLE.MAX_CABLE_LENGTH) {
+    Snowspeeder.cableStrength[speederEid] = 0;
+    detach(world, speederEid, CABLE_STATE.BROKEN, TOW_CABLE.BROKEN_COOLDOWN);
+    emit("snapped", speederEid, atatEid);
+    return false;
+  }
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tow Cable System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Runs the harpoon / tow cable state machine for every snowspeeder.
+ * The player's speeder fires its harpoon on the secondary fire input.
+ *
+ * Wraps are written to ATATWalker.cableWraps; atatTripSystem does the rest.
+ */
+export function towCableSystem(world: IWorld, input: SpaceInputState, dt: number): void {
+  for (const eid of snowspeederQuery(world)) {
+    const state = Snowspeeder.cableState[eid] ?? CABLE_STATE.READY;
+    const target = Snowspeeder.cableTargetEid[eid] ?? -1;
+    Snowspeeder.cableCooldown[eid] = Math.max(0, (Snowspeeder.cableCooldown[eid] ?? 0) - dt);
+
+    switch (state) {
+      case CABLE_STATE.READY: {
+        const wantsFire = input.fireSecondary && hasComponent(world, PlayerControlled, eid);
+        if (!wantsFire || (Snowspeeder.cableCooldown[eid] ?? 0) > 0) break;
+
+        const atatEid = nearestHarpoonTarget(world, eid);
+        if (atatEid < 0) {
+          Snowspeeder.cableCooldown[eid] = TOW_CABLE.MISS_COOLDOWN;
+          emit("missed", eid, -1);
+          break;
+        }
+        Snowspeeder.cableState[eid] = CABLE_STATE.FIRING;
+        Snowspeeder.cableTargetEid[eid] = atatEid;
+        Snowspeeder.cableLength[eid] = 0;
+        emit("fired", eid, atatEid);
+        break;
+      }
+
+      case CABLE_STATE.FIRING: {
+        const dist = isStanding(world, target) ? groundDistance(eid, target) : Infinity;
+        if (dist > TOW_CABLE.MAX_CABLE_LENGTH) {
+          Snowspeeder.cableState[eid] = CABLE_STATE.READY;
+          Snowspeeder.cableTargetEid[eid] = -1;
+          Snowspeeder.cableCooldown[eid] = TOW_CABLE.MISS_COOLDOWN;
+          emit("missed", eid, target);
+          break;
+        }
+
+        const length = (Snowspeeder.cableLength[eid] ?? 0) + TOW_CABLE.HARPOON_SPEED * dt;
+        Snowspeeder.cableLength[eid] = Math.min(length, dist);
+        if (length >= dist) {
+          Snowspeeder.cableState[eid] = CABLE_STATE.ATTACHED;
+          Snowspeeder.cableStrength[eid] = 100;
+          Snowspeeder.orbitAngle[eid] = orbitAngleAround(eid, target);
+          Snowspeeder.orbitProgress[eid] = 0;
+          ATATWalker.cableAttached[target] = 1;
+          ATATWalker.cableAttacherEid[target] = eid;
+          emit("attached", eid, target);
+        }
+        break;
+      }
+
+      case CABLE_STATE.ATTACHED:
+      case CABLE_STATE.WRAPPING: {
+        if (!isStanding(world, target)) {
+          detach(world, eid, CABLE_STATE.RELEASED, TOW_CABLE.RELEASE_COOLDOWN);
+          emit("released", eid, target);
+          break;
+        }
+        if (!trackOrbit(world, eid, target, dt)) break;
+
+        const swept = Math.abs(Snowspeeder.orbitProgress[eid] ?? 0);
+        if (state === CABLE_STATE.ATTACHED) {
+          if (swept >= TOW_CABLE.ATTACH_SWEEP) Snowspeeder.cableState[eid] = CABLE_STATE.WRAPPING;
+          break;
+        }
+
+        const wraps = Math.min(TOW_CABLE.WRAPS_TO_TRIP, Math.floor(swept / (Math.PI * 2)));
+        if (wraps > (ATATWalker.cableWraps[target] ?? 0)) {
+          ATATWalker.cableWraps[target] = wraps;
+          emit("wrap", eid, target);
+        }
+        if (wraps >= TOW_CABLE.WRAPS_TO_TRIP) {
+          detach(world, eid, CABLE_STATE.RELEASED, TOW_CABLE.RELEASE_COOLDOWN);
+          emit("released", eid, target);
+        }
+        break;
+      }
+
+      case CABLE_STATE.RELEASED:
+      case CABLE_STATE.BROKEN:
+        if ((Snowspeeder.cableCooldown[eid] ?? 0) <= 0) {
+          Snowspeeder.cableState[eid] = CABLE_STATE.READY;
+          Snowspeeder.cableTargetEid[eid] = -1;
+          Snowspeeder.cableStrength[eid] = 100;
+          Snowspeeder.orbitProgress[eid] = 0;
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Ground Vehicle AI
+ *
+ * Drives AI-crewed ground vehicles (AT-STs, and any speeder bike given a
+ * GroundAI) while nobody is aboard: hunt the nearest enemy, else push on the
+ * nearest command post not yet held, following nav grid routes around walls
+ * and cliffs. It only writes the vehicle's own GroundInput; movement and
+ * firing are left to groundVehicleMovementSystem and blasterSystem.
+ * Isolated from main systems.ts to prevent god script bloat.
+ */
+
+import { defineQuery, hasComponent } from "bitecs";
+import type { IWorld } from "bitecs";
+import { Transform, Health, Team } from "../space/components";
+import { BlasterWeapon, CommandPost, Enterable, GroundAI, GroundInput, GroundVehicle } from "./components";
+import { GroundAIState, groundVehicleNavRadius } from "./systems";
+import { navDirectionTo } from "./navigation";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const vehicleAIQuery = defineQuery([GroundVehicle, GroundAI, GroundInput, Transform, Team]);
+const targetQuery = defineQuery([Health, Transform, Team]);
+const commandPostQuery = defineQuery([CommandPost, Transform]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Enemies are hunted within this range (m)
+const VEHICLE_DETECT_RANGE = 150;
+
+// Vehicles stop and fire from this share of their blaster range
+const VEHICLE_STANDOFF = 0.5;
+
+// Vehicles stop this close to a command post (m)
+const VEHICLE_POST_STANDOFF = 8;
+
+// Guns are fired on the move only within this angle of the target (radians)
+const VEHICLE_FIRE_CONE = 0.35;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vehicle AI System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decide where each empty AI-crewed vehicle goes and what it shoots. Faces
+ * along its route while moving, and turns to the target once in range.
+ */
+export function groundVehicleAISystem(world: IWorld, dt: number): void {
+  const vehicles = vehicleAIQuery(world);
+  const targets = targetQuery(world);
+  const posts = commandPostQuery(world);
+
+  for (const eid of vehicles) {
+    if ((Enterable.seatsFilled[eid] ?? 0) > 0) continue;
+    if ((Health.hp[eid] ?? 0) <= 0) continue;
+
+    const team = Team.id[eid] ?? 0;
+    const x = Transform.x[eid] ?? 0;
+    const z = Transform.z[eid] ?? 0;
+
+    // Nearest living enemy in range
+    let target = -1;
+    let targetDist = VEHICLE_DETECT_RANGE;
+    for (const tid of targets) {
+      if (tid === eid || (Team.id[tid] ?? -1) === team || (Health.hp[tid] ?? 0) <= 0) continue;
+      const dist = Math.hypot((Transform.x[tid] ?? 0) - x, (Transform.z[tid] ?? 0) - z);
+      if (dist < targetDist) {
+        target = tid;
+        targetDist = dist;
+      }
+    }
+
+    let goalX = x;
+    let goalZ = z;
+    let standoff = 0;
+    let state = GroundAIState.Idle;
+
+    if (target >= 0) {
+      state = GroundAIState.Attack;
+      goalX = Transform.x[target] ?? 0;
+      goalZ = Transform.z[target] ?? 0;
+      const range = hasComponent(world, BlasterWeapon, eid) ? (BlasterWeapon.range[eid] ?? 80) : 80;
+      standoff = range * VEHICLE_STANDOFF;
+    } else {
+      let postDist = Infinity;
+      for (const cp of posts) {
+        if ((CommandPost.ownerTeam[cp] ?? -1) === team) continue;
+        const dist = Math.hypot((Transform.x[cp] ?? 0) - x, (Transform.z[cp] ?? 0) - z);
+        if (dist < postDist) {
+          postDist = dist;
+          goalX = Transform.x[cp] ?? 0;
+          goalZ = Transform.z[cp] ?? 0;
+        }
+      }
+      if (postDist < Infinity) {
+        state = GroundAIState.MoveTo;
+        standoff = VEHICLE_POST_STANDOFF;
+      }
+    }
+
+    const dx = goalX - x;
+    const dz = goalZ - z;
+    const dist = Math.hypot(dx, dz);
+    const goalYaw = Math.atan2(-dx, -dz);
+    let aimYaw = GroundInput.aimYaw[eid] ?? 0;
+    let moveZ = 0;
+
+    if (state !== GroundAIState.Idle && dist > standoff) {
+      const dir = navDirectionTo(eid, x, z, goalX, goalZ, groundVehicleNavRadius(eid), dt);
+      aimYaw = Math.atan2(-dir.x, -dir.z);
+      moveZ = 1;
+    } else if (state === GroundAIState.Attack) {
+      aimYaw = goalYaw;
+    }
+
+    const offAim = Math.abs(Math.atan2(Math.sin(goalYaw - aimYaw), Math.cos(goalYaw - aimYaw)));
+    const inRange = hasComponent(world, BlasterWeapon, eid) && dist <= (BlasterWeapon.range[eid] ?? 0);
+
+    GroundInput.moveX[eid] = 0;
+    GroundInput.moveZ[eid] = moveZ;
+    GroundInput.aimYaw[eid] = aimYaw;
+    GroundInput.aimPitch[eid] = 0;
+    GroundInput.firePrimary[eid] = state === GroundAIState.Attack && inRange && offAim < VEHICLE_FIRE_CONE ? 1 : 0;
+
+    GroundAI.targetEid[eid] = target;
+    GroundAI.waypointX[eid] = goalX;
+    GroundAI.waypointZ[eid] = goalZ;
+    GroundAI.stateTime[eid] = state === GroundAI.state[eid] ? (GroundAI.stateTime[eid] ?? 0) + dt : 0;
+    GroundAI.state[eid] = state;
+  }
+}
@@ -3,3 +3,4 @@ export * from "./space";
 export * from "./ground";
 export * from "./conquest";
 export * from "./transition";
+export * from "./input";
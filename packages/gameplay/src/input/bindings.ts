@@ -0,0 +1,337 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// INPUT BINDINGS (keyboard, mouse and gamepad → flight / ground actions)
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Bindings are stored as short strings so they serialize straight into the
+// profile:
+//   "key:w", "key:Space", "key:ArrowUp"   KeyboardEvent.key (letters lowercased)
+//   "mouse:0"                             mouse button
+//   "pad:button:7"                        gamepad button (standard mapping)
+//   "pad:axis:1-" / "pad:axis:1+"         one half of a gamepad axis
+
+export type BindingSource =
+  | { device: "key"; key: string }
+  | { device: "mouse"; button: number }
+  | { device: "padButton"; index: number }
+  | { device: "padAxis"; index: number; sign: 1 | -1 };
+
+/** One analog axis: bindings for each direction plus its response curve */
+export type AxisBinding = {
+  positive: string[];
+  negative: string[];
+  deadzone: number;    // 0..0.9, applied to gamepad axes
+  curve: number;       // exponent: 1 = linear, >1 = finer control near center
+  sensitivity: number; // output scale, clamped to -1..1 afterwards
+  invert: boolean;
+};
+
+export type SpaceAxis = "pitch" | "yaw" | "roll" | "throttle";
+export type SpaceButton =
+  | "boost"
+  | "brake"
+  | "firePrimary"
+  | "fireSecondary"
+  | "switchWeapon"
+  | "cycleTarget"
+  | "hyperspace"
+  | "toggleMap"
+  | "land"
+  | "commandMenu"
+  | "orderAttack"
+  | "orderCover"
+  | "orderFormUp"
+  | "orderSubsystems"
+  | "orderEscort";
+
+export type GroundAxis = "moveX" | "moveZ" | "lookX" | "lookY";
+export type GroundButton =
+  | "jump"
+  | "sprint"
+  | "crouch"
+  | "interact"
+  | "firePrimary"
+  | "toggleMap"
+  | "dodge"
+  | "throwGrenade"
+  | "launch"
+  | "orderFollow"
+  | "orderHold"
+  | "orderAttackPost";
+
+export type ActionBindings<TAxis extends string, TButton extends string> = {
+  axes: Record<TAxis, AxisBinding>;
+  buttons: Record<TButton, string[]>;
+};
+
+export type SpaceBindings = ActionBindings<SpaceAxis, SpaceButton>;
+export type GroundBindings = ActionBindings<GroundAxis, GroundButton>;
+
+export type ControlSettings = {
+  space: SpaceBindings;
+  ground: GroundBindings;
+  mouseSensitivity: number; // multiplier on ground mouse look
+};
+
+export const SPACE_AXES: readonly SpaceAxis[] = ["pitch", "yaw", "roll", "throttle"];
+export const SPACE_BUTTONS: readonly SpaceButton[] = [
+  "boost",
+  "brake",
+  "firePrimary",
+  "fireSecondary",
+  "switchWeapon",
+  "cycleTarget",
+  "hyperspace",
+  "toggleMap",
+  "land",
+  "commandMenu",
+  "orderAttack",
+  "orderCover",
+  "orderFormUp",
+  "orderSubsystems",
+  "orderEscort"
+];
+export const GROUND_AXES: readonly GroundAxis[] = ["moveX", "moveZ", "lookX", "lookY"];
+export const GROUND_BUTTONS: readonly GroundButton[] = [
+  "jump",
+  "sprint",
+  "crouch",
+  "interact",
+  "firePrimary",
+  "toggleMap",
+  "dodge",
+  "throwGrenade",
+  "launch",
+  "orderFollow",
+  "orderHold",
+  "orderAttackPost"
+];
+
+/** Buttons that fire once per press rather than while held */
+export const SPACE_ONE_SHOT: ReadonlySet<SpaceButton> = new Set<SpaceButton>([
+  "switchWeapon",
+  "cycleTarget",
+  "hyperspace",
+  "toggleMap",
+  "land",
+  "commandMenu",
+  "orderAttack",
+  "orderCover",
+  "orderFormUp",
+  "orderSubsystems",
+  "orderEscort"
+]);
+export const GROUND_ONE_SHOT: ReadonlySet<GroundButton> = new Set<GroundButton>([
+  "jump",
+  "interact",
+  "toggleMap",
+  "dodge",
+  "throwGrenade",
+  "launch",
+  "orderFollow",
+  "orderHold",
+  "orderAttackPost"
+]);
+
+const MAX_BINDINGS_PER_ACTION = 4;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults (standard gamepad mapping: 0=A 1=B 2=X 3=Y 4=LB 5=RB 6=LT 7=RT
+// 8=Back 9=Start 10=L3 11=R3 12-15=D-pad, axes 0/1 left stick, 2/3 right)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function axis(positive: string[], negative: string[], deadzone = 0.15, curve = 1): AxisBinding {
+  return { positive, negative, deadzone, curve, sensitivity: 1, invert: false };
+}
+
+export function createDefaultControlSettings(): ControlSettings {
+  return {
+    space: {
+      axes: {
+        pitch: axis(["key:w", "key:ArrowUp", "pad:axis:1-"], ["key:s", "key:ArrowDown", "pad:axis:1+"], 0.12, 1.6),
+        yaw: axis(["key:a", "key:ArrowLeft", "pad:axis:0-"], ["key:d", "key:ArrowRight", "pad:axis:0+"], 0.12, 1.6),
+        roll: axis(["key:q", "pad:button:4", "pad:axis:2-"], ["key:e", "pad:button:5", "pad:axis:2+"], 0.2, 1.4),
+        throttle: axis(["key:r", "pad:axis:3-"], ["key:f", "pad:axis:3+"], 0.2)
+      },
+      buttons: {
+        boost: ["key:Shift", "pad:button:6"],
+        brake: ["key:x", "pad:button:1"],
+        firePrimary: ["key:Space", "pad:button:7"],
+        fireSecondary: ["key:c", "pad:button:0"],
+        switchWeapon: ["key:v", "pad:button:3"],
+        cycleTarget: ["key:t", "pad:button:2"],
+        hyperspace: ["key:h", "pad:button:13"],
+        toggleMap: ["key:m", "pad:button:9"],
+        land: ["key:l", "pad:button:12"],
+        commandMenu: ["key:z", "pad:button:8"],
+        orderAttack: ["key:1"],
+        orderCover: ["key:2"],
+        orderFormUp: ["key:3"],
+        orderSubsystems: ["key:4"],
+        orderEscort: ["key:5"]
+      }
+    },
+    ground: {
+      axes: {
+        moveX: axis(["key:d", "key:ArrowRight", "pad:axis:0+"], ["key:a", "key:ArrowLeft", "pad:axis:0-"]),
+        moveZ: axis(["key:w", "key:ArrowUp", "pad:axis:1-"], ["key:s", "key:ArrowDown", "pad:axis:1+"]),
+        lookX: axis(["pad:axis:2+"], ["pad:axis:2-"], 0.12, 1.8),
+        lookY: axis(["pad:axis:3+"], ["pad:axis:3-"], 0.12, 1.8)
+      },
+      buttons: {
+        jump: ["key:Space", "pad:button:0"],
+        sprint: ["key:Shift", "pad:button:10"],
+        crouch: ["key:Control", "pad:button:11"],
+        interact: ["key:e", "pad:button:2"],
+        firePrimary: ["key:Space", "mouse:0", "pad:button:7"],
+        toggleMap: ["key:m", "pad:button:9"],
+        dodge: ["key:Alt", "pad:button:1"],
+        throwGrenade: ["key:g", "pad:button:5"],
+        launch: ["key:l", "pad:button:12"],
+        orderFollow: ["key:1", "pad:button:14"],
+        orderHold: ["key:2", "pad:button:13"],
+        orderAttackPost: ["key:3", "pad:button:15"]
+      }
+    },
+    mouseSensitivity: 1
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Binding Strings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize KeyboardEvent.key the way bindings store it
+ */
+export function normalizeKey(key: string): string {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * Parse a binding string, or null if it isn't one
+ */
+export function parseBinding(binding: string): BindingSource | null {
+  if (binding.startsWith("key:") && binding.length > 4) {
+    return { device: "key", key: binding.slice(4) };
+  }
+  const [device, a, b] = binding.split(":");
+  if (device === "mouse" && a && /^\d$/.test(a)) {
+    return { device: "mouse", button: Number(a) };
+  }
+  if (device === "pad" && a === "button" && b && /^\d{1,2}$/.test(b)) {
+    return { device: "padButton", index: Number(b) };
+  }
+  if (device === "pad" && a === "axis" && b && /^\d{1,2}[+-]$/.test(b)) {
+    return { device: "padAxis", index: Number(b.slice(0, -1)), sign: b.endsWith("-") ? -1 : 1 };
+  }
+  return null;
+}
+
+export function formatBinding(source: BindingSource): string {
+  switch (source.device) {
+    case "key":
+      return `key:${source.key}`;
+    case "mouse":
+      return `mouse:${source.button}`;
+    case "padButton":
+      return `pad:button:${source.index}`;
+    case "padAxis":
+      return `pad:axis:${source.index}${source.sign < 0 ? "-" : "+"}`;
+  }
+}
+
+const PAD_BUTTON_NAMES = ["A", "B", "X", "Y", "LB", "RB", "LT", "RT", "BACK", "START", "L3", "R3", "D-UP", "D-DOWN", "D-LEFT", "D-RIGHT"];
+const PAD_AXIS_NAMES = ["LS X", "LS Y", "RS X", "RS Y"];
+
+/**
+ * Short human-readable label for the controls overlay
+ */
+export function bindingLabel(binding: string): string {
+  const source = parseBinding(binding);
+  if (!source) return "?";
+  switch (source.device) {
+    case "key":
+      return source.key.length === 1 ? source.key.toUpperCase() : source.key.toUpperCase().replace(/^ARROW/, "");
+    case "mouse":
+      return source.button === 0 ? "LMB" : source.button === 2 ? "RMB" : `MOUSE ${source.button + 1}`;
+    case "padButton":
+      return `PAD ${PAD_BUTTON_NAMES[source.index] ?? source.index}`;
+    case "padAxis":
+      return `PAD ${PAD_AXIS_NAMES[source.index] ?? `AXIS ${source.index}`}${source.sign < 0 ? "-" : "+"}`;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation (profile data is untrusted)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function clampNumber(v: unknown, min: number, max: number, fallback: number): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  return Math.max(min, Math.min(max, v));
+}
+
+function sanitizeBindingList(raw: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(raw)) return [...fallback];
+  const valid = raw.filter((b): b is string => typeof b === "string" && parseBinding(b) !== null);
+  return [...new Set(valid)].slice(0, MAX_BINDINGS_PER_ACTION);
+}
+
+function sanitizeAxis(raw: unknown, fallback: AxisBinding): AxisBinding {
+  const a = (typeof raw === "object" && raw !== null ? raw : {}) as Partial<Record<keyof AxisBinding, unknown>>;
+  return {
+    positive: sanitizeBindingList(a.positive, fallback.positive),
+    negative: sanitizeBindingList(a.negative, fallback.negative),
+    deadzone: clampNumber(a.deadzone, 0, 0.9, fallback.deadzone),
+    curve: clampNumber(a.curve, 0.5, 4, fallback.curve),
+    sensitivity: clampNumber(a.sensitivity, 0.1, 3, fallback.sensitivity),
+    invert: typeof a.invert === "boolean" ? a.invert : fallback.invert
+  };
+}
+
+function sanitizeActions<TAxis extends string, TButton extends string>(
+  raw: unknown,
+  fallback: ActionBindings<TAxis, TButton>,
+  axes: readonly TAxis[],
+  buttons: readonly TButton[]
+): ActionBindings<TAxis, TButton> {
+  const r = (typeof raw === "object" && raw !== null ? raw : {}) as { axes?: unknown; buttons?: unknown };
+  const rawAxes = (typeof r.axes === "object" && r.axes !== null ? r.axes : {}) as Record<string, unknown>;
+  const rawButtons = (typeof r.buttons === "object" && r.buttons !== null ? r.buttons : {}) as Record<string, unknown>;
+
+  const result = { axes: {}, buttons: {} } as ActionBindings<TAxis, TButton>;
+  for (const name of axes) {
+    result.axes[name] = sanitizeAxis(rawAxes[name], fallback.axes[name]);
+  }
+  for (const name of buttons) {
+    result.buttons[name] = sanitizeBindingList(rawButtons[name], fallback.buttons[name]);
+  }
+  return result;
+}
+
+/**
+ * Validate stored control settings. Missing actions get their defaults;
+ * malformed bindings are dropped.
+ */
+export function sanitizeControlSettings(raw: unknown): ControlSettings {
+  const defaults = createDefaultControlSettings();
+  if (typeof raw !== "object" || raw === null) return defaults;
+  const r = raw as Partial<Record<keyof ControlSettings, unknown>>;
+
+  return {
+    space: sanitizeActions(r.space, defaults.space, SPACE_AXES, SPACE_BUTTONS),
+    ground: sanitizeActions(r.ground, defaults.ground, GROUND_AXES, GROUND_BUTTONS),
+    mouseSensitivity: clampNumber(r.mouseSensitivity, 0.1, 5, defaults.mouseSensitivity)
+  };
+}
+
+/**
+ * Add a binding to an action list; moves it to the end if already bound and
+ * drops the oldest binding when the list is full.
+ */
+export function addBinding(list: string[], binding: string): void {
+  const existing = list.indexOf(binding);
+  if (existing >= 0) list.splice(existing, 1);
+  list.push(binding);
+  while (list.length > MAX_BINDINGS_PER_ACTION) list.shift();
+}
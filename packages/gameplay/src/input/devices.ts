@@ -0,0 +1,127 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// INPUT DEVICES (keyboard + mouse events, Gamepad API polling)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { normalizeKey } from "./bindings";
+import type { DeviceState } from "./mapping";
+
+export type InputDevices = {
+  /** Snapshot devices for this frame; call once per update */
+  poll(): DeviceState;
+  /** Name of the connected gamepad, if any */
+  readonly gamepadId: string | null;
+  dispose(): void;
+};
+
+function firstGamepad(): Gamepad | null {
+  if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return null;
+  for (const pad of navigator.getGamepads()) {
+    if (pad && pad.connected) return pad;
+  }
+  return null;
+}
+
+export function createInputDevices(target: HTMLElement | Window = window): InputDevices {
+  const keys = new Set<string>();
+  const mouseButtons = new Set<number>();
+  // Presses accumulate here between polls so quick taps aren't lost
+  let keysPressed = new Set<string>();
+  let mousePressed = new Set<number>();
+  let gamepadId: string | null = null;
+
+  const state = {
+    keys,
+    keysPressed: new Set<string>(),
+    mouseButtons,
+    mousePressed: new Set<number>(),
+    padButtons: [] as number[],
+    padButtonsPrev: [] as number[],
+    padAxes: [] as number[],
+    padAxesPrev: [] as number[]
+  };
+
+  function onKeyDown(e: KeyboardEvent) {
+    const key = normalizeKey(e.key);
+    if (!e.repeat) keysPressed.add(key);
+    keys.add(key);
+  }
+
+  function onKeyUp(e: KeyboardEvent) {
+    keys.delete(normalizeKey(e.key));
+  }
+
+  function onMouseDown(e: MouseEvent) {
+    mouseButtons.add(e.button);
+    mousePressed.add(e.button);
+  }
+
+  function onMouseUp(e: MouseEvent) {
+    mouseButtons.delete(e.button);
+  }
+
+  // Keys held while the window loses focus never get a keyup
+  function onBlur() {
+    keys.clear();
+    mouseButtons.clear();
+  }
+
+  const eventTarget = target instanceof Window ? window : target;
+  eventTarget.addEventListener("keydown", onKeyDown as EventListener);
+  eventTarget.addEventListener("keyup", onKeyUp as EventListener);
+  eventTarget.addEventListener("mousedown", onMouseDown as EventListener);
+  window.addEventListener("mouseup", onMouseUp);
+  window.addEventListener("blur", onBlur);
+
+  function poll(): DeviceState {
+    // Hand out this frame's presses and start collecting the next frame's
+    const pressedKeys = keysPressed;
+    keysPressed = state.keysPressed;
+    keysPressed.clear();
+    state.keysPressed = pressedKeys;
+
+    const pressedMouse = mousePressed;
+    mousePressed = state.mousePressed;
+    mousePressed.clear();
+    state.mousePressed = pressedMouse;
+
+    // Swap current/previous pad arrays and refill current
+    const prevButtons = state.padButtons;
+    state.padButtons = state.padButtonsPrev;
+    state.padButtonsPrev = prevButtons;
+    const prevAxes = state.padAxes;
+    state.padAxes = state.padAxesPrev;
+    state.padAxesPrev = prevAxes;
+
+    const pad = firstGamepad();
+    gamepadId = pad?.id ?? null;
+    state.padButtons.length = pad?.buttons.length ?? 0;
+    state.padAxes.length = pad?.axes.length ?? 0;
+    if (pad) {
+      for (let i = 0; i < pad.buttons.length; i++) {
+        const button = pad.buttons[i];
+        state.padButtons[i] = button ? Math.max(button.value, button.pressed ? 1 : 0) : 0;
+      }
+      for (let i = 0; i < pad.axes.length; i++) {
+        state.padAxes[i] = pad.axes[i] ?? 0;
+      }
+    }
+
+    return state;
+  }
+
+  function dispose() {
+    eventTarget.removeEventListener("keydown", onKeyDown as EventListener);
+    eventTarget.removeEventListener("keyup", onKeyUp as EventListener);
+    eventTarget.removeEventListener("mousedown", onMouseDown as EventListener);
+    window.removeEventListener("mouseup", onMouseUp);
+    window.removeEventListener("blur", onBlur);
+  }
+
+  return {
+    poll,
+    get gamepadId() {
+      return gamepadId;
+    },
+    dispose
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./bindings";
+export * from "./mapping";
+export * from "./devices";
@@ -0,0 +1,187 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// INPUT MAPPING (device state + bindings → action values)
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Pure functions over a polled DeviceState, so both input factories and the
+// tests read bindings the same way.
+
+import { parseBinding, type ActionBindings, type AxisBinding, type BindingSource } from "./bindings";
+
+export type DeviceState = {
+  /** Keys held (normalized, see normalizeKey) */
+  keys: ReadonlySet<string>;
+  /** Keys pressed since the previous poll, even if already released */
+  keysPressed: ReadonlySet<string>;
+  mouseButtons: ReadonlySet<number>;
+  mousePressed: ReadonlySet<number>;
+  /** Gamepad button values (0..1) this poll and last poll; empty without a pad */
+  padButtons: readonly number[];
+  padButtonsPrev: readonly number[];
+  /** Gamepad axes (-1..1) this poll and last poll */
+  padAxes: readonly number[];
+  padAxesPrev: readonly number[];
+};
+
+/** Analog sources count as "down" past this value */
+export const PRESS_THRESHOLD = 0.5;
+
+export function createEmptyDeviceState(): DeviceState {
+  return {
+    keys: new Set(),
+    keysPressed: new Set(),
+    mouseButtons: new Set(),
+    mousePressed: new Set(),
+    padButtons: [],
+    padButtonsPrev: [],
+    padAxes: [],
+    padAxesPrev: []
+  };
+}
+
+// Parsed bindings are cached; binding lists are small and rarely change
+const parsed = new Map<string, BindingSource | null>();
+
+function source(binding: string): BindingSource | null {
+  let s = parsed.get(binding);
+  if (s === undefined) {
+    s = parseBinding(binding);
+    parsed.set(binding, s);
+  }
+  return s;
+}
+
+function halfAxis(value: number, sign: 1 | -1): number {
+  return Math.max(0, value * sign);
+}
+
+/**
+ * Current value of one binding, 0..1 (keys and buttons are 0 or 1)
+ */
+export function bindingValue(state: DeviceState, binding: string): number {
+  const s = source(binding);
+  if (!s) return 0;
+  switch (s.device) {
+    case "key":
+      return state.keys.has(s.key) ? 1 : 0;
+    case "mouse":
+      return state.mouseButtons.has(s.button) ? 1 : 0;
+    case "padButton":
+      return state.padButtons[s.index] ?? 0;
+    case "padAxis":
+      return halfAxis(state.padAxes[s.index] ?? 0, s.sign);
+  }
+}
+
+/**
+ * Whether a binding went down since the previous poll
+ */
+export function bindingPressed(state: DeviceState, binding: string): boolean {
+  const s = source(binding);
+  if (!s) return false;
+  switch (s.device) {
+    case "key":
+      return state.keysPressed.has(s.key);
+    case "mouse":
+      return state.mousePressed.has(s.button);
+    case "padButton":
+      return (state.padButtons[s.index] ?? 0) > PRESS_THRESHOLD && (state.padButtonsPrev[s.index] ?? 0) <= PRESS_THRESHOLD;
+    case "padAxis":
+      return (
+        halfAxis(state.padAxes[s.index] ?? 0, s.sign) > PRESS_THRESHOLD &&
+        halfAxis(state.padAxesPrev[s.index] ?? 0, s.sign) <= PRESS_THRESHOLD
+      );
+  }
+}
+
+/**
+ * Rescale so the deadzone edge maps to 0 and full deflection stays 1
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+  const mag = Math.abs(value);
+  if (mag <= deadzone) return 0;
+  return (Math.sign(value) * (Math.min(1, mag) - deadzone)) / (1 - deadzone);
+}
+
+/**
+ * Response curve: sign-preserving power curve, scaled by sensitivity,
+ * optionally inverted, clamped to -1..1.
+ */
+export function applyResponse(value: number, axis: Pick<AxisBinding, "curve" | "sensitivity" | "invert">): number {
+  const shaped = Math.sign(value) * Math.pow(Math.abs(value), axis.curve) * axis.sensitivity;
+  const out = axis.invert ? -shaped : shaped;
+  return Math.max(-1, Math.min(1, out));
+}
+
+function strongest(state: DeviceState, bindings: readonly string[], deadzone: number): number {
+  let best = 0;
+  for (const binding of bindings) {
+    let v = bindingValue(state, binding);
+    if (source(binding)?.device === "padAxis") v = applyDeadzone(v, deadzone);
+    if (v > best) best = v;
+  }
+  return best;
+}
+
+/**
+ * Value of an analog axis, -1..1: strongest positive minus strongest negative
+ * binding, through the axis deadzone and response curve.
+ */
+export function readAxis(state: DeviceState, axis: AxisBinding): number {
+  const raw = strongest(state, axis.positive, axis.deadzone) - strongest(state, axis.negative, axis.deadzone);
+  return applyResponse(raw, axis);
+}
+
+/**
+ * Held state of a button action
+ */
+export function readButton(state: DeviceState, bindings: readonly string[]): boolean {
+  return bindings.some((binding) => bindingValue(state, binding) > PRESS_THRESHOLD);
+}
+
+/**
+ * One-shot state of a button action (pressed since the previous poll)
+ */
+export function readButtonPressed(state: DeviceState, bindings: readonly string[]): boolean {
+  return bindings.some((binding) => bindingPressed(state, binding));
+}
+
+/**
+ * Read every axis and button of an action set into `out`. Buttons listed in
+ * `oneShot` are true only on the poll they were pressed.
+ */
+export function readActions<TAxis extends string, TButton extends string>(
+  state: DeviceState,
+  bindings: ActionBindings<TAxis, TButton>,
+  oneShot: ReadonlySet<TButton>,
+  out: { axes: Record<TAxis, number>; buttons: Record<TButton, boolean> }
+): void {
+  for (const name in bindings.axes) {
+    out.axes[name] = readAxis(state, bindings.axes[name]);
+  }
+  for (const name in bindings.buttons) {
+    const list = bindings.buttons[name];
+    out.buttons[name] = oneShot.has(name) ? readButtonPressed(state, list) : readButton(state, list);
+  }
+}
+
+/**
+ * First binding that is newly active in this poll, for rebinding. Gamepad
+ * axes need a firm push past `axisThreshold` so stick drift isn't captured.
+ */
+export function detectBinding(state: DeviceState, axisThreshold = 0.6): string | null {
+  for (const key of state.keysPressed) return `key:${key}`;
+  for (const button of state.mousePressed) return `mouse:${button}`;
+  for (let i = 0; i < state.padButtons.length; i++) {
+    if ((state.padButtons[i] ?? 0) > PRESS_THRESHOLD && (state.padButtonsPrev[i] ?? 0) <= PRESS_THRESHOLD) {
+      return `pad:button:${i}`;
+    }
+  }
+  for (let i = 0; i < state.padAxes.length; i++) {
+    const v = state.padAxes[i] ?? 0;
+    const prev = state.padAxesPrev[i] ?? 0;
+    if (Math.abs(v) > axisThreshold && Math.abs(prev) <= axisThreshold) {
+      return `pad:axis:${i}${v < 0 ? "-" : "+"}`;
+    }
+  }
+  return null;
+}
@@ -69,6 +69,13 @@ export const CapitalShipV2 = defineComponent({
   hangarCurrent: Types.ui8,
   spawnCooldown: Types.f32,
   spawnCooldownMax: Types.f32,
+
+  // Ion effects
+  ionOffline: Types.ui8,       // bit per SubsystemType knocked out by ion charge
+
+  // Fleet engagement (capital vs capital)
+  engageTarget: Types.i32,     // enemy capital ship being engaged (-1 if none)
+  engageRange: Types.f32,      // broadside range the ship holds its target at
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -113,9 +120,10 @@ export const Turret = defineComponent({
   projectileSpeed: Types.f32,
 
   // AI targeting
-  targetEid: Types.i32,        // -1 when no target
+  targetEid: Types.i32,        // -1 when no target (hull or subsystem for capitals)
   targetPriority: Types.ui8,   // 0=any, 1=fighters, 2=bombers, 3=capitals
   trackingAccuracy: Types.f32, // 0..1 (affects aim scatter)
+  rngSeed: Types.ui32,         // seeds fire stagger and aim scatter
 
   // State flags
   disabled: Types.ui8,         // 1 if damaged/disabled
@@ -148,6 +156,40 @@ export const Subsystem = defineComponent({
   disabled: Types.ui8,         // 1 if HP <= 0
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// HANGAR BAY (on Hangar subsystem entities)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fighter complement carried by a Hangar subsystem. Launches a squadron
+ * along the launch vector every launchInterval seconds while fighters are
+ * aboard, and takes damaged ones back in. Stops when the subsystem is disabled.
+ */
+export const HangarBay = defineComponent({
+  archetype: Types.ui8,        // index into FIGHTER_ARCHETYPES
+  capacity: Types.ui8,         // fighters the bay holds
+  complement: Types.ui8,       // fighters aboard
+  airborne: Types.ui8,         // launched and still flying
+  maxAirborne: Types.ui8,      // no launches while this many are out
+  squadronSize: Types.ui8,
+
+  launchInterval: Types.f32,   // seconds between squadrons
+  launchTimer: Types.f32,      // seconds until the next squadron
+
+  // Launch vector (local to parent, normalized)
+  launchDirX: Types.f32,
+  launchDirY: Types.f32,
+  launchDirZ: Types.f32,
+});
+
+/**
+ * Fighter launched from a hangar bay. Badly damaged ones fly back to it.
+ */
+export const CarrierFighter = defineComponent({
+  hangarEid: Types.i32,        // Hangar subsystem eid (-1 once it is lost)
+  returning: Types.ui8,        // 1 while heading home to be recovered
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // TURRET PROJECTILE (heavier than fighter lasers)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -161,7 +203,39 @@ export const TurretProjectile = defineComponent({
   ownerEid: Types.i32,         // turret eid
   parentShipEid: Types.i32,    // capital ship eid (for team lookup)
   damage: Types.f32,
+  ion: Types.f32,              // ion charge per hit (ion turrets)
   turretType: Types.ui8,       // TurretType for visual/behavior
+  aimEid: Types.i32,           // subsystem the turret aimed at (-1 for hull/fighters)
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DESTRUCTION SEQUENCE AND WRECKAGE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Destroyed capital ship coming apart. Replaces CapitalShipV2 on the hull
+ * entity, so the ship stops counting as alive, while its hull sections fail
+ * one after another and secondary explosions go off at its subsystems. Ends
+ * with the hull breaking into WreckHulk pieces.
+ */
+export const CapitalDestruction = defineComponent({
+  shipClass: Types.ui8,        // ShipClass enum
+  length: Types.f32,           // meters
+  elapsed: Types.f32,          // seconds since the ship was destroyed
+  firstSection: Types.ui8,     // hull section that gave out (0=fore, 1=mid, 2=aft)
+  sectionsFailed: Types.ui8,   // 0..3
+  secondaryTimer: Types.f32,   // seconds until the next secondary explosion
+  seed: Types.ui32,            // drift and breakup scatter
+});
+
+/**
+ * Drifting hull section left by a destroyed capital ship. Kept for the rest
+ * of the mission as a HitRadius obstacle.
+ */
+export const WreckHulk = defineComponent({
+  shipClass: Types.ui8,        // ShipClass of the ship it came from
+  section: Types.ui8,          // 0=fore, 1=mid, 2=aft
+  length: Types.f32,           // meters
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
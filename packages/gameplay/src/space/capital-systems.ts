@@ -1,12 +1,21 @@
-import { IWorld, addEntity, addComponent, defineQuery, removeEntity, hasComponent } from "bitecs";
-import { Quaternion, Vector3 } from "@xwingz/core";
+import { IWorld, addEntity, addComponent, defineQuery, removeEntity, hasComponent, removeComponent } from "bitecs";
+import { Euler, Quaternion, Vector3 } from "@xwingz/core";
+import { FIGHTER_ARCHETYPES, type FighterArchetype, type FighterArchetypeId } from "@xwingz/data";
 import {
   Transform,
   Velocity,
+  AngularVelocity,
   Team,
+  Ship,
+  LaserWeapon,
   Health,
   HitRadius,
+  Shield,
   Targetable,
+  Obstacle,
+  FighterBrain,
+  AIControlled,
+  SquadronMember,
 } from "./components";
 import {
   CapitalShipV2,
@@ -14,12 +23,20 @@ import {
   Subsystem,
   TurretProjectile,
   WeakPointV2,
+  HangarBay,
+  CarrierFighter,
+  CapitalDestruction,
+  WreckHulk,
   ShipClass,
   SubsystemType,
   TurretType,
 } from "./capital-components";
 import { SeededRNG } from "@xwingz/core";
 import { spaceCombatIndex } from "./spatial-index";
+import { AIState, applyIonDamage, isIonLocked } from "./systems";
+import { pushImpactEvent } from "./impact-events";
+import { FormationShape, setThrottle, steerTowards } from "./formation";
+import { SQUADRON_SIZE, arrangeFormation, createSquadron } from "./squadron-systems";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // EVENTS
@@ -38,8 +55,43 @@ export type SubsystemDestroyedEvent = {
   x: number; y: number; z: number;
 };
 
+/** A fighter left a hangar bay (one event per fighter in the squadron) */
+export type HangarLaunchEvent = {
+  shipEid: number;
+  hangarEid: number;
+  fighterEid: number;
+  archetype: FighterArchetypeId;
+  team: number;
+};
+
+/** A damaged fighter was taken back aboard (its entity is already removed) */
+export type HangarRecoveryEvent = {
+  shipEid: number;
+  hangarEid: number;
+  fighterEid: number;
+};
+
+/** Explosion in a destroyed capital ship's destruction sequence */
+export type CapitalExplosionEvent = {
+  shipEid: number;
+  kind: "section" | "secondary" | "breakup";
+  x: number; y: number; z: number;
+  radius: number;              // blast radius (m)
+};
+
+/** A destroyed capital ship broke apart (its hull entity is already removed) */
+export type CapitalBreakupEvent = {
+  shipEid: number;
+  shipClass: ShipClass;
+  hulkEids: number[];          // WreckHulk pieces, fore to aft
+};
+
 const turretFireEvents: TurretFireEvent[] = [];
 const subsystemDestroyedEvents: SubsystemDestroyedEvent[] = [];
+const hangarLaunchEvents: HangarLaunchEvent[] = [];
+const hangarRecoveryEvents: HangarRecoveryEvent[] = [];
+const capitalExplosionEvents: CapitalExplosionEvent[] = [];
+const capitalBreakupEvents: CapitalBreakupEvent[] = [];
 
 export function consumeTurretFireEvents(): TurretFireEvent[] {
   return turretFireEvents.splice(0, turretFireEvents.length);
@@ -49,6 +101,22 @@ export function consumeSubsystemDestroyedEvents(): SubsystemDestroyedEvent[] {
   return subsystemDestroyedEvents.splice(0, subsystemDestroyedEvents.length);
 }
 
+export function consumeHangarLaunchEvents(): HangarLaunchEvent[] {
+  return hangarLaunchEvents.splice(0, hangarLaunchEvents.length);
+}
+
+export function consumeHangarRecoveryEvents(): HangarRecoveryEvent[] {
+  return hangarRecoveryEvents.splice(0, hangarRecoveryEvents.length);
+}
+
+export function consumeCapitalExplosionEvents(): CapitalExplosionEvent[] {
+  return capitalExplosionEvents.splice(0, capitalExplosionEvents.length);
+}
+
+export function consumeCapitalBreakupEvents(): CapitalBreakupEvent[] {
+  return capitalBreakupEvents.splice(0, capitalBreakupEvents.length);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // QUERIES
 // ─────────────────────────────────────────────────────────────────────────────
@@ -58,7 +126,11 @@ const turretQuery = defineQuery([Turret, Transform]);
 const subsystemQuery = defineQuery([Subsystem, Transform]);
 const turretProjectileQuery = defineQuery([TurretProjectile, Transform, Velocity]);
 const weakPointQuery = defineQuery([WeakPointV2, Transform]);
+const hangarQuery = defineQuery([HangarBay, Subsystem, Transform]);
+const carrierFighterQuery = defineQuery([CarrierFighter, Transform, Health]);
 const fighterTargetQuery = defineQuery([Health, HitRadius, Transform, Team]);
+const dyingShipQuery = defineQuery([CapitalDestruction, Transform, Velocity]);
+const wreckHulkQuery = defineQuery([WreckHulk, Transform, Velocity]);
 
 // Note: Spatial hash moved to spatial-index.ts (unified SpaceCombatSpatialIndex)
 // Use rebuildSpaceCombatIndex() once per frame, then spaceCombatIndex.queryCombatants()
@@ -72,6 +144,77 @@ const tmpV = new Vector3();
 const tmpV2 = new Vector3();
 const tmpV3 = new Vector3();
 const tmpForward = new Vector3();
+const tmpLaunchQ = new Quaternion();
+const tmpDriftQ = new Quaternion();
+const tmpDriftEuler = new Euler();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HANGAR TUNING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Squadrons a bay keeps out at once */
+const HANGAR_MAX_SQUADRONS = 2;
+/** Default launch vector: down and forward out of the bay */
+const DEFAULT_LAUNCH_DIR: [number, number, number] = [0, -0.6, -0.8];
+/** Launched fighters appear this far past the bay's hit radius (m) */
+const LAUNCH_CLEARANCE = 15;
+/** Speed along the launch vector on leaving the bay (m/s) */
+const LAUNCH_SPEED = 120;
+const LAUNCH_THROTTLE = 0.8;
+/** Fighters below this fraction of hull head home for repairs */
+const RECOVER_HULL_FRACTION = 0.3;
+/** A returning fighter this close to its bay is taken aboard (m) */
+const RECOVER_RADIUS = 40;
+/** Returning fighters slow down inside this range of the bay (m) */
+const RECOVER_APPROACH = 400;
+
+const airborneByHangar = new Map<number, number>();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FLEET ENGAGEMENT TUNING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Turret.targetPriority values */
+const PRIORITY_ANY = 0;
+const PRIORITY_FIGHTERS = 1;
+const PRIORITY_CAPITALS = 3;
+
+/** Engage range as a fraction of the longest main gun range */
+const ENGAGE_RANGE_FRACTION = 0.75;
+/** Beyond this multiple of the engage range ships steer straight in */
+const ENGAGE_CLOSE_IN = 1.5;
+/** Throttle while holding a broadside */
+const BROADSIDE_THROTTLE = 0.35;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DESTRUCTION TUNING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Seconds between hull sections failing */
+const SECTION_FAIL_INTERVAL = 1.6;
+/** Seconds after the last section fails before the hull breaks up */
+const BREAKUP_DELAY = 1.2;
+/** Seconds between secondary explosions at the subsystems */
+const SECONDARY_INTERVAL = 0.45;
+
+/** Blast radius as a fraction of ship length, floor in metres, and damage at the centre */
+const SECTION_BLAST = { radiusFactor: 0.6, minRadius: 50, damage: 140 };
+const SECONDARY_BLAST = { radiusFactor: 0.25, minRadius: 30, damage: 60 };
+const BREAKUP_BLAST = { radiusFactor: 1.0, minRadius: 80, damage: 220 };
+
+/** Max roll/pitch rate of a dying hull as it loses attitude control (rad/s) */
+const DYING_LIST_RATE = 0.05;
+/** Fore and aft pieces push apart along the keel at this speed (m/s) */
+const HULK_SEPARATION_SPEED = 4;
+/** Max random drift added to each piece (m/s) and its tumble rate (rad/s) */
+const HULK_SCATTER_SPEED = 1.5;
+const HULK_TUMBLE_RATE = 0.12;
+
+/** Order the hull sections fail in, by the section that gave out first */
+const SECTION_FAIL_ORDER = [[0, 1, 2], [1, 0, 2], [2, 1, 0]] as const;
+
+/** Subsystem offsets (local to the hull) still to go off, per dying ship */
+const secondarySites = new Map<number, Array<[number, number, number]>>();
 
 // ─────────────────────────────────────────────────────────────────────────────
 // SPAWN FUNCTIONS
@@ -98,6 +241,8 @@ export interface SubsystemConfig {
   offsetZ: number;
   hitRadius?: number;
   maxHp?: number;
+  /** Hangar only: launch vector local to the ship (default down and forward) */
+  launchDir?: [number, number, number];
 }
 
 export interface CapitalShipParams {
@@ -111,6 +256,12 @@ export interface CapitalShipParams {
   team: number;
   shipClass: ShipClass;
   name?: string;
+  /** Seeds turret fire stagger and aim scatter (default 0) */
+  seed?: number;
+  /** Fighters carried across the hangar bays (default by ship class) */
+  hangarCapacity?: number;
+  /** Fighters the hangar bays launch (default tie_ln) */
+  hangarArchetype?: FighterArchetypeId;
 }
 
 export interface SpawnedCapitalShip {
@@ -173,10 +324,12 @@ export function spawnCapitalShipV2(
   CapitalShipV2.maxSpeed[shipEid] = stats.maxSpeed;
   CapitalShipV2.accel[shipEid] = stats.accel;
   CapitalShipV2.turnRate[shipEid] = stats.turnRate;
-  CapitalShipV2.hangarCapacity[shipEid] = stats.hangarCapacity;
+  CapitalShipV2.hangarCapacity[shipEid] = params.hangarCapacity ?? stats.hangarCapacity;
   CapitalShipV2.hangarCurrent[shipEid] = 0;
   CapitalShipV2.spawnCooldown[shipEid] = 0;
   CapitalShipV2.spawnCooldownMax[shipEid] = 15;
+  CapitalShipV2.ionOffline[shipEid] = 0;
+  CapitalShipV2.engageTarget[shipEid] = -1;
 
   // Total health for targeting display
   Health.hp[shipEid] = stats.hullPerSection * 3;
@@ -185,9 +338,10 @@ export function spawnCapitalShipV2(
 
   // Spawn turrets
   const turretConfigs = getTurretLayout(params.shipClass);
+  CapitalShipV2.engageRange[shipEid] = getEngageRange(turretConfigs);
   const turretEids: number[] = [];
-  for (const cfg of turretConfigs) {
-    const tid = spawnTurret(world, shipEid, cfg, params.team);
+  for (const [i, cfg] of turretConfigs.entries()) {
+    const tid = spawnTurret(world, shipEid, cfg, params.team, (params.seed ?? 0) + i * 7919);
     turretEids.push(tid);
   }
 
@@ -198,6 +352,11 @@ export function spawnCapitalShipV2(
     const sid = spawnSubsystem(world, shipEid, cfg);
     subsystemEids.push(sid);
   }
+  stockHangars(
+    shipEid,
+    subsystemEids.filter((sid) => hasComponent(world, HangarBay, sid)),
+    params.hangarArchetype ?? "tie_ln"
+  );
 
   // Spawn weak points (hidden until power destroyed)
   const weakPointEids: number[] = [];
@@ -210,7 +369,7 @@ export function spawnCapitalShipV2(
   return { shipEid, turretEids, subsystemEids, weakPointEids };
 }
 
-function spawnTurret(world: IWorld, parentEid: number, cfg: TurretConfig, team: number): number {
+function spawnTurret(world: IWorld, parentEid: number, cfg: TurretConfig, team: number, seed: number): number {
   const eid = addEntity(world);
   addComponent(world, Turret, eid);
   addComponent(world, Transform, eid);
@@ -232,14 +391,15 @@ function spawnTurret(world: IWorld, parentEid: number, cfg: TurretConfig, team:
   Turret.pitchMax[eid] = cfg.pitchMax ?? 1.05;  // 60 deg
   Turret.rotationSpeed[eid] = getTurretRotationSpeed(cfg.type);
   Turret.cooldown[eid] = cfg.cooldown ?? getTurretCooldown(cfg.type);
-  // Use entity ID as seed for deterministic stagger
-  const turretRng = new SeededRNG(eid);
+  // Seeded per turret (not by eid, which differs between runs) for deterministic stagger
+  Turret.rngSeed[eid] = seed;
+  const turretRng = new SeededRNG(seed);
   Turret.cooldownRemaining[eid] = turretRng.next() * Turret.cooldown[eid]; // Stagger
   Turret.damage[eid] = cfg.damage ?? getTurretDamage(cfg.type);
   Turret.range[eid] = cfg.range ?? getTurretRange(cfg.type);
   Turret.projectileSpeed[eid] = getTurretProjectileSpeed(cfg.type);
   Turret.targetEid[eid] = -1;
-  Turret.targetPriority[eid] = cfg.type === TurretType.PointDefense ? 1 : 0;
+  Turret.targetPriority[eid] = getTurretPriority(cfg.type);
   Turret.trackingAccuracy[eid] = 0.7 + turretRng.next() * 0.2;
   Turret.disabled[eid] = 0;
 
@@ -279,9 +439,40 @@ function spawnSubsystem(world: IWorld, parentEid: number, cfg: SubsystemConfig):
   Health.maxHp[eid] = Subsystem.maxHp[eid];
   HitRadius.r[eid] = Subsystem.hitRadius[eid];
 
+  if (cfg.type === SubsystemType.Hangar) {
+    addComponent(world, HangarBay, eid);
+    const [dx, dy, dz] = cfg.launchDir ?? DEFAULT_LAUNCH_DIR;
+    tmpV.set(dx, dy, dz).normalize();
+    HangarBay.launchDirX[eid] = tmpV.x;
+    HangarBay.launchDirY[eid] = tmpV.y;
+    HangarBay.launchDirZ[eid] = tmpV.z;
+  }
+
   return eid;
 }
 
+/**
+ * Split the ship's fighter complement between its hangar bays, all aboard.
+ * The first squadron launches one interval after spawning.
+ */
+function stockHangars(shipEid: number, hangarEids: number[], archetypeId: FighterArchetypeId): void {
+  const capacity = CapitalShipV2.hangarCapacity[shipEid] ?? 0;
+  const archetype = Math.max(0, FIGHTER_ARCHETYPES.findIndex((a) => a.id === archetypeId));
+
+  hangarEids.forEach((sid, i) => {
+    const share = Math.floor(capacity / hangarEids.length) + (i < capacity % hangarEids.length ? 1 : 0);
+    HangarBay.archetype[sid] = archetype;
+    HangarBay.capacity[sid] = share;
+    HangarBay.complement[sid] = share;
+    HangarBay.airborne[sid] = 0;
+    HangarBay.squadronSize[sid] = SQUADRON_SIZE;
+    HangarBay.maxAirborne[sid] = SQUADRON_SIZE * HANGAR_MAX_SQUADRONS;
+    HangarBay.launchInterval[sid] = CapitalShipV2.spawnCooldownMax[shipEid] ?? 15;
+    HangarBay.launchTimer[sid] = HangarBay.launchInterval[sid];
+  });
+  CapitalShipV2.hangarCurrent[shipEid] = hangarEids.reduce((n, sid) => n + (HangarBay.complement[sid] ?? 0), 0);
+}
+
 function spawnWeakPoint(world: IWorld, parentEid: number, cfg: { offsetX: number; offsetY: number; offsetZ: number; hitRadius: number; multiplier: number }): number {
   const eid = addEntity(world);
   addComponent(world, WeakPointV2, eid);
@@ -401,6 +592,7 @@ function getSubsystemLayout(shipClass: ShipClass): SubsystemConfig[] {
       { type: SubsystemType.ShieldGen, offsetX: 8, offsetY: 5, offsetZ: 0 },
       { type: SubsystemType.Engines, offsetX: 0, offsetY: 0, offsetZ: 30 },
       { type: SubsystemType.Power, offsetX: 0, offsetY: -4, offsetZ: 10 },
+      { type: SubsystemType.Hangar, offsetX: 0, offsetY: -5, offsetZ: 5 },
     ];
   }
   if (shipClass === ShipClass.Frigate) {
@@ -408,6 +600,8 @@ function getSubsystemLayout(shipClass: ShipClass): SubsystemConfig[] {
       { type: SubsystemType.Bridge, offsetX: 0, offsetY: 4, offsetZ: -8 },
       { type: SubsystemType.ShieldGen, offsetX: 0, offsetY: 2, offsetZ: 0 },
       { type: SubsystemType.Engines, offsetX: 0, offsetY: 0, offsetZ: 10 },
+      // Hangar on the lower hull, launching to starboard
+      { type: SubsystemType.Hangar, offsetX: 3, offsetY: -2, offsetZ: 2, launchDir: [1, 0, -0.5] },
     ];
   }
   // Corvette
@@ -455,6 +649,11 @@ function getTurretDamage(type: TurretType): number {
   }
 }
 
+/** Ion charge per hit; only ion turrets carry any */
+function getTurretIon(type: TurretType): number {
+  return type === TurretType.Ion ? 60 : 0;
+}
+
 function getTurretCooldown(type: TurretType): number {
   switch (type) {
     case TurretType.PointDefense: return 0.4;  // Slower (was 0.15)
@@ -475,6 +674,25 @@ function getTurretRange(type: TurretType): number {
   }
 }
 
+/** Point defense sticks to fighters; turbolasers go after capital ships first */
+function getTurretPriority(type: TurretType): number {
+  switch (type) {
+    case TurretType.PointDefense: return PRIORITY_FIGHTERS;
+    case TurretType.Heavy: return PRIORITY_CAPITALS;
+    default: return PRIORITY_ANY;
+  }
+}
+
+/** Broadside range: well inside the reach of the ship's main guns */
+function getEngageRange(turrets: TurretConfig[]): number {
+  let reach = 0;
+  for (const cfg of turrets) {
+    if (cfg.type === TurretType.PointDefense) continue;
+    reach = Math.max(reach, cfg.range ?? getTurretRange(cfg.type));
+  }
+  return (reach || getTurretRange(TurretType.Medium)) * ENGAGE_RANGE_FRACTION;
+}
+
 function getTurretRotationSpeed(type: TurretType): number {
   switch (type) {
     case TurretType.PointDefense: return 2.0;
@@ -634,8 +852,9 @@ export function capitalShipMovementSystem(world: IWorld, dt: number): void {
     const vz = Velocity.vz[eid] ?? 0;
     const currentSpeed = Math.sqrt(vx * vx + vy * vy + vz * vz);
 
-    // Target speed
-    const targetSpeed = throttle * maxSpeed;
+    // Target speed (with engines or bridge ionized nobody holds the helm: coast)
+    const coasting = isIonOffline(eid, SubsystemType.Engines) || isIonOffline(eid, SubsystemType.Bridge);
+    const targetSpeed = coasting ? currentSpeed : throttle * maxSpeed;
 
     // Accelerate/decelerate
     let newSpeed = currentSpeed;
@@ -669,7 +888,7 @@ export function capitalShipShieldSystem(world: IWorld, dt: number): void {
 
     CapitalShipV2.shieldLastHit[eid] = lastHit + dt;
 
-    if (lastHit + dt >= delay) {
+    if (lastHit + dt >= delay && !isIonOffline(eid, SubsystemType.ShieldGen)) {
       const regenRate = CapitalShipV2.shieldRegenRate[eid] ?? 20;
       const shieldMax = CapitalShipV2.shieldMax[eid] ?? 4000;
       const halfMax = shieldMax / 2;
@@ -685,8 +904,169 @@ export function capitalShipShieldSystem(world: IWorld, dt: number): void {
   }
 }
 
+/**
+ * Fleet engagement AI. Each capital ship picks the nearest enemy capital,
+ * steers straight in until it is near its engage range, then turns to put
+ * the target abeam - on whichever beam needs less turning - angling in or
+ * out to hold the range. Ships with no enemy capital around are left to the
+ * scenario. Steering is yaw-only: capital ships stay level.
+ */
+export function capitalShipAISystem(world: IWorld, dt: number): void {
+  const capitals = capitalShipQuery(world);
+
+  for (const eid of capitals) {
+    let target = CapitalShipV2.engageTarget[eid] ?? -1;
+    if (target >= 0 && (!hasComponent(world, CapitalShipV2, target) || (Health.hp[target] ?? 0) <= 0)) {
+      // Target gone - heave to until another one turns up
+      target = -1;
+      CapitalShipV2.throttle[eid] = 0;
+    }
+    if (target < 0) target = nearestEnemyCapital(world, eid, capitals);
+    CapitalShipV2.engageTarget[eid] = target;
+    if (target < 0) continue;
+
+    const dx = (Transform.x[target] ?? 0) - (Transform.x[eid] ?? 0);
+    const dy = (Transform.y[target] ?? 0) - (Transform.y[eid] ?? 0);
+    const dz = (Transform.z[target] ?? 0) - (Transform.z[eid] ?? 0);
+    const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const range = CapitalShipV2.engageRange[eid] ?? 500;
+
+    const bearing = Math.atan2(-dx, -dz);
+    const yaw = getShipYaw(eid);
+    let desiredYaw = bearing;
+    if (dist > range * ENGAGE_CLOSE_IN) {
+      CapitalShipV2.throttle[eid] = 1;
+    } else {
+      // Off the beam toward the target when long, away from it when short
+      const offBeam = Math.max(-1, Math.min(1, (dist - range) / range)) * (Math.PI / 4);
+      const port = bearing - Math.PI / 2 + offBeam;
+      const starboard = bearing + Math.PI / 2 - offBeam;
+      desiredYaw = Math.abs(wrapAngle(port - yaw)) < Math.abs(wrapAngle(starboard - yaw)) ? port : starboard;
+      CapitalShipV2.throttle[eid] = BROADSIDE_THROTTLE;
+    }
+
+    // Nobody at the helm while the engines or bridge are ionized
+    if (isIonOffline(eid, SubsystemType.Engines) || isIonOffline(eid, SubsystemType.Bridge)) continue;
+
+    const maxTurn = (CapitalShipV2.turnRate[eid] ?? 0) * dt;
+    const turn = Math.max(-maxTurn, Math.min(maxTurn, wrapAngle(desiredYaw - yaw)));
+    const newYaw = yaw + turn;
+    Transform.qx[eid] = 0;
+    Transform.qy[eid] = Math.sin(newYaw / 2);
+    Transform.qz[eid] = 0;
+    Transform.qw[eid] = Math.cos(newYaw / 2);
+  }
+}
+
+function nearestEnemyCapital(world: IWorld, eid: number, capitals: readonly number[]): number {
+  const team = Team.id[eid] ?? 0;
+  let best = -1;
+  let bestDistSq = Infinity;
+  for (const other of capitals) {
+    if (other === eid || (Team.id[other] ?? 0) === team || (Health.hp[other] ?? 0) <= 0) continue;
+    const dx = (Transform.x[other] ?? 0) - (Transform.x[eid] ?? 0);
+    const dy = (Transform.y[other] ?? 0) - (Transform.y[eid] ?? 0);
+    const dz = (Transform.z[other] ?? 0) - (Transform.z[eid] ?? 0);
+    const distSq = dx * dx + dy * dy + dz * dz;
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      best = other;
+    }
+  }
+  return best;
+}
+
+/** Heading around +Y, 0 facing -Z */
+function getShipYaw(eid: number): number {
+  tmpQ.set(
+    Transform.qx[eid] ?? 0,
+    Transform.qy[eid] ?? 0,
+    Transform.qz[eid] ?? 0,
+    Transform.qw[eid] ?? 1
+  );
+  tmpForward.set(0, 0, -1).applyQuaternion(tmpQ);
+  return Math.atan2(-tmpForward.x, -tmpForward.z);
+}
+
+function wrapAngle(a: number): number {
+  return Math.atan2(Math.sin(a), Math.cos(a));
+}
+
+/**
+ * Land a hit on a capital ship. The shield arc facing the impact (front or
+ * rear) soaks it first; what gets through goes to the subsystem the shot was
+ * aimed at, or else to the hull section nearest the impact, spilling into
+ * the others once that section is gone. The ship is removed when its hull is.
+ */
+export function applyCapitalShipDamage(
+  world: IWorld,
+  shipEid: number,
+  damage: number,
+  x: number,
+  y: number,
+  z: number,
+  aimEid = -1
+): void {
+  // Impact point in ship-local space (forward is -Z)
+  tmpQ.set(
+    Transform.qx[shipEid] ?? 0,
+    Transform.qy[shipEid] ?? 0,
+    Transform.qz[shipEid] ?? 0,
+    Transform.qw[shipEid] ?? 1
+  ).invert();
+  tmpV3.set(
+    x - (Transform.x[shipEid] ?? 0),
+    y - (Transform.y[shipEid] ?? 0),
+    z - (Transform.z[shipEid] ?? 0)
+  ).applyQuaternion(tmpQ);
+  const localZ = tmpV3.z;
+
+  const arc = localZ <= 0 ? CapitalShipV2.shieldFront : CapitalShipV2.shieldRear;
+  const absorbed = Math.min(arc[shipEid] ?? 0, damage);
+  arc[shipEid] = (arc[shipEid] ?? 0) - absorbed;
+  CapitalShipV2.shieldLastHit[shipEid] = 0;
+
+  let rest = damage - absorbed;
+  if (rest <= 0) return;
+
+  // Arc is down: an aimed shot finds its subsystem (subsystemEffectsSystem
+  // applies the loss)
+  if (
+    aimEid >= 0 &&
+    hasComponent(world, Subsystem, aimEid) &&
+    Subsystem.parentEid[aimEid] === shipEid &&
+    !Subsystem.disabled[aimEid]
+  ) {
+    Subsystem.hp[aimEid] = Math.max(0, (Subsystem.hp[aimEid] ?? 0) - rest);
+    return;
+  }
+
+  const third = (CapitalShipV2.length[shipEid] ?? 0) / 6;
+  const hit = localZ < -third ? 0 : localZ > third ? 2 : 1;
+  for (const section of [hit, 1, 0, 2]) {
+    const hull = HULL_SECTIONS[section]!;
+    const taken = Math.min(hull[shipEid] ?? 0, rest);
+    hull[shipEid] = (hull[shipEid] ?? 0) - taken;
+    Health.hp[shipEid] = (Health.hp[shipEid] ?? 0) - taken;
+    rest -= taken;
+    if (rest <= 0) break;
+  }
+
+  const hullLeft = HULL_SECTIONS.reduce((sum, hull) => sum + (hull[shipEid] ?? 0), 0);
+  if (hullLeft <= 0 || (Health.hp[shipEid] ?? 0) <= 0) {
+    destroyCapitalShipV2(world, shipEid);
+  }
+}
+
+/** Fore, mid and aft hull, in ship-local -Z to +Z order */
+const HULL_SECTIONS = [CapitalShipV2.hullFore, CapitalShipV2.hullMid, CapitalShipV2.hullAft];
+const HULL_SECTION_MAX = [CapitalShipV2.hullForeMax, CapitalShipV2.hullMidMax, CapitalShipV2.hullAftMax];
+
 /**
  * Turret targeting system - acquires hostile targets.
+ * Turbolasers pick an enemy capital ship first (its hull or one of its
+ * subsystems), point defense only tracks fighters, everything else takes the
+ * nearest hostile.
  */
 export function turretTargetingSystem(world: IWorld, _dt: number): void {
   const turrets = turretQuery(world);
@@ -712,41 +1092,35 @@ export function turretTargetingSystem(world: IWorld, _dt: number): void {
         const hp = Health.hp[currentTarget] ?? 0;
         if (hp <= 0) {
           Turret.targetEid[tid] = -1;
-        } else {
-          // Check range
-          const dx = (Transform.x[currentTarget] ?? 0) - tx;
-          const dy = (Transform.y[currentTarget] ?? 0) - ty;
-          const dz = (Transform.z[currentTarget] ?? 0) - tz;
-          const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-          if (dist > range * 1.2) {
-            Turret.targetEid[tid] = -1;
-          }
+        } else if (targetDistance(world, currentTarget, tx, ty, tz) > range * 1.2) {
+          Turret.targetEid[tid] = -1;
         }
       }
     }
 
     // Acquire new target if needed
     if ((Turret.targetEid[tid] ?? -1) < 0) {
-      const nearby = spaceCombatIndex.queryCombatants(tx, ty, tz, range);
-      let bestTarget = -1;
-      let bestDist = Infinity;
-
-      for (const fid of nearby) {
-        if (!hasComponent(world, Team, fid)) continue;
-        const fTeam = Team.id[fid] ?? 0;
-        if (fTeam === parentTeam) continue; // Skip allies
-
-        const hp = Health.hp[fid] ?? 0;
-        if (hp <= 0) continue;
-
-        const dx = (Transform.x[fid] ?? 0) - tx;
-        const dy = (Transform.y[fid] ?? 0) - ty;
-        const dz = (Transform.z[fid] ?? 0) - tz;
-        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-        if (dist < bestDist) {
-          bestDist = dist;
-          bestTarget = fid;
+      const priority = Turret.targetPriority[tid] ?? PRIORITY_ANY;
+      let bestTarget = priority === PRIORITY_CAPITALS ? acquireCapitalTarget(world, tid, parentTeam, range) : -1;
+
+      if (bestTarget < 0) {
+        const nearby = spaceCombatIndex.queryCombatants(tx, ty, tz, range);
+        let bestDist = Infinity;
+
+        for (const fid of nearby) {
+          if (!hasComponent(world, Team, fid)) continue;
+          const fTeam = Team.id[fid] ?? 0;
+          if (fTeam === parentTeam) continue; // Skip allies
+          if (priority === PRIORITY_FIGHTERS && hasComponent(world, CapitalShipV2, fid)) continue;
+
+          const hp = Health.hp[fid] ?? 0;
+          if (hp <= 0) continue;
+
+          const dist = targetDistance(world, fid, tx, ty, tz);
+          if (dist <= range && dist < bestDist) {
+            bestDist = dist;
+            bestTarget = fid;
+          }
         }
       }
 
@@ -755,6 +1129,47 @@ export function turretTargetingSystem(world: IWorld, _dt: number): void {
   }
 }
 
+/**
+ * Distance from a turret to its target; capital ships count from the hull
+ * rather than the centre so big ships don't fall out of range.
+ */
+function targetDistance(world: IWorld, eid: number, x: number, y: number, z: number): number {
+  const dx = (Transform.x[eid] ?? 0) - x;
+  const dy = (Transform.y[eid] ?? 0) - y;
+  const dz = (Transform.z[eid] ?? 0) - z;
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  return hasComponent(world, CapitalShipV2, eid) ? Math.max(0, dist - (HitRadius.r[eid] ?? 0)) : dist;
+}
+
+/**
+ * Nearest enemy capital ship in range, then either its hull or one of its
+ * working subsystems - picked by the turret's seed so a battery spreads its
+ * fire across the ship. -1 if no enemy capital is in range.
+ */
+function acquireCapitalTarget(world: IWorld, tid: number, team: number, range: number): number {
+  const tx = Transform.x[tid] ?? 0;
+  const ty = Transform.y[tid] ?? 0;
+  const tz = Transform.z[tid] ?? 0;
+
+  let ship = -1;
+  let bestDist = range;
+  for (const eid of capitalShipQuery(world)) {
+    if ((Team.id[eid] ?? 0) === team || (Health.hp[eid] ?? 0) <= 0) continue;
+    const dist = targetDistance(world, eid, tx, ty, tz);
+    if (dist <= bestDist) {
+      bestDist = dist;
+      ship = eid;
+    }
+  }
+  if (ship < 0) return -1;
+
+  const aimPoints = [ship];
+  for (const sid of subsystemQuery(world)) {
+    if (Subsystem.parentEid[sid] === ship && !Subsystem.disabled[sid]) aimPoints.push(sid);
+  }
+  return aimPoints[(Turret.rngSeed[tid] ?? 0) % aimPoints.length]!;
+}
+
 /**
  * Turret rotation system - tracks toward current target.
  */
@@ -842,6 +1257,10 @@ export function turretFireSystem(world: IWorld, dt: number): void {
     const targetEid = Turret.targetEid[tid] ?? -1;
     if (targetEid < 0) continue;
 
+    // No power, no guns while the reactor is ionized
+    const shipEid = Turret.parentEid[tid] ?? -1;
+    if (shipEid >= 0 && isIonOffline(shipEid, SubsystemType.Power)) continue;
+
     // Check if on target (within aim threshold)
     const yaw = Turret.yaw[tid] ?? 0;
     const pitch = Turret.pitch[tid] ?? 0;
@@ -886,10 +1305,12 @@ export function turretFireSystem(world: IWorld, dt: number): void {
 
     tmpForward.set(0, 0, -1).applyQuaternion(tmpQ);
 
-    // Add accuracy scatter (seeded by turret ID for determinism)
-    const accuracy = Turret.trackingAccuracy[tid] ?? 0.8;
+    // Add accuracy scatter (seeded per turret for determinism); an ionized
+    // targeting computer halves accuracy until it comes back
+    const accuracy = (Turret.trackingAccuracy[tid] ?? 0.8) *
+      (isIonOffline(parentEid, SubsystemType.Targeting) ? 0.5 : 1);
     const scatter = (1 - accuracy) * 0.1;
-    const scatterRng = new SeededRNG(tid * 10000 + (Turret.cooldownRemaining[tid] | 0));
+    const scatterRng = new SeededRNG((Turret.rngSeed[tid] ?? 0) * 10000 + (Turret.cooldownRemaining[tid] | 0));
     tmpForward.x += (scatterRng.next() - 0.5) * scatter;
     tmpForward.y += (scatterRng.next() - 0.5) * scatter;
     tmpForward.z += (scatterRng.next() - 0.5) * scatter;
@@ -919,7 +1340,9 @@ export function turretFireSystem(world: IWorld, dt: number): void {
     TurretProjectile.ownerEid[pid] = tid;
     TurretProjectile.parentShipEid[pid] = parentEid;
     TurretProjectile.damage[pid] = Turret.damage[tid] ?? 10;
+    TurretProjectile.ion[pid] = getTurretIon(Turret.turretType[tid] ?? 0);
     TurretProjectile.turretType[pid] = Turret.turretType[tid] ?? 0;
+    TurretProjectile.aimEid[pid] = hasComponent(world, Subsystem, targetEid) ? targetEid : -1;
 
     // Fire event for rendering
     const team = Team.id[parentEid] ?? 0;
@@ -985,9 +1408,16 @@ export function turretProjectileSystem(world: IWorld, dt: number): void {
       const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
       if (dist < r + 2) {
-        // Hit!
+        // Hit! Capital ships take it on their shield arcs and hull sections
         const damage = TurretProjectile.damage[pid] ?? 10;
-        Health.hp[fid] = (Health.hp[fid] ?? 0) - damage;
+        const ion = TurretProjectile.ion[pid] ?? 0;
+        const aimEid = TurretProjectile.aimEid[pid] ?? -1;
+        applyIonDamage(world, fid, ion);
+        if (hasComponent(world, CapitalShipV2, fid)) {
+          applyCapitalShipDamage(world, fid, damage, px, py, pz, aimEid);
+        } else {
+          Health.hp[fid] = (Health.hp[fid] ?? 0) - damage;
+        }
         removeEntity(world, pid);
         break;
       }
@@ -1065,12 +1495,530 @@ export function subsystemEffectsSystem(world: IWorld, _dt: number): void {
   for (const sid of subsystems) {
     Health.hp[sid] = Subsystem.hp[sid] ?? 0;
   }
+
+  // Ion: a locked-up subsystem is offline until its charge clears, and a
+  // locked-up hull takes every system down with it
+  for (const eid of capitalShipQuery(world)) {
+    CapitalShipV2.ionOffline[eid] = isIonLocked(eid) ? ALL_SUBSYSTEMS : 0;
+  }
+  for (const sid of subsystems) {
+    const parentEid = Subsystem.parentEid[sid] ?? -1;
+    if (parentEid < 0 || !isIonLocked(sid)) continue;
+    CapitalShipV2.ionOffline[parentEid] =
+      (CapitalShipV2.ionOffline[parentEid] ?? 0) | (1 << (Subsystem.subsystemType[sid] ?? 0));
+  }
 }
 
+/** Every SubsystemType bit set */
+const ALL_SUBSYSTEMS = (1 << (SubsystemType.Hangar + 1)) - 1;
+
 /**
- * Remove a capital ship and all its child entities.
+ * True while ion charge has knocked the ship's subsystem of this type offline
+ * (set by subsystemEffectsSystem).
+ */
+export function isIonOffline(shipEid: number, type: SubsystemType): boolean {
+  return ((CapitalShipV2.ionOffline[shipEid] ?? 0) & (1 << type)) !== 0;
+}
+
+/**
+ * Hangar bays - launch squadrons from the fighter complement while there's
+ * room in the air, and take back fighters that fly home badly damaged
+ * (repaired, they rejoin the complement). A disabled Hangar subsystem or a
+ * lost carrier does neither, and its fighters fight on; an ion-locked one
+ * holds both until it comes back.
+ */
+export function hangarSystem(world: IWorld, dt: number): void {
+  airborneByHangar.clear();
+
+  for (const eid of carrierFighterQuery(world)) {
+    const hangar = CarrierFighter.hangarEid[eid] ?? -1;
+    if (hangar < 0) continue;
+    if (!isHangarOperational(world, hangar)) {
+      CarrierFighter.hangarEid[eid] = -1;
+      if (CarrierFighter.returning[eid]) {
+        CarrierFighter.returning[eid] = 0;
+        setFighterState(eid, AIState.Acquire);
+      }
+      continue;
+    }
+
+    const hull = Health.hp[eid] ?? 0;
+    if (!CarrierFighter.returning[eid] && hull > 0 && hull < (Health.maxHp[eid] ?? 0) * RECOVER_HULL_FRACTION) {
+      // Peel off from the squadron and head home
+      if (hasComponent(world, SquadronMember, eid)) removeComponent(world, SquadronMember, eid);
+      CarrierFighter.returning[eid] = 1;
+      FighterBrain.targetEid[eid] = -1;
+      setFighterState(eid, AIState.Dock);
+    }
+
+    if (CarrierFighter.returning[eid] && flyToHangar(eid, hangar, dt) && !isHangarIonized(hangar)) {
+      HangarBay.complement[hangar] = Math.min(HangarBay.capacity[hangar] ?? 0, (HangarBay.complement[hangar] ?? 0) + 1);
+      hangarRecoveryEvents.push({ shipEid: Subsystem.parentEid[hangar] ?? -1, hangarEid: hangar, fighterEid: eid });
+      removeEntity(world, eid);
+      continue;
+    }
+
+    airborneByHangar.set(hangar, (airborneByHangar.get(hangar) ?? 0) + 1);
+  }
+
+  for (const shipEid of capitalShipQuery(world)) {
+    CapitalShipV2.hangarCurrent[shipEid] = 0;
+  }
+
+  for (const sid of hangarQuery(world)) {
+    const shipEid = Subsystem.parentEid[sid] ?? -1;
+    const airborne = airborneByHangar.get(sid) ?? 0;
+    HangarBay.airborne[sid] = airborne;
+    if (!isHangarOperational(world, sid)) continue;
+    CapitalShipV2.hangarCurrent[shipEid] = (CapitalShipV2.hangarCurrent[shipEid] ?? 0) + (HangarBay.complement[sid] ?? 0);
+    if (isHangarIonized(sid)) continue;
+
+    // An expired timer waits for fighters aboard and room in the air
+    const timer = Math.max(0, (HangarBay.launchTimer[sid] ?? 0) - dt);
+    HangarBay.launchTimer[sid] = timer;
+    if (timer > 0) continue;
+    const count = Math.min(
+      HangarBay.squadronSize[sid] ?? SQUADRON_SIZE,
+      HangarBay.complement[sid] ?? 0,
+      (HangarBay.maxAirborne[sid] ?? 0) - airborne
+    );
+    if (count <= 0) continue;
+
+    launchSquadron(world, sid, count);
+    HangarBay.launchTimer[sid] = HangarBay.launchInterval[sid] ?? 15;
+  }
+}
+
+function isHangarOperational(world: IWorld, sid: number): boolean {
+  return hasComponent(world, HangarBay, sid) &&
+    Subsystem.disabled[sid] !== 1 &&
+    (Subsystem.hp[sid] ?? 0) > 0 &&
+    hasComponent(world, CapitalShipV2, Subsystem.parentEid[sid] ?? -1);
+}
+
+/** An ion-locked bay (or carrier) neither launches nor recovers until it clears */
+function isHangarIonized(sid: number): boolean {
+  return isIonLocked(sid) || isIonLocked(Subsystem.parentEid[sid] ?? -1);
+}
+
+/**
+ * Launch `count` fighters in a wedge along the bay's launch vector.
+ */
+function launchSquadron(world: IWorld, sid: number, count: number): void {
+  const shipEid = Subsystem.parentEid[sid] ?? -1;
+  const team = Team.id[shipEid] ?? 1;
+  const archetype = FIGHTER_ARCHETYPES[HangarBay.archetype[sid] ?? 0] ?? FIGHTER_ARCHETYPES[0]!;
+
+  // Launch vector in world space, and a heading with the nose along it
+  tmpQ.set(
+    Transform.qx[shipEid] ?? 0,
+    Transform.qy[shipEid] ?? 0,
+    Transform.qz[shipEid] ?? 0,
+    Transform.qw[shipEid] ?? 1
+  );
+  tmpV.set(
+    HangarBay.launchDirX[sid] ?? 0,
+    HangarBay.launchDirY[sid] ?? 0,
+    HangarBay.launchDirZ[sid] ?? -1
+  ).applyQuaternion(tmpQ).normalize();
+  tmpLaunchQ.setFromUnitVectors(tmpForward.set(0, 0, -1), tmpV);
+
+  const clearance = (Subsystem.hitRadius[sid] ?? 10) + LAUNCH_CLEARANCE;
+  tmpV2.set(
+    (Transform.x[sid] ?? 0) + tmpV.x * clearance,
+    (Transform.y[sid] ?? 0) + tmpV.y * clearance,
+    (Transform.z[sid] ?? 0) + tmpV.z * clearance
+  );
+  tmpV3.set(
+    (Velocity.vx[shipEid] ?? 0) + tmpV.x * LAUNCH_SPEED,
+    (Velocity.vy[shipEid] ?? 0) + tmpV.y * LAUNCH_SPEED,
+    (Velocity.vz[shipEid] ?? 0) + tmpV.z * LAUNCH_SPEED
+  );
+
+  const eids: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const eid = spawnCarrierFighter(world, sid, team, archetype, i / count);
+    eids.push(eid);
+    hangarLaunchEvents.push({ shipEid, hangarEid: sid, fighterEid: eid, archetype: archetype.id, team });
+  }
+  HangarBay.complement[sid] = (HangarBay.complement[sid] ?? 0) - count;
+
+  // TIEs open with a pincer, as in the scripted waves
+  const sq = createSquadron(world, eids, FormationShape.Wedge, { pincer: archetype.id.startsWith("tie") });
+  arrangeFormation(world, sq);
+}
+
+/**
+ * Spawn one launched fighter at the launch point (tmpV2) with the launch
+ * heading (tmpLaunchQ) and velocity (tmpV3).
+ */
+function spawnCarrierFighter(
+  world: IWorld,
+  hangarEid: number,
+  team: number,
+  archetype: FighterArchetype,
+  stagger: number
+): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, AngularVelocity, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Ship, eid);
+  addComponent(world, LaserWeapon, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, Shield, eid);
+  addComponent(world, FighterBrain, eid);
+  addComponent(world, AIControlled, eid);
+  addComponent(world, CarrierFighter, eid);
+
+  Transform.x[eid] = tmpV2.x;
+  Transform.y[eid] = tmpV2.y;
+  Transform.z[eid] = tmpV2.z;
+  Transform.qx[eid] = tmpLaunchQ.x;
+  Transform.qy[eid] = tmpLaunchQ.y;
+  Transform.qz[eid] = tmpLaunchQ.z;
+  Transform.qw[eid] = tmpLaunchQ.w;
+
+  Velocity.vx[eid] = tmpV3.x;
+  Velocity.vy[eid] = tmpV3.y;
+  Velocity.vz[eid] = tmpV3.z;
+
+  AngularVelocity.wx[eid] = 0;
+  AngularVelocity.wy[eid] = 0;
+  AngularVelocity.wz[eid] = 0;
+
+  Team.id[eid] = team;
+
+  Ship.throttle[eid] = LAUNCH_THROTTLE;
+  Ship.maxSpeed[eid] = archetype.maxSpeed;
+  Ship.accel[eid] = archetype.accel;
+  Ship.turnRate[eid] = archetype.turnRate;
+
+  LaserWeapon.cooldown[eid] = archetype.weaponCooldown;
+  LaserWeapon.cooldownRemaining[eid] = archetype.weaponCooldown * stagger;
+  LaserWeapon.projectileSpeed[eid] = archetype.projectileSpeed;
+  LaserWeapon.damage[eid] = archetype.damage;
+
+  Health.hp[eid] = archetype.hp;
+  Health.maxHp[eid] = archetype.hp;
+  HitRadius.r[eid] = archetype.hitRadius;
+
+  Shield.maxSp[eid] = archetype.id === "tie_ln" ? 10 : 25;
+  Shield.sp[eid] = Shield.maxSp[eid];
+  Shield.regenRate[eid] = 4;
+  Shield.lastHit[eid] = 999;
+
+  FighterBrain.state[eid] = AIState.Acquire;
+  FighterBrain.stateTime[eid] = 0;
+  FighterBrain.aggression[eid] = archetype.aggression;
+  FighterBrain.evadeBias[eid] = archetype.evadeBias;
+  FighterBrain.targetEid[eid] = -1;
+
+  CarrierFighter.hangarEid[eid] = hangarEid;
+  CarrierFighter.returning[eid] = 0;
+
+  return eid;
+}
+
+/**
+ * Steer a returning fighter into its bay. True once it is close enough to
+ * be taken aboard.
+ */
+function flyToHangar(eid: number, hangar: number, dt: number): boolean {
+  const dx = (Transform.x[hangar] ?? 0) - (Transform.x[eid] ?? 0);
+  const dy = (Transform.y[hangar] ?? 0) - (Transform.y[eid] ?? 0);
+  const dz = (Transform.z[hangar] ?? 0) - (Transform.z[eid] ?? 0);
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (dist <= RECOVER_RADIUS) return true;
+
+  steerTowards(eid, dx, dy, dz);
+  setThrottle(eid, dist < RECOVER_APPROACH ? 0.35 : 0.9, dt);
+  return false;
+}
+
+function setFighterState(eid: number, state: AIState): void {
+  FighterBrain.state[eid] = state;
+  FighterBrain.stateTime[eid] = 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DESTRUCTION SEQUENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Destroy a capital ship: it stops being a CapitalShipV2 (turrets, subsystems
+ * and weak points go with it) and starts coming apart. The section that gave
+ * out blows first; capitalDestructionSystem does the rest.
+ */
+export function destroyCapitalShipV2(world: IWorld, shipEid: number): void {
+  if (!hasComponent(world, CapitalShipV2, shipEid)) return;
+
+  // The weakest section gives out first
+  let firstSection = 0;
+  let weakest = Infinity;
+  for (let i = 0; i < HULL_SECTIONS.length; i++) {
+    const fraction = (HULL_SECTIONS[i]![shipEid] ?? 0) / (HULL_SECTION_MAX[i]![shipEid] || 1);
+    if (fraction < weakest) {
+      weakest = fraction;
+      firstSection = i;
+    }
+  }
+
+  const sites: Array<[number, number, number]> = [];
+  for (const sid of subsystemQuery(world)) {
+    if (Subsystem.parentEid[sid] !== shipEid) continue;
+    sites.push([Subsystem.offsetX[sid] ?? 0, Subsystem.offsetY[sid] ?? 0, Subsystem.offsetZ[sid] ?? 0]);
+  }
+  secondarySites.set(shipEid, sites);
+
+  const shipClass = CapitalShipV2.shipClass[shipEid] ?? ShipClass.Corvette;
+  const length = CapitalShipV2.length[shipEid] ?? 0;
+  removeCapitalShipChildren(world, shipEid);
+
+  // Out of the fight: nothing targets or counts the hull any more, but it
+  // keeps its HitRadius as an obstacle while it burns
+  removeComponent(world, CapitalShipV2, shipEid);
+  removeComponent(world, Health, shipEid);
+  removeComponent(world, Targetable, shipEid);
+  removeComponent(world, Team, shipEid);
+  addComponent(world, Obstacle, shipEid);
+
+  const seed = Math.imul(shipEid + 1, 2654435761) >>> 0;
+  const rng = new SeededRNG(seed);
+  addComponent(world, AngularVelocity, shipEid);
+  AngularVelocity.wx[shipEid] = rng.range(-DYING_LIST_RATE, DYING_LIST_RATE) * 0.5;
+  AngularVelocity.wy[shipEid] = 0;
+  AngularVelocity.wz[shipEid] = rng.range(-DYING_LIST_RATE, DYING_LIST_RATE);
+
+  addComponent(world, CapitalDestruction, shipEid);
+  CapitalDestruction.shipClass[shipEid] = shipClass;
+  CapitalDestruction.length[shipEid] = length;
+  CapitalDestruction.elapsed[shipEid] = 0;
+  CapitalDestruction.firstSection[shipEid] = firstSection;
+  CapitalDestruction.sectionsFailed[shipEid] = 0;
+  CapitalDestruction.secondaryTimer[shipEid] = SECONDARY_INTERVAL;
+  CapitalDestruction.seed[shipEid] = seed;
+
+  failNextSection(world, shipEid);
+}
+
+/**
+ * Run destruction sequences and drift the wreckage.
+ *
+ * Capital ships brought to zero hull by fighter lasers or torpedoes start
+ * their sequence here. Dying hulls lose a section every SECTION_FAIL_INTERVAL
+ * while secondary explosions work through their subsystems, then break into
+ * three WreckHulk pieces. Every blast damages fighters caught in it.
+ */
+export function capitalDestructionSystem(world: IWorld, dt: number): void {
+  for (const eid of capitalShipQuery(world)) {
+    if ((Health.hp[eid] ?? 0) <= 0) destroyCapitalShipV2(world, eid);
+  }
+
+  for (const eid of dyingShipQuery(world)) {
+    driftWreck(eid, dt);
+    const elapsed = (CapitalDestruction.elapsed[eid] ?? 0) + dt;
+    CapitalDestruction.elapsed[eid] = elapsed;
+    const length = CapitalDestruction.length[eid] ?? 0;
+
+    // Secondary explosions work through the subsystems
+    const sites = secondarySites.get(eid);
+    const secondaryTimer = (CapitalDestruction.secondaryTimer[eid] ?? 0) - dt;
+    CapitalDestruction.secondaryTimer[eid] = secondaryTimer;
+    if (sites && sites.length > 0 && secondaryTimer <= 0) {
+      const [ox, oy, oz] = sites.shift()!;
+      localToWorld(eid, ox, oy, oz, tmpV3);
+      explode(world, eid, "secondary", tmpV3.x, tmpV3.y, tmpV3.z, length, SECONDARY_BLAST);
+      CapitalDestruction.secondaryTimer[eid] = SECONDARY_INTERVAL;
+    }
+
+    while (
+      (CapitalDestruction.sectionsFailed[eid] ?? 0) < 3 &&
+      elapsed >= (CapitalDestruction.sectionsFailed[eid] ?? 0) * SECTION_FAIL_INTERVAL
+    ) {
+      failNextSection(world, eid);
+    }
+
+    if (elapsed >= 2 * SECTION_FAIL_INTERVAL + BREAKUP_DELAY) {
+      breakUpWreck(world, eid);
+    }
+  }
+
+  for (const eid of wreckHulkQuery(world)) {
+    driftWreck(eid, dt);
+  }
+}
+
+/**
+ * Remove every dying hull and wreck hulk (scenario teardown).
+ */
+export function clearCapitalWrecks(world: IWorld): void {
+  for (const eid of dyingShipQuery(world)) removeEntity(world, eid);
+  for (const eid of wreckHulkQuery(world)) removeEntity(world, eid);
+  secondarySites.clear();
+}
+
+function failNextSection(world: IWorld, eid: number): void {
+  const failed = CapitalDestruction.sectionsFailed[eid] ?? 0;
+  if (failed >= 3) return;
+  const order = SECTION_FAIL_ORDER[CapitalDestruction.firstSection[eid] ?? 0] ?? SECTION_FAIL_ORDER[0];
+  const section = order[failed]!;
+  CapitalDestruction.sectionsFailed[eid] = failed + 1;
+
+  const length = CapitalDestruction.length[eid] ?? 0;
+  localToWorld(eid, 0, 0, ((section - 1) * length) / 3, tmpV3);
+  explode(world, eid, "section", tmpV3.x, tmpV3.y, tmpV3.z, length, SECTION_BLAST);
+}
+
+/**
+ * Split a dying hull into fore, mid and aft pieces and remove it.
+ */
+function breakUpWreck(world: IWorld, eid: number): void {
+  const shipClass = CapitalDestruction.shipClass[eid] ?? ShipClass.Corvette;
+  const length = CapitalDestruction.length[eid] ?? 0;
+  const pieceLength = length / 3;
+  const rng = new SeededRNG((CapitalDestruction.seed[eid] ?? 0) + 1);
+
+  explode(world, eid, "breakup", Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0, length, BREAKUP_BLAST);
+
+  tmpQ.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+  tmpForward.set(0, 0, -1).applyQuaternion(tmpQ);
+
+  const hulkEids: number[] = [];
+  for (let section = 0; section < 3; section++) {
+    const hulk = addEntity(world);
+    addComponent(world, Transform, hulk);
+    addComponent(world, Velocity, hulk);
+    addComponent(world, AngularVelocity, hulk);
+    addComponent(world, HitRadius, hulk);
+    addComponent(world, Obstacle, hulk);
+    addComponent(world, WreckHulk, hulk);
+
+    localToWorld(eid, 0, 0, (section - 1) * pieceLength, tmpV3);
+    Transform.x[hulk] = tmpV3.x;
+    Transform.y[hulk] = tmpV3.y;
+    Transform.z[hulk] = tmpV3.z;
+    Transform.qx[hulk] = tmpQ.x;
+    Transform.qy[hulk] = tmpQ.y;
+    Transform.qz[hulk] = tmpQ.z;
+    Transform.qw[hulk] = tmpQ.w;
+
+    // Fore piece carries on forward, aft piece falls back, mid just drifts
+    const push = (1 - section) * HULK_SEPARATION_SPEED;
+    Velocity.vx[hulk] = (Velocity.vx[eid] ?? 0) + tmpForward.x * push + rng.range(-1, 1) * HULK_SCATTER_SPEED;
+    Velocity.vy[hulk] = (Velocity.vy[eid] ?? 0) + tmpForward.y * push + rng.range(-1, 1) * HULK_SCATTER_SPEED;
+    Velocity.vz[hulk] = (Velocity.vz[eid] ?? 0) + tmpForward.z * push + rng.range(-1, 1) * HULK_SCATTER_SPEED;
+
+    AngularVelocity.wx[hulk] = rng.range(-HULK_TUMBLE_RATE, HULK_TUMBLE_RATE);
+    AngularVelocity.wy[hulk] = rng.range(-HULK_TUMBLE_RATE, HULK_TUMBLE_RATE);
+    AngularVelocity.wz[hulk] = rng.range(-HULK_TUMBLE_RATE, HULK_TUMBLE_RATE);
+
+    HitRadius.r[hulk] = pieceLength / 2;
+    WreckHulk.shipClass[hulk] = shipClass;
+    WreckHulk.section[hulk] = section;
+    WreckHulk.length[hulk] = pieceLength;
+    hulkEids.push(hulk);
+  }
+
+  capitalBreakupEvents.push({ shipEid: eid, shipClass, hulkEids });
+  secondarySites.delete(eid);
+  removeEntity(world, eid);
+}
+
+/**
+ * Emit an explosion and damage every fighter inside its blast radius,
+ * falling off linearly from the centre to the edge. Shields soak it first.
+ * Every fighter caught is reported as a blast impact so kills get credited
+ * without counting as shots for accuracy.
+ */
+function explode(
+  world: IWorld,
+  shipEid: number,
+  kind: CapitalExplosionEvent["kind"],
+  x: number,
+  y: number,
+  z: number,
+  length: number,
+  blast: { radiusFactor: number; minRadius: number; damage: number }
+): void {
+  const radius = Math.max(blast.minRadius, length * blast.radiusFactor);
+  capitalExplosionEvents.push({ shipEid, kind, x, y, z, radius });
+
+  for (const fid of spaceCombatIndex.queryCombatants(x, y, z, radius)) {
+    if (!hasComponent(world, Ship, fid) || !hasComponent(world, Health, fid)) continue;
+    const dx = (Transform.x[fid] ?? 0) - x;
+    const dy = (Transform.y[fid] ?? 0) - y;
+    const dz = (Transform.z[fid] ?? 0) - z;
+    const gap = Math.max(0, Math.sqrt(dx * dx + dy * dy + dz * dz) - (HitRadius.r[fid] ?? 0));
+    if (gap >= radius) continue;
+
+    let damage = blast.damage * (1 - gap / radius);
+    if (hasComponent(world, Shield, fid)) {
+      const soaked = Math.min(Shield.sp[fid] ?? 0, damage);
+      Shield.sp[fid] = (Shield.sp[fid] ?? 0) - soaked;
+      Shield.lastHit[fid] = 0;
+      damage -= soaked;
+    }
+    Health.hp[fid] = (Health.hp[fid] ?? 0) - damage;
+
+    // The dying hull is the shooter
+    const killed = (Health.hp[fid] ?? 0) <= 0;
+    pushImpactEvent({
+      kind: "blast", x: Transform.x[fid] ?? 0, y: Transform.y[fid] ?? 0, z: Transform.z[fid] ?? 0,
+      team: -1, killed: killed ? 1 : 0, shooter: shipEid, victim: fid
+    });
+    if (killed) removeEntity(world, fid);
+  }
+}
+
+/** Dead-reckon a wreck along its velocity and tumble it by its angular velocity */
+function driftWreck(eid: number, dt: number): void {
+  Transform.x[eid] = (Transform.x[eid] ?? 0) + (Velocity.vx[eid] ?? 0) * dt;
+  Transform.y[eid] = (Transform.y[eid] ?? 0) + (Velocity.vy[eid] ?? 0) * dt;
+  Transform.z[eid] = (Transform.z[eid] ?? 0) + (Velocity.vz[eid] ?? 0) * dt;
+
+  tmpQ.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+  tmpDriftEuler.set(
+    (AngularVelocity.wx[eid] ?? 0) * dt,
+    (AngularVelocity.wy[eid] ?? 0) * dt,
+    (AngularVelocity.wz[eid] ?? 0) * dt,
+    "XYZ"
+  );
+  tmpDriftQ.setFromEuler(tmpDriftEuler);
+  tmpQ.multiply(tmpDriftQ).normalize();
+  Transform.qx[eid] = tmpQ.x;
+  Transform.qy[eid] = tmpQ.y;
+  Transform.qz[eid] = tmpQ.z;
+  Transform.qw[eid] = tmpQ.w;
+}
+
+/** World position of a point given in an entity's local frame */
+function localToWorld(eid: number, lx: number, ly: number, lz: number, out: Vector3): Vector3 {
+  tmpDriftQ.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+  out.set(lx, ly, lz).applyQuaternion(tmpDriftQ);
+  out.x += Transform.x[eid] ?? 0;
+  out.y += Transform.y[eid] ?? 0;
+  out.z += Transform.z[eid] ?? 0;
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLEANUP
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Remove a capital ship and all its child entities at once, with no
+ * destruction sequence (scenario teardown).
  */
 export function removeCapitalShipV2(world: IWorld, shipEid: number): void {
+  removeCapitalShipChildren(world, shipEid);
+  secondarySites.delete(shipEid);
+  removeEntity(world, shipEid);
+}
+
+function removeCapitalShipChildren(world: IWorld, shipEid: number): void {
   // Remove turrets
   const turrets = turretQuery(world);
   for (const tid of turrets) {
@@ -1094,7 +2042,4 @@ export function removeCapitalShipV2(world: IWorld, shipEid: number): void {
       removeEntity(world, wid);
     }
   }
-
-  // Remove ship
-  removeEntity(world, shipEid);
 }
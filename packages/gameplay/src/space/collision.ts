@@ -0,0 +1,464 @@
+/**
+ * Space Collision - fighters against capital hulls, wreckage, debris and
+ * each other
+ *
+ * Broad phase is the unified spaceCombatIndex. Capital ships, alive or
+ * coming apart, are tested as oriented boxes sized from their length;
+ * everything else (fighters, wreck hulks, debris) is a HitRadius sphere.
+ * A fighter that hits something is pushed back out and either bounces off
+ * (steep hits) or scrapes along the surface (shallow ones), taking damage
+ * from the closing speed. Capital hulls don't take ramming damage.
+ *
+ * Also provides the look-ahead avoidance dogfightAISystem steers with.
+ *
+ * Isolated from main systems.ts to prevent god script bloat.
+ */
+
+import { IWorld, addComponent, addEntity, defineQuery, hasComponent, removeEntity } from "bitecs";
+import { Quaternion, Vector3 } from "@xwingz/core";
+import { Health, HitRadius, Obstacle, Shield, Ship, Team, Transform, Velocity } from "./components";
+import { CapitalDestruction, CapitalShipV2, CarrierFighter, ShipClass, Subsystem } from "./capital-components";
+import { spaceCombatIndex } from "./spatial-index";
+import { pushImpactEvent } from "./impact-events";
+import { isTransitioning } from "../transition/sequence";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EVENTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CollisionEvent = {
+  eid: number;        // fighter that hit something
+  other: number;      // what it hit (a fighter, hull, hulk or debris)
+  x: number;          // contact point
+  y: number;
+  z: number;
+  impactSpeed: number; // closing speed along the contact normal
+  damage: number;      // damage to the fighter, before shields
+  scrape: 0 | 1;       // 1 for a glancing scrape, 0 for a bounce
+  killed: 0 | 1;       // fighter destroyed (already removed)
+};
+
+const collisionEvents: CollisionEvent[] = [];
+
+export function consumeCollisionEvents(): CollisionEvent[] {
+  return collisionEvents.splice(0, collisionEvents.length);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// QUERIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const fighterQuery = defineQuery([Ship, Transform, Velocity, HitRadius, Health]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// COLLISION TUNING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Closing speed (units/sec) a fighter shrugs off, e.g. nudging a wingman */
+const SAFE_IMPACT_SPEED = 40;
+/** Damage per unit/sec of closing speed above the safe speed */
+const RAM_DAMAGE_PER_SPEED = 3;
+/** Hits shallower than this (sine of the angle to the surface) scrape */
+const SCRAPE_MAX_STEEPNESS = 0.35;
+/** Fraction of the sliding speed a scrape takes off */
+const SCRAPE_FRICTION = 0.15;
+/** Normal speed kept after a bounce */
+const BOUNCE_RESTITUTION = 0.4;
+
+/**
+ * Hull box half-width and half-height per ShipClass, as fractions of the
+ * ship's length (the half-length is always 0.5). Matches the turret and
+ * subsystem layouts so the box covers the hull they sit on.
+ */
+const HULL_PROPORTIONS: Record<ShipClass, { halfWidth: number; halfHeight: number }> = {
+  [ShipClass.Corvette]: { halfWidth: 0.15, halfHeight: 0.1 },
+  [ShipClass.Frigate]: { halfWidth: 0.12, halfHeight: 0.12 },
+  [ShipClass.Cruiser]: { halfWidth: 0.16, halfHeight: 0.1 },
+  [ShipClass.Destroyer]: { halfWidth: 0.2, halfHeight: 0.07 },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// AVOIDANCE TUNING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Seconds of flight path the AI checks for obstacles */
+const AVOID_LOOKAHEAD = 1.5;
+/** Shortest look-ahead distance, for slow fighters */
+const AVOID_MIN_DISTANCE = 60;
+/** Clearance the AI wants between its hull and an obstacle */
+const AVOID_MARGIN = 20;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TEMP OBJECTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const tmpQ = new Quaternion();
+const tmpInvQ = new Quaternion();
+const tmpLocal = new Vector3();
+const tmpNormal = new Vector3();
+const tmpAhead = new Vector3();
+const tmpAway = new Vector3();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OBSTACLES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Spawn a static spherical obstacle (asteroid, debris) fighters collide
+ * with and the AI flies around.
+ */
+export function spawnObstacle(world: IWorld, x: number, y: number, z: number, radius: number): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, Obstacle, eid);
+
+  Transform.x[eid] = x;
+  Transform.y[eid] = y;
+  Transform.z[eid] = z;
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  HitRadius.r[eid] = radius;
+
+  return eid;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SYSTEMS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve fighters overlapping capital hulls, wreckage, debris and other
+ * fighters. Run after the spatial index is rebuilt for the frame.
+ *
+ * Fighter pairs are resolved once, splitting the push and impulse between
+ * them; both take the ramming damage. Returning carrier fighters pass into
+ * their own carrier, and ships in a landing or launch sequence are left alone.
+ */
+export function spaceCollisionSystem(world: IWorld): void {
+  for (const eid of fighterQuery(world)) {
+    if (!hasComponent(world, Ship, eid) || isTransitioning(world, eid)) continue;
+
+    const r = HitRadius.r[eid] ?? 0;
+    const nearby = spaceCombatIndex.queryColliders(
+      Transform.x[eid] ?? 0,
+      Transform.y[eid] ?? 0,
+      Transform.z[eid] ?? 0,
+      r
+    );
+
+    for (const other of nearby) {
+      if (other === eid || !hasComponent(world, Ship, eid)) continue;
+      if (!hasComponent(world, Transform, other)) continue;
+
+      const fighterPair = hasComponent(world, Ship, other);
+      if (fighterPair && (other < eid || isTransitioning(world, other))) continue;
+      if (!fighterPair && !isCollider(world, other)) continue;
+      if (isEnteringCarrier(world, eid, other)) continue;
+
+      const gap = surfaceDistance(
+        world,
+        other,
+        Transform.x[eid] ?? 0,
+        Transform.y[eid] ?? 0,
+        Transform.z[eid] ?? 0,
+        tmpNormal
+      );
+      const penetration = r - gap;
+      if (penetration <= 0) continue;
+
+      resolveContact(world, eid, other, fighterPair, penetration, tmpNormal);
+    }
+  }
+}
+
+/**
+ * Steer-away direction for an AI fighter with an obstacle in its flight
+ * path: capital hulls, wreckage and debris within AVOID_LOOKAHEAD seconds
+ * at its current velocity. Writes the direction to `out` and returns how
+ * urgent it is (0 when the way ahead is clear, up to 1 just before impact).
+ * Other fighters are left to separation steering.
+ */
+export function computeObstacleAvoidance(world: IWorld, eid: number, out: Vector3): number {
+  out.set(0, 0, 0);
+
+  const sx = Transform.x[eid] ?? 0;
+  const sy = Transform.y[eid] ?? 0;
+  const sz = Transform.z[eid] ?? 0;
+  tmpAhead.set(Velocity.vx[eid] ?? 0, Velocity.vy[eid] ?? 0, Velocity.vz[eid] ?? 0);
+  const speed = tmpAhead.length();
+  if (speed < 1e-3) return 0;
+  tmpAhead.multiplyScalar(1 / speed);
+
+  const lookahead = Math.max(AVOID_MIN_DISTANCE, speed * AVOID_LOOKAHEAD);
+  const clearance = (HitRadius.r[eid] ?? 0) + AVOID_MARGIN;
+  let urgency = 0;
+
+  // Search around the middle of the path so the whole segment is covered
+  const half = lookahead / 2;
+  const nearby = spaceCombatIndex.queryColliders(
+    sx + tmpAhead.x * half,
+    sy + tmpAhead.y * half,
+    sz + tmpAhead.z * half,
+    half + clearance
+  );
+
+  for (const other of nearby) {
+    if (other === eid || hasComponent(world, Ship, other)) continue;
+    if (!hasComponent(world, Transform, other) || !isCollider(world, other)) continue;
+    if (isEnteringCarrier(world, eid, other)) continue;
+
+    // Point on the flight path closest to the obstacle's centre
+    const ox = (Transform.x[other] ?? 0) - sx;
+    const oy = (Transform.y[other] ?? 0) - sy;
+    const oz = (Transform.z[other] ?? 0) - sz;
+    const along = Math.min(lookahead, ox * tmpAhead.x + oy * tmpAhead.y + oz * tmpAhead.z);
+    if (along < 0) continue;
+
+    const gap = surfaceDistance(
+      world,
+      other,
+      sx + tmpAhead.x * along,
+      sy + tmpAhead.y * along,
+      sz + tmpAhead.z * along,
+      tmpAway
+    );
+    if (gap >= clearance) continue;
+
+    // Sooner and closer threats push harder
+    const threat = (1 - along / lookahead) * (1 - Math.max(0, gap) / clearance);
+    out.addScaledVector(tmpAway, Math.max(threat, 1e-3));
+    urgency = Math.max(urgency, threat);
+  }
+
+  if (out.lengthSq() < 1e-8) return 0;
+  out.normalize();
+  return urgency;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Capital hulls (alive or dying) and obstacles; subsystems and turrets ride on the hull */
+function isCollider(world: IWorld, eid: number): boolean {
+  return hasComponent(world, CapitalShipV2, eid) ||
+    hasComponent(world, CapitalDestruction, eid) ||
+    hasComponent(world, Obstacle, eid);
+}
+
+/** A damaged carrier fighter flying home passes into its carrier's hangar */
+function isEnteringCarrier(world: IWorld, eid: number, other: number): boolean {
+  if (!hasComponent(world, CarrierFighter, eid) || !CarrierFighter.returning[eid]) return false;
+  const hangar = CarrierFighter.hangarEid[eid] ?? -1;
+  return hangar >= 0 && hasComponent(world, Subsystem, hangar) && Subsystem.parentEid[hangar] === other;
+}
+
+/**
+ * Hull box half-extents for a capital ship or dying hull, or false for
+ * anything tested as a sphere.
+ */
+function hullExtents(world: IWorld, eid: number, out: Vector3): boolean {
+  let shipClass: ShipClass;
+  let length: number;
+  if (hasComponent(world, CapitalShipV2, eid)) {
+    shipClass = CapitalShipV2.shipClass[eid] ?? ShipClass.Corvette;
+    length = CapitalShipV2.length[eid] ?? 0;
+  } else if (hasComponent(world, CapitalDestruction, eid)) {
+    shipClass = CapitalDestruction.shipClass[eid] ?? ShipClass.Corvette;
+    length = CapitalDestruction.length[eid] ?? 0;
+  } else {
+    return false;
+  }
+
+  const proportions = HULL_PROPORTIONS[shipClass] ?? HULL_PROPORTIONS[ShipClass.Corvette];
+  out.set(length * proportions.halfWidth, length * proportions.halfHeight, length * 0.5);
+  return true;
+}
+
+/**
+ * Distance from a point to a collider's surface (negative inside it), with
+ * the outward surface normal nearest the point written to `normal`.
+ */
+function surfaceDistance(world: IWorld, eid: number, x: number, y: number, z: number, normal: Vector3): number {
+  const dx = x - (Transform.x[eid] ?? 0);
+  const dy = y - (Transform.y[eid] ?? 0);
+  const dz = z - (Transform.z[eid] ?? 0);
+
+  if (!hullExtents(world, eid, tmpLocal)) {
+    const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (dist < 1e-6) normal.set(0, 1, 0);
+    else normal.set(dx / dist, dy / dist, dz / dist);
+    return dist - (HitRadius.r[eid] ?? 0);
+  }
+
+  // Oriented box: work in the hull's local frame
+  const hx = tmpLocal.x;
+  const hy = tmpLocal.y;
+  const hz = tmpLocal.z;
+  tmpQ.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+  tmpInvQ.copy(tmpQ).invert();
+  tmpLocal.set(dx, dy, dz).applyQuaternion(tmpInvQ);
+
+  const ex = tmpLocal.x - clamp(tmpLocal.x, -hx, hx);
+  const ey = tmpLocal.y - clamp(tmpLocal.y, -hy, hy);
+  const ez = tmpLocal.z - clamp(tmpLocal.z, -hz, hz);
+  const outside = Math.sqrt(ex * ex + ey * ey + ez * ez);
+
+  let dist: number;
+  if (outside > 1e-6) {
+    normal.set(ex / outside, ey / outside, ez / outside);
+    dist = outside;
+  } else {
+    // Inside the box: out through the nearest face
+    const depthX = hx - Math.abs(tmpLocal.x);
+    const depthY = hy - Math.abs(tmpLocal.y);
+    const depthZ = hz - Math.abs(tmpLocal.z);
+    if (depthY <= depthX && depthY <= depthZ) {
+      normal.set(0, tmpLocal.y < 0 ? -1 : 1, 0);
+      dist = -depthY;
+    } else if (depthX <= depthZ) {
+      normal.set(tmpLocal.x < 0 ? -1 : 1, 0, 0);
+      dist = -depthX;
+    } else {
+      normal.set(0, 0, tmpLocal.z < 0 ? -1 : 1);
+      dist = -depthZ;
+    }
+  }
+
+  normal.applyQuaternion(tmpQ);
+  return dist;
+}
+
+/**
+ * Push a fighter out of whatever it hit, then bounce or scrape it and apply
+ * ramming damage. For fighter pairs the push, impulse and damage are shared.
+ */
+function resolveContact(
+  world: IWorld,
+  eid: number,
+  other: number,
+  fighterPair: boolean,
+  penetration: number,
+  normal: Vector3
+): void {
+  const share = fighterPair ? 0.5 : 1;
+
+  // Push apart along the contact normal
+  Transform.x[eid] = (Transform.x[eid] ?? 0) + normal.x * penetration * share;
+  Transform.y[eid] = (Transform.y[eid] ?? 0) + normal.y * penetration * share;
+  Transform.z[eid] = (Transform.z[eid] ?? 0) + normal.z * penetration * share;
+  if (fighterPair) {
+    Transform.x[other] = (Transform.x[other] ?? 0) - normal.x * penetration * share;
+    Transform.y[other] = (Transform.y[other] ?? 0) - normal.y * penetration * share;
+    Transform.z[other] = (Transform.z[other] ?? 0) - normal.z * penetration * share;
+  }
+
+  // Relative velocity; static debris has none of its own
+  const moving = hasComponent(world, Velocity, other);
+  const ovx = moving ? (Velocity.vx[other] ?? 0) : 0;
+  const ovy = moving ? (Velocity.vy[other] ?? 0) : 0;
+  const ovz = moving ? (Velocity.vz[other] ?? 0) : 0;
+  const rvx = (Velocity.vx[eid] ?? 0) - ovx;
+  const rvy = (Velocity.vy[eid] ?? 0) - ovy;
+  const rvz = (Velocity.vz[eid] ?? 0) - ovz;
+  const vn = rvx * normal.x + rvy * normal.y + rvz * normal.z;
+  if (vn >= 0) return; // already separating
+
+  const impactSpeed = -vn;
+  const relSpeed = Math.sqrt(rvx * rvx + rvy * rvy + rvz * rvz);
+  const scrape = impactSpeed < relSpeed * SCRAPE_MAX_STEEPNESS;
+
+  // Bounce: reflect the normal speed. Scrape: lose it and slide with friction.
+  const dvn = scrape ? impactSpeed : impactSpeed * (1 + BOUNCE_RESTITUTION);
+  const friction = scrape ? SCRAPE_FRICTION : 0;
+  applyImpulse(eid, normal, dvn * share, rvx, rvy, rvz, vn, friction * share);
+  if (fighterPair) {
+    applyImpulse(other, normal, -dvn * share, -rvx, -rvy, -rvz, -vn, friction * share);
+  }
+
+  const damage = Math.max(0, impactSpeed - SAFE_IMPACT_SPEED) * RAM_DAMAGE_PER_SPEED;
+  const x = (Transform.x[eid] ?? 0) - normal.x * (HitRadius.r[eid] ?? 0);
+  const y = (Transform.y[eid] ?? 0) - normal.y * (HitRadius.r[eid] ?? 0);
+  const z = (Transform.z[eid] ?? 0) - normal.z * (HitRadius.r[eid] ?? 0);
+  // Read both teams before either ship can be removed
+  const team = teamOf(world, eid);
+  const otherTeam = teamOf(world, other);
+
+  collisionEvents.push({
+    eid, other, x, y, z, impactSpeed, damage,
+    scrape: scrape ? 1 : 0,
+    killed: applyRamDamage(world, eid, damage, other, otherTeam, x, y, z) ? 1 : 0
+  });
+  if (fighterPair) {
+    collisionEvents.push({
+      eid: other, other: eid, x, y, z, impactSpeed, damage,
+      scrape: scrape ? 1 : 0,
+      killed: applyRamDamage(world, other, damage, eid, team, x, y, z) ? 1 : 0
+    });
+  }
+}
+
+/**
+ * Change a fighter's velocity by `dvn` along the normal and take `friction`
+ * off the sliding part of its (relative) velocity.
+ */
+function applyImpulse(
+  eid: number,
+  normal: Vector3,
+  dvn: number,
+  rvx: number,
+  rvy: number,
+  rvz: number,
+  vn: number,
+  friction: number
+): void {
+  const tx = rvx - normal.x * vn;
+  const ty = rvy - normal.y * vn;
+  const tz = rvz - normal.z * vn;
+  Velocity.vx[eid] = (Velocity.vx[eid] ?? 0) + normal.x * dvn - tx * friction;
+  Velocity.vy[eid] = (Velocity.vy[eid] ?? 0) + normal.y * dvn - ty * friction;
+  Velocity.vz[eid] = (Velocity.vz[eid] ?? 0) + normal.z * dvn - tz * friction;
+}
+
+/**
+ * Shields soak ramming damage first. The hit goes out as an impact event
+ * with what the fighter rammed as the shooter, so kills get credited.
+ * True if it destroyed the fighter.
+ */
+function applyRamDamage(
+  world: IWorld,
+  eid: number,
+  damage: number,
+  other: number,
+  otherTeam: number,
+  x: number,
+  y: number,
+  z: number
+): boolean {
+  if (damage <= 0) return false;
+
+  let hullDamage = damage;
+  if (hasComponent(world, Shield, eid)) {
+    const soaked = Math.min(Shield.sp[eid] ?? 0, damage);
+    Shield.sp[eid] = (Shield.sp[eid] ?? 0) - soaked;
+    Shield.lastHit[eid] = 0;
+    hullDamage -= soaked;
+  }
+  Health.hp[eid] = (Health.hp[eid] ?? 0) - hullDamage;
+
+  const killed = (Health.hp[eid] ?? 0) <= 0;
+  pushImpactEvent({ kind: "ram", x, y, z, team: otherTeam, killed: killed ? 1 : 0, shooter: other, victim: eid });
+  if (killed) removeEntity(world, eid);
+  return killed;
+}
+
+function teamOf(world: IWorld, eid: number): number {
+  return hasComponent(world, Team, eid) ? (Team.id[eid] ?? -1) : -1;
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
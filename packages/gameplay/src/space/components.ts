@@ -45,18 +45,27 @@ export const LaserWeapon = defineComponent({
 export const Projectile = defineComponent({
   life: Types.f32,   // seconds remaining
   owner: Types.i32,  // eid of firing ship
-  damage: Types.f32
+  damage: Types.f32,
+  ion: Types.f32     // ion charge per hit (ion cannon bolts), 0 for lasers
 });
 
+// Ion damage is its own channel: it drains shields and builds a charge that,
+// once it reaches maxHp, locks the ship or subsystem up for a while.
 export const Health = defineComponent({
   hp: Types.f32,
-  maxHp: Types.f32
+  maxHp: Types.f32,
+  ion: Types.f32,      // ion charge, bleeds off over time
+  ionLock: Types.f32   // seconds left disabled by an ion overload
 });
 
 export const HitRadius = defineComponent({
   r: Types.f32
 });
 
+// Mass ships can fly into but not shoot: debris, burning hulls, wreck hulks.
+// Sized by HitRadius.
+export const Obstacle = defineComponent();
+
 export const AIControlled = defineComponent();
 
 // Simple dogfight brain for AI fighters.
@@ -68,6 +77,53 @@ export const FighterBrain = defineComponent({
   targetEid: Types.i32    // -1 when none
 });
 
+/** Orders the flight leader can give an AI wingman (plain enum: the HUD reads it) */
+export enum WingmanCommand {
+  Escort = 0,           // back to escort duty, picking fights on their own
+  AttackTarget = 1,     // go after the leader's target
+  CoverMe = 2,          // stay on the leader and engage whatever comes at them
+  FormUp = 3,           // hold a formation slot, weapons cold
+  AttackSubsystems = 4  // strip turrets and generators off hostile capital ships
+}
+
+// Standing order on an AI wingman; wingmanCommandSystem turns it into FighterBrain targets.
+export const WingmanOrder = defineComponent({
+  command: Types.ui8,     // WingmanCommand
+  leaderEid: Types.i32,   // ship giving the orders, -1 when none
+  targetEid: Types.i32,   // AttackTarget: ordered target, -1 when none
+  slot: Types.ui8         // formation slot on the leader
+});
+
+/** What an AI squadron is doing as a group (plain enum: tests and HUD read it) */
+export enum SquadronTactic {
+  Transit = 0,  // in formation behind the leader
+  Engage = 1,   // broken into pairs, each pair on one target
+  Pincer = 2,   // flanks swinging wide around the target before closing
+  Scatter = 3   // mauled: every ship for itself
+}
+
+// Group of AI fighters flying and fighting together; members point at it.
+export const Squadron = defineComponent({
+  team: Types.i8,
+  leaderEid: Types.i32,     // -1 when wiped out
+  formation: Types.ui8,     // FormationShape
+  spacing: Types.f32,       // metres between slots
+  tactic: Types.ui8,        // SquadronTactic
+  tacticTime: Types.f32,    // seconds in current tactic
+  targetEid: Types.i32,     // what the squadron is going after, -1 when none
+  pincer: Types.ui8,        // 1 if it opens engagements with a pincer
+  aggression: Types.f32,    // 0..1, mean of members at creation
+  evadeBias: Types.f32,     // 0..1, mean of members at creation
+  startCount: Types.ui8,    // members at creation
+  memberCount: Types.ui8    // members still flying
+});
+
+export const SquadronMember = defineComponent({
+  squadronEid: Types.i32,   // -1 once it has left the squadron
+  slot: Types.ui8,          // formation slot, 0 = leader
+  flank: Types.i8           // Pincer side: -1 left, 1 right
+});
+
 export const Shield = defineComponent({
   sp: Types.f32,
   maxSp: Types.f32,
@@ -85,6 +141,16 @@ export const Targeting = defineComponent({
 
 export const PlayerControlled = defineComponent();
 
+// Rounds a ship has fired (laser bolts and torpedoes), for debrief accuracy.
+export const ShotCounter = defineComponent({
+  fired: Types.ui32
+});
+
+// Co-op: which player (room slot) flies this PlayerControlled ship.
+export const CoopPilot = defineComponent({
+  slot: Types.ui8
+});
+
 // Proton Torpedo Launcher - secondary weapon with lock-on
 export const TorpedoLauncher = defineComponent({
   ammo: Types.ui8,             // 4-6 typical for X-Wing
@@ -108,7 +174,15 @@ export const TorpedoProjectile = defineComponent({
   trackingStrength: Types.f32
 });
 
-// Weapon switching - 0=lasers, 1=torpedoes
+// Ion cannon - primary-trigger weapon that disables instead of destroying
+export const IonCannon = defineComponent({
+  cooldown: Types.f32,         // seconds between shots
+  cooldownRemaining: Types.f32,
+  projectileSpeed: Types.f32,  // slower than lasers (600)
+  ion: Types.f32               // ion charge per hit
+});
+
+// Weapon switching - 0=lasers, 1=torpedoes, 2=ion cannon (when fitted)
 export const WeaponLoadout = defineComponent({
-  activeWeapon: Types.ui8      // 0=primary (lasers), 1=secondary (torpedoes)
+  activeWeapon: Types.ui8      // 0=primary (lasers), 1=secondary (torpedoes), 2=ion cannon
 });
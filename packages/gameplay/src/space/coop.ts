@@ -0,0 +1,166 @@
+/**
+ * Co-op pilots
+ *
+ * In co-op every player flies their own PlayerControlled ship tagged with
+ * CoopPilot.slot. The input-driven flight systems read each ship's input
+ * through inputFor(): while pilot inputs are set for the tick (one per slot,
+ * in slot order, straight from the lockstep session) a tagged ship gets its
+ * slot's input, and everything else gets the input passed to the system - so
+ * single player is unchanged.
+ *
+ * Crewing one ship (snowspeeder pilot and tail gunner) needs no routing: the
+ * two players' input is merged into one with mergeCrewInput.
+ *
+ * Clients compare hashPilotShips rather than a whole-world snapshot: eid and
+ * entity order depend on what else each browser has loaded, while the pilot
+ * ships (moved, shot and shielded by everything else) are the same everywhere.
+ */
+
+import { IWorld, addComponent, defineQuery, hasComponent } from "bitecs";
+import { hashSnapshot, type WorldSnapshot } from "@xwingz/core";
+import { CoopPilot, Health, Shield, Ship, Transform, Velocity } from "./components";
+import type { SpaceInputState } from "./input";
+
+export const NEUTRAL_SPACE_INPUT: Readonly<SpaceInputState> = {
+  pitch: 0,
+  yaw: 0,
+  roll: 0,
+  throttleDelta: 0,
+  boost: false,
+  brake: false,
+  firePrimary: false,
+  fireSecondary: false,
+  switchWeapon: false,
+  cycleTarget: false,
+  hyperspace: false,
+  toggleMap: false,
+  land: false,
+  commandMenu: false,
+  orderAttack: false,
+  orderCover: false,
+  orderFormUp: false,
+  orderSubsystems: false,
+  orderEscort: false
+};
+
+let pilotInputs: readonly SpaceInputState[] | null = null;
+
+const pilotQuery = defineQuery([CoopPilot, Ship]);
+
+/**
+ * Inputs for this tick, indexed by slot; null outside co-op.
+ */
+export function setPilotInputs(inputs: readonly SpaceInputState[] | null): void {
+  pilotInputs = inputs;
+}
+
+/**
+ * Input driving `eid` this tick.
+ */
+export function inputFor(world: IWorld, eid: number, fallback: SpaceInputState): SpaceInputState {
+  if (!pilotInputs || !hasComponent(world, CoopPilot, eid)) return fallback;
+  return pilotInputs[CoopPilot.slot[eid] ?? 0] ?? fallback;
+}
+
+/**
+ * Hand a player ship to a room slot.
+ */
+export function assignCoopPilot(world: IWorld, eid: number, slot: number): void {
+  if (!hasComponent(world, CoopPilot, eid)) addComponent(world, CoopPilot, eid);
+  CoopPilot.slot[eid] = slot;
+}
+
+/**
+ * Hand a freshly spawned player ship to `slot` and put it alongside
+ * `leadEid`: `spacing` units further out on the lead's right wing per slot,
+ * same heading, speed and throttle.
+ */
+export function formUpCoopWingmate(world: IWorld, eid: number, leadEid: number, slot: number, spacing = 24): void {
+  assignCoopPilot(world, eid, slot);
+
+  const qx = Transform.qx[leadEid] ?? 0;
+  const qy = Transform.qy[leadEid] ?? 0;
+  const qz = Transform.qz[leadEid] ?? 0;
+  const qw = Transform.qw[leadEid] ?? 1;
+  // Lead's local +X in world space
+  const rx = 1 - 2 * (qy * qy + qz * qz);
+  const ry = 2 * (qx * qy + qw * qz);
+  const rz = 2 * (qx * qz - qw * qy);
+  const offset = spacing * slot;
+
+  Transform.x[eid] = (Transform.x[leadEid] ?? 0) + rx * offset;
+  Transform.y[eid] = (Transform.y[leadEid] ?? 0) + ry * offset;
+  Transform.z[eid] = (Transform.z[leadEid] ?? 0) + rz * offset;
+  Transform.qx[eid] = qx;
+  Transform.qy[eid] = qy;
+  Transform.qz[eid] = qz;
+  Transform.qw[eid] = qw;
+  Velocity.vx[eid] = Velocity.vx[leadEid] ?? 0;
+  Velocity.vy[eid] = Velocity.vy[leadEid] ?? 0;
+  Velocity.vz[eid] = Velocity.vz[leadEid] ?? 0;
+  Ship.throttle[eid] = Ship.throttle[leadEid] ?? 0;
+}
+
+/**
+ * Ship flown by `slot`, or null once it's been shot down.
+ */
+export function getPilotShip(world: IWorld, slot: number): number | null {
+  const pilots = pilotQuery(world);
+  for (let i = 0; i < pilots.length; i++) {
+    const eid = pilots[i]!;
+    if (CoopPilot.slot[eid] === slot) return eid;
+  }
+  return null;
+}
+
+/**
+ * One crewed ship: the pilot flies and fires the forward guns, the tail
+ * gunner works the harpoon and picks targets. Mode keys (map, hyperspace,
+ * land, wingman orders) stay with each player's own client and are dropped.
+ */
+export function mergeCrewInput(pilot: SpaceInputState, gunner: SpaceInputState): SpaceInputState {
+  return {
+    ...pilot,
+    fireSecondary: gunner.fireSecondary,
+    cycleTarget: gunner.cycleTarget,
+    switchWeapon: false,
+    hyperspace: false,
+    toggleMap: false,
+    land: false,
+    commandMenu: false,
+    orderAttack: false,
+    orderCover: false,
+    orderFormUp: false,
+    orderSubsystems: false,
+    orderEscort: false
+  };
+}
+
+/**
+ * Hash of every pilot ship's state, in slot order (shot-down ships included).
+ */
+export function hashPilotShips(world: IWorld, slots: number): string {
+  const entities: WorldSnapshot["entities"] = [];
+  for (let slot = 0; slot < slots; slot++) {
+    const eid = getPilotShip(world, slot);
+    if (eid === null) {
+      entities.push({});
+      continue;
+    }
+    entities.push({
+      Transform: {
+        x: Transform.x[eid] ?? 0,
+        y: Transform.y[eid] ?? 0,
+        z: Transform.z[eid] ?? 0,
+        qx: Transform.qx[eid] ?? 0,
+        qy: Transform.qy[eid] ?? 0,
+        qz: Transform.qz[eid] ?? 0,
+        qw: Transform.qw[eid] ?? 1
+      },
+      Velocity: { vx: Velocity.vx[eid] ?? 0, vy: Velocity.vy[eid] ?? 0, vz: Velocity.vz[eid] ?? 0 },
+      Health: { hp: Health.hp[eid] ?? 0 },
+      Shield: { sp: hasComponent(world, Shield, eid) ? Shield.sp[eid] ?? 0 : 0 }
+    });
+  }
+  return hashSnapshot({ entities });
+}
@@ -52,19 +52,18 @@
  */
 
 import type { IWorld } from "bitecs";
-import { hasComponent, removeEntity } from "bitecs";
+import { addComponent, hasComponent, removeComponent, removeEntity } from "bitecs";
 import { Vector3 } from "@xwingz/core";
 import type {
   CoruscantMissionDef,
   CoruscantMissionPhase,
   CoruscantDialogueTrigger,
   CoruscantWaveSpawnConfig,
-  CoruscantFighterArchetypeId,
-  CapitalShipPlacement,
-  BuzzDroidConfig,
-  BUZZDROID_CONFIG
+  CoruscantDifficulty,
+  MissionPhaseId
 } from "@xwingz/procgen";
 import {
+  BUZZDROID_CONFIG,
   createCoruscantBattleMission,
   getCoruscantFighterArchetype,
   getCapitalShip,
@@ -74,6 +73,11 @@ import {
 import { createRng, deriveSeed, type Seed } from "@xwingz/procgen";
 import { Transform, Health, Team, Ship } from "./components";
 import {
+  BoardingCraft,
+  BuzzDroidSwarm,
+  BuzzDroidVictim,
+  CloneWingman,
+  DroidBrain,
   spawnSeparatistFighter,
   spawnBuzzDroidSwarm,
   spawnCapitalShip,
@@ -86,12 +90,10 @@ import {
   turbolaserSystem,
   consumeWeakPointEvents,
   consumeBuzzDroidEvents,
-  consumeBoardingCraftEvents,
-  type CoruscantSpawnResult,
-  type WeakPointDestroyedEvent,
-  type BuzzDroidDamageEvent,
-  type BoardingCraftEvent
+  consumeBoardingCraftEvents
 } from "./coruscant-systems";
+import { formationShapeFromName } from "./formation";
+import { arrangeFormation, createSquadron } from "./squadron-systems";
 
 // ============================================================================
 // RUNTIME STATE
@@ -107,7 +109,9 @@ export type CoruscantRuntimeState = {
   capitalShipEids: Map<string, { shipEid: number; weakPointEids: number[] }>;
   enemyFighterEids: number[];
   allyFighterEids: number[];
+  wingmanCallsigns: Map<number, string>;
   boardingCraftEid: number | null;
+  boardingCraftProgress: number;
 
   // Wave management
   waveTimers: Map<number, number>;
@@ -148,7 +152,7 @@ export type CoruscantRuntimeState = {
 
 export function createCoruscantRuntime(
   seed: Seed,
-  difficulty: "easy" | "normal" | "hard" | "legendary" = "normal"
+  difficulty: CoruscantDifficulty = "normal"
 ): CoruscantRuntimeState {
   const mission = createCoruscantBattleMission(seed, difficulty);
 
@@ -161,7 +165,9 @@ export function createCoruscantRuntime(
     capitalShipEids: new Map(),
     enemyFighterEids: [],
     allyFighterEids: [],
+    wingmanCallsigns: new Map(),
     boardingCraftEid: null,
+    boardingCraftProgress: 0,
 
     waveTimers: new Map(),
     wavesTriggered: new Set(),
@@ -227,10 +233,13 @@ export function initializeCoruscantMission(
       weakPointConfigs
     );
 
-    state.capitalShipEids.set(
-      placement.displayName ?? placement.shipId,
-      result
-    );
+    // Unnamed escorts share a shipId, so suffix them to keep every hull tracked
+    const baseName = placement.displayName ?? placement.shipId;
+    let name = baseName;
+    for (let n = 2; state.capitalShipEids.has(name); n++) {
+      name = `${baseName}_${n}`;
+    }
+    state.capitalShipEids.set(name, result);
   }
 
   // Spawn ally wingmen
@@ -266,11 +275,20 @@ export function initializeCoruscantMission(
     Health.hp[result.entityId] = archetype.hp;
     Health.maxHp[result.entityId] = archetype.hp;
 
+    // Clones fly with the player, not the droid brain
+    removeComponent(world, DroidBrain, result.entityId);
+    addComponent(world, CloneWingman, result.entityId);
+    CloneWingman.callsignId[result.entityId] = i;
+    CloneWingman.formWithPlayer[result.entityId] = 1;
+    CloneWingman.protectObjective[result.entityId] = 0;
+
     state.allyFighterEids.push(result.entityId);
+    state.wingmanCallsigns.set(result.entityId, wingman.callsign);
   }
 
   // Initialize wave timers for first phase
   initializePhaseWaves(state, 0);
+  applyPhaseEnterActions(world, state, playerEid);
 }
 
 // ============================================================================
@@ -327,8 +345,8 @@ export function updateCoruscantMission(
   capitalShipSystem(world, dt);
   weakPointSystem(world, dt);
 
-  // Buzz droid system
-  buzzDroidSystem(world, dt, barrelRollInput, state.barrelRollCooldown);
+  // Buzz droid system (only the player can roll free)
+  buzzDroidSystem(world, dt, barrelRollInput, state.barrelRollCooldown, playerEid);
 
   // Droid AI with objective positions
   const playerPos = hasComponent(world, Transform, playerEid)
@@ -373,7 +391,8 @@ export function updateCoruscantMission(
   turbolaserSystem(world, dt, state.enemyFighterEids);
 
   // Process events
-  processEvents(world, state);
+  processEvents(world, state, playerEid);
+  updateBuzzDroidAssist(world, state, playerEid);
 
   // Update wave spawning
   updateWaves(world, state, playerEid);
@@ -390,6 +409,7 @@ export function updateCoruscantMission(
       state.transitionDelay -= dt;
       if (state.transitionDelay <= 0) {
         transitionToNextPhase(state);
+        applyPhaseEnterActions(world, state, playerEid);
         result.phaseChanged = true;
         result.newPhase = state.mission.phases[state.currentPhaseIndex];
       }
@@ -484,6 +504,7 @@ function spawnWave(
     }
   }
 
+  const waveEids: number[] = [];
   for (let i = 0; i < wave.count; i++) {
     const spawnPos = calculateSpawnPosition(wave.spawnPosition, i, wave.count, wave.formation, rng);
     const heading = calculateInitialHeading(spawnPos, wave.targetPriority, playerPos, capitalShipPos);
@@ -509,8 +530,12 @@ function spawnWave(
     );
 
     state.enemyFighterEids.push(result.entityId);
+    waveEids.push(result.entityId);
   }
 
+  // The wave flies its formation until it meets resistance
+  arrangeFormation(world, createSquadron(world, waveEids, formationShapeFromName(wave.formation)));
+
   // Trigger wave spawn dialogue if exists
   triggerTimeDialogue(state, state.phaseTimer);
 }
@@ -604,7 +629,7 @@ function queueDialogue(state: CoruscantRuntimeState, dialogue: CoruscantDialogue
 // EVENT PROCESSING
 // ============================================================================
 
-function processEvents(world: IWorld, state: CoruscantRuntimeState): void {
+function processEvents(world: IWorld, state: CoruscantRuntimeState, playerEid: number): void {
   // Weak point events
   const wpEvents = consumeWeakPointEvents();
   for (const event of wpEvents) {
@@ -618,26 +643,38 @@ function processEvents(world: IWorld, state: CoruscantRuntimeState): void {
   // Buzz droid events
   const buzzEvents = consumeBuzzDroidEvents();
   for (const event of buzzEvents) {
+    if (event.victimEid !== playerEid) continue;
     if (event.shakenOff) {
       state.buzzDroidAttached = false;
+      state.objectivesCompleted.add("remove_buzzdroids");
       state.message = "BUZZ DROIDS CLEARED!";
       state.messageTimer = 2;
     } else if (event.damage > 0) {
       state.buzzDroidAttached = true;
+      state.playerDamageReceived += event.damage;
     }
   }
 
-  // Boarding craft events
+  // Boarding craft events (docked/docking repeat every frame once in range)
   const bcEvents = consumeBoardingCraftEvents();
   for (const event of bcEvents) {
-    if (event.type === "docked") {
+    if (event.type === "docking") {
+      state.boardingCraftProgress = event.progress ?? state.boardingCraftProgress;
+    } else if (event.type === "docked" && !state.objectivesCompleted.has("boarding_craft_docked")) {
+      state.boardingCraftProgress = 1;
       state.objectivesCompleted.add("boarding_craft_docked");
       state.message = "BOARDING PARTY DEPLOYED!";
       state.messageTimer = 4;
     } else if (event.type === "destroyed") {
-      state.objectivesFailed.add("boarding_craft_destroyed");
-      state.message = "BOARDING CRAFT LOST!";
-      state.messageTimer = 4;
+      markBoardingCraftLost(state);
+    }
+  }
+
+  // projectileSystem removes dead entities before boardingCraftSystem sees them
+  if (state.boardingCraftEid !== null && !hasComponent(world, BoardingCraft, state.boardingCraftEid)) {
+    state.boardingCraftEid = null;
+    if (!state.objectivesCompleted.has("boarding_craft_docked")) {
+      markBoardingCraftLost(state);
     }
   }
 
@@ -658,26 +695,141 @@ function processEvents(world: IWorld, state: CoruscantRuntimeState): void {
   state.alliesLost += allyCountBefore - state.allyFighterEids.length;
 }
 
+function markBoardingCraftLost(state: CoruscantRuntimeState): void {
+  if (state.objectivesFailed.has("boarding_craft_destroyed")) return;
+  state.objectivesFailed.add("boarding_craft_destroyed");
+  state.message = "BOARDING CRAFT LOST!";
+  state.messageTimer = 4;
+}
+
+/**
+ * Buzz droids on an AI wingman are cleared once the player flies close
+ * enough to shoot them off (BUZZDROID_CONFIG.allyAssistRange).
+ */
+function updateBuzzDroidAssist(
+  world: IWorld,
+  state: CoruscantRuntimeState,
+  playerEid: number
+): void {
+  if (!hasComponent(world, Transform, playerEid)) return;
+
+  const rangeSq = BUZZDROID_CONFIG.allyAssistRange * BUZZDROID_CONFIG.allyAssistRange;
+
+  for (const allyEid of state.allyFighterEids) {
+    if (!hasComponent(world, BuzzDroidVictim, allyEid)) continue;
+    const swarmEid = BuzzDroidVictim.swarmEid[allyEid] ?? -1;
+    if (swarmEid < 0) continue;
+
+    const dx = (Transform.x[allyEid] ?? 0) - (Transform.x[playerEid] ?? 0);
+    const dy = (Transform.y[allyEid] ?? 0) - (Transform.y[playerEid] ?? 0);
+    const dz = (Transform.z[allyEid] ?? 0) - (Transform.z[playerEid] ?? 0);
+    if (dx * dx + dy * dy + dz * dz > rangeSq) continue;
+
+    if (hasComponent(world, BuzzDroidSwarm, swarmEid)) {
+      removeEntity(world, swarmEid);
+    }
+    removeComponent(world, BuzzDroidVictim, allyEid);
+
+    state.objectivesCompleted.add("help_obiwan");
+    state.message = `${(state.wingmanCallsigns.get(allyEid) ?? "WINGMAN").toUpperCase()} IS CLEAR!`;
+    state.messageTimer = 2;
+  }
+}
+
 // ============================================================================
 // PHASE MANAGEMENT
 // ============================================================================
 
+/**
+ * Runs the current phase's onEnter actions (buzz droid strikes, boarding craft launch).
+ */
+function applyPhaseEnterActions(
+  world: IWorld,
+  state: CoruscantRuntimeState,
+  playerEid: number
+): void {
+  const phase = state.mission.phases[state.currentPhaseIndex];
+  if (!phase?.onEnter) return;
+
+  for (const action of phase.onEnter) {
+    if (action.type !== "trigger_event") continue;
+
+    const count = (action.params.count as number | undefined) ?? 4;
+    switch (action.params.event) {
+      case "attach_buzzdroids_to_player":
+        attachBuzzDroids(world, playerEid, count);
+        state.buzzDroidAttached = hasComponent(world, BuzzDroidVictim, playerEid);
+        break;
+
+      case "attach_buzzdroids_to_obiwan": {
+        // Obi-Wan always leads the wingman roster
+        const obiwanEid = state.allyFighterEids.find(eid => state.wingmanCallsigns.get(eid) === "Obi-Wan");
+        if (obiwanEid !== undefined) {
+          attachBuzzDroids(world, obiwanEid, count);
+        }
+        break;
+      }
+
+      case "launch_boarding_craft": {
+        const from = state.capitalShipEids.get(action.params.from as string);
+        const target = state.capitalShipEids.get(action.params.target as string);
+        if (!from || !target || !hasComponent(world, Transform, target.shipEid)) break;
+
+        const craft = spawnBoardingCraft(
+          world,
+          [
+            Transform.x[from.shipEid] ?? 0,
+            (Transform.y[from.shipEid] ?? 0) - 60,
+            (Transform.z[from.shipEid] ?? 0) - 200
+          ],
+          target.shipEid,
+          (action.params.hp as number | undefined) ?? 600
+        );
+        state.boardingCraftEid = craft.entityId;
+        state.boardingCraftProgress = 0;
+        break;
+      }
+    }
+  }
+}
+
+function attachBuzzDroids(world: IWorld, victimEid: number, count: number): void {
+  if (!hasComponent(world, Transform, victimEid) || !hasComponent(world, Health, victimEid)) return;
+
+  const swarm = spawnBuzzDroidSwarm(
+    world,
+    [Transform.x[victimEid] ?? 0, Transform.y[victimEid] ?? 0, Transform.z[victimEid] ?? 0],
+    victimEid
+  );
+  BuzzDroidSwarm.droidCount[swarm.entityId] = count;
+  BuzzDroidSwarm.damagePerSecond[swarm.entityId] = BUZZDROID_CONFIG.damagePerSecond * (count / 4);
+}
+
+function getPhaseObjective(phase: CoruscantMissionPhase): string | undefined {
+  const objective = phase.victoryCondition.params?.objective;
+  return typeof objective === "string" ? objective : undefined;
+}
+
 function checkPhaseComplete(
   state: CoruscantRuntimeState,
   phase: CoruscantMissionPhase
 ): boolean {
+  const objective = getPhaseObjective(phase);
+
   switch (phase.victoryCondition.type) {
-    case "all_enemies_destroyed":
+    case "all_enemies_destroyed": {
       const allWavesTriggered = state.wavesTriggered.size >= phase.waves.length;
-      return allWavesTriggered && state.enemyFighterEids.length === 0;
+      const objectiveDone = objective === undefined || state.objectivesCompleted.has(objective);
+      return allWavesTriggered && state.enemyFighterEids.length === 0 && objectiveDone;
+    }
 
-    case "survive_time":
+    case "survive_time": {
       const requiredTime = (phase.victoryCondition.params?.seconds as number) ?? phase.durationSeconds ?? 60;
       return state.phaseTimer >= requiredTime;
+    }
 
     case "objective_complete":
-      // Check if key objectives are done
-      return state.objectivesCompleted.has("boarding_craft_docked");
+      return state.objectivesCompleted.has(objective ?? "boarding_craft_docked");
 
     default:
       return false;
@@ -690,6 +842,9 @@ function checkPhaseFailed(
   phase: CoruscantMissionPhase,
   playerEid: number
 ): boolean {
+  // Losing the boarding party ends the rescue regardless of phase
+  if (state.objectivesFailed.has("boarding_craft_destroyed")) return true;
+
   switch (phase.failureCondition.type) {
     case "player_destroyed":
       return !hasComponent(world, Health, playerEid) || (Health.hp[playerEid] ?? 0) <= 0;
@@ -709,6 +864,17 @@ function checkPhaseFailed(
 
         return destroyedCount >= threshold;
       }
+
+      // Named capital ship: threshold is the minimum hull fraction it must keep
+      if (phase.failureCondition.target) {
+        const target = phase.failureCondition.target.toLowerCase();
+        for (const [name, data] of state.capitalShipEids) {
+          if (name.toLowerCase() !== target) continue;
+          if (!hasComponent(world, Health, data.shipEid)) return true;
+          const hpFraction = (Health.hp[data.shipEid] ?? 0) / (Health.maxHp[data.shipEid] ?? 1);
+          return hpFraction < (phase.failureCondition.threshold ?? 0);
+        }
+      }
       return false;
 
     case "time_expired":
@@ -796,6 +962,7 @@ function eulerToQuat(x: number, y: number, z: number): [number, number, number,
 // ============================================================================
 
 export type CoruscantHUDState = {
+  phaseId: MissionPhaseId | null;
   phaseName: string;
   phaseObjective: string;
   phaseTimer: number;
@@ -809,6 +976,7 @@ export type CoruscantHUDState = {
     text: string;
   } | null;
   buzzDroidWarning: boolean;
+  boardingCraftProgress: number | null;
   capitalShipHealth: Array<{
     name: string;
     team: number;
@@ -838,6 +1006,7 @@ export function getCoruscantHUDState(
   }
 
   return {
+    phaseId: phase?.id ?? null,
     phaseName: phase?.name ?? "Unknown",
     phaseObjective: phase?.objectives[0]?.hudText ?? "",
     phaseTimer: state.phaseTimer,
@@ -851,6 +1020,9 @@ export function getCoruscantHUDState(
       text: state.activeDialogue.text
     } : null,
     buzzDroidWarning: state.buzzDroidAttached,
+    boardingCraftProgress: state.boardingCraftEid !== null || state.objectivesCompleted.has("boarding_craft_docked")
+      ? state.boardingCraftProgress
+      : null,
     capitalShipHealth
   };
 }
@@ -229,12 +229,16 @@ export function consumeBuzzDroidEvents(): BuzzDroidDamageEvent[] {
  * - Seeks player if not attached
  * - Deals DOT when attached
  * - Can be shaken off with barrel roll
+ *
+ * When rollerEid is given, only the swarm attached to that entity reacts to
+ * the barrel roll input (AI-flown victims can't roll).
  */
 export function buzzDroidSystem(
   world: IWorld,
   dt: number,
   barrelRollInput: boolean,
-  barrelRollCooldown: { value: number }
+  barrelRollCooldown: { value: number },
+  rollerEid = -1
 ): void {
   buzzDroidFrameCounter++;
   const swarms = buzzSwarmQuery(world);
@@ -286,7 +290,8 @@ export function buzzDroidSystem(
     }
 
     // Check for barrel roll escape
-    if (barrelRollInput && barrelRollCooldown.value <= 0) {
+    const canRoll = rollerEid < 0 || attachedTo === rollerEid;
+    if (barrelRollInput && canRoll && barrelRollCooldown.value <= 0) {
       const successChance = Math.max(0.35, 0.85 - attachTime * 0.1);
 
       // Deterministic escape check based on swarm entity and frame counter
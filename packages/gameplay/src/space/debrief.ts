@@ -0,0 +1,300 @@
+/**
+ * Mission Debrief
+ *
+ * MissionStats follows the player's gunnery and the damage they soak up over
+ * a mission. buildDebrief folds that together with KillTracker and
+ * ObjectiveTracker output into a scored summary with a medal rating and any
+ * awards earned, ready for the debrief screen and the pilot record.
+ */
+
+import { Health, Shield, ShotCounter } from "./components";
+import type { ImpactEvent } from "./impact-events";
+import { ObjectiveStatus, type KillTrackingData, type ObjectiveState } from "./objective-types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MissionOutcome = "victory" | "defeat";
+
+/** Medal rating for a whole mission, worst to best */
+export type MedalRating = "none" | "bronze" | "silver" | "gold";
+export const MEDAL_RATINGS: readonly MedalRating[] = ["none", "bronze", "silver", "gold"];
+
+export type MissionStatsData = {
+  /** Laser bolts and torpedoes the player fired */
+  shotsFired: number;
+  /** Player projectiles that connected */
+  hits: number;
+  /** Shield plus hull lost */
+  damageTaken: number;
+  /** Largest shield plus hull pool flown this mission */
+  durability: number;
+};
+
+/**
+ * How a scenario's mission ended, handed over once when it does.
+ */
+export type MissionResult = {
+  /** Key for best scores: scenario id, plus the mission or script id where a scenario hosts several */
+  scenario: string;
+  title: string;
+  outcome: MissionOutcome;
+  /** Seconds from launch to the end */
+  missionTime: number;
+  kills: KillTrackingData;
+  objectives: readonly ObjectiveState[];
+  /** Credits paid out over the mission */
+  credits: number;
+};
+
+export type DebriefObjective = {
+  id: string;
+  name: string;
+  outcome: "completed" | "failed" | "incomplete";
+  /** Mission time it was completed or failed, null while incomplete */
+  time: number | null;
+  optional: boolean;
+};
+
+export type MissionDebrief = {
+  scenario: string;
+  title: string;
+  outcome: MissionOutcome;
+  missionTime: number;
+  shotsFired: number;
+  hits: number;
+  /** hits / shotsFired, 0 with no shots */
+  accuracy: number;
+  /** Player kills (wingman kills are counted separately) */
+  kills: number;
+  killsByType: Record<string, number>;
+  wingmanKills: number;
+  objectives: DebriefObjective[];
+  damageTaken: number;
+  /** damageTaken / durability (can pass 1 across respawns) */
+  damageFraction: number;
+  credits: number;
+  score: number;
+  rating: MedalRating;
+  /** Award ids earned on this mission */
+  awards: string[];
+};
+
+export type AwardDef = {
+  id: string;
+  name: string;
+  description: string;
+  earned: (debrief: MissionDebrief) => boolean;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SCORE_PER_KILL = 100;
+const SCORE_PER_WINGMAN_KILL = 25;
+const SCORE_PER_OBJECTIVE = 500;
+const SCORE_PER_OPTIONAL = 250;
+const SCORE_VICTORY = 1000;
+/** Score for perfect accuracy; scaled down linearly */
+const SCORE_ACCURACY = 1000;
+/** Score lost for taking a full shield and hull's worth of damage */
+const SCORE_DAMAGE = 500;
+/** Fewer shots than this earns no accuracy bonus */
+const MIN_SHOTS_FOR_ACCURACY = 20;
+
+/** Gold: every objective, sharp shooting, under half the ship lost */
+const GOLD_ACCURACY = 0.35;
+const GOLD_DAMAGE = 0.5;
+/** Silver: decent shooting and no worse than one ship's worth of damage */
+const SILVER_ACCURACY = 0.2;
+const SILVER_DAMAGE = 1;
+
+/**
+ * Awards unlocked into the pilot record. Each can be earned on any mission;
+ * the record keeps the first time.
+ */
+export const AWARDS: readonly AwardDef[] = [
+  {
+    id: "ace",
+    name: "Ace",
+    description: "Five kills in a single mission",
+    earned: (d) => d.kills >= 5
+  },
+  {
+    id: "marksman",
+    name: "Marksman",
+    description: "Half your shots on target over 50 or more",
+    earned: (d) => d.shotsFired >= 50 && d.accuracy >= 0.5
+  },
+  {
+    id: "unscathed",
+    name: "Unscathed",
+    description: "Win a mission losing under a tenth of your ship",
+    earned: (d) => d.outcome === "victory" && d.damageFraction < 0.1
+  },
+  {
+    id: "perfectionist",
+    name: "Perfectionist",
+    description: "Win with every objective, optional ones included",
+    earned: (d) => d.outcome === "victory" && d.objectives.length > 0 &&
+      d.objectives.every((o) => o.outcome === "completed")
+  },
+  {
+    id: "gold_medal",
+    name: "Gold Medal",
+    description: "Earn a gold rating",
+    earned: (d) => d.rating === "gold"
+  }
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mission Stats
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class MissionStats {
+  private shotsFired = 0;
+  private hits = 0;
+  private damageTaken = 0;
+  private durability = 0;
+  private shipEid = -1;
+  private lastFired = 0;
+  private lastHull = 0;
+  private lastShield = 0;
+
+  /**
+   * Sample the player's ship once per tick. A new eid (respawn) starts
+   * fresh baselines; shield and hull going up (regen, repairs) is ignored.
+   */
+  sample(eid: number): void {
+    const fired = ShotCounter.fired[eid] ?? 0;
+    const hull = Health.hp[eid] ?? 0;
+    const shield = Shield.sp[eid] ?? 0;
+    this.durability = Math.max(this.durability, (Health.maxHp[eid] ?? 0) + (Shield.maxSp[eid] ?? 0));
+
+    if (eid === this.shipEid) {
+      this.shotsFired += Math.max(0, fired - this.lastFired);
+      this.damageTaken += Math.max(0, this.lastHull - hull) + Math.max(0, this.lastShield - shield);
+    }
+
+    this.shipEid = eid;
+    this.lastFired = fired;
+    this.lastHull = hull;
+    this.lastShield = shield;
+  }
+
+  /**
+   * Count this tick's hits by the player's own shots. Rams and blasts
+   * credit kills but aren't shots, so they stay out of accuracy.
+   */
+  recordImpacts(events: readonly ImpactEvent[], shooterEid: number): void {
+    for (const event of events) {
+      if (event.kind === "projectile" && event.shooter === shooterEid) this.hits++;
+    }
+  }
+
+  getData(): MissionStatsData {
+    return {
+      shotsFired: this.shotsFired,
+      hits: this.hits,
+      damageTaken: this.damageTaken,
+      durability: this.durability
+    };
+  }
+
+  reset(): void {
+    this.shotsFired = 0;
+    this.hits = 0;
+    this.damageTaken = 0;
+    this.durability = 0;
+    this.shipEid = -1;
+    this.lastFired = 0;
+    this.lastHull = 0;
+    this.lastShield = 0;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Debrief
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Score a finished mission and rate it.
+ */
+export function buildDebrief(result: MissionResult, stats: MissionStatsData): MissionDebrief {
+  const killsByType: Record<string, number> = {};
+  for (const [type, count] of result.kills.byType) {
+    const own = count - (result.kills.wingmanByType.get(type) ?? 0);
+    if (own > 0) killsByType[type] = own;
+  }
+  const kills = result.kills.total - result.kills.wingmanTotal;
+  const wingmanKills = result.kills.wingmanTotal;
+
+  const objectives = result.objectives.map(debriefObjective);
+  const accuracy = stats.shotsFired > 0 ? Math.min(1, stats.hits / stats.shotsFired) : 0;
+  const damageFraction = stats.durability > 0 ? stats.damageTaken / stats.durability : 0;
+  const victory = result.outcome === "victory";
+
+  let score = kills * SCORE_PER_KILL + wingmanKills * SCORE_PER_WINGMAN_KILL;
+  for (const o of objectives) {
+    if (o.outcome === "completed") score += o.optional ? SCORE_PER_OPTIONAL : SCORE_PER_OBJECTIVE;
+  }
+  if (victory) score += SCORE_VICTORY;
+  if (stats.shotsFired >= MIN_SHOTS_FOR_ACCURACY) score += accuracy * SCORE_ACCURACY;
+  score -= Math.min(1, damageFraction) * SCORE_DAMAGE;
+
+  let rating: MedalRating = "none";
+  if (victory) {
+    const allObjectives = objectives.every((o) => o.outcome === "completed");
+    if (allObjectives && accuracy >= GOLD_ACCURACY && damageFraction <= GOLD_DAMAGE) {
+      rating = "gold";
+    } else if (accuracy >= SILVER_ACCURACY && damageFraction <= SILVER_DAMAGE) {
+      rating = "silver";
+    } else {
+      rating = "bronze";
+    }
+  }
+
+  const debrief: MissionDebrief = {
+    scenario: result.scenario,
+    title: result.title,
+    outcome: result.outcome,
+    missionTime: result.missionTime,
+    shotsFired: stats.shotsFired,
+    hits: stats.hits,
+    accuracy,
+    kills,
+    killsByType,
+    wingmanKills,
+    objectives,
+    damageTaken: stats.damageTaken,
+    damageFraction,
+    credits: result.credits,
+    score: Math.max(0, Math.round(score)),
+    rating,
+    awards: []
+  };
+  debrief.awards = AWARDS.filter((a) => a.earned(debrief)).map((a) => a.id);
+  return debrief;
+}
+
+export function getAward(id: string): AwardDef | undefined {
+  return AWARDS.find((a) => a.id === id);
+}
+
+function debriefObjective(state: ObjectiveState): DebriefObjective {
+  let outcome: DebriefObjective["outcome"] = "incomplete";
+  if (state.status === ObjectiveStatus.COMPLETED || state.status === ObjectiveStatus.OPTIONAL_COMPLETED) {
+    outcome = "completed";
+  } else if (state.status === ObjectiveStatus.FAILED || state.status === ObjectiveStatus.OPTIONAL_FAILED) {
+    outcome = "failed";
+  }
+  return {
+    id: state.definition.id,
+    name: state.definition.name,
+    outcome,
+    time: outcome === "incomplete" ? null : state.completedTime,
+    optional: state.definition.isOptional
+  };
+}
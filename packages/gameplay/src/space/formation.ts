@@ -0,0 +1,140 @@
+/**
+ * Formation geometry and station keeping
+ *
+ * Shared by wingman orders and AI squadrons. Slot 0 is the leader; slot
+ * offsets are in the leader's frame (+x right, +z behind, ships fly -z).
+ */
+
+import { Quaternion, Vector3 } from "@xwingz/core";
+import { AngularVelocity, Ship, Transform } from "./components";
+
+/** Formation shapes (plain enum: spawners map mission config names onto it) */
+export enum FormationShape {
+  Wedge = 0,     // V behind the leader
+  Line = 1,      // abreast
+  Swarm = 2,     // loose cluster
+  Scattered = 3  // wide, barely a formation
+}
+
+/** How far past the slot a ship aims, so it settles onto the leader's heading (m) */
+const FORMATION_LOOKAHEAD = 120;
+/** Throttle added per metre the slot is ahead of the ship */
+const FORMATION_CATCHUP = 0.01;
+/** Steering gain for station keeping */
+const FORMATION_GAIN = 1.4;
+const GOLDEN_ANGLE = 2.399963;
+
+const tmpQ = new Quaternion();
+const tmpInvQ = new Quaternion();
+const tmpSlot = new Vector3();
+const tmpForward = new Vector3();
+const tmpLocal = new Vector3();
+
+/**
+ * Formation name as written in mission data ("wedge", "line", "swarm",
+ * "scattered"). Unknown names fly a wedge.
+ */
+export function formationShapeFromName(name: string): FormationShape {
+  switch (name) {
+    case "line": return FormationShape.Line;
+    case "swarm": return FormationShape.Swarm;
+    case "scattered": return FormationShape.Scattered;
+    default: return FormationShape.Wedge;
+  }
+}
+
+/**
+ * Offset of `slot` from the leader, in the leader's frame. Wedge and line
+ * alternate right and left one `spacing` further out per rank; swarm and
+ * scattered spiral out on the golden angle so slots never stack.
+ */
+export function formationSlotOffset(shape: FormationShape, slot: number, spacing: number, out: Vector3): Vector3 {
+  if (slot <= 0) return out.set(0, 0, 0);
+
+  const side = slot % 2 === 1 ? 1 : -1;
+  const rank = Math.ceil(slot / 2);
+  switch (shape) {
+    case FormationShape.Line:
+      return out.set(side * rank * spacing, 0, 0);
+    case FormationShape.Swarm:
+    case FormationShape.Scattered: {
+      const spread = shape === FormationShape.Scattered ? 2.5 : 1;
+      const r = spacing * Math.sqrt(slot) * spread;
+      const a = slot * GOLDEN_ANGLE;
+      return out.set(Math.cos(a) * r, Math.sin(a) * r * 0.5, spacing * Math.sqrt(slot) * 0.5 * spread);
+    }
+    case FormationShape.Wedge:
+    default:
+      return out.set(side * rank * spacing, 0, rank * spacing);
+  }
+}
+
+/**
+ * Turn `eid` toward a world-space direction with the same PD steering the
+ * dogfight AI uses. Leaves roll level.
+ */
+export function steerTowards(eid: number, dirX: number, dirY: number, dirZ: number, gain = FORMATION_GAIN): void {
+  tmpLocal.set(dirX, dirY, dirZ);
+  if (tmpLocal.lengthSq() < 1e-6) return;
+  tmpInvQ.set(
+    Transform.qx[eid] ?? 0,
+    Transform.qy[eid] ?? 0,
+    Transform.qz[eid] ?? 0,
+    Transform.qw[eid] ?? 1
+  ).invert();
+  tmpLocal.normalize().applyQuaternion(tmpInvQ);
+
+  // Positive wy swings the nose toward -x, so a goal off to the left is a positive error
+  const yawErr = Math.atan2(-tmpLocal.x, -tmpLocal.z);
+  const pitchErr = Math.atan2(tmpLocal.y, -tmpLocal.z);
+  const turnRate = Ship.turnRate[eid] ?? 1.2;
+  const damp = 0.35;
+  const yawCmd = clamp(yawErr * gain - (AngularVelocity.wy[eid] ?? 0) / turnRate * damp, -1, 1);
+  const pitchCmd = clamp(pitchErr * gain - (AngularVelocity.wx[eid] ?? 0) / turnRate * damp, -1, 1);
+  AngularVelocity.wx[eid] = pitchCmd * turnRate;
+  AngularVelocity.wy[eid] = yawCmd * turnRate;
+  AngularVelocity.wz[eid] = 0;
+}
+
+/**
+ * Fly `eid` to `offset` (leader frame) off `leader`, matching the leader's
+ * throttle and opening up when the slot is ahead.
+ */
+export function flyFormationSlot(eid: number, leader: number, offset: Vector3, dt: number): void {
+  tmpQ.set(
+    Transform.qx[leader] ?? 0,
+    Transform.qy[leader] ?? 0,
+    Transform.qz[leader] ?? 0,
+    Transform.qw[leader] ?? 1
+  );
+  tmpForward.set(0, 0, -1).applyQuaternion(tmpQ);
+  tmpSlot.copy(offset).applyQuaternion(tmpQ);
+
+  const gx = (Transform.x[leader] ?? 0) + tmpSlot.x - (Transform.x[eid] ?? 0);
+  const gy = (Transform.y[leader] ?? 0) + tmpSlot.y - (Transform.y[eid] ?? 0);
+  const gz = (Transform.z[leader] ?? 0) + tmpSlot.z - (Transform.z[eid] ?? 0);
+
+  // Aim past the slot along the leader's heading so it settles alongside
+  steerTowards(
+    eid,
+    gx + tmpForward.x * FORMATION_LOOKAHEAD,
+    gy + tmpForward.y * FORMATION_LOOKAHEAD,
+    gz + tmpForward.z * FORMATION_LOOKAHEAD
+  );
+
+  const ahead = gx * tmpForward.x + gy * tmpForward.y + gz * tmpForward.z;
+  const leaderThrottle = Ship.throttle[leader] ?? 0.6;
+  setThrottle(eid, clamp(leaderThrottle + ahead * FORMATION_CATCHUP, 0.2, 1), dt);
+}
+
+/**
+ * Ease the throttle toward `desired` at the dogfight AI's rate.
+ */
+export function setThrottle(eid: number, desired: number, dt: number): void {
+  const throttle0 = Ship.throttle[eid] ?? 0.6;
+  Ship.throttle[eid] = throttle0 + (desired - throttle0) * clamp(dt * 2.5, 0, 1);
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, v));
+}
@@ -0,0 +1,33 @@
+/**
+ * Impact Events - hits and kills on ships, for effects and kill credit
+ *
+ * Every system that damages a ship reports it here: laser and torpedo hits,
+ * capital ship death blasts and ramming. FlightMode drains the queue once a
+ * frame to spawn hit effects and credit kills to their shooters.
+ *
+ * Kept out of systems.ts so collision.ts can report without an import cycle.
+ */
+
+/** What did the damage: a laser or torpedo, a capital death blast, or ramming */
+export type ImpactKind = "projectile" | "blast" | "ram";
+
+export type ImpactEvent = {
+  kind: ImpactKind;
+  x: number;
+  y: number;
+  z: number;
+  team: number; // team of shooter, -1 unknown
+  killed: 0 | 1;
+  shooter: number; // eid of the ship that fired, -1 unknown
+  victim: number; // eid that was hit (already removed when killed, unless a capital ship)
+};
+
+const impactEvents: ImpactEvent[] = [];
+
+export function pushImpactEvent(event: ImpactEvent): void {
+  impactEvents.push(event);
+}
+
+export function consumeImpactEvents(): ImpactEvent[] {
+  return impactEvents.splice(0, impactEvents.length);
+}
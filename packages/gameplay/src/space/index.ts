@@ -3,10 +3,19 @@ export * from "./capital-components";
 export * from "./input";
 export * from "./systems";
 export * from "./capital-systems";
+export * from "./formation";
+export * from "./wingman-systems";
+export * from "./squadron-systems";
 export * from "./spatial-index";
+export * from "./collision";
 export * from "./projectile-pool";
 export * from "./coruscant-systems";
 export * from "./coruscant-runtime";
 export * from "./objective-types";
 export * from "./objective-tracker";
 export * from "./kill-tracker";
+export * from "./debrief";
+export * from "./pilot-record";
+export * from "./mission-objectives";
+export * from "./mission-script";
+export * from "./coop";
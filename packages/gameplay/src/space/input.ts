@@ -1,3 +1,13 @@
+import {
+  createDefaultControlSettings,
+  SPACE_ONE_SHOT,
+  type ControlSettings,
+  type SpaceAxis,
+  type SpaceButton
+} from "../input/bindings";
+import { readActions } from "../input/mapping";
+import { createInputDevices } from "../input/devices";
+
 export type SpaceInputState = {
   pitch: number;   // -1..1
   yaw: number;     // -1..1
@@ -12,37 +22,24 @@ export type SpaceInputState = {
   hyperspace: boolean;
   toggleMap: boolean;
   land: boolean;           // L to land on planet surface
+  commandMenu: boolean;    // Z toggles the wingman command menu (one-shot)
+  orderAttack: boolean;    // 1-5 pick a wingman order while the menu is open (one-shot)
+  orderCover: boolean;
+  orderFormUp: boolean;
+  orderSubsystems: boolean;
+  orderEscort: boolean;
 };
 
-export function createSpaceInput(target: Window = window) {
-  const keys = new Set<string>();
-  let cycleTarget = false;
-  let hyperspace = false;
-  let toggleMap = false;
-  let switchWeapon = false;
-  let land = false;
-
-  function onKeyDown(e: KeyboardEvent) {
-    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
-    keys.add(key);
-    if (e.key.toLowerCase() === "t") cycleTarget = true;
-    if (e.key.toLowerCase() === "h") hyperspace = true;
-    if (e.key.toLowerCase() === "m") toggleMap = true;
-    if (e.key.toLowerCase() === "v") switchWeapon = true;  // V to switch weapons
-    if (e.key.toLowerCase() === "l") land = true;          // L to land
-  }
-  function onKeyUp(e: KeyboardEvent) {
-    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
-    keys.delete(key);
-  }
-  target.addEventListener("keydown", onKeyDown);
-  target.addEventListener("keyup", onKeyUp);
-
-  function axis(neg: string[], pos: string[]) {
-    const n = neg.some((k) => keys.has(k)) ? 1 : 0;
-    const p = pos.some((k) => keys.has(k)) ? 1 : 0;
-    return p - n;
-  }
+/**
+ * Flight controls from keyboard, mouse and gamepad. `settings` is read on
+ * every update, so edits from the controls overlay apply immediately.
+ */
+export function createSpaceInput(target: Window = window, settings: ControlSettings = createDefaultControlSettings()) {
+  const devices = createInputDevices(target);
+  const actions = {
+    axes: { pitch: 0, yaw: 0, roll: 0, throttle: 0 } as Record<SpaceAxis, number>,
+    buttons: {} as Record<SpaceButton, boolean>
+  };
 
   const state: SpaceInputState = {
     pitch: 0,
@@ -57,34 +54,42 @@ export function createSpaceInput(target: Window = window) {
     cycleTarget: false,
     hyperspace: false,
     toggleMap: false,
-    land: false
+    land: false,
+    commandMenu: false,
+    orderAttack: false,
+    orderCover: false,
+    orderFormUp: false,
+    orderSubsystems: false,
+    orderEscort: false
   };
 
   function update() {
-    state.pitch = axis(["s", "ArrowDown"], ["w", "ArrowUp"]);
-    state.yaw = axis(["d", "ArrowRight"], ["a", "ArrowLeft"]);
-    state.roll = axis(["e"], ["q"]);
-    state.throttleDelta = axis(["f"], ["r"]); // R up, F down
-    state.boost = keys.has("Shift") || keys.has("ShiftLeft") || keys.has("ShiftRight");
-    state.brake = keys.has("x");
-    state.firePrimary = keys.has(" ");
-    state.fireSecondary = keys.has("c");  // C to fire torpedoes
-    state.switchWeapon = switchWeapon;
-    state.cycleTarget = cycleTarget;
-    state.hyperspace = hyperspace;
-    state.toggleMap = toggleMap;
-    state.land = land;
+    readActions(devices.poll(), settings.space, SPACE_ONE_SHOT, actions);
+    const { axes, buttons } = actions;
 
-    switchWeapon = false;
-    cycleTarget = false;
-    hyperspace = false;
-    toggleMap = false;
-    land = false;
+    state.pitch = axes.pitch;
+    state.yaw = axes.yaw;
+    state.roll = axes.roll;
+    state.throttleDelta = axes.throttle;
+    state.boost = buttons.boost;
+    state.brake = buttons.brake;
+    state.firePrimary = buttons.firePrimary;
+    state.fireSecondary = buttons.fireSecondary;
+    state.switchWeapon = buttons.switchWeapon;
+    state.cycleTarget = buttons.cycleTarget;
+    state.hyperspace = buttons.hyperspace;
+    state.toggleMap = buttons.toggleMap;
+    state.land = buttons.land;
+    state.commandMenu = buttons.commandMenu;
+    state.orderAttack = buttons.orderAttack;
+    state.orderCover = buttons.orderCover;
+    state.orderFormUp = buttons.orderFormUp;
+    state.orderSubsystems = buttons.orderSubsystems;
+    state.orderEscort = buttons.orderEscort;
   }
 
   function dispose() {
-    target.removeEventListener("keydown", onKeyDown);
-    target.removeEventListener("keyup", onKeyUp);
+    devices.dispose();
   }
 
   return { state, update, dispose };
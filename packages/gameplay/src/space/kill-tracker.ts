@@ -8,6 +8,9 @@ export class KillTracker {
   private killsByType: Map<string, number> = new Map();
   private killsByWave: Map<number, number> = new Map();
   private totalKills = 0;
+  private wingmanKillsByType: Map<string, number> = new Map();
+  private wingmanKillsByWave: Map<number, number> = new Map();
+  private wingmanKills = 0;
   private currentStreak = 0;
   private streakValid = true;
   private streakShieldThreshold = 80; // Reset streak if shield drops below this
@@ -17,9 +20,10 @@ export class KillTracker {
   }
 
   /**
-   * Record a kill
+   * Record a kill. Wingman kills count toward the totals but not the
+   * player's streak.
    */
-  recordKill(entityType: string, wave = 0): void {
+  recordKill(entityType: string, wave = 0, byWingman = false): void {
     // Update by type
     const typeCount = this.killsByType.get(entityType) ?? 0;
     this.killsByType.set(entityType, typeCount + 1);
@@ -33,6 +37,15 @@ export class KillTracker {
     // Update total
     this.totalKills++;
 
+    if (byWingman) {
+      this.wingmanKillsByType.set(entityType, (this.wingmanKillsByType.get(entityType) ?? 0) + 1);
+      if (wave > 0) {
+        this.wingmanKillsByWave.set(wave, (this.wingmanKillsByWave.get(wave) ?? 0) + 1);
+      }
+      this.wingmanKills++;
+      return;
+    }
+
     // Update streak (only if still valid)
     if (this.streakValid) {
       this.currentStreak++;
@@ -105,6 +118,13 @@ export class KillTracker {
     return this.totalKills;
   }
 
+  /**
+   * Get kills made by wingmen
+   */
+  getWingmanKills(): number {
+    return this.wingmanKills;
+  }
+
   /**
    * Get tracking data for ObjectiveContext
    */
@@ -113,6 +133,9 @@ export class KillTracker {
       byType: new Map(this.killsByType),
       byWave: new Map(this.killsByWave),
       total: this.totalKills,
+      wingmanByType: new Map(this.wingmanKillsByType),
+      wingmanByWave: new Map(this.wingmanKillsByWave),
+      wingmanTotal: this.wingmanKills,
       streak: this.currentStreak,
       streakValid: this.streakValid
     };
@@ -125,6 +148,9 @@ export class KillTracker {
     this.killsByType.clear();
     this.killsByWave.clear();
     this.totalKills = 0;
+    this.wingmanKillsByType.clear();
+    this.wingmanKillsByWave.clear();
+    this.wingmanKills = 0;
     this.currentStreak = 0;
     this.streakValid = true;
   }
@@ -0,0 +1,279 @@
+/**
+ * Mission Objectives - Build ObjectiveTracker definitions for procgen missions
+ *
+ * Each MissionType maps to a fixed chain of required objectives (plus an
+ * optional bonus where it fits). All numbers come from the MissionDef, so the
+ * same mission always yields the same objective set.
+ *
+ * Context the scenario must provide:
+ * - kills.total for kill objectives and kills.streak for the streak bonus
+ * - location.locationDistances keyed by MissionSite.id, plus "convoy_arrival"
+ *   (convoy to its destination) for escorts
+ * - entities.baseHealthPercent for the defended station
+ * - entities.subsystemsDestroyed for destroyed hostile sites
+ * - escort.escortAlive / escortHealth for the convoy
+ * - interactProgress: seconds spent inside the active scan site
+ */
+
+import type { MissionDef, MissionSite } from "@xwingz/procgen";
+import {
+  type ObjectiveDefinition,
+  type TriggerCondition,
+  ObjectivePriority,
+  ProgressIndicatorType,
+  TriggerType
+} from "./objective-types";
+
+/** Station hull percentage at which a defense contract is lost */
+export const DEFENSE_FAIL_PERCENT = 25;
+
+/** Location key for the escorted convoy's distance to its destination */
+export const CONVOY_ARRIVAL_LOCATION = "convoy_arrival";
+
+type Step = Pick<ObjectiveDefinition, "name" | "description" | "hudText" | "hudTextActive" | "hudTextComplete" | "triggerComplete" | "progressType" | "progressMax"> & {
+  triggerFail?: TriggerCondition;
+  priority?: ObjectivePriority;
+  /** Share of the mission reward (weights are normalized across steps) */
+  weight: number;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Step builders
+// ─────────────────────────────────────────────────────────────────────────────
+
+function siteLabel(site: MissionSite): string {
+  return site.id.replace(/_/g, " ").toUpperCase();
+}
+
+function killStep(count: number, name: string, active: string, weight = 1): Step {
+  return {
+    name,
+    description: `Destroy ${count} hostile fighters`,
+    hudText: `${name.toUpperCase()}: 0/${count}`,
+    hudTextActive: active,
+    hudTextComplete: "HOSTILES DESTROYED",
+    triggerComplete: { type: TriggerType.KILL_COUNT, count },
+    progressType: ProgressIndicatorType.NUMERIC_COUNTER,
+    progressMax: count,
+    weight
+  };
+}
+
+function reachStep(site: MissionSite, name: string, weight = 0.5): Step {
+  const label = siteLabel(site);
+  return {
+    name,
+    description: `Fly to ${label.toLowerCase()}`,
+    hudText: `REACH ${label}`,
+    hudTextActive: `PROCEED TO ${label}`,
+    hudTextComplete: `${label} REACHED`,
+    triggerComplete: { type: TriggerType.REACH_LOCATION, location: site.id, radius: site.radius },
+    progressType: ProgressIndicatorType.NONE,
+    progressMax: 1,
+    weight
+  };
+}
+
+function scanStep(site: MissionSite, seconds: number, name: string, active: string, weight = 1): Step {
+  const label = siteLabel(site);
+  return {
+    name,
+    description: `Hold position at ${label.toLowerCase()} for ${seconds} seconds`,
+    hudText: `${name.toUpperCase()}: 0/${seconds}s`,
+    hudTextActive: active,
+    hudTextComplete: `${name.toUpperCase()} COMPLETE`,
+    triggerComplete: { type: TriggerType.INTERACT, location: site.id, seconds },
+    progressType: ProgressIndicatorType.PROGRESS_BAR,
+    progressMax: seconds,
+    weight
+  };
+}
+
+function destroySitesStep(sites: MissionSite[], name: string, weight = 1.5): Step {
+  const count = sites.length;
+  return {
+    name,
+    description: `Destroy ${count} ${sites[0]?.kind ?? "target"}s`,
+    hudText: `${name.toUpperCase()}: 0/${count}`,
+    hudTextActive: `ATTACKING ${name.toUpperCase()}`,
+    hudTextComplete: `${name.toUpperCase()} DESTROYED`,
+    triggerComplete: { type: TriggerType.SUBSYSTEMS_DESTROYED, count },
+    progressType: ProgressIndicatorType.NUMERIC_COUNTER,
+    progressMax: count,
+    priority: ObjectivePriority.HIGH,
+    weight
+  };
+}
+
+function jumpStep(site: MissionSite, weight = 0.5): Step {
+  return {
+    ...reachStep(site, "Jump Out", weight),
+    hudTextActive: "RETURN TO JUMP POINT",
+    hudTextComplete: "CLEAR TO JUMP"
+  };
+}
+
+function sitesOfKind(mission: MissionDef, kind: MissionSite["kind"]): MissionSite[] {
+  return mission.sites.filter((s) => s.kind === kind);
+}
+
+function requireSite(mission: MissionDef, kind: MissionSite["kind"]): MissionSite {
+  const site = mission.sites.find((s) => s.kind === kind);
+  if (!site) throw new Error(`Mission ${mission.id} (${mission.type}) has no ${kind} site`);
+  return site;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Templates
+// ─────────────────────────────────────────────────────────────────────────────
+
+function missionSteps(mission: MissionDef): Step[] {
+  switch (mission.type) {
+    case "bounty":
+      return [killStep(mission.goalKills, "Bounty", "ENGAGING HOSTILES")];
+
+    case "defense": {
+      const station = killStep(mission.goalKills, "Defend Station", "PROTECT THE STATION");
+      station.description = `Destroy ${mission.goalKills} raiders before they cripple the station`;
+      station.triggerFail = { type: TriggerType.ENTITY_HEALTH_BELOW, entity: "base", thresholdPercent: DEFENSE_FAIL_PERCENT };
+      station.priority = ObjectivePriority.CRITICAL;
+      return [station];
+    }
+
+    case "assault":
+      return [
+        killStep(mission.goalKills, "Fighter Screen", "CLEAR THE FIGHTER SCREEN"),
+        destroySitesStep(sitesOfKind(mission, "emplacement"), "Emplacements")
+      ];
+
+    case "patrol":
+      return sitesOfKind(mission, "nav_buoy").map((site, i) => reachStep(site, `Nav Point ${i + 1}`, 1));
+
+    case "escort": {
+      const convoy = requireSite(mission, "convoy");
+      return [{
+        name: "Escort Convoy",
+        description: "Keep the convoy alive until it reaches the jump point",
+        hudText: "ESCORT CONVOY",
+        hudTextActive: "PROTECT THE CONVOY",
+        hudTextComplete: "CONVOY HAS JUMPED",
+        triggerComplete: {
+          type: TriggerType.REACH_LOCATION,
+          location: CONVOY_ARRIVAL_LOCATION,
+          radius: mission.sites.find((s) => s.id === convoy.destination)?.radius ?? 150
+        },
+        triggerFail: { type: TriggerType.NPC_HEALTH_ZERO, npc: convoy.id },
+        progressType: ProgressIndicatorType.NONE,
+        progressMax: 1,
+        priority: ObjectivePriority.CRITICAL,
+        weight: 1
+      }];
+    }
+
+    case "salvage": {
+      const wreck = requireSite(mission, "wreck");
+      return [
+        reachStep(wreck, "Locate Wreck"),
+        scanStep(wreck, mission.scanSeconds, "Salvage", "STRIPPING THE WRECK - HOLD POSITION"),
+        killStep(mission.goalKills, "Scavengers", "DRIVE OFF THE SCAVENGERS")
+      ];
+    }
+
+    case "smuggle": {
+      const drop = requireSite(mission, "drop_point");
+      return [
+        reachStep(drop, "Rendezvous"),
+        scanStep(drop, mission.scanSeconds, "Cargo Transfer", "TRANSFERRING CARGO - HOLD POSITION"),
+        jumpStep(requireSite(mission, "jump_point"))
+      ];
+    }
+
+    case "sabotage":
+      return [
+        destroySitesStep(sitesOfKind(mission, "relay"), "Comm Relays"),
+        jumpStep(requireSite(mission, "jump_point"))
+      ];
+
+    case "relic_recovery": {
+      const ruin = requireSite(mission, "ruin");
+      return [
+        reachStep(ruin, "Find the Ruin"),
+        scanStep(ruin, mission.scanSeconds, "Recover Relic", "RECOVERING RELIC - HOLD POSITION", 1.5),
+        killStep(mission.goalKills, "Survive", "FIGHT YOUR WAY OUT"),
+        jumpStep(requireSite(mission, "jump_point"))
+      ];
+    }
+  }
+}
+
+/** Optional streak bonus for kill-heavy contracts */
+function bonusObjective(mission: MissionDef, sequence: number): ObjectiveDefinition | null {
+  if (mission.goalKills < 6 || mission.bonusCredits <= 0) return null;
+  const streak = Math.min(8, Math.max(3, Math.floor(mission.goalKills / 3)));
+  return {
+    id: `${mission.id}_bonus`,
+    name: "Clean Streak",
+    description: `Destroy ${streak} fighters in a row without dropping below half shields`,
+    hudText: `BONUS: ${streak} KILL STREAK`,
+    hudTextActive: `BONUS: ${streak} KILL STREAK`,
+    hudTextComplete: "CLEAN STREAK!",
+    phase: mission.type,
+    sequence,
+    priority: ObjectivePriority.NORMAL,
+    triggerStart: { type: TriggerType.MISSION_START },
+    triggerComplete: { type: TriggerType.KILL_STREAK, count: streak },
+    progressType: ProgressIndicatorType.NUMERIC_COUNTER,
+    progressMax: streak,
+    rewardCredits: mission.bonusCredits,
+    isOptional: true
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build the objective chain for a procgen mission. Required objectives run
+ * in sequence and split `rewardCredits` between them; the optional bonus pays
+ * `bonusCredits`.
+ */
+export function createMissionObjectives(mission: MissionDef): ObjectiveDefinition[] {
+  const steps = missionSteps(mission);
+  const totalWeight = steps.reduce((sum, s) => sum + s.weight, 0);
+
+  let paid = 0;
+  const objectives: ObjectiveDefinition[] = steps.map((step, i) => {
+    // Last step takes the rounding remainder so the total matches the contract
+    const reward = i === steps.length - 1
+      ? mission.rewardCredits - paid
+      : Math.round(mission.rewardCredits * (step.weight / totalWeight));
+    paid += reward;
+
+    const prevId = i > 0 ? `${mission.id}_obj_${i}` : null;
+    return {
+      id: `${mission.id}_obj_${i + 1}`,
+      name: step.name,
+      description: step.description,
+      hudText: step.hudText,
+      hudTextActive: step.hudTextActive,
+      hudTextComplete: step.hudTextComplete,
+      phase: mission.type,
+      sequence: i + 1,
+      priority: step.priority ?? ObjectivePriority.NORMAL,
+      triggerStart: prevId
+        ? { type: TriggerType.OBJECTIVE_COMPLETE, objectiveId: prevId }
+        : { type: TriggerType.MISSION_START },
+      triggerComplete: step.triggerComplete,
+      triggerFail: step.triggerFail ?? null,
+      progressType: step.progressType,
+      progressMax: step.progressMax,
+      rewardCredits: reward,
+      isOptional: false
+    };
+  });
+
+  const bonus = bonusObjective(mission, 99);
+  if (bonus) objectives.push(bonus);
+  return objectives;
+}
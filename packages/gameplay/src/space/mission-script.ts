@@ -0,0 +1,747 @@
+/**
+ * Mission Scripts
+ *
+ * Data-driven story missions. Objectives, TriggerCondition trees, wave spawns,
+ * radio dialogue and rewards are authored as JSON instead of scenario code:
+ *
+ * - validateMissionScript: structural check with path-qualified issues
+ * - parseMissionScript: JSON text (or an already parsed object) -> MissionScript
+ * - MissionScriptRunner: drives an ObjectiveTracker plus the script's waves and
+ *   dialogue; the scripted flight/ground scenarios spawn and display what it
+ *   hands back each tick
+ *
+ * Objective fields other than id/name/triggerComplete are optional in the
+ * file; parseMissionScript fills in defaults so objectives run in file order.
+ */
+
+import { FIGHTER_ARCHETYPES, PLANETS } from "@xwingz/data";
+import { ObjectiveTracker } from "./objective-tracker";
+import {
+  type ObjectiveContext,
+  type ObjectiveDefinition,
+  type ObjectiveEvent,
+  type TriggerCondition,
+  KILL_SOURCES,
+  ObjectiveEventType,
+  ObjectivePriority,
+  ProgressIndicatorType,
+  TriggerType
+} from "./objective-types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Format
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MISSION_SCRIPT_VERSION = 1;
+
+export const MISSION_SCRIPT_MODES = ["flight", "ground"] as const;
+export type MissionScriptMode = (typeof MISSION_SCRIPT_MODES)[number];
+
+/** Ground units a script can spawn (flight scripts use fighter archetype ids) */
+export const GROUND_SCRIPT_UNITS = ["trooper", "atst"] as const;
+
+/** Capital ships a flight script can spawn alongside fighter archetypes */
+export const CAPITAL_SCRIPT_UNITS = ["cr90", "nebulon_b", "mc80", "isd"] as const;
+export type CapitalScriptUnit = (typeof CAPITAL_SCRIPT_UNITS)[number];
+
+/** Radio speakers, matching the HUD's radio chatter styles */
+export const MISSION_SCRIPT_SPEAKERS = ["PLAYER", "WINGMAN", "COMMAND", "IMPERIAL", "GUNNER", "ESCORT"] as const;
+export type MissionScriptSpeaker = (typeof MISSION_SCRIPT_SPEAKERS)[number];
+
+export interface MissionSpawnDef {
+  /** Fighter archetype id or CAPITAL_SCRIPT_UNITS entry (flight), GROUND_SCRIPT_UNITS entry (ground) */
+  unit: string;
+  count: number;
+  team: "enemy" | "ally";
+  /** Centre of the spawn area, relative to the player start */
+  at: { x: number; y: number; z: number };
+  /** Spread around `at` in metres */
+  radius: number;
+}
+
+export interface MissionWaveDef {
+  /** Positive wave number - KILL_COUNT triggers reference it as waveId */
+  id: number;
+  trigger: TriggerCondition;
+  spawns: MissionSpawnDef[];
+  /** HUD message when the wave arrives */
+  message?: string;
+}
+
+export interface MissionDialogueDef {
+  id: string;
+  trigger: TriggerCondition;
+  speaker: MissionScriptSpeaker;
+  lines: string[];
+}
+
+export interface MissionScript {
+  version: number;
+  id: string;
+  name: string;
+  mode: MissionScriptMode;
+  /** Planet id (from @xwingz/data PLANETS) the mission is flown at */
+  planet: string | null;
+  briefing: string;
+  /** Named points for REACH_LOCATION triggers, relative to the player start */
+  locations: Record<string, { x: number; y: number; z: number }>;
+  objectives: ObjectiveDefinition[];
+  waves: MissionWaveDef[];
+  dialogue: MissionDialogueDef[];
+  rewards: {
+    /** Bonus on mission complete, on top of each objective's rewardCredits */
+    credits: number;
+  };
+}
+
+export interface MissionScriptIssue {
+  /** Location in the file, e.g. "objectives[2].triggerComplete.count" */
+  path: string;
+  message: string;
+}
+
+const SPAWN_DEFAULTS: Record<MissionScriptMode, { at: MissionSpawnDef["at"]; radius: number }> = {
+  flight: { at: { x: 0, y: 0, z: -900 }, radius: 400 },
+  ground: { at: { x: 0, y: 1, z: -40 }, radius: 12 }
+};
+
+/** Fields each trigger type needs to mean anything */
+const TRIGGER_REQUIRED: Record<TriggerType, Array<keyof TriggerCondition>> = {
+  [TriggerType.MISSION_START]: [],
+  [TriggerType.OBJECTIVE_COMPLETE]: ["objectiveId"],
+  [TriggerType.KILL_COUNT]: ["count"],
+  [TriggerType.KILL_ALL]: ["targetTypes", "count"],
+  [TriggerType.KILL_STREAK]: ["count"],
+  [TriggerType.SUBSYSTEMS_DESTROYED]: ["count"],
+  [TriggerType.ENTITY_DESTROYED]: ["entity"],
+  [TriggerType.ENTITY_HEALTH_BELOW]: ["entity", "thresholdPercent"],
+  [TriggerType.DISTANCE_TO_ENTITY]: ["entity", "radius"],
+  [TriggerType.ALTITUDE_ABOVE]: ["value"],
+  [TriggerType.NEAR_ALLIES]: ["count"],
+  [TriggerType.DURATION]: ["seconds"],
+  [TriggerType.COMPOUND]: ["conditions"],
+  [TriggerType.CABLE_STATE]: ["value"],
+  [TriggerType.CABLE_WRAPS]: ["count"],
+  [TriggerType.REACH_LOCATION]: ["location"],
+  [TriggerType.INTERACT]: [],
+  [TriggerType.ESCORT_ALIVE]: [],
+  [TriggerType.NPC_HEALTH_ZERO]: [],
+  [TriggerType.NPC_DAMAGE_TAKEN]: ["value"],
+  [TriggerType.ALLIES_ALIVE]: ["count"],
+  [TriggerType.ALLY_DEATH]: []
+};
+
+const TRIGGER_NUMBER_FIELDS = ["value", "count", "radius", "seconds", "thresholdPercent", "waveId"] as const;
+const TRIGGER_STRING_FIELDS = ["targetType", "entity", "objectiveId", "location", "npc"] as const;
+const TRIGGER_STRING_LIST_FIELDS = ["targetTypes", "subsystemTypes"] as const;
+
+const TRIGGER_FIELDS = new Set<string>([
+  "type",
+  "conditions",
+  "anyCombination",
+  "killedBy",
+  ...TRIGGER_NUMBER_FIELDS,
+  ...TRIGGER_STRING_FIELDS,
+  ...TRIGGER_STRING_LIST_FIELDS
+]);
+
+const OBJECTIVE_FIELDS = new Set<string>([
+  "id", "name", "description", "hudText", "hudTextActive", "hudTextComplete", "phase", "sequence",
+  "priority", "triggerStart", "triggerComplete", "triggerFail", "progressType", "progressMax",
+  "rewardCredits", "isOptional", "radioOnStart", "radioOnComplete", "radioMilestones"
+]);
+
+const SCRIPT_FIELDS = new Set<string>([
+  "version", "id", "name", "mode", "planet", "briefing", "locations", "objectives", "waves", "dialogue", "rewards"
+]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `"${value}"`;
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function oneOf(values: readonly string[]): string {
+  return values.join(", ");
+}
+
+class IssueCollector {
+  readonly issues: MissionScriptIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  unknownFields(obj: RawObject, allowed: Set<string>, path: string): void {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.has(key)) this.add(join(path, key), "unknown field");
+    }
+  }
+
+  string(obj: RawObject, key: string, path: string, required: boolean): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(join(path, key), "is required");
+      return;
+    }
+    if (typeof value !== "string" || value.length === 0) {
+      this.add(join(path, key), `expected a non-empty string, got ${describe(value)}`);
+    }
+  }
+
+  number(obj: RawObject, key: string, path: string, required: boolean, min = -Infinity): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(join(path, key), "is required");
+      return;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.add(join(path, key), `expected a number, got ${describe(value)}`);
+    } else if (value < min) {
+      this.add(join(path, key), `must be at least ${min}, got ${value}`);
+    }
+  }
+
+  stringList(obj: RawObject, key: string, path: string, required: boolean): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(join(path, key), "is required");
+      return;
+    }
+    if (!Array.isArray(value) || value.length === 0) {
+      this.add(join(path, key), `expected a non-empty list of strings, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((item, i) => {
+      if (typeof item !== "string") this.add(`${path}.${key}[${i}]`, `expected a string, got ${describe(item)}`);
+    });
+  }
+
+  oneOf(obj: RawObject, key: string, path: string, values: readonly string[], required: boolean): void {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.add(join(path, key), `is required (one of ${oneOf(values)})`);
+      return;
+    }
+    if (typeof value !== "string" || !values.includes(value)) {
+      this.add(join(path, key), `unknown value ${describe(value)} (expected one of ${oneOf(values)})`);
+    }
+  }
+}
+
+const TRIGGER_TYPES = Object.values(TriggerType) as string[];
+
+/** Ids triggers may refer to */
+interface ScriptRefs {
+  objectiveIds: Set<string>;
+  locations: Set<string>;
+}
+
+/**
+ * `timed` is false for objective triggers: ObjectiveTracker never fires
+ * DURATION, only MissionScriptRunner does (for waves and dialogue).
+ */
+function validateTrigger(
+  issues: IssueCollector,
+  raw: unknown,
+  path: string,
+  refs: ScriptRefs,
+  timed = true
+): void {
+  if (!isObject(raw)) {
+    issues.add(path, `expected a trigger object, got ${describe(raw)}`);
+    return;
+  }
+  issues.unknownFields(raw, TRIGGER_FIELDS, path);
+
+  const type = raw.type;
+  if (typeof type !== "string" || !TRIGGER_TYPES.includes(type)) {
+    issues.add(
+      `${path}.type`,
+      type === undefined
+        ? `is required (one of ${oneOf(TRIGGER_TYPES)})`
+        : `unknown trigger ${describe(type)} (expected one of ${oneOf(TRIGGER_TYPES)})`
+    );
+    return;
+  }
+
+  for (const key of TRIGGER_NUMBER_FIELDS) issues.number(raw, key, path, false, 0);
+  for (const key of TRIGGER_STRING_FIELDS) issues.string(raw, key, path, false);
+  for (const key of TRIGGER_STRING_LIST_FIELDS) issues.stringList(raw, key, path, false);
+  if (raw.anyCombination !== undefined && typeof raw.anyCombination !== "boolean") {
+    issues.add(`${path}.anyCombination`, `expected true or false, got ${describe(raw.anyCombination)}`);
+  }
+  issues.oneOf(raw, "killedBy", path, KILL_SOURCES, false);
+
+  if (type === TriggerType.DURATION && !timed) {
+    issues.add(`${path}.type`, "DURATION triggers only work on waves and dialogue");
+  }
+  for (const key of TRIGGER_REQUIRED[type as TriggerType]) {
+    if (raw[key] === undefined) issues.add(join(path, key), `is required for ${type} triggers`);
+  }
+
+  if (type === TriggerType.OBJECTIVE_COMPLETE && typeof raw.objectiveId === "string" && !refs.objectiveIds.has(raw.objectiveId)) {
+    issues.add(`${path}.objectiveId`, `no objective with id "${raw.objectiveId}"`);
+  }
+  if (type === TriggerType.REACH_LOCATION && typeof raw.location === "string" && !refs.locations.has(raw.location)) {
+    issues.add(`${path}.location`, `no location named "${raw.location}" in locations`);
+  }
+
+  if (raw.conditions !== undefined) {
+    if (!Array.isArray(raw.conditions) || raw.conditions.length === 0) {
+      issues.add(`${path}.conditions`, `expected a non-empty list of triggers, got ${describe(raw.conditions)}`);
+    } else {
+      raw.conditions.forEach((cond, i) => validateTrigger(issues, cond, `${path}.conditions[${i}]`, refs, timed));
+    }
+  }
+}
+
+function validateObjective(issues: IssueCollector, raw: unknown, path: string, refs: ScriptRefs): void {
+  if (!isObject(raw)) {
+    issues.add(path, `expected an objective object, got ${describe(raw)}`);
+    return;
+  }
+  issues.unknownFields(raw, OBJECTIVE_FIELDS, path);
+
+  issues.string(raw, "id", path, true);
+  issues.string(raw, "name", path, true);
+  for (const key of ["description", "hudText", "hudTextActive", "hudTextComplete", "phase"]) {
+    issues.string(raw, key, path, false);
+  }
+  issues.number(raw, "sequence", path, false);
+  issues.number(raw, "progressMax", path, false, 0);
+  issues.number(raw, "rewardCredits", path, false, 0);
+  issues.oneOf(raw, "priority", path, Object.values(ObjectivePriority), false);
+  issues.oneOf(raw, "progressType", path, Object.values(ProgressIndicatorType), false);
+  if (raw.isOptional !== undefined && typeof raw.isOptional !== "boolean") {
+    issues.add(`${path}.isOptional`, `expected true or false, got ${describe(raw.isOptional)}`);
+  }
+  issues.stringList(raw, "radioOnStart", path, false);
+  issues.stringList(raw, "radioOnComplete", path, false);
+
+  if (raw.radioMilestones !== undefined) {
+    if (!isObject(raw.radioMilestones)) {
+      issues.add(`${path}.radioMilestones`, `expected an object of percent -> message, got ${describe(raw.radioMilestones)}`);
+    } else {
+      for (const [pct, msg] of Object.entries(raw.radioMilestones)) {
+        if (!["25", "50", "75"].includes(pct)) issues.add(`${path}.radioMilestones.${pct}`, "milestones are 25, 50 or 75");
+        if (typeof msg !== "string") issues.add(`${path}.radioMilestones.${pct}`, `expected a string, got ${describe(msg)}`);
+      }
+    }
+  }
+
+  if (raw.triggerStart !== undefined) {
+    if (typeof raw.triggerStart === "string") {
+      const reqId = raw.triggerStart.replace(/^objective_complete:/, "");
+      if (reqId === raw.triggerStart) {
+        issues.add(`${path}.triggerStart`, `string triggers must look like "objective_complete:<id>", got ${describe(raw.triggerStart)}`);
+      } else if (!refs.objectiveIds.has(reqId)) {
+        issues.add(`${path}.triggerStart`, `no objective with id "${reqId}"`);
+      }
+    } else {
+      validateTrigger(issues, raw.triggerStart, `${path}.triggerStart`, refs, false);
+    }
+  }
+  if (raw.triggerComplete === undefined) {
+    issues.add(`${path}.triggerComplete`, "is required");
+  } else {
+    validateTrigger(issues, raw.triggerComplete, `${path}.triggerComplete`, refs, false);
+  }
+  if (raw.triggerFail !== undefined && raw.triggerFail !== null) {
+    validateTrigger(issues, raw.triggerFail, `${path}.triggerFail`, refs, false);
+  }
+}
+
+function validateSpawn(issues: IssueCollector, raw: unknown, path: string, mode: MissionScriptMode | null): void {
+  if (!isObject(raw)) {
+    issues.add(path, `expected a spawn object, got ${describe(raw)}`);
+    return;
+  }
+  issues.unknownFields(raw, new Set(["unit", "count", "team", "at", "radius"]), path);
+
+  if (mode === "flight") {
+    issues.oneOf(raw, "unit", path, [...FIGHTER_ARCHETYPES.map((a) => a.id), ...CAPITAL_SCRIPT_UNITS], true);
+  } else if (mode === "ground") {
+    issues.oneOf(raw, "unit", path, GROUND_SCRIPT_UNITS, true);
+  }
+  issues.number(raw, "count", path, true, 1);
+  issues.oneOf(raw, "team", path, ["enemy", "ally"], false);
+  issues.number(raw, "radius", path, false, 0);
+
+  if (raw.at !== undefined) {
+    if (!isObject(raw.at)) {
+      issues.add(`${path}.at`, `expected { x, y, z }, got ${describe(raw.at)}`);
+    } else {
+      issues.unknownFields(raw.at, new Set(["x", "y", "z"]), `${path}.at`);
+      for (const axis of ["x", "y", "z"]) issues.number(raw.at, axis, `${path}.at`, true);
+    }
+  }
+}
+
+function validateList(
+  issues: IssueCollector,
+  raw: RawObject,
+  key: string,
+  path: string,
+  required: boolean,
+  each: (item: unknown, path: string) => void
+): void {
+  const value = raw[key];
+  const listPath = join(path, key);
+  if (value === undefined) {
+    if (required) issues.add(listPath, "is required");
+    return;
+  }
+  if (!Array.isArray(value)) {
+    issues.add(listPath, `expected a list, got ${describe(value)}`);
+    return;
+  }
+  if (required && value.length === 0) issues.add(listPath, "needs at least one entry");
+  value.forEach((item, i) => each(item, `${listPath}[${i}]`));
+}
+
+function collectIds(list: unknown, path: string, issues: IssueCollector): Set<string | number> {
+  const ids = new Set<string | number>();
+  if (!Array.isArray(list)) return ids;
+  list.forEach((item, i) => {
+    if (!isObject(item)) return;
+    const id = item.id;
+    if (typeof id !== "string" && typeof id !== "number") return;
+    if (ids.has(id)) issues.add(`${path}[${i}].id`, `duplicate id ${describe(id)}`);
+    ids.add(id);
+  });
+  return ids;
+}
+
+/**
+ * Check a parsed mission script. Returns every problem found, each with the
+ * path to the offending field; an empty list means the script is runnable.
+ */
+export function validateMissionScript(raw: unknown): MissionScriptIssue[] {
+  const issues = new IssueCollector();
+  if (!isObject(raw)) {
+    issues.add("", `expected a mission object, got ${describe(raw)}`);
+    return issues.issues;
+  }
+  issues.unknownFields(raw, SCRIPT_FIELDS, "");
+
+  if (raw.version !== MISSION_SCRIPT_VERSION) {
+    issues.add("version", `expected ${MISSION_SCRIPT_VERSION}, got ${describe(raw.version)}`);
+  }
+  issues.string(raw, "id", "", true);
+  issues.string(raw, "name", "", true);
+  issues.string(raw, "briefing", "", false);
+  issues.oneOf(raw, "mode", "", MISSION_SCRIPT_MODES, true);
+  issues.oneOf(raw, "planet", "", PLANETS.map((p) => p.id), false);
+  const mode = MISSION_SCRIPT_MODES.find((m) => m === raw.mode) ?? null;
+  if (mode === "flight" && raw.planet === undefined) issues.add("planet", "is required for flight missions");
+
+  if (raw.locations !== undefined) {
+    if (!isObject(raw.locations)) {
+      issues.add("locations", `expected an object of name -> { x, y, z }, got ${describe(raw.locations)}`);
+    } else {
+      for (const [name, point] of Object.entries(raw.locations)) {
+        const path = `locations.${name}`;
+        if (!isObject(point)) {
+          issues.add(path, `expected { x, y, z }, got ${describe(point)}`);
+          continue;
+        }
+        issues.unknownFields(point, new Set(["x", "y", "z"]), path);
+        for (const axis of ["x", "y", "z"]) issues.number(point, axis, path, true);
+      }
+    }
+  }
+
+  const refs: ScriptRefs = {
+    objectiveIds: new Set(
+      [...collectIds(raw.objectives, "objectives", issues)].filter((id): id is string => typeof id === "string")
+    ),
+    locations: new Set(isObject(raw.locations) ? Object.keys(raw.locations) : [])
+  };
+  collectIds(raw.waves, "waves", issues);
+  collectIds(raw.dialogue, "dialogue", issues);
+
+  validateList(issues, raw, "objectives", "", true, (item, path) => validateObjective(issues, item, path, refs));
+
+  validateList(issues, raw, "waves", "", false, (item, path) => {
+    if (!isObject(item)) {
+      issues.add(path, `expected a wave object, got ${describe(item)}`);
+      return;
+    }
+    issues.unknownFields(item, new Set(["id", "trigger", "spawns", "message"]), path);
+    issues.number(item, "id", path, true, 1);
+    if (typeof item.id === "number" && !Number.isInteger(item.id)) issues.add(`${path}.id`, "must be a whole number");
+    issues.string(item, "message", path, false);
+    if (item.trigger === undefined) issues.add(`${path}.trigger`, "is required");
+    else validateTrigger(issues, item.trigger, `${path}.trigger`, refs);
+    validateList(issues, item, "spawns", path, true, (spawn, spawnPath) => validateSpawn(issues, spawn, spawnPath, mode));
+  });
+
+  validateList(issues, raw, "dialogue", "", false, (item, path) => {
+    if (!isObject(item)) {
+      issues.add(path, `expected a dialogue object, got ${describe(item)}`);
+      return;
+    }
+    issues.unknownFields(item, new Set(["id", "trigger", "speaker", "lines"]), path);
+    issues.string(item, "id", path, true);
+    issues.oneOf(item, "speaker", path, MISSION_SCRIPT_SPEAKERS, true);
+    issues.stringList(item, "lines", path, true);
+    if (item.trigger === undefined) issues.add(`${path}.trigger`, "is required");
+    else validateTrigger(issues, item.trigger, `${path}.trigger`, refs);
+  });
+
+  if (raw.rewards !== undefined) {
+    if (!isObject(raw.rewards)) {
+      issues.add("rewards", `expected { credits }, got ${describe(raw.rewards)}`);
+    } else {
+      issues.unknownFields(raw.rewards, new Set(["credits"]), "rewards");
+      issues.number(raw.rewards, "credits", "rewards", false, 0);
+    }
+  }
+
+  return issues.issues;
+}
+
+/**
+ * One issue per line, for logs and error messages.
+ */
+export function formatMissionScriptIssues(issues: MissionScriptIssue[]): string {
+  return issues.map((issue) => `  ${issue.path || "(root)"}: ${issue.message}`).join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function normalizeObjective(raw: RawObject, index: number, previousId: string | null): ObjectiveDefinition {
+  const name = raw.name as string;
+  const hudText = (raw.hudText as string | undefined) ?? name.toUpperCase();
+  const isOptional = (raw.isOptional as boolean | undefined) ?? false;
+  const triggerStart = (raw.triggerStart as TriggerCondition | string | undefined) ??
+    (previousId && !isOptional
+      ? { type: TriggerType.OBJECTIVE_COMPLETE, objectiveId: previousId }
+      : { type: TriggerType.MISSION_START });
+
+  return {
+    id: raw.id as string,
+    name,
+    description: (raw.description as string | undefined) ?? "",
+    hudText,
+    hudTextActive: (raw.hudTextActive as string | undefined) ?? hudText,
+    hudTextComplete: (raw.hudTextComplete as string | undefined) ?? `${hudText} - COMPLETE`,
+    phase: (raw.phase as string | undefined) ?? "main",
+    sequence: (raw.sequence as number | undefined) ?? index + 1,
+    priority: (raw.priority as ObjectivePriority | undefined) ?? ObjectivePriority.NORMAL,
+    triggerStart,
+    triggerComplete: raw.triggerComplete as TriggerCondition,
+    triggerFail: (raw.triggerFail as TriggerCondition | null | undefined) ?? null,
+    progressType: (raw.progressType as ProgressIndicatorType | undefined) ?? ProgressIndicatorType.NONE,
+    progressMax: (raw.progressMax as number | undefined) ?? 1,
+    rewardCredits: (raw.rewardCredits as number | undefined) ?? 0,
+    isOptional,
+    radioOnStart: raw.radioOnStart as string[] | undefined,
+    radioOnComplete: raw.radioOnComplete as string[] | undefined,
+    radioMilestones: raw.radioMilestones as Record<string, string> | undefined
+  };
+}
+
+function normalizeSpawn(raw: RawObject, mode: MissionScriptMode): MissionSpawnDef {
+  const defaults = SPAWN_DEFAULTS[mode];
+  return {
+    unit: raw.unit as string,
+    count: raw.count as number,
+    team: (raw.team as MissionSpawnDef["team"] | undefined) ?? "enemy",
+    at: { ...((raw.at as MissionSpawnDef["at"] | undefined) ?? defaults.at) },
+    radius: (raw.radius as number | undefined) ?? defaults.radius
+  };
+}
+
+/**
+ * Parse a mission script from JSON text or an already parsed object (e.g. a
+ * bundled .json import or YAML loaded by tooling). Throws with every
+ * validation issue listed if the script is malformed.
+ */
+export function parseMissionScript(source: string | unknown): MissionScript {
+  let raw: unknown = source;
+  if (typeof source === "string") {
+    try {
+      raw = JSON.parse(source);
+    } catch (err) {
+      throw new Error(`Mission script is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const issues = validateMissionScript(raw);
+  if (issues.length > 0) {
+    const id = isObject(raw) && typeof raw.id === "string" ? ` "${raw.id}"` : "";
+    throw new Error(`Invalid mission script${id}:\n${formatMissionScriptIssues(issues)}`);
+  }
+
+  const obj = raw as RawObject;
+  const mode = obj.mode as MissionScriptMode;
+  const rawObjectives = obj.objectives as RawObject[];
+  const objectives: ObjectiveDefinition[] = [];
+  let previousRequired: string | null = null;
+  rawObjectives.forEach((o, i) => {
+    const def = normalizeObjective(o, i, previousRequired);
+    objectives.push(def);
+    if (!def.isOptional) previousRequired = def.id;
+  });
+
+  return {
+    version: MISSION_SCRIPT_VERSION,
+    id: obj.id as string,
+    name: obj.name as string,
+    mode,
+    planet: (obj.planet as string | undefined) ?? null,
+    briefing: (obj.briefing as string | undefined) ?? "",
+    locations: { ...((obj.locations as MissionScript["locations"] | undefined) ?? {}) },
+    objectives,
+    waves: ((obj.waves as RawObject[] | undefined) ?? []).map((w) => ({
+      id: w.id as number,
+      trigger: w.trigger as TriggerCondition,
+      spawns: (w.spawns as RawObject[]).map((s) => normalizeSpawn(s, mode)),
+      message: w.message as string | undefined
+    })),
+    dialogue: ((obj.dialogue as RawObject[] | undefined) ?? []).map((d) => ({
+      id: d.id as string,
+      trigger: d.trigger as TriggerCondition,
+      speaker: d.speaker as MissionScriptSpeaker,
+      lines: [...(d.lines as string[])]
+    })),
+    rewards: {
+      credits: ((obj.rewards as RawObject | undefined)?.credits as number | undefined) ?? 0
+    }
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MissionScriptOutcome = "active" | "complete" | "failed";
+
+export interface MissionScriptUpdate {
+  /** ObjectiveTracker events from this tick */
+  events: ObjectiveEvent[];
+  /** Waves whose trigger fired this tick - the scenario spawns them */
+  waves: MissionWaveDef[];
+  /** Dialogue whose trigger fired this tick - the scenario queues the lines */
+  dialogue: MissionDialogueDef[];
+  outcome: MissionScriptOutcome;
+}
+
+/**
+ * Runs a MissionScript against an ObjectiveContext the scenario builds each
+ * tick. Waves and dialogue fire once, the first tick their trigger holds.
+ * Script locations are measured from context.location.playerPosition.
+ * Once the mission completes or fails the runner stops ticking the tracker.
+ */
+export class MissionScriptRunner {
+  readonly script: MissionScript;
+  readonly tracker: ObjectiveTracker;
+  private spawnedWaves = new Set<number>();
+  private playedDialogue = new Set<string>();
+  private outcome: MissionScriptOutcome = "active";
+
+  constructor(script: MissionScript) {
+    this.script = script;
+    this.tracker = new ObjectiveTracker(script.objectives);
+  }
+
+  start(): void {
+    this.tracker.initialize();
+    this.spawnedWaves.clear();
+    this.playedDialogue.clear();
+    this.outcome = "active";
+  }
+
+  tick(dt: number, context: ObjectiveContext): MissionScriptUpdate {
+    const update: MissionScriptUpdate = { events: [], waves: [], dialogue: [], outcome: this.outcome };
+    if (this.outcome !== "active") return update;
+
+    const player = context.location.playerPosition;
+    for (const [name, point] of Object.entries(this.script.locations)) {
+      const dx = point.x - player.x;
+      const dy = point.y - player.y;
+      const dz = point.z - player.z;
+      context.location.locationDistances.set(name, Math.sqrt(dx * dx + dy * dy + dz * dz));
+    }
+
+    update.events = this.tracker.tick(dt, context);
+    for (const event of update.events) {
+      if (event.type === ObjectiveEventType.MISSION_FAILED) this.outcome = "failed";
+      else if (event.type === ObjectiveEventType.MISSION_COMPLETE && this.outcome === "active") this.outcome = "complete";
+    }
+
+    // Later triggers see objectives completed this tick
+    for (const wave of this.script.waves) {
+      if (this.spawnedWaves.has(wave.id) || !this.evaluate(wave.trigger, context)) continue;
+      this.spawnedWaves.add(wave.id);
+      update.waves.push(wave);
+    }
+    for (const line of this.script.dialogue) {
+      if (this.playedDialogue.has(line.id) || !this.evaluate(line.trigger, context)) continue;
+      this.playedDialogue.add(line.id);
+      update.dialogue.push(line);
+    }
+
+    update.outcome = this.outcome;
+    return update;
+  }
+
+  /**
+   * Tracker trigger evaluation plus DURATION, which the tracker leaves to
+   * callers: true once the mission clock passes `seconds`.
+   */
+  evaluate(trigger: TriggerCondition, context: ObjectiveContext): boolean {
+    switch (trigger.type) {
+      case TriggerType.DURATION:
+        return context.missionTime >= (trigger.seconds ?? 0);
+      case TriggerType.COMPOUND:
+        return (trigger.conditions ?? []).length > 0 &&
+          (trigger.conditions ?? []).every((cond) => this.evaluate(cond, context));
+      default:
+        return this.tracker.evaluateTrigger(trigger, context);
+    }
+  }
+
+  /**
+   * End the mission as failed for reasons outside the script (player killed).
+   */
+  fail(): void {
+    if (this.outcome === "active") this.outcome = "failed";
+  }
+
+  getOutcome(): MissionScriptOutcome {
+    return this.outcome;
+  }
+
+  hasSpawnedWave(id: number): boolean {
+    return this.spawnedWaves.has(id);
+  }
+
+  /**
+   * Objective rewards earned so far, plus the completion bonus once won.
+   */
+  getRewardCredits(): number {
+    const bonus = this.outcome === "complete" ? this.script.rewards.credits : 0;
+    return this.tracker.getTotalCreditsEarned() + bonus;
+  }
+}
@@ -9,11 +9,35 @@ import {
   type ObjectiveEvent,
   type TriggerCondition,
   type ObjectiveTrackerSaveData,
+  type KillTrackingData,
   ObjectiveStatus,
   ObjectiveEventType,
   TriggerType
 } from "./objective-types";
 
+/**
+ * Kills a KILL_COUNT / KILL_ALL trigger is looking at. Totals include the
+ * wingmen's share, so `killedBy` subtracts one side or the other.
+ */
+function countKills(kills: KillTrackingData, trigger: TriggerCondition): number {
+  const pick = (all: number, wingmen: number): number =>
+    trigger.killedBy === "wingmen" ? wingmen : trigger.killedBy === "player" ? all - wingmen : all;
+
+  if (trigger.type === TriggerType.KILL_ALL) {
+    return (trigger.targetTypes ?? []).reduce(
+      (sum, type) => sum + pick(kills.byType.get(type) ?? 0, kills.wingmanByType.get(type) ?? 0),
+      0
+    );
+  }
+  if (trigger.waveId !== undefined) {
+    return pick(kills.byWave.get(trigger.waveId) ?? 0, kills.wingmanByWave.get(trigger.waveId) ?? 0);
+  }
+  if (trigger.targetType) {
+    return pick(kills.byType.get(trigger.targetType) ?? 0, kills.wingmanByType.get(trigger.targetType) ?? 0);
+  }
+  return pick(kills.total, kills.wingmanTotal);
+}
+
 export class ObjectiveTracker {
   private objectiveStates: Map<string, ObjectiveState> = new Map();
   private activeObjectiveId: string | null = null;
@@ -156,21 +180,11 @@ export class ObjectiveTracker {
           : false;
 
       case TriggerType.KILL_COUNT:
-        if (trigger.waveId !== undefined) {
-          return (context.kills.byWave.get(trigger.waveId) ?? 0) >= (trigger.count ?? 0);
-        }
-        if (trigger.targetType) {
-          return (context.kills.byType.get(trigger.targetType) ?? 0) >= (trigger.count ?? 0);
-        }
-        return context.kills.total >= (trigger.count ?? 0);
+        return countKills(context.kills, trigger) >= (trigger.count ?? 0);
 
       case TriggerType.KILL_ALL:
         if (trigger.targetTypes) {
-          const totalOfTypes = trigger.targetTypes.reduce(
-            (sum, type) => sum + (context.kills.byType.get(type) ?? 0),
-            0
-          );
-          return totalOfTypes >= (trigger.count ?? 0);
+          return countKills(context.kills, trigger) >= (trigger.count ?? 0);
         }
         return false;
 
@@ -271,19 +285,12 @@ export class ObjectiveTracker {
     // Calculate progress based on trigger type
     switch (trigger.type) {
       case TriggerType.KILL_COUNT:
-        if (trigger.waveId !== undefined) {
-          newProgress = context.kills.byWave.get(trigger.waveId) ?? 0;
-        } else if (trigger.targetType) {
-          newProgress = context.kills.byType.get(trigger.targetType) ?? 0;
-        }
+        newProgress = countKills(context.kills, trigger);
         break;
 
       case TriggerType.KILL_ALL:
         if (trigger.targetTypes) {
-          newProgress = trigger.targetTypes.reduce(
-            (sum, type) => sum + (context.kills.byType.get(type) ?? 0),
-            0
-          );
+          newProgress = countKills(context.kills, trigger);
         }
         break;
 
@@ -305,6 +312,11 @@ export class ObjectiveTracker {
         newProgress = context.entities.cableWraps;
         break;
 
+      case TriggerType.INTERACT:
+        // Whole seconds so progress events fire once per second, not per frame
+        newProgress = Math.floor(context.interactProgress);
+        break;
+
       case TriggerType.COMPOUND:
         // Count how many sub-conditions are met
         if (trigger.conditions) {
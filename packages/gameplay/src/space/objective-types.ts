@@ -70,6 +70,11 @@ export enum ObjectiveEventType {
 // Interfaces
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Who made a kill: the player's own guns or an AI wingman flying with them */
+export type KillSource = "player" | "wingmen";
+
+export const KILL_SOURCES: readonly KillSource[] = ["player", "wingmen"];
+
 export interface TriggerCondition {
   type: TriggerType;
   /** Numeric value for thresholds (altitude, health %, etc.) */
@@ -94,6 +99,8 @@ export interface TriggerCondition {
   objectiveId?: string;
   /** Wave ID for wave-specific kills */
   waveId?: number;
+  /** Only count kills from this source for KILL_COUNT / KILL_ALL (both when omitted) */
+  killedBy?: KillSource;
   /** Location name for REACH_LOCATION */
   location?: string;
   /** NPC name for escort triggers */
@@ -181,6 +188,12 @@ export interface KillTrackingData {
   byWave: Map<number, number>;
   /** Total kills */
   total: number;
+  /** Share of byType made by wingmen */
+  wingmanByType: Map<string, number>;
+  /** Share of byWave made by wingmen */
+  wingmanByWave: Map<number, number>;
+  /** Share of total made by wingmen */
+  wingmanTotal: number;
   /** Current kill streak */
   streak: number;
   /** Whether current streak is valid (player above shield threshold) */
@@ -295,6 +308,9 @@ export function createDefaultObjectiveContext(): ObjectiveContext {
       byType: new Map(),
       byWave: new Map(),
       total: 0,
+      wingmanByType: new Map(),
+      wingmanByWave: new Map(),
+      wingmanTotal: 0,
       streak: 0,
       streakValid: true
     },
@@ -0,0 +1,139 @@
+/**
+ * Pilot Record
+ *
+ * The player's service record kept in the profile: recent mission history,
+ * best score per scenario and unlocked awards. Debriefs are folded in with
+ * recordMission; stored records come back through sanitizePilotRecord.
+ */
+
+import { AWARDS, MEDAL_RATINGS, type MedalRating, type MissionDebrief, type MissionOutcome } from "./debrief";
+
+export type MissionRecord = {
+  scenario: string;
+  title: string;
+  outcome: MissionOutcome;
+  score: number;
+  rating: MedalRating;
+  kills: number;
+  accuracy: number;
+  missionTime: number;
+  /** Wall-clock time the mission ended (ms since epoch) */
+  flownAt: number;
+};
+
+export type PilotRecord = {
+  /** Newest last, capped at MAX_MISSION_HISTORY */
+  missions: MissionRecord[];
+  bestScores: Record<string, number>;
+  /** Award ids in the order they were unlocked */
+  awards: string[];
+};
+
+export type PilotRecordUpdate = {
+  /** Beat (or set) the best score for this scenario */
+  newBest: boolean;
+  /** Awards unlocked for the first time */
+  newAwards: string[];
+};
+
+export const MAX_MISSION_HISTORY = 50;
+const MAX_SCORE = 9_999_999;
+const MAX_MISSION_TIME = 24 * 60 * 60;
+const MAX_TEXT_LENGTH = 64;
+
+export function createDefaultPilotRecord(): PilotRecord {
+  return {
+    missions: [],
+    bestScores: {},
+    awards: []
+  };
+}
+
+/**
+ * Add a finished mission to the record.
+ */
+export function recordMission(record: PilotRecord, debrief: MissionDebrief, flownAt = Date.now()): PilotRecordUpdate {
+  record.missions.push({
+    scenario: debrief.scenario,
+    title: debrief.title,
+    outcome: debrief.outcome,
+    score: debrief.score,
+    rating: debrief.rating,
+    kills: debrief.kills,
+    accuracy: debrief.accuracy,
+    missionTime: debrief.missionTime,
+    flownAt
+  });
+  while (record.missions.length > MAX_MISSION_HISTORY) record.missions.shift();
+
+  const best = record.bestScores[debrief.scenario];
+  const newBest = best === undefined || debrief.score > best;
+  if (newBest) record.bestScores[debrief.scenario] = debrief.score;
+
+  const newAwards = debrief.awards.filter((id) => !record.awards.includes(id));
+  record.awards.push(...newAwards);
+
+  return { newBest, newAwards };
+}
+
+/**
+ * Validate a stored pilot record. Malformed missions and unknown awards are
+ * dropped; numbers are clamped.
+ */
+export function sanitizePilotRecord(raw: unknown): PilotRecord {
+  const record = createDefaultPilotRecord();
+  if (typeof raw !== "object" || raw === null) return record;
+  const r = raw as Partial<Record<keyof PilotRecord, unknown>>;
+
+  if (Array.isArray(r.missions)) {
+    for (const m of r.missions.slice(-MAX_MISSION_HISTORY)) {
+      const mission = sanitizeMission(m);
+      if (mission) record.missions.push(mission);
+    }
+  }
+
+  if (typeof r.bestScores === "object" && r.bestScores !== null) {
+    for (const [scenario, score] of Object.entries(r.bestScores as Record<string, unknown>)) {
+      if (scenario.length === 0 || scenario.length > MAX_TEXT_LENGTH) continue;
+      if (typeof score !== "number" || !Number.isFinite(score)) continue;
+      record.bestScores[scenario] = clampNumber(Math.floor(score), 0, MAX_SCORE);
+    }
+  }
+
+  if (Array.isArray(r.awards)) {
+    for (const id of r.awards) {
+      if (AWARDS.some((a) => a.id === id) && !record.awards.includes(id as string)) {
+        record.awards.push(id as string);
+      }
+    }
+  }
+
+  return record;
+}
+
+function sanitizeMission(raw: unknown): MissionRecord | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const m = raw as Partial<Record<keyof MissionRecord, unknown>>;
+  if (typeof m.scenario !== "string" || m.scenario.length === 0) return null;
+  if (m.outcome !== "victory" && m.outcome !== "defeat") return null;
+
+  return {
+    scenario: m.scenario.slice(0, MAX_TEXT_LENGTH),
+    title: typeof m.title === "string" ? m.title.slice(0, MAX_TEXT_LENGTH) : m.scenario.slice(0, MAX_TEXT_LENGTH),
+    outcome: m.outcome,
+    score: Math.floor(toNumber(m.score, 0, MAX_SCORE)),
+    rating: MEDAL_RATINGS.includes(m.rating as MedalRating) ? (m.rating as MedalRating) : "none",
+    kills: Math.floor(toNumber(m.kills, 0, 9999)),
+    accuracy: toNumber(m.accuracy, 0, 1),
+    missionTime: toNumber(m.missionTime, 0, MAX_MISSION_TIME),
+    flownAt: Math.floor(toNumber(m.flownAt, 0, Number.MAX_SAFE_INTEGER))
+  };
+}
+
+function toNumber(v: unknown, min: number, max: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? clampNumber(v, min, max) : min;
+}
+
+function clampNumber(v: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, v));
+}
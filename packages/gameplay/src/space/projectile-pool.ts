@@ -72,6 +72,7 @@ function createPooledProjectile(world: IWorld, type: number): number {
   Projectile.life[eid] = 0;
   Projectile.owner[eid] = -1;
   Projectile.damage[eid] = 0;
+  Projectile.ion[eid] = 0;
 
   Pooled.originalType[eid] = type;
 
@@ -144,6 +145,7 @@ export function releaseProjectile(world: IWorld, eid: number, type: number = 0):
   Projectile.life[eid] = 0;
   Projectile.owner[eid] = -1;
   Projectile.damage[eid] = 0;
+  Projectile.ion[eid] = 0;
   Pooled.originalType[eid] = type;
 
   pool.push(eid);
@@ -14,7 +14,7 @@
 
 import { IWorld, defineQuery, hasComponent } from "bitecs";
 import { SpatialHash } from "@xwingz/physics";
-import { Health, HitRadius, Transform, Team, AIControlled } from "./components";
+import { Health, HitRadius, Transform, Team, AIControlled, Obstacle } from "./components";
 
 // Query for all combat-relevant entities (fighters, capital ships, subsystems)
 const combatEntityQuery = defineQuery([Health, HitRadius, Transform]);
@@ -22,6 +22,13 @@ const combatEntityQuery = defineQuery([Health, HitRadius, Transform]);
 // Query for AI-controlled entities (for separation system optimization)
 const aiEntityQuery = defineQuery([AIControlled, Transform]);
 
+// Query for obstacles (debris, wrecks) that only matter to flight collision
+const obstacleQuery = defineQuery([Obstacle, HitRadius, Transform]);
+
+// Capital ship hull boxes reach past their HitRadius (half the length) at
+// the corners; widen collider queries enough to cover them
+const COLLIDER_REACH = 1.25;
+
 /**
  * Unified spatial index for space combat.
  *
@@ -39,6 +46,14 @@ class SpaceCombatSpatialIndex {
   // Separate index for AI entities only (for separation system)
   private aiHash: SpatialHash;
 
+  // Obstacles: not shot at or targeted, only flown into
+  private obstacleHash: SpatialHash;
+
+  // Largest HitRadius in each hash, so collider queries can reach the
+  // centre of anything whose surface is inside the query radius
+  private maxCombatRadius = 0;
+  private maxObstacleRadius = 0;
+
   // Track if rebuilt this frame
   private frameRebuilt = false;
 
@@ -48,15 +63,19 @@ class SpaceCombatSpatialIndex {
     // - Old capital-systems.ts cell size 150
     this.combatHash = new SpatialHash(120);
     this.aiHash = new SpatialHash(100); // Smaller cells for tighter AI separation
+    this.obstacleHash = new SpatialHash(120);
   }
 
   /**
    * Rebuild all spatial indices. Call once per frame before any queries.
-   * Single pass inserts into both hashes.
+   * Single pass inserts into both combat hashes, then one over obstacles.
    */
   rebuild(world: IWorld): void {
     this.combatHash.clear();
     this.aiHash.clear();
+    this.obstacleHash.clear();
+    this.maxCombatRadius = 0;
+    this.maxObstacleRadius = 0;
 
     // Single pass over combat entities
     const combatEntities = combatEntityQuery(world);
@@ -67,6 +86,7 @@ class SpaceCombatSpatialIndex {
 
       // Insert into main combat hash
       this.combatHash.insert(eid, x, y, z);
+      this.maxCombatRadius = Math.max(this.maxCombatRadius, HitRadius.r[eid] ?? 0);
 
       // Also insert AI entities into AI-specific hash
       if (hasComponent(world, AIControlled, eid)) {
@@ -74,6 +94,11 @@ class SpaceCombatSpatialIndex {
       }
     }
 
+    for (const eid of obstacleQuery(world)) {
+      this.obstacleHash.insert(eid, Transform.x[eid] ?? 0, Transform.y[eid] ?? 0, Transform.z[eid] ?? 0);
+      this.maxObstacleRadius = Math.max(this.maxObstacleRadius, HitRadius.r[eid] ?? 0);
+    }
+
     this.frameRebuilt = true;
   }
 
@@ -93,6 +118,20 @@ class SpaceCombatSpatialIndex {
     return this.aiHash.query(x, y, z, radius);
   }
 
+  /**
+   * Query everything a ship could fly into near a point: combatants and
+   * obstacles whose HitRadius may reach within radius of it. The search is
+   * widened by the largest radius indexed (and a margin for hull boxes
+   * longer than their HitRadius), so callers still do the exact test.
+   */
+  queryColliders(x: number, y: number, z: number, radius: number): number[] {
+    const nearby = this.combatHash.query(x, y, z, radius + this.maxCombatRadius * COLLIDER_REACH);
+    if (this.maxObstacleRadius > 0) {
+      nearby.push(...this.obstacleHash.query(x, y, z, radius + this.maxObstacleRadius * COLLIDER_REACH));
+    }
+    return nearby;
+  }
+
   /**
    * Filter query results by team (enemy filter for targeting).
    */
@@ -114,12 +153,19 @@ class SpaceCombatSpatialIndex {
   /**
    * Get debug stats for profiling.
    */
-  getStats(): { combatCells: number; combatEntities: number; aiCells: number; aiEntities: number } {
+  getStats(): {
+    combatCells: number;
+    combatEntities: number;
+    aiCells: number;
+    aiEntities: number;
+    obstacleEntities: number;
+  } {
     return {
       combatCells: this.combatHash.cellCount,
       combatEntities: this.combatHash.entityCount,
       aiCells: this.aiHash.cellCount,
       aiEntities: this.aiHash.entityCount,
+      obstacleEntities: this.obstacleHash.entityCount,
     };
   }
 
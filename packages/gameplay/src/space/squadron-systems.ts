@@ -0,0 +1,425 @@
+/**
+ * AI Fighter Squadrons
+ *
+ * Squadron entities hold a leader and formation slots. In transit the
+ * members fly their slots behind the leader; once a hostile comes inside
+ * engagement range they break into pairs (odd slots fly wing on the even
+ * slot before them and share its target). Squadrons flagged for pincers
+ * first swing two flanks wide around the target and close from both sides.
+ * Heavy losses scatter the squadron into lone dogfighters.
+ *
+ * Engagement range, pincer width and timing scale with the squadron's
+ * aggression; how soon it scatters scales with its evadeBias.
+ *
+ * Isolated from main systems.ts to prevent god script bloat.
+ */
+
+import { IWorld, addComponent, addEntity, defineQuery, removeEntity } from "bitecs";
+import { Quaternion, Vector3 } from "@xwingz/core";
+import {
+  FighterBrain,
+  Health,
+  Squadron,
+  SquadronMember,
+  SquadronTactic,
+  Team,
+  Transform,
+  Velocity
+} from "./components";
+import { AIState, isSteeredExternally, isValidTarget } from "./systems";
+import { FormationShape, flyFormationSlot, formationSlotOffset, setThrottle, steerTowards } from "./formation";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const squadronQuery = defineQuery([Squadron]);
+const memberQuery = defineQuery([SquadronMember, FighterBrain, Transform, Team]);
+const combatantQuery = defineQuery([Health, Transform, Team]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Ships per squadron when formSquadrons splits a wave */
+export const SQUADRON_SIZE = 4;
+/** Default gap between formation slots (m) */
+const DEFAULT_SPACING = 35;
+/** Engagement range at aggression 0 and 1 (m) */
+const ENGAGE_RANGE_MIN = 900;
+const ENGAGE_RANGE_MAX = 1400;
+/** Engaged squadrons drop a target this far past engagement range */
+const DISENGAGE_FACTOR = 1.5;
+/** Fewest ships worth splitting into two flanks */
+const PINCER_MIN_MEMBERS = 4;
+/** Flank swing-out from the attack axis at aggression 0 and 1 (m) */
+const PINCER_WIDTH_MIN = 250;
+const PINCER_WIDTH_MAX = 450;
+/** Longest flanking run before closing regardless, at aggression 0 and 1 (s) */
+const PINCER_TIME_MIN = 5;
+const PINCER_TIME_MAX = 9;
+/** A flanker this close to its waypoint is in position (m) */
+const PINCER_ARRIVE = 150;
+/** Surviving fraction that scatters the squadron, at evadeBias 0 and 1 */
+const SCATTER_STRENGTH_MIN = 0.25;
+const SCATTER_STRENGTH_MAX = 0.6;
+
+const membersBySquadron = new Map<number, number[]>();
+const tmpOffset = new Vector3();
+const tmpQ = new Quaternion();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Creation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SquadronOptions = {
+  /** Metres between slots (default 35) */
+  spacing?: number;
+  /** Open engagements with a pincer (TIE doctrine) */
+  pincer?: boolean;
+};
+
+/**
+ * Group fighters into a squadron. The first is the leader (slot 0), the rest
+ * take slots in order. Aggression and evadeBias are averaged from their
+ * FighterBrains. Returns the squadron eid.
+ */
+export function createSquadron(
+  world: IWorld,
+  members: readonly number[],
+  formation: FormationShape,
+  options: SquadronOptions = {}
+): number {
+  const sq = addEntity(world);
+  addComponent(world, Squadron, sq);
+
+  let aggression = 0;
+  let evadeBias = 0;
+  members.forEach((eid, slot) => {
+    addComponent(world, SquadronMember, eid);
+    SquadronMember.squadronEid[eid] = sq;
+    SquadronMember.slot[eid] = slot;
+    SquadronMember.flank[eid] = 0;
+    aggression += FighterBrain.aggression[eid] ?? 0.6;
+    evadeBias += FighterBrain.evadeBias[eid] ?? 0.5;
+  });
+  const n = Math.max(1, members.length);
+
+  Squadron.team[sq] = members.length > 0 ? (Team.id[members[0]!] ?? 1) : 1;
+  Squadron.leaderEid[sq] = members[0] ?? -1;
+  Squadron.formation[sq] = formation;
+  Squadron.spacing[sq] = options.spacing ?? DEFAULT_SPACING;
+  Squadron.tactic[sq] = SquadronTactic.Transit;
+  Squadron.tacticTime[sq] = 0;
+  Squadron.targetEid[sq] = -1;
+  Squadron.pincer[sq] = options.pincer ? 1 : 0;
+  Squadron.aggression[sq] = aggression / n;
+  Squadron.evadeBias[sq] = evadeBias / n;
+  Squadron.startCount[sq] = members.length;
+  Squadron.memberCount[sq] = members.length;
+  return sq;
+}
+
+/**
+ * Split fighters into squadrons of `size` (the last may be short). Returns
+ * the squadron eids.
+ */
+export function formSquadrons(
+  world: IWorld,
+  eids: readonly number[],
+  formation: FormationShape,
+  options: SquadronOptions = {},
+  size = SQUADRON_SIZE
+): number[] {
+  const squadrons: number[] = [];
+  for (let i = 0; i < eids.length; i += size) {
+    squadrons.push(createSquadron(world, eids.slice(i, i + size), formation, options));
+  }
+  return squadrons;
+}
+
+/**
+ * Snap every member onto its slot with the leader's heading and velocity,
+ * so a freshly spawned squadron starts in formation.
+ */
+export function arrangeFormation(world: IWorld, sq: number): void {
+  const leader = Squadron.leaderEid[sq] ?? -1;
+  if (leader < 0) return;
+  tmpQ.set(
+    Transform.qx[leader] ?? 0,
+    Transform.qy[leader] ?? 0,
+    Transform.qz[leader] ?? 0,
+    Transform.qw[leader] ?? 1
+  );
+  const shape = (Squadron.formation[sq] ?? FormationShape.Wedge) as FormationShape;
+  const spacing = Squadron.spacing[sq] ?? DEFAULT_SPACING;
+
+  for (const eid of memberQuery(world)) {
+    if (eid === leader || SquadronMember.squadronEid[eid] !== sq) continue;
+    formationSlotOffset(shape, SquadronMember.slot[eid] ?? 0, spacing, tmpOffset).applyQuaternion(tmpQ);
+    Transform.x[eid] = (Transform.x[leader] ?? 0) + tmpOffset.x;
+    Transform.y[eid] = (Transform.y[leader] ?? 0) + tmpOffset.y;
+    Transform.z[eid] = (Transform.z[leader] ?? 0) + tmpOffset.z;
+    Transform.qx[eid] = tmpQ.x;
+    Transform.qy[eid] = tmpQ.y;
+    Transform.qz[eid] = tmpQ.z;
+    Transform.qw[eid] = tmpQ.w;
+    Velocity.vx[eid] = Velocity.vx[leader] ?? 0;
+    Velocity.vy[eid] = Velocity.vy[leader] ?? 0;
+    Velocity.vz[eid] = Velocity.vz[leader] ?? 0;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run squadron tactics. Call before dogfightAISystem: it takes over the
+ * members this leaves in Pursue and skips the ones flying slots or flanks.
+ */
+export function squadronSystem(world: IWorld, dt: number): void {
+  membersBySquadron.clear();
+  for (const eid of memberQuery(world)) {
+    const sq = SquadronMember.squadronEid[eid] ?? -1;
+    if (sq < 0) continue;
+    let list = membersBySquadron.get(sq);
+    if (!list) {
+      list = [];
+      membersBySquadron.set(sq, list);
+    }
+    list.push(eid);
+  }
+
+  for (const sq of squadronQuery(world)) {
+    const members = membersBySquadron.get(sq) ?? [];
+    Squadron.memberCount[sq] = members.length;
+    if (members.length === 0) {
+      removeEntity(world, sq);
+      continue;
+    }
+    Squadron.tacticTime[sq] = (Squadron.tacticTime[sq] ?? 0) + dt;
+    if (Squadron.tactic[sq] === SquadronTactic.Scatter) continue;
+
+    members.sort((a, b) => (SquadronMember.slot[a] ?? 0) - (SquadronMember.slot[b] ?? 0));
+    const leader = ensureLeader(sq, members);
+
+    const strength = members.length / Math.max(1, Squadron.startCount[sq] ?? 1);
+    if (strength < lerp(SCATTER_STRENGTH_MIN, SCATTER_STRENGTH_MAX, Squadron.evadeBias[sq] ?? 0.5)) {
+      setTactic(sq, SquadronTactic.Scatter);
+      for (const eid of members) release(eid, FighterBrain.targetEid[eid] ?? -1);
+      continue;
+    }
+
+    updateTactic(world, sq, leader, members);
+
+    switch (Squadron.tactic[sq]) {
+      case SquadronTactic.Transit:
+        holdFormation(sq, leader, members, dt);
+        break;
+      case SquadronTactic.Pincer:
+        flyPincer(world, sq, members, dt);
+        break;
+      case SquadronTactic.Engage:
+        fightInPairs(world, sq, members);
+        break;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tactics
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Keep slot 0 on a living leader; when the leader is lost, the next slot
+ * takes over and everyone closes up.
+ */
+function ensureLeader(sq: number, members: number[]): number {
+  const leader = members[0]!;
+  if (Squadron.leaderEid[sq] === leader && SquadronMember.slot[leader] === 0) return leader;
+
+  Squadron.leaderEid[sq] = leader;
+  members.forEach((eid, slot) => { SquadronMember.slot[eid] = slot; });
+  if (Squadron.tactic[sq] === SquadronTactic.Transit) release(leader, -1);
+  return leader;
+}
+
+/**
+ * Pick or drop the squadron's target and switch between transit and combat.
+ */
+function updateTactic(world: IWorld, sq: number, leader: number, members: number[]): void {
+  const team = Squadron.team[sq] ?? 1;
+  const range = lerp(ENGAGE_RANGE_MIN, ENGAGE_RANGE_MAX, Squadron.aggression[sq] ?? 0.6);
+  const tactic = Squadron.tactic[sq] as SquadronTactic;
+  const reach = tactic === SquadronTactic.Transit ? range : range * DISENGAGE_FACTOR;
+
+  let target = Squadron.targetEid[sq] ?? -1;
+  if (!isValidTarget(world, leader, target, team) || distSq(leader, target) > reach * reach) {
+    target = nearestHostile(world, leader, team, reach);
+  }
+  Squadron.targetEid[sq] = target;
+
+  if (tactic === SquadronTactic.Transit && target >= 0) {
+    if (Squadron.pincer[sq] === 1 && members.length >= PINCER_MIN_MEMBERS) {
+      setTactic(sq, SquadronTactic.Pincer);
+      // Pairs alternate flanks: leader's pair left, next pair right...
+      for (const eid of members) {
+        SquadronMember.flank[eid] = Math.floor((SquadronMember.slot[eid] ?? 0) / 2) % 2 === 0 ? -1 : 1;
+      }
+    } else {
+      setTactic(sq, SquadronTactic.Engage);
+    }
+  } else if (tactic !== SquadronTactic.Transit && target < 0) {
+    setTactic(sq, SquadronTactic.Transit);
+  }
+}
+
+/**
+ * Transit: the leader flies its own course (dogfightAISystem), the rest
+ * hold their slots with weapons cold.
+ */
+function holdFormation(sq: number, leader: number, members: number[], dt: number): void {
+  const shape = (Squadron.formation[sq] ?? FormationShape.Wedge) as FormationShape;
+  const spacing = Squadron.spacing[sq] ?? DEFAULT_SPACING;
+
+  for (const eid of members) {
+    if (eid === leader) {
+      if (isSteeredExternally(FighterBrain.state[eid] ?? 0)) release(eid, -1);
+      continue;
+    }
+    FighterBrain.targetEid[eid] = -1;
+    setState(eid, AIState.FormUp);
+    formationSlotOffset(shape, SquadronMember.slot[eid] ?? 0, spacing, tmpOffset);
+    flyFormationSlot(eid, leader, tmpOffset, dt);
+  }
+}
+
+/**
+ * Pincer: each flank runs at full throttle for a waypoint off its side of
+ * the attack axis. When half the squadron is in position, or time runs out,
+ * everyone turns in on the target.
+ */
+function flyPincer(world: IWorld, sq: number, members: number[], dt: number): void {
+  const target = Squadron.targetEid[sq] ?? -1;
+  const leader = Squadron.leaderEid[sq] ?? -1;
+  const aggression = Squadron.aggression[sq] ?? 0.6;
+  const width = lerp(PINCER_WIDTH_MAX, PINCER_WIDTH_MIN, aggression);
+
+  // Attack axis: leader to target, flattened
+  const tx = Transform.x[target] ?? 0;
+  const ty = Transform.y[target] ?? 0;
+  const tz = Transform.z[target] ?? 0;
+  let ax = tx - (Transform.x[leader] ?? 0);
+  let az = tz - (Transform.z[leader] ?? 0);
+  const len = Math.hypot(ax, az);
+  if (len > 1e-3) {
+    ax /= len;
+    az /= len;
+  } else {
+    ax = 0;
+    az = -1;
+  }
+
+  let arrived = 0;
+  for (const eid of members) {
+    const flank = SquadronMember.flank[eid] || 1;
+    // Perpendicular (-az, ax) out to the flank, pulled short of the target
+    const wx = tx - az * flank * width - ax * width * 0.25;
+    const wz = tz + ax * flank * width - az * width * 0.25;
+    const dx = wx - (Transform.x[eid] ?? 0);
+    const dy = ty - (Transform.y[eid] ?? 0);
+    const dz = wz - (Transform.z[eid] ?? 0);
+    if (dx * dx + dy * dy + dz * dz < PINCER_ARRIVE * PINCER_ARRIVE) arrived++;
+
+    FighterBrain.targetEid[eid] = target;
+    setState(eid, AIState.Flank);
+    steerTowards(eid, dx, dy, dz);
+    setThrottle(eid, 1, dt);
+  }
+
+  const maxTime = lerp(PINCER_TIME_MAX, PINCER_TIME_MIN, aggression);
+  if (arrived * 2 >= members.length || (Squadron.tacticTime[sq] ?? 0) > maxTime) {
+    setTactic(sq, SquadronTactic.Engage);
+    fightInPairs(world, sq, members);
+  }
+}
+
+/**
+ * Engage: even slots lead a pair and pick fights (falling back to the
+ * squadron's target), odd slots fly wing and shoot what their lead shoots.
+ */
+function fightInPairs(world: IWorld, sq: number, members: number[]): void {
+  const team = Squadron.team[sq] ?? 1;
+  const squadTarget = Squadron.targetEid[sq] ?? -1;
+
+  for (const eid of members) {
+    const slot = SquadronMember.slot[eid] ?? 0;
+    const lead = slot % 2 === 1 ? members.find((m) => SquadronMember.slot[m] === slot - 1) ?? -1 : -1;
+    const leadTarget = lead >= 0 ? FighterBrain.targetEid[lead] ?? -1 : -1;
+
+    let tid = FighterBrain.targetEid[eid] ?? -1;
+    if (lead >= 0 && isValidTarget(world, eid, leadTarget, team)) {
+      tid = leadTarget;
+    } else if (!isValidTarget(world, eid, tid, team)) {
+      tid = squadTarget;
+    }
+
+    if (isSteeredExternally(FighterBrain.state[eid] ?? 0)) {
+      release(eid, tid);
+    } else if (tid !== FighterBrain.targetEid[eid]) {
+      FighterBrain.targetEid[eid] = tid;
+      FighterBrain.state[eid] = AIState.Pursue;
+      FighterBrain.stateTime[eid] = 0;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function setTactic(sq: number, tactic: SquadronTactic): void {
+  Squadron.tactic[sq] = tactic;
+  Squadron.tacticTime[sq] = 0;
+}
+
+function setState(eid: number, state: AIState): void {
+  if (FighterBrain.state[eid] !== state) {
+    FighterBrain.state[eid] = state;
+    FighterBrain.stateTime[eid] = 0;
+  }
+}
+
+/** Hand a ship back to dogfightAISystem, chasing `tid` if it has one */
+function release(eid: number, tid: number): void {
+  if (!isSteeredExternally(FighterBrain.state[eid] ?? 0) && tid === FighterBrain.targetEid[eid]) return;
+  FighterBrain.targetEid[eid] = tid;
+  FighterBrain.state[eid] = tid >= 0 ? AIState.Pursue : AIState.Acquire;
+  FighterBrain.stateTime[eid] = 0;
+}
+
+function nearestHostile(world: IWorld, from: number, team: number, range: number): number {
+  let best = -1;
+  let bestD2 = range * range;
+  for (const tid of combatantQuery(world)) {
+    if ((Team.id[tid] ?? -1) === team || (Health.hp[tid] ?? 0) <= 0) continue;
+    const d2 = distSq(from, tid);
+    if (d2 <= bestD2) {
+      bestD2 = d2;
+      best = tid;
+    }
+  }
+  return best;
+}
+
+function distSq(a: number, b: number): number {
+  const dx = (Transform.x[a] ?? 0) - (Transform.x[b] ?? 0);
+  const dy = (Transform.y[a] ?? 0) - (Transform.y[b] ?? 0);
+  const dz = (Transform.z[a] ?? 0) - (Transform.z[b] ?? 0);
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * Math.min(1, Math.max(0, t));
+}
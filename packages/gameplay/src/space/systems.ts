@@ -1,4 +1,4 @@
-import { IWorld, addEntity, addComponent, defineQuery, removeEntity, hasComponent } from "bitecs";
+import { IWorld, addEntity, addComponent, defineQuery, exitQuery, removeEntity, hasComponent } from "bitecs";
 import { Euler, Quaternion, Vector3 } from "@xwingz/core";
 import {
   AngularVelocity,
@@ -6,11 +6,13 @@ import {
   FighterBrain,
   Health,
   HitRadius,
+  IonCannon,
   LaserWeapon,
   PlayerControlled,
   Projectile,
   Ship,
   Shield,
+  ShotCounter,
   Team,
   Targetable,
   Targeting,
@@ -20,25 +22,20 @@ import {
   TorpedoProjectile,
   WeaponLoadout
 } from "./components";
+import { CapitalShipV2, Subsystem } from "./capital-components";
 import type { SpaceInputState } from "./input";
+import { inputFor } from "./coop";
 import { spaceCombatIndex } from "./spatial-index";
+import { computeObstacleAvoidance } from "./collision";
 import { acquireProjectile, releaseProjectile, isPooled } from "./projectile-pool";
+import { pushImpactEvent } from "./impact-events";
 
-export type ImpactEvent = {
-  x: number;
-  y: number;
-  z: number;
-  team: number; // team of shooter, -1 unknown
-  killed: 0 | 1;
-};
+export { consumeImpactEvents, type ImpactEvent, type ImpactKind } from "./impact-events";
 
-const impactEvents: ImpactEvent[] = [];
-
-export function consumeImpactEvents(): ImpactEvent[] {
-  return impactEvents.splice(0, impactEvents.length);
-}
-
-export function spawnPlayerShip(world: IWorld, params?: Partial<{ maxSpeed: number; accel: number; turnRate: number; torpedoAmmo: number }>) {
+export function spawnPlayerShip(
+  world: IWorld,
+  params?: Partial<{ maxSpeed: number; accel: number; turnRate: number; torpedoAmmo: number; ionCannon: boolean }>
+) {
   const eid = addEntity(world);
   addComponent(world, Transform, eid);
   addComponent(world, Velocity, eid);
@@ -53,6 +50,7 @@ export function spawnPlayerShip(world: IWorld, params?: Partial<{ maxSpeed: numb
   addComponent(world, HitRadius, eid);
   addComponent(world, Shield, eid);
   addComponent(world, PlayerControlled, eid);
+  addComponent(world, ShotCounter, eid);
 
   Transform.x[eid] = 0;
   Transform.y[eid] = 0;
@@ -96,10 +94,22 @@ export function spawnPlayerShip(world: IWorld, params?: Partial<{ maxSpeed: numb
 
   WeaponLoadout.activeWeapon[eid] = 0;  // Start with lasers
 
+  // Optional ion cannon - a third weapon on the switch cycle
+  if (params?.ionCannon) {
+    addComponent(world, IonCannon, eid);
+    IonCannon.cooldown[eid] = 0.3;
+    IonCannon.cooldownRemaining[eid] = 0;
+    IonCannon.projectileSpeed[eid] = 600;
+    IonCannon.ion[eid] = 30;
+  }
+
   Targeting.targetEid[eid] = -1;
+  ShotCounter.fired[eid] = 0;
 
   Health.hp[eid] = 360;    // 3x for better survivability against turrets
   Health.maxHp[eid] = 360;
+  Health.ion[eid] = 0;
+  Health.ionLock[eid] = 0;
   HitRadius.r[eid] = 11;
 
   Shield.maxSp[eid] = 420;  // 7x for better survivability against turrets
@@ -136,6 +146,7 @@ const tmpDesired = new Vector3();
 const tmpLocal = new Vector3();
 const tmpTargetVel = new Vector3();
 const tmpSep = new Vector3();
+const tmpAvoid = new Vector3();
 const tmpLateral = new Vector3();
 const tmpShotDir = new Vector3();
 const tmpShotQ = new Quaternion();
@@ -158,12 +169,24 @@ const TIE_MOUNTS: Array<[number, number, number]> = [
   [0.65, 0.0, -1.35]
 ];
 
-export function spaceflightSystem(world: IWorld, input: SpaceInputState, dt: number) {
+export function spaceflightSystem(world: IWorld, pilotInput: SpaceInputState, dt: number) {
   const ships = shipQuery(world);
   const players = playerQuery(world);
 
   for (const eid of ships) {
+    // Ion-locked: controls are dead and the ship coasts on its momentum
+    if (isIonLocked(eid)) {
+      AngularVelocity.wx[eid] = 0;
+      AngularVelocity.wy[eid] = 0;
+      AngularVelocity.wz[eid] = 0;
+      Transform.x[eid] = (Transform.x[eid] ?? 0) + (Velocity.vx[eid] ?? 0) * dt;
+      Transform.y[eid] = (Transform.y[eid] ?? 0) + (Velocity.vy[eid] ?? 0) * dt;
+      Transform.z[eid] = (Transform.z[eid] ?? 0) + (Velocity.vz[eid] ?? 0) * dt;
+      continue;
+    }
+
     const isPlayer = players.includes(eid);
+    const input = isPlayer ? inputFor(world, eid, pilotInput) : pilotInput;
 
     // Input to angular velocity / throttle.
     if (isPlayer) {
@@ -318,6 +341,10 @@ function fireLaser(world: IWorld, shooterEid: number, targetEid: number) {
     Projectile.life[pid] = 2.2;
     Projectile.owner[pid] = shooterEid;
     Projectile.damage[pid] = damagePer;
+    Projectile.ion[pid] = 0;
+  }
+  if (hasComponent(world, ShotCounter, shooterEid)) {
+    ShotCounter.fired[shooterEid] = (ShotCounter.fired[shooterEid] ?? 0) + mounts.length;
   }
 }
 
@@ -333,7 +360,21 @@ export function weaponSystem(world: IWorld, input: SpaceInputState, dt: number)
     const cdRem = Math.max(0, cdRem0 - dt);
     LaserWeapon.cooldownRemaining[eid] = cdRem;
 
-    if (!input.firePrimary || cdRem > 0) continue;
+    const hasIon = hasComponent(world, IonCannon, eid);
+    const ionRem = Math.max(0, (IonCannon.cooldownRemaining[eid] ?? 0) - dt);
+    if (hasIon) IonCannon.cooldownRemaining[eid] = ionRem;
+
+    if (!inputFor(world, eid, input).firePrimary || isIonLocked(eid)) continue;
+
+    // The primary trigger fires the ion cannon while it's the selected weapon
+    if (hasIon && WeaponLoadout.activeWeapon[eid] === 2) {
+      if (ionRem > 0) continue;
+      IonCannon.cooldownRemaining[eid] = IonCannon.cooldown[eid] ?? 0.3;
+      fireIonCannon(world, eid);
+      continue;
+    }
+
+    if (cdRem > 0) continue;
     LaserWeapon.cooldownRemaining[eid] = cd;
 
     fireLaser(world, eid, Targeting.targetEid[eid] ?? -1);
@@ -348,12 +389,13 @@ export function aiWeaponSystem(world: IWorld, dt: number) {
     const cdRem0 = LaserWeapon.cooldownRemaining[eid] ?? 0;
     const cdRem = Math.max(0, cdRem0 - dt);
     LaserWeapon.cooldownRemaining[eid] = cdRem;
-    if (cdRem > 0) continue;
+    if (cdRem > 0 || isIonLocked(eid)) continue;
 
     const tid = FighterBrain.targetEid[eid] ?? -1;
     if (tid < 0) continue;
-    if (!hasComponent(world, Transform, tid) || !hasComponent(world, Health, tid) || !hasComponent(world, Team, tid)) continue;
-    if ((Team.id[tid] ?? -1) === (Team.id[eid] ?? -2)) continue;
+    if (!hasComponent(world, Transform, tid) || !hasComponent(world, Health, tid)) continue;
+    const targetTeam = combatTeam(world, tid);
+    if (targetTeam < 0 || targetTeam === (Team.id[eid] ?? -2)) continue;
 
     const sx = Transform.x[eid] ?? 0;
     const sy = Transform.y[eid] ?? 0;
@@ -412,6 +454,7 @@ export function projectileSystem(world: IWorld, dt: number) {
     const pz = Transform.z[eid] ?? 0;
     const owner = Projectile.owner[eid] ?? -1;
     const dmg = Projectile.damage[eid] ?? 0;
+    const ion = Projectile.ion[eid] ?? 0;
 
     const ownerTeam =
       owner >= 0 && hasComponent(world, Team, owner) ? (Team.id[owner] ?? -1) : -1;
@@ -432,6 +475,7 @@ export function projectileSystem(world: IWorld, dt: number) {
       const dz = (Transform.z[tid] ?? 0) - pz;
       const r = HitRadius.r[tid] ?? 8;
       if (dx * dx + dy * dy + dz * dz <= r * r) {
+        if (ion > 0) applyIonDamage(world, tid, ion);
         const shieldSp = Shield.sp[tid];
         if (shieldSp !== undefined && Shield.maxSp[tid] !== undefined) {
           const spLeft = shieldSp - dmg;
@@ -446,8 +490,9 @@ export function projectileSystem(world: IWorld, dt: number) {
         // Return projectile to pool instead of removing
         releaseProjectile(world, eid, 0);
         const killed = (Health.hp[tid] ?? 0) <= 0;
-        impactEvents.push({ x: px, y: py, z: pz, team: ownerTeam, killed: killed ? 1 : 0 });
-        if (killed) {
+        pushImpactEvent({ kind: "projectile", x: px, y: py, z: pz, team: ownerTeam, killed: killed ? 1 : 0, shooter: owner, victim: tid });
+        // Capital ships come apart in capitalDestructionSystem instead
+        if (killed && !hasComponent(world, CapitalShipV2, tid)) {
           removeEntity(world, tid);
         }
         break;
@@ -458,10 +503,13 @@ export function projectileSystem(world: IWorld, dt: number) {
 
 export function targetingSystem(world: IWorld, input: SpaceInputState) {
   const players = targetingQuery(world);
-  if (players.length === 0) return;
-  const pid = players[0];
-  if (pid === undefined) return;
+  for (let i = 0; i < players.length; i++) {
+    const pid = players[i]!;
+    updatePlayerTarget(world, pid, inputFor(world, pid, input));
+  }
+}
 
+function updatePlayerTarget(world: IWorld, pid: number, input: SpaceInputState): void {
   const targets = targetableQuery(world);
   const myTeam = Team.id[pid] ?? 0;
   const hostiles = targets.filter((eid) => (Team.id[eid] ?? -1) !== myTeam);
@@ -529,7 +577,17 @@ export enum AIState {
   Pursue = 1,
   Attack = 2,
   BreakOff = 3,
-  Evade = 4
+  Evade = 4,
+  FormUp = 5,  // holding a slot on the flight leader (flown by wingman/squadron systems)
+  Cover = 6,   // escorting the leader with nothing to shoot (flown by wingmanCommandSystem)
+  Flank = 7,   // swinging wide for a pincer (flown by squadronSystem)
+  Dock = 8     // damaged, flying home to its carrier's hangar (flown by hangarSystem)
+}
+
+/** States some other system flies; dogfightAISystem leaves them alone */
+export function isSteeredExternally(state: number): boolean {
+  return state === AIState.FormUp || state === AIState.Cover || state === AIState.Flank ||
+    state === AIState.Dock;
 }
 
 export function dogfightAISystem(world: IWorld, dt: number) {
@@ -538,6 +596,7 @@ export function dogfightAISystem(world: IWorld, dt: number) {
 
   for (const eid of ais) {
     let state = FighterBrain.state[eid] ?? AIState.Acquire;
+    if (isSteeredExternally(state)) continue;
     let stateTime = (FighterBrain.stateTime[eid] ?? 0) + dt;
 
     const myTeam = Team.id[eid] ?? 1;
@@ -681,6 +740,13 @@ export function dogfightAISystem(world: IWorld, dt: number) {
       desiredWorld.addScaledVector(tmpSep, sepWeight).normalize();
     }
 
+    // Fly around hulls, wreckage and debris in the flight path; close to
+    // impact this outweighs the attack run
+    const avoidUrgency = computeObstacleAvoidance(world, eid, tmpAvoid);
+    if (avoidUrgency > 0) {
+      desiredWorld.addScaledVector(tmpAvoid, avoidUrgency * 3).normalize();
+    }
+
     tmpQ.set(
       Transform.qx[eid] ?? 0,
       Transform.qy[eid] ?? 0,
@@ -722,13 +788,25 @@ export function dogfightAISystem(world: IWorld, dt: number) {
   }
 }
 
-function isValidTarget(world: IWorld, self: number, tid: number, myTeam: number) {
-  if (tid < 0 || tid === self) return false;
-  if (!hasComponent(world, Transform, tid) || !hasComponent(world, Health, tid) || !hasComponent(world, Team, tid)) {
-    return false;
+/**
+ * Team an entity fights for. Capital ship subsystems carry no Team of their
+ * own and answer for their parent hull. -1 when it has neither.
+ */
+export function combatTeam(world: IWorld, eid: number): number {
+  if (hasComponent(world, Team, eid)) return Team.id[eid] ?? -1;
+  if (hasComponent(world, Subsystem, eid)) {
+    const parent = Subsystem.parentEid[eid] ?? -1;
+    if (parent >= 0 && hasComponent(world, Team, parent)) return Team.id[parent] ?? -1;
   }
+  return -1;
+}
+
+export function isValidTarget(world: IWorld, self: number, tid: number, myTeam: number) {
+  if (tid < 0 || tid === self) return false;
+  if (!hasComponent(world, Transform, tid) || !hasComponent(world, Health, tid)) return false;
   if ((Health.hp[tid] ?? 0) <= 0) return false;
-  if ((Team.id[tid] ?? -1) === myTeam) return false;
+  const theirTeam = combatTeam(world, tid);
+  if (theirTeam < 0 || theirTeam === myTeam) return false;
   return true;
 }
 
@@ -766,7 +844,7 @@ export function shieldRegenSystem(world: IWorld, dt: number) {
     if (maxSp <= 0) continue;
     const lastHit = Shield.lastHit[eid] ?? 999;
     Shield.lastHit[eid] = lastHit + dt;
-    if (lastHit < 2) continue;
+    if (lastHit < 2 || isIonLocked(eid)) continue;
     const sp = Shield.sp[eid] ?? 0;
     const regen = Shield.regenRate[eid] ?? 0;
     Shield.sp[eid] = Math.min(maxSp, sp + regen * dt);
@@ -908,16 +986,16 @@ export function torpedoLockSystem(world: IWorld, input: SpaceInputState, dt: num
 }
 
 /**
- * Handles weapon switching between lasers and torpedoes.
+ * Handles weapon switching: lasers, torpedoes, then the ion cannon if fitted.
  */
 export function weaponSwitchSystem(world: IWorld, input: SpaceInputState): void {
-  if (!input.switchWeapon) return;
-
   const players = playerQuery(world);
   for (const eid of players) {
+    if (!inputFor(world, eid, input).switchWeapon) continue;
     if (!hasComponent(world, WeaponLoadout, eid)) continue;
     const current = WeaponLoadout.activeWeapon[eid] ?? 0;
-    WeaponLoadout.activeWeapon[eid] = current === 0 ? 1 : 0;
+    const slots = hasComponent(world, IonCannon, eid) ? 3 : 2;
+    WeaponLoadout.activeWeapon[eid] = (current + 1) % slots;
   }
 }
 
@@ -932,7 +1010,7 @@ export function torpedoFireSystem(world: IWorld, input: SpaceInputState, dt: num
     const cdRem = Math.max(0, (TorpedoLauncher.cooldownRemaining[eid] ?? 0) - dt);
     TorpedoLauncher.cooldownRemaining[eid] = cdRem;
 
-    if (!input.fireSecondary || cdRem > 0) continue;
+    if (!inputFor(world, eid, input).fireSecondary || cdRem > 0 || isIonLocked(eid)) continue;
 
     const ammo = TorpedoLauncher.ammo[eid] ?? 0;
     const lockProgress = TorpedoLauncher.lockProgress[eid] ?? 0;
@@ -946,6 +1024,9 @@ export function torpedoFireSystem(world: IWorld, input: SpaceInputState, dt: num
 
     const targetEid = TorpedoLauncher.lockTargetEid[eid] ?? -1;
     fireTorpedo(world, eid, targetEid);
+    if (hasComponent(world, ShotCounter, eid)) {
+      ShotCounter.fired[eid] = (ShotCounter.fired[eid] ?? 0) + 1;
+    }
   }
 }
 
@@ -1107,9 +1188,11 @@ export function torpedoProjectileSystem(world: IWorld, dt: number): void {
 
         removeEntity(world, eid);
         const killed = (Health.hp[tid] ?? 0) <= 0;
-        impactEvents.push({ x: newPx, y: newPy, z: newPz, team: ownerTeam, killed: killed ? 1 : 0 });
+        pushImpactEvent({
+          kind: "projectile", x: newPx, y: newPy, z: newPz, team: ownerTeam, killed: killed ? 1 : 0, shooter: owner, victim: tid
+        });
 
-        if (killed) {
+        if (killed && !hasComponent(world, CapitalShipV2, tid)) {
           removeEntity(world, tid);
         }
         break;
@@ -1139,3 +1222,125 @@ export function getTorpedoState(world: IWorld): { ammo: number; maxAmmo: number;
 export function getTorpedoProjectiles(world: IWorld): number[] {
   return torpedoProjectileQuery(world);
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ION DAMAGE
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ionQuery = defineQuery([Health]);
+const ionExitQuery = exitQuery(ionQuery);
+
+/** Shield points an ion hit drains per point of ion charge */
+const ION_SHIELD_DRAIN = 2;
+/** Seconds a ship or subsystem stays dead after an ion overload */
+export const ION_LOCK_TIME = 6;
+/** Fraction of maxHp the ion charge bleeds off per second */
+const ION_DECAY = 0.05;
+
+/** True while an ion overload has the entity locked up */
+export function isIonLocked(eid: number): boolean {
+  return (Health.ionLock[eid] ?? 0) > 0;
+}
+
+/**
+ * Ion hit: drains shields first (twice as fast as lasers), and whatever gets
+ * through builds ion charge. A charge reaching maxHp locks the entity up for
+ * ION_LOCK_TIME. Never touches hull. Returns true if this hit overloaded it.
+ */
+export function applyIonDamage(world: IWorld, eid: number, amount: number): boolean {
+  if (amount <= 0 || !hasComponent(world, Health, eid)) return false;
+
+  let charge = amount;
+  if (hasComponent(world, Shield, eid)) {
+    const sp = Shield.sp[eid] ?? 0;
+    Shield.lastHit[eid] = 0;
+    if (sp > 0) {
+      const drain = charge * ION_SHIELD_DRAIN;
+      Shield.sp[eid] = Math.max(0, sp - drain);
+      charge = Math.max(0, drain - sp) / ION_SHIELD_DRAIN;
+    }
+  }
+  if (charge <= 0 || isIonLocked(eid)) return false;
+
+  const ion = (Health.ion[eid] ?? 0) + charge;
+  if (ion >= (Health.maxHp[eid] ?? 0)) {
+    Health.ion[eid] = 0;
+    Health.ionLock[eid] = ION_LOCK_TIME;
+    return true;
+  }
+  Health.ion[eid] = ion;
+  return false;
+}
+
+/**
+ * Counts down ion locks and bleeds off ion charge once the lock has cleared.
+ */
+export function ionSystem(world: IWorld, dt: number): void {
+  // Stores outlive their entities; don't hand a recycled eid a stale charge
+  for (const eid of ionExitQuery(world)) {
+    Health.ion[eid] = 0;
+    Health.ionLock[eid] = 0;
+  }
+
+  for (const eid of ionQuery(world)) {
+    const lock = Health.ionLock[eid] ?? 0;
+    if (lock > 0) {
+      Health.ionLock[eid] = Math.max(0, lock - dt);
+      continue;
+    }
+    const ion = Health.ion[eid] ?? 0;
+    if (ion > 0) {
+      Health.ion[eid] = Math.max(0, ion - (Health.maxHp[eid] ?? 0) * ION_DECAY * dt);
+    }
+  }
+}
+
+/**
+ * Fires a single ion bolt straight ahead from the nose.
+ */
+function fireIonCannon(world: IWorld, shooterEid: number): void {
+  tmpQ.set(
+    Transform.qx[shooterEid] ?? 0,
+    Transform.qy[shooterEid] ?? 0,
+    Transform.qz[shooterEid] ?? 0,
+    Transform.qw[shooterEid] ?? 1
+  );
+  tmpForward.set(0, 0, -1).applyQuaternion(tmpQ).normalize();
+  const speed = IonCannon.projectileSpeed[shooterEid] ?? 600;
+
+  const pid = acquireProjectile(world, 0);
+  Transform.x[pid] = (Transform.x[shooterEid] ?? 0) + tmpForward.x * 8;
+  Transform.y[pid] = (Transform.y[shooterEid] ?? 0) + tmpForward.y * 8;
+  Transform.z[pid] = (Transform.z[shooterEid] ?? 0) + tmpForward.z * 8;
+  Transform.qx[pid] = tmpQ.x;
+  Transform.qy[pid] = tmpQ.y;
+  Transform.qz[pid] = tmpQ.z;
+  Transform.qw[pid] = tmpQ.w;
+
+  Velocity.vx[pid] = (Velocity.vx[shooterEid] ?? 0) + tmpForward.x * speed;
+  Velocity.vy[pid] = (Velocity.vy[shooterEid] ?? 0) + tmpForward.y * speed;
+  Velocity.vz[pid] = (Velocity.vz[shooterEid] ?? 0) + tmpForward.z * speed;
+
+  Projectile.life[pid] = 2.2;
+  Projectile.owner[pid] = shooterEid;
+  Projectile.damage[pid] = 0;
+  Projectile.ion[pid] = IonCannon.ion[shooterEid] ?? 30;
+
+  if (hasComponent(world, ShotCounter, shooterEid)) {
+    ShotCounter.fired[shooterEid] = (ShotCounter.fired[shooterEid] ?? 0) + 1;
+  }
+}
+
+/**
+ * Player's ion charge (0..1 of overload) and lock time left, for the HUD.
+ */
+export function getIonState(world: IWorld): { charge: number; lockRemaining: number } | null {
+  const eid = getPlayerShip(world);
+  if (eid === null || !hasComponent(world, Health, eid)) return null;
+
+  const maxHp = Health.maxHp[eid] ?? 0;
+  return {
+    charge: maxHp > 0 ? clamp01((Health.ion[eid] ?? 0) / maxHp) : 0,
+    lockRemaining: Health.ionLock[eid] ?? 0
+  };
+}
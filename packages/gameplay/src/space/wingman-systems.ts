@@ -0,0 +1,255 @@
+/**
+ * Wingman Command System
+ *
+ * Turns the flight leader's standing orders (WingmanOrder) into FighterBrain
+ * targets and states. Attack orders only pick the target - dogfightAISystem
+ * still flies the run. FormUp and Cover are flown here, so dogfightAISystem
+ * leaves those two states alone.
+ *
+ * Isolated from main systems.ts to prevent god script bloat.
+ */
+
+import { IWorld, addComponent, defineQuery, hasComponent } from "bitecs";
+import { Vector3 } from "@xwingz/core";
+import {
+  AIControlled,
+  AngularVelocity,
+  FighterBrain,
+  Health,
+  Ship,
+  Team,
+  Transform,
+  WingmanCommand,
+  WingmanOrder
+} from "./components";
+import { Subsystem } from "./capital-components";
+import { AIState, combatTeam, isSteeredExternally, isValidTarget } from "./systems";
+import { FormationShape, flyFormationSlot, formationSlotOffset } from "./formation";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const wingmanQuery = defineQuery([WingmanOrder, AIControlled, FighterBrain, Ship, Transform, AngularVelocity, Team]);
+const combatantQuery = defineQuery([Health, Transform, Team]);
+const subsystemQuery = defineQuery([Subsystem, Health, Transform]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tuning
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Lateral and trailing gap between formation slots (m) */
+const FORMATION_SPACING = 28;
+/** Hostiles this close to the leader get engaged under CoverMe (m) */
+const COVER_RADIUS = 600;
+
+const tmpOffset = new Vector3();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Orders
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Give the same order to a group of wingmen. Living wingmen fill formation
+ * slots in the order given. AttackTarget needs a hostile `targetEid` and
+ * AttackSubsystems a hostile subsystem somewhere in the world; otherwise the
+ * order is refused. Returns how many wingmen took it.
+ */
+export function issueWingmanCommand(
+  world: IWorld,
+  wingmen: readonly number[],
+  command: WingmanCommand,
+  leaderEid: number,
+  targetEid = -1
+): number {
+  let slot = 0;
+  for (const eid of wingmen) {
+    if (!hasComponent(world, FighterBrain, eid) || !hasComponent(world, Transform, eid)) continue;
+    const myTeam = Team.id[eid] ?? 0;
+    if (command === WingmanCommand.AttackTarget && !isValidTarget(world, eid, targetEid, myTeam)) continue;
+    if (command === WingmanCommand.AttackSubsystems && findSubsystemTarget(world, eid, myTeam) < 0) continue;
+
+    if (!hasComponent(world, WingmanOrder, eid)) addComponent(world, WingmanOrder, eid);
+    WingmanOrder.command[eid] = command;
+    WingmanOrder.leaderEid[eid] = leaderEid;
+    WingmanOrder.targetEid[eid] = command === WingmanCommand.AttackTarget ? targetEid : -1;
+    WingmanOrder.slot[eid] = slot++;
+
+    // Drop whatever it was chasing so the new order takes effect this tick
+    FighterBrain.targetEid[eid] = -1;
+    if (command === WingmanCommand.Escort) releaseFromLeader(eid);
+  }
+  return slot;
+}
+
+/**
+ * Nearest subsystem on a hostile capital ship, -1 when there is none.
+ */
+export function findSubsystemTarget(world: IWorld, self: number, myTeam: number): number {
+  const sx = Transform.x[self] ?? 0;
+  const sy = Transform.y[self] ?? 0;
+  const sz = Transform.z[self] ?? 0;
+
+  let best = -1;
+  let bestD2 = Number.POSITIVE_INFINITY;
+  for (const sid of subsystemQuery(world)) {
+    if ((Health.hp[sid] ?? 0) <= 0 || Subsystem.disabled[sid] === 1) continue;
+    const team = combatTeam(world, sid);
+    if (team < 0 || team === myTeam) continue;
+    const d2 = distSq(sid, sx, sy, sz);
+    if (d2 < bestD2) {
+      bestD2 = d2;
+      best = sid;
+    }
+  }
+  return best;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// System
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Apply standing wingman orders. Run before dogfightAISystem so it picks up
+ * the targets chosen here.
+ */
+export function wingmanCommandSystem(world: IWorld, dt: number): void {
+  for (const eid of wingmanQuery(world)) {
+    const command = (WingmanOrder.command[eid] ?? WingmanCommand.Escort) as WingmanCommand;
+    if (command === WingmanCommand.Escort) continue;
+
+    const leader = WingmanOrder.leaderEid[eid] ?? -1;
+    if (leader < 0 || !hasComponent(world, Transform, leader)) {
+      // Nobody left to take orders from
+      revertToEscort(eid);
+      continue;
+    }
+
+    const myTeam = Team.id[eid] ?? 0;
+    const current = FighterBrain.targetEid[eid] ?? -1;
+
+    switch (command) {
+      case WingmanCommand.AttackTarget: {
+        const tid = WingmanOrder.targetEid[eid] ?? -1;
+        if (isValidTarget(world, eid, tid, myTeam)) {
+          engage(eid, tid);
+        } else {
+          // Target's gone: order complete
+          revertToEscort(eid);
+        }
+        break;
+      }
+
+      case WingmanCommand.CoverMe: {
+        const threat = isValidTarget(world, eid, current, myTeam) && nearLeader(current, leader)
+          ? current
+          : findThreatToLeader(world, leader, myTeam);
+        if (threat >= 0) {
+          engage(eid, threat);
+        } else {
+          FighterBrain.targetEid[eid] = -1;
+          setState(eid, AIState.Cover, dt);
+          flyFormation(eid, leader, dt);
+        }
+        break;
+      }
+
+      case WingmanCommand.FormUp:
+        FighterBrain.targetEid[eid] = -1;
+        setState(eid, AIState.FormUp, dt);
+        flyFormation(eid, leader, dt);
+        break;
+
+      case WingmanCommand.AttackSubsystems: {
+        const tid = hasComponent(world, Subsystem, current) && isValidTarget(world, eid, current, myTeam)
+          ? current
+          : findSubsystemTarget(world, eid, myTeam);
+        if (tid >= 0) {
+          engage(eid, tid);
+        } else {
+          // Nothing left to strip
+          revertToEscort(eid);
+        }
+        break;
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function engage(eid: number, tid: number): void {
+  if ((FighterBrain.targetEid[eid] ?? -1) === tid && !isSteeredExternally(FighterBrain.state[eid] ?? 0)) return;
+  FighterBrain.targetEid[eid] = tid;
+  FighterBrain.state[eid] = AIState.Pursue;
+  FighterBrain.stateTime[eid] = 0;
+}
+
+function setState(eid: number, state: AIState, dt: number): void {
+  if (FighterBrain.state[eid] === state) {
+    FighterBrain.stateTime[eid] = (FighterBrain.stateTime[eid] ?? 0) + dt;
+  } else {
+    FighterBrain.state[eid] = state;
+    FighterBrain.stateTime[eid] = 0;
+  }
+}
+
+function releaseFromLeader(eid: number): void {
+  if (isSteeredExternally(FighterBrain.state[eid] ?? 0)) {
+    FighterBrain.state[eid] = AIState.Acquire;
+    FighterBrain.stateTime[eid] = 0;
+  }
+}
+
+function revertToEscort(eid: number): void {
+  WingmanOrder.command[eid] = WingmanCommand.Escort;
+  WingmanOrder.targetEid[eid] = -1;
+  releaseFromLeader(eid);
+}
+
+function distSq(eid: number, x: number, y: number, z: number): number {
+  const dx = (Transform.x[eid] ?? 0) - x;
+  const dy = (Transform.y[eid] ?? 0) - y;
+  const dz = (Transform.z[eid] ?? 0) - z;
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function nearLeader(eid: number, leader: number): boolean {
+  return distSq(eid, Transform.x[leader] ?? 0, Transform.y[leader] ?? 0, Transform.z[leader] ?? 0) <=
+    COVER_RADIUS * COVER_RADIUS;
+}
+
+/**
+ * Hostile to go after while covering the leader: anything already chasing
+ * them wins, else the nearest hostile inside COVER_RADIUS.
+ */
+function findThreatToLeader(world: IWorld, leader: number, myTeam: number): number {
+  const lx = Transform.x[leader] ?? 0;
+  const ly = Transform.y[leader] ?? 0;
+  const lz = Transform.z[leader] ?? 0;
+
+  let best = -1;
+  let bestScore = COVER_RADIUS * COVER_RADIUS;
+  for (const tid of combatantQuery(world)) {
+    if ((Team.id[tid] ?? -1) === myTeam || (Health.hp[tid] ?? 0) <= 0) continue;
+    let score = distSq(tid, lx, ly, lz);
+    if (score > COVER_RADIUS * COVER_RADIUS) continue;
+    if (hasComponent(world, FighterBrain, tid) && FighterBrain.targetEid[tid] === leader) score *= 0.25;
+    if (score <= bestScore) {
+      bestScore = score;
+      best = tid;
+    }
+  }
+  return best;
+}
+
+/**
+ * Fly to this wingman's slot on the leader: a wedge alternating right and
+ * left. Slot 0 of a formation is the leader's own, so wingmen start at 1.
+ */
+function flyFormation(eid: number, leader: number, dt: number): void {
+  formationSlotOffset(FormationShape.Wedge, (WingmanOrder.slot[eid] ?? 0) + 1, FORMATION_SPACING, tmpOffset);
+  flyFormationSlot(eid, leader, tmpOffset, dt);
+}
@@ -1,5 +1,6 @@
 /**
- * Transition module - Space↔Ground coordinate bridging
+ * Transition module - Space↔Ground coordinate bridging and landing/launch sequences
  */
 
 export * from "./coordinates";
+export * from "./sequence";
@@ -0,0 +1,191 @@
+/**
+ * Transition Sequence - Scripted landing and launch flight paths
+ *
+ * Drives an entity carrying TransitionState from its source to its target
+ * position over a fixed duration: landing eases into a touchdown flare,
+ * launch lifts off slowly then climbs away. Player control is expected to be
+ * suspended while a sequence runs. When one finishes a completion event is
+ * queued with the state that was preserved at its start, so the mode on the
+ * other side of the switch can restore it.
+ */
+
+import { IWorld, addComponent, defineQuery, hasComponent, removeComponent } from "bitecs";
+import { Quaternion } from "@xwingz/core";
+import { Transform, Velocity } from "../space/components";
+import { TransitionState, TRANSITION_TYPE } from "../conquest/components";
+import { interpolateTransition, type Vec3 } from "./coordinates";
+
+/** Seconds from the landing gate to touchdown */
+export const LANDING_DURATION = 4;
+
+/** Seconds from liftoff to the landing gate altitude */
+export const LAUNCH_DURATION = 3;
+
+export type TransitionType = (typeof TRANSITION_TYPE)[keyof typeof TRANSITION_TYPE];
+
+export type TransitionPhase = "entry" | "descent" | "touchdown" | "liftoff" | "climb" | "breakaway";
+
+export type TransitionCompleteEvent = {
+  eid: number;
+  type: TransitionType;
+  x: number;
+  y: number;
+  z: number;
+  planetEid: number;
+  preservedHealth: number;
+  preservedShields: number;
+};
+
+const transitionCompleteEvents: TransitionCompleteEvent[] = [];
+
+export function consumeTransitionCompleteEvents(): TransitionCompleteEvent[] {
+  return transitionCompleteEvents.splice(0, transitionCompleteEvents.length);
+}
+
+const transitionQuery = defineQuery([TransitionState, Transform]);
+
+/**
+ * Start a landing or launch sequence on an entity.
+ * `preserved` is carried through unchanged to the completion event.
+ */
+export function beginTransition(
+  world: IWorld,
+  eid: number,
+  type: typeof TRANSITION_TYPE.LANDING | typeof TRANSITION_TYPE.LAUNCHING,
+  source: Vec3,
+  target: Vec3,
+  preserved: { health: number; shields: number },
+  planetEid = -1
+): void {
+  if (!hasComponent(world, TransitionState, eid)) addComponent(world, TransitionState, eid);
+
+  TransitionState.type[eid] = type;
+  TransitionState.progress[eid] = 0;
+  TransitionState.sourceX[eid] = source.x;
+  TransitionState.sourceY[eid] = source.y;
+  TransitionState.sourceZ[eid] = source.z;
+  TransitionState.targetX[eid] = target.x;
+  TransitionState.targetY[eid] = target.y;
+  TransitionState.targetZ[eid] = target.z;
+  TransitionState.planetEid[eid] = planetEid;
+  TransitionState.preservedHealth[eid] = preserved.health;
+  TransitionState.preservedShields[eid] = preserved.shields;
+}
+
+/**
+ * Drop the sequence (finished or aborted) and hand the entity back.
+ */
+export function endTransition(world: IWorld, eid: number): void {
+  if (hasComponent(world, TransitionState, eid)) removeComponent(world, TransitionState, eid);
+}
+
+export function isTransitioning(world: IWorld, eid: number): boolean {
+  return hasComponent(world, TransitionState, eid) && TransitionState.type[eid] !== TRANSITION_TYPE.NONE;
+}
+
+/**
+ * Position along the sequence path. Horizontal and vertical motion ease
+ * separately: landing sheds height early and flares at touchdown; launch
+ * climbs first and only then accelerates forward.
+ */
+export function transitionPathPosition(type: TransitionType, source: Vec3, target: Vec3, progress: number): Vec3 {
+  const p = Math.max(0, Math.min(1, progress));
+  let horizontal: number;
+  let vertical: number;
+  if (type === TRANSITION_TYPE.LAUNCHING) {
+    horizontal = p * p * p;
+    vertical = p * p;
+  } else {
+    horizontal = 1 - (1 - p) * (1 - p);
+    vertical = 1 - (1 - p) * (1 - p) * (1 - p);
+  }
+
+  const h = interpolateTransition(source, target, horizontal);
+  const v = interpolateTransition(source, target, vertical);
+  return { x: h.x, y: v.y, z: h.z };
+}
+
+/**
+ * Named stage of a sequence, for HUD callouts.
+ */
+export function getTransitionPhase(type: TransitionType, progress: number): TransitionPhase {
+  if (type === TRANSITION_TYPE.LAUNCHING) {
+    if (progress < 0.3) return "liftoff";
+    return progress < 0.85 ? "climb" : "breakaway";
+  }
+  if (progress < 0.35) return "entry";
+  return progress < 0.85 ? "descent" : "touchdown";
+}
+
+const tmpQuat = new Quaternion();
+const tmpLevel = new Quaternion();
+
+/** Normalized lerp of `q` toward `to` along the shorter arc */
+function nlerp(q: Quaternion, to: Quaternion, t: number): void {
+  const sign = q.x * to.x + q.y * to.y + q.z * to.z + q.w * to.w < 0 ? -1 : 1;
+  q.set(
+    q.x + (to.x * sign - q.x) * t,
+    q.y + (to.y * sign - q.y) * t,
+    q.z + (to.z * sign - q.z) * t,
+    q.w + (to.w * sign - q.w) * t
+  ).normalize();
+}
+
+/**
+ * Advance every running sequence. Overrides Transform (and Velocity, so AI
+ * leads the target correctly) - run it after the flight/ground movement
+ * systems. The entity levels out to its current heading as it goes.
+ */
+export function transitionSystem(world: IWorld, dt: number): void {
+  const ents = transitionQuery(world);
+  for (let i = 0; i < ents.length; i++) {
+    const eid = ents[i]!;
+    const type = TransitionState.type[eid] as TransitionType;
+    if (type === TRANSITION_TYPE.NONE) continue;
+
+    const before = TransitionState.progress[eid] ?? 0;
+    if (before >= 1) continue;
+
+    const duration = type === TRANSITION_TYPE.LAUNCHING ? LAUNCH_DURATION : LANDING_DURATION;
+    const progress = Math.min(1, before + dt / duration);
+    TransitionState.progress[eid] = progress;
+
+    const source = { x: TransitionState.sourceX[eid]!, y: TransitionState.sourceY[eid]!, z: TransitionState.sourceZ[eid]! };
+    const target = { x: TransitionState.targetX[eid]!, y: TransitionState.targetY[eid]!, z: TransitionState.targetZ[eid]! };
+    const pos = transitionPathPosition(type, source, target, progress);
+
+    if (hasComponent(world, Velocity, eid) && dt > 0) {
+      Velocity.vx[eid] = (pos.x - (Transform.x[eid] ?? 0)) / dt;
+      Velocity.vy[eid] = (pos.y - (Transform.y[eid] ?? 0)) / dt;
+      Velocity.vz[eid] = (pos.z - (Transform.z[eid] ?? 0)) / dt;
+    }
+    Transform.x[eid] = pos.x;
+    Transform.y[eid] = pos.y;
+    Transform.z[eid] = pos.z;
+
+    // Level out, keeping the heading
+    tmpQuat.set(Transform.qx[eid] ?? 0, Transform.qy[eid] ?? 0, Transform.qz[eid] ?? 0, Transform.qw[eid] ?? 1);
+    const fx = -2 * (tmpQuat.x * tmpQuat.z + tmpQuat.w * tmpQuat.y);
+    const fz = -(1 - 2 * (tmpQuat.x * tmpQuat.x + tmpQuat.y * tmpQuat.y));
+    const yaw = Math.atan2(-fx, -fz);
+    tmpLevel.set(0, Math.sin(yaw / 2), 0, Math.cos(yaw / 2));
+    nlerp(tmpQuat, tmpLevel, progress >= 1 ? 1 : 1 - Math.exp(-dt * 3));
+    Transform.qx[eid] = tmpQuat.x;
+    Transform.qy[eid] = tmpQuat.y;
+    Transform.qz[eid] = tmpQuat.z;
+    Transform.qw[eid] = tmpQuat.w;
+
+    if (progress >= 1) {
+      transitionCompleteEvents.push({
+        eid,
+        type,
+        x: pos.x,
+        y: pos.y,
+        z: pos.z,
+        planetEid: TransitionState.planetEid[eid] ?? -1,
+        preservedHealth: TransitionState.preservedHealth[eid] ?? 0,
+        preservedShields: TransitionState.preservedShields[eid] ?? 0
+      });
+    }
+  }
+}
@@ -106,6 +106,52 @@ export function createGroundPlane(
   return { body, collider };
 }
 
+/**
+ * Create a static heightfield covering a square `size` wide, centred on
+ * `center` in X/Z. `heights` has (resolution + 1)^2 samples, row-major with
+ * X fastest; they are added to center.y.
+ */
+export function createHeightfield(
+  pw: PhysicsWorld,
+  center: Vec3,
+  resolution: number,
+  heights: ArrayLike<number>,
+  size: number
+): { body: RAPIER.RigidBody; collider: RAPIER.Collider } {
+  const { world } = pw;
+  const verts = resolution + 1;
+  if (heights.length !== verts * verts) {
+    throw new Error(`heightfield needs ${verts * verts} heights, got ${heights.length}`);
+  }
+
+  // Rapier's matrix is column-major with rows along Z and columns along X
+  const matrix = new Float32Array(verts * verts);
+  for (let z = 0; z < verts; z++) {
+    for (let x = 0; x < verts; x++) {
+      matrix[x * verts + z] = heights[z * verts + x]!;
+    }
+  }
+
+  const bodyDesc = RAPIER.RigidBodyDesc.fixed().setTranslation(center.x, center.y, center.z);
+  const body = world.createRigidBody(bodyDesc);
+
+  const colliderDesc = RAPIER.ColliderDesc.heightfield(resolution, resolution, matrix, {
+    x: size,
+    y: 1,
+    z: size
+  });
+  const collider = world.createCollider(colliderDesc, body);
+
+  return { body, collider };
+}
+
+/**
+ * Remove a static body (box, ground plane, heightfield) and its colliders.
+ */
+export function removeStaticBody(pw: PhysicsWorld, body: RAPIER.RigidBody): void {
+  pw.world.removeRigidBody(body);
+}
+
 /**
  * Create a kinematic capsule body for a character.
  */
@@ -205,6 +251,23 @@ export function raycast(
   };
 }
 
+/**
+ * Height of the highest static surface (terrain, boxes, walls) under a point,
+ * or null if there is none. Characters and vehicles are ignored, so this is
+ * what a nav grid is baked from.
+ */
+export function groundHeightAt(
+  pw: PhysicsWorld,
+  x: number,
+  z: number,
+  fromY: number = 500,
+  maxDistance: number = 1000
+): number | null {
+  const ray = new RAPIER.Ray({ x, y: fromY, z }, { x: 0, y: -1, z: 0 });
+  const hit = pw.world.castRay(ray, maxDistance, true, RAPIER.QueryFilterFlags.ONLY_FIXED);
+  return hit ? fromY - hit.timeOfImpact : null;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CLEANUP
 // ─────────────────────────────────────────────────────────────────────────────
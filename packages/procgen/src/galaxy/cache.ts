@@ -1,15 +1,18 @@
 import { getSector } from "./sector";
 import { getSystem, type SystemDef } from "./system";
+import { getPlanet, type PlanetBodyDef } from "./planet";
 import type { GenCtx, SectorDef, Vec3i } from "./types";
 
 export type GalaxyCacheConfig = {
   maxSectors: number;
+  maxPlanets: number;
 };
 
-const DEFAULT_CFG: GalaxyCacheConfig = { maxSectors: 128 };
+const DEFAULT_CFG: GalaxyCacheConfig = { maxSectors: 128, maxPlanets: 256 };
 
 export class GalaxyCache {
   private sectors = new Map<string, SectorDef>();
+  private planets = new Map<string, PlanetBodyDef>();
   private cfg: GalaxyCacheConfig;
 
   constructor(private ctx: GenCtx, cfg?: Partial<GalaxyCacheConfig>) {
@@ -40,6 +43,27 @@ export class GalaxyCache {
     return getSystem(sector, systemIndex, this.ctx);
   }
 
+  planet(system: SystemDef, orbitIndex: number): PlanetBodyDef {
+    const k = `${system.id}:${orbitIndex}`;
+    const cached = this.planets.get(k);
+    if (cached) {
+      this.planets.delete(k);
+      this.planets.set(k, cached);
+      return cached;
+    }
+    const def = getPlanet(system, orbitIndex, this.ctx);
+    this.planets.set(k, def);
+    this.evictIfNeeded();
+    return def;
+  }
+
+  /** Every planet in the system, innermost first */
+  planetsOf(system: SystemDef): PlanetBodyDef[] {
+    const out: PlanetBodyDef[] = [];
+    for (let i = 0; i < system.planetCount; i++) out.push(this.planet(system, i));
+    return out;
+  }
+
   sectorsInRadius(center: Vec3i, radius: number): SectorDef[] {
     const out: SectorDef[] = [];
     for (let dx = -radius; dx <= radius; dx++) {
@@ -54,6 +78,7 @@ export class GalaxyCache {
 
   clear() {
     this.sectors.clear();
+    this.planets.clear();
   }
 
   private evictIfNeeded() {
@@ -62,6 +87,11 @@ export class GalaxyCache {
       if (!oldestKey) break;
       this.sectors.delete(oldestKey);
     }
+    while (this.planets.size > this.cfg.maxPlanets) {
+      const oldestKey = this.planets.keys().next().value as string | undefined;
+      if (!oldestKey) break;
+      this.planets.delete(oldestKey);
+    }
   }
 }
 
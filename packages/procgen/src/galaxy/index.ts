@@ -1,4 +1,5 @@
 export * from "./types";
 export * from "./sector";
 export * from "./system";
+export * from "./planet";
 export * from "./cache";
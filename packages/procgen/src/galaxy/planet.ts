@@ -0,0 +1,138 @@
+import {
+  PLANET_ARCHETYPES,
+  PLANET_ATMOSPHERE_IDS,
+  PLANET_SITE_IDS,
+  type PlanetArchetype,
+  type PlanetAtmosphereId,
+  type PlanetHazardId,
+  type PlanetSiteId,
+  type PlanetStyleId
+} from "@xwingz/data";
+import { createRng, deriveSeed, type RNG, type Seed } from "../seed";
+import type { SystemDef } from "./system";
+import type { GenCtx } from "./types";
+
+export type PlanetPalette = {
+  ground: number;
+  highlight: number;
+  accent: number;
+};
+
+/** Reserved surface location for a POI (temple, wreck, kyber seam, ...) */
+export type PlanetSiteSlot = {
+  index: number;
+  kind: PlanetSiteId;
+  seed: Seed;
+  latitude: number;  // degrees, -90..90
+  longitude: number; // degrees, -180..180
+};
+
+export type PlanetBodyDef = {
+  id: string;
+  name: string;
+  seed: Seed;
+  systemId: string;
+  orbitIndex: number;
+  archetypeId: string;
+  style: PlanetStyleId;
+  tags: string[];
+  landable: boolean;
+  biomes: string[];
+  atmosphere: PlanetAtmosphereId;
+  hazards: PlanetHazardId[];
+  palette: PlanetPalette;
+  terrainSeed: Seed;
+  sites: PlanetSiteSlot[];
+  radiusKm: number;
+  gravity: number;
+};
+
+// Archetypes outside their preferred orbit band stay possible, just rare
+const OFF_ORBIT_WEIGHT = 0.15;
+const AFFINITY_TAG_WEIGHT = 1.5;
+
+const ROMAN = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI", "XII"];
+
+function orbitPosition(system: SystemDef, orbitIndex: number): number {
+  return system.planetCount > 1 ? orbitIndex / (system.planetCount - 1) : 0.5;
+}
+
+function archetypeWeight(archetype: PlanetArchetype, system: SystemDef, orbit: number): number {
+  const [min, max] = archetype.orbitRange;
+  let weight = orbit >= min && orbit <= max ? 1 : OFF_ORBIT_WEIGHT;
+  for (const tag of archetype.affinityTags) {
+    if (system.tags.includes(tag)) weight += AFFINITY_TAG_WEIGHT;
+  }
+  return weight;
+}
+
+/** Up to `count` distinct entries, in a seeded order */
+function pickDistinct<T>(rng: RNG, items: readonly T[], count: number): T[] {
+  const pool = [...items];
+  const out: T[] = [];
+  while (out.length < count && pool.length > 0) {
+    const idx = Math.floor(rng.nextF01() * pool.length);
+    out.push(pool.splice(idx, 1)[0]!);
+  }
+  return out;
+}
+
+function rangeInt(rng: RNG, range: [number, number]): number {
+  return Math.floor(rng.range(range[0], range[1] + 1));
+}
+
+export function getPlanet(system: SystemDef, orbitIndex: number, ctx: GenCtx): PlanetBodyDef {
+  if (orbitIndex < 0 || orbitIndex >= system.planetCount) {
+    throw new Error(`orbitIndex ${orbitIndex} out of range`);
+  }
+
+  const planetSeed = deriveSeed(system.seed, "planet", orbitIndex);
+  const rng = createRng(planetSeed);
+
+  const orbit = orbitPosition(system, orbitIndex);
+  const archetype = rng.weightedPick(
+    PLANET_ARCHETYPES.map((a): [PlanetArchetype, number] => [a, archetypeWeight(a, system, orbit)])
+  );
+
+  const biomes = pickDistinct(rng, archetype.biomes, Math.min(archetype.biomes.length, rangeInt(rng, [1, 3])));
+  const atmosphere = rng.weightedPick(
+    PLANET_ATMOSPHERE_IDS.map((id): [PlanetAtmosphereId, number] => [id, archetype.atmosphereWeights[id] ?? 0])
+      .filter(([, w]) => w > 0)
+  );
+  const hazards = pickDistinct(rng, archetype.hazards, rangeInt(rng, archetype.hazardCountRange));
+  const [ground, highlight, accent] = rng.pick(archetype.palettes);
+
+  const siteKinds = PLANET_SITE_IDS.map((id): [PlanetSiteId, number] => [id, archetype.siteWeights[id] ?? 0])
+    .filter(([, w]) => w > 0);
+  const sites: PlanetSiteSlot[] = [];
+  const siteCount = siteKinds.length > 0 ? rangeInt(rng, archetype.siteSlotRange) : 0;
+  for (let i = 0; i < siteCount; i++) {
+    sites.push({
+      index: i,
+      kind: rng.weightedPick(siteKinds),
+      seed: deriveSeed(planetSeed, "site", i),
+      latitude: Math.round(rng.range(-70, 70) * 10) / 10,
+      longitude: Math.round(rng.range(-180, 180) * 10) / 10
+    });
+  }
+
+  return {
+    id: `${system.id}_p${orbitIndex}`,
+    name: `${system.id.toUpperCase()} ${ROMAN[orbitIndex] ?? orbitIndex + 1}`,
+    seed: planetSeed,
+    systemId: system.id,
+    orbitIndex,
+    archetypeId: archetype.id,
+    style: archetype.style,
+    tags: [...archetype.tags],
+    landable: archetype.landable,
+    biomes,
+    atmosphere,
+    hazards,
+    palette: { ground, highlight, accent },
+    terrainSeed: deriveSeed(planetSeed, "terrain"),
+    sites,
+    radiusKm: Math.round(rng.range(archetype.radiusRange[0], archetype.radiusRange[1])),
+    gravity: Math.round(rng.range(archetype.gravityRange[0], archetype.gravityRange[1]) * 100) / 100
+  };
+}
@@ -5,3 +5,6 @@ export * from "./missions";
 
 // Scripted campaign missions
 export * from "./missions/index";
+
+// Ground terrain heightfields
+export * from "./terrain";
@@ -1,8 +1,59 @@
 import type { FactionId } from "@xwingz/data";
-import { createRng, deriveSeed, type Seed } from "./seed";
-import type { SystemDef } from "./galaxy/system";
+import { createRng, deriveSeed, type RNG, type Seed } from "./seed";
+import type { EconomyProfile, SystemDef } from "./galaxy/system";
+import type { Vec3f } from "./galaxy/types";
 
-export type MissionType = "bounty";
+export type MissionType =
+  | "bounty"
+  | "defense"
+  | "assault"
+  | "patrol"
+  | "escort"
+  | "salvage"
+  | "smuggle"
+  | "sabotage"
+  | "relic_recovery";
+
+export const MISSION_TYPES: readonly MissionType[] = [
+  "bounty",
+  "defense",
+  "assault",
+  "patrol",
+  "escort",
+  "salvage",
+  "smuggle",
+  "sabotage",
+  "relic_recovery"
+];
+
+/**
+ * Places and things a mission is about. Positions are relative to the
+ * player's arrival point (origin, facing -Z).
+ *
+ * - station / convoy: friendly, has hp; the convoy flies to `destination`
+ * - relay / emplacement: hostile structures to destroy
+ * - nav_buoy / wreck / drop_point / ruin / jump_point: waypoints
+ */
+export type MissionSiteKind =
+  | "station"
+  | "convoy"
+  | "relay"
+  | "emplacement"
+  | "nav_buoy"
+  | "wreck"
+  | "drop_point"
+  | "ruin"
+  | "jump_point";
+
+export type MissionSite = {
+  id: string;
+  kind: MissionSiteKind;
+  position: Vec3f;
+  radius: number;
+  hp: number;
+  speed?: number;
+  destination?: string;
+};
 
 export type MissionDef = {
   id: string;
@@ -11,46 +62,357 @@ export type MissionDef = {
   type: MissionType;
   title: string;
   description: string;
+  summary: string;        // One-line brief for the map and HUD
   systemId: string;
   controllingFaction: FactionId;
-  goalKills: number;
+  goalKills: number;      // Hostile fighters to destroy (0 if kills aren't an objective)
+  waves: number;          // Hostile waves launched even when kills aren't the goal
+  scanSeconds: number;    // Time to hold position at a wreck, drop point or ruin
+  sites: MissionSite[];
   rewardCredits: number;
+  bonusCredits: number;   // Optional objective reward
 };
 
-export function getMission(system: SystemDef, tier = 0): MissionDef {
-  const seed = deriveSeed(system.seed, "mission", tier);
-  const rng = createRng(seed);
+// ─────────────────────────────────────────────────────────────────────────────
+// Templates
+// ─────────────────────────────────────────────────────────────────────────────
+
+type MissionParams = {
+  rng: RNG;
+  system: SystemDef;
+  tier: number;
+  density: number;
+  wealth: number;
+  industry: number;
+  security: number;
+};
+
+type MissionBody = Pick<MissionDef, "goalKills" | "waves" | "scanSeconds" | "sites" | "description" | "summary"> & {
+  /** Credits per unit of work (kills, sites, seconds) before tier scaling */
+  baseReward: number;
+};
+
+type MissionTemplate = {
+  type: MissionType;
+  title: string;
+  /** System tags that make this template more likely */
+  tags: readonly string[];
+  /** Base weight from the system economy */
+  economyWeight(economy: EconomyProfile): number;
+  build(p: MissionParams): MissionBody;
+};
+
+/** Planet-defined systems carry their preferred type as a "mission_<type>" tag */
+const PREFERRED_TYPE_WEIGHT = 6;
+const TAG_WEIGHT = 1.5;
+
+function clampInt(v: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, Math.round(v)));
+}
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+/** Point at `distance` ahead of the arrival point, spread sideways and vertically */
+function ahead(rng: RNG, distance: number, spread: number): Vec3f {
+  return [round1(rng.range(-spread, spread)), round1(rng.range(-spread * 0.3, spread * 0.3)), round1(-distance)];
+}
 
+function scatter(rng: RNG, center: Vec3f, radius: number): Vec3f {
+  const angle = rng.range(0, Math.PI * 2);
+  const r = rng.range(radius * 0.4, radius);
+  return [
+    round1(center[0] + Math.cos(angle) * r),
+    round1(center[1] + rng.range(-radius * 0.25, radius * 0.25)),
+    round1(center[2] + Math.sin(angle) * r)
+  ];
+}
+
+function killGoal(p: MissionParams, base: number, densityScale: number, min: number, max: number): number {
+  const jitter = Math.round(p.rng.range(-2, 3));
+  return clampInt(base + Math.round(p.density * densityScale) + Math.floor(p.tier * 1.25) + jitter, min, max);
+}
+
+function jumpPoint(p: MissionParams, from: Vec3f, distance: number): MissionSite {
+  const angle = p.rng.range(-0.6, 0.6);
+  return {
+    id: "jump_point",
+    kind: "jump_point",
+    position: [
+      round1(from[0] + Math.sin(angle) * distance),
+      round1(from[1] + p.rng.range(-60, 60)),
+      round1(from[2] - Math.cos(angle) * distance)
+    ],
+    radius: 150,
+    hp: 0
+  };
+}
+
+const TEMPLATES: readonly MissionTemplate[] = [
+  {
+    type: "bounty",
+    title: "Bounty Contract",
+    tags: ["criminal", "outer_rim", "smuggler_friendly", "frontier"],
+    economyWeight: (e) => 0.8 + e.wealth,
+    build(p) {
+      const goalKills = killGoal(p, 6, 10, 6, 36);
+      return {
+        goalKills,
+        waves: 0,
+        scanSeconds: 0,
+        sites: [],
+        description: `Eliminate hostile fighters threatening ${p.system.id}.`,
+        summary: `${goalKills} kills`,
+        baseReward: goalKills * (35 + Math.round(p.wealth * 30))
+      };
+    }
+  },
+  {
+    type: "defense",
+    title: "System Defense",
+    tags: ["rebel_base", "core", "capital", "high_patrol", "wealthy"],
+    economyWeight: (e) => 0.3 + e.security * 0.7,
+    build(p) {
+      const goalKills = killGoal(p, 8, 6, 6, 30);
+      const station: MissionSite = {
+        id: "station",
+        kind: "station",
+        position: ahead(p.rng, p.rng.range(500, 700), 80),
+        radius: 60,
+        hp: 1500 + p.tier * 150
+      };
+      return {
+        goalKills,
+        waves: 0,
+        scanSeconds: 0,
+        sites: [station],
+        description: `Raiders are closing on the station at ${p.system.id}. Drive them off before it falls.`,
+        summary: `defend the station, ${goalKills} kills`,
+        baseReward: goalKills * (40 + Math.round(p.wealth * 30))
+      };
+    }
+  },
+  {
+    type: "assault",
+    title: "Strike Mission",
+    tags: ["battlefields", "dangerous", "imperial_base", "separatist"],
+    economyWeight: (e) => 0.3 + e.industry * 0.5,
+    build(p) {
+      const goalKills = killGoal(p, 4, 4, 4, 16);
+      const center = ahead(p.rng, p.rng.range(1200, 1600), 200);
+      const count = clampInt(3 + p.tier / 3, 3, 6);
+      const sites: MissionSite[] = [];
+      for (let i = 0; i < count; i++) {
+        sites.push({ id: `emplacement_${i + 1}`, kind: "emplacement", position: scatter(p.rng, center, 180), radius: 18, hp: 300 + p.tier * 30 });
+      }
+      return {
+        goalKills,
+        waves: 1,
+        scanSeconds: 0,
+        sites,
+        description: `Break the fighter screen over ${p.system.id} and knock out ${count} gun emplacements.`,
+        summary: `${goalKills} kills, ${count} emplacements`,
+        baseReward: goalKills * 40 + count * 150
+      };
+    }
+  },
+  {
+    type: "patrol",
+    title: "Patrol Sweep",
+    tags: ["high_patrol", "high_traffic", "trade"],
+    economyWeight: (e) => 0.3 + e.security * 0.8,
+    build(p) {
+      const count = clampInt(3 + p.tier / 4, 3, 5);
+      const sites: MissionSite[] = [];
+      let prev: Vec3f = [0, 0, 0];
+      for (let i = 0; i < count; i++) {
+        const angle = p.rng.range(-1.1, 1.1);
+        const leg = p.rng.range(700, 1100);
+        prev = [round1(prev[0] + Math.sin(angle) * leg), round1(p.rng.range(-120, 120)), round1(prev[2] - Math.cos(angle) * leg)];
+        sites.push({ id: `nav_${i + 1}`, kind: "nav_buoy", position: prev, radius: 120, hp: 0 });
+      }
+      return {
+        goalKills: 0,
+        waves: 2 + Math.floor(p.tier / 3),
+        scanSeconds: 0,
+        sites,
+        description: `Sweep ${count} nav buoys around ${p.system.id} and deal with anything you find.`,
+        summary: `${count} nav points`,
+        baseReward: count * 140
+      };
+    }
+  },
+  {
+    type: "escort",
+    title: "Convoy Escort",
+    tags: ["trade", "trade_hub", "high_traffic", "wealthy"],
+    economyWeight: (e) => 0.2 + e.wealth * 0.8,
+    build(p) {
+      const start: Vec3f = [round1(p.rng.range(-60, 60)), -30, -150];
+      const destination = jumpPoint(p, start, p.rng.range(2400, 3000));
+      const convoy: MissionSite = {
+        id: "convoy",
+        kind: "convoy",
+        position: start,
+        radius: 30,
+        hp: 1200 + p.tier * 100,
+        speed: round1(p.rng.range(38, 48)),
+        destination: destination.id
+      };
+      return {
+        goalKills: 0,
+        waves: 2 + Math.floor(p.tier / 3),
+        scanSeconds: 0,
+        sites: [convoy, destination],
+        description: `A freighter convoy is making a run for the jump point. Keep it in one piece.`,
+        summary: "escort the convoy",
+        baseReward: 500 + Math.round(p.wealth * 400)
+      };
+    }
+  },
+  {
+    type: "salvage",
+    title: "Salvage Run",
+    tags: ["battlefields", "ruins", "tibanna"],
+    economyWeight: (e) => 0.2 + e.industry * 0.5,
+    build(p) {
+      const goalKills = killGoal(p, 3, 3, 3, 12);
+      const scanSeconds = Math.round(p.rng.range(6, 10));
+      const wreck: MissionSite = { id: "wreck", kind: "wreck", position: ahead(p.rng, p.rng.range(900, 1400), 300), radius: 90, hp: 0 };
+      return {
+        goalKills,
+        waves: 0,
+        scanSeconds,
+        sites: [wreck],
+        description: `A wreck near ${p.system.id} is ripe for stripping. Get there first and hold off the scavengers.`,
+        summary: `salvage a wreck, ${goalKills} kills`,
+        baseReward: scanSeconds * 40 + goalKills * 35
+      };
+    }
+  },
+  {
+    type: "smuggle",
+    title: "Smuggling Run",
+    tags: ["smuggler", "smuggler_friendly", "low_patrol", "criminal"],
+    economyWeight: (e) => 0.1 + (1 - e.security) * 0.8,
+    build(p) {
+      const scanSeconds = Math.round(p.rng.range(4, 7));
+      const drop: MissionSite = { id: "drop_point", kind: "drop_point", position: ahead(p.rng, p.rng.range(1400, 1800), 400), radius: 80, hp: 0 };
+      const exit = jumpPoint(p, drop.position, p.rng.range(1600, 2200));
+      return {
+        goalKills: 0,
+        waves: 1 + Math.floor(p.tier / 2),
+        scanSeconds,
+        sites: [drop, exit],
+        description: `Deliver the cargo to a contact outside ${p.system.id} and jump out before patrols close in.`,
+        summary: "deliver the cargo",
+        baseReward: 450 + Math.round((1 - p.security) * 500)
+      };
+    }
+  },
+  {
+    type: "sabotage",
+    title: "Sabotage Op",
+    tags: ["imperial_base", "separatist", "tibanna", "core"],
+    economyWeight: (e) => 0.2 + e.industry * 0.6,
+    build(p) {
+      const count = clampInt(2 + p.tier / 4, 2, 4);
+      const center = ahead(p.rng, p.rng.range(1000, 1500), 250);
+      const sites: MissionSite[] = [];
+      for (let i = 0; i < count; i++) {
+        sites.push({ id: `relay_${i + 1}`, kind: "relay", position: scatter(p.rng, center, 220), radius: 20, hp: 200 + p.tier * 20 });
+      }
+      sites.push(jumpPoint(p, center, p.rng.range(1200, 1600)));
+      return {
+        goalKills: 0,
+        waves: 1 + Math.floor(p.tier / 3),
+        scanSeconds: 0,
+        sites,
+        description: `Take down ${count} comm relays in ${p.system.id}, then get to the jump point.`,
+        summary: `${count} relays`,
+        baseReward: count * 200
+      };
+    }
+  },
+  {
+    type: "relic_recovery",
+    title: "Relic Recovery",
+    tags: ["ruins", "haunted", "anomaly", "force_nexus", "massassi_temple", "archives"],
+    economyWeight: () => 0.1,
+    build(p) {
+      const goalKills = killGoal(p, 4, 3, 4, 14);
+      const scanSeconds = Math.round(p.rng.range(8, 12));
+      const ruin: MissionSite = { id: "ruin", kind: "ruin", position: ahead(p.rng, p.rng.range(1200, 1600), 350), radius: 100, hp: 0 };
+      const exit = jumpPoint(p, ruin.position, p.rng.range(1200, 1600));
+      return {
+        goalKills,
+        waves: 0,
+        scanSeconds,
+        sites: [ruin, exit],
+        description: `Something old is drifting in ${p.system.id}. Recover it and survive whoever else is looking.`,
+        summary: `recover the relic, ${goalKills} kills`,
+        baseReward: scanSeconds * 50 + goalKills * 40
+      };
+    }
+  }
+];
+
+function templateWeight(template: MissionTemplate, system: SystemDef, economy: EconomyProfile): number {
+  const tags = system.tags ?? [];
+  let weight = template.economyWeight(economy);
+  for (const tag of template.tags) {
+    if (tags.includes(tag)) weight += TAG_WEIGHT;
+  }
+  if (tags.includes(`mission_${template.type}`)) weight += PREFERRED_TYPE_WEIGHT;
+  return Math.max(0.01, weight);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Mission offered by a system at a given tier. The template is picked from
+ * the system's tags and economy unless `type` is given; everything else is
+ * derived from `hash(systemSeed, "mission", tier, type)`.
+ */
+export function getMission(system: SystemDef, tier = 0, type?: MissionType): MissionDef {
   const density = system.poiDensity ?? 0.5;
-  const wealth = system.economy?.wealth ?? 0.5;
+  const economy = {
+    wealth: system.economy?.wealth ?? 0.5,
+    industry: system.economy?.industry ?? 0.5,
+    security: system.economy?.security ?? 0.5
+  };
 
-  const baseKills = 6 + Math.round(density * 10);
-  const tierKills = Math.floor(tier * 1.25);
-  const jitter = Math.round(rng.range(-2, 3));
-  const goalKills = clampInt(baseKills + tierKills + jitter, 6, 36);
+  let template = TEMPLATES.find((t) => t.type === type);
+  if (!template) {
+    const pickRng = createRng(deriveSeed(system.seed, "mission", tier));
+    template = pickRng.weightedPick(TEMPLATES.map((t): [MissionTemplate, number] => [t, templateWeight(t, system, economy)]));
+  }
 
-  const perKill = 35 + Math.round(wealth * 30);
-  const tierScalar = 1 + Math.min(0.6, tier * 0.08);
-  const rewardCredits = Math.max(100, Math.round(goalKills * perKill * tierScalar));
+  const seed = deriveSeed(system.seed, "mission", tier, template.type);
+  const rng = createRng(seed);
+  const body = template.build({ rng, system, tier, density, ...economy });
 
-  const title = "Bounty Contract";
-  const description = `Eliminate hostile fighters threatening ${system.id}.`;
+  const tierScalar = 1 + Math.min(0.6, tier * 0.08);
+  const rewardCredits = Math.max(100, Math.round(body.baseReward * tierScalar));
 
   return {
     id: `msn_${system.id}_t${tier}`,
     seed,
     tier,
-    type: "bounty",
-    title,
-    description,
+    type: template.type,
+    title: template.title,
+    description: body.description,
+    summary: body.summary,
     systemId: system.id,
     controllingFaction: system.controllingFaction,
-    goalKills,
-    rewardCredits
+    goalKills: body.goalKills,
+    waves: body.waves,
+    scanSeconds: body.scanSeconds,
+    sites: body.sites,
+    rewardCredits,
+    bonusCredits: Math.round(rewardCredits * 0.25)
   };
 }
-
-function clampInt(v: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, Math.round(v)));
-}
-
@@ -18,6 +18,8 @@ import type { Seed } from "../seed";
 // MISSION TYPE DEFINITIONS
 // ============================================================================
 
+export type CoruscantDifficulty = "easy" | "normal" | "hard" | "legendary";
+
 export type MissionPhaseId =
   | "briefing"
   | "launch"
@@ -536,7 +538,7 @@ export type CoruscantMissionDef = {
   description: string;
   briefing: BriefingSection[];
   phases: MissionPhase[];
-  difficulty: "easy" | "normal" | "hard" | "legendary";
+  difficulty: CoruscantDifficulty;
 
   // Environment
   backdrop: CoruscantBackdrop;
@@ -604,7 +606,7 @@ export type WingmanConfig = {
 // BATTLE OF CORUSCANT MISSION CONFIGURATION
 // ============================================================================
 
-export function createCoruscantBattleMission(seed: Seed, difficulty: "easy" | "normal" | "hard" | "legendary" = "normal"): CoruscantMissionDef {
+export function createCoruscantBattleMission(seed: Seed, difficulty: CoruscantDifficulty = "normal"): CoruscantMissionDef {
   const difficultyScalars = {
     easy: { enemyCount: 0.6, enemyHp: 0.8, allyCount: 1.3, allyHp: 1.2 },
     normal: { enemyCount: 1.0, enemyHp: 1.0, allyCount: 1.0, allyHp: 1.0 },
@@ -995,6 +997,13 @@ export function createCoruscantBattleMission(seed: Seed, difficulty: "easy" | "n
             timeLimit: 180,
             description: "Prevent the Invisible Hand from escaping to hyperspace",
             hudText: "OBJECTIVE: Prevent Escape ({time}s)"
+          },
+          {
+            id: "escort_boarding_craft",
+            type: "escort",
+            target: "boarding_craft",
+            description: "Escort the clone boarding craft to the Invisible Hand's hangar",
+            hudText: "ESCORT: Boarding Craft ({progress}%)"
           }
         ],
         waves: [
@@ -1117,7 +1126,13 @@ export function createCoruscantBattleMission(seed: Seed, difficulty: "easy" | "n
           { type: "debris_field", intensity: 0.5 },
           { type: "explosion_chain", intensity: 0.6, position: { x: 0, y: -50, z: -200 }, radius: 200 }
         ],
-        victoryCondition: { type: "all_enemies_destroyed" },
+        onEnter: [
+          {
+            type: "trigger_event",
+            params: { event: "launch_boarding_craft", from: "Resolute", target: "Invisible Hand", hp: Math.round(600 * scale.allyHp) }
+          }
+        ],
+        victoryCondition: { type: "all_enemies_destroyed", params: { objective: "boarding_craft_docked" } },
         failureCondition: { type: "time_expired", threshold: 180 }
       },
 
@@ -26,6 +26,7 @@ export {
 
   // Types
   type CoruscantMissionDef,
+  type CoruscantDifficulty,
   type CoruscantFighterArchetype,
   type CoruscantFighterArchetypeId,
   type CapitalShip,
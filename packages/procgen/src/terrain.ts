@@ -0,0 +1,281 @@
+/**
+ * Procedural ground terrain
+ *
+ * Seeded heightfields for ground combat, shaped by the planet's style:
+ * desert dunes, ice ridges, jungle hills and so on. The world is cut into
+ * square chunks that can be sampled at several levels of detail; every LOD
+ * samples the same global height function, so chunk edges line up exactly
+ * and coarser vertices are a subset of finer ones.
+ *
+ * Chunk (cx, cz) covers x in [cx * size, (cx + 1) * size] and likewise for z.
+ * Heights are row-major with x fastest: heights[j * (resolution + 1) + i] is
+ * the height at (originX + i * step, originZ + j * step).
+ */
+
+import type { PlanetStyleId } from "@xwingz/data";
+import { createRng, deriveSeed, type Seed } from "./seed";
+import type { PlanetBodyDef } from "./galaxy/planet";
+
+/** Edge length of a terrain chunk (m) */
+export const TERRAIN_CHUNK_SIZE = 64;
+
+/** Cells along a chunk edge at LOD 0; each further LOD halves it */
+export const TERRAIN_CHUNK_RESOLUTION = 32;
+
+export const TERRAIN_LOD_COUNT = 3;
+
+export type HeightSampler = (x: number, z: number) => number;
+
+export type TerrainChunk = {
+  cx: number;
+  cz: number;
+  lod: number;
+  resolution: number;
+  size: number;
+  originX: number;
+  originZ: number;
+  heights: Float32Array;
+  minHeight: number;
+  maxHeight: number;
+};
+
+export type Terrain = {
+  seed: Seed;
+  style: PlanetStyleId;
+  heightAt: HeightSampler;
+  /** Steepest incline at a point, in radians from horizontal */
+  slopeAt(x: number, z: number): number;
+  chunk(cx: number, cz: number, lod?: number): TerrainChunk;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Style parameters
+// ─────────────────────────────────────────────────────────────────────────────
+
+type TerrainStyleParams = {
+  /** Peak-to-trough scale of the base layer (m) */
+  amplitude: number;
+  /** Wavelength of the base layer's first octave (m) */
+  wavelength: number;
+  octaves: number;
+  /** 0 = rolling fbm hills, 1 = sharp ridged crests */
+  ridged: number;
+  /** Dune field on top of the base layer (0 = none) */
+  duneAmplitude: number;
+  duneWavelength: number;
+};
+
+const STYLE_PARAMS: Record<PlanetStyleId, TerrainStyleParams> = {
+  desert: { amplitude: 5, wavelength: 220, octaves: 3, ridged: 0, duneAmplitude: 3, duneWavelength: 36 },
+  ice: { amplitude: 24, wavelength: 150, octaves: 4, ridged: 1, duneAmplitude: 0, duneWavelength: 1 },
+  jungle: { amplitude: 14, wavelength: 130, octaves: 5, ridged: 0, duneAmplitude: 0, duneWavelength: 1 },
+  volcanic: { amplitude: 16, wavelength: 100, octaves: 4, ridged: 0.7, duneAmplitude: 0, duneWavelength: 1 },
+  barren: { amplitude: 10, wavelength: 110, octaves: 4, ridged: 0.3, duneAmplitude: 0, duneWavelength: 1 },
+  mystic: { amplitude: 14, wavelength: 200, octaves: 4, ridged: 0.5, duneAmplitude: 0, duneWavelength: 1 },
+  ocean: { amplitude: 3, wavelength: 90, octaves: 3, ridged: 0, duneAmplitude: 0, duneWavelength: 1 },
+  city: { amplitude: 0.6, wavelength: 240, octaves: 2, ridged: 0, duneAmplitude: 0, duneWavelength: 1 },
+  gas: { amplitude: 1.5, wavelength: 160, octaves: 2, ridged: 0, duneAmplitude: 0, duneWavelength: 1 }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Noise
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Seeded 2D gradient noise in roughly [-1, 1] */
+function createNoise2(seed: Seed): HeightSampler {
+  const rng = createRng(seed);
+  const perm = new Uint8Array(512);
+  const base = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rng.nextF01() * (i + 1));
+    [base[i], base[j]] = [base[j]!, base[i]!];
+  }
+  for (let i = 0; i < 512; i++) perm[i] = base[i & 255]!;
+
+  const gx = new Float32Array(256);
+  const gz = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const angle = rng.nextF01() * Math.PI * 2;
+    gx[i] = Math.cos(angle);
+    gz[i] = Math.sin(angle);
+  }
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const dot = (ix: number, iz: number, fx: number, fz: number) => {
+    const g = perm[(perm[ix & 255]! + iz) & 511]!;
+    return gx[g]! * fx + gz[g]! * fz;
+  };
+
+  return (x, z) => {
+    const x0 = Math.floor(x);
+    const z0 = Math.floor(z);
+    const fx = x - x0;
+    const fz = z - z0;
+    const u = fade(fx);
+    const v = fade(fz);
+
+    const n00 = dot(x0, z0, fx, fz);
+    const n10 = dot(x0 + 1, z0, fx - 1, fz);
+    const n01 = dot(x0, z0 + 1, fx, fz - 1);
+    const n11 = dot(x0 + 1, z0 + 1, fx - 1, fz - 1);
+
+    const nx0 = n00 + (n10 - n00) * u;
+    const nx1 = n01 + (n11 - n01) * u;
+    return (nx0 + (nx1 - nx0) * v) * Math.SQRT2;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Terrain
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createTerrain(seed: Seed, style: PlanetStyleId): Terrain {
+  const params = STYLE_PARAMS[style];
+  const base = createNoise2(deriveSeed(seed, "base"));
+  const warp = createNoise2(deriveSeed(seed, "warp"));
+
+  // Dunes run across a seeded prevailing wind
+  const wind = createRng(deriveSeed(seed, "wind")).nextF01() * Math.PI * 2;
+  const windX = Math.cos(wind);
+  const windZ = Math.sin(wind);
+
+  const heightAt: HeightSampler = (x, z) => {
+    let sum = 0;
+    let norm = 0;
+    let amp = 1;
+    let freq = 1 / params.wavelength;
+    for (let o = 0; o < params.octaves; o++) {
+      const n = base(x * freq + o * 17.3, z * freq - o * 31.7);
+      // Ridged noise folds the zero crossings into crests
+      const ridge = 1 - Math.abs(n) * 2;
+      sum += amp * (n + (ridge - n) * params.ridged);
+      norm += amp;
+      amp *= 0.5;
+      freq *= 2;
+    }
+    let h = (sum / norm) * params.amplitude;
+
+    if (params.duneAmplitude > 0) {
+      // Along-wind phase, bent by low-frequency warp so crests meander;
+      // the shaped wave gives a gentle windward face and a steeper slip face
+      const along = (x * windX + z * windZ) / params.duneWavelength;
+      const bend = warp(x / (params.duneWavelength * 4), z / (params.duneWavelength * 4)) * 1.5;
+      const phase = along + bend;
+      const t = phase - Math.floor(phase);
+      const profile = t < 0.7 ? t / 0.7 : (1 - t) / 0.3;
+      const smooth = profile * profile * (3 - 2 * profile);
+      const strength = 0.6 + 0.4 * warp(x / 300 + 5.1, z / 300 - 2.7);
+      h += (smooth - 0.5) * 2 * params.duneAmplitude * strength;
+    }
+
+    return h;
+  };
+
+  return {
+    seed,
+    style,
+    heightAt,
+    slopeAt(x, z) {
+      const e = 0.5;
+      const dx = (heightAt(x + e, z) - heightAt(x - e, z)) / (2 * e);
+      const dz = (heightAt(x, z + e) - heightAt(x, z - e)) / (2 * e);
+      return Math.atan(Math.sqrt(dx * dx + dz * dz));
+    },
+    chunk(cx, cz, lod = 0) {
+      if (!Number.isInteger(lod) || lod < 0 || lod >= TERRAIN_LOD_COUNT) {
+        throw new Error(`terrain lod ${lod} out of range`);
+      }
+      const resolution = TERRAIN_CHUNK_RESOLUTION >> lod;
+      const size = TERRAIN_CHUNK_SIZE;
+      const step = size / resolution;
+      const originX = cx * size;
+      const originZ = cz * size;
+      const verts = resolution + 1;
+      const heights = new Float32Array(verts * verts);
+      let minHeight = Infinity;
+      let maxHeight = -Infinity;
+
+      for (let j = 0; j < verts; j++) {
+        for (let i = 0; i < verts; i++) {
+          const h = heightAt(originX + i * step, originZ + j * step);
+          heights[j * verts + i] = h;
+          if (h < minHeight) minHeight = h;
+          if (h > maxHeight) maxHeight = h;
+        }
+      }
+
+      return { cx, cz, lod, resolution, size, originX, originZ, heights, minHeight, maxHeight };
+    }
+  };
+}
+
+/** Ground terrain for a procedural planet */
+export function terrainForPlanet(planet: Pick<PlanetBodyDef, "terrainSeed" | "style">): Terrain {
+  return createTerrain(planet.terrainSeed, planet.style);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Streaming
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TerrainChunkRef = {
+  key: string;
+  cx: number;
+  cz: number;
+  lod: number;
+};
+
+export function terrainChunkKey(cx: number, cz: number): string {
+  return `${cx},${cz}`;
+}
+
+/** Chunk containing a world position */
+export function terrainChunkCoord(x: number, z: number): [number, number] {
+  return [Math.floor(x / TERRAIN_CHUNK_SIZE), Math.floor(z / TERRAIN_CHUNK_SIZE)];
+}
+
+/**
+ * LOD for a chunk `ring` chunks away from the viewer's (Chebyshev distance):
+ * full detail for the viewer's chunk and its neighbours, then halving every
+ * two rings.
+ */
+export function terrainLodForRing(ring: number): number {
+  return Math.min(TERRAIN_LOD_COUNT - 1, Math.floor(Math.max(0, ring) / 2));
+}
+
+/**
+ * Every chunk within `radius` rings of a world position with the LOD it
+ * should be drawn at, nearest first.
+ */
+export function terrainChunksAround(x: number, z: number, radius: number): TerrainChunkRef[] {
+  const [ccx, ccz] = terrainChunkCoord(x, z);
+  const refs: Array<TerrainChunkRef & { ring: number }> = [];
+  for (let dz = -radius; dz <= radius; dz++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const ring = Math.max(Math.abs(dx), Math.abs(dz));
+      const cx = ccx + dx;
+      const cz = ccz + dz;
+      refs.push({ key: terrainChunkKey(cx, cz), cx, cz, lod: terrainLodForRing(ring), ring });
+    }
+  }
+  refs.sort((a, b) => a.ring - b.ring);
+  return refs.map(({ key, cx, cz, lod }) => ({ key, cx, cz, lod }));
+}
+
+/**
+ * What to change to go from the `loaded` chunks (key -> LOD) to `wanted`:
+ * chunks to build (new, or at a different LOD) and keys to drop.
+ */
+export function diffTerrainChunks(
+  loaded: ReadonlyMap<string, number>,
+  wanted: readonly TerrainChunkRef[]
+): { load: TerrainChunkRef[]; unload: string[] } {
+  const wantedKeys = new Set<string>();
+  const load: TerrainChunkRef[] = [];
+  for (const ref of wanted) {
+    wantedKeys.add(ref.key);
+    if (loaded.get(ref.key) !== ref.lod) load.push(ref);
+  }
+  const unload = [...loaded.keys()].filter((key) => !wantedKeys.has(key));
+  return { load, unload };
+}
@@ -0,0 +1,135 @@
+import { test, expect } from "@playwright/test";
+
+declare global {
+  interface Window {
+    __xwingz?: {
+      mode: "map" | "flight";
+      scenario: "sandbox" | "yavin_defense" | "destroy_star_destroyer" | "coruscant_battle";
+      coruscantPhase:
+        | "briefing"
+        | "launch"
+        | "capital_assault"
+        | "cruiser_defense"
+        | "buzzdroid_emergency"
+        | "invisible_hand_assault"
+        | "victory"
+        | "defeat"
+        | null;
+      capitalShipCount: number;
+      targetCount: number;
+      allyCount: number;
+      credits: number;
+      enterCoruscant: (difficulty?: string) => void;
+    };
+    __xwingzTest?: {
+      skipCoruscantPhase: () => void;
+    };
+  }
+}
+
+test.beforeEach(async ({ page }, testInfo) => {
+  const errors: string[] = [];
+  (testInfo as any)._consoleErrors = errors;
+  page.on("pageerror", (err) => errors.push(`pageerror: ${err.message}`));
+  page.on("console", (msg) => {
+    if (msg.type() === "error") errors.push(`console: ${msg.text()}`);
+  });
+});
+
+test.afterEach(async ({}, testInfo) => {
+  const errors: string[] | undefined = (testInfo as any)._consoleErrors;
+  if (errors && errors.length > 0) {
+    await testInfo.attach("console-errors.txt", {
+      body: errors.join("\n"),
+      contentType: "text/plain"
+    });
+  }
+});
+
+async function enterCoruscant(page: import("@playwright/test").Page, difficulty = "normal"): Promise<void> {
+  await page.goto("/?e2e=1");
+  await expect(page.locator("#game-canvas")).toBeVisible();
+  await page.waitForFunction(() => window.__xwingz?.mode === "map", null, { timeout: 25_000 });
+
+  await page.evaluate((d) => window.__xwingz?.enterCoruscant(d), difficulty);
+
+  await page.waitForFunction(
+    () => window.__xwingz?.mode === "flight" && window.__xwingz?.scenario === "coruscant_battle",
+    null,
+    { timeout: 20_000 }
+  );
+}
+
+async function skipToPhase(page: import("@playwright/test").Page, phase: string): Promise<void> {
+  await page.evaluate(() => (window as any).__xwingzTest?.skipCoruscantPhase());
+  await page.waitForFunction((p) => window.__xwingz?.coruscantPhase === p, phase, { timeout: 10_000 });
+}
+
+test("Coruscant mission spawns fleets and clone wingmen", async ({ page }) => {
+  await enterCoruscant(page);
+
+  // Mission opens on the briefing
+  await page.waitForFunction(() => window.__xwingz?.coruscantPhase === "briefing", null, { timeout: 5_000 });
+  await expect(page.locator("#hud-mission")).toContainText(/BATTLE OF CORUSCANT|BRIEFING/);
+
+  // Both fleets and the clone flight are present
+  await page.waitForFunction(() => (window.__xwingz?.capitalShipCount ?? 0) >= 5, null, { timeout: 10_000 });
+  await page.waitForFunction(() => (window.__xwingz?.allyCount ?? 0) >= 3, null, { timeout: 10_000 });
+  await expect(page.locator(".hud-fleet-panel")).toContainText(/RESOLUTE/);
+});
+
+test("Coruscant mission launches when the briefing is skipped", async ({ page }) => {
+  await enterCoruscant(page);
+  await page.waitForFunction(() => window.__xwingz?.coruscantPhase === "briefing", null, { timeout: 5_000 });
+
+  // Fire skips the briefing
+  await page.keyboard.down("Space");
+  await page.waitForFunction(() => window.__xwingz?.coruscantPhase === "launch", null, { timeout: 5_000 });
+  await page.keyboard.up("Space");
+
+  // First combat phase begins after the launch
+  await page.waitForFunction(() => window.__xwingz?.coruscantPhase === "capital_assault", null, { timeout: 10_000 });
+  await page.waitForFunction(() => (window.__xwingz?.targetCount ?? 0) > 0, null, { timeout: 10_000 });
+});
+
+test("Coruscant mission progresses through every phase to victory", async ({ page }) => {
+  await enterCoruscant(page);
+  const initialCredits = await page.evaluate(() => window.__xwingz?.credits ?? 0);
+
+  await skipToPhase(page, "launch");
+  await skipToPhase(page, "capital_assault");
+  await skipToPhase(page, "cruiser_defense");
+  await skipToPhase(page, "buzzdroid_emergency");
+  await skipToPhase(page, "invisible_hand_assault");
+  await skipToPhase(page, "victory");
+
+  await expect(page.locator("#hud-mission")).toContainText(/HANGAR IS OURS|VICTORY/);
+
+  const finalCredits = await page.evaluate(() => window.__xwingz?.credits ?? 0);
+  expect(finalCredits).toBeGreaterThan(initialCredits);
+});
+
+test("Coruscant mission can restart after completion", async ({ page }) => {
+  await enterCoruscant(page, "hard");
+
+  for (const phase of ["launch", "capital_assault", "cruiser_defense", "buzzdroid_emergency", "invisible_hand_assault", "victory"]) {
+    await skipToPhase(page, phase);
+  }
+
+  // Restart using H key
+  await page.keyboard.press("h");
+  await page.waitForFunction(() => window.__xwingz?.coruscantPhase === "briefing", null, { timeout: 15_000 });
+  await page.waitForFunction(() => (window.__xwingz?.capitalShipCount ?? 0) >= 5, null, { timeout: 10_000 });
+});
+
+test("hyperspace is blocked during the Coruscant mission", async ({ page }) => {
+  await enterCoruscant(page);
+  await skipToPhase(page, "launch");
+  await skipToPhase(page, "capital_assault");
+
+  await page.keyboard.press("h");
+
+  await expect(page.locator("#hud-mission")).toContainText(/HYPERSPACE DISABLED/);
+  const mode = await page.evaluate(() => window.__xwingz?.mode);
+  expect(mode).toBe("flight");
+});
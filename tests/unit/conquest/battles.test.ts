@@ -0,0 +1,345 @@
+/**
+ * Unit tests for Galactic Conquest player battles
+ *
+ * Tests battle setup scaling, loss write-back from flight/ground reports,
+ * and the space battle -> ground assault hand-off.
+ */
+
+import { createWorld, addEntity, addComponent, hasComponent } from 'bitecs';
+import {
+  ConquestPlanet,
+  ConquestFleet,
+  GroundForce,
+  BattlePending,
+  CONQUEST_FACTION,
+  FLEET_STATE,
+  BATTLE_TYPE,
+  GROUND_FORCE_STATE
+} from '../../../packages/gameplay/src/conquest/components';
+import { getPlayerBattle, setConquestSeed } from '../../../packages/gameplay/src/conquest/systems';
+import {
+  getPlayerBattleSetup,
+  resolvePlayerBattle,
+  emptyBattleUnits,
+  PLAYER_BATTLE_SCALE,
+  type BattleUnitCounts,
+  type PlayerBattleReport
+} from '../../../packages/gameplay/src/conquest/battles';
+import { serializeConquest, restoreConquest } from '../../../packages/gameplay/src/conquest/persistence';
+
+type World = ReturnType<typeof createWorld>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createPlanet(world: World, controller: number, garrison = 40) {
+  const eid = addEntity(world);
+  addComponent(world, ConquestPlanet, eid);
+  ConquestPlanet.controllingFaction[eid] = controller;
+  ConquestPlanet.spaceControl[eid] = controller;
+  ConquestPlanet.groundControl[eid] = controller;
+  ConquestPlanet.garrison[eid] = garrison;
+  ConquestPlanet.maxGarrison[eid] = 100;
+  ConquestPlanet.underAttack[eid] = 1;
+  ConquestPlanet.battlePhase[eid] = 1;
+  return eid;
+}
+
+function createFleet(world: World, faction: number, planetEid: number, options: {
+  fighterSquadrons?: number;
+  bomberSquadrons?: number;
+  capitalShips?: number;
+  veterancy?: number;
+  isPlayerFleet?: number;
+} = {}) {
+  const eid = addEntity(world);
+  addComponent(world, ConquestFleet, eid);
+  ConquestFleet.faction[eid] = faction;
+  ConquestFleet.currentPlanetEid[eid] = planetEid;
+  ConquestFleet.destinationPlanetEid[eid] = -1;
+  ConquestFleet.finalDestinationEid[eid] = -1;
+  ConquestFleet.state[eid] = FLEET_STATE.COMBAT;
+  ConquestFleet.fighterSquadrons[eid] = options.fighterSquadrons ?? 4;
+  ConquestFleet.bomberSquadrons[eid] = options.bomberSquadrons ?? 2;
+  ConquestFleet.capitalShips[eid] = options.capitalShips ?? 1;
+  ConquestFleet.veterancy[eid] = options.veterancy ?? 0.5;
+  ConquestFleet.isPlayerFleet[eid] = options.isPlayerFleet ?? 0;
+  return eid;
+}
+
+function createForce(world: World, faction: number, planetEid: number, options: {
+  infantryPlatoons?: number;
+  vehicleSquadrons?: number;
+  artilleryUnits?: number;
+  isPlayerForce?: number;
+  state?: number;
+} = {}) {
+  const eid = addEntity(world);
+  addComponent(world, GroundForce, eid);
+  GroundForce.faction[eid] = faction;
+  GroundForce.planetEid[eid] = planetEid;
+  GroundForce.infantryPlatoons[eid] = options.infantryPlatoons ?? 4;
+  GroundForce.vehicleSquadrons[eid] = options.vehicleSquadrons ?? 2;
+  GroundForce.artilleryUnits[eid] = options.artilleryUnits ?? 0;
+  GroundForce.veterancy[eid] = 0.5;
+  GroundForce.isPlayerForce[eid] = options.isPlayerForce ?? 0;
+  GroundForce.state[eid] = options.state ?? GROUND_FORCE_STATE.DEFENDING;
+  return eid;
+}
+
+function createBattle(world: World, planetEid: number, attacker: number, defender: number, type: number) {
+  const eid = addEntity(world);
+  addComponent(world, BattlePending, eid);
+  const ground = type === BATTLE_TYPE.GROUND;
+  const factionOf = (ref: number) => (ground ? GroundForce.faction[ref] : ConquestFleet.faction[ref]) ?? 0;
+  BattlePending.planetEid[eid] = planetEid;
+  BattlePending.battleType[eid] = type;
+  BattlePending.attackerFleetEid[eid] = ground ? -1 : attacker;
+  BattlePending.defenderFleetEid[eid] = ground ? -1 : defender;
+  BattlePending.attackerGroundEid[eid] = ground ? attacker : -1;
+  BattlePending.defenderGroundEid[eid] = ground ? defender : -1;
+  BattlePending.attackerFaction[eid] = factionOf(attacker);
+  BattlePending.defenderFaction[eid] = factionOf(defender);
+  BattlePending.playerInvolved[eid] = 1;
+  return eid;
+}
+
+/** The player's Rebel fleet attacking an Imperial world */
+function createSpaceBattle(world: World, options: { playerAttacking?: boolean; groundControl?: number } = {}) {
+  const playerAttacking = options.playerAttacking ?? true;
+  const planetEid = createPlanet(world, CONQUEST_FACTION.EMPIRE);
+  ConquestPlanet.groundControl[planetEid] = options.groundControl ?? CONQUEST_FACTION.EMPIRE;
+
+  const playerFleet = createFleet(world, CONQUEST_FACTION.REBEL, planetEid, { isPlayerFleet: 1 });
+  const enemyFleet = createFleet(world, CONQUEST_FACTION.EMPIRE, planetEid, { fighterSquadrons: 6 });
+  const battleEid = playerAttacking
+    ? createBattle(world, planetEid, playerFleet, enemyFleet, BATTLE_TYPE.SPACE)
+    : createBattle(world, planetEid, enemyFleet, playerFleet, BATTLE_TYPE.SPACE);
+
+  return { planetEid, playerFleet, enemyFleet, battleEid };
+}
+
+function report(playerWon: boolean, playerLosses: Partial<BattleUnitCounts> = {}, enemyLosses: Partial<BattleUnitCounts> = {}): PlayerBattleReport {
+  return {
+    playerWon,
+    playerLosses: { ...emptyBattleUnits(), ...playerLosses },
+    enemyLosses: { ...emptyBattleUnits(), ...enemyLosses }
+  };
+}
+
+function groundForcesAt(world: World, planetEid: number): number[] {
+  return serializeConquest(world).groundForces
+    .filter((r) => r.fields.planetEid === planetEid)
+    .map((r) => r.eid);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Conquest player battles', () => {
+  beforeEach(() => {
+    setConquestSeed(12345);
+  });
+
+  describe('getPlayerBattleSetup', () => {
+    it('should field craft in proportion to the strategic fleets', () => {
+      const world = createWorld();
+      const { battleEid, planetEid } = createSpaceBattle(world);
+
+      const setup = getPlayerBattleSetup(world, battleEid)!;
+
+      expect(setup.battleType).toBe(BATTLE_TYPE.SPACE);
+      expect(setup.planetEid).toBe(planetEid);
+      expect(setup.player.faction).toBe(CONQUEST_FACTION.REBEL);
+      expect(setup.enemy.faction).toBe(CONQUEST_FACTION.EMPIRE);
+      expect(setup.player.units).toEqual({ ...emptyBattleUnits(), fighters: 8, bombers: 4, capitals: 1 });
+      expect(setup.enemy.units.fighters).toBe(12);
+    });
+
+    it('should find the player on the defending side', () => {
+      const world = createWorld();
+      const { battleEid } = createSpaceBattle(world, { playerAttacking: false });
+
+      const setup = getPlayerBattleSetup(world, battleEid)!;
+
+      expect(setup.player.faction).toBe(CONQUEST_FACTION.REBEL);
+      expect(setup.enemy.units.fighters).toBe(12);
+    });
+
+    it('should cap fielded units', () => {
+      const world = createWorld();
+      const { battleEid, enemyFleet } = createSpaceBattle(world);
+      ConquestFleet.fighterSquadrons[enemyFleet] = 50;
+      ConquestFleet.capitalShips[enemyFleet] = 9;
+
+      const setup = getPlayerBattleSetup(world, battleEid)!;
+
+      expect(setup.enemy.units.fighters).toBe(PLAYER_BATTLE_SCALE.maxCraft);
+      expect(setup.enemy.units.capitals).toBe(PLAYER_BATTLE_SCALE.maxCapitals);
+    });
+
+    it('should always field the player', () => {
+      const world = createWorld();
+      const { battleEid, playerFleet } = createSpaceBattle(world);
+      ConquestFleet.fighterSquadrons[playerFleet] = 0;
+
+      expect(getPlayerBattleSetup(world, battleEid)!.player.units.fighters).toBe(1);
+    });
+
+    it('should return null for a resolved battle', () => {
+      const world = createWorld();
+      const { battleEid } = createSpaceBattle(world, { groundControl: CONQUEST_FACTION.REBEL });
+      resolvePlayerBattle(world, battleEid, report(true));
+
+      expect(getPlayerBattleSetup(world, battleEid)).toBeNull();
+    });
+  });
+
+  describe('resolvePlayerBattle (space)', () => {
+    it('should write fielded losses back as strategic losses', () => {
+      const world = createWorld();
+      const { battleEid, playerFleet, enemyFleet } = createSpaceBattle(world, { groundControl: CONQUEST_FACTION.REBEL });
+
+      // Player lost 2 of 8 fighters; the enemy lost 6 of 12 fighters and its capital ship
+      resolvePlayerBattle(world, battleEid, report(true, { fighters: 2 }, { fighters: 6, capitals: 1 }));
+
+      expect(ConquestFleet.fighterSquadrons[playerFleet]).toBe(3);
+      expect(ConquestFleet.bomberSquadrons[playerFleet]).toBe(2);
+      expect(ConquestFleet.fighterSquadrons[enemyFleet]).toBe(3);
+      expect(ConquestFleet.capitalShips[enemyFleet]).toBe(0);
+      expect(ConquestFleet.veterancy[playerFleet]).toBeCloseTo(0.55);
+    });
+
+    it('should send the losing fleet into retreat and hand over orbit', () => {
+      const world = createWorld();
+      const { planetEid, playerFleet, enemyFleet, battleEid } = createSpaceBattle(world, { playerAttacking: false });
+      ConquestPlanet.spaceControl[planetEid] = CONQUEST_FACTION.REBEL;
+
+      resolvePlayerBattle(world, battleEid, report(false, { fighters: 8 }));
+
+      expect(ConquestFleet.state[playerFleet]).toBe(FLEET_STATE.RETREATING);
+      expect(ConquestFleet.state[enemyFleet]).toBe(FLEET_STATE.COMBAT);
+      expect(ConquestPlanet.spaceControl[planetEid]).toBe(CONQUEST_FACTION.EMPIRE);
+      expect(hasComponent(world, BattlePending, battleEid)).toBe(false);
+      expect(ConquestPlanet.underAttack[planetEid]).toBe(0);
+      expect(getPlayerBattle(world)).toBeNull();
+    });
+
+    it('should end the battle when the player already holds the ground', () => {
+      const world = createWorld();
+      const { planetEid, enemyFleet, battleEid } = createSpaceBattle(world, { groundControl: CONQUEST_FACTION.REBEL });
+
+      resolvePlayerBattle(world, battleEid, report(true));
+
+      expect(ConquestFleet.state[enemyFleet]).toBe(FLEET_STATE.RETREATING);
+      expect(ConquestPlanet.spaceControl[planetEid]).toBe(CONQUEST_FACTION.REBEL);
+      expect(hasComponent(world, BattlePending, battleEid)).toBe(false);
+    });
+
+    it('should continue a won orbit battle as a ground assault on the garrison', () => {
+      const world = createWorld();
+      const { planetEid, battleEid } = createSpaceBattle(world);
+
+      resolvePlayerBattle(world, battleEid, report(true));
+
+      expect(hasComponent(world, BattlePending, battleEid)).toBe(true);
+      expect(BattlePending.battleType[battleEid]).toBe(BATTLE_TYPE.GROUND);
+      expect(BattlePending.attackerFaction[battleEid]).toBe(CONQUEST_FACTION.REBEL);
+      expect(BattlePending.defenderFaction[battleEid]).toBe(CONQUEST_FACTION.EMPIRE);
+      expect(ConquestPlanet.battlePhase[planetEid]).toBe(2);
+      expect(ConquestPlanet.underAttack[planetEid]).toBe(1);
+      expect(getPlayerBattle(world)).toBe(battleEid);
+
+      // Landing force carried by one capital ship and two bomber squadrons
+      const landingEid = BattlePending.attackerGroundEid[battleEid]!;
+      expect(GroundForce.isPlayerForce[landingEid]).toBe(1);
+      expect(GroundForce.infantryPlatoons[landingEid]).toBe(5);
+      expect(GroundForce.vehicleSquadrons[landingEid]).toBe(1);
+
+      // Garrison raised from the planet's garrison strength (40)
+      const garrisonEid = BattlePending.defenderGroundEid[battleEid]!;
+      expect(GroundForce.faction[garrisonEid]).toBe(CONQUEST_FACTION.EMPIRE);
+      expect(GroundForce.infantryPlatoons[garrisonEid]).toBe(4);
+      expect(GroundForce.vehicleSquadrons[garrisonEid]).toBe(1);
+
+      const setup = getPlayerBattleSetup(world, battleEid)!;
+      expect(setup.player.units).toEqual({ ...emptyBattleUnits(), infantry: 15, vehicles: 1 });
+      expect(setup.enemy.units).toEqual({ ...emptyBattleUnits(), infantry: 12, vehicles: 1 });
+    });
+
+    it('should defend with an existing garrison force', () => {
+      const world = createWorld();
+      const { planetEid, battleEid } = createSpaceBattle(world);
+      const garrisonEid = createForce(world, CONQUEST_FACTION.EMPIRE, planetEid, { state: GROUND_FORCE_STATE.GARRISON });
+
+      resolvePlayerBattle(world, battleEid, report(true));
+
+      expect(BattlePending.defenderGroundEid[battleEid]).toBe(garrisonEid);
+      expect(GroundForce.state[garrisonEid]).toBe(GROUND_FORCE_STATE.DEFENDING);
+      expect(groundForcesAt(world, planetEid)).toHaveLength(2);
+    });
+
+    it('should persist a pending ground assault', () => {
+      const world = createWorld();
+      const { battleEid } = createSpaceBattle(world);
+      resolvePlayerBattle(world, battleEid, report(true));
+
+      const restored = restoreConquest(createWorld(), JSON.parse(JSON.stringify(serializeConquest(world))));
+      const restoredBattle = restored.battleEids[0]!;
+
+      expect(BattlePending.battleType[restoredBattle]).toBe(BATTLE_TYPE.GROUND);
+      expect(restored.groundForceEids).toContain(BattlePending.attackerGroundEid[restoredBattle]);
+      expect(restored.groundForceEids).toContain(BattlePending.defenderGroundEid[restoredBattle]);
+    });
+  });
+
+  describe('resolvePlayerBattle (ground)', () => {
+    function createGroundBattle(world: World) {
+      const planetEid = createPlanet(world, CONQUEST_FACTION.EMPIRE);
+      ConquestPlanet.battlePhase[planetEid] = 2;
+      const playerForce = createForce(world, CONQUEST_FACTION.REBEL, planetEid, {
+        infantryPlatoons: 5,
+        vehicleSquadrons: 1,
+        isPlayerForce: 1,
+        state: GROUND_FORCE_STATE.ATTACKING
+      });
+      const enemyForce = createForce(world, CONQUEST_FACTION.EMPIRE, planetEid, { artilleryUnits: 2 });
+      const battleEid = createBattle(world, planetEid, playerForce, enemyForce, BATTLE_TYPE.GROUND);
+      return { planetEid, playerForce, enemyForce, battleEid };
+    }
+
+    it('should capture the planet when the player wins', () => {
+      const world = createWorld();
+      const { planetEid, playerForce, enemyForce, battleEid } = createGroundBattle(world);
+
+      resolvePlayerBattle(world, battleEid, report(true, { infantry: 3 }, { infantry: 12, vehicles: 2 }));
+
+      expect(hasComponent(world, GroundForce, enemyForce)).toBe(false);
+      expect(hasComponent(world, BattlePending, battleEid)).toBe(false);
+      expect(ConquestPlanet.controllingFaction[planetEid]).toBe(CONQUEST_FACTION.REBEL);
+      expect(ConquestPlanet.groundControl[planetEid]).toBe(CONQUEST_FACTION.REBEL);
+      expect(ConquestPlanet.underAttack[planetEid]).toBe(0);
+      expect(GroundForce.infantryPlatoons[playerForce]).toBe(4);
+      expect(GroundForce.state[playerForce]).toBe(GROUND_FORCE_STATE.GARRISON);
+      expect(ConquestPlanet.garrison[planetEid]).toBeGreaterThan(0);
+      expect(ConquestPlanet.garrison[planetEid]).toBeLessThanOrEqual(100);
+    });
+
+    it('should wipe out the landing force when the player loses', () => {
+      const world = createWorld();
+      const { planetEid, playerForce, enemyForce, battleEid } = createGroundBattle(world);
+
+      // Enemy lost half its fielded troops - artillery shares the losses
+      resolvePlayerBattle(world, battleEid, report(false, { infantry: 15 }, { infantry: 6, vehicles: 1 }));
+
+      expect(hasComponent(world, GroundForce, playerForce)).toBe(false);
+      expect(ConquestPlanet.controllingFaction[planetEid]).toBe(CONQUEST_FACTION.EMPIRE);
+      expect(GroundForce.infantryPlatoons[enemyForce]).toBe(2);
+      expect(GroundForce.vehicleSquadrons[enemyForce]).toBe(1);
+      expect(GroundForce.artilleryUnits[enemyForce]).toBe(1);
+      expect(GroundForce.state[enemyForce]).toBe(GROUND_FORCE_STATE.GARRISON);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Unit tests for the Galactic Conquest hyperlane network
+ *
+ * Tests lane generation, pathfinding, hop-by-hop fleet movement (including
+ * battles at intermediate stops), retreats and chokepoint scoring.
+ */
+
+import { createWorld, addEntity, addComponent } from 'bitecs';
+import {
+  ConquestPlanet,
+  ConquestFleet,
+  ConquestState,
+  Hyperlane,
+  CONQUEST_FACTION,
+  FLEET_STATE,
+  CONQUEST_PHASE
+} from '../../../packages/gameplay/src/conquest/components';
+import {
+  fleetMovementSystem,
+  fleetRoutingSystem,
+  battleDetectionSystem,
+  conquestTick,
+  orderFleetMove,
+  getPlayerBattle,
+  setConquestSeed
+} from '../../../packages/gameplay/src/conquest/systems';
+import {
+  buildHyperlaneNetwork,
+  findHyperlanePath,
+  getHyperlaneGraph,
+  getHyperlaneNeighbours,
+  computeChokepointScores,
+  HYPERLANE_CONFIG,
+  type HyperlaneNode
+} from '../../../packages/gameplay/src/conquest/hyperlanes';
+
+type World = ReturnType<typeof createWorld>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createPlanet(world: World, controller: number = CONQUEST_FACTION.NEUTRAL): number {
+  const eid = addEntity(world);
+  addComponent(world, ConquestPlanet, eid);
+  ConquestPlanet.controllingFaction[eid] = controller;
+  ConquestPlanet.spaceControl[eid] = controller;
+  ConquestPlanet.garrison[eid] = 50;
+  ConquestPlanet.maxGarrison[eid] = 100;
+  ConquestPlanet.underAttack[eid] = 0;
+  ConquestPlanet.battlePhase[eid] = 0;
+  return eid;
+}
+
+function createFleet(world: World, faction: number, planetEid: number, isPlayerFleet = 0): number {
+  const eid = addEntity(world);
+  addComponent(world, ConquestFleet, eid);
+  ConquestFleet.faction[eid] = faction;
+  ConquestFleet.currentPlanetEid[eid] = planetEid;
+  ConquestFleet.destinationPlanetEid[eid] = -1;
+  ConquestFleet.finalDestinationEid[eid] = -1;
+  ConquestFleet.state[eid] = FLEET_STATE.IDLE;
+  ConquestFleet.movementProgress[eid] = 0;
+  ConquestFleet.fighterSquadrons[eid] = 4;
+  ConquestFleet.capitalShips[eid] = 1;
+  ConquestFleet.bomberSquadrons[eid] = 1;
+  ConquestFleet.veterancy[eid] = 0.5;
+  ConquestFleet.isPlayerFleet[eid] = isPlayerFleet;
+  return eid;
+}
+
+/** Generator input: A - B - C - D one unit apart, with E four units off D */
+function createChain(world: World): { planets: number[]; nodes: HyperlaneNode[] } {
+  const coords: [number, number][] = [[0, 0], [1, 0], [2, 0], [3, 0], [3, 4]];
+  const planets = coords.map(() => createPlanet(world));
+  const nodes = planets.map((planetEid, i) => ({
+    planetEid,
+    x: coords[i]![0],
+    z: coords[i]![1],
+    wealth: 0.3
+  }));
+  return { planets, nodes };
+}
+
+function createLane(world: World, from: number, to: number, travelTime: number): number {
+  const eid = addEntity(world);
+  addComponent(world, Hyperlane, eid);
+  Hyperlane.fromPlanetEid[eid] = from;
+  Hyperlane.toPlanetEid[eid] = to;
+  Hyperlane.baseTravelTime[eid] = travelTime;
+  Hyperlane.isMajorRoute[eid] = 0;
+  return eid;
+}
+
+/** A hand-built line A - B - C - D with 4 s lanes, plus a slow 30 s bypass A - D */
+function createLine(world: World): number[] {
+  const planets = [0, 1, 2, 3].map(() => createPlanet(world));
+  for (let i = 0; i < 3; i++) createLane(world, planets[i]!, planets[i + 1]!, 4);
+  createLane(world, planets[0]!, planets[3]!, 30);
+  return planets;
+}
+
+function runMovement(world: World, seconds: number, dt = 0.25): void {
+  for (let t = 0; t < seconds; t += dt) {
+    fleetMovementSystem(world, dt);
+    battleDetectionSystem(world);
+    fleetRoutingSystem(world);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Hyperlanes', () => {
+  beforeEach(() => {
+    setConquestSeed(12345);
+  });
+
+  describe('buildHyperlaneNetwork', () => {
+    it('should connect every planet', () => {
+      const world = createWorld();
+      const { planets, nodes } = createChain(world);
+      buildHyperlaneNetwork(world, nodes);
+
+      for (const target of planets.slice(1)) {
+        expect(findHyperlanePath(world, planets[0]!, target)).not.toBeNull();
+      }
+    });
+
+    it('should scale travel time with lane length', () => {
+      const world = createWorld();
+      const { planets, nodes } = createChain(world);
+      buildHyperlaneNetwork(world, nodes);
+
+      const short = getHyperlaneNeighbours(world, planets[0]!).find((l) => l.toPlanetEid === planets[1]);
+      const long = getHyperlaneNeighbours(world, planets[3]!).find((l) => l.toPlanetEid === planets[4]);
+      expect(short?.travelTime).toBeCloseTo(HYPERLANE_CONFIG.secondsPerUnit, 5);
+      expect(long?.travelTime).toBeCloseTo(4 * HYPERLANE_CONFIG.secondsPerUnit, 5);
+    });
+
+    it('should not create duplicate lanes', () => {
+      const world = createWorld();
+      const { nodes } = createChain(world);
+      const laneEids = buildHyperlaneNetwork(world, nodes);
+
+      const keys = laneEids.map((eid) => {
+        const a = Hyperlane.fromPlanetEid[eid]!;
+        const b = Hyperlane.toPlanetEid[eid]!;
+        return `${Math.min(a, b)}-${Math.max(a, b)}`;
+      });
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should make rich routes faster', () => {
+      const world = createWorld();
+      const a = createPlanet(world);
+      const b = createPlanet(world);
+      buildHyperlaneNetwork(world, [
+        { planetEid: a, x: 0, z: 0, wealth: 0.9 },
+        { planetEid: b, x: 1, z: 0, wealth: 0.9 }
+      ]);
+
+      const lane = getHyperlaneGraph(world).get(a)![0]!;
+      expect(lane.travelTime).toBeCloseTo(HYPERLANE_CONFIG.secondsPerUnit * HYPERLANE_CONFIG.majorRouteFactor, 5);
+    });
+  });
+
+  describe('findHyperlanePath', () => {
+    it('should prefer the fastest route over the fewest jumps', () => {
+      const world = createWorld();
+      const planets = createLine(world);
+
+      const path = findHyperlanePath(world, planets[0]!, planets[3]!)!;
+      expect(path.planets).toEqual([planets[1], planets[2], planets[3]]);
+      expect(path.travelTime).toBe(12);
+    });
+
+    it('should take the direct lane when it is faster', () => {
+      const world = createWorld();
+      const planets = createLine(world);
+      createLane(world, planets[0]!, planets[2]!, 5);
+
+      const path = findHyperlanePath(world, planets[0]!, planets[2]!)!;
+      expect(path.planets).toEqual([planets[2]]);
+      expect(path.travelTime).toBe(5);
+    });
+
+    it('should return null for planets off the network', () => {
+      const world = createWorld();
+      const { planets, nodes } = createChain(world);
+      buildHyperlaneNetwork(world, nodes);
+      const isolated = createPlanet(world);
+
+      expect(findHyperlanePath(world, planets[0]!, isolated)).toBeNull();
+    });
+  });
+
+  describe('fleet routing', () => {
+    it('should move a fleet hop by hop to its destination', () => {
+      const world = createWorld();
+      const planets = createLine(world);
+      const fleet = createFleet(world, CONQUEST_FACTION.REBEL, planets[0]!);
+
+      expect(orderFleetMove(world, fleet, planets[3]!)).toBe(true);
+      expect(ConquestFleet.destinationPlanetEid[fleet]).toBe(planets[1]);
+      expect(ConquestFleet.finalDestinationEid[fleet]).toBe(planets[3]);
+
+      const visited: number[] = [];
+      for (let i = 0; i < 200 && ConquestFleet.finalDestinationEid[fleet] !== -1; i++) {
+        runMovement(world, 0.25);
+        const here = ConquestFleet.currentPlanetEid[fleet]!;
+        if (visited[visited.length - 1] !== here) visited.push(here);
+      }
+
+      expect(visited).toEqual([planets[0], planets[1], planets[2], planets[3]]);
+      expect(ConquestFleet.state[fleet]).toBe(FLEET_STATE.IDLE);
+    });
+
+    it('should refuse unreachable destinations', () => {
+      const world = createWorld();
+      const { planets, nodes } = createChain(world);
+      buildHyperlaneNetwork(world, nodes);
+      const isolated = createPlanet(world);
+      const fleet = createFleet(world, CONQUEST_FACTION.REBEL, planets[0]!);
+
+      expect(orderFleetMove(world, fleet, isolated)).toBe(false);
+      expect(ConquestFleet.state[fleet]).toBe(FLEET_STATE.IDLE);
+    });
+
+    it('should be caught by an enemy fleet at an intermediate stop', () => {
+      const world = createWorld();
+      const stateEid = addEntity(world);
+      addComponent(world, ConquestState, stateEid);
+      ConquestState.phase[stateEid] = CONQUEST_PHASE.PLAYING;
+
+      const planets = createLine(world);
+      const player = createFleet(world, CONQUEST_FACTION.REBEL, planets[0]!, 1);
+      createFleet(world, CONQUEST_FACTION.EMPIRE, planets[2]!);
+
+      orderFleetMove(world, player, planets[3]!);
+      for (let i = 0; i < 400 && getPlayerBattle(world) === null; i++) {
+        conquestTick(world, 0.25);
+      }
+
+      expect(getPlayerBattle(world)).not.toBeNull();
+      expect(ConquestFleet.currentPlanetEid[player]).toBe(planets[2]);
+      expect(ConquestPlanet.underAttack[planets[2]!]).toBe(1);
+
+      // Held at the stop while the battle is pending
+      conquestTick(world, 0.25);
+      expect(ConquestFleet.state[player]).not.toBe(FLEET_STATE.MOVING);
+      expect(ConquestFleet.finalDestinationEid[player]).toBe(planets[3]);
+    });
+
+    it('should send retreating fleets to a friendly neighbour', () => {
+      const world = createWorld();
+      const planets = createLine(world);
+      ConquestPlanet.controllingFaction[planets[3]!] = CONQUEST_FACTION.EMPIRE;
+      const fleet = createFleet(world, CONQUEST_FACTION.EMPIRE, planets[2]!);
+      ConquestFleet.state[fleet] = FLEET_STATE.RETREATING;
+      ConquestFleet.finalDestinationEid[fleet] = planets[0]!;
+
+      fleetRoutingSystem(world);
+
+      expect(ConquestFleet.state[fleet]).toBe(FLEET_STATE.MOVING);
+      expect(ConquestFleet.destinationPlanetEid[fleet]).toBe(planets[3]);
+      expect(ConquestFleet.finalDestinationEid[fleet]).toBe(-1);
+    });
+
+    it('should jump directly when no hyperlanes exist', () => {
+      const world = createWorld();
+      const a = createPlanet(world);
+      const b = createPlanet(world);
+      const fleet = createFleet(world, CONQUEST_FACTION.REBEL, a);
+
+      orderFleetMove(world, fleet, b, 5);
+      runMovement(world, 5.25);
+
+      expect(ConquestFleet.currentPlanetEid[fleet]).toBe(b);
+      expect(ConquestFleet.finalDestinationEid[fleet]).toBe(-1);
+    });
+  });
+
+  describe('computeChokepointScores', () => {
+    it('should score the hub of a star network highest', () => {
+      const world = createWorld();
+      const hub = createPlanet(world);
+      const leaves = [0, 1, 2].map(() => createPlanet(world));
+      for (const leaf of leaves) createLane(world, hub, leaf, 5);
+
+      const scores = computeChokepointScores(world);
+      expect(scores.get(hub)).toBe(1);
+      for (const leaf of leaves) expect(scores.get(leaf)).toBe(0);
+    });
+
+    it('should score dead ends of a line as zero', () => {
+      const world = createWorld();
+      const planets = [0, 1, 2].map(() => createPlanet(world));
+      createLane(world, planets[0]!, planets[1]!, 4);
+      createLane(world, planets[1]!, planets[2]!, 4);
+
+      const scores = computeChokepointScores(world);
+      expect(scores.get(planets[0]!)).toBe(0);
+      expect(scores.get(planets[1]!)).toBe(1);
+      expect(scores.get(planets[2]!)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Unit tests for Galactic Conquest save/restore
+ *
+ * Tests snapshot round-trips, entity reference remapping, deterministic
+ * resumption and snapshot validation/migration.
+ */
+
+import { createWorld, addEntity, addComponent } from 'bitecs';
+import {
+  ConquestPlanet,
+  ConquestFleet,
+  GroundForce,
+  ConquestState,
+  BattlePending,
+  CONQUEST_FACTION,
+  FLEET_STATE,
+  CONQUEST_PHASE
+} from '../../../packages/gameplay/src/conquest/components';
+import {
+  conquestTick,
+  orderFleetMove,
+  setConquestSeed,
+  getConquestRngState
+} from '../../../packages/gameplay/src/conquest/systems';
+import {
+  serializeConquest,
+  restoreConquest,
+  sanitizeConquestSnapshot,
+  migrateConquestSnapshot,
+  CONQUEST_SNAPSHOT_VERSION,
+  type ConquestSnapshot
+} from '../../../packages/gameplay/src/conquest/persistence';
+
+type World = ReturnType<typeof createWorld>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Campaign {
+  world: World;
+  planets: number[];
+  fleets: number[];
+}
+
+/** A small campaign: four planets, two opposing fleets and a garrison force */
+function createCampaign(): Campaign {
+  const world = createWorld();
+
+  const stateEid = addEntity(world);
+  addComponent(world, ConquestState, stateEid);
+  ConquestState.phase[stateEid] = CONQUEST_PHASE.PLAYING;
+  ConquestState.rebelCredits[stateEid] = 1000;
+  ConquestState.empireCredits[stateEid] = 1500;
+  ConquestState.victoryThreshold[stateEid] = 100;
+  ConquestState.playerFaction[stateEid] = CONQUEST_FACTION.REBEL;
+
+  const controllers = [CONQUEST_FACTION.REBEL, CONQUEST_FACTION.NEUTRAL, CONQUEST_FACTION.NEUTRAL, CONQUEST_FACTION.EMPIRE];
+  const planets = controllers.map((controller, index) => {
+    const eid = addEntity(world);
+    addComponent(world, ConquestPlanet, eid);
+    ConquestPlanet.planetIndex[eid] = index;
+    ConquestPlanet.controllingFaction[eid] = controller;
+    ConquestPlanet.spaceControl[eid] = controller;
+    ConquestPlanet.groundControl[eid] = controller;
+    ConquestPlanet.garrison[eid] = 40;
+    ConquestPlanet.maxGarrison[eid] = 100;
+    ConquestPlanet.resourceRate[eid] = 5 + index;
+    ConquestPlanet.industryLevel[eid] = 0.5;
+    ConquestPlanet.defenseBonus[eid] = 0.2;
+    return eid;
+  });
+
+  const fleets = [CONQUEST_FACTION.REBEL, CONQUEST_FACTION.EMPIRE].map((faction, i) => {
+    const eid = addEntity(world);
+    addComponent(world, ConquestFleet, eid);
+    ConquestFleet.faction[eid] = faction;
+    ConquestFleet.fighterSquadrons[eid] = 4 + i * 2;
+    ConquestFleet.capitalShips[eid] = 1;
+    ConquestFleet.bomberSquadrons[eid] = 2;
+    ConquestFleet.currentPlanetEid[eid] = i === 0 ? planets[0]! : planets[3]!;
+    ConquestFleet.destinationPlanetEid[eid] = -1;
+    ConquestFleet.finalDestinationEid[eid] = -1;
+    ConquestFleet.veterancy[eid] = 0.5;
+    ConquestFleet.state[eid] = FLEET_STATE.IDLE;
+    return eid;
+  });
+
+  const forceEid = addEntity(world);
+  addComponent(world, GroundForce, forceEid);
+  GroundForce.faction[forceEid] = CONQUEST_FACTION.EMPIRE;
+  GroundForce.planetEid[forceEid] = planets[3]!;
+  GroundForce.infantryPlatoons[forceEid] = 6;
+
+  return { world, planets, fleets };
+}
+
+/** Replace entity ids with their position in the snapshot so two worlds can be compared */
+function normalize(snapshot: ConquestSnapshot): unknown {
+  const planetIdx = new Map(snapshot.planets.map((r, i) => [r.eid, i]));
+  const fleetIdx = new Map(snapshot.fleets.map((r, i) => [r.eid, i]));
+  const ref = (map: Map<number, number>, eid: number | undefined) =>
+    eid === undefined || eid < 0 ? -1 : map.get(eid) ?? 'missing';
+
+  return {
+    rngState: snapshot.rngState,
+    state: snapshot.state?.fields,
+    planets: snapshot.planets.map((r) => r.fields),
+    fleets: snapshot.fleets.map((r) => ({
+      ...r.fields,
+      currentPlanetEid: ref(planetIdx, r.fields.currentPlanetEid),
+      destinationPlanetEid: ref(planetIdx, r.fields.destinationPlanetEid),
+      finalDestinationEid: ref(planetIdx, r.fields.finalDestinationEid)
+    })),
+    groundForces: snapshot.groundForces.map((r) => ({
+      ...r.fields,
+      planetEid: ref(planetIdx, r.fields.planetEid)
+    })),
+    battles: snapshot.battles.map((r) => ({
+      ...r.fields,
+      planetEid: ref(planetIdx, r.fields.planetEid),
+      attackerFleetEid: ref(fleetIdx, r.fields.attackerFleetEid),
+      defenderFleetEid: ref(fleetIdx, r.fields.defenderFleetEid)
+    }))
+  };
+}
+
+function run(world: World, ticks: number): void {
+  for (let i = 0; i < ticks; i++) conquestTick(world, 0.25);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('Conquest persistence', () => {
+  beforeEach(() => {
+    setConquestSeed(12345);
+  });
+
+  describe('serializeConquest', () => {
+    it('should capture every conquest entity and the RNG state', () => {
+      const { world } = createCampaign();
+      const snapshot = serializeConquest(world);
+
+      expect(snapshot.state).not.toBeNull();
+      expect(snapshot.planets).toHaveLength(4);
+      expect(snapshot.fleets).toHaveLength(2);
+      expect(snapshot.groundForces).toHaveLength(1);
+      expect(snapshot.battles).toHaveLength(0);
+      expect(snapshot.rngState).toBe(getConquestRngState());
+      expect(snapshot.state!.fields.empireCredits).toBe(1500);
+    });
+
+    it('should capture pending battles', () => {
+      const { world, planets, fleets } = createCampaign();
+      orderFleetMove(world, fleets[1]!, planets[0]!, 2);
+      run(world, 10);
+
+      const snapshot = serializeConquest(world);
+      expect(snapshot.battles.length).toBeGreaterThan(0);
+      expect(snapshot.battles[0]!.fields.planetEid).toBe(planets[0]);
+    });
+  });
+
+  describe('restoreConquest', () => {
+    it('should remap entity references to the new entities', () => {
+      const source = createCampaign();
+      orderFleetMove(source.world, source.fleets[1]!, source.planets[0]!, 2);
+      run(source.world, 10);
+      const snapshot = JSON.parse(JSON.stringify(serializeConquest(source.world))) as ConquestSnapshot;
+
+      const world = createWorld();
+      const restored = restoreConquest(world, snapshot);
+
+      expect(restored.planetEids).toHaveLength(4);
+      expect(ConquestFleet.currentPlanetEid[restored.fleetEids[0]!]).toBe(restored.planetEids[0]);
+      expect(GroundForce.planetEid[restored.groundForceEids[0]!]).toBe(restored.planetEids[3]);
+
+      const battleEid = restored.battleEids[0]!;
+      expect(BattlePending.planetEid[battleEid]).toBe(restored.planetEids[0]);
+      expect(restored.fleetEids).toContain(BattlePending.attackerFleetEid[battleEid]);
+      expect(BattlePending.attackerGroundEid[battleEid]).toBe(-1);
+    });
+
+    it('should resume with exactly the same future simulation', () => {
+      const source = createCampaign();
+      orderFleetMove(source.world, source.fleets[0]!, source.planets[1]!, 6);
+      orderFleetMove(source.world, source.fleets[1]!, source.planets[1]!, 9);
+      run(source.world, 20);
+
+      const saved = JSON.stringify(serializeConquest(source.world));
+
+      // Continue the original campaign
+      run(source.world, 200);
+      const expected = normalize(serializeConquest(source.world));
+
+      // Resume the saved one in a fresh world (after disturbing the RNG)
+      setConquestSeed(999);
+      const world = createWorld();
+      restoreConquest(world, JSON.parse(saved) as ConquestSnapshot);
+      run(world, 200);
+
+      expect(normalize(serializeConquest(world))).toEqual(expected);
+    });
+  });
+
+  describe('validation and migration', () => {
+    it('should reject malformed snapshots', () => {
+      expect(sanitizeConquestSnapshot(null)).toBeNull();
+      expect(sanitizeConquestSnapshot({ rngState: 1, state: null, planets: [], fleets: [] })).toBeNull();
+      expect(sanitizeConquestSnapshot({
+        rngState: 1,
+        state: { eid: 0, fields: {} },
+        planets: [{ eid: -4, fields: {} }],
+        fleets: []
+      })).toBeNull();
+    });
+
+    it('should drop non-numeric fields and default missing collections', () => {
+      const snapshot = sanitizeConquestSnapshot({
+        rngState: 7,
+        state: { eid: 1, fields: { gameTime: 12, phase: 'playing' } },
+        planets: [{ eid: 2, fields: { garrison: 30 } }],
+        fleets: []
+      });
+
+      expect(snapshot).not.toBeNull();
+      expect(snapshot!.state!.fields).toEqual({ gameTime: 12 });
+      expect(snapshot!.groundForces).toEqual([]);
+      expect(snapshot!.battles).toEqual([]);
+    });
+
+    it('should restore missing component fields as zero', () => {
+      const world = createWorld();
+      const restored = restoreConquest(world, {
+        rngState: 7,
+        state: { eid: 1, fields: { gameTime: 12 } },
+        planets: [{ eid: 2, fields: { garrison: 30 } }],
+        fleets: [],
+        groundForces: [],
+        battles: []
+      });
+
+      expect(ConquestState.gameTime[restored.stateEid]).toBe(12);
+      expect(ConquestPlanet.garrison[restored.planetEids[0]!]).toBe(30);
+      expect(ConquestPlanet.resourceRate[restored.planetEids[0]!]).toBe(0);
+      expect(getConquestRngState()).toBe(7);
+    });
+
+    it('should only accept known snapshot versions', () => {
+      const { world } = createCampaign();
+      const snapshot = JSON.parse(JSON.stringify(serializeConquest(world)));
+
+      expect(migrateConquestSnapshot(snapshot, CONQUEST_SNAPSHOT_VERSION)).toEqual(snapshot);
+      expect(migrateConquestSnapshot(snapshot, CONQUEST_SNAPSHOT_VERSION + 1)).toBeNull();
+    });
+
+    it('should migrate v1 snapshots by routing fleets straight to their jump target', () => {
+      const v1 = {
+        rngState: 3,
+        state: { eid: 1, fields: { gameTime: 5 } },
+        planets: [{ eid: 2, fields: {} }, { eid: 3, fields: {} }],
+        fleets: [
+          { eid: 4, fields: { currentPlanetEid: 2, destinationPlanetEid: 3, state: FLEET_STATE.MOVING } },
+          { eid: 5, fields: { currentPlanetEid: 3, state: FLEET_STATE.IDLE } }
+        ]
+      };
+
+      const migrated = migrateConquestSnapshot(v1, 1)!;
+      expect(migrated.fleets[0]!.fields.finalDestinationEid).toBe(3);
+      expect(migrated.fleets[1]!.fields.finalDestinationEid).toBe(-1);
+
+      const restored = restoreConquest(createWorld(), migrated);
+      expect(ConquestFleet.finalDestinationEid[restored.fleetEids[0]!]).toBe(restored.planetEids[1]);
+      expect(ConquestFleet.destinationPlanetEid[restored.fleetEids[1]!]).toBe(-1);
+    });
+  });
+});
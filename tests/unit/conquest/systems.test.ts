@@ -23,6 +23,7 @@ import {
   getFleetsOfFaction,
   getPlayerFleet,
   getConquestState,
+  getPlayerBattle,
   setConquestSeed
 } from '../../../packages/gameplay/src/conquest/systems';
 
@@ -430,6 +431,27 @@ describe('Conquest Systems', () => {
       expect(ConquestPlanet.underAttack[planetEid]).toBe(0);
     });
 
+    it('should not consider retreating fleets for battle detection', () => {
+      const world = createConquestWorld();
+      const planetEid = createPlanet(world);
+
+      createFleet(world, {
+        faction: CONQUEST_FACTION.REBEL,
+        currentPlanetEid: planetEid,
+        state: FLEET_STATE.IDLE
+      });
+      createFleet(world, {
+        faction: CONQUEST_FACTION.EMPIRE,
+        currentPlanetEid: planetEid,
+        state: FLEET_STATE.RETREATING
+      });
+
+      battleDetectionSystem(world);
+
+      // The retreating fleet already lost here
+      expect(ConquestPlanet.underAttack[planetEid]).toBe(0);
+    });
+
     it('should create BattlePending entity with correct factions', () => {
       const world = createConquestWorld();
       const planetEid = createPlanet(world);
@@ -456,6 +478,28 @@ describe('Conquest Systems', () => {
       expect(BattlePending.attackerFaction[battleEid]).toBe(CONQUEST_FACTION.EMPIRE);
       expect(BattlePending.defenderFaction[battleEid]).toBe(CONQUEST_FACTION.REBEL);
       expect(BattlePending.battleType[battleEid]).toBe(BATTLE_TYPE.SPACE);
+      expect(BattlePending.playerInvolved[battleEid]).toBe(0);
+    });
+
+    it('should flag battles that include the player fleet', () => {
+      const world = createConquestWorld();
+      const planetEid = createPlanet(world);
+
+      createFleet(world, {
+        faction: CONQUEST_FACTION.REBEL,
+        currentPlanetEid: planetEid,
+        isPlayerFleet: 1
+      });
+      createFleet(world, {
+        faction: CONQUEST_FACTION.EMPIRE,
+        currentPlanetEid: planetEid
+      });
+
+      battleDetectionSystem(world);
+
+      const battleEid = getPlayerBattle(world);
+      expect(battleEid).not.toBeNull();
+      expect(BattlePending.playerInvolved[battleEid!]).toBe(1);
     });
   });
 
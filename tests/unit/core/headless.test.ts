@@ -0,0 +1,247 @@
+/**
+ * Unit tests for the headless simulation runner
+ *
+ * Tests scripted input, world snapshots across separate worlds, hashing and
+ * the fixed-tick runner.
+ */
+
+import { createWorld, addEntity, addComponent, removeEntity, defineComponent, defineQuery, Types, type IWorld } from 'bitecs';
+import {
+  createHeadlessSim,
+  createScriptedInput,
+  snapshotWorld,
+  hashSnapshot,
+  DEFAULT_TIME_CONFIG,
+  type SimSystem
+} from '@xwingz/core';
+
+const Position = defineComponent({ x: Types.f32, vx: Types.f32 });
+const Follow = defineComponent({ targetEid: Types.i32 });
+
+type TestInput = { push: number; fire: boolean };
+const NEUTRAL: TestInput = { push: 0, fire: false };
+
+function spawnMover(world: IWorld, x: number): number {
+  const eid = addEntity(world);
+  addComponent(world, Position, eid);
+  Position.x[eid] = x;
+  Position.vx[eid] = 0;
+  return eid;
+}
+
+const moverQuery = defineQuery([Position]);
+
+const moveSystem: SimSystem<TestInput> = (world, input, dt) => {
+  for (const eid of moverQuery(world)) {
+    Position.vx[eid] = (Position.vx[eid] ?? 0) + input.push * dt;
+    Position.x[eid] = (Position.x[eid] ?? 0) + (Position.vx[eid] ?? 0) * dt;
+  }
+};
+
+function moverSetup(world: IWorld): void {
+  spawnMover(world, 0);
+  spawnMover(world, 10);
+}
+
+describe('createScriptedInput', () => {
+  it('should return the neutral input when no step covers the tick', () => {
+    const input = createScriptedInput(NEUTRAL, [{ at: 5, input: { fire: true } }]);
+    expect(input(0, createWorld())).toEqual(NEUTRAL);
+  });
+
+  it('should apply a step for one tick when until is omitted', () => {
+    const input = createScriptedInput(NEUTRAL, [{ at: 5, input: { fire: true } }]);
+    const world = createWorld();
+    expect(input(5, world).fire).toBe(true);
+    expect(input(6, world).fire).toBe(false);
+  });
+
+  it('should hold a step up to but not including until', () => {
+    const input = createScriptedInput(NEUTRAL, [{ at: 2, until: 4, input: { push: 1 } }]);
+    const world = createWorld();
+    expect([1, 2, 3, 4].map((t) => input(t, world).push)).toEqual([0, 1, 1, 0]);
+  });
+
+  it('should let later steps override earlier ones', () => {
+    const input = createScriptedInput(NEUTRAL, [
+      { at: 0, until: 10, input: { push: 1 } },
+      { at: 3, input: { push: -1, fire: true } }
+    ]);
+    expect(input(3, createWorld())).toEqual({ push: -1, fire: true });
+  });
+
+  it('should not mutate the neutral input', () => {
+    const input = createScriptedInput(NEUTRAL, [{ at: 0, input: { push: 1 } }]);
+    input(0, createWorld());
+    expect(NEUTRAL).toEqual({ push: 0, fire: false });
+  });
+});
+
+describe('snapshotWorld', () => {
+  function buildPair(world: IWorld): void {
+    const a = spawnMover(world, 1);
+    const b = spawnMover(world, 2);
+    addComponent(world, Follow, b);
+    Follow.targetEid[b] = a;
+  }
+
+  it('should produce equal snapshots for the same state in different worlds', () => {
+    const w1 = createWorld();
+    buildPair(w1);
+    const w2 = createWorld();
+    // Offset the global eid cursor so the second world gets different eids
+    addEntity(createWorld());
+    buildPair(w2);
+
+    const s1 = snapshotWorld(w1, { Position, Follow }, { Follow: ['targetEid'] });
+    const s2 = snapshotWorld(w2, { Position, Follow }, { Follow: ['targetEid'] });
+    expect(s1).toEqual(s2);
+    expect(hashSnapshot(s1)).toBe(hashSnapshot(s2));
+  });
+
+  it('should remap entity references to world order', () => {
+    const world = createWorld();
+    buildPair(world);
+    const snapshot = snapshotWorld(world, { Position, Follow }, { Follow: ['targetEid'] });
+    expect(snapshot.entities[1]!.Follow!.targetEid).toBe(0);
+  });
+
+  it('should map references to missing entities to -1', () => {
+    const world = createWorld();
+    const a = spawnMover(world, 1);
+    const b = spawnMover(world, 2);
+    addComponent(world, Follow, b);
+    Follow.targetEid[b] = a;
+    removeEntity(world, a);
+
+    const snapshot = snapshotWorld(world, { Follow }, { Follow: ['targetEid'] });
+    expect(snapshot.entities[0]!.Follow!.targetEid).toBe(-1);
+  });
+
+  it('should only include components an entity has', () => {
+    const world = createWorld();
+    spawnMover(world, 1);
+    const snapshot = snapshotWorld(world, { Position, Follow });
+    expect(Object.keys(snapshot.entities[0]!)).toEqual(['Position']);
+  });
+});
+
+describe('hashSnapshot', () => {
+  it('should return 8 hex digits', () => {
+    expect(hashSnapshot({ entities: [] })).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('should change when any field changes', () => {
+    const world = createWorld();
+    const eid = spawnMover(world, 1);
+    const before = hashSnapshot(snapshotWorld(world, { Position }));
+    Position.vx[eid] = 0.5;
+    expect(hashSnapshot(snapshotWorld(world, { Position }))).not.toBe(before);
+  });
+});
+
+describe('createHeadlessSim', () => {
+  function createMoverSim() {
+    return createHeadlessSim<TestInput>({
+      setup: moverSetup,
+      systems: [moveSystem],
+      input: createScriptedInput(NEUTRAL, [{ at: 0, until: 30, input: { push: 2 } }]),
+      components: { Position }
+    });
+  }
+
+  it('should step at the default tick rate', () => {
+    const sim = createMoverSim();
+    expect(sim.dt).toBeCloseTo(1 / DEFAULT_TIME_CONFIG.tickHz);
+
+    const frame = sim.step();
+    expect(frame.tick).toBe(1);
+    expect(frame.time).toBeCloseTo(sim.dt);
+    expect(sim.tick).toBe(1);
+  });
+
+  it('should use a custom tick rate', () => {
+    const sim = createHeadlessSim<TestInput>({
+      tickHz: 30,
+      systems: [],
+      input: () => NEUTRAL,
+      components: {}
+    });
+    expect(sim.dt).toBeCloseTo(1 / 30);
+  });
+
+  it('should run setup once before the first tick', () => {
+    let setups = 0;
+    const sim = createHeadlessSim<TestInput>({
+      setup: (world) => {
+        setups += 1;
+        moverSetup(world);
+      },
+      systems: [moveSystem],
+      input: () => NEUTRAL,
+      components: { Position }
+    });
+    expect(setups).toBe(0);
+    sim.run(5);
+    sim.run(5);
+    expect(setups).toBe(1);
+  });
+
+  it('should pass the input and tick to every system in order', () => {
+    const calls: string[] = [];
+    const sim = createHeadlessSim<TestInput>({
+      systems: [
+        (_w, input, _dt, tick) => calls.push(`a${tick}:${input.push}`),
+        (_w, _input, _dt, tick) => calls.push(`b${tick}`)
+      ],
+      input: createScriptedInput(NEUTRAL, [{ at: 1, input: { push: 3 } }]),
+      components: {}
+    });
+    sim.run(2);
+    expect(calls).toEqual(['a0:0', 'b0', 'a1:3', 'b1']);
+  });
+
+  it('should produce the same hashes on every run', () => {
+    const first = createMoverSim().run(60);
+    const second = createMoverSim().run(60);
+    expect(first.frames.map((f) => f.hash)).toEqual(second.frames.map((f) => f.hash));
+    expect(first.finalHash).toBe(second.finalHash);
+  });
+
+  it('should produce different hashes for different input', () => {
+    const pushed = createMoverSim().run(10);
+    const idle = createHeadlessSim<TestInput>({
+      setup: moverSetup,
+      systems: [moveSystem],
+      input: () => NEUTRAL,
+      components: { Position }
+    }).run(10);
+    expect(pushed.finalHash).not.toBe(idle.finalHash);
+  });
+
+  it('should stop early when until returns true', () => {
+    const result = createMoverSim().run(100, (_world, tick) => tick >= 12);
+    expect(result.ticks).toBe(12);
+    expect(result.frames).toHaveLength(12);
+  });
+
+  it('should only keep snapshots when asked', () => {
+    const lean = createMoverSim().run(3);
+    expect(lean.frames[0]!.snapshot).toBeUndefined();
+
+    const full = createHeadlessSim<TestInput>({
+      setup: moverSetup,
+      systems: [moveSystem],
+      input: () => NEUTRAL,
+      components: { Position },
+      keepSnapshots: true
+    }).run(3);
+    expect(full.frames[2]!.snapshot).toEqual(full.finalSnapshot);
+  });
+
+  it('should set up the world even when running zero ticks', () => {
+    const result = createMoverSim().run(0);
+    expect(result.ticks).toBe(0);
+    expect(result.finalSnapshot.entities).toHaveLength(2);
+  });
+});
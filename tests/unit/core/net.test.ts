@@ -0,0 +1,230 @@
+/**
+ * Unit tests for lockstep co-op networking
+ *
+ * Two (or more) in-process clients join a relay hub: room setup, lockstep
+ * input exchange, stalls on missing input, players leaving, hash checks, and
+ * message validation.
+ */
+
+import {
+  createRelayHub,
+  connectInProcess,
+  createLockstepSession,
+  decodeNetMessage,
+  encodeNetMessage,
+  DEFAULT_INPUT_DELAY,
+  NET_PROTOCOL_VERSION,
+  type LockstepSession,
+  type RelayHub
+} from '@xwingz/core';
+
+type TestInput = { push: number; fire: boolean };
+const NEUTRAL: TestInput = { push: 0, fire: false };
+
+function createClient(hub: RelayHub, inputDelay?: number): LockstepSession<TestInput> {
+  return createLockstepSession<TestInput>({ transport: connectInProcess(hub), neutral: NEUTRAL, inputDelay });
+}
+
+function startRoom(hub: RelayHub, inputDelay?: number): [LockstepSession<TestInput>, LockstepSession<TestInput>] {
+  const a = createClient(hub, inputDelay);
+  const b = createClient(hub, inputDelay);
+  a.join({ room: 'red', name: 'Red Two', seed: 1234n, mission: 'yavin', data: { ship: 'xwing' } });
+  b.join({ room: 'red', name: 'Red Three', seed: 999n, mission: 'speeder' });
+  return [a, b];
+}
+
+describe('decodeNetMessage', () => {
+  it('should round-trip encoded messages', () => {
+    const msg = { type: 'input' as const, tick: 4, input: { push: 0.5, fire: true } };
+    expect(decodeNetMessage(encodeNetMessage(msg))).toEqual(msg);
+  });
+
+  it('should reject malformed messages', () => {
+    expect(decodeNetMessage('not json')).toBeNull();
+    expect(decodeNetMessage('{"type":"teleport"}')).toBeNull();
+    expect(decodeNetMessage('{"type":"input","tick":-1,"input":{}}')).toBeNull();
+    expect(decodeNetMessage('{"type":"input","tick":1,"input":{"push":"fast"}}')).toBeNull();
+    expect(decodeNetMessage('{"type":"join","version":1,"room":"","name":"x"}')).toBeNull();
+    expect(decodeNetMessage('{"type":"join","version":1,"room":"a","name":"x","seed":"1.5"}')).toBeNull();
+  });
+});
+
+describe('createRelayHub', () => {
+  it('should start a room once full, with the opener\'s seed and mission', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub);
+
+    expect(hub.roomCount).toBe(1);
+    for (const client of [a, b]) {
+      expect(client.status).toBe('running');
+      expect(client.seed).toBe(1234n);
+      expect(client.mission).toBe('yavin');
+      expect(client.players.map((p) => p.name)).toEqual(['Red Two', 'Red Three']);
+    }
+    expect(a.slot).toBe(0);
+    expect(b.slot).toBe(1);
+    expect(b.players[0]!.data).toEqual({ ship: 'xwing' });
+  });
+
+  it('should wait for the room to fill', () => {
+    const hub = createRelayHub();
+    const a = createClient(hub);
+    a.join({ room: 'red', name: 'Red Two' });
+    expect(a.status).toBe('waiting');
+    expect(a.roomSize).toBe(2);
+    expect(a.step({ push: 1, fire: false })).toBeNull();
+  });
+
+  it('should refuse to join a started room', () => {
+    const hub = createRelayHub();
+    startRoom(hub);
+    const late = createClient(hub);
+    late.join({ room: 'red', name: 'Late' });
+    expect(late.status).toBe('closed');
+    expect(late.error).toMatch(/already started/);
+  });
+
+  it('should refuse other protocol versions', () => {
+    const hub = createRelayHub();
+    const replies: string[] = [];
+    const conn = hub.connect((text) => replies.push(text));
+    conn.receive(encodeNetMessage({ type: 'join', version: NET_PROTOCOL_VERSION + 1, room: 'red', name: 'Old' }));
+    expect(decodeNetMessage(replies[0]!)).toMatchObject({ type: 'error' });
+    expect(hub.roomCount).toBe(0);
+  });
+
+  it('should reuse the slot of a player who leaves before the start', () => {
+    const hub = createRelayHub();
+    const a = createClient(hub);
+    const b = createClient(hub);
+    const c = createClient(hub);
+    a.join({ room: 'red', name: 'A', size: 3 });
+    b.join({ room: 'red', name: 'B' });
+    a.leave();
+    c.join({ room: 'red', name: 'C' });
+    expect(c.slot).toBe(0);
+    expect(b.status).toBe('waiting');
+  });
+
+  it('should close the room when everyone has left', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub);
+    a.leave();
+    b.leave();
+    expect(hub.roomCount).toBe(0);
+  });
+});
+
+describe('createLockstepSession', () => {
+  it('should give every client the same inputs for each tick', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub);
+    const seenA: TestInput[][] = [];
+    const seenB: TestInput[][] = [];
+
+    for (let i = 0; i < 20; i++) {
+      seenA.push(a.step({ push: i, fire: false })!);
+      seenB.push(b.step({ push: -i, fire: i % 2 === 0 })!);
+    }
+
+    expect(seenA).toEqual(seenB);
+    // Neutral until the input delay has passed, then each slot's input
+    expect(seenA[0]).toEqual([NEUTRAL, NEUTRAL]);
+    expect(seenA[DEFAULT_INPUT_DELAY]).toEqual([{ push: 0, fire: false }, { push: 0, fire: true }]);
+    expect(seenA[DEFAULT_INPUT_DELAY + 5]).toEqual([{ push: 5, fire: false }, { push: -5, fire: false }]);
+  });
+
+  it('should stall until the other player\'s input arrives', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub, 2);
+
+    expect(a.step(NEUTRAL)).not.toBeNull();
+    expect(a.step(NEUTRAL)).not.toBeNull();
+    // Tick 2 needs b's input, which b sends as it steps tick 0
+    expect(a.step(NEUTRAL)).toBeNull();
+    expect(a.tick).toBe(2);
+
+    b.step({ push: 3, fire: true });
+    expect(a.step(NEUTRAL)).toEqual([NEUTRAL, { push: 3, fire: true }]);
+  });
+
+  it('should use the same numbers locally as on the wire', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub, 1);
+    a.step({ push: -0, fire: false });
+    b.step({ push: Number.NaN, fire: false });
+    const seenA = a.step(NEUTRAL)!;
+    const seenB = b.step(NEUTRAL)!;
+    expect(Object.is(seenA[0]!.push, 0)).toBe(true);
+    expect(seenA[1]!.push).toBe(0);
+    expect(seenA).toEqual(seenB);
+  });
+
+  it('should not mutate queued input when the caller reuses its object', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub, 1);
+    const held = { push: 1, fire: false };
+    a.step(held);
+    held.push = 9;
+    b.step(NEUTRAL);
+    expect(b.step(NEUTRAL)![0]).toEqual({ push: 1, fire: false });
+  });
+
+  it('should drop a player who leaves on the same tick for everyone', () => {
+    const hub = createRelayHub();
+    const a = createClient(hub, 1);
+    const b = createClient(hub, 1);
+    const c = createClient(hub, 1);
+    a.join({ room: 'gold', name: 'A', size: 3 });
+    b.join({ room: 'gold', name: 'B' });
+    c.join({ room: 'gold', name: 'C' });
+
+    for (let i = 0; i < 3; i++) {
+      a.step(NEUTRAL);
+      b.step(NEUTRAL);
+      c.step({ push: 1, fire: true });
+    }
+    c.leave();
+
+    // c's last frame was for tick 3; from tick 4 it is neutral on both sides
+    const a3 = a.step(NEUTRAL);
+    const b3 = b.step(NEUTRAL);
+    expect(a3![2]).toEqual({ push: 1, fire: true });
+    expect(b3).toEqual(a3);
+    expect(a.step(NEUTRAL)![2]).toEqual(NEUTRAL);
+    expect(b.step(NEUTRAL)![2]).toEqual(NEUTRAL);
+  });
+
+  it('should flag the first tick whose hashes differ', () => {
+    const hub = createRelayHub();
+    const [a, b] = startRoom(hub);
+
+    for (let i = 0; i < 4; i++) {
+      a.step(NEUTRAL);
+      b.step(NEUTRAL);
+      a.reportHash(`h${i}`);
+      b.reportHash(i < 2 ? `h${i}` : 'drift');
+    }
+
+    expect(a.desyncTick).toBe(2);
+    expect(b.desyncTick).toBe(2);
+  });
+
+  it('should close when the connection drops', () => {
+    const hub = createRelayHub();
+    const transport = connectInProcess(hub);
+    const closed: (string | null)[] = [];
+    const session = createLockstepSession<TestInput>({ transport, neutral: NEUTRAL, onClose: (e) => closed.push(e) });
+    session.join({ room: 'red', name: 'A' });
+    transport.close();
+    expect(session.status).toBe('closed');
+    expect(closed).toEqual(['connection lost']);
+  });
+
+  it('should only join once', () => {
+    const hub = createRelayHub();
+    const a = createClient(hub);
+    a.join({ room: 'red', name: 'A' });
+    expect(() => a.join({ room: 'blue', name: 'A' })).toThrow();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for the relay's WebSocket server side (RFC 6455)
+ *
+ * Handshake key, the incremental frame reader (masking, partial and
+ * fragmented input, extended lengths, oversize rejection) and how a
+ * connection answers ping and close frames.
+ */
+
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import {
+  OPCODE,
+  acceptWebSocket,
+  createFrameReader,
+  encodeFrame,
+  websocketAcceptKey
+} from '../../../tools/relay/src/websocket';
+
+const MASK = [0x37, 0xfa, 0x21, 0x3d];
+
+/** A client frame: always masked, as RFC 6455 requires */
+function clientFrame(opcode: number, payload: Buffer, fin = true): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = (fin ? 0x80 : 0) | opcode;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = (fin ? 0x80 : 0) | opcode;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) masked[i] = masked[i]! ^ MASK[i & 3]!;
+  return Buffer.concat([header, Buffer.from(MASK), masked]);
+}
+
+function text(s: string): Buffer {
+  return Buffer.from(s, 'utf8');
+}
+
+describe('websocketAcceptKey', () => {
+  it('should answer the RFC 6455 sample key', () => {
+    expect(websocketAcceptKey('dGhlIHNhbXBsZSBub25jZQ==')).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+});
+
+describe('createFrameReader', () => {
+  it('should unmask a text frame', () => {
+    const read = createFrameReader();
+    const frames = read(clientFrame(OPCODE.TEXT, text('Hello')));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]!.fin).toBe(true);
+    expect(frames[0]!.opcode).toBe(OPCODE.TEXT);
+    expect(frames[0]!.payload.toString('utf8')).toBe('Hello');
+  });
+
+  it('should wait for the rest of a frame split across chunks', () => {
+    const read = createFrameReader();
+    const frame = clientFrame(OPCODE.TEXT, text('split across chunks'));
+
+    expect(read(frame.subarray(0, 1))).toHaveLength(0);
+    expect(read(frame.subarray(1, 5))).toHaveLength(0);
+    expect(read(frame.subarray(5, frame.length - 1))).toHaveLength(0);
+    const frames = read(frame.subarray(frame.length - 1));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]!.payload.toString('utf8')).toBe('split across chunks');
+  });
+
+  it('should return every whole frame in a chunk and keep the partial one', () => {
+    const read = createFrameReader();
+    const first = clientFrame(OPCODE.TEXT, text('one'));
+    const second = clientFrame(OPCODE.TEXT, text('two'));
+    const third = clientFrame(OPCODE.TEXT, text('three'));
+
+    const frames = read(Buffer.concat([first, second, third.subarray(0, 3)]));
+    expect(frames.map((f) => f.payload.toString('utf8'))).toEqual(['one', 'two']);
+
+    const rest = read(third.subarray(3));
+    expect(rest.map((f) => f.payload.toString('utf8'))).toEqual(['three']);
+  });
+
+  it('should keep fragmented messages as continuation frames', () => {
+    const read = createFrameReader();
+    const frames = read(Buffer.concat([
+      clientFrame(OPCODE.TEXT, text('frag'), false),
+      clientFrame(OPCODE.CONTINUATION, text('men'), false),
+      clientFrame(OPCODE.CONTINUATION, text('ted'))
+    ]));
+
+    expect(frames.map((f) => [f.opcode, f.fin])).toEqual([
+      [OPCODE.TEXT, false],
+      [OPCODE.CONTINUATION, false],
+      [OPCODE.CONTINUATION, true]
+    ]);
+    expect(Buffer.concat(frames.map((f) => f.payload)).toString('utf8')).toBe('fragmented');
+  });
+
+  it('should read 16-bit extended lengths', () => {
+    const read = createFrameReader();
+    const payload = Buffer.alloc(300, 'a');
+    const frame = clientFrame(OPCODE.TEXT, payload);
+    expect(frame[1]! & 0x7f).toBe(126);
+
+    // Header split inside the extended length
+    expect(read(frame.subarray(0, 3))).toHaveLength(0);
+    const frames = read(frame.subarray(3));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]!.payload.equals(payload)).toBe(true);
+  });
+
+  it('should read 64-bit extended lengths', () => {
+    const read = createFrameReader();
+    const payload = Buffer.alloc(0x10000 - 1, 'b');
+    const small = clientFrame(OPCODE.TEXT, payload);
+    expect(small[1]! & 0x7f).toBe(126);
+
+    // Same payload sent with the 64-bit length form
+    const header = Buffer.alloc(10);
+    header[0] = 0x80 | OPCODE.TEXT;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+    const frame = Buffer.concat([header, small.subarray(4)]);
+
+    expect(read(frame.subarray(0, 9))).toHaveLength(0);
+    const frames = read(frame.subarray(9));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]!.payload.equals(payload)).toBe(true);
+  });
+
+  it('should reject frames over the message limit', () => {
+    expect(() => createFrameReader()(clientFrame(OPCODE.TEXT, Buffer.alloc(64 * 1024 + 1))))
+      .toThrow('too large');
+
+    // A huge declared 64-bit length is refused before any payload arrives
+    const header = Buffer.alloc(10);
+    header[0] = 0x80 | OPCODE.TEXT;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(2n ** 40n, 2);
+    expect(() => createFrameReader()(header)).toThrow('too large');
+  });
+
+  it('should reject unmasked client frames', () => {
+    expect(() => createFrameReader()(encodeFrame(OPCODE.TEXT, text('hi')))).toThrow('masked');
+  });
+
+  it('should pass close and ping opcodes through with their payloads', () => {
+    const read = createFrameReader();
+    const frames = read(Buffer.concat([
+      clientFrame(OPCODE.PING, text('are you there')),
+      clientFrame(OPCODE.CLOSE, Buffer.from([0x03, 0xe8]))
+    ]));
+
+    expect(frames.map((f) => f.opcode)).toEqual([OPCODE.PING, OPCODE.CLOSE]);
+    expect(frames[0]!.payload.toString('utf8')).toBe('are you there');
+    expect(frames[1]!.payload.readUInt16BE(0)).toBe(1000);
+  });
+});
+
+describe('acceptWebSocket', () => {
+  class FakeSocket extends EventEmitter {
+    written: Buffer[] = [];
+    ended = false;
+    write(data: string | Buffer): boolean {
+      this.written.push(typeof data === 'string' ? Buffer.from(data) : data);
+      return true;
+    }
+    end(data?: string): void {
+      if (data) this.written.push(Buffer.from(data));
+      this.ended = true;
+    }
+  }
+
+  function upgrade(headers: Record<string, string>) {
+    const socket = new FakeSocket();
+    const conn = acceptWebSocket({ headers } as unknown as IncomingMessage, socket as unknown as Duplex);
+    return { socket, conn };
+  }
+
+  const HEADERS = { upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' };
+
+  it('should complete the handshake with the accept key', () => {
+    const { socket, conn } = upgrade(HEADERS);
+
+    expect(conn).not.toBeNull();
+    const response = socket.written[0]!.toString();
+    expect(response.startsWith('HTTP/1.1 101')).toBe(true);
+    expect(response).toContain('Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+  });
+
+  it('should refuse requests that are not upgrades', () => {
+    const { socket, conn } = upgrade({ 'sec-websocket-key': 'x' });
+
+    expect(conn).toBeNull();
+    expect(socket.ended).toBe(true);
+    expect(socket.written[0]!.toString()).toContain('400');
+  });
+
+  it('should answer a ping with a pong carrying the same payload', () => {
+    const { socket } = upgrade(HEADERS);
+    socket.emit('data', clientFrame(OPCODE.PING, text('beat')));
+
+    expect(socket.written[1]!.equals(encodeFrame(OPCODE.PONG, text('beat')))).toBe(true);
+    expect(socket.ended).toBe(false);
+  });
+
+  it('should reassemble fragmented text into one message', () => {
+    const { socket, conn } = upgrade(HEADERS);
+    const messages: string[] = [];
+    conn!.onmessage = (m) => messages.push(m);
+
+    socket.emit('data', clientFrame(OPCODE.TEXT, text('{"t":'), false));
+    socket.emit('data', clientFrame(OPCODE.CONTINUATION, text('1}')));
+
+    expect(messages).toEqual(['{"t":1}']);
+  });
+
+  it('should close in reply to a close frame', () => {
+    const { socket, conn } = upgrade(HEADERS);
+    let closed = 0;
+    conn!.onclose = () => closed++;
+
+    socket.emit('data', clientFrame(OPCODE.CLOSE, Buffer.alloc(0)));
+
+    expect(socket.written[1]!.equals(encodeFrame(OPCODE.CLOSE, Buffer.alloc(0)))).toBe(true);
+    expect(socket.ended).toBe(true);
+    expect(closed).toBe(1);
+  });
+
+  it('should close on a frame it must reject', () => {
+    const { socket } = upgrade(HEADERS);
+    socket.emit('data', encodeFrame(OPCODE.TEXT, text('unmasked')));
+
+    expect(socket.ended).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for input recording and replay
+ *
+ * Tests run-length recording, JSON round trips, validation and playback.
+ */
+
+import {
+  createInputRecorder,
+  createInputReplay,
+  createReplayInput,
+  encodeRecording,
+  decodeRecording,
+  INPUT_RECORDING_VERSION,
+  DEFAULT_TIME_CONFIG
+} from '@xwingz/core';
+
+type TestInput = { pitch: number; firePrimary: boolean };
+const IDLE: TestInput = { pitch: 0, firePrimary: false };
+
+function recordSequence(inputs: TestInput[], seed = 42n) {
+  const recorder = createInputRecorder<TestInput>(seed, { meta: { mode: 'flight' } });
+  for (const input of inputs) recorder.record(input);
+  return recorder;
+}
+
+describe('createInputRecorder', () => {
+  it('should store the seed, tick rate and metadata', () => {
+    const recording = recordSequence([IDLE], 123456789012345678901n).finish();
+    expect(recording.version).toBe(INPUT_RECORDING_VERSION);
+    expect(recording.seed).toBe('123456789012345678901');
+    expect(recording.tickHz).toBe(DEFAULT_TIME_CONFIG.tickHz);
+    expect(recording.meta).toEqual({ mode: 'flight' });
+  });
+
+  it('should fix key order and boolean flags from the first tick', () => {
+    const recording = recordSequence([{ pitch: 0.5, firePrimary: true }]).finish();
+    expect(recording.keys).toEqual(['pitch', 'firePrimary']);
+    expect(recording.flags).toEqual(['firePrimary']);
+    expect(recording.runs).toEqual([[1, 0.5, 1]]);
+  });
+
+  it('should collapse identical ticks into one run', () => {
+    const recorder = recordSequence([IDLE, IDLE, IDLE, { pitch: 1, firePrimary: false }, IDLE]);
+    expect(recorder.ticks).toBe(5);
+    expect(recorder.finish().runs).toEqual([
+      [3, 0, 0],
+      [1, 1, 0],
+      [1, 0, 0]
+    ]);
+  });
+
+  it('should keep recording after finish', () => {
+    const recorder = recordSequence([IDLE]);
+    const first = recorder.finish();
+    recorder.record(IDLE);
+    expect(first.runs).toEqual([[1, 0, 0]]);
+    expect(recorder.finish().runs).toEqual([[2, 0, 0]]);
+  });
+
+  it('should record nothing before the first tick', () => {
+    const recording = createInputRecorder<TestInput>(1n).finish();
+    expect(recording.keys).toEqual([]);
+    expect(recording.runs).toEqual([]);
+  });
+});
+
+describe('encodeRecording / decodeRecording', () => {
+  it('should round trip a recording', () => {
+    const recording = recordSequence([IDLE, { pitch: -0.123456789, firePrimary: true }]).finish();
+    expect(decodeRecording(encodeRecording(recording))).toEqual(recording);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(decodeRecording('{not json')).toBeNull();
+  });
+
+  it('should reject another format version', () => {
+    const recording = { ...recordSequence([IDLE]).finish(), version: INPUT_RECORDING_VERSION + 1 };
+    expect(decodeRecording(JSON.stringify(recording))).toBeNull();
+  });
+
+  it('should reject a non-numeric seed', () => {
+    const recording = { ...recordSequence([IDLE]).finish(), seed: 'abc' };
+    expect(decodeRecording(JSON.stringify(recording))).toBeNull();
+  });
+
+  it('should reject rows of the wrong width', () => {
+    const recording = { ...recordSequence([IDLE]).finish(), runs: [[1, 0]] };
+    expect(decodeRecording(JSON.stringify(recording))).toBeNull();
+  });
+
+  it('should reject runs that do not cover at least one tick', () => {
+    const recording = { ...recordSequence([IDLE]).finish(), runs: [[0, 0, 0]] };
+    expect(decodeRecording(JSON.stringify(recording))).toBeNull();
+  });
+
+  it('should default missing metadata to empty', () => {
+    const { meta: _meta, ...rest } = recordSequence([IDLE]).finish();
+    expect(decodeRecording(JSON.stringify(rest))?.meta).toEqual({});
+  });
+});
+
+describe('createInputReplay', () => {
+  const inputs: TestInput[] = [
+    IDLE,
+    IDLE,
+    { pitch: 0.25, firePrimary: true },
+    { pitch: 0.25, firePrimary: true },
+    { pitch: -1, firePrimary: false }
+  ];
+
+  it('should return every recorded input in order', () => {
+    const replay = createInputReplay<TestInput>(recordSequence(inputs).finish());
+    expect(replay.length).toBe(5);
+    expect(inputs.map((_, tick) => replay.at(tick))).toEqual(inputs);
+  });
+
+  it('should restore the seed as a bigint', () => {
+    const replay = createInputReplay<TestInput>(recordSequence(inputs, 987654321987654321n).finish());
+    expect(replay.seed).toBe(987654321987654321n);
+  });
+
+  it('should return null outside the recording', () => {
+    const replay = createInputReplay<TestInput>(recordSequence(inputs).finish());
+    expect(replay.at(-1)).toBeNull();
+    expect(replay.at(5)).toBeNull();
+  });
+
+  it('should hand out copies', () => {
+    const replay = createInputReplay<TestInput>(recordSequence(inputs).finish());
+    replay.at(2)!.pitch = 99;
+    expect(replay.at(2)!.pitch).toBe(0.25);
+  });
+});
+
+describe('createReplayInput', () => {
+  it('should fall back to neutral input past the end', () => {
+    const source = createReplayInput(recordSequence([{ pitch: 1, firePrimary: true }]).finish(), IDLE);
+    expect(source(0, {} as never)).toEqual({ pitch: 1, firePrimary: true });
+    expect(source(1, {} as never)).toEqual(IDLE);
+  });
+});
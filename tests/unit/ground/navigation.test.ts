@@ -0,0 +1,325 @@
+import { createWorld, addEntity, addComponent } from 'bitecs';
+import {
+  InGroundDomain,
+  CharacterController,
+  GroundInput,
+  Soldier,
+  GroundAI,
+  Enterable
+} from '../../../packages/gameplay/src/ground/components';
+import { Transform, Velocity, Team, Health } from '../../../packages/gameplay/src/space/components';
+import {
+  avoidNavObstacles,
+  bakeNavGrid,
+  canNavStep,
+  findNavPath,
+  hasNavLineOfSight,
+  isNavWalkable,
+  setGroundNavGrid,
+  smoothNavPath,
+  type NavGrid,
+  type NavPoint
+} from '../../../packages/gameplay/src/ground/navigation';
+import {
+  GroundAIState,
+  groundAISystem,
+  groundVehicleMovementSystem,
+  groundVehicleNavRadius,
+  spawnATST,
+  spawnCommandPost,
+  spawnSpeederBike
+} from '../../../packages/gameplay/src/ground/systems';
+import { groundVehicleAISystem } from '../../../packages/gameplay/src/ground/vehicle-ai-system';
+import type { PhysicsWorld } from '@xwingz/physics';
+
+// 60 x 60 m of flat ground with a 2 m thick, 1.5 m tall wall along x = 0
+// from z = -20 to z = 20 - the Hoth trench layout - and a 2 m box off to
+// the side. The wall has a gap from z = 4 to z = 8.
+function trenchLayout(x: number, z: number): number | null {
+  const inWall = x >= -1 && x < 1 && z >= -20 && z < 20 && !(z >= 4 && z < 8);
+  const inBox = x >= 10 && x < 12 && z >= -12 && z < -10;
+  return inWall || inBox ? 1.5 : 0;
+}
+
+function bakeTrenches(): NavGrid {
+  return bakeNavGrid({ minX: -30, minZ: -30, maxX: 30, maxZ: 30 }, trenchLayout);
+}
+
+// Every point along a path (sampled every 0.25 m) is walkable for `radius`
+function pathIsClear(grid: NavGrid, from: NavPoint, path: NavPoint[], radius: number): boolean {
+  let prev = from;
+  for (const p of path) {
+    const steps = Math.ceil(Math.hypot(p.x - prev.x, p.z - prev.z) / 0.25);
+    for (let s = 0; s <= steps; s++) {
+      const t = steps === 0 ? 0 : s / steps;
+      if (!isNavWalkable(grid, prev.x + (p.x - prev.x) * t, prev.z + (p.z - prev.z) * t, radius)) return false;
+    }
+    prev = p;
+  }
+  return true;
+}
+
+describe('bakeNavGrid', () => {
+  it('should block raised geometry and leave open ground walkable', () => {
+    const grid = bakeTrenches();
+    expect(grid.cols).toBe(60);
+    expect(grid.rows).toBe(60);
+    expect(isNavWalkable(grid, 0, 0)).toBe(false);
+    expect(isNavWalkable(grid, 11, -11)).toBe(false);
+    expect(isNavWalkable(grid, 0, 6)).toBe(true);
+    expect(isNavWalkable(grid, -10, 0)).toBe(true);
+  });
+
+  it('should block cells with nothing under them', () => {
+    const grid = bakeNavGrid({ minX: 0, minZ: 0, maxX: 10, maxZ: 10 }, (x) => (x > 5 ? null : 0));
+    expect(isNavWalkable(grid, 3, 5)).toBe(true);
+    expect(isNavWalkable(grid, 7, 5)).toBe(false);
+  });
+
+  it('should let agents walk up gentle slopes but not cliffs', () => {
+    const slope = bakeNavGrid({ minX: 0, minZ: 0, maxX: 20, maxZ: 20 }, (x) => x * 0.5);
+    expect(isNavWalkable(slope, 10, 10)).toBe(true);
+
+    const cliff = bakeNavGrid({ minX: 0, minZ: 0, maxX: 20, maxZ: 20 }, (x) => (x > 10 ? 5 : 0));
+    expect(isNavWalkable(cliff, 10.5, 10)).toBe(false);
+    expect(isNavWalkable(cliff, 9.5, 10)).toBe(true);
+  });
+
+  it('should record the clearance around obstacles', () => {
+    const grid = bakeTrenches();
+    expect(isNavWalkable(grid, -1.5, -10, 0.4)).toBe(true);
+    expect(isNavWalkable(grid, -1.5, -10, 1)).toBe(false);
+    expect(isNavWalkable(grid, -4.5, -10, 3)).toBe(true);
+  });
+
+  it('should treat points off the grid as open', () => {
+    expect(isNavWalkable(bakeTrenches(), 100, 100, 5)).toBe(true);
+  });
+});
+
+describe('findNavPath', () => {
+  it('should route through the gap in the wall', () => {
+    const grid = bakeTrenches();
+    const from = { x: -10, z: 0 };
+    const path = findNavPath(grid, from.x, from.z, 10, 0, 0.4)!;
+
+    expect(path).not.toBeNull();
+    expect(path[path.length - 1]).toEqual({ x: 10, z: 0 });
+    expect(path.some((p) => p.z >= 4 && p.z <= 8 && Math.abs(p.x) < 3)).toBe(true);
+    expect(pathIsClear(grid, from, path, 0.4)).toBe(true);
+  });
+
+  it('should go round the end of the wall when the gap is too narrow', () => {
+    const grid = bakeTrenches();
+    const from = { x: -10, z: 0 };
+    const path = findNavPath(grid, from.x, from.z, 10, 0, 2.5)!;
+
+    expect(path).not.toBeNull();
+    expect(path.some((p) => p.z > 20 || p.z < -20)).toBe(true);
+    expect(pathIsClear(grid, from, path, 2.5)).toBe(true);
+  });
+
+  it('should walk straight there when nothing is in the way', () => {
+    const path = findNavPath(bakeTrenches(), -20, -25, -5, -25);
+    expect(path).toEqual([{ x: -5, z: -25 }]);
+  });
+
+  it('should return null when the goal is walled off', () => {
+    // A closed ring around (0, 0)
+    const ring = (x: number, z: number) => {
+      const r = Math.hypot(x, z);
+      return r > 8 && r < 10 ? 3 : 0;
+    };
+    const grid = bakeNavGrid({ minX: -20, minZ: -20, maxX: 20, maxZ: 20 }, ring);
+    expect(findNavPath(grid, 15, 15, 0, 0)).toBeNull();
+  });
+
+  it('should return null off the grid', () => {
+    expect(findNavPath(bakeTrenches(), -100, 0, 10, 0)).toBeNull();
+  });
+
+  it('should start from open ground when the agent stands against a wall', () => {
+    const grid = bakeTrenches();
+    const path = findNavPath(grid, -1.2, -10, -10, -10, 0.5);
+    expect(path).not.toBeNull();
+    expect(path![path!.length - 1]).toEqual({ x: -10, z: -10 });
+  });
+});
+
+describe('smoothNavPath', () => {
+  it('should drop waypoints that a straight walk can skip', () => {
+    const grid = bakeTrenches();
+    const zigzag = [
+      { x: -20, z: -25 },
+      { x: -18, z: -24 },
+      { x: -16, z: -25 },
+      { x: -14, z: -24 },
+      { x: -12, z: -25 }
+    ];
+    expect(smoothNavPath(grid, zigzag)).toEqual([zigzag[0], zigzag[4]]);
+  });
+
+  it('should keep the corners needed to clear an obstacle', () => {
+    const grid = bakeTrenches();
+    const around = [
+      { x: -5, z: 0 },
+      { x: -3, z: 6 },
+      { x: 3, z: 6 },
+      { x: 5, z: 0 }
+    ];
+    const smoothed = smoothNavPath(grid, around);
+    expect(smoothed.length).toBeGreaterThan(2);
+    for (let i = 1; i < smoothed.length; i++) {
+      expect(hasNavLineOfSight(grid, smoothed[i - 1]!, smoothed[i]!)).toBe(true);
+    }
+  });
+});
+
+describe('avoidNavObstacles', () => {
+  it('should pass an obstacle on the side it is not on', () => {
+    // Heading -Z with a walker slightly to the right (+X) ahead
+    const dir = avoidNavObstacles(0, 0, 0, -1, 0.4, [{ x: 0.5, z: -3, radius: 2 }]);
+    expect(dir.x).toBeLessThan(0);
+    expect(dir.z).toBeLessThan(0);
+    expect(Math.hypot(dir.x, dir.z)).toBeCloseTo(1);
+  });
+
+  it('should ignore obstacles behind, beside or far ahead', () => {
+    const obstacles = [
+      { x: 0, z: 3, radius: 1 },
+      { x: 5, z: -2, radius: 1 },
+      { x: 0, z: -30, radius: 1 }
+    ];
+    expect(avoidNavObstacles(0, 0, 0, -1, 0.4, obstacles)).toEqual({ x: 0, z: -1 });
+  });
+});
+
+describe('canNavStep', () => {
+  it('should refuse steps into walls but allow backing away from them', () => {
+    const grid = bakeTrenches();
+    expect(canNavStep(grid, -3, -10, -1.5, -10, 0.4)).toBe(true);
+    expect(canNavStep(grid, -3, -10, -0.5, -10, 0.4)).toBe(false);
+    expect(canNavStep(grid, -1.5, -10, -2.5, -10, 2)).toBe(true);
+  });
+});
+
+describe('ground AI on the nav grid', () => {
+  const physics = {} as PhysicsWorld;
+  let world = createWorld();
+
+  beforeEach(() => {
+    world = createWorld();
+  });
+  afterEach(() => setGroundNavGrid(null));
+
+  function spawnTrooper(world: ReturnType<typeof createWorld>, x: number, z: number): number {
+    const eid = addEntity(world);
+    for (const component of [InGroundDomain, GroundAI, CharacterController, GroundInput, Soldier, Transform, Velocity, Team, Health]) {
+      addComponent(world, component, eid);
+    }
+    Transform.x[eid] = x;
+    Transform.z[eid] = z;
+    Team.id[eid] = 1;
+    Health.hp[eid] = 100;
+    CharacterController.capsuleRadius[eid] = 0.35;
+    GroundAI.state[eid] = GroundAIState.MoveTo;
+    return eid;
+  }
+
+  // Walk a trooper by its own inputs (what the character controller would do)
+  function walk(eid: number, seconds: number, speed = 4): void {
+    const dt = 1 / 30;
+    for (let t = 0; t < seconds; t += dt) {
+      groundAISystem(world, dt);
+      const yaw = GroundInput.aimYaw[eid]!;
+      const mx = GroundInput.moveX[eid]!;
+      const mz = GroundInput.moveZ[eid]!;
+      Transform.x[eid] = Transform.x[eid]! + (mx * Math.cos(yaw) - mz * Math.sin(yaw)) * speed * dt;
+      Transform.z[eid] = Transform.z[eid]! + (-mx * Math.sin(yaw) - mz * Math.cos(yaw)) * speed * dt;
+    }
+  }
+
+  it('should walk a trooper through the gap instead of into the wall', () => {
+    const grid = bakeTrenches();
+    setGroundNavGrid(grid);
+    const eid = spawnTrooper(world, -10, 0);
+    GroundAI.waypointX[eid] = 10;
+    GroundAI.waypointZ[eid] = 0;
+
+    let enteredWall = false;
+    const dt = 1 / 30;
+    for (let t = 0; t < 15 && GroundAI.state[eid] !== GroundAIState.Capture; t += dt) {
+      walk(eid, dt);
+      if (!isNavWalkable(grid, Transform.x[eid]!, Transform.z[eid]!, 0)) enteredWall = true;
+    }
+
+    expect(enteredWall).toBe(false);
+    expect(GroundAI.state[eid]).toBe(GroundAIState.Capture);
+    expect(Math.hypot(Transform.x[eid]! - 10, Transform.z[eid]!)).toBeLessThan(2.5);
+  });
+
+  it('should walk straight at the waypoint without a nav grid', () => {
+    const eid = spawnTrooper(world, -10, 0);
+    GroundAI.waypointX[eid] = 10;
+    GroundAI.waypointZ[eid] = 0;
+    groundAISystem(world, 1 / 30);
+    expect(GroundInput.aimYaw[eid]).toBeCloseTo(Math.atan2(-20, 0));
+  });
+
+  it('should drive an AI-crewed AT-ST round the wall to a command post', () => {
+    const grid = bakeTrenches();
+    setGroundNavGrid(grid);
+    const atst = spawnATST(world, -10, 0, 0, 1);
+    const post = spawnCommandPost(world, 15, 0, 0, 0);
+    const radius = groundVehicleNavRadius(atst);
+
+    const dt = 1 / 30;
+    let hitWall = false;
+    for (let t = 0; t < 25; t += dt) {
+      groundVehicleAISystem(world, dt);
+      groundVehicleMovementSystem(world, physics, dt);
+      if (!isNavWalkable(grid, Transform.x[atst]!, Transform.z[atst]!, radius)) hitWall = true;
+    }
+
+    expect(hitWall).toBe(false);
+    expect(GroundAI.state[atst]).toBe(GroundAIState.MoveTo);
+    expect(Math.hypot(Transform.x[atst]! - Transform.x[post]!, Transform.z[atst]!)).toBeLessThan(10);
+  });
+
+  it('should stop an AT-ST at standoff range and open fire', () => {
+    const atst = spawnATST(world, 0, 0, 0, 1);
+    const rebel = spawnTrooper(world, 0, -40);
+    Team.id[rebel] = 0;
+
+    groundVehicleAISystem(world, 1 / 30);
+    expect(GroundAI.targetEid[atst]).toBe(rebel);
+    expect(GroundInput.moveZ[atst]).toBe(0);
+    expect(GroundInput.aimYaw[atst]).toBeCloseTo(0);
+    expect(GroundInput.firePrimary[atst]).toBe(1);
+  });
+
+  it('should leave a vehicle to its pilot while someone is aboard', () => {
+    setGroundNavGrid(bakeTrenches());
+    const atst = spawnATST(world, -10, 0, 0, 1);
+    Enterable.seatsFilled[atst] = 1;
+    const rebel = spawnTrooper(world, -10, -20);
+    Team.id[rebel] = 0;
+
+    groundVehicleAISystem(world, 1 / 30);
+    expect(GroundInput.moveZ[atst]).toBe(0);
+    expect(GroundAI.targetEid[atst]).toBe(-1);
+  });
+
+  it('should stop a speeder bike from being driven through the wall', () => {
+    setGroundNavGrid(bakeTrenches());
+    const bike = spawnSpeederBike(world, -5, 0, -10, 0);
+    // Full throttle at the wall (+X)
+    addComponent(world, GroundAI, bike);
+    GroundInput.aimYaw[bike] = -Math.PI / 2;
+    GroundInput.moveZ[bike] = 1;
+
+    for (let t = 0; t < 2; t += 1 / 30) groundVehicleMovementSystem(world, physics, 1 / 30);
+    expect(Transform.x[bike]!).toBeGreaterThan(-4);
+    expect(Transform.x[bike]!).toBeLessThan(-1);
+  });
+});
@@ -0,0 +1,409 @@
+import { createWorld, addEntity, addComponent, removeEntity, hasComponent } from 'bitecs';
+import {
+  InGroundDomain,
+  CharacterController,
+  GroundInput,
+  Soldier,
+  GroundAI,
+  BlasterBolt,
+  CommandPost,
+  Squad,
+  SquadMember,
+  SquadOrder,
+  SquadTactic,
+  Suppression
+} from '../../../packages/gameplay/src/ground/components';
+import { Transform, Velocity, Team, Health } from '../../../packages/gameplay/src/space/components';
+import { bakeNavGrid, setGroundNavGrid } from '../../../packages/gameplay/src/ground/navigation';
+import {
+  GroundAIState,
+  groundAISystem,
+  spawnCommandPost,
+  SUPPRESSION_PIN_LEVEL
+} from '../../../packages/gameplay/src/ground/systems';
+import {
+  addSquadMember,
+  createSquad,
+  findCoverPoint,
+  findPlayerSquad,
+  issueSquadOrder,
+  squadSystem,
+  suppressionSystem,
+  type CoverProbe
+} from '../../../packages/gameplay/src/ground/squad-system';
+
+type World = ReturnType<typeof createWorld>;
+
+function spawnTrooper(world: World, x: number, z: number, team: number, classId = 0): number {
+  const eid = addEntity(world);
+  for (const component of [InGroundDomain, GroundAI, CharacterController, GroundInput, Soldier, Transform, Velocity, Team, Health]) {
+    addComponent(world, component, eid);
+  }
+  Transform.x[eid] = x;
+  Transform.y[eid] = 0;
+  Transform.z[eid] = z;
+  Velocity.vx[eid] = 0;
+  Velocity.vz[eid] = 0;
+  Team.id[eid] = team;
+  Health.hp[eid] = 100;
+  Health.maxHp[eid] = 100;
+  Soldier.classId[eid] = classId;
+  CharacterController.capsuleRadius[eid] = 0.35;
+  GroundAI.state[eid] = GroundAIState.Idle;
+  GroundAI.stateTime[eid] = 0;
+  GroundAI.targetEid[eid] = -1;
+  GroundAI.aggression[eid] = 0.5;
+  return eid;
+}
+
+function fireBolt(world: World, x: number, z: number, vx: number, vz: number, ownerTeam: number, ownerEid = -1): number {
+  const eid = addEntity(world);
+  addComponent(world, BlasterBolt, eid);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  Transform.x[eid] = x;
+  Transform.y[eid] = 1;
+  Transform.z[eid] = z;
+  Velocity.vx[eid] = vx;
+  Velocity.vy[eid] = 0;
+  Velocity.vz[eid] = vz;
+  BlasterBolt.ownerEid[eid] = ownerEid;
+  BlasterBolt.ownerTeam[eid] = ownerTeam;
+  BlasterBolt.damage[eid] = 15;
+  BlasterBolt.life[eid] = 1;
+  return eid;
+}
+
+// Cover everywhere north of a wall along z = 1.5
+const behindWall: CoverProbe = (_x, z) => z > 2;
+
+describe('findCoverPoint', () => {
+  it('should pick the nearest hidden spot, furthest from the threat', () => {
+    const cover = findCoverPoint(0, 0, 0, -20, behindWall, null);
+    expect(cover).not.toBeNull();
+    expect(cover!.x).toBeCloseTo(0);
+    expect(cover!.z).toBeCloseTo(3);
+  });
+
+  it('should never pick a spot toward the threat', () => {
+    const facingThreat: CoverProbe = (_x, z) => z < -2;
+    expect(findCoverPoint(0, 0, 0, -20, facingThreat, null)).toBeNull();
+  });
+
+  it('should return null when there is no cover at all', () => {
+    expect(findCoverPoint(0, 0, 0, -20, () => false, null)).toBeNull();
+  });
+
+  it('should skip spots the nav grid says cannot be stood on', () => {
+    // A block sitting right on the nearest cover spot
+    const grid = bakeNavGrid(
+      { minX: -15, minZ: -15, maxX: 15, maxZ: 15 },
+      (x, z) => (x >= -1 && x < 1 && z >= 2 && z < 4 ? 3 : 0)
+    );
+    const cover = findCoverPoint(0, 0, 0, -20, behindWall, grid);
+    expect(cover).not.toBeNull();
+    expect(Math.hypot(cover!.x, cover!.z - 3)).toBeGreaterThan(1);
+  });
+});
+
+describe('suppressionSystem', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = createWorld();
+    setGroundNavGrid(null);
+  });
+
+  function suppressible(x: number, z: number, team: number): number {
+    const eid = spawnTrooper(world, x, z, team);
+    addComponent(world, Suppression, eid);
+    Suppression.level[eid] = 0;
+    Suppression.hasCover[eid] = 0;
+    return eid;
+  }
+
+  it('should suppress a soldier an enemy bolt narrowly misses', () => {
+    const eid = suppressible(0, 0, 0);
+    const shooter = spawnTrooper(world, 30, 1, 1);
+    // Bolt flying along z = 1 past the soldier, having just passed x = 0
+    fireBolt(world, -2, 1, -150, 0, 1, shooter);
+
+    suppressionSystem(world, 1 / 30);
+
+    expect(Suppression.level[eid]).toBeGreaterThan(0.1);
+    expect(Suppression.threatX[eid]).toBeCloseTo(30);
+    expect(Suppression.threatZ[eid]).toBeCloseTo(1);
+  });
+
+  it('should ignore bolts that pass far away or come from its own side', () => {
+    const eid = suppressible(0, 0, 0);
+    fireBolt(world, -2, 10, -150, 0, 1);
+    fireBolt(world, -2, 0.5, -150, 0, 0);
+
+    suppressionSystem(world, 1 / 30);
+
+    expect(Suppression.level[eid]).toBe(0);
+  });
+
+  it('should wear off over time', () => {
+    const eid = suppressible(0, 0, 0);
+    Suppression.level[eid] = 0.5;
+
+    suppressionSystem(world, 1);
+
+    expect(Suppression.level[eid]).toBeCloseTo(0.25);
+  });
+
+  it('should find cover for a pinned soldier once', () => {
+    const eid = suppressible(0, 0, 0);
+    Suppression.level[eid] = 0.9;
+    Suppression.threatX[eid] = 0;
+    Suppression.threatZ[eid] = -20;
+    let probes = 0;
+    const probe: CoverProbe = (x, z, threatX, threatZ) => {
+      probes++;
+      return behindWall(x, z, threatX, threatZ);
+    };
+
+    suppressionSystem(world, 1 / 30, probe);
+    const firstProbes = probes;
+    suppressionSystem(world, 1 / 30, probe);
+
+    expect(Suppression.hasCover[eid]).toBe(1);
+    expect(Suppression.coverZ[eid]).toBeCloseTo(3);
+    expect(probes).toBe(firstProbes);
+  });
+
+  it('should mark a pinned soldier with nowhere to hide', () => {
+    const eid = suppressible(0, 0, 0);
+    Suppression.level[eid] = 0.9;
+
+    suppressionSystem(world, 1 / 30, () => false);
+
+    expect(Suppression.hasCover[eid]).toBe(2);
+  });
+});
+
+describe('ground AI under suppression', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = createWorld();
+    setGroundNavGrid(null);
+  });
+
+  it('should send a pinned soldier running for cover', () => {
+    const eid = spawnTrooper(world, 0, 0, 0);
+    spawnTrooper(world, 0, -20, 1);
+    addComponent(world, Suppression, eid);
+    Suppression.level[eid] = SUPPRESSION_PIN_LEVEL + 0.1;
+    Suppression.coverX[eid] = 0;
+    Suppression.coverZ[eid] = 5;
+    Suppression.hasCover[eid] = 1;
+
+    groundAISystem(world, 1 / 30);
+
+    expect(GroundAI.state[eid]).toBe(GroundAIState.Cover);
+    expect(GroundInput.moveZ[eid]).toBe(1);
+    expect(GroundInput.sprint[eid]).toBe(1);
+    expect(GroundInput.firePrimary[eid]).toBe(0);
+    // Heading north, away from the shooter (forward is -z at yaw 0)
+    expect(Math.abs(Math.abs(GroundInput.aimYaw[eid]!) - Math.PI)).toBeLessThan(0.2);
+  });
+
+  it('should hunker down where it is with no cover nearby', () => {
+    const eid = spawnTrooper(world, 0, 0, 0);
+    spawnTrooper(world, 0, -20, 1);
+    addComponent(world, Suppression, eid);
+    Suppression.level[eid] = SUPPRESSION_PIN_LEVEL + 0.1;
+    Suppression.hasCover[eid] = 2;
+
+    groundAISystem(world, 1 / 30);
+
+    expect(GroundAI.state[eid]).toBe(GroundAIState.Cover);
+    expect(GroundInput.moveZ[eid]).toBe(0);
+    expect(GroundInput.crouch[eid]).toBe(1);
+  });
+
+  it('should get back into the fight once the fire slackens', () => {
+    const eid = spawnTrooper(world, 0, 0, 0);
+    const enemy = spawnTrooper(world, 0, -20, 1);
+    addComponent(world, Suppression, eid);
+    Suppression.level[eid] = 0.1;
+    Suppression.hasCover[eid] = 0;
+    GroundAI.state[eid] = GroundAIState.Cover;
+    GroundAI.stateTime[eid] = 5;
+
+    groundAISystem(world, 1 / 30);
+
+    expect(GroundAI.state[eid]).toBe(GroundAIState.Attack);
+    expect(GroundAI.targetEid[eid]).toBe(enemy);
+  });
+});
+
+describe('squadSystem', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = createWorld();
+    setGroundNavGrid(null);
+  });
+
+  function squadOf(team: number, positions: Array<[number, number]>): { squad: number; members: number[] } {
+    const members = positions.map(([x, z], i) => spawnTrooper(world, x, z, team, i === 0 ? 3 : 0));
+    const squad = createSquad(world, team, members[0]!);
+    for (const eid of members) addSquadMember(world, squad, eid);
+    return { squad, members };
+  }
+
+  it('should split members between the two fireteams', () => {
+    const { squad, members } = squadOf(1, [[0, 0], [2, 0], [4, 0], [6, 0]]);
+    expect(members.map((eid) => SquadMember.fireteam[eid])).toEqual([0, 1, 0, 1]);
+    expect(Squad.strength[squad]).toBe(4);
+    expect(hasComponent(world, Suppression, members[0]!)).toBe(true);
+  });
+
+  it('should promote another officer when the leader falls', () => {
+    const { squad, members } = squadOf(1, [[0, 0], [2, 0], [4, 0]]);
+    Soldier.classId[members[2]!] = 3;
+    removeEntity(world, members[0]!);
+
+    squadSystem(world, 1 / 30);
+
+    expect(Squad.leaderEid[squad]).toBe(members[2]);
+  });
+
+  it('should disband when no officer is left to lead', () => {
+    const { squad, members } = squadOf(1, [[0, 0], [2, 0], [4, 0]]);
+    removeEntity(world, members[0]!);
+
+    squadSystem(world, 1 / 30);
+
+    expect(hasComponent(world, Squad, squad)).toBe(false);
+    expect(SquadMember.squadEid[members[1]!]).toBe(-1);
+  });
+
+  it('should pin the enemy with one fireteam and flank with the other', () => {
+    const { squad, members } = squadOf(1, [[0, 0], [2, 0], [4, 0], [6, 0]]);
+    const enemy = spawnTrooper(world, 3, -30, 0);
+
+    squadSystem(world, 1 / 30);
+
+    expect(Squad.tactic[squad]).toBe(SquadTactic.Flank);
+    for (const eid of members) {
+      expect(GroundAI.targetEid[eid]).toBe(enemy);
+      if (SquadMember.fireteam[eid] === 1) {
+        expect(GroundAI.state[eid]).toBe(GroundAIState.Flank);
+        // Out to the side of the enemy, not straight at it
+        expect(Math.abs(GroundAI.waypointX[eid]! - 3)).toBeCloseTo(18);
+        expect(GroundAI.waypointZ[eid]).toBeCloseTo(-30);
+      } else {
+        expect(GroundAI.state[eid]).toBe(GroundAIState.Attack);
+      }
+    }
+  });
+
+  it('should fall back on a friendly post after heavy losses', () => {
+    const { squad, members } = squadOf(1, [[0, 0], [2, 0], [4, 0], [6, 0]]);
+    spawnTrooper(world, 3, -30, 0);
+    spawnCommandPost(world, 10, 0, 40, 1, 10, 0.1);
+    removeEntity(world, members[2]!);
+    removeEntity(world, members[3]!);
+
+    squadSystem(world, 1 / 30);
+
+    expect(Squad.tactic[squad]).toBe(SquadTactic.Retreat);
+    expect(GroundAI.state[members[0]!]).toBe(GroundAIState.Retreat);
+    expect(GroundAI.waypointX[members[1]!]).toBeCloseTo(10);
+    expect(GroundAI.waypointZ[members[1]!]).toBeCloseTo(40);
+  });
+
+  it('should regroup at full strength once everyone has fallen back', () => {
+    const { squad, members } = squadOf(1, [[10, 40], [11, 40]]);
+    Squad.tactic[squad] = SquadTactic.Retreat;
+    Squad.tacticX[squad] = 10;
+    Squad.tacticZ[squad] = 40;
+    Squad.strength[squad] = 4;
+    for (const eid of members) GroundAI.state[eid] = GroundAIState.Retreat;
+
+    squadSystem(world, 1 / 30);
+
+    expect(Squad.tactic[squad]).toBe(SquadTactic.Advance);
+    expect(Squad.strength[squad]).toBe(2);
+    expect(GroundAI.state[members[0]!]).toBe(GroundAIState.Idle);
+  });
+
+  it('should advance on the nearest post it does not hold', () => {
+    const { members } = squadOf(1, [[0, 0], [2, 0]]);
+    spawnCommandPost(world, 0, 0, 60, 0, 10, 0.1);
+    spawnCommandPost(world, 0, 0, -30, 1, 10, 0.1);
+
+    squadSystem(world, 1 / 30);
+
+    for (const eid of members) {
+      expect(GroundAI.state[eid]).toBe(GroundAIState.MoveTo);
+      expect(Math.hypot(GroundAI.waypointX[eid]!, GroundAI.waypointZ[eid]! - 60)).toBeLessThanOrEqual(5);
+    }
+  });
+
+  describe('player orders', () => {
+    function playerSquad(): { player: number; squad: number; members: number[] } {
+      const player = spawnTrooper(world, 0, 0, 0);
+      const squad = createSquad(world, 0, player);
+      const members = [spawnTrooper(world, -30, 0, 0), spawnTrooper(world, -32, 0, 0)];
+      for (const eid of members) addSquadMember(world, squad, eid);
+      return { player, squad, members };
+    }
+
+    it('should find the squad the player leads', () => {
+      const { player, squad, members } = playerSquad();
+      expect(findPlayerSquad(world, player)).toBe(squad);
+      expect(findPlayerSquad(world, members[0]!)).toBeNull();
+    });
+
+    it('should follow the player', () => {
+      const { player, squad, members } = playerSquad();
+      issueSquadOrder(world, squad, SquadOrder.Follow, player);
+
+      squadSystem(world, 1 / 30);
+
+      for (const eid of members) {
+        expect(GroundAI.state[eid]).toBe(GroundAIState.MoveTo);
+        expect(Math.hypot(GroundAI.waypointX[eid]!, GroundAI.waypointZ[eid]!)).toBeLessThanOrEqual(5);
+      }
+    });
+
+    it('should hold where it was told, without flanking enemies', () => {
+      const { squad, members } = playerSquad();
+      spawnTrooper(world, -31, -40, 1);
+      issueSquadOrder(world, squad, SquadOrder.Hold, -1, -20, 10);
+
+      squadSystem(world, 1 / 30);
+
+      expect(Squad.tactic[squad]).toBe(SquadTactic.Advance);
+      for (const eid of members) {
+        expect(GroundAI.state[eid]).toBe(GroundAIState.MoveTo);
+        expect(Math.hypot(GroundAI.waypointX[eid]! + 20, GroundAI.waypointZ[eid]! - 10)).toBeLessThanOrEqual(5);
+      }
+    });
+
+    it('should take the ordered post, then go back to its own initiative', () => {
+      const { squad, members } = playerSquad();
+      const post = spawnCommandPost(world, 20, 0, 20, 1, 10, 0.1);
+      spawnCommandPost(world, -40, 0, 0, 1, 10, 0.1);
+      issueSquadOrder(world, squad, SquadOrder.AttackPost, post);
+
+      squadSystem(world, 1 / 30);
+
+      for (const eid of members) {
+        expect(Math.hypot(GroundAI.waypointX[eid]! - 20, GroundAI.waypointZ[eid]! - 20)).toBeLessThanOrEqual(5);
+      }
+
+      CommandPost.ownerTeam[post] = 0;
+      squadSystem(world, 1 / 30);
+
+      expect(Squad.order[squad]).toBe(SquadOrder.Advance);
+    });
+  });
+});
+
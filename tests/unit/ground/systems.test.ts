@@ -8,7 +8,8 @@ import {
   Enterable,
   BlasterWeapon,
   CommandPost,
-  GroundAI
+  GroundAI,
+  Stamina
 } from '../../../packages/gameplay/src/ground/components';
 import {
   Transform,
@@ -21,12 +22,16 @@ import {
 } from '../../../packages/gameplay/src/space/components';
 import {
   syncPlayerGroundInput,
+  staminaSystem,
   commandPostSystem,
   spawnCommandPost,
   GroundAIState,
-  consumeGroundImpactEvents
+  consumeGroundImpactEvents,
+  groundAISystem,
+  steerAroundSlopes
 } from '../../../packages/gameplay/src/ground/systems';
 import type { GroundInputState } from '../../../packages/gameplay/src/ground/input';
+import { createHeadlessSim, createScriptedInput } from '@xwingz/core';
 
 describe('Ground Systems', () => {
   describe('syncPlayerGroundInput', () => {
@@ -49,7 +54,10 @@ describe('Ground Systems', () => {
         toggleMap: false,
         dodge: false,
         throwGrenade: false,
-        launch: false
+        launch: false,
+        orderFollow: false,
+        orderHold: false,
+        orderAttackPost: false
       };
 
       syncPlayerGroundInput(world, eid, inputState);
@@ -82,7 +90,10 @@ describe('Ground Systems', () => {
         toggleMap: false,
         dodge: false,
         throwGrenade: false,
-        launch: false
+        launch: false,
+        orderFollow: false,
+        orderHold: false,
+        orderAttackPost: false
       };
 
       // Should not throw
@@ -328,4 +339,135 @@ describe('Ground Systems', () => {
       expect(BlasterWeapon.damage[eid]).toBeCloseTo(15, 5);
     });
   });
+
+  describe('headless simulation', () => {
+    const NEUTRAL: GroundInputState = {
+      moveX: 0,
+      moveZ: 0,
+      jump: false,
+      sprint: false,
+      crouch: false,
+      interact: false,
+      firePrimary: false,
+      aimYaw: 0,
+      aimPitch: 0,
+      toggleMap: false,
+      dodge: false,
+      throwGrenade: false,
+      launch: false,
+      orderFollow: false,
+      orderHold: false,
+      orderAttackPost: false
+    };
+
+    function createSprintSim() {
+      let playerEid = -1;
+      return createHeadlessSim<GroundInputState>({
+        setup(world) {
+          playerEid = addEntity(world);
+          addComponent(world, InGroundDomain, playerEid);
+          addComponent(world, GroundInput, playerEid);
+          addComponent(world, Stamina, playerEid);
+          Stamina.current[playerEid] = 100;
+          Stamina.max[playerEid] = 100;
+          Stamina.regenRate[playerEid] = 20;
+          Stamina.regenDelay[playerEid] = 1.5;
+          Stamina.timeSinceDrain[playerEid] = 0;
+          Stamina.sprintDrainRate[playerEid] = 15;
+        },
+        systems: [
+          (world, input) => syncPlayerGroundInput(world, playerEid, input),
+          (world, _input, dt) => staminaSystem(world, dt)
+        ],
+        // Sprint for two seconds, then rest
+        input: createScriptedInput(NEUTRAL, [{ at: 0, until: 120, input: { moveZ: 1, sprint: true } }]),
+        components: { GroundInput, Stamina }
+      });
+    }
+
+    it('should drive ground systems from scripted input', () => {
+      const sim = createSprintSim();
+      const sprinting = sim.run(120).finalSnapshot.entities[0]!.Stamina!;
+      expect(sprinting.current).toBeCloseTo(70, 0);
+
+      const rested = sim.run(240).finalSnapshot.entities[0]!.Stamina!;
+      expect(rested.current).toBeGreaterThan(70);
+    });
+
+    it('should be deterministic across runs', () => {
+      const first = createSprintSim().run(300);
+      const second = createSprintSim().run(300);
+      expect(second.frames.map((f) => f.hash)).toEqual(first.frames.map((f) => f.hash));
+    });
+  });
+
+  describe('groundAISystem on terrain', () => {
+    // Ramp rising 30 degrees towards -Z from z = 0
+    const ramp = (_x: number, z: number) => Math.max(0, -z) * Math.tan(Math.PI / 6);
+    // Wall of rock beyond z = -1
+    const cliff = (_x: number, z: number) => (z < -1 ? 10 : 0);
+
+    function spawnWalker(world: ReturnType<typeof createWorld>, slopeLimit: number): number {
+      const eid = addEntity(world);
+      for (const component of [InGroundDomain, GroundAI, CharacterController, GroundInput, Soldier, Transform, Team, Health]) {
+        addComponent(world, component, eid);
+      }
+      Transform.x[eid] = 0;
+      Transform.z[eid] = 0;
+      Team.id[eid] = 1;
+      Health.hp[eid] = 100;
+      CharacterController.slopeLimit[eid] = slopeLimit;
+      // Heading for a waypoint straight up the slope
+      GroundAI.state[eid] = GroundAIState.MoveTo;
+      GroundAI.waypointX[eid] = 0;
+      GroundAI.waypointZ[eid] = -40;
+      return eid;
+    }
+
+    it('should walk straight up slopes within its slope limit', () => {
+      const world = createWorld();
+      const eid = spawnWalker(world, Math.PI / 4);
+      groundAISystem(world, 1 / 60, ramp);
+      expect(GroundInput.moveX[eid]).toBeCloseTo(0);
+      expect(GroundInput.moveZ[eid]).toBeCloseTo(1);
+    });
+
+    it('should detour around slopes steeper than its slope limit', () => {
+      const world = createWorld();
+      // 25 degrees: the ramp is too steep head-on but not at 45 degrees across it
+      const eid = spawnWalker(world, (25 * Math.PI) / 180);
+      groundAISystem(world, 1 / 60, ramp);
+      expect(Math.abs(GroundInput.moveX[eid]!)).toBeCloseTo(Math.SQRT1_2);
+      expect(GroundInput.moveZ[eid]!).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should walk along a cliff it cannot climb', () => {
+      const world = createWorld();
+      const eid = spawnWalker(world, Math.PI / 4);
+      groundAISystem(world, 1 / 60, cliff);
+      expect(Math.abs(GroundInput.moveX[eid]!)).toBeCloseTo(1);
+      expect(GroundInput.moveZ[eid]).toBeCloseTo(0);
+    });
+
+    it('should ignore terrain without a height sampler', () => {
+      const world = createWorld();
+      const eid = spawnWalker(world, Math.PI / 9);
+      groundAISystem(world, 1 / 60);
+      expect(GroundInput.moveZ[eid]).toBeCloseTo(1);
+    });
+  });
+
+  describe('steerAroundSlopes', () => {
+    it('should stop when boxed in', () => {
+      const pit = (x: number, z: number) => Math.hypot(x, z) * 5;
+      expect(steerAroundSlopes(pit, 0, 0, 0, -1, Math.PI / 4)).toBeNull();
+    });
+
+    it('should allow walking downhill at any steepness', () => {
+      const drop = (_x: number, z: number) => (z < -1 ? -10 : 0);
+      const dir = steerAroundSlopes(drop, 0, 0, 0, -1, Math.PI / 4)!;
+      expect(dir.x).toBeCloseTo(0);
+      expect(dir.z).toBeCloseTo(-1);
+    });
+  });
 });
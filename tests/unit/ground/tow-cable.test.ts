@@ -0,0 +1,257 @@
+import { createWorld, addEntity, addComponent, removeEntity } from 'bitecs';
+import type { IWorld } from 'bitecs';
+import {
+  PlayerControlled,
+  Transform,
+  Velocity
+} from '../../../packages/gameplay/src/space/components';
+import type { SpaceInputState } from '../../../packages/gameplay/src/space/input';
+import {
+  ATATWalker,
+  ATAT_STATE,
+  CABLE_STATE,
+  Snowspeeder
+} from '../../../packages/gameplay/src/ground/hoth-components';
+import { atatTripSystem, spawnATATWalker } from '../../../packages/gameplay/src/ground/atat-system';
+import {
+  addSnowspeeder,
+  consumeTowCableEvents,
+  TOW_CABLE,
+  towCableSystem
+} from '../../../packages/gameplay/src/ground/tow-cable-system';
+
+const DT = 0.1;
+const ORBIT_RADIUS = 40;
+
+function input(fire = false): SpaceInputState {
+  return {
+    pitch: 0,
+    yaw: 0,
+    roll: 0,
+    throttleDelta: 0,
+    boost: false,
+    brake: false,
+    firePrimary: false,
+    fireSecondary: fire,
+    switchWeapon: false,
+    cycleTarget: false,
+    hyperspace: false,
+    toggleMap: false,
+    land: false,
+    commandMenu: false,
+    orderAttack: false,
+    orderCover: false,
+    orderFormUp: false,
+    orderSubsystems: false,
+    orderEscort: false
+  };
+}
+
+function setup(): { world: IWorld; speeder: number; atat: number } {
+  const world = createWorld();
+  const speeder = addEntity(world);
+  addComponent(world, Transform, speeder);
+  addComponent(world, Velocity, speeder);
+  addComponent(world, PlayerControlled, speeder);
+  addSnowspeeder(world, speeder);
+
+  const atat = spawnATATWalker(world, 0, 0, 0, -500, 1);
+  placeOnOrbit(speeder, 0, 100);
+  consumeTowCableEvents();
+  return { world, speeder, atat };
+}
+
+/** Put the speeder on a circle around the origin AT-AT, moving tangentially */
+function placeOnOrbit(speeder: number, angle: number, speed: number): void {
+  Transform.x[speeder] = Math.sin(angle) * ORBIT_RADIUS;
+  Transform.y[speeder] = 30;
+  Transform.z[speeder] = Math.cos(angle) * ORBIT_RADIUS;
+  Velocity.vx[speeder] = Math.cos(angle) * speed;
+  Velocity.vy[speeder] = 0;
+  Velocity.vz[speeder] = -Math.sin(angle) * speed;
+}
+
+function attach(world: IWorld): void {
+  towCableSystem(world, input(true), DT);
+  for (let i = 0; i < 5; i++) towCableSystem(world, input(), DT);
+}
+
+/** Fly around the AT-AT in 0.5 rad steps; returns the final angle */
+function orbit(world: IWorld, speeder: number, fromAngle: number, radians: number, speed = 100): number {
+  let angle = fromAngle;
+  const steps = Math.ceil(radians / 0.5);
+  for (let i = 0; i < steps; i++) {
+    angle += 0.5;
+    placeOnOrbit(speeder, angle, speed);
+    towCableSystem(world, input(), DT);
+  }
+  return angle;
+}
+
+describe('towCableSystem', () => {
+  it('should stay ready until the harpoon is fired', () => {
+    const { world, speeder } = setup();
+    towCableSystem(world, input(), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+  });
+
+  it('should fire the harpoon and attach once the cable reaches the AT-AT', () => {
+    const { world, speeder, atat } = setup();
+
+    towCableSystem(world, input(true), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.FIRING);
+    expect(Snowspeeder.cableTargetEid[speeder]).toBe(atat);
+
+    // Harpoon covers HARPOON_SPEED * DT per tick toward the AT-AT 40m away
+    towCableSystem(world, input(), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.FIRING);
+    expect(Snowspeeder.cableLength[speeder]).toBeCloseTo(TOW_CABLE.HARPOON_SPEED * DT, 3);
+
+    towCableSystem(world, input(), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.ATTACHED);
+    expect(ATATWalker.cableAttached[atat]).toBe(1);
+    expect(ATATWalker.cableAttacherEid[atat]).toBe(speeder);
+    expect(consumeTowCableEvents().map((e) => e.type)).toEqual(['fired', 'attached']);
+  });
+
+  it('should miss and cool down when no AT-AT is in harpoon range', () => {
+    const { world, speeder } = setup();
+    Transform.z[speeder] = TOW_CABLE.HARPOON_RANGE + 20;
+
+    towCableSystem(world, input(true), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+    expect(Snowspeeder.cableCooldown[speeder]).toBeGreaterThan(0);
+    expect(consumeTowCableEvents()[0]?.type).toBe('missed');
+  });
+
+  it('should ignore the harpoon input on speeders the player is not flying', () => {
+    const world = createWorld();
+    const speeder = addEntity(world);
+    addComponent(world, Transform, speeder);
+    addComponent(world, Velocity, speeder);
+    addSnowspeeder(world, speeder);
+    spawnATATWalker(world, 0, 0, 0, -500, 1);
+    placeOnOrbit(speeder, 0, 100);
+
+    towCableSystem(world, input(true), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+  });
+
+  it('should start wrapping once the speeder begins to circle', () => {
+    const { world, speeder } = setup();
+    attach(world);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.ATTACHED);
+
+    orbit(world, speeder, 0, 0.5);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.WRAPPING);
+  });
+
+  it('should count a wrap for each full circle', () => {
+    const { world, speeder, atat } = setup();
+    attach(world);
+
+    orbit(world, speeder, 0, Math.PI * 2 + 0.5);
+    expect(ATATWalker.cableWraps[atat]).toBe(1);
+    expect(consumeTowCableEvents().filter((e) => e.type === 'wrap')).toHaveLength(1);
+  });
+
+  it('should count wraps in either direction', () => {
+    const { world, speeder, atat } = setup();
+    attach(world);
+
+    let angle = 0;
+    for (let i = 0; i < 14; i++) {
+      angle -= 0.5;
+      placeOnOrbit(speeder, angle, 100);
+      towCableSystem(world, input(), DT);
+    }
+    expect(ATATWalker.cableWraps[atat]).toBe(1);
+  });
+
+  it('should decay cable strength below wrap speed and snap at zero', () => {
+    const { world, speeder, atat } = setup();
+    attach(world);
+    orbit(world, speeder, 0, 1);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.WRAPPING);
+
+    Velocity.vx[speeder] = 10;
+    Velocity.vz[speeder] = 0;
+    towCableSystem(world, input(), 1);
+    expect(Snowspeeder.cableStrength[speeder]).toBeCloseTo(100 - TOW_CABLE.STRENGTH_DECAY, 1);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.WRAPPING);
+
+    towCableSystem(world, input(), 3);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.BROKEN);
+    expect(ATATWalker.cableAttached[atat]).toBe(0);
+    expect(consumeTowCableEvents().some((e) => e.type === 'snapped')).toBe(true);
+  });
+
+  it('should recover cable strength at speed', () => {
+    const { world, speeder } = setup();
+    attach(world);
+    Snowspeeder.cableStrength[speeder] = 50;
+
+    orbit(world, speeder, 0, 1, 120);
+    expect(Snowspeeder.cableStrength[speeder]).toBeGreaterThan(50);
+  });
+
+  it('should snap when the speeder pulls out past cable length', () => {
+    const { world, speeder } = setup();
+    attach(world);
+
+    Transform.z[speeder] = TOW_CABLE.MAX_CABLE_LENGTH + 10;
+    towCableSystem(world, input(), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.BROKEN);
+  });
+
+  it('should return to ready after the broken cable cools down', () => {
+    const { world, speeder } = setup();
+    attach(world);
+    Transform.z[speeder] = TOW_CABLE.MAX_CABLE_LENGTH + 10;
+    towCableSystem(world, input(), DT);
+
+    towCableSystem(world, input(), TOW_CABLE.BROKEN_COOLDOWN / 2);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.BROKEN);
+    towCableSystem(world, input(), TOW_CABLE.BROKEN_COOLDOWN);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+    expect(Snowspeeder.cableTargetEid[speeder]).toBe(-1);
+    expect(Snowspeeder.cableStrength[speeder]).toBe(100);
+  });
+
+  it('should release after three wraps and let the AT-AT trip', () => {
+    const { world, speeder, atat } = setup();
+    attach(world);
+
+    orbit(world, speeder, 0, Math.PI * 2 * TOW_CABLE.WRAPS_TO_TRIP + 0.5);
+    expect(ATATWalker.cableWraps[atat]).toBe(TOW_CABLE.WRAPS_TO_TRIP);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.RELEASED);
+    expect(ATATWalker.cableAttached[atat]).toBe(0);
+
+    atatTripSystem(world, DT);
+    expect(ATATWalker.state[atat]).toBe(ATAT_STATE.STUMBLING);
+    atatTripSystem(world, 2);
+    expect(ATATWalker.state[atat]).toBe(ATAT_STATE.FALLING);
+    atatTripSystem(world, 3.5);
+    expect(ATATWalker.state[atat]).toBe(ATAT_STATE.DOWN);
+
+    towCableSystem(world, input(), TOW_CABLE.RELEASE_COOLDOWN + 0.1);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+  });
+
+  it('should not harpoon an AT-AT that is already down', () => {
+    const { world, speeder, atat } = setup();
+    ATATWalker.state[atat] = ATAT_STATE.DOWN;
+
+    towCableSystem(world, input(true), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.READY);
+  });
+
+  it('should let go of the cable if the AT-AT is destroyed mid-wrap', () => {
+    const { world, speeder } = setup();
+    attach(world);
+    removeEntity(world, Snowspeeder.cableTargetEid[speeder]!);
+
+    towCableSystem(world, input(), DT);
+    expect(Snowspeeder.cableState[speeder]).toBe(CABLE_STATE.RELEASED);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the input mapping layer
+ *
+ * Tests binding strings, profile sanitization, deadzones, response curves
+ * and reading flight/ground actions from polled device state.
+ */
+
+import {
+  addBinding,
+  bindingLabel,
+  createDefaultControlSettings,
+  formatBinding,
+  normalizeKey,
+  parseBinding,
+  sanitizeControlSettings,
+  SPACE_ONE_SHOT,
+  type SpaceAxis,
+  type SpaceButton
+} from '../../../packages/gameplay/src/input/bindings';
+import {
+  applyDeadzone,
+  applyResponse,
+  createEmptyDeviceState,
+  detectBinding,
+  readActions,
+  readAxis,
+  readButton,
+  readButtonPressed,
+  type DeviceState
+} from '../../../packages/gameplay/src/input/mapping';
+
+function devices(overrides: Partial<DeviceState> = {}): DeviceState {
+  return { ...createEmptyDeviceState(), ...overrides };
+}
+
+describe('binding strings', () => {
+  it('should parse every device type', () => {
+    expect(parseBinding('key:w')).toEqual({ device: 'key', key: 'w' });
+    expect(parseBinding('mouse:2')).toEqual({ device: 'mouse', button: 2 });
+    expect(parseBinding('pad:button:7')).toEqual({ device: 'padButton', index: 7 });
+    expect(parseBinding('pad:axis:1-')).toEqual({ device: 'padAxis', index: 1, sign: -1 });
+  });
+
+  it('should round trip through formatBinding', () => {
+    for (const binding of ['key:ArrowUp', 'key::', 'mouse:0', 'pad:button:12', 'pad:axis:3+']) {
+      expect(formatBinding(parseBinding(binding)!)).toBe(binding);
+    }
+  });
+
+  it('should reject malformed bindings', () => {
+    for (const binding of ['', 'key:', 'mouse:x', 'pad:button:', 'pad:axis:1', 'joy:1']) {
+      expect(parseBinding(binding)).toBeNull();
+    }
+  });
+
+  it('should normalize keys like KeyboardEvent.key', () => {
+    expect(normalizeKey('W')).toBe('w');
+    expect(normalizeKey(' ')).toBe('Space');
+    expect(normalizeKey('Shift')).toBe('Shift');
+  });
+
+  it('should label bindings for the overlay', () => {
+    expect(bindingLabel('key:w')).toBe('W');
+    expect(bindingLabel('key:ArrowUp')).toBe('UP');
+    expect(bindingLabel('mouse:0')).toBe('LMB');
+    expect(bindingLabel('pad:button:7')).toBe('PAD RT');
+    expect(bindingLabel('pad:axis:1-')).toBe('PAD LS Y-');
+  });
+});
+
+describe('addBinding', () => {
+  it('should move an existing binding to the end instead of duplicating it', () => {
+    const list = ['key:w', 'key:ArrowUp'];
+    addBinding(list, 'key:w');
+    expect(list).toEqual(['key:ArrowUp', 'key:w']);
+  });
+
+  it('should drop the oldest binding when full', () => {
+    const list = ['key:a', 'key:b', 'key:c', 'key:d'];
+    addBinding(list, 'key:e');
+    expect(list).toEqual(['key:b', 'key:c', 'key:d', 'key:e']);
+  });
+});
+
+describe('sanitizeControlSettings', () => {
+  it('should return defaults for missing data', () => {
+    expect(sanitizeControlSettings(undefined)).toEqual(createDefaultControlSettings());
+    expect(sanitizeControlSettings(null)).toEqual(createDefaultControlSettings());
+  });
+
+  it('should keep valid custom bindings and fill in missing actions', () => {
+    const settings = sanitizeControlSettings({
+      space: { buttons: { firePrimary: ['key:j', 'pad:button:0'] } }
+    });
+    expect(settings.space.buttons.firePrimary).toEqual(['key:j', 'pad:button:0']);
+    expect(settings.space.buttons.boost).toEqual(createDefaultControlSettings().space.buttons.boost);
+    expect(settings.ground).toEqual(createDefaultControlSettings().ground);
+  });
+
+  it('should drop malformed and duplicate bindings', () => {
+    const settings = sanitizeControlSettings({
+      space: { buttons: { land: ['key:l', 42, 'bogus', 'key:l'] } }
+    });
+    expect(settings.space.buttons.land).toEqual(['key:l']);
+  });
+
+  it('should keep an explicitly empty action unbound', () => {
+    const settings = sanitizeControlSettings({ space: { buttons: { hyperspace: [] } } });
+    expect(settings.space.buttons.hyperspace).toEqual([]);
+  });
+
+  it('should clamp response values', () => {
+    const settings = sanitizeControlSettings({
+      space: { axes: { pitch: { deadzone: 5, curve: -1, sensitivity: 'fast', invert: 'yes' } } },
+      mouseSensitivity: 100
+    });
+    const pitch = settings.space.axes.pitch;
+    expect(pitch.deadzone).toBe(0.9);
+    expect(pitch.curve).toBe(0.5);
+    expect(pitch.sensitivity).toBe(createDefaultControlSettings().space.axes.pitch.sensitivity);
+    expect(pitch.invert).toBe(false);
+    expect(settings.mouseSensitivity).toBe(5);
+  });
+
+  it('should survive a JSON round trip', () => {
+    const settings = createDefaultControlSettings();
+    settings.space.axes.yaw.invert = true;
+    expect(sanitizeControlSettings(JSON.parse(JSON.stringify(settings)))).toEqual(settings);
+  });
+});
+
+describe('deadzone and response curve', () => {
+  it('should zero values inside the deadzone', () => {
+    expect(applyDeadzone(0.1, 0.15)).toBe(0);
+    expect(applyDeadzone(-0.15, 0.15)).toBe(0);
+  });
+
+  it('should rescale values outside the deadzone to the full range', () => {
+    expect(applyDeadzone(1, 0.2)).toBeCloseTo(1);
+    expect(applyDeadzone(-0.6, 0.2)).toBeCloseTo(-0.5);
+  });
+
+  it('should keep the sign through the curve', () => {
+    const axis = { curve: 2, sensitivity: 1, invert: false };
+    expect(applyResponse(0.5, axis)).toBeCloseTo(0.25);
+    expect(applyResponse(-0.5, axis)).toBeCloseTo(-0.25);
+  });
+
+  it('should apply sensitivity and inversion, clamped to -1..1', () => {
+    expect(applyResponse(0.8, { curve: 1, sensitivity: 2, invert: false })).toBe(1);
+    expect(applyResponse(0.5, { curve: 1, sensitivity: 1, invert: true })).toBeCloseTo(-0.5);
+  });
+});
+
+describe('reading actions', () => {
+  const settings = createDefaultControlSettings();
+
+  it('should read keyboard axes as full deflection', () => {
+    const state = devices({ keys: new Set(['w', 'd']) });
+    expect(readAxis(state, settings.space.axes.pitch)).toBe(1);
+    expect(readAxis(state, settings.space.axes.yaw)).toBe(-1);
+  });
+
+  it('should read analog stick values through the deadzone and curve', () => {
+    const pitch = settings.space.axes.pitch;
+    const drift = devices({ padAxes: [0, -0.05] });
+    expect(readAxis(drift, pitch)).toBe(0);
+
+    const half = devices({ padAxes: [0, -0.56] });
+    const expected = Math.pow(applyDeadzone(0.56, pitch.deadzone), pitch.curve);
+    expect(readAxis(half, pitch)).toBeCloseTo(expected);
+  });
+
+  it('should take the strongest binding in each direction', () => {
+    const state = devices({ keys: new Set(['w']), padAxes: [0, -0.5] });
+    expect(readAxis(state, settings.space.axes.pitch)).toBe(1);
+  });
+
+  it('should treat gamepad buttons and triggers as held past the threshold', () => {
+    expect(readButton(devices({ padButtons: [0, 0, 0, 0, 0, 0, 0, 0.7] }), settings.space.buttons.firePrimary)).toBe(true);
+    expect(readButton(devices({ padButtons: [0, 0, 0, 0, 0, 0, 0, 0.3] }), settings.space.buttons.firePrimary)).toBe(false);
+  });
+
+  it('should only report one-shot presses on the poll they happen', () => {
+    const list = settings.space.buttons.cycleTarget;
+    expect(readButtonPressed(devices({ keysPressed: new Set(['t']) }), list)).toBe(true);
+    expect(readButtonPressed(devices({ keys: new Set(['t']) }), list)).toBe(false);
+    expect(readButtonPressed(devices({ padButtons: [0, 0, 1], padButtonsPrev: [0, 0, 0] }), list)).toBe(true);
+    expect(readButtonPressed(devices({ padButtons: [0, 0, 1], padButtonsPrev: [0, 0, 1] }), list)).toBe(false);
+  });
+
+  it('should fill a whole action set', () => {
+    const out = {
+      axes: {} as Record<SpaceAxis, number>,
+      buttons: {} as Record<SpaceButton, boolean>
+    };
+    const state = devices({ keys: new Set(['Space', 'Shift']), keysPressed: new Set(['v']) });
+    readActions(state, settings.space, SPACE_ONE_SHOT, out);
+
+    expect(out.axes).toEqual({ pitch: 0, yaw: 0, roll: 0, throttle: 0 });
+    expect(out.buttons.firePrimary).toBe(true);
+    expect(out.buttons.boost).toBe(true);
+    expect(out.buttons.switchWeapon).toBe(true);
+    expect(out.buttons.land).toBe(false);
+  });
+
+  it('should follow rebinding without recreating the input', () => {
+    const custom = createDefaultControlSettings();
+    custom.space.buttons.firePrimary = ['mouse:0'];
+    expect(readButton(devices({ keys: new Set(['Space']) }), custom.space.buttons.firePrimary)).toBe(false);
+    expect(readButton(devices({ mouseButtons: new Set([0]) }), custom.space.buttons.firePrimary)).toBe(true);
+  });
+});
+
+describe('detectBinding', () => {
+  it('should capture a newly pressed key, mouse button or pad button', () => {
+    expect(detectBinding(devices({ keysPressed: new Set(['k']) }))).toBe('key:k');
+    expect(detectBinding(devices({ mousePressed: new Set([2]) }))).toBe('mouse:2');
+    expect(detectBinding(devices({ padButtons: [0, 1], padButtonsPrev: [0, 0] }))).toBe('pad:button:1');
+  });
+
+  it('should capture a firm stick push with its direction', () => {
+    expect(detectBinding(devices({ padAxes: [0, 0, 0, -0.9], padAxesPrev: [0, 0, 0, 0] }))).toBe('pad:axis:3-');
+  });
+
+  it('should ignore held inputs and stick drift', () => {
+    expect(detectBinding(devices({ keys: new Set(['k']), padButtons: [1], padButtonsPrev: [1] }))).toBeNull();
+    expect(detectBinding(devices({ padAxes: [0.2], padAxesPrev: [0] }))).toBeNull();
+  });
+});
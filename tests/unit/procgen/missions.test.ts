@@ -0,0 +1,126 @@
+import {
+  getMission,
+  MISSION_TYPES,
+  type MissionType
+} from '../../../packages/procgen/src/missions';
+import type { SystemDef } from '../../../packages/procgen/src/galaxy/system';
+import { PLANETS, planetToSystem } from '../../../packages/data/src/planets';
+
+function system(id: string, overrides: Partial<SystemDef> = {}): SystemDef {
+  return {
+    id,
+    seed: BigInt(id.length * 7919 + id.charCodeAt(0)),
+    sectorId: 'sec_0_0_0',
+    sectorCoord: [0, 0, 0],
+    localPos: [0.5, 0.5, 0.5],
+    galaxyPos: [0, 0, 0],
+    archetypeId: 'frontier',
+    tags: [],
+    starClass: 'g',
+    planetCount: 4,
+    poiDensity: 0.5,
+    controllingFaction: 'republic',
+    economy: { wealth: 0.5, industry: 0.5, security: 0.5 },
+    storyAnchorChance: 0.05,
+    ...overrides
+  } as SystemDef;
+}
+
+describe('getMission', () => {
+  it('should be deterministic for the same system and tier', () => {
+    const sys = system('sys_alpha');
+    expect(getMission(sys, 3)).toEqual(getMission(sys, 3));
+  });
+
+  it('should keep the contract id independent of the mission type', () => {
+    const sys = system('sys_alpha');
+    expect(getMission(sys, 2, 'escort').id).toBe('msn_sys_alpha_t2');
+    expect(getMission(sys, 2, 'bounty').id).toBe('msn_sys_alpha_t2');
+  });
+
+  it('should derive a different seed per type', () => {
+    const sys = system('sys_alpha');
+    expect(getMission(sys, 0, 'bounty').seed).not.toBe(getMission(sys, 0, 'patrol').seed);
+  });
+
+  it('should build every template with a reward', () => {
+    const sys = system('sys_beta');
+    for (const type of MISSION_TYPES) {
+      const mission = getMission(sys, 1, type);
+      expect(mission.type).toBe(type);
+      expect(mission.rewardCredits).toBeGreaterThanOrEqual(100);
+      expect(mission.summary.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should favour the type a planet asks for', () => {
+    for (const planet of PLANETS) {
+      const counts = new Map<MissionType, number>();
+      for (let tier = 0; tier < 40; tier++) {
+        const type = getMission(planetToSystem(planet), tier).type;
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]!;
+      expect(mostCommon).toBe(planet.missionType);
+    }
+  });
+
+  it('should vary the type across systems from tags and economy', () => {
+    const types = new Set<MissionType>();
+    for (let i = 0; i < 60; i++) {
+      types.add(getMission(system(`sys_${i}`, { seed: BigInt(i * 104729 + 17) }), 0).type);
+    }
+    expect(types.size).toBeGreaterThanOrEqual(5);
+  });
+
+  it('should scale bounty kills with tier', () => {
+    const sys = system('sys_gamma');
+    expect(getMission(sys, 8, 'bounty').goalKills).toBeGreaterThan(getMission(sys, 0, 'bounty').goalKills);
+  });
+});
+
+describe('mission sites', () => {
+  const sys = system('sys_delta', { tags: ['trade'] });
+
+  it('should give bounties no sites', () => {
+    expect(getMission(sys, 0, 'bounty').sites).toEqual([]);
+  });
+
+  it('should give a defense mission a station with hull', () => {
+    const [station] = getMission(sys, 0, 'defense').sites;
+    expect(station?.kind).toBe('station');
+    expect(station?.hp).toBeGreaterThan(0);
+  });
+
+  it('should send the convoy to a jump point', () => {
+    const mission = getMission(sys, 0, 'escort');
+    const convoy = mission.sites.find((s) => s.kind === 'convoy');
+    expect(convoy?.speed).toBeGreaterThan(0);
+    expect(mission.sites.find((s) => s.id === convoy?.destination)?.kind).toBe('jump_point');
+  });
+
+  it('should give patrols consecutive nav buoys ahead of the arrival point', () => {
+    const buoys = getMission(sys, 0, 'patrol').sites;
+    expect(buoys.map((s) => s.id)).toEqual(buoys.map((_, i) => `nav_${i + 1}`));
+    for (const buoy of buoys) expect(buoy.kind).toBe('nav_buoy');
+    expect(buoys[0]!.position[2]).toBeLessThan(0);
+  });
+
+  it('should give hold-position missions a scan time', () => {
+    for (const type of ['salvage', 'smuggle', 'relic_recovery'] as const) {
+      expect(getMission(sys, 0, type).scanSeconds).toBeGreaterThan(0);
+    }
+  });
+
+  it('should give every hostile structure hull to shoot at', () => {
+    const assault = getMission(sys, 0, 'assault').sites;
+    const sabotage = getMission(sys, 0, 'sabotage').sites;
+    for (const site of [...assault, ...sabotage]) {
+      if (site.kind === 'emplacement' || site.kind === 'relay') {
+        expect(site.hp).toBeGreaterThan(0);
+      }
+    }
+    expect(assault.some((s) => s.kind === 'emplacement')).toBe(true);
+    expect(sabotage.some((s) => s.kind === 'relay')).toBe(true);
+  });
+});
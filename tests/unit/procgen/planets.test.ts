@@ -0,0 +1,138 @@
+import { PLANET_ARCHETYPES } from '../../../packages/data/src';
+import { GalaxyCache } from '../../../packages/procgen/src/galaxy/cache';
+import { getPlanet } from '../../../packages/procgen/src/galaxy/planet';
+import type { SystemDef } from '../../../packages/procgen/src/galaxy/system';
+
+const CTX = { globalSeed: 42n };
+
+function system(id: string, overrides: Partial<SystemDef> = {}): SystemDef {
+  return {
+    id,
+    seed: BigInt(id.length * 7919 + id.charCodeAt(4)),
+    sectorId: 'sec_0_0_0',
+    sectorCoord: [0, 0, 0],
+    localPos: [0.5, 0.5, 0.5],
+    galaxyPos: [0, 0, 0],
+    archetypeId: 'frontier',
+    tags: [],
+    starClass: 'g',
+    planetCount: 6,
+    poiDensity: 0.5,
+    controllingFaction: 'republic',
+    economy: { wealth: 0.5, industry: 0.5, security: 0.5 },
+    storyAnchorChance: 0.05,
+    ...overrides
+  } as SystemDef;
+}
+
+describe('getPlanet', () => {
+  it('should be deterministic for the same system and orbit', () => {
+    const sys = system('sys_alpha');
+    expect(getPlanet(sys, 2, CTX)).toEqual(getPlanet(sys, 2, CTX));
+  });
+
+  it('should reject orbits outside the system', () => {
+    const sys = system('sys_alpha', { planetCount: 3 });
+    expect(() => getPlanet(sys, 3, CTX)).toThrow('out of range');
+    expect(() => getPlanet(sys, -1, CTX)).toThrow('out of range');
+  });
+
+  it('should take its style and landability from a curated archetype', () => {
+    for (let i = 0; i < 30; i++) {
+      const sys = system(`sys_${i}`, { seed: BigInt(i * 104729 + 11) });
+      for (let orbit = 0; orbit < sys.planetCount; orbit++) {
+        const planet = getPlanet(sys, orbit, CTX);
+        const archetype = PLANET_ARCHETYPES.find((a) => a.id === planet.archetypeId);
+        expect(archetype).toBeDefined();
+        expect(planet.style).toBe(archetype!.style);
+        expect(planet.landable).toBe(archetype!.landable);
+        for (const biome of planet.biomes) expect(archetype!.biomes).toContain(biome);
+        for (const hazard of planet.hazards) expect(archetype!.hazards).toContain(hazard);
+      }
+    }
+  });
+
+  it('should not share its tags with the archetype table', () => {
+    const sys = system('sys_alpha');
+    const planet = getPlanet(sys, 0, CTX);
+    const archetype = PLANET_ARCHETYPES.find((a) => a.id === planet.archetypeId)!;
+    expect(planet.tags).toEqual(archetype.tags);
+    expect(planet.tags).not.toBe(archetype.tags);
+
+    planet.tags.push('scorched');
+    expect(archetype.tags).not.toContain('scorched');
+    expect(getPlanet(sys, 0, CTX).tags).not.toContain('scorched');
+  });
+
+  it('should give each planet its own terrain seed', () => {
+    const sys = system('sys_beta');
+    const seeds = new Set<bigint>();
+    for (let orbit = 0; orbit < sys.planetCount; orbit++) {
+      const planet = getPlanet(sys, orbit, CTX);
+      expect(planet.terrainSeed).not.toBe(planet.seed);
+      seeds.add(planet.terrainSeed);
+    }
+    expect(seeds.size).toBe(sys.planetCount);
+  });
+
+  it('should place site slots on the surface with their own seeds', () => {
+    for (let orbit = 0; orbit < 6; orbit++) {
+      const planet = getPlanet(system('sys_gamma'), orbit, CTX);
+      for (const site of planet.sites) {
+        expect(Math.abs(site.latitude)).toBeLessThanOrEqual(90);
+        expect(Math.abs(site.longitude)).toBeLessThanOrEqual(180);
+        expect(site.seed).not.toBe(planet.seed);
+      }
+    }
+  });
+
+  it('should lean toward archetypes matching system tags', () => {
+    let matches = 0;
+    for (let i = 0; i < 20; i++) {
+      const sys = system(`sys_${i}`, { seed: BigInt(i * 7877 + 3), tags: ['frontier', 'smuggler', 'criminal'] });
+      for (let orbit = 0; orbit < sys.planetCount; orbit++) {
+        if (getPlanet(sys, orbit, CTX).style === 'desert') matches++;
+      }
+    }
+    expect(matches).toBeGreaterThan(20);
+  });
+
+  it('should produce landable worlds in most systems', () => {
+    let landable = 0;
+    for (let i = 0; i < 20; i++) {
+      const sys = system(`sys_${i}`, { seed: BigInt(i * 31 + 5) });
+      for (let orbit = 0; orbit < sys.planetCount; orbit++) {
+        if (getPlanet(sys, orbit, CTX).landable) {
+          landable++;
+          break;
+        }
+      }
+    }
+    expect(landable).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe('GalaxyCache planets', () => {
+  it('should return the cached planet for repeat lookups', () => {
+    const cache = new GalaxyCache(CTX);
+    const sys = system('sys_delta');
+    expect(cache.planet(sys, 1)).toBe(cache.planet(sys, 1));
+    expect(cache.planet(sys, 1)).toEqual(getPlanet(sys, 1, CTX));
+  });
+
+  it('should list every planet in orbit order', () => {
+    const cache = new GalaxyCache(CTX);
+    const sys = system('sys_delta', { planetCount: 4 });
+    expect(cache.planetsOf(sys).map((p) => p.orbitIndex)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should evict the least recently used planet past its limit', () => {
+    const cache = new GalaxyCache(CTX, { maxPlanets: 2 });
+    const sys = system('sys_delta');
+    const first = cache.planet(sys, 0);
+    cache.planet(sys, 1);
+    cache.planet(sys, 2);
+    expect(cache.planet(sys, 0)).not.toBe(first);
+    expect(cache.planet(sys, 0)).toEqual(first);
+  });
+});
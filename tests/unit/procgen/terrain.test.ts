@@ -0,0 +1,144 @@
+import {
+  createTerrain,
+  diffTerrainChunks,
+  terrainChunkCoord,
+  terrainChunksAround,
+  terrainForPlanet,
+  terrainLodForRing,
+  TERRAIN_CHUNK_RESOLUTION,
+  TERRAIN_CHUNK_SIZE,
+  TERRAIN_LOD_COUNT
+} from '../../../packages/procgen/src/terrain';
+
+function sampleGrid(heightAt: (x: number, z: number) => number): number[] {
+  const out: number[] = [];
+  for (let x = -200; x <= 200; x += 25) {
+    for (let z = -200; z <= 200; z += 25) out.push(heightAt(x, z));
+  }
+  return out;
+}
+
+function relief(heights: number[]): number {
+  return Math.max(...heights) - Math.min(...heights);
+}
+
+describe('createTerrain', () => {
+  it('should be deterministic for a seed and style', () => {
+    const a = createTerrain(77n, 'ice');
+    const b = createTerrain(77n, 'ice');
+    expect(sampleGrid(a.heightAt)).toEqual(sampleGrid(b.heightAt));
+    expect(a.chunk(2, -3, 1)).toEqual(b.chunk(2, -3, 1));
+  });
+
+  it('should differ between seeds', () => {
+    expect(sampleGrid(createTerrain(1n, 'jungle').heightAt)).not.toEqual(
+      sampleGrid(createTerrain(2n, 'jungle').heightAt)
+    );
+  });
+
+  it('should shape the land by planet style', () => {
+    const ice = relief(sampleGrid(createTerrain(5n, 'ice').heightAt));
+    const jungle = relief(sampleGrid(createTerrain(5n, 'jungle').heightAt));
+    const city = relief(sampleGrid(createTerrain(5n, 'city').heightAt));
+    expect(ice).toBeGreaterThan(jungle);
+    expect(jungle).toBeGreaterThan(city);
+    expect(city).toBeLessThan(2);
+  });
+
+  it('should raise ice ridges too steep to climb somewhere', () => {
+    const terrain = createTerrain(5n, 'ice');
+    let steepest = 0;
+    for (let x = -300; x <= 300; x += 4) {
+      for (let z = -300; z <= 300; z += 4) steepest = Math.max(steepest, terrain.slopeAt(x, z));
+    }
+    expect(steepest).toBeGreaterThan(Math.PI / 4);
+  });
+
+  it('should build terrain from a planet\'s terrain seed and style', () => {
+    const terrain = terrainForPlanet({ terrainSeed: 9n, style: 'desert' });
+    expect(terrain.style).toBe('desert');
+    expect(terrain.heightAt(10, 20)).toBe(createTerrain(9n, 'desert').heightAt(10, 20));
+  });
+});
+
+describe('Terrain.chunk', () => {
+  const terrain = createTerrain(31n, 'desert');
+
+  it('should sample the height function over the chunk, x fastest', () => {
+    const chunk = terrain.chunk(1, -2);
+    const verts = TERRAIN_CHUNK_RESOLUTION + 1;
+    const step = TERRAIN_CHUNK_SIZE / TERRAIN_CHUNK_RESOLUTION;
+
+    expect(chunk.originX).toBe(TERRAIN_CHUNK_SIZE);
+    expect(chunk.originZ).toBe(-2 * TERRAIN_CHUNK_SIZE);
+    expect(chunk.heights).toHaveLength(verts * verts);
+    expect(chunk.heights[3 * verts + 5]).toBeCloseTo(terrain.heightAt(chunk.originX + 5 * step, chunk.originZ + 3 * step), 4);
+    expect(chunk.minHeight).toBeLessThanOrEqual(chunk.maxHeight);
+  });
+
+  it('should share edges with its neighbours', () => {
+    const verts = TERRAIN_CHUNK_RESOLUTION + 1;
+    const left = terrain.chunk(0, 0);
+    const right = terrain.chunk(1, 0);
+    for (let j = 0; j < verts; j++) {
+      expect(left.heights[j * verts + verts - 1]).toBe(right.heights[j * verts]);
+    }
+  });
+
+  it('should keep every coarser LOD vertex on the full-detail grid', () => {
+    const full = terrain.chunk(-1, 4, 0);
+    const coarse = terrain.chunk(-1, 4, 2);
+    const fullVerts = full.resolution + 1;
+    const coarseVerts = coarse.resolution + 1;
+    const ratio = full.resolution / coarse.resolution;
+
+    expect(coarse.resolution).toBe(TERRAIN_CHUNK_RESOLUTION / 4);
+    for (let j = 0; j < coarseVerts; j++) {
+      for (let i = 0; i < coarseVerts; i++) {
+        expect(coarse.heights[j * coarseVerts + i]).toBe(full.heights[j * ratio * fullVerts + i * ratio]);
+      }
+    }
+  });
+
+  it('should reject unknown LODs', () => {
+    expect(() => terrain.chunk(0, 0, TERRAIN_LOD_COUNT)).toThrow('out of range');
+  });
+});
+
+describe('terrain streaming', () => {
+  it('should find the chunk under a position', () => {
+    expect(terrainChunkCoord(0, 0)).toEqual([0, 0]);
+    expect(terrainChunkCoord(-0.5, TERRAIN_CHUNK_SIZE + 1)).toEqual([-1, 1]);
+  });
+
+  it('should lower detail with distance', () => {
+    expect(terrainLodForRing(0)).toBe(0);
+    expect(terrainLodForRing(1)).toBe(0);
+    expect(terrainLodForRing(2)).toBe(1);
+    expect(terrainLodForRing(10)).toBe(TERRAIN_LOD_COUNT - 1);
+  });
+
+  it('should list the chunks around a position, nearest first', () => {
+    const refs = terrainChunksAround(TERRAIN_CHUNK_SIZE * 2.5, 10, 2);
+    expect(refs).toHaveLength(25);
+    expect(refs[0]).toEqual({ key: '2,0', cx: 2, cz: 0, lod: 0 });
+    expect(refs[refs.length - 1]!.lod).toBe(terrainLodForRing(2));
+  });
+
+  it('should load, re-LOD and unload chunks as the viewer moves', () => {
+    const loaded = new Map(terrainChunksAround(0, 0, 2).map((ref) => [ref.key, ref.lod]));
+    const { load, unload } = diffTerrainChunks(loaded, terrainChunksAround(TERRAIN_CHUNK_SIZE, 0, 2));
+
+    // A new column appears on the far side and the trailing one goes
+    expect(unload.sort()).toEqual(['-2,-1', '-2,-2', '-2,0', '-2,1', '-2,2']);
+    expect(load.filter((ref) => !loaded.has(ref.key))).toHaveLength(5);
+    // Chunks the viewer moved closer to come back at full detail
+    expect(load.find((ref) => ref.key === '2,0')).toEqual({ key: '2,0', cx: 2, cz: 0, lod: 0 });
+    expect(load.find((ref) => ref.key === '1,1')).toBeUndefined();
+  });
+
+  it('should change nothing when the viewer stays in the same chunk', () => {
+    const loaded = new Map(terrainChunksAround(5, 5, 3).map((ref) => [ref.key, ref.lod]));
+    expect(diffTerrainChunks(loaded, terrainChunksAround(40, 60, 3))).toEqual({ load: [], unload: [] });
+  });
+});
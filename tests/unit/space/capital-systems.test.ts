@@ -12,8 +12,13 @@ import {
   Team,
   Health,
   HitRadius,
-  Targetable
+  Targetable,
+  FighterBrain,
+  SquadronMember,
+  Ship,
+  Shield
 } from '../../../packages/gameplay/src/space/components';
+import { AIState, consumeImpactEvents, isIonLocked } from '../../../packages/gameplay/src/space/systems';
 
 import {
   CapitalShipV2,
@@ -21,6 +26,10 @@ import {
   Subsystem,
   TurretProjectile,
   WeakPointV2,
+  HangarBay,
+  CarrierFighter,
+  CapitalDestruction,
+  WreckHulk,
   ShipClass,
   SubsystemType,
   TurretType
@@ -40,6 +49,17 @@ import {
   rebuildFighterSpatialHash,
   consumeTurretFireEvents,
   consumeSubsystemDestroyedEvents,
+  hangarSystem,
+  consumeHangarLaunchEvents,
+  consumeHangarRecoveryEvents,
+  isIonOffline,
+  applyCapitalShipDamage,
+  capitalShipAISystem,
+  destroyCapitalShipV2,
+  capitalDestructionSystem,
+  clearCapitalWrecks,
+  consumeCapitalExplosionEvents,
+  consumeCapitalBreakupEvents,
   type TurretConfig,
   type SubsystemConfig,
   type CapitalShipParams
@@ -650,6 +670,76 @@ describe('Capital Ship Systems', () => {
     });
   });
 
+  describe('turretTargetingSystem vs capital ships', () => {
+    function spawnFleets(world: ReturnType<typeof createWorld>) {
+      const ours = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, seed: 11 });
+      const theirs = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Destroyer, x: 800 });
+      parentChildTransformSystem(world);
+      rebuildFighterSpatialHash(world);
+      return { ours, theirs };
+    }
+
+    function turretsOfType(turretEids: number[], type: TurretType) {
+      return turretEids.filter((tid) => Turret.turretType[tid] === type);
+    }
+
+    it('should point turbolasers at the enemy hull and subsystems', () => {
+      const world = createWorld();
+      const { ours, theirs } = spawnFleets(world);
+      // A fighter closer than the enemy ship doesn't distract the turbolasers
+      createFighterTarget(world, 0, 0, 20, -80);
+      rebuildFighterSpatialHash(world);
+
+      turretTargetingSystem(world, 0.1);
+
+      const aimed = turretsOfType(ours.turretEids, TurretType.Heavy).map((tid) => Turret.targetEid[tid]!);
+      for (const target of aimed) {
+        const onEnemy = target === theirs.shipEid || theirs.subsystemEids.includes(target);
+        expect(onEnemy).toBe(true);
+      }
+      // Seeded per turret, so the battery doesn't all pile onto one point
+      expect(new Set(aimed).size).toBeGreaterThan(1);
+    });
+
+    it('should keep point defense on fighters', () => {
+      const world = createWorld();
+      const { ours } = spawnFleets(world);
+
+      turretTargetingSystem(world, 0.1);
+
+      for (const tid of turretsOfType(ours.turretEids, TurretType.PointDefense)) {
+        expect(Turret.targetEid[tid]).toBe(-1);
+      }
+    });
+
+    it('should measure capital ship range to the hull, not the centre', () => {
+      const world = createWorld();
+      const { ours, theirs } = spawnFleets(world);
+      const heavy = turretsOfType(ours.turretEids, TurretType.Heavy)[0]!;
+      // Centre just out of reach, hull well inside it
+      Transform.x[theirs.shipEid] = Transform.x[heavy]! + Turret.range[heavy]! + 20;
+      parentChildTransformSystem(world);
+      rebuildFighterSpatialHash(world);
+
+      turretTargetingSystem(world, 0.1);
+
+      expect(Turret.targetEid[heavy]).not.toBe(-1);
+    });
+
+    it('should fall back to fighters with no enemy capital around', () => {
+      const world = createWorld();
+      const result = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      parentChildTransformSystem(world);
+      const hostile = createFighterTarget(world, 0, 0, 40, -200);
+      rebuildFighterSpatialHash(world);
+
+      turretTargetingSystem(world, 0.1);
+
+      const heavy = turretsOfType(result.turretEids, TurretType.Heavy)[0]!;
+      expect(Turret.targetEid[heavy]).toBe(hostile);
+    });
+  });
+
   describe('turretRotationSystem', () => {
     it('should rotate turret toward target', () => {
       const world = createWorld();
@@ -962,6 +1052,42 @@ describe('Capital Ship Systems', () => {
       expect(hasComponent(world, TurretProjectile, proj)).toBe(false);
     });
 
+    it('should put ion charge on fighters hit by ion bolts', () => {
+      const world = createWorld();
+      const capShip = spawnCapitalShipV2(world, {
+        team: 1,
+        shipClass: ShipClass.Corvette
+      });
+
+      const enemy = createFighterTarget(world, 0, 0, 0, 0);
+      Health.ion[enemy] = 0;
+      Health.ionLock[enemy] = 0;
+
+      const proj = addEntity(world);
+      addComponent(world, TurretProjectile, proj);
+      addComponent(world, Transform, proj);
+      addComponent(world, Velocity, proj);
+
+      Transform.x[proj] = 0;
+      Transform.y[proj] = 0;
+      Transform.z[proj] = 0;
+      Velocity.vx[proj] = 0;
+      Velocity.vy[proj] = 0;
+      Velocity.vz[proj] = 0;
+      TurretProjectile.life[proj] = 3.0;
+      TurretProjectile.damage[proj] = 4;
+      TurretProjectile.ion[proj] = 60;
+      TurretProjectile.parentShipEid[proj] = capShip.shipEid;
+
+      rebuildFighterSpatialHash(world);
+      turretProjectileSystem(world, 0.016);
+
+      // No shields: the whole 60 goes into charge, not enough to lock an 80 hp fighter
+      expect(Health.hp[enemy]).toBe(76);
+      expect(Health.ion[enemy]).toBe(60);
+      expect(isIonLocked(enemy)).toBe(false);
+    });
+
     it('should not damage friendly fighters', () => {
       const world = createWorld();
 
@@ -1247,6 +1373,169 @@ describe('Capital Ship Systems', () => {
     });
   });
 
+  describe('destruction sequence', () => {
+    function spawnDoomedShip(world: ReturnType<typeof createWorld>) {
+      consumeCapitalExplosionEvents();
+      consumeCapitalBreakupEvents();
+      return spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+    }
+
+    function createBlastFighter(world: ReturnType<typeof createWorld>, x: number, y: number, z: number): number {
+      const eid = createFighterTarget(world, 0, x, y, z);
+      addComponent(world, Ship, eid);
+      addComponent(world, Shield, eid);
+      Shield.sp[eid] = 50;
+      Shield.maxSp[eid] = 50;
+      return eid;
+    }
+
+    function runFor(world: ReturnType<typeof createWorld>, seconds: number) {
+      for (let t = 0; t < seconds; t += 0.1) capitalDestructionSystem(world, 0.1);
+    }
+
+    it('should take a destroyed ship out of the fight but leave its hull', () => {
+      const world = createWorld();
+      const { shipEid, turretEids, subsystemEids } = spawnDoomedShip(world);
+
+      destroyCapitalShipV2(world, shipEid);
+
+      expect(hasComponent(world, CapitalShipV2, shipEid)).toBe(false);
+      expect(hasComponent(world, Health, shipEid)).toBe(false);
+      expect(hasComponent(world, Team, shipEid)).toBe(false);
+      expect(hasComponent(world, Targetable, shipEid)).toBe(false);
+      expect(hasComponent(world, Turret, turretEids[0]!)).toBe(false);
+      expect(hasComponent(world, Subsystem, subsystemEids[0]!)).toBe(false);
+      expect(hasComponent(world, CapitalDestruction, shipEid)).toBe(true);
+      expect(hasComponent(world, HitRadius, shipEid)).toBe(true);
+    });
+
+    it('should blow the weakest section first', () => {
+      const world = createWorld();
+      const { shipEid } = spawnDoomedShip(world);
+      CapitalShipV2.hullAft[shipEid] = 10;
+
+      destroyCapitalShipV2(world, shipEid);
+
+      const [first] = consumeCapitalExplosionEvents();
+      expect(first!.kind).toBe('section');
+      expect(first!.z).toBeCloseTo(CapitalDestruction.length[shipEid]! / 3, 3);
+    });
+
+    it('should fail the sections in turn with secondaries at the subsystems', () => {
+      const world = createWorld();
+      const { shipEid, subsystemEids } = spawnDoomedShip(world);
+      destroyCapitalShipV2(world, shipEid);
+
+      runFor(world, 2);
+      const early = consumeCapitalExplosionEvents();
+      expect(early.filter((e) => e.kind === 'section')).toHaveLength(2);
+
+      runFor(world, 2);
+      const later = [...early, ...consumeCapitalExplosionEvents()];
+      expect(later.filter((e) => e.kind === 'section')).toHaveLength(3);
+      expect(later.filter((e) => e.kind === 'secondary')).toHaveLength(subsystemEids.length);
+      expect(hasComponent(world, CapitalDestruction, shipEid)).toBe(true);
+    });
+
+    it('should break apart into drifting hulks', () => {
+      const world = createWorld();
+      const { shipEid } = spawnDoomedShip(world);
+      destroyCapitalShipV2(world, shipEid);
+
+      runFor(world, 6);
+
+      expect(hasComponent(world, CapitalDestruction, shipEid)).toBe(false);
+      const [breakup] = consumeCapitalBreakupEvents();
+      expect(breakup!.shipEid).toBe(shipEid);
+      expect(breakup!.hulkEids).toHaveLength(3);
+      expect(consumeCapitalExplosionEvents().some((e) => e.kind === 'breakup')).toBe(true);
+
+      const [fore, mid, aft] = breakup!.hulkEids;
+      for (const hulk of breakup!.hulkEids) {
+        expect(hasComponent(world, WreckHulk, hulk)).toBe(true);
+        expect(HitRadius.r[hulk]).toBeGreaterThan(0);
+      }
+      expect(Transform.z[fore!]).toBeLessThan(Transform.z[mid!]!);
+      expect(Transform.z[mid!]).toBeLessThan(Transform.z[aft!]!);
+
+      // Still there, and drifting apart, well after the ship is gone
+      const gap = Transform.z[aft!]! - Transform.z[fore!]!;
+      runFor(world, 30);
+      expect(hasComponent(world, WreckHulk, fore!)).toBe(true);
+      expect(Transform.z[aft!]! - Transform.z[fore!]!).toBeGreaterThan(gap);
+    });
+
+    it('should start the sequence for ships shot down by fighters', () => {
+      const world = createWorld();
+      const { shipEid } = spawnDoomedShip(world);
+      Health.hp[shipEid] = 0;
+
+      capitalDestructionSystem(world, 0.1);
+
+      expect(hasComponent(world, CapitalDestruction, shipEid)).toBe(true);
+    });
+
+    it('should damage fighters caught in the blast', () => {
+      const world = createWorld();
+      const { shipEid } = spawnDoomedShip(world);
+      CapitalShipV2.hullFore[shipEid] = 0;
+      const foreZ = -CapitalShipV2.length[shipEid]! / 3;
+      const close = createBlastFighter(world, 0, 0, foreZ);
+      const grazed = createBlastFighter(world, 0, 40, foreZ);
+      const clear = createBlastFighter(world, 0, 400, foreZ);
+      Health.hp[close] = 20;
+      rebuildFighterSpatialHash(world);
+
+      destroyCapitalShipV2(world, shipEid);
+
+      expect(hasComponent(world, Health, close)).toBe(false);
+      expect(Shield.sp[grazed]).toBe(0);
+      expect(Health.hp[grazed]).toBeLessThan(80);
+      expect(Shield.sp[clear]).toBe(50);
+      expect(Health.hp[clear]).toBe(80);
+    });
+
+    it('should report blast hits and kills as impact events from the dying hull', () => {
+      const world = createWorld();
+      const { shipEid } = spawnDoomedShip(world);
+      CapitalShipV2.hullFore[shipEid] = 0;
+      const foreZ = -CapitalShipV2.length[shipEid]! / 3;
+      const close = createBlastFighter(world, 0, 0, foreZ);
+      const grazed = createBlastFighter(world, 0, 40, foreZ);
+      createBlastFighter(world, 0, 400, foreZ);
+      Health.hp[close] = 20;
+      rebuildFighterSpatialHash(world);
+      consumeImpactEvents();
+
+      destroyCapitalShipV2(world, shipEid);
+
+      const events = consumeImpactEvents();
+      expect(events.map((e) => [e.victim, e.killed])).toEqual(expect.arrayContaining([[close, 1], [grazed, 0]]));
+      expect(events).toHaveLength(2);
+      for (const event of events) {
+        expect(event.kind).toBe('blast');
+        expect(event.shooter).toBe(shipEid);
+      }
+    });
+
+    it('should clear hulls and hulks on teardown', () => {
+      const world = createWorld();
+      const dying = spawnDoomedShip(world).shipEid;
+      const wrecked = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Corvette, x: 2000 }).shipEid;
+      destroyCapitalShipV2(world, wrecked);
+      runFor(world, 6);
+      destroyCapitalShipV2(world, dying);
+      const [breakup] = consumeCapitalBreakupEvents();
+
+      clearCapitalWrecks(world);
+
+      expect(hasComponent(world, CapitalDestruction, dying)).toBe(false);
+      for (const hulk of breakup!.hulkEids) {
+        expect(hasComponent(world, WreckHulk, hulk)).toBe(false);
+      }
+    });
+  });
+
   describe('consumeTurretFireEvents', () => {
     it('should return empty array when no events', () => {
       consumeTurretFireEvents(); // Clear any existing
@@ -1279,6 +1568,427 @@ describe('Capital Ship Systems', () => {
     });
   });
 
+  describe('hangarSystem', () => {
+    const carrierFighters = defineQuery([CarrierFighter]);
+
+    function spawnCarrier(world: ReturnType<typeof createWorld>, params: Partial<CapitalShipParams> = {}) {
+      const result = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, ...params });
+      const hangar = result.subsystemEids.find((sid) => Subsystem.subsystemType[sid] === SubsystemType.Hangar)!;
+      parentChildTransformSystem(world);
+      consumeHangarLaunchEvents();
+      consumeHangarRecoveryEvents();
+      return { ...result, hangar };
+    }
+
+    it('should stock the hangar bay with the ship class complement', () => {
+      const world = createWorld();
+      const { shipEid, hangar } = spawnCarrier(world);
+
+      expect(hasComponent(world, HangarBay, hangar)).toBe(true);
+      expect(HangarBay.complement[hangar]).toBe(CapitalShipV2.hangarCapacity[shipEid]);
+      expect(CapitalShipV2.hangarCurrent[shipEid]).toBe(CapitalShipV2.hangarCapacity[shipEid]);
+    });
+
+    it('should give frigates a hangar bay', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world, { team: 0, shipClass: ShipClass.Frigate });
+
+      expect(hangar).toBeDefined();
+      expect(HangarBay.capacity[hangar]).toBe(6);
+    });
+
+    it('should accept a custom complement', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world, { hangarCapacity: 8 });
+      expect(HangarBay.complement[hangar]).toBe(8);
+    });
+
+    it('should launch a squadron once the interval is up', () => {
+      const world = createWorld();
+      const { shipEid, hangar } = spawnCarrier(world);
+      const before = HangarBay.complement[hangar]!;
+
+      hangarSystem(world, HangarBay.launchInterval[hangar]! - 1);
+      expect(carrierFighters(world)).toHaveLength(0);
+
+      hangarSystem(world, 1);
+      const fighters = carrierFighters(world);
+      expect(fighters).toHaveLength(4);
+      expect(HangarBay.complement[hangar]).toBe(before - 4);
+
+      const events = consumeHangarLaunchEvents();
+      expect(events.map((e) => e.fighterEid).sort()).toEqual([...fighters].sort());
+      expect(events.every((e) => e.shipEid === shipEid && e.archetype === 'tie_ln' && e.team === 1)).toBe(true);
+
+      const squadron = SquadronMember.squadronEid[fighters[0]!];
+      for (const eid of fighters) {
+        expect(Team.id[eid]).toBe(1);
+        expect(CarrierFighter.hangarEid[eid]).toBe(hangar);
+        expect(SquadronMember.squadronEid[eid]).toBe(squadron);
+      }
+    });
+
+    it('should launch along the launch vector', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world);
+
+      hangarSystem(world, HangarBay.launchInterval[hangar]!);
+      const leader = consumeHangarLaunchEvents()[0]!.fighterEid;
+
+      // Default vector leaves the bay downward and forward (-z)
+      expect(Transform.y[leader]!).toBeLessThan(Transform.y[hangar]!);
+      expect(Transform.z[leader]!).toBeLessThan(Transform.z[hangar]!);
+      expect(Velocity.vy[leader]!).toBeLessThan(0);
+    });
+
+    it('should hold launches while the air is full', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world);
+      const interval = HangarBay.launchInterval[hangar]!;
+
+      for (let i = 0; i < 4; i++) hangarSystem(world, interval);
+
+      expect(carrierFighters(world)).toHaveLength(HangarBay.maxAirborne[hangar]!);
+      expect(HangarBay.airborne[hangar]).toBe(HangarBay.maxAirborne[hangar]);
+    });
+
+    it('should stop when the complement runs out', () => {
+      const world = createWorld();
+      const { shipEid, hangar } = spawnCarrier(world, { hangarCapacity: 6 });
+      const interval = HangarBay.launchInterval[hangar]!;
+
+      for (let i = 0; i < 4; i++) hangarSystem(world, interval);
+
+      expect(carrierFighters(world)).toHaveLength(6);
+      expect(HangarBay.complement[hangar]).toBe(0);
+      expect(CapitalShipV2.hangarCurrent[shipEid]).toBe(0);
+    });
+
+    it('should send damaged fighters home and recover them', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world);
+      hangarSystem(world, HangarBay.launchInterval[hangar]!);
+      const eid = carrierFighters(world)[0]!;
+      const aboard = HangarBay.complement[hangar]!;
+
+      Transform.x[eid] = Transform.x[hangar]! + 500;
+      Health.hp[eid] = 5;
+      hangarSystem(world, 0.1);
+
+      expect(CarrierFighter.returning[eid]).toBe(1);
+      expect(FighterBrain.state[eid]).toBe(AIState.Dock);
+      expect(hasComponent(world, SquadronMember, eid)).toBe(false);
+
+      Transform.x[eid] = Transform.x[hangar]!;
+      Transform.y[eid] = Transform.y[hangar]!;
+      Transform.z[eid] = Transform.z[hangar]!;
+      hangarSystem(world, 0.1);
+
+      expect(hasComponent(world, CarrierFighter, eid)).toBe(false);
+      expect(HangarBay.complement[hangar]).toBe(aboard + 1);
+      expect(consumeHangarRecoveryEvents()).toEqual([
+        expect.objectContaining({ hangarEid: hangar, fighterEid: eid })
+      ]);
+    });
+
+    it('should stop launching and recovering when the hangar is disabled', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world);
+      const interval = HangarBay.launchInterval[hangar]!;
+      hangarSystem(world, interval);
+      const eid = carrierFighters(world)[0]!;
+      Transform.x[eid] = Transform.x[hangar]! + 500;
+      Health.hp[eid] = 5;
+      hangarSystem(world, 0.1);
+
+      Subsystem.hp[hangar] = 0;
+      subsystemEffectsSystem(world, 0.1);
+      hangarSystem(world, interval * 2);
+
+      expect(carrierFighters(world)).toHaveLength(4);
+      expect(CarrierFighter.returning[eid]).toBe(0);
+      expect(CarrierFighter.hangarEid[eid]).toBe(-1);
+      expect(FighterBrain.state[eid]).toBe(AIState.Acquire);
+    });
+
+    it('should hold the launch clock while the bay is ionized', () => {
+      const world = createWorld();
+      const { hangar } = spawnCarrier(world);
+      const interval = HangarBay.launchInterval[hangar]!;
+
+      Health.ionLock[hangar] = 3;
+      hangarSystem(world, interval);
+      expect(carrierFighters(world)).toHaveLength(0);
+
+      Health.ionLock[hangar] = 0;
+      hangarSystem(world, interval - 1);
+      expect(carrierFighters(world)).toHaveLength(0);
+      hangarSystem(world, 1);
+      expect(carrierFighters(world)).toHaveLength(4);
+    });
+  });
+
+  describe('applyCapitalShipDamage', () => {
+    it('should soak hits on the shield arc facing the impact', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const arc = CapitalShipV2.shieldFront[shipEid]!;
+      CapitalShipV2.shieldLastHit[shipEid] = 10;
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, -50);
+      expect(CapitalShipV2.shieldFront[shipEid]).toBe(arc - 100);
+      expect(CapitalShipV2.shieldRear[shipEid]).toBe(arc);
+      expect(CapitalShipV2.shieldLastHit[shipEid]).toBe(0);
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 50);
+      expect(CapitalShipV2.shieldRear[shipEid]).toBe(arc - 100);
+      expect(CapitalShipV2.hullMid[shipEid]).toBe(CapitalShipV2.hullMidMax[shipEid]);
+    });
+
+    it('should follow the ship around when it turns', () => {
+      const world = createWorld();
+      // Turned to face +Z: an impact at +Z is now on the front arc
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, qy: 1, qw: 0 });
+      const arc = CapitalShipV2.shieldFront[shipEid]!;
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 50);
+
+      expect(CapitalShipV2.shieldFront[shipEid]).toBe(arc - 100);
+    });
+
+    it('should put what gets through on the nearest hull section', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const section = CapitalShipV2.hullForeMax[shipEid]!;
+      const hp = Health.hp[shipEid]!;
+      CapitalShipV2.shieldFront[shipEid] = 50;
+      CapitalShipV2.shieldRear[shipEid] = 0;
+
+      applyCapitalShipDamage(world, shipEid, 250, 0, 0, -60);
+      expect(CapitalShipV2.shieldFront[shipEid]).toBe(0);
+      expect(CapitalShipV2.hullFore[shipEid]).toBe(section - 200);
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 60);
+      expect(CapitalShipV2.hullAft[shipEid]).toBe(section - 100);
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 5);
+      expect(CapitalShipV2.hullMid[shipEid]).toBe(section - 100);
+      expect(Health.hp[shipEid]).toBe(hp - 400);
+    });
+
+    it('should spill into the other sections once one is gone', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const section = CapitalShipV2.hullForeMax[shipEid]!;
+      CapitalShipV2.shieldFront[shipEid] = 0;
+      CapitalShipV2.hullFore[shipEid] = 100;
+
+      applyCapitalShipDamage(world, shipEid, 300, 0, 0, -60);
+
+      expect(CapitalShipV2.hullFore[shipEid]).toBe(0);
+      expect(CapitalShipV2.hullMid[shipEid]).toBe(section - 200);
+    });
+
+    it('should send aimed shots to their subsystem once the arc is down', () => {
+      const world = createWorld();
+      const { shipEid, subsystemEids } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const bridge = subsystemEids.find((sid) => Subsystem.subsystemType[sid] === SubsystemType.Bridge)!;
+      const bridgeHp = Subsystem.hp[bridge]!;
+
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 50, bridge);
+      expect(Subsystem.hp[bridge]).toBe(bridgeHp);
+
+      CapitalShipV2.shieldRear[shipEid] = 0;
+      applyCapitalShipDamage(world, shipEid, 100, 0, 0, 50, bridge);
+      expect(Subsystem.hp[bridge]).toBe(bridgeHp - 100);
+      expect(CapitalShipV2.hullAft[shipEid]).toBe(CapitalShipV2.hullAftMax[shipEid]);
+    });
+
+    it('should destroy the ship when the hull is gone', () => {
+      const world = createWorld();
+      const { shipEid, turretEids } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Corvette });
+      CapitalShipV2.shieldFront[shipEid] = 0;
+
+      applyCapitalShipDamage(world, shipEid, 1e6, 0, 0, -5);
+
+      expect(hasComponent(world, CapitalShipV2, shipEid)).toBe(false);
+      expect(hasComponent(world, Turret, turretEids[0]!)).toBe(false);
+    });
+
+    it('should take turret fire from enemy capital ships', () => {
+      const world = createWorld();
+      const attacker = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Corvette, x: 500 });
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const arc = CapitalShipV2.shieldFront[shipEid]!;
+
+      const proj = addEntity(world);
+      addComponent(world, TurretProjectile, proj);
+      addComponent(world, Transform, proj);
+      addComponent(world, Velocity, proj);
+      Transform.x[proj] = 0;
+      Transform.y[proj] = 0;
+      Transform.z[proj] = -40;
+      Velocity.vx[proj] = 0;
+      Velocity.vy[proj] = 0;
+      Velocity.vz[proj] = 0;
+      TurretProjectile.life[proj] = 3.0;
+      TurretProjectile.damage[proj] = 40;
+      TurretProjectile.ion[proj] = 0;
+      TurretProjectile.aimEid[proj] = -1;
+      TurretProjectile.parentShipEid[proj] = attacker.shipEid;
+
+      rebuildFighterSpatialHash(world);
+      turretProjectileSystem(world, 0.016);
+
+      expect(CapitalShipV2.shieldFront[shipEid]).toBe(arc - 40);
+      expect(Health.hp[shipEid]).toBe(Health.maxHp[shipEid]);
+    });
+  });
+
+  describe('capitalShipAISystem', () => {
+    it('should leave ships alone with no enemy capital around', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      CapitalShipV2.throttle[shipEid] = 0.5;
+
+      capitalShipAISystem(world, 1);
+
+      expect(CapitalShipV2.engageTarget[shipEid]).toBe(-1);
+      expect(CapitalShipV2.throttle[shipEid]).toBe(0.5);
+      expect(Transform.qw[shipEid]).toBe(1);
+    });
+
+    it('should close on a distant enemy at full throttle', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Cruiser });
+      const enemy = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, x: 5000 });
+
+      capitalShipAISystem(world, 1);
+
+      expect(CapitalShipV2.engageTarget[shipEid]).toBe(enemy.shipEid);
+      expect(CapitalShipV2.throttle[shipEid]).toBe(1);
+      // Turning toward +X (negative yaw), no faster than the turn rate
+      expect(Transform.qy[shipEid]).toBeLessThan(0);
+      expect(Math.abs(2 * Math.asin(Transform.qy[shipEid]!))).toBeCloseTo(CapitalShipV2.turnRate[shipEid]!, 5);
+    });
+
+    it('should swing broadside at its engage range', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Cruiser });
+      const range = CapitalShipV2.engageRange[shipEid]!;
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, x: range });
+
+      for (let i = 0; i < 200; i++) capitalShipAISystem(world, 1);
+
+      // Target due +X: the ship ends up heading along the Z axis
+      const fx = -2 * Transform.qy[shipEid]! * Transform.qw[shipEid]!;
+      expect(Math.abs(fx)).toBeLessThan(0.05);
+      expect(CapitalShipV2.throttle[shipEid]).toBeLessThan(1);
+    });
+
+    it('should heave to when its target is destroyed', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Cruiser });
+      const enemy = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, x: 5000 });
+      capitalShipAISystem(world, 1);
+
+      removeCapitalShipV2(world, enemy.shipEid);
+      capitalShipAISystem(world, 1);
+
+      expect(CapitalShipV2.engageTarget[shipEid]).toBe(-1);
+      expect(CapitalShipV2.throttle[shipEid]).toBe(0);
+    });
+  });
+
+  describe('ion effects', () => {
+    function spawnWithSubsystem(world: ReturnType<typeof createWorld>, type: SubsystemType) {
+      const result = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const sid = result.subsystemEids.find((eid) => Subsystem.subsystemType[eid] === type)!;
+      return { ...result, sid };
+    }
+
+    it('should knock a locked subsystem offline until the lock clears', () => {
+      const world = createWorld();
+      const { shipEid, sid } = spawnWithSubsystem(world, SubsystemType.ShieldGen);
+
+      Health.ionLock[sid] = 3;
+      subsystemEffectsSystem(world, 0.1);
+      expect(isIonOffline(shipEid, SubsystemType.ShieldGen)).toBe(true);
+      expect(isIonOffline(shipEid, SubsystemType.Engines)).toBe(false);
+      expect(Subsystem.disabled[sid]).toBe(0);
+
+      Health.ionLock[sid] = 0;
+      subsystemEffectsSystem(world, 0.1);
+      expect(isIonOffline(shipEid, SubsystemType.ShieldGen)).toBe(false);
+    });
+
+    it('should take every subsystem offline when the hull locks up', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+
+      Health.ionLock[shipEid] = 3;
+      subsystemEffectsSystem(world, 0.1);
+
+      for (const type of [SubsystemType.Bridge, SubsystemType.Engines, SubsystemType.Power, SubsystemType.Hangar]) {
+        expect(isIonOffline(shipEid, type)).toBe(true);
+      }
+      Health.ionLock[shipEid] = 0;
+    });
+
+    it('should hold shield regen while the shield generator is ionized', () => {
+      const world = createWorld();
+      const { shipEid, sid } = spawnWithSubsystem(world, SubsystemType.ShieldGen);
+      CapitalShipV2.shieldFront[shipEid] = 500;
+      CapitalShipV2.shieldLastHit[shipEid] = 5;
+
+      Health.ionLock[sid] = 3;
+      subsystemEffectsSystem(world, 0.1);
+      capitalShipShieldSystem(world, 1.0);
+
+      expect(CapitalShipV2.shieldFront[shipEid]).toBe(500);
+      Health.ionLock[sid] = 0;
+    });
+
+    it('should leave the ship coasting while the engines are ionized', () => {
+      const world = createWorld();
+      const { shipEid, sid } = spawnWithSubsystem(world, SubsystemType.Engines);
+      CapitalShipV2.throttle[shipEid] = 1.0;
+      Velocity.vx[shipEid] = 0;
+      Velocity.vy[shipEid] = 0;
+      Velocity.vz[shipEid] = -5;
+
+      Health.ionLock[sid] = 3;
+      subsystemEffectsSystem(world, 0.1);
+      capitalShipMovementSystem(world, 1.0);
+
+      expect(Velocity.vz[shipEid]).toBeCloseTo(-5, 5);
+      Health.ionLock[sid] = 0;
+    });
+
+    it('should silence the turrets while the reactor is ionized', () => {
+      const world = createWorld();
+      consumeTurretFireEvents();
+      const { turretEids, sid } = spawnWithSubsystem(world, SubsystemType.Power);
+      parentChildTransformSystem(world);
+
+      const hostile = createFighterTarget(world, 0, 0, 0, -100);
+      for (const tid of turretEids) {
+        Turret.targetEid[tid] = hostile;
+        Turret.cooldownRemaining[tid] = 0;
+        Turret.yaw[tid] = Turret.yawTarget[tid] ?? 0;
+        Turret.pitch[tid] = Turret.pitchTarget[tid] ?? 0;
+      }
+
+      Health.ionLock[sid] = 3;
+      subsystemEffectsSystem(world, 0.1);
+      rebuildFighterSpatialHash(world);
+      turretFireSystem(world, 0.016);
+
+      expect(consumeTurretFireEvents()).toHaveLength(0);
+      Health.ionLock[sid] = 0;
+    });
+  });
+
   describe('ShipClass enum', () => {
     it('should have correct values', () => {
       expect(ShipClass.Corvette).toBe(0);
@@ -0,0 +1,350 @@
+/**
+ * Unit tests for Space Collision
+ *
+ * Tests fighters hitting capital hulls, wreckage, debris and each other, and
+ * the obstacle avoidance the dogfight AI steers with.
+ */
+
+import { createWorld, addEntity, addComponent, hasComponent } from 'bitecs';
+import { Vector3 } from '../../../packages/core/src/math';
+import {
+  Transform,
+  Velocity,
+  AngularVelocity,
+  Team,
+  Ship,
+  LaserWeapon,
+  Health,
+  HitRadius,
+  Shield,
+  AIControlled,
+  FighterBrain,
+  Obstacle
+} from '../../../packages/gameplay/src/space/components';
+import { CapitalDestruction, CarrierFighter, ShipClass } from '../../../packages/gameplay/src/space/capital-components';
+import { spawnCapitalShipV2, destroyCapitalShipV2 } from '../../../packages/gameplay/src/space/capital-systems';
+import { AIState, consumeImpactEvents, dogfightAISystem } from '../../../packages/gameplay/src/space/systems';
+import { rebuildSpaceCombatIndex } from '../../../packages/gameplay/src/space/spatial-index';
+import {
+  spaceCollisionSystem,
+  computeObstacleAvoidance,
+  spawnObstacle,
+  consumeCollisionEvents
+} from '../../../packages/gameplay/src/space/collision';
+
+type World = ReturnType<typeof createWorld>;
+
+function createFighter(
+  world: World,
+  pos: [number, number, number],
+  vel: [number, number, number],
+  opts: { hp?: number; shield?: number; radius?: number } = {}
+): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, Ship, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, Shield, eid);
+  addComponent(world, Team, eid);
+
+  Transform.x[eid] = pos[0];
+  Transform.y[eid] = pos[1];
+  Transform.z[eid] = pos[2];
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  Velocity.vx[eid] = vel[0];
+  Velocity.vy[eid] = vel[1];
+  Velocity.vz[eid] = vel[2];
+
+  Health.hp[eid] = opts.hp ?? 100;
+  Health.maxHp[eid] = opts.hp ?? 100;
+  HitRadius.r[eid] = opts.radius ?? 10;
+  Shield.sp[eid] = opts.shield ?? 0;
+  Shield.maxSp[eid] = opts.shield ?? 0;
+  Shield.lastHit[eid] = 999;
+  Team.id[eid] = 0;
+  return eid;
+}
+
+function collide(world: World) {
+  consumeCollisionEvents();
+  rebuildSpaceCombatIndex(world);
+  spaceCollisionSystem(world);
+  return consumeCollisionEvents();
+}
+
+describe('spaceCollisionSystem', () => {
+  describe('capital hulls', () => {
+    // Destroyer: length 128, hull box half-extents 25.6 x 8.96 x 64
+    it('should push a fighter out of the hull box and hurt it', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, 15, 0], [0, -200, 0], { hp: 1000 });
+
+      const events = collide(world);
+
+      expect(Transform.y[fid]).toBeCloseTo(8.96 + 10, 1);
+      expect(Velocity.vy[fid]).toBeGreaterThan(0);
+      expect(Health.hp[fid]).toBeLessThan(1000);
+      expect(events).toHaveLength(1);
+      expect(events[0]!.scrape).toBe(0);
+    });
+
+    it('should let a fighter fly low over the hull without touching it', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      // Well inside the HitRadius sphere (64) but above the deck
+      const fid = createFighter(world, [0, 22, 20], [0, 0, -250]);
+
+      const events = collide(world);
+
+      expect(events).toHaveLength(0);
+      expect(Transform.y[fid]).toBe(22);
+      expect(Velocity.vz[fid]).toBe(-250);
+    });
+
+    it('should scrape a shallow hit along the hull instead of bouncing', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, 18, 0], [0, -30, -250], { hp: 500 });
+
+      const events = collide(world);
+
+      expect(events[0]!.scrape).toBe(1);
+      expect(Velocity.vy[fid]).toBeCloseTo(0, 3);
+      // Friction takes some of the speed off, but it keeps flying along the deck
+      expect(Velocity.vz[fid]!).toBeLessThan(-200);
+      expect(Velocity.vz[fid]!).toBeGreaterThan(-250);
+      // Shallow closing speed is under the safe speed
+      expect(Health.hp[fid]).toBe(500);
+    });
+
+    it('should follow the hull orientation', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      // Yawed 90 degrees: the hull now runs along X
+      Transform.qy[shipEid] = Math.SQRT1_2;
+      Transform.qw[shipEid] = Math.SQRT1_2;
+
+      const alongHull = createFighter(world, [50, 0, 0], [0, 0, 0]);
+      const offTheSide = createFighter(world, [0, 0, 50], [0, 0, 0]);
+
+      collide(world);
+
+      // Inside the box, so out through the nearest (dorsal) face
+      expect(Transform.y[alongHull]).toBeCloseTo(18.96, 1);
+      expect(Transform.z[offTheSide]).toBe(50);
+    });
+
+    it('should scale damage with impact speed and let shields soak it', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, x: 0 });
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer, x: 1000 });
+      const slow = createFighter(world, [0, 15, 0], [0, -100, 0], { hp: 1000, shield: 100 });
+      const fast = createFighter(world, [1000, 15, 0], [0, -300, 0], { hp: 1000, shield: 100 });
+
+      collide(world);
+
+      // (100 - 40) * 3 = 180 and (300 - 40) * 3 = 780, shields take the first 100
+      expect(Shield.sp[slow]).toBe(0);
+      expect(Health.hp[slow]).toBeCloseTo(920, 3);
+      expect(Health.hp[fast]).toBeCloseTo(320, 3);
+    });
+
+    it('should not hurt a fighter nudging the hull', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, 18, 0], [0, -20, 0], { shield: 10 });
+
+      const events = collide(world);
+
+      expect(events[0]!.damage).toBe(0);
+      expect(Health.hp[fid]).toBe(100);
+      expect(Shield.sp[fid]).toBe(10);
+    });
+
+    it('should destroy a fighter that rams the hull at full speed', () => {
+      const world = createWorld();
+      spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, 0, -70], [0, 0, 250]);
+
+      const events = collide(world);
+
+      expect(hasComponent(world, Ship, fid)).toBe(false);
+      expect(events[0]!.killed).toBe(1);
+    });
+
+    it('should report a ram kill as an impact event from the hull', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, 0, -70], [0, 0, 250]);
+      consumeImpactEvents();
+
+      collide(world);
+
+      const impacts = consumeImpactEvents();
+      expect(impacts).toHaveLength(1);
+      expect(impacts[0]).toMatchObject({ kind: 'ram', victim: fid, shooter: shipEid, team: 1, killed: 1 });
+    });
+
+    it('should keep colliding with a hull that is coming apart', () => {
+      const world = createWorld();
+      const { shipEid } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      destroyCapitalShipV2(world, shipEid);
+      expect(hasComponent(world, CapitalDestruction, shipEid)).toBe(true);
+      expect(hasComponent(world, Obstacle, shipEid)).toBe(true);
+
+      const fid = createFighter(world, [0, 15, 0], [0, -100, 0], { hp: 1000 });
+      collide(world);
+
+      expect(Transform.y[fid]).toBeCloseTo(18.96, 1);
+    });
+
+    it('should let a returning carrier fighter into its own carrier', () => {
+      const world = createWorld();
+      const { subsystemEids } = spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+      const fid = createFighter(world, [0, -12, -10], [0, 30, 0]);
+      addComponent(world, CarrierFighter, fid);
+      CarrierFighter.hangarEid[fid] = subsystemEids[subsystemEids.length - 1]!;
+      CarrierFighter.returning[fid] = 1;
+
+      expect(collide(world)).toHaveLength(0);
+
+      CarrierFighter.returning[fid] = 0;
+      expect(collide(world)).toHaveLength(1);
+    });
+  });
+
+  describe('obstacles and fighters', () => {
+    it('should bounce a fighter off debris', () => {
+      const world = createWorld();
+      spawnObstacle(world, 0, 0, 0, 30);
+      const fid = createFighter(world, [0, 0, 35], [0, 0, -150], { hp: 1000 });
+
+      const events = collide(world);
+
+      expect(Transform.z[fid]).toBeCloseTo(40, 3);
+      // Bounces back with 40% of its closing speed
+      expect(Velocity.vz[fid]).toBeCloseTo(60, 3);
+      expect(events[0]!.impactSpeed).toBeCloseTo(150, 3);
+    });
+
+    it('should ram two fighters apart and damage both', () => {
+      const world = createWorld();
+      const a = createFighter(world, [0, 0, 0], [0, 0, -100], { hp: 1000 });
+      const b = createFighter(world, [0, 0, -16], [0, 0, 100], { hp: 1000 });
+
+      const events = collide(world);
+
+      expect(events).toHaveLength(2);
+      expect(Transform.z[a]).toBeCloseTo(2, 3);
+      expect(Transform.z[b]).toBeCloseTo(-18, 3);
+      expect(Velocity.vz[a]!).toBeGreaterThan(0);
+      expect(Velocity.vz[b]!).toBeLessThan(0);
+      expect(Health.hp[a]).toBe(Health.hp[b]);
+      expect(Health.hp[a]).toBeCloseTo(1000 - (200 - 40) * 3, 3);
+    });
+
+    it('should credit each rammed fighter to the other', () => {
+      const world = createWorld();
+      const a = createFighter(world, [0, 0, 0], [0, 0, -100], { hp: 100 });
+      const b = createFighter(world, [0, 0, -16], [0, 0, 100], { hp: 100 });
+      Team.id[b] = 1;
+      consumeImpactEvents();
+
+      collide(world);
+
+      const impacts = consumeImpactEvents();
+      expect(impacts).toHaveLength(2);
+      expect(impacts).toEqual(expect.arrayContaining([
+        expect.objectContaining({ victim: a, shooter: b, team: 1, killed: 1 }),
+        expect.objectContaining({ victim: b, shooter: a, team: 0, killed: 1 })
+      ]));
+    });
+
+    it('should not report a nudge that does no damage', () => {
+      const world = createWorld();
+      spawnObstacle(world, 0, 0, 0, 30);
+      createFighter(world, [0, 0, 35], [0, 0, -20]);
+      consumeImpactEvents();
+
+      expect(collide(world)).toHaveLength(1);
+      expect(consumeImpactEvents()).toHaveLength(0);
+    });
+
+    it('should leave fighters that are already separating alone', () => {
+      const world = createWorld();
+      const a = createFighter(world, [0, 0, 0], [0, 0, 50]);
+      createFighter(world, [0, 0, -16], [0, 0, -50]);
+
+      const events = collide(world);
+
+      expect(events).toHaveLength(0);
+      expect(Velocity.vz[a]).toBe(50);
+      expect(Health.hp[a]).toBe(100);
+    });
+  });
+});
+
+describe('obstacle avoidance', () => {
+  function createAIFighter(world: World, z: number): number {
+    const eid = createFighter(world, [0, 0, z], [0, 0, -200], { hp: 100 });
+    addComponent(world, AIControlled, eid);
+    addComponent(world, FighterBrain, eid);
+    addComponent(world, LaserWeapon, eid);
+    addComponent(world, AngularVelocity, eid);
+    Team.id[eid] = 1;
+    Ship.turnRate[eid] = 1.2;
+    Ship.throttle[eid] = 0.8;
+    LaserWeapon.projectileSpeed[eid] = 900;
+    FighterBrain.state[eid] = AIState.Pursue;
+    FighterBrain.aggression[eid] = 0.6;
+    FighterBrain.evadeBias[eid] = 0.5;
+    FighterBrain.targetEid[eid] = -1;
+    return eid;
+  }
+
+  it('should report a clear path when nothing is ahead', () => {
+    const world = createWorld();
+    const eid = createAIFighter(world, 0);
+    spawnObstacle(world, 0, 0, 300, 30); // behind it
+    rebuildSpaceCombatIndex(world);
+
+    const out = new Vector3();
+    expect(computeObstacleAvoidance(world, eid, out)).toBe(0);
+  });
+
+  it('should steer away from an obstacle in the flight path', () => {
+    const world = createWorld();
+    const eid = createAIFighter(world, 0);
+    spawnObstacle(world, 10, 0, -150, 30);
+    rebuildSpaceCombatIndex(world);
+
+    const out = new Vector3();
+    const urgency = computeObstacleAvoidance(world, eid, out);
+
+    expect(urgency).toBeGreaterThan(0);
+    expect(out.x).toBeLessThan(0);
+  });
+
+  it('should steer a dogfighting AI over a capital hull in its way', () => {
+    const world = createWorld();
+    const eid = createAIFighter(world, 150);
+    Transform.y[eid] = 5;
+    // Hostile straight ahead, on the far side of a Destroyer
+    const target = createFighter(world, [0, 5, -600], [0, 0, 0]);
+    Team.id[target] = 0;
+    spawnCapitalShipV2(world, { team: 1, shipClass: ShipClass.Destroyer });
+    FighterBrain.targetEid[eid] = target;
+    rebuildSpaceCombatIndex(world);
+
+    dogfightAISystem(world, 0.1);
+
+    // Pitches up to clear the deck instead of flying straight into it
+    expect(AngularVelocity.wx[eid]!).toBeGreaterThan(0.1);
+  });
+});
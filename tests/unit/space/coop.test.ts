@@ -0,0 +1,214 @@
+/**
+ * Unit tests for co-op pilots
+ *
+ * Input routing by slot, crew input merging, wingmate form-up, and two
+ * in-process lockstep clients flying the same pair of ships in separate
+ * worlds.
+ */
+
+import { createWorld, removeEntity, type IWorld } from 'bitecs';
+import { connectInProcess, createLockstepSession, createRelayHub, type LockstepSession } from '@xwingz/core';
+import { Transform, Velocity, Ship } from '../../../packages/gameplay/src/space/components';
+import { spawnPlayerShip, spaceflightSystem, targetingSystem } from '../../../packages/gameplay/src/space/systems';
+import {
+  NEUTRAL_SPACE_INPUT,
+  assignCoopPilot,
+  formUpCoopWingmate,
+  getPilotShip,
+  hashPilotShips,
+  inputFor,
+  mergeCrewInput,
+  setPilotInputs
+} from '../../../packages/gameplay/src/space/coop';
+import type { SpaceInputState } from '../../../packages/gameplay/src/space/input';
+
+const DT = 1 / 60;
+
+function input(overrides: Partial<SpaceInputState>): SpaceInputState {
+  return { ...NEUTRAL_SPACE_INPUT, ...overrides };
+}
+
+function spawnPilots(world: IWorld, slots: number): number[] {
+  const lead = spawnPlayerShip(world);
+  Transform.x[lead] = 100;
+  Transform.z[lead] = -50;
+  Ship.throttle[lead] = 0.6;
+  Velocity.vz[lead] = -40;
+  assignCoopPilot(world, lead, 0);
+
+  const eids = [lead];
+  for (let slot = 1; slot < slots; slot++) {
+    const eid = spawnPlayerShip(world);
+    formUpCoopWingmate(world, eid, lead, slot);
+    eids.push(eid);
+  }
+  return eids;
+}
+
+afterEach(() => {
+  setPilotInputs(null);
+});
+
+describe('inputFor', () => {
+  it('should route each pilot ship to its slot\'s input', () => {
+    const world = createWorld();
+    const [lead, wing] = spawnPilots(world, 2);
+    const fallback = input({});
+    const inputs = [input({ pitch: 1 }), input({ roll: -1 })];
+
+    setPilotInputs(inputs);
+    expect(inputFor(world, lead!, fallback)).toBe(inputs[0]);
+    expect(inputFor(world, wing!, fallback)).toBe(inputs[1]);
+  });
+
+  it('should fall back outside co-op and for ships without a slot', () => {
+    const world = createWorld();
+    const [lead] = spawnPilots(world, 1);
+    const solo = spawnPlayerShip(world);
+    const fallback = input({ yaw: 0.5 });
+
+    expect(inputFor(world, lead!, fallback)).toBe(fallback);
+    setPilotInputs([input({})]);
+    expect(inputFor(world, solo, fallback)).toBe(fallback);
+  });
+});
+
+describe('formUpCoopWingmate', () => {
+  it('should put the wingmate off the lead\'s right wing, matching its flight', () => {
+    const world = createWorld();
+    const [lead, wing2, wing3] = spawnPilots(world, 3);
+
+    expect(Transform.x[wing2!]).toBeCloseTo(Transform.x[lead!]! + 24);
+    expect(Transform.x[wing3!]).toBeCloseTo(Transform.x[lead!]! + 48);
+    expect(Transform.z[wing2!]).toBeCloseTo(Transform.z[lead!]!);
+    expect(Velocity.vz[wing2!]).toBeCloseTo(-40);
+    expect(Ship.throttle[wing2!]).toBeCloseTo(0.6);
+    expect(getPilotShip(world, 2)).toBe(wing3);
+  });
+
+  it('should follow the lead\'s heading', () => {
+    const world = createWorld();
+    const lead = spawnPlayerShip(world);
+    // Yawed 90 degrees left: the right wing points down -Z
+    Transform.qy[lead] = Math.SQRT1_2;
+    Transform.qw[lead] = Math.SQRT1_2;
+    const wing = spawnPlayerShip(world);
+    formUpCoopWingmate(world, wing, lead, 1, 10);
+
+    expect(Transform.x[wing]).toBeCloseTo(0);
+    expect(Transform.z[wing]).toBeCloseTo(-10);
+    expect(Transform.qy[wing]).toBeCloseTo(Math.SQRT1_2);
+  });
+});
+
+describe('getPilotShip', () => {
+  it('should return null once the ship is gone', () => {
+    const world = createWorld();
+    const [, wing] = spawnPilots(world, 2);
+    removeEntity(world, wing!);
+    expect(getPilotShip(world, 1)).toBeNull();
+    expect(getPilotShip(world, 0)).not.toBeNull();
+  });
+});
+
+describe('mergeCrewInput', () => {
+  it('should let the pilot fly and the gunner work the harpoon', () => {
+    const pilot = input({ pitch: 0.4, firePrimary: true, fireSecondary: false, toggleMap: true });
+    const gunner = input({ pitch: -1, fireSecondary: true, cycleTarget: true, hyperspace: true });
+    const merged = mergeCrewInput(pilot, gunner);
+
+    expect(merged.pitch).toBe(0.4);
+    expect(merged.firePrimary).toBe(true);
+    expect(merged.fireSecondary).toBe(true);
+    expect(merged.cycleTarget).toBe(true);
+    expect(merged.toggleMap).toBe(false);
+    expect(merged.hyperspace).toBe(false);
+  });
+});
+
+describe('hashPilotShips', () => {
+  it('should match across worlds and change when a pilot moves', () => {
+    const w1 = createWorld();
+    const w2 = createWorld();
+    spawnPilots(w1, 2);
+    const [, wing] = spawnPilots(w2, 2);
+
+    expect(hashPilotShips(w1, 2)).toBe(hashPilotShips(w2, 2));
+    Transform.y[wing!] = 5;
+    expect(hashPilotShips(w1, 2)).not.toBe(hashPilotShips(w2, 2));
+  });
+});
+
+describe('lockstep co-op flight', () => {
+  interface Client {
+    world: IWorld;
+    session: LockstepSession<SpaceInputState>;
+  }
+
+  function stepClient(client: Client, local: SpaceInputState): boolean {
+    const inputs = client.session.step(local);
+    if (!inputs) return false;
+    setPilotInputs(inputs);
+    const own = inputs[client.session.slot]!;
+    targetingSystem(client.world, own);
+    spaceflightSystem(client.world, own, DT);
+    setPilotInputs(null);
+    return true;
+  }
+
+  it('should keep two clients\' worlds identical while each flies their own ship', () => {
+    const hub = createRelayHub();
+    const clients: Client[] = [0, 1].map(() => ({
+      world: createWorld(),
+      session: createLockstepSession<SpaceInputState>({ transport: connectInProcess(hub), neutral: NEUTRAL_SPACE_INPUT })
+    }));
+    clients[0]!.session.join({ room: 'red', name: 'Red Two', seed: 7n });
+    clients[1]!.session.join({ room: 'red', name: 'Red Three' });
+    for (const client of clients) spawnPilots(client.world, 2);
+
+    // Red Two climbs, Red Three rolls away and boosts
+    const script = (slot: number, tick: number): SpaceInputState =>
+      slot === 0
+        ? input({ pitch: tick < 60 ? 0.8 : 0, throttleDelta: 0.2 })
+        : input({ roll: tick % 40 < 20 ? 1 : -0.5, yaw: -0.3, boost: tick > 30 });
+
+    for (let tick = 0; tick < 180; tick++) {
+      for (const client of clients) {
+        expect(stepClient(client, script(client.session.slot, tick))).toBe(true);
+        if (client.session.tick % 30 === 0) {
+          client.session.reportHash(hashPilotShips(client.world, 2));
+        }
+      }
+      expect(hashPilotShips(clients[0]!.world, 2)).toBe(hashPilotShips(clients[1]!.world, 2));
+    }
+
+    for (const client of clients) expect(client.session.desyncTick).toBeNull();
+
+    // The ships really were flown apart by their own pilots
+    const world = clients[1]!.world;
+    const lead = getPilotShip(world, 0)!;
+    const wing = getPilotShip(world, 1)!;
+    expect(Transform.y[lead]!).toBeGreaterThan(Transform.y[wing]! + 5);
+  });
+
+  it('should report a desync when one world drifts', () => {
+    const hub = createRelayHub();
+    const clients: Client[] = [0, 1].map(() => ({
+      world: createWorld(),
+      session: createLockstepSession<SpaceInputState>({ transport: connectInProcess(hub), neutral: NEUTRAL_SPACE_INPUT })
+    }));
+    clients[0]!.session.join({ room: 'gold', name: 'Gold Leader' });
+    clients[1]!.session.join({ room: 'gold', name: 'Gold Two' });
+    for (const client of clients) spawnPilots(client.world, 2);
+
+    for (let tick = 0; tick < 10; tick++) {
+      if (tick === 5) Transform.x[getPilotShip(clients[1]!.world, 0)!] += 1;
+      for (const client of clients) {
+        stepClient(client, NEUTRAL_SPACE_INPUT);
+        client.session.reportHash(hashPilotShips(client.world, 2));
+      }
+    }
+
+    expect(clients[0]!.session.desyncTick).toBe(5);
+  });
+});
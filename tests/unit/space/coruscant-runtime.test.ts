@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the Battle of Coruscant runtime
+ *
+ * Tests mission initialization, phase onEnter actions (buzz droids, boarding craft)
+ * and the phase victory/failure rules that depend on them.
+ */
+
+import { createWorld, addEntity, addComponent, hasComponent, removeEntity } from 'bitecs';
+import { Transform, Health, Team } from '../../../packages/gameplay/src/space/components';
+import {
+  BuzzDroidVictim,
+  CloneWingman,
+  DroidBrain,
+  consumeBoardingCraftEvents,
+  consumeBuzzDroidEvents,
+  consumeWeakPointEvents
+} from '../../../packages/gameplay/src/space/coruscant-systems';
+import {
+  createCoruscantRuntime,
+  initializeCoruscantMission,
+  updateCoruscantMission,
+  getCoruscantHUDState,
+  type CoruscantRuntimeState
+} from '../../../packages/gameplay/src/space/coruscant-runtime';
+
+type World = ReturnType<typeof createWorld>;
+
+function createPlayer(world: World): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, Team, eid);
+  Transform.x[eid] = 0;
+  Transform.y[eid] = 0;
+  Transform.z[eid] = 300;
+  Transform.qw[eid] = 1;
+  Health.hp[eid] = 5000;
+  Health.maxHp[eid] = 5000;
+  Team.id[eid] = 0;
+  return eid;
+}
+
+function phaseIndex(state: CoruscantRuntimeState, id: string): number {
+  return state.mission.phases.findIndex(p => p.id === id);
+}
+
+/** Jump to the phase before `id` and let its survive/complete rule roll over into `id`. */
+function enterPhase(world: World, state: CoruscantRuntimeState, playerEid: number, id: string): void {
+  const target = phaseIndex(state, id);
+  for (const eid of state.enemyFighterEids) removeEntity(world, eid);
+  state.enemyFighterEids = [];
+  state.currentPhaseIndex = target - 1;
+  state.pendingPhaseTransition = true;
+  state.transitionDelay = 0;
+  // Satisfy whatever the previous phase needs so checkPhaseComplete stays true
+  const prev = state.mission.phases[target - 1]!;
+  for (let i = 0; i < prev.waves.length; i++) state.wavesTriggered.add(i);
+  state.phaseTimer = 1000;
+  state.objectivesCompleted.add('remove_buzzdroids');
+  state.objectivesCompleted.add('boarding_craft_docked');
+  updateCoruscantMission(world, state, 0.01, playerEid, false);
+  state.objectivesCompleted.delete('remove_buzzdroids');
+  state.objectivesCompleted.delete('boarding_craft_docked');
+}
+
+describe('Coruscant runtime', () => {
+  let world: World;
+  let playerEid: number;
+  let state: CoruscantRuntimeState;
+
+  beforeEach(() => {
+    consumeBuzzDroidEvents();
+    consumeBoardingCraftEvents();
+    consumeWeakPointEvents();
+    world = createWorld();
+    playerEid = createPlayer(world);
+    state = createCoruscantRuntime(42n, 'normal');
+    initializeCoruscantMission(world, state, playerEid);
+  });
+
+  describe('initialization', () => {
+    it('should track every capital ship even when classes repeat', () => {
+      expect(state.capitalShipEids.size).toBe(state.mission.capitalShipPositions.length);
+      expect(state.capitalShipEids.has('providence_destroyer')).toBe(true);
+      expect(state.capitalShipEids.has('providence_destroyer_2')).toBe(true);
+    });
+
+    it('should spawn clone wingmen instead of droid-brained allies', () => {
+      expect(state.allyFighterEids).toHaveLength(state.mission.wingmen.length);
+      for (const eid of state.allyFighterEids) {
+        expect(hasComponent(world, CloneWingman, eid)).toBe(true);
+        expect(hasComponent(world, DroidBrain, eid)).toBe(false);
+        expect(Team.id[eid]).toBe(0);
+      }
+      expect([...state.wingmanCallsigns.values()]).toContain('Obi-Wan');
+    });
+
+    it('should scale enemy waves by difficulty', () => {
+      const easy = createCoruscantRuntime(42n, 'easy');
+      const legendary = createCoruscantRuntime(42n, 'legendary');
+      const count = (s: CoruscantRuntimeState) => s.mission.phases[0]!.waves.reduce((n, w) => n + w.count, 0);
+      expect(count(legendary)).toBeGreaterThan(count(easy));
+    });
+
+    it('should report the current phase id on the HUD', () => {
+      expect(getCoruscantHUDState(world, state).phaseId).toBe('capital_assault');
+    });
+  });
+
+  describe('buzz droid emergency', () => {
+    beforeEach(() => {
+      enterPhase(world, state, playerEid, 'buzzdroid_emergency');
+    });
+
+    it('should attach buzz droids to the player and Obi-Wan on phase enter', () => {
+      const obiwan = state.allyFighterEids.find(eid => state.wingmanCallsigns.get(eid) === 'Obi-Wan')!;
+      expect(getCoruscantHUDState(world, state).phaseId).toBe('buzzdroid_emergency');
+      expect(hasComponent(world, BuzzDroidVictim, playerEid)).toBe(true);
+      expect(BuzzDroidVictim.swarmEid[playerEid]).toBeGreaterThanOrEqual(0);
+      expect(BuzzDroidVictim.swarmEid[obiwan]).toBeGreaterThanOrEqual(0);
+      expect(state.buzzDroidAttached).toBe(true);
+    });
+
+    it('should complete the phase once the player rolls the droids off', () => {
+      const obiwan = state.allyFighterEids.find(eid => state.wingmanCallsigns.get(eid) === 'Obi-Wan')!;
+      Transform.x[obiwan] = 5000;
+
+      for (let i = 0; i < 200 && !state.objectivesCompleted.has('remove_buzzdroids'); i++) {
+        updateCoruscantMission(world, state, 0.1, playerEid, true);
+      }
+
+      expect(state.objectivesCompleted.has('remove_buzzdroids')).toBe(true);
+      expect(state.buzzDroidAttached).toBe(false);
+      // The player's roll never shakes a wingman's swarm
+      expect(BuzzDroidVictim.swarmEid[obiwan]).toBeGreaterThanOrEqual(0);
+
+      for (let i = 0; i < 40; i++) {
+        updateCoruscantMission(world, state, 0.1, playerEid, false);
+      }
+      expect(getCoruscantHUDState(world, state).phaseId).toBe('invisible_hand_assault');
+    });
+
+    it('should clear a wingman swarm when the player flies in to assist', () => {
+      const obiwan = state.allyFighterEids.find(eid => state.wingmanCallsigns.get(eid) === 'Obi-Wan')!;
+      Transform.x[obiwan] = (Transform.x[playerEid] ?? 0) + 50;
+      Transform.y[obiwan] = Transform.y[playerEid] ?? 0;
+      Transform.z[obiwan] = Transform.z[playerEid] ?? 0;
+
+      updateCoruscantMission(world, state, 0.016, playerEid, false);
+
+      expect(hasComponent(world, BuzzDroidVictim, obiwan)).toBe(false);
+      expect(state.objectivesCompleted.has('help_obiwan')).toBe(true);
+    });
+  });
+
+  describe('invisible hand assault', () => {
+    beforeEach(() => {
+      enterPhase(world, state, playerEid, 'invisible_hand_assault');
+    });
+
+    it('should launch a boarding craft at the Invisible Hand', () => {
+      expect(state.boardingCraftEid).not.toBeNull();
+      expect(getCoruscantHUDState(world, state).boardingCraftProgress).toBe(0);
+    });
+
+    it('should not finish the phase until the boarding craft docks', () => {
+      for (const eid of state.enemyFighterEids) removeEntity(world, eid);
+      state.enemyFighterEids = [];
+      const phase = state.mission.phases[state.currentPhaseIndex]!;
+      for (let i = 0; i < phase.waves.length; i++) state.wavesTriggered.add(i);
+      state.phaseTimer = 100;
+
+      const result = updateCoruscantMission(world, state, 0.016, playerEid, false);
+      expect(result.missionComplete).toBe(false);
+      expect(state.pendingPhaseTransition).toBe(false);
+
+      state.objectivesCompleted.add('boarding_craft_docked');
+      updateCoruscantMission(world, state, 0.016, playerEid, false);
+      expect(state.pendingPhaseTransition).toBe(true);
+    });
+
+    it('should fail the mission when the boarding craft is destroyed', () => {
+      removeEntity(world, state.boardingCraftEid!);
+
+      const result = updateCoruscantMission(world, state, 0.016, playerEid, false);
+
+      expect(result.missionComplete).toBe(true);
+      expect(result.missionSuccess).toBe(false);
+      expect(state.objectivesFailed.has('boarding_craft_destroyed')).toBe(true);
+    });
+  });
+
+  describe('failure conditions', () => {
+    it('should fail Break the Blockade when the Resolute drops below its hull threshold', () => {
+      const resolute = state.capitalShipEids.get('Resolute')!;
+      Health.hp[resolute.shipEid] = (Health.maxHp[resolute.shipEid] ?? 0) * 0.2;
+
+      const result = updateCoruscantMission(world, state, 0.016, playerEid, false);
+
+      expect(result.missionComplete).toBe(true);
+      expect(result.missionSuccess).toBe(false);
+    });
+  });
+});
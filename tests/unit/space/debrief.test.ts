@@ -0,0 +1,340 @@
+/**
+ * Unit tests for the mission debrief and pilot record
+ *
+ * Covers gunnery and damage sampling, scoring, medal ratings, awards, and
+ * folding debriefs into a pilot record that survives sanitizing.
+ */
+
+import { createWorld, addEntity, addComponent } from 'bitecs';
+import { Health, Shield, ShotCounter } from '../../../packages/gameplay/src/space/components';
+import type { ImpactEvent, ImpactKind } from '../../../packages/gameplay/src/space/systems';
+import {
+  MissionStats,
+  buildDebrief,
+  type MissionResult,
+  type MissionStatsData
+} from '../../../packages/gameplay/src/space/debrief';
+import {
+  MAX_MISSION_HISTORY,
+  createDefaultPilotRecord,
+  recordMission,
+  sanitizePilotRecord
+} from '../../../packages/gameplay/src/space/pilot-record';
+import {
+  ObjectiveStatus,
+  type KillTrackingData,
+  type ObjectiveDefinition,
+  type ObjectiveState
+} from '../../../packages/gameplay/src/space/objective-types';
+
+function spawnShip(world: ReturnType<typeof createWorld>, hp = 100, sp = 50): number {
+  const eid = addEntity(world);
+  addComponent(world, Health, eid);
+  addComponent(world, Shield, eid);
+  addComponent(world, ShotCounter, eid);
+  Health.hp[eid] = hp;
+  Health.maxHp[eid] = hp;
+  Shield.sp[eid] = sp;
+  Shield.maxSp[eid] = sp;
+  ShotCounter.fired[eid] = 0;
+  return eid;
+}
+
+function impact(shooter: number, killed: 0 | 1 = 0, kind: ImpactKind = 'projectile'): ImpactEvent {
+  return { kind, x: 0, y: 0, z: 0, team: 0, killed, shooter, victim: 99 };
+}
+
+function kills(byType: Record<string, number>, wingmanByType: Record<string, number> = {}): KillTrackingData {
+  const total = Object.values(byType).reduce((a, b) => a + b, 0);
+  const wingmanTotal = Object.values(wingmanByType).reduce((a, b) => a + b, 0);
+  return {
+    byType: new Map(Object.entries(byType)),
+    byWave: new Map(),
+    total,
+    wingmanByType: new Map(Object.entries(wingmanByType)),
+    wingmanByWave: new Map(),
+    wingmanTotal,
+    streak: 0,
+    streakValid: true
+  };
+}
+
+function objective(id: string, status: ObjectiveStatus, completedTime: number | null, isOptional = false): ObjectiveState {
+  return {
+    definition: { id, name: id.toUpperCase(), isOptional } as ObjectiveDefinition,
+    status,
+    progress: 0,
+    startTime: 0,
+    completedTime,
+    metadata: {}
+  };
+}
+
+function result(overrides: Partial<MissionResult> = {}): MissionResult {
+  return {
+    scenario: 'yavin_defense',
+    title: 'Defense of Yavin 4',
+    outcome: 'victory',
+    missionTime: 300,
+    kills: kills({}),
+    objectives: [],
+    credits: 500,
+    ...overrides
+  };
+}
+
+function stats(overrides: Partial<MissionStatsData> = {}): MissionStatsData {
+  return { shotsFired: 0, hits: 0, damageTaken: 0, durability: 150, ...overrides };
+}
+
+describe('MissionStats', () => {
+  it('counts shots and damage as deltas between samples', () => {
+    const world = createWorld();
+    const eid = spawnShip(world);
+    const missionStats = new MissionStats();
+
+    missionStats.sample(eid);
+    ShotCounter.fired[eid] = 4;
+    Shield.sp[eid] = 30;
+    missionStats.sample(eid);
+    ShotCounter.fired[eid] = 6;
+    Shield.sp[eid] = 0;
+    Health.hp[eid] = 90;
+    missionStats.sample(eid);
+
+    expect(missionStats.getData()).toEqual({ shotsFired: 6, hits: 0, damageTaken: 60, durability: 150 });
+  });
+
+  it('ignores shield regen', () => {
+    const world = createWorld();
+    const eid = spawnShip(world);
+    const missionStats = new MissionStats();
+
+    missionStats.sample(eid);
+    Shield.sp[eid] = 20;
+    missionStats.sample(eid);
+    Shield.sp[eid] = 40;
+    missionStats.sample(eid);
+
+    expect(missionStats.getData().damageTaken).toBe(30);
+  });
+
+  it('starts fresh baselines on a respawned ship', () => {
+    const world = createWorld();
+    const first = spawnShip(world);
+    const missionStats = new MissionStats();
+
+    missionStats.sample(first);
+    ShotCounter.fired[first] = 10;
+    Health.hp[first] = 0;
+    missionStats.sample(first);
+
+    const second = spawnShip(world);
+    ShotCounter.fired[second] = 3;
+    missionStats.sample(second);
+    ShotCounter.fired[second] = 5;
+    missionStats.sample(second);
+
+    const data = missionStats.getData();
+    expect(data.shotsFired).toBe(12);
+    expect(data.damageTaken).toBe(100);
+  });
+
+  it('counts only impacts fired by the player', () => {
+    const missionStats = new MissionStats();
+    missionStats.recordImpacts([impact(7), impact(7, 1), impact(8), impact(-1)], 7);
+    expect(missionStats.getData().hits).toBe(2);
+  });
+
+  it('does not count capital blasts as hits', () => {
+    const missionStats = new MissionStats();
+
+    missionStats.recordImpacts([impact(7, 1, 'blast'), impact(7, 1, 'blast'), impact(7, 0, 'blast')], 7);
+
+    expect(missionStats.getData().hits).toBe(0);
+  });
+
+  it('does not count rams as hits', () => {
+    const missionStats = new MissionStats();
+    missionStats.recordImpacts([impact(7)], 7);
+
+    missionStats.recordImpacts([impact(7, 0, 'ram'), impact(7, 1, 'ram')], 7);
+
+    expect(missionStats.getData().hits).toBe(1);
+  });
+
+  it('resets everything', () => {
+    const world = createWorld();
+    const eid = spawnShip(world);
+    const missionStats = new MissionStats();
+    missionStats.sample(eid);
+    ShotCounter.fired[eid] = 5;
+    missionStats.sample(eid);
+    missionStats.recordImpacts([impact(eid)], eid);
+
+    missionStats.reset();
+
+    expect(missionStats.getData()).toEqual({ shotsFired: 0, hits: 0, damageTaken: 0, durability: 0 });
+  });
+});
+
+describe('buildDebrief', () => {
+  it('splits player kills by type from wingman kills', () => {
+    const debrief = buildDebrief(
+      result({ kills: kills({ tie_ln: 5, tie_interceptor: 1 }, { tie_ln: 2, tie_interceptor: 1 }) }),
+      stats()
+    );
+    expect(debrief.kills).toBe(3);
+    expect(debrief.killsByType).toEqual({ tie_ln: 3 });
+    expect(debrief.wingmanKills).toBe(3);
+  });
+
+  it('reports objective outcomes with their times', () => {
+    const debrief = buildDebrief(
+      result({
+        objectives: [
+          objective('protect', ObjectiveStatus.COMPLETED, 120),
+          objective('bonus', ObjectiveStatus.OPTIONAL_FAILED, 200, true),
+          objective('escort', ObjectiveStatus.ACTIVE, null)
+        ]
+      }),
+      stats()
+    );
+    expect(debrief.objectives).toEqual([
+      { id: 'protect', name: 'PROTECT', outcome: 'completed', time: 120, optional: false },
+      { id: 'bonus', name: 'BONUS', outcome: 'failed', time: 200, optional: true },
+      { id: 'escort', name: 'ESCORT', outcome: 'incomplete', time: null, optional: false }
+    ]);
+  });
+
+  it('computes accuracy and damage fraction', () => {
+    const debrief = buildDebrief(result(), stats({ shotsFired: 40, hits: 10, damageTaken: 75 }));
+    expect(debrief.accuracy).toBeCloseTo(0.25);
+    expect(debrief.damageFraction).toBeCloseTo(0.5);
+  });
+
+  it('scores kills, objectives, victory, accuracy and damage', () => {
+    const debrief = buildDebrief(
+      result({
+        kills: kills({ tie_ln: 4 }, { tie_ln: 1 }),
+        objectives: [
+          objective('main', ObjectiveStatus.COMPLETED, 100),
+          objective('side', ObjectiveStatus.OPTIONAL_COMPLETED, 150, true)
+        ]
+      }),
+      stats({ shotsFired: 40, hits: 20, damageTaken: 75 })
+    );
+    // 3 kills + 1 wingman + 500 + 250 + victory + 50% accuracy - half damage
+    expect(debrief.score).toBe(300 + 25 + 500 + 250 + 1000 + 500 - 250);
+  });
+
+  it('gives no accuracy bonus on too few shots', () => {
+    const debrief = buildDebrief(result(), stats({ shotsFired: 5, hits: 5 }));
+    expect(debrief.accuracy).toBe(1);
+    expect(debrief.score).toBe(1000);
+  });
+
+  it('never scores below zero', () => {
+    const debrief = buildDebrief(result({ outcome: 'defeat' }), stats({ damageTaken: 1000 }));
+    expect(debrief.score).toBe(0);
+  });
+
+  it('rates gold, silver and bronze victories', () => {
+    const objectives = [objective('main', ObjectiveStatus.COMPLETED, 100)];
+    expect(buildDebrief(result({ objectives }), stats({ shotsFired: 100, hits: 40, damageTaken: 30 })).rating)
+      .toBe('gold');
+    expect(buildDebrief(result({ objectives }), stats({ shotsFired: 100, hits: 25, damageTaken: 30 })).rating)
+      .toBe('silver');
+    expect(buildDebrief(result({ objectives }), stats({ shotsFired: 100, hits: 10, damageTaken: 30 })).rating)
+      .toBe('bronze');
+  });
+
+  it('holds gold back while an objective is left undone', () => {
+    const debrief = buildDebrief(
+      result({ objectives: [objective('main', ObjectiveStatus.FAILED, 100)] }),
+      stats({ shotsFired: 100, hits: 40 })
+    );
+    expect(debrief.rating).toBe('silver');
+  });
+
+  it('gives no medal on defeat', () => {
+    const debrief = buildDebrief(result({ outcome: 'defeat' }), stats({ shotsFired: 100, hits: 90 }));
+    expect(debrief.rating).toBe('none');
+  });
+
+  it('lists the awards earned', () => {
+    const debrief = buildDebrief(
+      result({
+        kills: kills({ tie_ln: 6 }),
+        objectives: [objective('main', ObjectiveStatus.COMPLETED, 100)]
+      }),
+      stats({ shotsFired: 60, hits: 30, damageTaken: 5 })
+    );
+    expect(debrief.awards).toEqual(['ace', 'marksman', 'unscathed', 'perfectionist', 'gold_medal']);
+  });
+});
+
+describe('PilotRecord', () => {
+  it('records missions, best scores and new awards', () => {
+    const record = createDefaultPilotRecord();
+    const first = buildDebrief(result({ kills: kills({ tie_ln: 5 }) }), stats());
+    const update = recordMission(record, first, 1000);
+
+    expect(update.newBest).toBe(true);
+    expect(update.newAwards).toContain('ace');
+    expect(record.missions).toHaveLength(1);
+    expect(record.missions[0]).toMatchObject({ scenario: 'yavin_defense', kills: 5, flownAt: 1000 });
+    expect(record.bestScores.yavin_defense).toBe(first.score);
+
+    const worse = buildDebrief(result({ kills: kills({ tie_ln: 5 }), outcome: 'defeat' }), stats());
+    const second = recordMission(record, worse, 2000);
+    expect(second.newBest).toBe(false);
+    expect(second.newAwards).toEqual([]);
+    expect(record.bestScores.yavin_defense).toBe(first.score);
+    expect(record.awards.filter((a) => a === 'ace')).toHaveLength(1);
+  });
+
+  it('keeps only the most recent missions', () => {
+    const record = createDefaultPilotRecord();
+    const debrief = buildDebrief(result(), stats());
+    for (let i = 0; i < MAX_MISSION_HISTORY + 5; i++) recordMission(record, debrief, i);
+
+    expect(record.missions).toHaveLength(MAX_MISSION_HISTORY);
+    expect(record.missions[0].flownAt).toBe(5);
+  });
+
+  it('round-trips a record through sanitizing', () => {
+    const record = createDefaultPilotRecord();
+    recordMission(record, buildDebrief(result({ kills: kills({ tie_ln: 5 }) }), stats()), 1000);
+    expect(sanitizePilotRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+  });
+
+  it('drops malformed entries when sanitizing', () => {
+    const record = sanitizePilotRecord({
+      missions: [
+        { scenario: 'sandbox:strike', outcome: 'victory', score: -50, rating: 'platinum', accuracy: 3 },
+        { scenario: '', outcome: 'victory' },
+        { scenario: 'yavin_defense', outcome: 'draw' },
+        'not a mission'
+      ],
+      bestScores: { yavin_defense: 1234.7, broken: 'high' },
+      awards: ['ace', 'ace', 'bogus']
+    });
+
+    expect(record.missions).toHaveLength(1);
+    expect(record.missions[0]).toMatchObject({
+      scenario: 'sandbox:strike',
+      title: 'sandbox:strike',
+      score: 0,
+      rating: 'none',
+      accuracy: 1
+    });
+    expect(record.bestScores).toEqual({ yavin_defense: 1234 });
+    expect(record.awards).toEqual(['ace']);
+  });
+
+  it('falls back to an empty record', () => {
+    expect(sanitizePilotRecord(undefined)).toEqual(createDefaultPilotRecord());
+    expect(sanitizePilotRecord('corrupt')).toEqual(createDefaultPilotRecord());
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for procgen mission objectives
+ *
+ * Builds objective sets from generated missions and drives them through the
+ * ObjectiveTracker with hand-built contexts.
+ */
+
+import { getMission, MISSION_TYPES, type MissionDef } from '../../../packages/procgen/src/missions';
+import type { SystemDef } from '../../../packages/procgen/src/galaxy/system';
+import {
+  CONVOY_ARRIVAL_LOCATION,
+  createMissionObjectives
+} from '../../../packages/gameplay/src/space/mission-objectives';
+import { ObjectiveTracker } from '../../../packages/gameplay/src/space/objective-tracker';
+import {
+  createDefaultObjectiveContext,
+  ObjectiveEventType,
+  ObjectiveStatus,
+  TriggerType,
+  type ObjectiveContext
+} from '../../../packages/gameplay/src/space/objective-types';
+
+const SYSTEM = {
+  id: 'sys_test',
+  seed: 123456789n,
+  sectorId: 'sec_0_0_0',
+  sectorCoord: [0, 0, 0],
+  localPos: [0.5, 0.5, 0.5],
+  galaxyPos: [0, 0, 0],
+  archetypeId: 'frontier',
+  tags: [],
+  starClass: 'g',
+  planetCount: 3,
+  poiDensity: 0.5,
+  controllingFaction: 'republic',
+  economy: { wealth: 0.5, industry: 0.5, security: 0.5 },
+  storyAnchorChance: 0.05
+} as SystemDef;
+
+function mission(type: MissionDef['type'], tier = 0): MissionDef {
+  return getMission(SYSTEM, tier, type);
+}
+
+function startTracker(def: MissionDef): ObjectiveTracker {
+  const tracker = new ObjectiveTracker(createMissionObjectives(def));
+  tracker.initialize();
+  return tracker;
+}
+
+function context(setup: (ctx: ObjectiveContext) => void = () => {}): ObjectiveContext {
+  const ctx = createDefaultObjectiveContext();
+  setup(ctx);
+  return ctx;
+}
+
+describe('createMissionObjectives', () => {
+  it('should build a chain for every mission type', () => {
+    for (const type of MISSION_TYPES) {
+      const required = createMissionObjectives(mission(type)).filter((o) => !o.isOptional);
+      expect(required.length).toBeGreaterThan(0);
+      expect(required[0]!.triggerStart).toEqual({ type: TriggerType.MISSION_START });
+      for (let i = 1; i < required.length; i++) {
+        expect(required[i]!.triggerStart).toEqual({
+          type: TriggerType.OBJECTIVE_COMPLETE,
+          objectiveId: required[i - 1]!.id
+        });
+      }
+    }
+  });
+
+  it('should split the contract reward across required objectives', () => {
+    for (const type of MISSION_TYPES) {
+      const def = mission(type, 3);
+      const required = createMissionObjectives(def).filter((o) => !o.isOptional);
+      expect(required.reduce((sum, o) => sum + o.rewardCredits, 0)).toBe(def.rewardCredits);
+    }
+  });
+
+  it('should be deterministic', () => {
+    expect(createMissionObjectives(mission('relic_recovery'))).toEqual(
+      createMissionObjectives(mission('relic_recovery'))
+    );
+  });
+
+  it('should offer a streak bonus only on kill-heavy contracts', () => {
+    const bounty = createMissionObjectives(mission('bounty'));
+    const bonus = bounty.find((o) => o.isOptional);
+    expect(bonus?.triggerComplete.type).toBe(TriggerType.KILL_STREAK);
+    expect(bonus?.rewardCredits).toBe(mission('bounty').bonusCredits);
+
+    expect(createMissionObjectives(mission('patrol')).some((o) => o.isOptional)).toBe(false);
+  });
+});
+
+describe('mission objectives in the tracker', () => {
+  it('should complete a bounty on total kills and report progress', () => {
+    const def = mission('bounty');
+    const tracker = startTracker(def);
+
+    tracker.tick(0.1, context((c) => { c.kills.total = 2; }));
+    expect(tracker.getActiveObjective()?.progress).toBe(2);
+
+    const events = tracker.tick(0.1, context((c) => { c.kills.total = def.goalKills; }));
+    expect(events.some((e) => e.type === ObjectiveEventType.MISSION_COMPLETE)).toBe(true);
+  });
+
+  it('should walk a patrol through its nav points in order', () => {
+    const def = mission('patrol');
+    const tracker = startTracker(def);
+    const buoys = def.sites;
+
+    // Reaching a later buoy first doesn't count
+    tracker.tick(0.1, context((c) => { c.location.locationDistances.set(buoys[1]!.id, 0); }));
+    expect(tracker.getActiveObjective()?.definition.triggerComplete.location).toBe(buoys[0]!.id);
+
+    let events: ReturnType<ObjectiveTracker['tick']> = [];
+    for (const buoy of buoys) {
+      events = tracker.tick(0.1, context((c) => { c.location.locationDistances.set(buoy.id, buoy.radius - 1); }));
+    }
+    expect(events.some((e) => e.type === ObjectiveEventType.MISSION_COMPLETE)).toBe(true);
+  });
+
+  it('should require holding position for salvage', () => {
+    const def = mission('salvage');
+    const tracker = startTracker(def);
+    const wreck = def.sites[0]!;
+
+    tracker.tick(0.1, context((c) => { c.location.locationDistances.set(wreck.id, 10); }));
+    const scan = tracker.getActiveObjective()!;
+    expect(scan.definition.triggerComplete.type).toBe(TriggerType.INTERACT);
+
+    tracker.tick(0.1, context((c) => { c.interactProgress = 2.5; }));
+    expect(scan.progress).toBe(2);
+    expect(scan.status).toBe(ObjectiveStatus.ACTIVE);
+
+    tracker.tick(0.1, context((c) => { c.interactProgress = def.scanSeconds; }));
+    expect(scan.status).toBe(ObjectiveStatus.COMPLETED);
+    expect(tracker.getActiveObjective()?.definition.triggerComplete.type).toBe(TriggerType.KILL_COUNT);
+  });
+
+  it('should fail a defense contract when the station is crippled', () => {
+    const tracker = startTracker(mission('defense'));
+    const events = tracker.tick(0.1, context((c) => { c.entities.baseHealthPercent = 20; }));
+    expect(events.some((e) => e.type === ObjectiveEventType.MISSION_FAILED)).toBe(true);
+    expect(tracker.isMissionFailed()).toBe(true);
+  });
+
+  it('should complete an escort when the convoy arrives and fail it when the convoy dies', () => {
+    const arrived = startTracker(mission('escort'));
+    const done = arrived.tick(0.1, context((c) => { c.location.locationDistances.set(CONVOY_ARRIVAL_LOCATION, 20); }));
+    expect(done.some((e) => e.type === ObjectiveEventType.MISSION_COMPLETE)).toBe(true);
+
+    const lost = startTracker(mission('escort'));
+    lost.tick(0.1, context((c) => { c.escort.escortAlive = false; }));
+    expect(lost.isMissionFailed()).toBe(true);
+  });
+
+  it('should count destroyed relays before sending the player to the jump point', () => {
+    const def = mission('sabotage');
+    const tracker = startTracker(def);
+    const relays = def.sites.filter((s) => s.kind === 'relay').length;
+
+    tracker.tick(0.1, context((c) => { c.entities.subsystemsDestroyed = relays; }));
+    const active = tracker.getActiveObjective();
+    expect(active?.definition.triggerComplete.location).toBe('jump_point');
+  });
+});
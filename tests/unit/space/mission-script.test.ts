@@ -0,0 +1,324 @@
+/**
+ * Unit tests for data-driven mission scripts
+ *
+ * Validates scripts (issue paths and messages), checks the defaults parsing
+ * fills in, and drives MissionScriptRunner with hand-built contexts. The
+ * missions bundled with the web app must all parse.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  MissionScriptRunner,
+  formatMissionScriptIssues,
+  parseMissionScript,
+  validateMissionScript
+} from '../../../packages/gameplay/src/space/mission-script';
+import {
+  createDefaultObjectiveContext,
+  ObjectiveEventType,
+  ObjectiveStatus,
+  TriggerType,
+  type ObjectiveContext
+} from '../../../packages/gameplay/src/space/objective-types';
+
+// Jest runs from the repo root
+const MISSIONS_DIR = join(process.cwd(), 'apps/web/src/missions');
+
+/** A mission script as written in JSON, before parsing fills in defaults */
+type TriggerJson = { type: string; [field: string]: unknown };
+type Vec3Json = { x: number; y: number; z: number };
+type ScriptJson = {
+  version: number;
+  id: string;
+  name?: string;
+  mode: string;
+  planet?: string;
+  locations: Record<string, Vec3Json>;
+  objectives: Array<{
+    id: string;
+    name: string;
+    triggerComplete?: TriggerJson;
+    rewardCredits: number;
+    priority?: string;
+  }>;
+  waves: Array<{
+    id: number;
+    trigger: TriggerJson;
+    spawns: Array<{ unit: string; count: number; at?: Vec3Json; radius?: number }>;
+  }>;
+  dialogue: Array<{ id: string; trigger: TriggerJson; speaker: string; lines: string[] }>;
+  rewards: { credits: number };
+};
+
+function baseScript(): ScriptJson {
+  return {
+    version: 1,
+    id: 'test_mission',
+    name: 'Test Mission',
+    mode: 'flight',
+    planet: 'endor',
+    locations: { beacon: { x: 0, y: 0, z: -500 } },
+    objectives: [
+      {
+        id: 'first',
+        name: 'First Strike',
+        triggerComplete: { type: 'KILL_COUNT', waveId: 1, count: 2 },
+        rewardCredits: 40
+      },
+      {
+        id: 'second',
+        name: 'Reach Beacon',
+        triggerComplete: { type: 'REACH_LOCATION', location: 'beacon', radius: 50 },
+        rewardCredits: 60
+      }
+    ],
+    waves: [
+      { id: 1, trigger: { type: 'MISSION_START' }, spawns: [{ unit: 'tie_ln', count: 2 }] },
+      {
+        id: 2,
+        trigger: { type: 'OBJECTIVE_COMPLETE', objectiveId: 'first' },
+        spawns: [{ unit: 'tie_ln', count: 3, at: { x: 0, y: 0, z: -800 }, radius: 100 }]
+      }
+    ],
+    dialogue: [
+      {
+        id: 'late',
+        trigger: { type: 'DURATION', seconds: 30 },
+        speaker: 'COMMAND',
+        lines: ['Hurry up!']
+      }
+    ],
+    rewards: { credits: 100 }
+  };
+}
+
+function contextAt(time: number, wave1Kills = 0, z = 0): ObjectiveContext {
+  const ctx = createDefaultObjectiveContext();
+  ctx.missionTime = time;
+  ctx.kills.byWave.set(1, wave1Kills);
+  ctx.kills.total = wave1Kills;
+  ctx.location.playerPosition = { x: 0, y: 0, z };
+  return ctx;
+}
+
+describe('validateMissionScript', () => {
+  it('accepts a well-formed script', () => {
+    expect(validateMissionScript(baseScript())).toEqual([]);
+  });
+
+  it('rejects non-objects', () => {
+    const issues = validateMissionScript(42);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.path).toBe('');
+  });
+
+  it('reports missing required fields with their paths', () => {
+    const raw = baseScript();
+    delete raw.name;
+    delete raw.objectives[0]!.triggerComplete;
+    const paths = validateMissionScript(raw).map((i) => i.path);
+    expect(paths).toContain('name');
+    expect(paths).toContain('objectives[0].triggerComplete');
+  });
+
+  it('reports unknown fields, trigger types and enum values', () => {
+    const raw = baseScript();
+    (raw as Record<string, unknown>).objectvies = [];
+    raw.objectives[1]!.triggerComplete = { type: 'REACH_PLACE' };
+    raw.objectives[0]!.priority = 'URGENT';
+    const issues = validateMissionScript(raw);
+    const byPath = new Map(issues.map((i) => [i.path, i.message]));
+    expect(byPath.get('objectvies')).toMatch(/unknown field/);
+    expect(byPath.get('objectives[1].triggerComplete.type')).toMatch(/unknown trigger "REACH_PLACE"/);
+    expect(byPath.get('objectives[0].priority')).toMatch(/URGENT/);
+  });
+
+  it('requires the fields each trigger type needs', () => {
+    const raw = baseScript();
+    raw.objectives[0]!.triggerComplete = { type: 'KILL_COUNT' };
+    const issues = validateMissionScript(raw);
+    expect(issues).toContainEqual({
+      path: 'objectives[0].triggerComplete.count',
+      message: 'is required for KILL_COUNT triggers'
+    });
+  });
+
+  it('checks objective and location references', () => {
+    const raw = baseScript();
+    raw.waves[1]!.trigger.objectiveId = 'missing';
+    raw.objectives[1]!.triggerComplete!.location = 'nowhere';
+    const paths = validateMissionScript(raw).map((i) => i.path);
+    expect(paths).toContain('waves[1].trigger.objectiveId');
+    expect(paths).toContain('objectives[1].triggerComplete.location');
+  });
+
+  it('flags duplicate ids', () => {
+    const raw = baseScript();
+    raw.objectives[1]!.id = 'first';
+    raw.waves[1]!.id = 1;
+    const paths = validateMissionScript(raw).map((i) => i.path);
+    expect(paths).toContain('objectives[1].id');
+    expect(paths).toContain('waves[1].id');
+  });
+
+  it('only allows DURATION outside objectives', () => {
+    const raw = baseScript();
+    raw.objectives[0]!.triggerComplete = {
+      type: 'COMPOUND',
+      conditions: [{ type: 'DURATION', seconds: 10 }]
+    };
+    const paths = validateMissionScript(raw).map((i) => i.path);
+    expect(paths).toEqual(['objectives[0].triggerComplete.conditions[0].type']);
+  });
+
+  it('checks spawn units against the mission mode', () => {
+    const raw = baseScript();
+    raw.waves[0]!.spawns[0]!.unit = 'atst';
+    expect(validateMissionScript(raw).map((i) => i.path)).toEqual(['waves[0].spawns[0].unit']);
+
+    raw.mode = 'ground';
+    raw.waves[1]!.spawns[0]!.unit = 'trooper';
+    expect(validateMissionScript(raw)).toEqual([]);
+  });
+
+  it('lets flight missions spawn capital ships', () => {
+    const raw = baseScript();
+    raw.waves[0]!.spawns[0]!.unit = 'isd';
+    raw.waves[1]!.spawns[0]!.unit = 'mc80';
+    expect(validateMissionScript(raw)).toEqual([]);
+
+    raw.mode = 'ground';
+    raw.waves[0]!.spawns[0]!.unit = 'trooper';
+    expect(validateMissionScript(raw).map((i) => i.path)).toEqual(['waves[1].spawns[0].unit']);
+  });
+
+  it('requires a known planet for flight missions', () => {
+    const raw = baseScript();
+    delete raw.planet;
+    expect(validateMissionScript(raw).map((i) => i.path)).toEqual(['planet']);
+    raw.planet = 'alderaan_ruins';
+    expect(validateMissionScript(raw).map((i) => i.path)).toEqual(['planet']);
+  });
+
+  it('formats one issue per line', () => {
+    const text = formatMissionScriptIssues([
+      { path: 'name', message: 'is required' },
+      { path: '', message: 'bad' }
+    ]);
+    expect(text).toBe('  name: is required\n  (root): bad');
+  });
+});
+
+describe('parseMissionScript', () => {
+  it('parses JSON text and objects alike', () => {
+    const raw = baseScript();
+    expect(parseMissionScript(JSON.stringify(raw))).toEqual(parseMissionScript(raw));
+  });
+
+  it('throws with every issue listed', () => {
+    const raw = baseScript();
+    delete raw.name;
+    raw.version = 2;
+    expect(() => parseMissionScript(raw)).toThrow(/Invalid mission script "test_mission":\n {2}version: .*\n {2}name: is required/);
+  });
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseMissionScript('{ nope')).toThrow(/not valid JSON/);
+  });
+
+  it('fills in objective defaults and chains required objectives', () => {
+    const script = parseMissionScript(baseScript());
+    const [first, second] = script.objectives;
+    expect(first!.hudText).toBe('FIRST STRIKE');
+    expect(first!.hudTextComplete).toBe('FIRST STRIKE - COMPLETE');
+    expect(first!.sequence).toBe(1);
+    expect(first!.triggerStart).toEqual({ type: TriggerType.MISSION_START });
+    expect(second!.triggerStart).toEqual({ type: TriggerType.OBJECTIVE_COMPLETE, objectiveId: 'first' });
+    expect(second!.triggerFail).toBeNull();
+  });
+
+  it('fills in spawn defaults per mode', () => {
+    const flight = parseMissionScript(baseScript());
+    expect(flight.waves[0]!.spawns[0]).toEqual({
+      unit: 'tie_ln',
+      count: 2,
+      team: 'enemy',
+      at: { x: 0, y: 0, z: -900 },
+      radius: 400
+    });
+
+    const raw = baseScript();
+    raw.mode = 'ground';
+    raw.waves[0]!.spawns[0]!.unit = 'trooper';
+    raw.waves[1]!.spawns[0]!.unit = 'trooper';
+    const ground = parseMissionScript(raw);
+    expect(ground.waves[0]!.spawns[0]!.at).toEqual({ x: 0, y: 1, z: -40 });
+    expect(ground.waves[0]!.spawns[0]!.radius).toBe(12);
+  });
+});
+
+describe('MissionScriptRunner', () => {
+  it('fires each wave once, when its trigger holds', () => {
+    const runner = new MissionScriptRunner(parseMissionScript(baseScript()));
+    runner.start();
+
+    let update = runner.tick(0.1, contextAt(0.1));
+    expect(update.waves.map((w) => w.id)).toEqual([1]);
+    expect(runner.tick(0.1, contextAt(0.2)).waves).toEqual([]);
+
+    // Wave 2 follows the first objective within the same tick
+    update = runner.tick(0.1, contextAt(0.3, 2));
+    expect(update.events.some((e) => e.type === ObjectiveEventType.OBJECTIVE_COMPLETED)).toBe(true);
+    expect(update.waves.map((w) => w.id)).toEqual([2]);
+    expect(runner.hasSpawnedWave(2)).toBe(true);
+  });
+
+  it('plays DURATION dialogue once the mission clock passes it', () => {
+    const runner = new MissionScriptRunner(parseMissionScript(baseScript()));
+    runner.start();
+    expect(runner.tick(1, contextAt(29)).dialogue).toEqual([]);
+    expect(runner.tick(1, contextAt(30)).dialogue.map((d) => d.id)).toEqual(['late']);
+    expect(runner.tick(1, contextAt(31)).dialogue).toEqual([]);
+  });
+
+  it('measures script locations from the player position', () => {
+    const runner = new MissionScriptRunner(parseMissionScript(baseScript()));
+    runner.start();
+    runner.tick(0.1, contextAt(0.1, 2));
+    runner.tick(0.1, contextAt(0.2, 2, -200));
+    expect(runner.tracker.getObjective('second')?.status).toBe(ObjectiveStatus.ACTIVE);
+
+    const update = runner.tick(0.1, contextAt(0.3, 2, -480));
+    expect(update.outcome).toBe('complete');
+    expect(runner.getRewardCredits()).toBe(40 + 60 + 100);
+  });
+
+  it('stops once the mission is over', () => {
+    const runner = new MissionScriptRunner(parseMissionScript(baseScript()));
+    runner.start();
+    runner.tick(0.1, contextAt(0.1));
+    runner.fail();
+    expect(runner.getOutcome()).toBe('failed');
+
+    const update = runner.tick(40, contextAt(40, 2));
+    expect(update).toEqual({ events: [], waves: [], dialogue: [], outcome: 'failed' });
+    expect(runner.getRewardCredits()).toBe(0);
+  });
+});
+
+describe('bundled mission scripts', () => {
+  const files = readdirSync(MISSIONS_DIR).filter((f) => f.endsWith('.json'));
+
+  it('ships at least one flight and one ground mission', () => {
+    const modes = files.map((f) => parseMissionScript(readFileSync(join(MISSIONS_DIR, f), 'utf8')).mode);
+    expect(modes).toContain('flight');
+    expect(modes).toContain('ground');
+  });
+
+  it.each(files)('%s is valid', (file) => {
+    const raw = JSON.parse(readFileSync(join(MISSIONS_DIR, file), 'utf8'));
+    expect(formatMissionScriptIssues(validateMissionScript(raw))).toBe('');
+    expect(`${raw.id}.json`).toBe(file);
+  });
+});
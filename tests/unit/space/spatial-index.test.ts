@@ -12,6 +12,7 @@ import {
   HitRadius,
   Team,
   AIControlled,
+  Obstacle,
 } from "../../../packages/gameplay/src/space/components";
 
 // Import the module to test
@@ -240,6 +241,28 @@ describe("SpaceCombatSpatialIndex", () => {
     });
   });
 
+  describe("queryColliders", () => {
+    it("should include obstacles and reach the centres of large entities", () => {
+      const world = createWorld();
+      // Surface 10 units from the query point, centre 310 away
+      const hull = createCombatEntity(world, { x: 310, radius: 300 });
+      const rock = addEntity(world);
+      addComponent(world, Transform, rock);
+      addComponent(world, HitRadius, rock);
+      addComponent(world, Obstacle, rock);
+      Transform.x[rock] = -40;
+      HitRadius.r[rock] = 30;
+
+      rebuildSpaceCombatIndex(world);
+
+      expect(spaceCombatIndex.queryCombatants(0, 0, 0, 20)).not.toContain(hull);
+      const colliders = spaceCombatIndex.queryColliders(0, 0, 0, 20);
+      expect(colliders).toContain(hull);
+      expect(colliders).toContain(rock);
+      expect(spaceCombatIndex.getStats().obstacleEntities).toBe(1);
+    });
+  });
+
   describe("legacy exports", () => {
     it("rebuildTargetSpatialHash should always rebuild for backwards compatibility", () => {
       const world = createWorld();
@@ -0,0 +1,341 @@
+/**
+ * Unit tests for AI fighter squadrons
+ *
+ * Covers formation slot geometry, squadron creation, transit station keeping,
+ * pairs and pincers on engagement, leader promotion and scattering on losses.
+ */
+
+import { createWorld, addEntity, addComponent, hasComponent, removeEntity } from 'bitecs';
+import { Vector3 } from '@xwingz/core';
+import {
+  Transform,
+  Velocity,
+  AngularVelocity,
+  Team,
+  Ship,
+  LaserWeapon,
+  Health,
+  HitRadius,
+  AIControlled,
+  FighterBrain,
+  Squadron,
+  SquadronMember,
+  SquadronTactic
+} from '../../../packages/gameplay/src/space/components';
+import { AIState } from '../../../packages/gameplay/src/space/systems';
+import {
+  FormationShape,
+  formationShapeFromName,
+  formationSlotOffset
+} from '../../../packages/gameplay/src/space/formation';
+import {
+  arrangeFormation,
+  createSquadron,
+  formSquadrons,
+  squadronSystem
+} from '../../../packages/gameplay/src/space/squadron-systems';
+
+type World = ReturnType<typeof createWorld>;
+
+const DT = 1 / 60;
+
+function createFighter(world: World, team: number, x = 0, y = 0, z = 0): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, AngularVelocity, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Ship, eid);
+  addComponent(world, LaserWeapon, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, AIControlled, eid);
+  addComponent(world, FighterBrain, eid);
+
+  Transform.x[eid] = x;
+  Transform.y[eid] = y;
+  Transform.z[eid] = z;
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  Velocity.vx[eid] = 0;
+  Velocity.vy[eid] = 0;
+  Velocity.vz[eid] = 0;
+  AngularVelocity.wx[eid] = 0;
+  AngularVelocity.wy[eid] = 0;
+  AngularVelocity.wz[eid] = 0;
+  Team.id[eid] = team;
+  Ship.throttle[eid] = 0.7;
+  Ship.maxSpeed[eid] = 200;
+  Ship.accel[eid] = 100;
+  Ship.turnRate[eid] = 1.2;
+  Health.hp[eid] = 80;
+  Health.maxHp[eid] = 80;
+  HitRadius.r[eid] = 8;
+  FighterBrain.state[eid] = AIState.Acquire;
+  FighterBrain.stateTime[eid] = 0;
+  FighterBrain.aggression[eid] = 0.6;
+  FighterBrain.evadeBias[eid] = 0.5;
+  FighterBrain.targetEid[eid] = -1;
+  return eid;
+}
+
+/** Team-1 fighters strung out along +x, all facing -z */
+function createFlight(world: World, count = 4, aggression = 0.6, evadeBias = 0.5): number[] {
+  const eids: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const eid = createFighter(world, 1, i * 40, 0, 0);
+    FighterBrain.aggression[eid] = aggression;
+    FighterBrain.evadeBias[eid] = evadeBias;
+    eids.push(eid);
+  }
+  return eids;
+}
+
+describe('formation geometry', () => {
+  it('should put the leader at the origin and alternate wedge slots right and left', () => {
+    const out = new Vector3();
+    expect(formationSlotOffset(FormationShape.Wedge, 0, 30, out).lengthSq()).toBe(0);
+
+    formationSlotOffset(FormationShape.Wedge, 1, 30, out);
+    expect(out.x).toBe(30);
+    expect(out.z).toBe(30);
+
+    formationSlotOffset(FormationShape.Wedge, 2, 30, out);
+    expect(out.x).toBe(-30);
+    expect(out.z).toBe(30);
+
+    formationSlotOffset(FormationShape.Wedge, 3, 30, out);
+    expect(out.x).toBe(60);
+    expect(out.z).toBe(60);
+  });
+
+  it('should fly line abreast and spread scattered wider than swarm', () => {
+    const out = new Vector3();
+    formationSlotOffset(FormationShape.Line, 2, 30, out);
+    expect(out.x).toBe(-30);
+    expect(out.z).toBe(0);
+
+    const swarm = formationSlotOffset(FormationShape.Swarm, 3, 30, new Vector3()).length();
+    const scattered = formationSlotOffset(FormationShape.Scattered, 3, 30, new Vector3()).length();
+    expect(scattered).toBeGreaterThan(swarm * 2);
+  });
+
+  it('should map mission formation names and default to wedge', () => {
+    expect(formationShapeFromName('line')).toBe(FormationShape.Line);
+    expect(formationShapeFromName('swarm')).toBe(FormationShape.Swarm);
+    expect(formationShapeFromName('scattered')).toBe(FormationShape.Scattered);
+    expect(formationShapeFromName('wedge')).toBe(FormationShape.Wedge);
+    expect(formationShapeFromName('delta')).toBe(FormationShape.Wedge);
+  });
+});
+
+describe('createSquadron', () => {
+  it('should slot members in order behind the first', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 3);
+    FighterBrain.aggression[eids[0]!] = 0.9;
+
+    const sq = createSquadron(world, eids, FormationShape.Line, { pincer: true });
+
+    expect(Squadron.leaderEid[sq]).toBe(eids[0]);
+    expect(Squadron.team[sq]).toBe(1);
+    expect(Squadron.formation[sq]).toBe(FormationShape.Line);
+    expect(Squadron.pincer[sq]).toBe(1);
+    expect(Squadron.startCount[sq]).toBe(3);
+    expect(Squadron.aggression[sq]).toBeCloseTo(0.7);
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Transit);
+    eids.forEach((eid, i) => {
+      expect(SquadronMember.squadronEid[eid]).toBe(sq);
+      expect(SquadronMember.slot[eid]).toBe(i);
+    });
+  });
+
+  it('should split a wave into squadrons of four', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 6);
+
+    const squadrons = formSquadrons(world, eids, FormationShape.Wedge);
+
+    expect(squadrons).toHaveLength(2);
+    expect(Squadron.startCount[squadrons[0]!]).toBe(4);
+    expect(Squadron.startCount[squadrons[1]!]).toBe(2);
+    expect(Squadron.leaderEid[squadrons[1]!]).toBe(eids[4]);
+  });
+
+  it('should snap members onto their slots', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 3);
+    const sq = createSquadron(world, eids, FormationShape.Wedge, { spacing: 50 });
+
+    arrangeFormation(world, sq);
+
+    expect(Transform.x[eids[1]!]).toBeCloseTo(50);
+    expect(Transform.z[eids[1]!]).toBeCloseTo(50);
+    expect(Transform.x[eids[2]!]).toBeCloseTo(-50);
+    expect(Transform.z[eids[2]!]).toBeCloseTo(50);
+  });
+});
+
+describe('squadronSystem', () => {
+  it('should hold formation in transit with weapons cold', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 4);
+    createSquadron(world, eids, FormationShape.Wedge);
+
+    squadronSystem(world, DT);
+
+    expect(FighterBrain.state[eids[0]!]).toBe(AIState.Acquire);
+    for (const eid of eids.slice(1)) {
+      expect(FighterBrain.state[eid]).toBe(AIState.FormUp);
+      expect(FighterBrain.targetEid[eid]).toBe(-1);
+    }
+  });
+
+  it('should break into pairs when a hostile comes into range', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 4);
+    const sq = createSquadron(world, eids, FormationShape.Wedge);
+    const rebel = createFighter(world, 0, 0, 0, -600);
+    const other = createFighter(world, 0, 100, 0, -700);
+    FighterBrain.targetEid[eids[2]!] = other;
+
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Engage);
+    expect(Squadron.targetEid[sq]).toBe(rebel);
+    // Leads pick fights, wings take their lead's target
+    expect(FighterBrain.targetEid[eids[0]!]).toBe(rebel);
+    expect(FighterBrain.targetEid[eids[1]!]).toBe(rebel);
+    expect(FighterBrain.targetEid[eids[2]!]).toBe(other);
+    expect(FighterBrain.targetEid[eids[3]!]).toBe(other);
+    expect(FighterBrain.state[eids[1]!]).toBe(AIState.Pursue);
+  });
+
+  it('should engage from further out the more aggressive it is', () => {
+    const world = createWorld();
+    const timid = createSquadron(world, createFlight(world, 2, 0), FormationShape.Wedge);
+    const bold = createSquadron(world, createFlight(world, 2, 1), FormationShape.Wedge);
+    createFighter(world, 0, 0, 0, -1200);
+
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[timid]).toBe(SquadronTactic.Transit);
+    expect(Squadron.tactic[bold]).toBe(SquadronTactic.Engage);
+  });
+
+  it('should swing pairs out to opposite flanks for a pincer', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 4);
+    for (const eid of eids) Transform.x[eid] = 0;
+    const sq = createSquadron(world, eids, FormationShape.Wedge, { pincer: true });
+    const rebel = createFighter(world, 0, 0, 0, -1000);
+
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Pincer);
+    expect(SquadronMember.flank[eids[0]!]).toBe(-1);
+    expect(SquadronMember.flank[eids[1]!]).toBe(-1);
+    expect(SquadronMember.flank[eids[2]!]).toBe(1);
+    expect(SquadronMember.flank[eids[3]!]).toBe(1);
+    for (const eid of eids) {
+      expect(FighterBrain.state[eid]).toBe(AIState.Flank);
+      expect(FighterBrain.targetEid[eid]).toBe(rebel);
+    }
+    // Left flank turns left (positive yaw), right flank turns right
+    expect(AngularVelocity.wy[eids[0]!]).toBeGreaterThan(0);
+    expect(AngularVelocity.wy[eids[3]!]).toBeLessThan(0);
+  });
+
+  it('should close the pincer when the flanking run times out', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 4);
+    const sq = createSquadron(world, eids, FormationShape.Wedge, { pincer: true });
+    const rebel = createFighter(world, 0, 0, 0, -1000);
+
+    squadronSystem(world, DT);
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Pincer);
+
+    squadronSystem(world, 10);
+
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Engage);
+    for (const eid of eids) {
+      expect(FighterBrain.state[eid]).toBe(AIState.Pursue);
+      expect(FighterBrain.targetEid[eid]).toBe(rebel);
+    }
+  });
+
+  it('should skip the pincer with fewer than four ships', () => {
+    const world = createWorld();
+    const sq = createSquadron(world, createFlight(world, 3), FormationShape.Wedge, { pincer: true });
+    createFighter(world, 0, 0, 0, -600);
+
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Engage);
+  });
+
+  it('should reform once the target is gone', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 2);
+    const sq = createSquadron(world, eids, FormationShape.Wedge);
+    const rebel = createFighter(world, 0, 0, 0, -600);
+
+    squadronSystem(world, DT);
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Engage);
+
+    removeEntity(world, rebel);
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[sq]).toBe(SquadronTactic.Transit);
+    expect(FighterBrain.state[eids[1]!]).toBe(AIState.FormUp);
+  });
+
+  it('should promote the next slot when the leader dies', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 4, 0.6, 0);
+    const sq = createSquadron(world, eids, FormationShape.Wedge);
+
+    removeEntity(world, eids[0]!);
+    squadronSystem(world, DT);
+
+    expect(Squadron.leaderEid[sq]).toBe(eids[1]);
+    expect(SquadronMember.slot[eids[1]!]).toBe(0);
+    expect(SquadronMember.slot[eids[2]!]).toBe(1);
+    expect(SquadronMember.slot[eids[3]!]).toBe(2);
+    expect(FighterBrain.state[eids[1]!]).not.toBe(AIState.FormUp);
+    expect(Squadron.memberCount[sq]).toBe(3);
+  });
+
+  it('should scatter on losses, sooner the higher its evadeBias', () => {
+    const world = createWorld();
+    const cautious = createFlight(world, 4, 0.6, 0.9);
+    const stubborn = createFlight(world, 4, 0.6, 0.1);
+    const sqCautious = createSquadron(world, cautious, FormationShape.Wedge);
+    const sqStubborn = createSquadron(world, stubborn, FormationShape.Wedge);
+
+    squadronSystem(world, DT);
+    removeEntity(world, cautious[2]!);
+    removeEntity(world, cautious[3]!);
+    removeEntity(world, stubborn[2]!);
+    removeEntity(world, stubborn[3]!);
+    squadronSystem(world, DT);
+
+    expect(Squadron.tactic[sqCautious]).toBe(SquadronTactic.Scatter);
+    expect(FighterBrain.state[cautious[1]!]).toBe(AIState.Acquire);
+    expect(Squadron.tactic[sqStubborn]).toBe(SquadronTactic.Transit);
+    expect(FighterBrain.state[stubborn[1]!]).toBe(AIState.FormUp);
+  });
+
+  it('should remove a squadron with nobody left', () => {
+    const world = createWorld();
+    const eids = createFlight(world, 2);
+    const sq = createSquadron(world, eids, FormationShape.Wedge);
+
+    for (const eid of eids) removeEntity(world, eid);
+    squadronSystem(world, DT);
+
+    expect(hasComponent(world, Squadron, sq)).toBe(false);
+  });
+});
@@ -24,7 +24,8 @@ import {
   FighterBrain,
   TorpedoLauncher,
   TorpedoProjectile,
-  WeaponLoadout
+  WeaponLoadout,
+  IonCannon
 } from '../../../packages/gameplay/src/space/components';
 
 import {
@@ -48,10 +49,15 @@ import {
   torpedoProjectileSystem,
   weaponSwitchSystem,
   getTorpedoState,
-  getTorpedoProjectiles
+  getTorpedoProjectiles,
+  applyIonDamage,
+  ionSystem,
+  isIonLocked,
+  getIonState,
+  ION_LOCK_TIME
 } from '../../../packages/gameplay/src/space/systems';
 
-import { isPooled } from '../../../packages/gameplay/src/space/projectile-pool';
+import { isPooled, clearProjectilePool } from '../../../packages/gameplay/src/space/projectile-pool';
 
 import type { SpaceInputState } from '../../../packages/gameplay/src/space/input';
 
@@ -70,7 +76,13 @@ function createNeutralInput(): SpaceInputState {
     switchWeapon: false,
     hyperspace: false,
     toggleMap: false,
-    land: false
+    land: false,
+    commandMenu: false,
+    orderAttack: false,
+    orderCover: false,
+    orderFormUp: false,
+    orderSubsystems: false,
+    orderEscort: false
   };
 }
 
@@ -182,6 +194,7 @@ function createProjectile(world: ReturnType<typeof createWorld>, owner: number,
   Projectile.life[eid] = 2.0;
   Projectile.owner[eid] = owner;
   Projectile.damage[eid] = 10;
+  Projectile.ion[eid] = 0;
 
   return eid;
 }
@@ -1091,6 +1104,168 @@ describe('Space Combat Systems', () => {
     });
   });
 
+  describe('ion damage', () => {
+    it('should drain shields at double rate without touching hull', () => {
+      const world = createWorld();
+      const fighter = createAIFighter(world, 1);
+
+      const overloaded = applyIonDamage(world, fighter, 10);
+
+      expect(overloaded).toBe(false);
+      expect(Shield.sp[fighter]).toBe(10); // 30 - 2 * 10
+      expect(Health.hp[fighter]).toBe(80);
+      expect(Health.ion[fighter]).toBe(0);
+    });
+
+    it('should build charge with whatever gets past the shields', () => {
+      const world = createWorld();
+      const fighter = createAIFighter(world, 1);
+
+      applyIonDamage(world, fighter, 25);
+
+      expect(Shield.sp[fighter]).toBe(0);
+      expect(Health.ion[fighter]).toBe(10); // (50 - 30) / 2
+    });
+
+    it('should lock the ship up once the charge reaches max hull', () => {
+      const world = createWorld();
+      const fighter = createAIFighter(world, 1);
+      Shield.sp[fighter] = 0;
+
+      expect(applyIonDamage(world, fighter, 50)).toBe(false);
+      expect(applyIonDamage(world, fighter, 30)).toBe(true);
+
+      expect(isIonLocked(fighter)).toBe(true);
+      expect(Health.ionLock[fighter]).toBe(ION_LOCK_TIME);
+      expect(Health.ion[fighter]).toBe(0);
+
+      // Hits on a locked ship don't stack up the next lock
+      applyIonDamage(world, fighter, 30);
+      expect(Health.ion[fighter]).toBe(0);
+    });
+
+    it('should count the lock down, then bleed off charge', () => {
+      const world = createWorld();
+      const fighter = createAIFighter(world, 1);
+      Health.ion[fighter] = 40;
+      Health.ionLock[fighter] = 1.5;
+
+      ionSystem(world, 1);
+      expect(Health.ionLock[fighter]).toBeCloseTo(0.5, 5);
+      expect(Health.ion[fighter]).toBe(40);
+
+      ionSystem(world, 1);
+      expect(isIonLocked(fighter)).toBe(false);
+
+      ionSystem(world, 1);
+      expect(Health.ion[fighter]).toBeCloseTo(36, 5); // 5% of 80 hp per second
+    });
+
+    it('should clear ion state off removed entities', () => {
+      const world = createWorld();
+      const fighter = createAIFighter(world, 1);
+      ionSystem(world, 0);
+      Health.ion[fighter] = 20;
+      Health.ionLock[fighter] = 3;
+
+      removeEntity(world, fighter);
+      ionSystem(world, 0.1);
+
+      expect(Health.ion[fighter]).toBe(0);
+      expect(Health.ionLock[fighter]).toBe(0);
+    });
+
+    it('should leave a locked ship drifting with its controls dead', () => {
+      const world = createWorld();
+      const player = spawnPlayerShip(world);
+      Velocity.vz[player] = -100;
+      Health.ionLock[player] = 2;
+
+      const input = createNeutralInput();
+      input.pitch = 1;
+      input.throttleDelta = 1;
+      input.brake = true;
+      spaceflightSystem(world, input, 0.5);
+
+      expect(Transform.z[player]).toBeCloseTo(-50, 5);
+      expect(Velocity.vz[player]).toBe(-100);
+      expect(AngularVelocity.wx[player]).toBe(0);
+      expect(Transform.qw[player]).toBe(1);
+    });
+
+    it('should keep a locked ship from firing or regenerating shields', () => {
+      const world = createWorld();
+      const player = spawnPlayerShip(world);
+      Health.ionLock[player] = 2;
+      Shield.sp[player] = 100;
+
+      const input = createNeutralInput();
+      input.firePrimary = true;
+      weaponSystem(world, input, 0.016);
+      shieldRegenSystem(world, 1);
+
+      expect(getProjectiles(world)).toHaveLength(0);
+      expect(Shield.sp[player]).toBe(100);
+    });
+
+    it('should carry ion charge on bolts through projectileSystem', () => {
+      const world = createWorld();
+      const shooter = spawnPlayerShip(world);
+      const target = createAIFighter(world, 1, 0, 0, 0);
+
+      const proj = createProjectile(world, shooter, 0, 0, 0, 0, 0, 0);
+      Projectile.damage[proj] = 0;
+      Projectile.ion[proj] = 20;
+
+      rebuildTargetSpatialHash(world);
+      projectileSystem(world, 0.016);
+
+      expect(Shield.sp[target]).toBe(0);
+      expect(Health.ion[target]).toBe(5); // (40 - 30) / 2
+      expect(Health.hp[target]).toBe(80);
+    });
+
+    it('should add the ion cannon to the weapon cycle when fitted', () => {
+      const world = createWorld();
+      const player = spawnPlayerShip(world, { ionCannon: true });
+      const input = createNeutralInput();
+      input.switchWeapon = true;
+
+      expect(hasComponent(world, IonCannon, player)).toBe(true);
+      weaponSwitchSystem(world, input);
+      weaponSwitchSystem(world, input);
+      expect(WeaponLoadout.activeWeapon[player]).toBe(2);
+      weaponSwitchSystem(world, input);
+      expect(WeaponLoadout.activeWeapon[player]).toBe(0);
+    });
+
+    it('should fire a single ion bolt on the primary trigger', () => {
+      clearProjectilePool(); // pooled eids from earlier worlds would be invisible here
+      const world = createWorld();
+      const player = spawnPlayerShip(world, { ionCannon: true });
+      WeaponLoadout.activeWeapon[player] = 2;
+
+      const input = createNeutralInput();
+      input.firePrimary = true;
+      weaponSystem(world, input, 0.016);
+
+      const bolts = getProjectiles(world);
+      expect(bolts).toHaveLength(1);
+      expect(Projectile.ion[bolts[0]!]).toBe(IonCannon.ion[player]);
+      expect(Projectile.damage[bolts[0]!]).toBe(0);
+      expect(IonCannon.cooldownRemaining[player]).toBeCloseTo(IonCannon.cooldown[player]!, 5);
+    });
+
+    it('should report the player ion state', () => {
+      const world = createWorld();
+      const player = spawnPlayerShip(world);
+      Health.ion[player] = 90;
+      Health.ionLock[player] = 2;
+
+      expect(getIonState(world)).toEqual({ charge: 0.25, lockRemaining: 2 });
+    });
+  });
+
   describe('AIState enum', () => {
     it('should have correct state values', () => {
       expect(AIState.Acquire).toBe(0);
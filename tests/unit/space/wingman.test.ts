@@ -0,0 +1,389 @@
+/**
+ * Unit tests for wingman orders
+ *
+ * Covers issueWingmanCommand / wingmanCommandSystem feeding FighterBrain,
+ * subsystem targeting, kill attribution on impact events and wingman kills
+ * in KillTracker-driven objectives.
+ */
+
+import { createWorld, addEntity, addComponent, removeEntity } from 'bitecs';
+import {
+  Transform,
+  Velocity,
+  AngularVelocity,
+  Team,
+  Ship,
+  LaserWeapon,
+  Projectile,
+  Health,
+  HitRadius,
+  AIControlled,
+  FighterBrain,
+  WingmanCommand,
+  WingmanOrder
+} from '../../../packages/gameplay/src/space/components';
+import {
+  AIState,
+  aiWeaponSystem,
+  consumeImpactEvents,
+  dogfightAISystem,
+  projectileSystem,
+  rebuildTargetSpatialHash,
+  spawnPlayerShip
+} from '../../../packages/gameplay/src/space/systems';
+import {
+  findSubsystemTarget,
+  issueWingmanCommand,
+  wingmanCommandSystem
+} from '../../../packages/gameplay/src/space/wingman-systems';
+import { spawnCapitalShipV2 } from '../../../packages/gameplay/src/space/capital-systems';
+import { ShipClass } from '../../../packages/gameplay/src/space/capital-components';
+import { acquireProjectile } from '../../../packages/gameplay/src/space/projectile-pool';
+import { KillTracker } from '../../../packages/gameplay/src/space/kill-tracker';
+import { ObjectiveTracker } from '../../../packages/gameplay/src/space/objective-tracker';
+import {
+  createDefaultObjectiveContext,
+  ObjectivePriority,
+  ObjectiveStatus,
+  ProgressIndicatorType,
+  TriggerType,
+  type ObjectiveDefinition,
+  type TriggerCondition
+} from '../../../packages/gameplay/src/space/objective-types';
+
+type World = ReturnType<typeof createWorld>;
+
+function createFighter(world: World, team: number, x = 0, y = 0, z = 0): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, AngularVelocity, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Ship, eid);
+  addComponent(world, LaserWeapon, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, AIControlled, eid);
+  addComponent(world, FighterBrain, eid);
+
+  Transform.x[eid] = x;
+  Transform.y[eid] = y;
+  Transform.z[eid] = z;
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  Velocity.vx[eid] = 0;
+  Velocity.vy[eid] = 0;
+  Velocity.vz[eid] = 0;
+  AngularVelocity.wx[eid] = 0;
+  AngularVelocity.wy[eid] = 0;
+  AngularVelocity.wz[eid] = 0;
+  Team.id[eid] = team;
+  Ship.throttle[eid] = 0.7;
+  Ship.maxSpeed[eid] = 200;
+  Ship.accel[eid] = 100;
+  Ship.turnRate[eid] = 1.2;
+  LaserWeapon.cooldown[eid] = 0.14;
+  LaserWeapon.cooldownRemaining[eid] = 0;
+  LaserWeapon.projectileSpeed[eid] = 900;
+  LaserWeapon.damage[eid] = 10;
+  Health.hp[eid] = 80;
+  Health.maxHp[eid] = 80;
+  HitRadius.r[eid] = 8;
+  FighterBrain.state[eid] = AIState.Acquire;
+  FighterBrain.stateTime[eid] = 0;
+  FighterBrain.aggression[eid] = 0.6;
+  FighterBrain.evadeBias[eid] = 0.5;
+  FighterBrain.targetEid[eid] = -1;
+  return eid;
+}
+
+function createLeader(world: World): number {
+  const leader = spawnPlayerShip(world);
+  Team.id[leader] = 0;
+  Transform.x[leader] = 0;
+  Transform.y[leader] = 0;
+  Transform.z[leader] = 0;
+  return leader;
+}
+
+function objective(trigger: TriggerCondition): ObjectiveDefinition {
+  return {
+    id: 'kills',
+    name: 'Kills',
+    description: '',
+    hudText: '',
+    hudTextActive: '',
+    hudTextComplete: '',
+    phase: 'combat',
+    sequence: 1,
+    priority: ObjectivePriority.NORMAL,
+    triggerStart: { type: TriggerType.MISSION_START },
+    triggerComplete: trigger,
+    progressType: ProgressIndicatorType.NUMERIC_COUNTER,
+    progressMax: trigger.count ?? 0,
+    rewardCredits: 0,
+    isOptional: false
+  };
+}
+
+describe('issueWingmanCommand', () => {
+  it('should attach orders with formation slots in the order given', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const a = createFighter(world, 0, 30, 0, 30);
+    const b = createFighter(world, 0, -30, 0, 30);
+
+    expect(issueWingmanCommand(world, [a, b], WingmanCommand.FormUp, leader)).toBe(2);
+    expect(WingmanOrder.command[a]).toBe(WingmanCommand.FormUp);
+    expect(WingmanOrder.leaderEid[b]).toBe(leader);
+    expect(WingmanOrder.slot[a]).toBe(0);
+    expect(WingmanOrder.slot[b]).toBe(1);
+  });
+
+  it('should refuse an attack order without a hostile target', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    const friendly = createFighter(world, 0, 0, 0, -200);
+
+    expect(issueWingmanCommand(world, [wingman], WingmanCommand.AttackTarget, leader, -1)).toBe(0);
+    expect(issueWingmanCommand(world, [wingman], WingmanCommand.AttackTarget, leader, friendly)).toBe(0);
+  });
+
+  it('should refuse subsystem strikes when no hostile capital ship is around', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+
+    expect(issueWingmanCommand(world, [wingman], WingmanCommand.AttackSubsystems, leader)).toBe(0);
+  });
+});
+
+describe('wingmanCommandSystem', () => {
+  it('should put the leader target into FighterBrain and keep it through dogfighting', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    const near = createFighter(world, 1, 30, 0, -100);
+    const ordered = createFighter(world, 1, 0, 0, -1500);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.AttackTarget, leader, ordered);
+    wingmanCommandSystem(world, 0.016);
+    dogfightAISystem(world, 0.016);
+
+    expect(FighterBrain.targetEid[wingman]).toBe(ordered);
+    expect(FighterBrain.targetEid[wingman]).not.toBe(near);
+  });
+
+  it('should fall back to escort once the ordered target is gone', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    const target = createFighter(world, 1, 0, 0, -500);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.AttackTarget, leader, target);
+    wingmanCommandSystem(world, 0.016);
+    removeEntity(world, target);
+    wingmanCommandSystem(world, 0.016);
+
+    expect(WingmanOrder.command[wingman]).toBe(WingmanCommand.Escort);
+    expect(WingmanOrder.targetEid[wingman]).toBe(-1);
+  });
+
+  it('should hold formation with weapons cold and leave steering to itself', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 200, 0, 100);
+    createFighter(world, 1, 200, 0, -300);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.FormUp, leader);
+    wingmanCommandSystem(world, 0.016);
+    // The slot is off to the wingman's left: it should yaw that way
+    expect(FighterBrain.state[wingman]).toBe(AIState.FormUp);
+    expect(AngularVelocity.wy[wingman]).toBeGreaterThan(0);
+
+    const wy = AngularVelocity.wy[wingman];
+    dogfightAISystem(world, 0.016);
+    aiWeaponSystem(world, 0.016);
+    expect(FighterBrain.targetEid[wingman]).toBe(-1);
+    expect(AngularVelocity.wy[wingman]).toBe(wy);
+    expect(LaserWeapon.cooldownRemaining[wingman]).toBe(0);
+  });
+
+  it('should open the throttle when the slot is ahead', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    Ship.throttle[leader] = 0.5;
+    const wingman = createFighter(world, 0, 28, 0, 400);
+    Ship.throttle[wingman] = 0.5;
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.FormUp, leader);
+    wingmanCommandSystem(world, 0.1);
+
+    expect(Ship.throttle[wingman]).toBeGreaterThan(0.5);
+  });
+
+  it('should engage hostiles chasing the leader under cover orders', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    const bystander = createFighter(world, 1, 0, 0, -250);
+    const chaser = createFighter(world, 1, 0, 0, 350);
+    FighterBrain.targetEid[chaser] = leader;
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.CoverMe, leader);
+    wingmanCommandSystem(world, 0.016);
+
+    expect(FighterBrain.targetEid[wingman]).toBe(chaser);
+    expect(FighterBrain.targetEid[wingman]).not.toBe(bystander);
+    expect(FighterBrain.state[wingman]).toBe(AIState.Pursue);
+  });
+
+  it('should stay on the leader when nothing threatens them', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    createFighter(world, 1, 0, 0, -3000);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.CoverMe, leader);
+    wingmanCommandSystem(world, 0.016);
+
+    expect(FighterBrain.state[wingman]).toBe(AIState.Cover);
+    expect(FighterBrain.targetEid[wingman]).toBe(-1);
+  });
+
+  it('should go after hostile subsystems and let the AI shoot at them', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 0, 0, 0);
+    const { subsystemEids } = spawnCapitalShipV2(world, {
+      team: 1,
+      shipClass: ShipClass.Destroyer,
+      x: 0,
+      y: 0,
+      z: -400
+    });
+
+    expect(issueWingmanCommand(world, [wingman], WingmanCommand.AttackSubsystems, leader)).toBe(1);
+    wingmanCommandSystem(world, 0.016);
+    const tid = FighterBrain.targetEid[wingman];
+    expect(subsystemEids).toContain(tid);
+    expect(findSubsystemTarget(world, wingman, 0)).toBe(tid);
+
+    // dogfightAISystem keeps a subsystem target rather than re-picking
+    dogfightAISystem(world, 0.016);
+    expect(FighterBrain.targetEid[wingman]).toBe(tid);
+  });
+
+  it('should not target friendly subsystems', () => {
+    const world = createWorld();
+    const wingman = createFighter(world, 0, 0, 0, 0);
+    spawnCapitalShipV2(world, { team: 0, shipClass: ShipClass.Destroyer, x: 0, y: 0, z: -400 });
+
+    expect(findSubsystemTarget(world, wingman, 0)).toBe(-1);
+  });
+
+  it('should release formation states on return to escort', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+    const enemy = createFighter(world, 1, 0, 0, -500);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.FormUp, leader);
+    wingmanCommandSystem(world, 0.016);
+    issueWingmanCommand(world, [wingman], WingmanCommand.Escort, leader);
+    wingmanCommandSystem(world, 0.016);
+    dogfightAISystem(world, 0.016);
+
+    expect(FighterBrain.state[wingman]).not.toBe(AIState.FormUp);
+    expect(FighterBrain.targetEid[wingman]).toBe(enemy);
+  });
+
+  it('should drop orders when the leader is gone', () => {
+    const world = createWorld();
+    const leader = createLeader(world);
+    const wingman = createFighter(world, 0, 30, 0, 30);
+
+    issueWingmanCommand(world, [wingman], WingmanCommand.FormUp, leader);
+    removeEntity(world, leader);
+    wingmanCommandSystem(world, 0.016);
+
+    expect(WingmanOrder.command[wingman]).toBe(WingmanCommand.Escort);
+    expect(FighterBrain.state[wingman]).toBe(AIState.Acquire);
+  });
+});
+
+describe('wingman kill credit', () => {
+  it('should name the shooter and victim on impact events', () => {
+    const world = createWorld();
+    consumeImpactEvents();
+    const shooter = createFighter(world, 0, 0, 0, 0);
+    const victim = createFighter(world, 1, 10, 0, 0);
+    Health.hp[victim] = 5;
+
+    const pid = acquireProjectile(world);
+    Transform.x[pid] = 10;
+    Transform.y[pid] = 0;
+    Transform.z[pid] = 0;
+    Velocity.vx[pid] = 0;
+    Velocity.vy[pid] = 0;
+    Velocity.vz[pid] = 0;
+    Projectile.owner[pid] = shooter;
+    Projectile.damage[pid] = 10;
+    Projectile.life[pid] = 1;
+
+    rebuildTargetSpatialHash(world);
+    projectileSystem(world, 0.016);
+
+    const kill = consumeImpactEvents().find((e) => e.killed === 1);
+    expect(kill?.shooter).toBe(shooter);
+    expect(kill?.victim).toBe(victim);
+  });
+
+  it('should count wingman kills in totals but not the player streak', () => {
+    const tracker = new KillTracker();
+    tracker.recordKill('tie_fighter', 1);
+    tracker.recordKill('tie_fighter', 1, true);
+    tracker.recordKill('tie_bomber', 2, true);
+
+    const data = tracker.getTrackingData();
+    expect(data.total).toBe(3);
+    expect(data.wingmanTotal).toBe(2);
+    expect(data.byType.get('tie_fighter')).toBe(2);
+    expect(data.wingmanByType.get('tie_fighter')).toBe(1);
+    expect(data.wingmanByWave.get(2)).toBe(1);
+    expect(data.streak).toBe(1);
+    expect(tracker.getWingmanKills()).toBe(2);
+
+    tracker.reset();
+    expect(tracker.getTrackingData().wingmanTotal).toBe(0);
+  });
+
+  it('should let kill objectives count wingman kills, player kills or both', () => {
+    const kills = new KillTracker();
+    kills.recordKill('tie_fighter', 1);
+    kills.recordKill('tie_fighter', 1, true);
+    kills.recordKill('tie_fighter', 1, true);
+    const ctx = createDefaultObjectiveContext();
+    ctx.kills = kills.getTrackingData();
+
+    const status = (trigger: TriggerCondition): ObjectiveStatus => {
+      const tracker = new ObjectiveTracker([objective(trigger)]);
+      tracker.initialize();
+      tracker.tick(0.1, ctx);
+      return tracker.getObjectivesByStatus(ObjectiveStatus.COMPLETED).length > 0
+        ? ObjectiveStatus.COMPLETED
+        : ObjectiveStatus.ACTIVE;
+    };
+
+    expect(status({ type: TriggerType.KILL_COUNT, count: 3 })).toBe(ObjectiveStatus.COMPLETED);
+    expect(status({ type: TriggerType.KILL_COUNT, count: 2, killedBy: 'wingmen' })).toBe(ObjectiveStatus.COMPLETED);
+    expect(status({ type: TriggerType.KILL_COUNT, count: 2, killedBy: 'player' })).toBe(ObjectiveStatus.ACTIVE);
+    expect(status({ type: TriggerType.KILL_COUNT, count: 2, waveId: 1, killedBy: 'wingmen' })).toBe(ObjectiveStatus.COMPLETED);
+    expect(
+      status({ type: TriggerType.KILL_ALL, targetTypes: ['tie_fighter'], count: 1, killedBy: 'player' })
+    ).toBe(ObjectiveStatus.COMPLETED);
+  });
+});
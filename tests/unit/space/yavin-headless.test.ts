@@ -0,0 +1,489 @@
+/**
+ * Headless determinism tests for Yavin Defense
+ *
+ * Builds the Yavin Defense mission without a renderer (flat terrain, same
+ * spawn layout and wave seeds as YavinDefenseScenario) and steps it through
+ * the flight systems in FlightMode's order with the headless runner. Replays
+ * are checked against the final ObjectiveTracker state.
+ */
+
+import { addEntity, addComponent, hasComponent, type IWorld } from 'bitecs';
+import {
+  createHeadlessSim,
+  createScriptedInput,
+  createInputRecorder,
+  createReplayInput,
+  encodeRecording,
+  decodeRecording,
+  type SimInputSource,
+  type SimSystem
+} from '@xwingz/core';
+import { createRng, deriveSeed, getFighterArchetype } from '@xwingz/procgen';
+import {
+  Transform,
+  Velocity,
+  AngularVelocity,
+  Team,
+  Ship,
+  LaserWeapon,
+  Projectile,
+  Health,
+  HitRadius,
+  Shield,
+  Targeting,
+  Targetable,
+  AIControlled,
+  FighterBrain,
+  TorpedoLauncher,
+  TorpedoProjectile
+} from '../../../packages/gameplay/src/space/components';
+import {
+  spawnPlayerShip,
+  targetingSystem,
+  dogfightAISystem,
+  spaceflightSystem,
+  weaponSystem,
+  aiWeaponSystem,
+  projectileSystem,
+  weaponSwitchSystem,
+  torpedoLockSystem,
+  torpedoFireSystem,
+  torpedoProjectileSystem,
+  shieldRegenSystem,
+  consumeImpactEvents
+} from '../../../packages/gameplay/src/space/systems';
+import { rebuildSpaceCombatIndex } from '../../../packages/gameplay/src/space/spatial-index';
+import { clearProjectilePool, Pooled } from '../../../packages/gameplay/src/space/projectile-pool';
+import type { SpaceInputState } from '../../../packages/gameplay/src/space/input';
+import { ObjectiveTracker } from '../../../packages/gameplay/src/space/objective-tracker';
+import {
+  createDefaultObjectiveContext,
+  ObjectivePriority,
+  ObjectiveStatus,
+  ProgressIndicatorType,
+  TriggerType,
+  type ObjectiveDefinition
+} from '../../../packages/gameplay/src/space/objective-types';
+
+const YAVIN_SEED = 0x59a71e5n;
+const BASE_HP = 2000;
+const WAVE1_COUNT = 12;
+
+const NEUTRAL_INPUT: SpaceInputState = {
+  pitch: 0,
+  yaw: 0,
+  roll: 0,
+  throttleDelta: 0,
+  boost: false,
+  brake: false,
+  firePrimary: false,
+  fireSecondary: false,
+  switchWeapon: false,
+  cycleTarget: false,
+  hyperspace: false,
+  toggleMap: false,
+  land: false,
+  commandMenu: false,
+  orderAttack: false,
+  orderCover: false,
+  orderFormUp: false,
+  orderSubsystems: false,
+  orderEscort: false
+};
+
+// Throttle up, climb out over the temple, then hunt the raid
+const PLAYER_SCRIPT = createScriptedInput(NEUTRAL_INPUT, [
+  { at: 0, until: 90, input: { throttleDelta: 1, pitch: 0.4 } },
+  { at: 90, until: 900, input: { throttleDelta: 0.2 } },
+  { at: 120, input: { cycleTarget: true } },
+  { at: 300, until: 420, input: { yaw: 0.3, firePrimary: true } },
+  { at: 480, input: { cycleTarget: true } },
+  { at: 600, until: 840, input: { firePrimary: true, pitch: -0.1 } },
+  { at: 700, input: { switchWeapon: true } },
+  { at: 760, until: 840, input: { fireSecondary: true } }
+]);
+
+const SNAPSHOT_COMPONENTS = {
+  Transform,
+  Velocity,
+  Team,
+  Ship,
+  LaserWeapon,
+  Projectile,
+  Health,
+  Shield,
+  Targeting,
+  FighterBrain,
+  TorpedoLauncher,
+  TorpedoProjectile,
+  Pooled
+};
+
+const SNAPSHOT_REFS = {
+  Projectile: ['owner'],
+  Targeting: ['targetEid'],
+  FighterBrain: ['targetEid'],
+  TorpedoLauncher: ['lockTargetEid'],
+  TorpedoProjectile: ['targetEid', 'owner']
+};
+
+function objective(id: string, sequence: number, def: Partial<ObjectiveDefinition>): ObjectiveDefinition {
+  return {
+    id,
+    name: id,
+    description: id,
+    hudText: id,
+    hudTextActive: id,
+    hudTextComplete: id,
+    phase: 'combat',
+    sequence,
+    priority: ObjectivePriority.NORMAL,
+    triggerStart: { type: TriggerType.MISSION_START },
+    triggerComplete: { type: TriggerType.MISSION_START },
+    progressType: ProgressIndicatorType.NONE,
+    progressMax: 1,
+    rewardCredits: 0,
+    isOptional: false,
+    ...def
+  };
+}
+
+// Trimmed-down Yavin objectives: launch, thin out the raid, keep the temple standing
+const OBJECTIVES: ObjectiveDefinition[] = [
+  objective('launch', 1, {
+    triggerComplete: { type: TriggerType.ALTITUDE_ABOVE, value: 60 }
+  }),
+  objective('intercept', 2, {
+    triggerStart: { type: TriggerType.OBJECTIVE_COMPLETE, objectiveId: 'launch' },
+    triggerComplete: { type: TriggerType.KILL_COUNT, count: WAVE1_COUNT },
+    triggerFail: { type: TriggerType.ENTITY_HEALTH_BELOW, entity: 'great_temple', thresholdPercent: 30 },
+    progressType: ProgressIndicatorType.NUMERIC_COUNTER,
+    progressMax: WAVE1_COUNT
+  })
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Mission fixture
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface YavinFixture {
+  seed: bigint;
+  baseEid: number;
+  playerEid: number;
+  wave: number;
+  waveEids: number[];
+  kills: number;
+  tracker: ObjectiveTracker;
+}
+
+function setYaw(eid: number, yaw: number): void {
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = Math.sin(yaw / 2);
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = Math.cos(yaw / 2);
+}
+
+function addFighter(world: IWorld, x: number, y: number, z: number, yaw: number, team: number): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  addComponent(world, AngularVelocity, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Ship, eid);
+  addComponent(world, LaserWeapon, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  addComponent(world, Shield, eid);
+  addComponent(world, FighterBrain, eid);
+  addComponent(world, AIControlled, eid);
+
+  Transform.x[eid] = x;
+  Transform.y[eid] = y;
+  Transform.z[eid] = z;
+  setYaw(eid, yaw);
+  Velocity.vx[eid] = 0;
+  Velocity.vy[eid] = 0;
+  Velocity.vz[eid] = 0;
+  AngularVelocity.wx[eid] = 0;
+  AngularVelocity.wy[eid] = 0;
+  AngularVelocity.wz[eid] = 0;
+  Team.id[eid] = team;
+  Shield.lastHit[eid] = 999;
+  FighterBrain.state[eid] = 0;
+  FighterBrain.stateTime[eid] = 0;
+  FighterBrain.targetEid[eid] = -1;
+  return eid;
+}
+
+function spawnBase(world: IWorld): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Team, eid);
+  addComponent(world, Health, eid);
+  addComponent(world, HitRadius, eid);
+  Team.id[eid] = 0;
+  Health.hp[eid] = BASE_HP;
+  Health.maxHp[eid] = BASE_HP;
+  HitRadius.r[eid] = 140;
+  Transform.x[eid] = 0;
+  Transform.y[eid] = 55;
+  Transform.z[eid] = 30;
+  setYaw(eid, 0);
+  return eid;
+}
+
+function spawnWingmen(world: IWorld): void {
+  const archetype = getFighterArchetype('xwing_player');
+  const slots: Array<[number, number]> = [[-22, 320], [22, 320], [0, 300], [-40, 290], [40, 290]];
+  for (const [x, z] of slots) {
+    const eid = addFighter(world, x, 7, z, Math.PI, 0);
+    Ship.throttle[eid] = 0.45;
+    Ship.maxSpeed[eid] = archetype.maxSpeed * 0.98;
+    Ship.accel[eid] = archetype.accel * 0.95;
+    Ship.turnRate[eid] = archetype.turnRate * 0.95;
+    LaserWeapon.cooldown[eid] = archetype.weaponCooldown;
+    LaserWeapon.cooldownRemaining[eid] = 0;
+    LaserWeapon.projectileSpeed[eid] = archetype.projectileSpeed;
+    LaserWeapon.damage[eid] = archetype.damage;
+    Health.hp[eid] = archetype.hp * 1.2;
+    Health.maxHp[eid] = archetype.hp * 1.2;
+    HitRadius.r[eid] = archetype.hitRadius;
+    Shield.maxSp[eid] = 60;
+    Shield.sp[eid] = 60;
+    Shield.regenRate[eid] = 7;
+    FighterBrain.aggression[eid] = 0.85;
+    FighterBrain.evadeBias[eid] = 0.4;
+  }
+}
+
+interface WaveSpec {
+  seedKeys: string[];
+  count: number;
+  spread: [number, number, number];
+  altitude: [number, number];
+  hp: number;
+  damage: number;
+  aggression: number;
+  baseAttackers: number;
+}
+
+const WAVES: WaveSpec[] = [
+  { seedKeys: ['yavin_defense', 'ties_v0'], count: WAVE1_COUNT, spread: [600, 400, 0.4], altitude: [220, 260], hp: 50, damage: 5, aggression: 0.55, baseAttackers: Math.ceil(WAVE1_COUNT * 0.15) },
+  { seedKeys: ['yavin_wave2'], count: 3, spread: [400, 200, 0.3], altitude: [140, 60], hp: 80, damage: 10, aggression: 0.9, baseAttackers: 3 },
+  { seedKeys: ['yavin_wave3'], count: 6, spread: [800, 300, 0.5], altitude: [180, 200], hp: 50, damage: 6, aggression: 0.75, baseAttackers: 0 }
+];
+
+function spawnWave(world: IWorld, fx: YavinFixture, spec: WaveSpec): void {
+  const rng = createRng(deriveSeed(fx.seed, ...spec.seedKeys));
+  const archetype = getFighterArchetype('tie_ln');
+  const [spreadX, spreadZ, spreadYaw] = spec.spread;
+
+  fx.waveEids = [];
+  for (let i = 0; i < spec.count; i++) {
+    const angle = rng.range(-spreadYaw, spreadYaw);
+    const x = rng.range(-spreadX, spreadX);
+    const z = -2400 + rng.range(-spreadZ, spreadZ);
+    const y = spec.altitude[0] + rng.range(0, spec.altitude[1]);
+
+    const eid = addFighter(world, x, y, z, Math.PI + angle, 1);
+    addComponent(world, Targetable, eid);
+    Ship.throttle[eid] = rng.range(0.7, 0.95);
+    Ship.maxSpeed[eid] = archetype.maxSpeed;
+    Ship.accel[eid] = archetype.accel;
+    Ship.turnRate[eid] = archetype.turnRate;
+    LaserWeapon.cooldown[eid] = archetype.weaponCooldown * 1.3;
+    LaserWeapon.cooldownRemaining[eid] = rng.range(0, archetype.weaponCooldown);
+    LaserWeapon.projectileSpeed[eid] = archetype.projectileSpeed;
+    LaserWeapon.damage[eid] = spec.damage;
+    Health.hp[eid] = spec.hp;
+    Health.maxHp[eid] = spec.hp;
+    HitRadius.r[eid] = archetype.hitRadius;
+    Shield.maxSp[eid] = 8;
+    Shield.sp[eid] = 8;
+    Shield.regenRate[eid] = 2;
+    FighterBrain.aggression[eid] = spec.aggression;
+    FighterBrain.evadeBias[eid] = 0.45;
+    FighterBrain.targetEid[eid] = i < spec.baseAttackers ? fx.baseEid : -1;
+    fx.waveEids.push(eid);
+  }
+}
+
+function createYavinSim(seed = YAVIN_SEED, input: SimInputSource<SpaceInputState> = PLAYER_SCRIPT) {
+  const fx: YavinFixture = {
+    seed,
+    baseEid: -1,
+    playerEid: -1,
+    wave: 0,
+    waveEids: [],
+    kills: 0,
+    tracker: new ObjectiveTracker(OBJECTIVES)
+  };
+
+  // Next wave launches once the current one is destroyed
+  const waveSystem: SimSystem<SpaceInputState> = (world) => {
+    const alive = fx.waveEids.filter((eid) => hasComponent(world, Health, eid) && (Health.hp[eid] ?? 0) > 0);
+    fx.kills += fx.waveEids.length - alive.length;
+    fx.waveEids = alive;
+    if (alive.length > 0 || fx.wave >= WAVES.length) return;
+    spawnWave(world, fx, WAVES[fx.wave]!);
+    fx.wave += 1;
+  };
+
+  // Runs after everything else, like YavinDefenseScenario's objective update
+  const objectiveSystem: SimSystem<SpaceInputState> = (world, _input, dt) => {
+    const ctx = createDefaultObjectiveContext();
+    ctx.kills.total = fx.kills;
+    ctx.location.playerAltitude = Transform.y[fx.playerEid] ?? 0;
+    if (hasComponent(world, Health, fx.baseEid)) {
+      ctx.entities.baseHealth = Health.hp[fx.baseEid] ?? 0;
+      ctx.entities.baseHealthPercent = (ctx.entities.baseHealth / BASE_HP) * 100;
+    }
+    fx.tracker.tick(dt, ctx);
+  };
+
+  const systems: SimSystem<SpaceInputState>[] = [
+    waveSystem,
+    (world, input) => targetingSystem(world, input),
+    (world, _input, dt) => dogfightAISystem(world, dt),
+    (world, input, dt) => spaceflightSystem(world, input, dt),
+    (world, input, dt) => weaponSystem(world, input, dt),
+    (world, _input, dt) => aiWeaponSystem(world, dt),
+    (world) => rebuildSpaceCombatIndex(world),
+    (world, _input, dt) => projectileSystem(world, dt),
+    (world, input) => weaponSwitchSystem(world, input),
+    (world, input, dt) => torpedoLockSystem(world, input, dt),
+    (world, input, dt) => torpedoFireSystem(world, input, dt),
+    (world, _input, dt) => torpedoProjectileSystem(world, dt),
+    (world, _input, dt) => shieldRegenSystem(world, dt),
+    () => {
+      consumeImpactEvents();
+    },
+    objectiveSystem
+  ];
+
+  const sim = createHeadlessSim<SpaceInputState>({
+    setup(world) {
+      clearProjectilePool();
+      consumeImpactEvents();
+
+      fx.baseEid = spawnBase(world);
+      fx.playerEid = spawnPlayerShip(world);
+      Transform.x[fx.playerEid] = 0;
+      Transform.y[fx.playerEid] = 7;
+      Transform.z[fx.playerEid] = 340;
+      setYaw(fx.playerEid, Math.PI);
+      Ship.throttle[fx.playerEid] = 0.35;
+      spawnWingmen(world);
+      // The combat index is shared module state and still holds the previous
+      // sim's last tick until the systems rebuild it
+      rebuildSpaceCombatIndex(world);
+      fx.tracker.initialize();
+    },
+    systems,
+    input,
+    components: SNAPSHOT_COMPONENTS,
+    entityRefs: SNAPSHOT_REFS
+  });
+
+  return { sim, fx };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Every full-length check shares one recorded run of the scripted mission;
+// each tick costs several milliseconds, so runs are not repeated per test.
+const TICKS = 900;
+// Cross-run determinism re-simulates only the opening of the mission
+const DETERMINISM_TICKS = 300;
+
+type RecordedRun = ReturnType<typeof recordRun>;
+let baseline: RecordedRun | null = null;
+
+function recordRun() {
+  const recorder = createInputRecorder<SpaceInputState>(YAVIN_SEED, { meta: { mode: 'flight', scenario: 'yavin_defense' } });
+  const recording: SimInputSource<SpaceInputState> = (tick, world) => {
+    const input = PLAYER_SCRIPT(tick, world);
+    recorder.record(input);
+    return input;
+  };
+  const { sim, fx } = createYavinSim(YAVIN_SEED, recording);
+  const result = sim.run(TICKS);
+  // Component stores are global, so read the player's position before another sim runs
+  const playerMoved = Math.hypot(Transform.x[fx.playerEid]! - 0, Transform.z[fx.playerEid]! - 340);
+  return { result, fx, playerMoved, recording: recorder.finish() };
+}
+
+function baselineRun(): RecordedRun {
+  baseline ??= recordRun();
+  return baseline;
+}
+
+describe('Yavin Defense headless simulation', () => {
+  it('should produce identical hashes on every tick of the opening across runs', () => {
+    const first = baselineRun().result;
+    const second = createYavinSim().sim.run(DETERMINISM_TICKS);
+
+    expect(first.frames).toHaveLength(TICKS);
+    expect(second.frames.map((f) => f.hash)).toEqual(first.frames.slice(0, DETERMINISM_TICKS).map((f) => f.hash));
+    expect(second.finalHash).toBe(first.frames[DETERMINISM_TICKS - 1]!.hash);
+  });
+
+  it('should play out the mission rather than sit idle', () => {
+    const { result, fx, playerMoved } = baselineRun();
+
+    const hashes = new Set(result.frames.map((f) => f.hash));
+    expect(hashes.size).toBe(TICKS);
+
+    // Player flew off the pad
+    expect(playerMoved).toBeGreaterThan(100);
+    expect(fx.wave).toBeGreaterThanOrEqual(1);
+
+    // Lasers were fired at some point
+    const fired = result.finalSnapshot.entities.some((e) => e.Projectile !== undefined);
+    expect(fired).toBe(true);
+  });
+
+  it('should diverge when the player input differs', () => {
+    const scripted = baselineRun().result;
+    const idle = createYavinSim(YAVIN_SEED, () => NEUTRAL_INPUT).sim.run(400);
+
+    // The script throttles up from the first tick
+    expect(idle.frames[0]!.hash).not.toBe(scripted.frames[0]!.hash);
+    expect(idle.finalHash).not.toBe(scripted.frames[399]!.hash);
+  });
+
+  it('should diverge for a different mission seed', () => {
+    const a = createYavinSim(YAVIN_SEED).sim.run(60);
+    const b = createYavinSim(YAVIN_SEED + 1n).sim.run(60);
+    expect(a.finalHash).not.toBe(b.finalHash);
+  });
+});
+
+describe('Yavin Defense input replay', () => {
+  it('should record every tick compactly', () => {
+    const { recording } = baselineRun();
+    const ticks = recording.runs.reduce((sum, run) => sum + run[0]!, 0);
+    expect(ticks).toBe(TICKS);
+    expect(recording.runs.length).toBeLessThan(20);
+  });
+
+  it('should reproduce the recorded run from exported JSON', () => {
+    const original = baselineRun();
+    const decoded = decodeRecording(encodeRecording(original.recording))!;
+    expect(decoded).not.toBeNull();
+
+    const { sim, fx } = createYavinSim(BigInt(decoded.seed), createReplayInput(decoded, NEUTRAL_INPUT));
+    const replayed = sim.run(TICKS);
+
+    expect(replayed.frames.map((f) => f.hash)).toEqual(original.result.frames.map((f) => f.hash));
+    expect(fx.tracker.serialize()).toEqual(original.fx.tracker.serialize());
+  });
+
+  it('should end with objective progress in the tracker', () => {
+    const { fx } = baselineRun();
+    expect(fx.tracker.getObjective('launch')?.status).toBe(ObjectiveStatus.COMPLETED);
+    expect(fx.tracker.getObjective('intercept')?.status).not.toBe(ObjectiveStatus.PENDING);
+  });
+});
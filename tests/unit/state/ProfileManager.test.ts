@@ -3,11 +3,13 @@
  *
  * Tests versioned storage, migration, validation, and sanitization.
  *
- * Note: ProfileManager uses import.meta.env.DEV which is Vite-specific.
- * We test the core logic here using inline implementations of the key functions.
+ * Most of the core logic is tested here using inline implementations of the
+ * key functions; stored-profile migration runs against the real module.
  */
 
 import { jest } from "@jest/globals";
+import { createDefaultControlSettings, createDefaultPilotRecord } from "@xwingz/gameplay";
+import * as ProfileManager from "../../../apps/web/src/state/ProfileManager";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Inline implementations matching ProfileManager.ts logic
@@ -649,3 +651,71 @@ describe("ProfileManager", () => {
     });
   });
 });
+
+describe("ProfileManager module", () => {
+  beforeAll(() => {
+    Object.defineProperty(globalThis, "localStorage", { value: localStorageMock, configurable: true });
+  });
+
+  afterAll(() => {
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  });
+
+  beforeEach(() => {
+    localStorageMock.clear();
+    jest.clearAllMocks();
+  });
+
+  describe("version migration", () => {
+    it("should migrate a stored v1 profile to v2 with a default pilot record", () => {
+      const controls = createDefaultControlSettings();
+      controls.space.buttons.boost = ["key:b"];
+      const v1Data = {
+        version: 1,
+        data: {
+          credits: 5000,
+          missionTier: 3,
+          upgrades: { engine: 2, maneuver: 1, shields: 3, lasers: 2, hull: 1 },
+          controls
+        },
+        savedAt: Date.now(),
+      };
+      localStorageMock.setItem("xwingz_profile", JSON.stringify(v1Data));
+
+      const profile = ProfileManager.loadProfile();
+
+      expect(profile.credits).toBe(5000);
+      expect(profile.missionTier).toBe(3);
+      expect(profile.upgrades).toEqual({ engine: 2, maneuver: 1, shields: 3, lasers: 2, hull: 1 });
+      expect(profile.controls.space.buttons.boost).toEqual(["key:b"]);
+      expect(profile.pilot).toEqual(createDefaultPilotRecord());
+    });
+
+    it("should save the migrated profile as v2", () => {
+      localStorageMock.setItem("xwingz_profile", JSON.stringify({
+        version: 1,
+        data: { credits: 750, missionTier: 1, upgrades: { engine: 1 } },
+        savedAt: Date.now(),
+      }));
+
+      ProfileManager.saveProfile(ProfileManager.loadProfile());
+
+      const saved = JSON.parse(localStorageMock.getItem("xwingz_profile")!);
+      expect(saved.version).toBe(2);
+      expect(saved.data.credits).toBe(750);
+      expect(saved.data.pilot).toEqual(createDefaultPilotRecord());
+    });
+
+    it("should keep the pilot record of a v2 profile", () => {
+      const pilot = createDefaultPilotRecord();
+      pilot.bestScores = { yavin_defense: 4200 };
+      localStorageMock.setItem("xwingz_profile", JSON.stringify({
+        version: 2,
+        data: { ...ProfileManager.createDefaultProfile(), pilot },
+        savedAt: Date.now(),
+      }));
+
+      expect(ProfileManager.loadProfile().pilot.bestScores).toEqual({ yavin_defense: 4200 });
+    });
+  });
+});
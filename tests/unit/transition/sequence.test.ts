@@ -0,0 +1,154 @@
+/**
+ * Unit tests for landing / launch sequences
+ *
+ * Path shape and phase naming are checked directly; transitionSystem is run
+ * on a bare entity to check progress, leveling and the completion event.
+ */
+
+import { createWorld, addEntity, addComponent, hasComponent } from 'bitecs';
+import {
+  LANDING_DURATION,
+  LAUNCH_DURATION,
+  beginTransition,
+  consumeTransitionCompleteEvents,
+  endTransition,
+  getTransitionPhase,
+  isTransitioning,
+  transitionPathPosition,
+  transitionSystem
+} from '../../../packages/gameplay/src/transition/sequence';
+import { Transform, Velocity } from '../../../packages/gameplay/src/space/components';
+import { TransitionState, TRANSITION_TYPE } from '../../../packages/gameplay/src/conquest/components';
+
+const SOURCE = { x: 0, y: 400, z: 0 };
+const TARGET = { x: 0, y: 0, z: -400 };
+
+function createShip(world: ReturnType<typeof createWorld>): number {
+  const eid = addEntity(world);
+  addComponent(world, Transform, eid);
+  addComponent(world, Velocity, eid);
+  Transform.x[eid] = SOURCE.x;
+  Transform.y[eid] = SOURCE.y;
+  Transform.z[eid] = SOURCE.z;
+  Transform.qx[eid] = 0;
+  Transform.qy[eid] = 0;
+  Transform.qz[eid] = 0;
+  Transform.qw[eid] = 1;
+  return eid;
+}
+
+beforeEach(() => {
+  consumeTransitionCompleteEvents();
+});
+
+describe('transitionPathPosition', () => {
+  it('starts at the source and ends at the target', () => {
+    for (const type of [TRANSITION_TYPE.LANDING, TRANSITION_TYPE.LAUNCHING]) {
+      expect(transitionPathPosition(type, SOURCE, TARGET, 0)).toEqual(SOURCE);
+      expect(transitionPathPosition(type, SOURCE, TARGET, 1)).toEqual(TARGET);
+    }
+  });
+
+  it('clamps progress outside 0..1', () => {
+    expect(transitionPathPosition(TRANSITION_TYPE.LANDING, SOURCE, TARGET, 2)).toEqual(TARGET);
+    expect(transitionPathPosition(TRANSITION_TYPE.LANDING, SOURCE, TARGET, -1)).toEqual(SOURCE);
+  });
+
+  it('sheds height faster than distance when landing', () => {
+    const mid = transitionPathPosition(TRANSITION_TYPE.LANDING, SOURCE, TARGET, 0.5);
+    const heightDone = (SOURCE.y - mid.y) / (SOURCE.y - TARGET.y);
+    const distanceDone = (SOURCE.z - mid.z) / (SOURCE.z - TARGET.z);
+    expect(heightDone).toBeGreaterThan(distanceDone);
+    expect(heightDone).toBeGreaterThan(0.5);
+  });
+
+  it('climbs before it accelerates forward when launching', () => {
+    const mid = transitionPathPosition(TRANSITION_TYPE.LAUNCHING, TARGET, SOURCE, 0.5);
+    const heightDone = (mid.y - TARGET.y) / (SOURCE.y - TARGET.y);
+    const distanceDone = (mid.z - TARGET.z) / (SOURCE.z - TARGET.z);
+    expect(heightDone).toBeGreaterThan(distanceDone);
+    expect(heightDone).toBeLessThan(0.5);
+  });
+});
+
+describe('getTransitionPhase', () => {
+  it('names landing stages', () => {
+    expect(getTransitionPhase(TRANSITION_TYPE.LANDING, 0)).toBe('entry');
+    expect(getTransitionPhase(TRANSITION_TYPE.LANDING, 0.5)).toBe('descent');
+    expect(getTransitionPhase(TRANSITION_TYPE.LANDING, 0.9)).toBe('touchdown');
+  });
+
+  it('names launch stages', () => {
+    expect(getTransitionPhase(TRANSITION_TYPE.LAUNCHING, 0.1)).toBe('liftoff');
+    expect(getTransitionPhase(TRANSITION_TYPE.LAUNCHING, 0.5)).toBe('climb');
+    expect(getTransitionPhase(TRANSITION_TYPE.LAUNCHING, 1)).toBe('breakaway');
+  });
+});
+
+describe('transitionSystem', () => {
+  it('advances over the landing duration and reports completion once', () => {
+    const world = createWorld();
+    const eid = createShip(world);
+    beginTransition(world, eid, TRANSITION_TYPE.LANDING, SOURCE, TARGET, { health: 42, shields: 17 }, 7);
+    expect(isTransitioning(world, eid)).toBe(true);
+
+    transitionSystem(world, LANDING_DURATION / 2);
+    expect(TransitionState.progress[eid]).toBeCloseTo(0.5);
+    expect(consumeTransitionCompleteEvents()).toEqual([]);
+
+    transitionSystem(world, LANDING_DURATION);
+    expect(Transform.y[eid]).toBeCloseTo(TARGET.y);
+    expect(Transform.z[eid]).toBeCloseTo(TARGET.z);
+    const events = consumeTransitionCompleteEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eid,
+      type: TRANSITION_TYPE.LANDING,
+      planetEid: 7,
+      preservedHealth: 42,
+      preservedShields: 17
+    });
+
+    // Finished sequences hold their position until ended
+    transitionSystem(world, 1);
+    expect(consumeTransitionCompleteEvents()).toEqual([]);
+  });
+
+  it('uses the launch duration for launches', () => {
+    const world = createWorld();
+    const eid = createShip(world);
+    beginTransition(world, eid, TRANSITION_TYPE.LAUNCHING, SOURCE, TARGET, { health: 1, shields: 0 });
+    transitionSystem(world, LAUNCH_DURATION / 4);
+    expect(TransitionState.progress[eid]).toBeCloseTo(0.25);
+  });
+
+  it('sets velocity from the path and levels the ship out', () => {
+    const world = createWorld();
+    const eid = createShip(world);
+    // Rolled 90 degrees
+    Transform.qz[eid] = Math.SQRT1_2;
+    Transform.qw[eid] = Math.SQRT1_2;
+    beginTransition(world, eid, TRANSITION_TYPE.LANDING, SOURCE, TARGET, { health: 1, shields: 0 });
+
+    const dt = 0.5;
+    transitionSystem(world, dt);
+    expect(Velocity.vy[eid]).toBeCloseTo((Transform.y[eid]! - SOURCE.y) / dt);
+    expect(Math.abs(Transform.qz[eid]!)).toBeLessThan(Math.SQRT1_2);
+
+    transitionSystem(world, LANDING_DURATION);
+    expect(Transform.qz[eid]).toBeCloseTo(0);
+    expect(Math.abs(Transform.qw[eid]!)).toBeCloseTo(1);
+  });
+
+  it('hands the entity back on endTransition', () => {
+    const world = createWorld();
+    const eid = createShip(world);
+    beginTransition(world, eid, TRANSITION_TYPE.LANDING, SOURCE, TARGET, { health: 1, shields: 0 });
+    endTransition(world, eid);
+    expect(hasComponent(world, TransitionState, eid)).toBe(false);
+    expect(isTransitioning(world, eid)).toBe(false);
+
+    transitionSystem(world, 1);
+    expect(Transform.y[eid]).toBe(SOURCE.y);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * xwingz co-op relay
+ *
+ * Local WebSocket server for lockstep co-op. Clients join a room and the
+ * relay forwards their per-tick input frames to each other (the protocol is
+ * net.ts in @xwingz/core); it never runs the simulation itself.
+ *
+ *   npm run relay                    # ws://localhost:8787
+ *   RELAY_PORT=9000 npm run relay
+ *
+ * Then open the game with ?coop=<room> in two windows.
+ */
+
+import { createServer } from "node:http";
+import { createLogger, createRelayHub } from "@xwingz/core";
+import { acceptWebSocket } from "./websocket";
+
+const log = createLogger("Relay");
+
+const port = Number(process.env.RELAY_PORT ?? 8787);
+const hub = createRelayHub();
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain" });
+  res.end(`xwingz relay - ${hub.roomCount} room(s) open\n`);
+});
+
+server.on("upgrade", (req, socket) => {
+  const ws = acceptWebSocket(req, socket);
+  if (!ws) return;
+
+  const client = hub.connect((text) => ws.send(text));
+  ws.onmessage = (text) => client.receive(text);
+  ws.onclose = () => client.close();
+});
+
+server.listen(port, () => {
+  log.info(`Listening on ws://localhost:${port}`);
+});
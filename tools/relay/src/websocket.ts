@@ -0,0 +1,201 @@
+/**
+ * Minimal WebSocket server side (RFC 6455)
+ *
+ * Just what the relay needs: the upgrade handshake, text frames in both
+ * directions (fragmented or not), ping/pong and close. Binary frames are
+ * refused. Client frames must be masked; server frames never are.
+ */
+
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Largest message accepted from a client; input frames are tiny */
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+export const OPCODE = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa
+} as const;
+
+export interface WebSocketFrame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(): void;
+  onmessage: ((text: string) => void) | null;
+  onclose: (() => void) | null;
+}
+
+export function websocketAcceptKey(key: string): string {
+  return createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+}
+
+/**
+ * One unmasked frame, as sent by a server.
+ */
+export function encodeFrame(opcode: number, payload: Buffer, fin = true): Buffer {
+  const first = (fin ? 0x80 : 0) | opcode;
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([first, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = first;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = first;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Incremental frame parser: feed it socket chunks, get whole frames back.
+ * Throws on frames a server must reject (unmasked, oversized).
+ */
+export function createFrameReader(): (chunk: Buffer) => WebSocketFrame[] {
+  let buffered: Buffer = Buffer.alloc(0);
+
+  return (chunk) => {
+    buffered = buffered.length === 0 ? chunk : Buffer.concat([buffered, chunk]);
+    const frames: WebSocketFrame[] = [];
+
+    while (buffered.length >= 2) {
+      const b0 = buffered[0]!;
+      const b1 = buffered[1]!;
+      const masked = (b1 & 0x80) !== 0;
+      let length = b1 & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffered.length < 4) break;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) break;
+        const big = buffered.readBigUInt64BE(2);
+        if (big > BigInt(MAX_MESSAGE_BYTES)) throw new Error("WebSocket frame too large");
+        length = Number(big);
+        offset = 10;
+      }
+      if (!masked) throw new Error("WebSocket client frames must be masked");
+      if (length > MAX_MESSAGE_BYTES) throw new Error("WebSocket frame too large");
+      if (buffered.length < offset + 4 + length) break;
+
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] = payload[i]! ^ mask[i & 3]!;
+      }
+      frames.push({ fin: (b0 & 0x80) !== 0, opcode: b0 & 0x0f, payload });
+      buffered = buffered.subarray(offset + 4 + length);
+    }
+
+    return frames;
+  };
+}
+
+/**
+ * Complete the upgrade handshake on `socket`. Returns null (and answers
+ * 400) if the request isn't a WebSocket upgrade.
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${websocketAcceptKey(key)}\r\n\r\n`
+  );
+
+  const read = createFrameReader();
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+  let open = true;
+
+  const connection: WebSocketConnection = {
+    onmessage: null,
+    onclose: null,
+    send(text) {
+      if (open) socket.write(encodeFrame(OPCODE.TEXT, Buffer.from(text, "utf8")));
+    },
+    close() {
+      if (!open) return;
+      socket.write(encodeFrame(OPCODE.CLOSE, Buffer.alloc(0)));
+      shutdown();
+    }
+  };
+
+  function shutdown(): void {
+    if (!open) return;
+    open = false;
+    socket.end();
+    connection.onclose?.();
+  }
+
+  socket.on("data", (chunk: Buffer) => {
+    let frames: WebSocketFrame[];
+    try {
+      frames = read(chunk);
+    } catch {
+      connection.close();
+      return;
+    }
+
+    for (const frame of frames) {
+      if (!open) return;
+      switch (frame.opcode) {
+        case OPCODE.TEXT:
+        case OPCODE.CONTINUATION:
+          fragments.push(frame.payload);
+          fragmentBytes += frame.payload.length;
+          if (fragmentBytes > MAX_MESSAGE_BYTES) {
+            connection.close();
+            return;
+          }
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString("utf8");
+            fragments = [];
+            fragmentBytes = 0;
+            connection.onmessage?.(text);
+          }
+          break;
+        case OPCODE.PING:
+          socket.write(encodeFrame(OPCODE.PONG, frame.payload));
+          break;
+        case OPCODE.PONG:
+          break;
+        case OPCODE.CLOSE:
+          connection.close();
+          return;
+        default:
+          // Binary or reserved opcodes - the protocol is text only
+          connection.close();
+          return;
+      }
+    }
+  });
+  socket.on("close", shutdown);
+  socket.on("error", shutdown);
+
+  return connection;
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vite";
+
+// Bundle the relay (and the @xwingz/core protocol it shares with the game) into one Node script
+export default defineConfig({
+  build: {
+    ssr: "src/server.ts",
+    outDir: "dist",
+    target: "node20",
+    rollupOptions: {
+      output: { entryFileNames: "server.js" }
+    }
+  },
+  ssr: {
+    noExternal: true
+  }
+});